@@ -0,0 +1,16 @@
+-- ============================================
+-- PDF DOS DOCUMENTOS DE FATURACAO
+-- URL do ultimo PDF gerado para faturas, notas de credito e recibos
+-- ============================================
+
+ALTER TABLE faturas ADD COLUMN IF NOT EXISTS "pdfUrl" VARCHAR(500);
+-- Este ficheiro corre antes de create_notas_credito.sql, que ja cria a tabela com a coluna
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'notas_credito'
+  ) THEN
+    ALTER TABLE notas_credito ADD COLUMN IF NOT EXISTS "pdfUrl" VARCHAR(500);
+  END IF;
+END $$;
+ALTER TABLE pagamentos_fatura ADD COLUMN IF NOT EXISTS "reciboPdfUrl" VARCHAR(500);
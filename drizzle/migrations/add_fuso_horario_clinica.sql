@@ -0,0 +1,6 @@
+-- ============================================
+-- FUSO HORARIO DA CLINICA
+-- Agenda, lembretes, relatorios e mensagens na hora local (continente, Madeira, Acores)
+-- ============================================
+
+ALTER TABLE clinicas ADD COLUMN IF NOT EXISTS "fusoHorario" VARCHAR(50) NOT NULL DEFAULT 'Europe/Lisbon';
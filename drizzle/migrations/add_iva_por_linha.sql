@@ -0,0 +1,45 @@
+-- ============================================
+-- IVA POR LINHA
+-- Taxa de IVA e motivo de isencao em cada linha de fatura e de nota de credito,
+-- com valores por omissao no procedimento
+-- ============================================
+
+ALTER TABLE procedimentos ADD COLUMN IF NOT EXISTS "taxaIVA" NUMERIC(5, 2) NOT NULL DEFAULT 0;
+ALTER TABLE procedimentos ADD COLUMN IF NOT EXISTS "motivoIsencao" VARCHAR(3) DEFAULT 'M07';
+
+-- As linhas existentes herdam a taxa unica do documento (so na primeira execucao)
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'itens_fatura' AND column_name = 'taxaIVA'
+  ) THEN
+    ALTER TABLE itens_fatura ADD COLUMN "taxaIVA" NUMERIC(5, 2) NOT NULL DEFAULT 0;
+    ALTER TABLE itens_fatura ADD COLUMN "motivoIsencao" VARCHAR(3);
+
+    UPDATE itens_fatura i
+    SET "taxaIVA" = f."percentagemIVA",
+        "motivoIsencao" = CASE WHEN f."percentagemIVA" = 0 THEN 'M07' END
+    FROM faturas f
+    WHERE f.id = i."faturaId";
+  END IF;
+END $$;
+
+-- Este ficheiro corre antes de create_notas_credito.sql, que ja cria a tabela com as colunas
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'itens_nota_credito'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'itens_nota_credito' AND column_name = 'taxaIVA'
+  ) THEN
+    ALTER TABLE itens_nota_credito ADD COLUMN "taxaIVA" NUMERIC(5, 2) NOT NULL DEFAULT 0;
+    ALTER TABLE itens_nota_credito ADD COLUMN "motivoIsencao" VARCHAR(3);
+
+    UPDATE itens_nota_credito i
+    SET "taxaIVA" = n."percentagemIVA",
+        "motivoIsencao" = CASE WHEN n."percentagemIVA" = 0 THEN 'M07' END
+    FROM notas_credito n
+    WHERE n.id = i."notaCreditoId";
+  END IF;
+END $$;
@@ -0,0 +1,55 @@
+-- ============================================
+-- CHEQUES-DENTISTA (SNS)
+-- Cheques dos utentes, consultas em que foram utilizados e atos pagos pelo cheque
+-- ============================================
+
+ALTER TABLE procedimentos ADD COLUMN IF NOT EXISTS "abrangidoChequeDentista" BOOLEAN NOT NULL DEFAULT FALSE;
+
+DO $$ BEGIN
+  CREATE TYPE tipo_cheque_dentista AS ENUM ('crianca_jovem', 'gravida', 'idoso', 'vih_sida', 'outro');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE estado_cheque_dentista AS ENUM ('ativo', 'utilizado', 'expirado', 'anulado');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS cheques_dentista (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  numero VARCHAR(50) NOT NULL,
+  tipo tipo_cheque_dentista NOT NULL,
+  "numeroSNS" VARCHAR(20),
+  "dataEmissao" DATE NOT NULL,
+  "validoAte" DATE NOT NULL,
+  "consultasPermitidas" INTEGER NOT NULL DEFAULT 1 CHECK ("consultasPermitidas" > 0),
+  "consultasUtilizadas" INTEGER NOT NULL DEFAULT 0 CHECK ("consultasUtilizadas" <= "consultasPermitidas"),
+  "valorReembolso" NUMERIC(10, 2) NOT NULL,
+  estado estado_cheque_dentista NOT NULL DEFAULT 'ativo',
+  "alertaExpiracaoEm" TIMESTAMP,
+  observacoes TEXT,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE ("clinicaId", numero)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cheques_dentista_utente ON cheques_dentista("utenteId");
+CREATE INDEX IF NOT EXISTS idx_cheques_dentista_validade ON cheques_dentista(estado, "validoAte");
+
+CREATE TABLE IF NOT EXISTS utilizacoes_cheque_dentista (
+  id SERIAL PRIMARY KEY,
+  "chequeId" INTEGER NOT NULL REFERENCES cheques_dentista(id) ON DELETE CASCADE,
+  "consultaId" INTEGER NOT NULL UNIQUE REFERENCES consultas(id),
+  "dataUtilizacao" DATE NOT NULL,
+  "valorReembolso" NUMERIC(10, 2) NOT NULL,
+  "reembolsadoEm" TIMESTAMP,
+  "referenciaReembolso" VARCHAR(255),
+  "registadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_utilizacoes_cheque_data ON utilizacoes_cheque_dentista("dataUtilizacao");
@@ -0,0 +1,79 @@
+-- ============================================
+-- COBRANCA DE FATURAS VENCIDAS
+-- Escala de passos por clinica (email, SMS, WhatsApp, tarefa da equipa), cobrancas por fatura
+-- e registo de cada passo executado
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE canal_cobranca AS ENUM ('email', 'sms', 'whatsapp', 'tarefa');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE estado_cobranca AS ENUM ('ativa', 'interrompida', 'concluida');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE estado_acao_cobranca AS ENUM ('enviada', 'falhada', 'sem_contacto', 'saltada', 'pendente', 'concluida', 'cancelada');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS passos_cobranca (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "diasAposVencimento" INTEGER NOT NULL CHECK ("diasAposVencimento" >= 0),
+  canal canal_cobranca NOT NULL,
+  mensagem TEXT,
+  "incluirLinkPagamento" BOOLEAN NOT NULL DEFAULT FALSE,
+  ativo BOOLEAN NOT NULL DEFAULT TRUE,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE ("clinicaId", "diasAposVencimento", canal)
+);
+
+CREATE TABLE IF NOT EXISTS cobrancas_fatura (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "faturaId" INTEGER NOT NULL UNIQUE REFERENCES faturas(id),
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id),
+  estado estado_cobranca NOT NULL DEFAULT 'ativa',
+  "iniciadaEm" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "terminadaEm" TIMESTAMP,
+  motivo VARCHAR(255),
+  "tokenPagamento" VARCHAR(64) NOT NULL UNIQUE,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_cobrancas_fatura_clinica_estado ON cobrancas_fatura("clinicaId", estado);
+
+-- Um registo por fatura, dia e canal: o mesmo passo nunca e executado duas vezes
+CREATE TABLE IF NOT EXISTS acoes_cobranca (
+  id SERIAL PRIMARY KEY,
+  "cobrancaId" INTEGER NOT NULL REFERENCES cobrancas_fatura(id) ON DELETE CASCADE,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "faturaId" INTEGER NOT NULL REFERENCES faturas(id),
+  "diasAposVencimento" INTEGER NOT NULL,
+  canal canal_cobranca NOT NULL,
+  estado estado_acao_cobranca NOT NULL,
+  destinatario VARCHAR(255),
+  mensagem TEXT,
+  tentativas INTEGER NOT NULL DEFAULT 1,
+  erro TEXT,
+  "concluidaEm" TIMESTAMP,
+  "concluidaPor" INTEGER REFERENCES users(id),
+  observacoes TEXT,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE ("faturaId", "diasAposVencimento", canal)
+);
+
+-- Tarefas da equipa por fazer
+CREATE INDEX IF NOT EXISTS idx_acoes_cobranca_pendentes ON acoes_cobranca("clinicaId") WHERE estado = 'pendente';
+
+-- Faturas por vencer ou vencidas (job diario)
+CREATE INDEX IF NOT EXISTS idx_faturas_estado_vencimento ON faturas(estado, "dataVencimento");
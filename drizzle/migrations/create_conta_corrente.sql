@@ -0,0 +1,32 @@
+-- ============================================
+-- CONTA CORRENTE DO UTENTE
+-- Recebimentos imputados a varias faturas, adiantamentos (credito) e reembolsos
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE tipo_recebimento AS ENUM ('recebimento', 'reembolso');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS recebimentos (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  tipo tipo_recebimento NOT NULL DEFAULT 'recebimento',
+  valor NUMERIC(10, 2) NOT NULL CHECK (valor > 0),
+  "metodoPagamento" VARCHAR(50) NOT NULL,
+  "dataRecebimento" TIMESTAMP NOT NULL,
+  referencia VARCHAR(255),
+  observacoes TEXT,
+  "registadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_recebimentos_utente ON recebimentos("clinicaId", "utenteId", "dataRecebimento");
+
+-- Pagamentos de faturas feitos com o credito da conta corrente (nao sao entradas de dinheiro)
+ALTER TABLE pagamentos_fatura ADD COLUMN IF NOT EXISTS "porConta" BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE pagamentos_fatura ADD COLUMN IF NOT EXISTS "recebimentoId" INTEGER REFERENCES recebimentos(id);
+
+CREATE INDEX IF NOT EXISTS idx_pagamentos_fatura_recebimento ON pagamentos_fatura("recebimentoId");
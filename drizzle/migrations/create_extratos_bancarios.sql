@@ -0,0 +1,50 @@
+-- ============================================
+-- EXTRATOS BANCARIOS
+-- Importacao de extratos (CSV e camt.053) e conciliacao dos movimentos com as faturas
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS extratos_bancarios (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  formato VARCHAR(30) NOT NULL,
+  "nomeFicheiro" VARCHAR(255),
+  iban VARCHAR(34),
+  "dataInicio" DATE,
+  "dataFim" DATE,
+  "numeroMovimentos" INTEGER NOT NULL DEFAULT 0,
+  "importadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+DO $$ BEGIN
+  CREATE TYPE estado_movimento_bancario AS ENUM ('por_conciliar', 'sugerido', 'ambiguo', 'conciliado', 'ignorado');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS movimentos_bancarios (
+  id SERIAL PRIMARY KEY,
+  "extratoId" INTEGER NOT NULL REFERENCES extratos_bancarios(id) ON DELETE CASCADE,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  chave VARCHAR(64) NOT NULL,
+  "dataMovimento" DATE NOT NULL,
+  "dataValor" DATE,
+  descricao TEXT,
+  valor NUMERIC(10, 2) NOT NULL CHECK (valor > 0),
+  referencia VARCHAR(255),
+  "nomeOrdenante" VARCHAR(255),
+  "ibanOrdenante" VARCHAR(34),
+  estado estado_movimento_bancario NOT NULL DEFAULT 'por_conciliar',
+  sugestoes JSONB,
+  "faturaId" INTEGER REFERENCES faturas(id),
+  "utenteId" INTEGER REFERENCES utentes(id),
+  "recebimentoId" INTEGER REFERENCES recebimentos(id),
+  "conciliadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  -- O mesmo movimento pode vir em extratos sobrepostos
+  UNIQUE ("clinicaId", chave)
+);
+
+CREATE INDEX IF NOT EXISTS idx_movimentos_bancarios_estado ON movimentos_bancarios("clinicaId", estado);
+CREATE INDEX IF NOT EXISTS idx_movimentos_bancarios_extrato ON movimentos_bancarios("extratoId");
@@ -0,0 +1,27 @@
+-- ============================================
+-- FEEDS ICALENDAR (ICS)
+-- URLs secretos e revogaveis para subscrever a agenda de um dentista ou da clinica
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE privacidade_feed AS ENUM ('completo', 'iniciais', 'ocupado');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS feeds_calendario (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "dentistaId" INTEGER REFERENCES dentistas(id) ON DELETE CASCADE, -- NULL = todos os dentistas
+  token VARCHAR(64) NOT NULL UNIQUE,
+  nome VARCHAR(255) NOT NULL,
+  privacidade privacidade_feed NOT NULL DEFAULT 'iniciais',
+  "incluirObservacoes" BOOLEAN NOT NULL DEFAULT FALSE,
+  ativo BOOLEAN NOT NULL DEFAULT TRUE,
+  "revogadoEm" TIMESTAMP,
+  "ultimoAcesso" TIMESTAMP,
+  "criadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feeds_calendario_clinica ON feeds_calendario("clinicaId", "dentistaId");
@@ -0,0 +1,24 @@
+-- ============================================
+-- CICLO DE VIDA DAS CONSULTAS
+-- Novo estado "chegou" (check-in), horas de chegada/inicio e historico de transicoes
+-- ============================================
+
+-- ADD VALUE nao pode correr dentro de um bloco de transacao em PostgreSQL < 12
+ALTER TYPE consulta_estado ADD VALUE IF NOT EXISTS 'chegou' BEFORE 'em_curso';
+
+ALTER TABLE consultas ADD COLUMN IF NOT EXISTS "chegadaEm" TIMESTAMP;
+ALTER TABLE consultas ADD COLUMN IF NOT EXISTS "iniciadaEm" TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS historico_estados_consulta (
+  id SERIAL PRIMARY KEY,
+  "consultaId" INTEGER NOT NULL REFERENCES consultas(id) ON DELETE CASCADE,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "estadoAnterior" consulta_estado NOT NULL,
+  "estadoNovo" consulta_estado NOT NULL,
+  "userId" INTEGER REFERENCES users(id), -- NULL = alteracao automatica do sistema
+  papel VARCHAR(20) NOT NULL,
+  motivo TEXT,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_historico_estados_consulta ON historico_estados_consulta("consultaId", "createdAt");
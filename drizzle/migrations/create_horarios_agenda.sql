@@ -0,0 +1,63 @@
+-- ============================================
+-- HORARIOS DE FUNCIONAMENTO E DISPONIBILIDADE
+-- Horario da clinica, horario semanal por dentista e excecoes datadas
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE tipo_bloco_horario AS ENUM ('trabalho', 'pausa');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE tipo_excecao_horario AS ENUM ('feriado', 'ferias', 'formacao', 'ausencia', 'outro');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Horario de funcionamento da clinica (varios periodos por dia)
+CREATE TABLE IF NOT EXISTS horarios_clinica (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "diaSemana" INTEGER NOT NULL CHECK ("diaSemana" BETWEEN 0 AND 6), -- 0=domingo
+  "horaInicio" TIME NOT NULL,
+  "horaFim" TIME NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CHECK ("horaFim" > "horaInicio")
+);
+
+-- Horario semanal de cada dentista (turnos e pausas)
+CREATE TABLE IF NOT EXISTS horarios_dentista (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "dentistaId" INTEGER NOT NULL REFERENCES dentistas(id) ON DELETE CASCADE,
+  "diaSemana" INTEGER NOT NULL CHECK ("diaSemana" BETWEEN 0 AND 6),
+  tipo tipo_bloco_horario NOT NULL DEFAULT 'trabalho',
+  "horaInicio" TIME NOT NULL,
+  "horaFim" TIME NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CHECK ("horaFim" > "horaInicio")
+);
+
+-- Excecoes: feriados, ferias, formacoes, ausencias
+-- "dentistaId" NULL = aplica-se a toda a clinica; "horaInicio" NULL = dia inteiro
+CREATE TABLE IF NOT EXISTS excecoes_horario (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "dentistaId" INTEGER REFERENCES dentistas(id) ON DELETE CASCADE,
+  tipo tipo_excecao_horario NOT NULL,
+  "dataInicio" DATE NOT NULL,
+  "dataFim" DATE NOT NULL,
+  "horaInicio" TIME,
+  "horaFim" TIME,
+  descricao VARCHAR(255),
+  observacoes TEXT,
+  "criadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CHECK ("dataFim" >= "dataInicio")
+);
+
+CREATE INDEX IF NOT EXISTS idx_horarios_clinica_dia ON horarios_clinica("clinicaId", "diaSemana");
+CREATE INDEX IF NOT EXISTS idx_horarios_dentista_dia ON horarios_dentista("dentistaId", "diaSemana");
+CREATE INDEX IF NOT EXISTS idx_excecoes_horario_periodo ON excecoes_horario("clinicaId", "dataInicio", "dataFim");
+CREATE INDEX IF NOT EXISTS idx_excecoes_horario_dentista ON excecoes_horario("dentistaId");
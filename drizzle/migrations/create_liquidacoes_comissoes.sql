@@ -0,0 +1,109 @@
+-- ============================================
+-- COMISSOES DOS DENTISTAS
+-- Comissao calculada na emissao de cada linha de fatura, devida na faturacao ou no recebimento
+-- (politica da clinica), e liquidacoes mensais fechadas por dentista
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE momento_comissao AS ENUM ('faturacao', 'recebimento');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE clinicas ADD COLUMN IF NOT EXISTS "momentoComissao" momento_comissao NOT NULL DEFAULT 'faturacao';
+
+ALTER TABLE itens_fatura ADD COLUMN IF NOT EXISTS "dentistaId" INTEGER REFERENCES dentistas(id);
+ALTER TABLE itens_fatura ADD COLUMN IF NOT EXISTS "custosDeduzidos" NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+-- Faturas anteriores: o dentista da consulta faturada
+UPDATE itens_fatura i
+SET "dentistaId" = c."dentistaId"
+FROM faturas f
+JOIN consultas c ON c.id = f."consultaId"
+WHERE f.id = i."faturaId" AND i."dentistaId" IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_itens_fatura_dentista ON itens_fatura("dentistaId");
+
+CREATE TABLE IF NOT EXISTS liquidacoes_comissoes (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "dentistaId" INTEGER NOT NULL REFERENCES dentistas(id),
+  periodo VARCHAR(7) NOT NULL,
+  "momentoComissao" VARCHAR(20) NOT NULL,
+  "totalBase" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "totalCustos" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "totalComissao" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "totalClinica" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "fechadaEm" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "fechadaPor" INTEGER REFERENCES users(id),
+  UNIQUE ("clinicaId", "dentistaId", periodo)
+);
+
+DO $$ BEGIN
+  CREATE TYPE origem_linha_comissao AS ENUM ('fatura', 'nota_credito', 'pagamento', 'comparticipacao');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- ADD VALUE nao pode correr dentro de um bloco de transacao em PostgreSQL < 12
+ALTER TYPE origem_linha_comissao ADD VALUE IF NOT EXISTS 'comparticipacao';
+
+CREATE TABLE IF NOT EXISTS linhas_liquidacao_comissao (
+  id SERIAL PRIMARY KEY,
+  "liquidacaoId" INTEGER NOT NULL REFERENCES liquidacoes_comissoes(id) ON DELETE CASCADE,
+  origem origem_linha_comissao NOT NULL,
+  chave VARCHAR(100) NOT NULL UNIQUE,
+  "faturaId" INTEGER REFERENCES faturas(id), -- NULL nas comparticipacoes sem fatura do utente
+  "itemFaturaId" INTEGER REFERENCES itens_fatura(id),
+  "itemNotaCreditoId" INTEGER, -- FK para itens_nota_credito (abaixo)
+  "pagamentoId" INTEGER REFERENCES pagamentos_fatura(id),
+  "comparticipacaoId" INTEGER, -- FK para comparticipacoes (abaixo)
+  data DATE NOT NULL,
+  documento VARCHAR(50) NOT NULL,
+  descricao VARCHAR(500) NOT NULL,
+  utente VARCHAR(255),
+  base NUMERIC(10, 2) NOT NULL,
+  custos NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  comissao NUMERIC(10, 2) NOT NULL,
+  "valorClinica" NUMERIC(10, 2) NOT NULL
+);
+
+-- Parte das entidades (comparticipacoes) nas liquidacoes
+ALTER TABLE linhas_liquidacao_comissao ADD COLUMN IF NOT EXISTS "comparticipacaoId" INTEGER;
+ALTER TABLE linhas_liquidacao_comissao ALTER COLUMN "faturaId" DROP NOT NULL;
+ALTER TABLE linhas_liquidacao_comissao ALTER COLUMN "itemFaturaId" DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_linhas_liquidacao_comissao_liquidacao ON linhas_liquidacao_comissao("liquidacaoId");
+CREATE INDEX IF NOT EXISTS idx_linhas_liquidacao_comissao_item ON linhas_liquidacao_comissao("itemFaturaId");
+CREATE INDEX IF NOT EXISTS idx_linhas_liquidacao_comissao_comparticipacao ON linhas_liquidacao_comissao("comparticipacaoId");
+
+-- itens_nota_credito e criada em create_notas_credito.sql, que corre depois deste ficheiro numa
+-- instalacao nova: a FK e criada pelo ficheiro que correr em segundo
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'itens_nota_credito'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'linhas_liquidacao_comissao_itemNotaCreditoId_fkey'
+  ) THEN
+    ALTER TABLE linhas_liquidacao_comissao
+      ADD CONSTRAINT "linhas_liquidacao_comissao_itemNotaCreditoId_fkey"
+      FOREIGN KEY ("itemNotaCreditoId") REFERENCES itens_nota_credito(id);
+  END IF;
+END $$;
+
+-- comparticipacoes e criada em create_seguradoras.sql, que tambem corre depois deste ficheiro
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'comparticipacoes'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'linhas_liquidacao_comissao_comparticipacaoId_fkey'
+  ) THEN
+    ALTER TABLE linhas_liquidacao_comissao
+      ADD CONSTRAINT "linhas_liquidacao_comissao_comparticipacaoId_fkey"
+      FOREIGN KEY ("comparticipacaoId") REFERENCES comparticipacoes(id);
+  END IF;
+END $$;
@@ -0,0 +1,59 @@
+-- ============================================
+-- LISTA DE ESPERA E OFERTAS DE VAGAS
+-- Vagas libertadas por cancelamentos/faltas sao oferecidas aos utentes em espera
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE estado_lista_espera AS ENUM ('ativa', 'agendada', 'cancelada');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE estado_oferta_vaga AS ENUM ('pendente', 'aceite', 'recusada', 'expirada', 'preenchida');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS lista_espera (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  "dentistaId" INTEGER REFERENCES dentistas(id) ON DELETE SET NULL, -- NULL = qualquer dentista
+  "procedimentoId" INTEGER REFERENCES procedimentos(id) ON DELETE SET NULL,
+  "diasSemana" JSONB, -- [0..6], 0=domingo; NULL = qualquer dia
+  "horaInicioPreferida" TIME,
+  "horaFimPreferida" TIME,
+  prioridade INTEGER NOT NULL DEFAULT 0,
+  estado estado_lista_espera NOT NULL DEFAULT 'ativa',
+  "consultaId" INTEGER REFERENCES consultas(id) ON DELETE SET NULL,
+  observacoes TEXT,
+  "criadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS ofertas_vaga (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "listaEsperaId" INTEGER NOT NULL REFERENCES lista_espera(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  "dentistaId" INTEGER NOT NULL REFERENCES dentistas(id),
+  "procedimentoId" INTEGER REFERENCES procedimentos(id),
+  "horaInicio" TIMESTAMP NOT NULL,
+  "horaFim" TIMESTAMP NOT NULL,
+  "consultaOrigemId" INTEGER REFERENCES consultas(id) ON DELETE SET NULL,
+  canal VARCHAR(20) NOT NULL,
+  pontuacao INTEGER NOT NULL DEFAULT 0,
+  estado estado_oferta_vaga NOT NULL DEFAULT 'pendente',
+  "expiraEm" TIMESTAMP NOT NULL,
+  "respondidaEm" TIMESTAMP,
+  "consultaId" INTEGER REFERENCES consultas(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lista_espera_clinica_estado ON lista_espera("clinicaId", estado);
+CREATE INDEX IF NOT EXISTS idx_ofertas_vaga_utente_estado ON ofertas_vaga("utenteId", estado);
+CREATE INDEX IF NOT EXISTS idx_ofertas_vaga_vaga ON ofertas_vaga("dentistaId", "horaInicio");
+
+-- Garantia final contra dupla marcacao: uma vaga so pode ter uma oferta aceite
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ofertas_vaga_aceite_unica
+  ON ofertas_vaga("dentistaId", "horaInicio") WHERE estado = 'aceite';
@@ -0,0 +1,53 @@
+-- ============================================
+-- MARCACAO ONLINE
+-- Configuracao por clinica e reservas temporarias confirmadas por codigo (OTP)
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE estado_reserva_online AS ENUM ('pendente', 'confirmada', 'expirada', 'cancelada');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE canal_codigo AS ENUM ('sms', 'email');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS configuracoes_marcacao_online (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL UNIQUE REFERENCES clinicas(id) ON DELETE CASCADE,
+  ativo BOOLEAN NOT NULL DEFAULT FALSE,
+  "procedimentoIds" JSONB NOT NULL DEFAULT '[]',
+  "dentistaIds" JSONB NOT NULL DEFAULT '[]',
+  "antecedenciaMinimaMinutos" INTEGER NOT NULL DEFAULT 120,
+  "antecedenciaMaximaDias" INTEGER NOT NULL DEFAULT 60,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS reservas_marcacao_online (
+  id SERIAL PRIMARY KEY,
+  token VARCHAR(64) NOT NULL UNIQUE,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "dentistaId" INTEGER NOT NULL REFERENCES dentistas(id),
+  "procedimentoId" INTEGER NOT NULL REFERENCES procedimentos(id),
+  "horaInicio" TIMESTAMP NOT NULL,
+  "horaFim" TIMESTAMP NOT NULL,
+  nome VARCHAR(255) NOT NULL,
+  telemovel VARCHAR(50) NOT NULL,
+  email VARCHAR(320),
+  nif VARCHAR(50),
+  "canalCodigo" canal_codigo NOT NULL DEFAULT 'sms',
+  "codigoHash" VARCHAR(64) NOT NULL,
+  tentativas INTEGER NOT NULL DEFAULT 0,
+  estado estado_reserva_online NOT NULL DEFAULT 'pendente',
+  "expiraEm" TIMESTAMP NOT NULL,
+  "utenteId" INTEGER REFERENCES utentes(id),
+  "consultaId" INTEGER REFERENCES consultas(id) ON DELETE SET NULL,
+  ip VARCHAR(64),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "confirmadaEm" TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservas_online_dentista_hora ON reservas_marcacao_online("dentistaId", "horaInicio");
+CREATE INDEX IF NOT EXISTS idx_reservas_online_estado ON reservas_marcacao_online(estado, "expiraEm");
@@ -0,0 +1,68 @@
+-- ============================================
+-- MULTIBANCO
+-- Referencias para faturas e prestacoes e conciliacao automatica dos pagamentos
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS configuracoes_multibanco (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL UNIQUE REFERENCES clinicas(id) ON DELETE CASCADE,
+  provedor VARCHAR(50) NOT NULL DEFAULT 'simulador',
+  entidade VARCHAR(5) NOT NULL,
+  subentidade VARCHAR(3) NOT NULL,
+  "chaveAntiPhishing" VARCHAR(100),
+  "validadeDias" INTEGER NOT NULL DEFAULT 30,
+  "ultimaSequencia" INTEGER NOT NULL DEFAULT 0,
+  ativo BOOLEAN NOT NULL DEFAULT TRUE,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (entidade, subentidade)
+);
+
+DO $$ BEGIN
+  CREATE TYPE estado_referencia_multibanco AS ENUM ('pendente', 'paga', 'expirada', 'anulada');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS referencias_multibanco (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  "faturaId" INTEGER REFERENCES faturas(id),
+  "prestacaoId" INTEGER, -- FK para prestacoes_plano (abaixo)
+  provedor VARCHAR(50) NOT NULL,
+  entidade VARCHAR(5) NOT NULL,
+  referencia VARCHAR(9) NOT NULL,
+  valor NUMERIC(10, 2) NOT NULL CHECK (valor > 0),
+  "dataLimite" DATE,
+  estado estado_referencia_multibanco NOT NULL DEFAULT 'pendente',
+  "dataPagamento" TIMESTAMP,
+  "valorPago" NUMERIC(10, 2),
+  "idTransacao" VARCHAR(255) UNIQUE,
+  terminal VARCHAR(100),
+  "recebimentoId" INTEGER REFERENCES recebimentos(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Uma referencia so pode estar pendente uma vez (a sequencia de 4 digitos e reutilizada em ciclo)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referencias_multibanco_pendente
+  ON referencias_multibanco(entidade, referencia) WHERE estado = 'pendente';
+CREATE INDEX IF NOT EXISTS idx_referencias_multibanco_fatura ON referencias_multibanco("faturaId");
+CREATE INDEX IF NOT EXISTS idx_referencias_multibanco_prestacao ON referencias_multibanco("prestacaoId");
+
+-- prestacoes_plano e criada em create_planos_pagamento.sql, que corre depois deste ficheiro numa
+-- instalacao nova: a FK e criada pelo ficheiro que correr em segundo
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'prestacoes_plano'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'referencias_multibanco_prestacaoId_fkey'
+  ) THEN
+    ALTER TABLE referencias_multibanco
+      ADD CONSTRAINT "referencias_multibanco_prestacaoId_fkey"
+      FOREIGN KEY ("prestacaoId") REFERENCES prestacoes_plano(id);
+  END IF;
+END $$;
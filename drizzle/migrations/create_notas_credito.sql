@@ -0,0 +1,68 @@
+-- ============================================
+-- NOTAS DE CREDITO
+-- Retificacao total ou parcial de faturas emitidas, com reembolso opcional ao utente
+-- ============================================
+
+-- ADD VALUE nao pode correr dentro de um bloco de transacao em PostgreSQL < 12
+ALTER TYPE fatura_estado ADD VALUE IF NOT EXISTS 'creditada';
+
+ALTER TABLE faturas ADD COLUMN IF NOT EXISTS "valorCreditado" NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE itens_fatura ADD COLUMN IF NOT EXISTS "valorCreditado" NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS notas_credito (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id),
+  "faturaId" INTEGER NOT NULL REFERENCES faturas(id),
+  numero VARCHAR(50) NOT NULL,
+  "dataEmissao" TIMESTAMP NOT NULL,
+  motivo TEXT NOT NULL,
+  subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "percentagemIVA" NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  "valorIVA" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "valorDesconto" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "valorTotal" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "valorReembolsado" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "pagamentoReembolsoId" INTEGER REFERENCES pagamentos_fatura(id),
+  "referenciaExterna" VARCHAR(255) UNIQUE, -- Ex: id do reembolso no Stripe (evita notas duplicadas)
+  "emitidaPor" INTEGER REFERENCES users(id), -- NULL = emitida automaticamente
+  "pdfUrl" VARCHAR(500),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS itens_nota_credito (
+  id SERIAL PRIMARY KEY,
+  "notaCreditoId" INTEGER NOT NULL REFERENCES notas_credito(id) ON DELETE CASCADE,
+  "itemFaturaId" INTEGER NOT NULL REFERENCES itens_fatura(id),
+  "procedimentoId" INTEGER REFERENCES procedimentos(id),
+  descricao VARCHAR(500) NOT NULL,
+  quantidade INTEGER NOT NULL DEFAULT 1,
+  "precoUnitario" NUMERIC(10, 2) NOT NULL,
+  "precoTotal" NUMERIC(10, 2) NOT NULL,
+  "taxaIVA" NUMERIC(5, 2) NOT NULL DEFAULT 0, -- Da linha da fatura
+  "motivoIsencao" VARCHAR(3),
+  "comissaoDentista" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "valorClinica" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notas_credito_numero ON notas_credito("clinicaId", numero);
+CREATE INDEX IF NOT EXISTS idx_notas_credito_fatura ON notas_credito("faturaId");
+CREATE INDEX IF NOT EXISTS idx_itens_nota_credito_nota ON itens_nota_credito("notaCreditoId");
+
+-- FK das linhas de liquidacao de comissoes, quando create_liquidacoes_comissoes.sql correu antes
+-- desta tabela existir
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'linhas_liquidacao_comissao'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'linhas_liquidacao_comissao_itemNotaCreditoId_fkey'
+  ) THEN
+    ALTER TABLE linhas_liquidacao_comissao
+      ADD CONSTRAINT "linhas_liquidacao_comissao_itemNotaCreditoId_fkey"
+      FOREIGN KEY ("itemNotaCreditoId") REFERENCES itens_nota_credito(id);
+  END IF;
+END $$;
@@ -0,0 +1,70 @@
+-- ============================================
+-- PLANOS DE PAGAMENTO
+-- Tratamentos pagos em prestacoes, com entrada, vencimentos e lembretes
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE estado_plano_pagamento AS ENUM ('ativo', 'concluido', 'cancelado');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE estado_prestacao AS ENUM ('pendente', 'parcialmente_paga', 'paga', 'vencida', 'anulada');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS planos_pagamento (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  "faturaId" INTEGER REFERENCES faturas(id),
+  descricao VARCHAR(255) NOT NULL,
+  "valorTotal" NUMERIC(10, 2) NOT NULL CHECK ("valorTotal" > 0),
+  "valorEntrada" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "numeroPrestacoes" INTEGER NOT NULL CHECK ("numeroPrestacoes" > 0),
+  "periodicidadeMeses" INTEGER NOT NULL DEFAULT 1,
+  "dataInicio" DATE NOT NULL,
+  estado estado_plano_pagamento NOT NULL DEFAULT 'ativo',
+  reagendamentos INTEGER NOT NULL DEFAULT 0,
+  observacoes TEXT,
+  "criadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_planos_pagamento_utente ON planos_pagamento("clinicaId", "utenteId");
+
+CREATE TABLE IF NOT EXISTS prestacoes_plano (
+  id SERIAL PRIMARY KEY,
+  "planoId" INTEGER NOT NULL REFERENCES planos_pagamento(id) ON DELETE CASCADE,
+  numero INTEGER NOT NULL,
+  valor NUMERIC(10, 2) NOT NULL,
+  "valorPago" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "dataVencimento" DATE NOT NULL,
+  estado estado_prestacao NOT NULL DEFAULT 'pendente',
+  "dataPagamento" TIMESTAMP,
+  "lembretesEnviados" INTEGER NOT NULL DEFAULT 0,
+  "ultimoLembrete" TIMESTAMP,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE ("planoId", numero)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prestacoes_plano_vencimento ON prestacoes_plano(estado, "dataVencimento");
+
+-- FK das referencias Multibanco, quando create_multibanco.sql correu antes desta tabela existir
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'referencias_multibanco'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'referencias_multibanco_prestacaoId_fkey'
+  ) THEN
+    ALTER TABLE referencias_multibanco
+      ADD CONSTRAINT "referencias_multibanco_prestacaoId_fkey"
+      FOREIGN KEY ("prestacaoId") REFERENCES prestacoes_plano(id);
+  END IF;
+END $$;
@@ -0,0 +1,77 @@
+-- ============================================
+-- PLANOS DE TRATAMENTO (ORCAMENTOS AO UTENTE)
+-- Planos por fases com itens por dente e alternativas, aceitacao pelo utente com assinatura
+-- e ligacao dos itens as consultas e faturas
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE estado_plano_tratamento AS ENUM ('rascunho', 'enviado', 'aceite', 'aceite_parcial', 'recusado', 'expirado', 'concluido', 'anulado');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE estado_item_plano AS ENUM ('proposto', 'aceite', 'recusado', 'agendado', 'realizado', 'faturado');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS planos_tratamento (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  "dentistaId" INTEGER NOT NULL REFERENCES dentistas(id),
+  numero VARCHAR(30) NOT NULL,
+  titulo VARCHAR(255) NOT NULL,
+  observacoes TEXT,
+  "validoAte" DATE NOT NULL,
+  estado estado_plano_tratamento NOT NULL DEFAULT 'rascunho',
+  "valorProposto" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "valorAceite" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  token VARCHAR(64) UNIQUE,
+  "enviadoEm" TIMESTAMP,
+  "respondidoEm" TIMESTAMP,
+  "assinaturaNome" VARCHAR(255),
+  "assinaturaImagem" TEXT,
+  "ipResposta" VARCHAR(64),
+  "hashAceitacao" VARCHAR(64),
+  "motivoRecusa" TEXT,
+  "criadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE ("clinicaId", numero)
+);
+
+CREATE INDEX IF NOT EXISTS idx_planos_tratamento_utente ON planos_tratamento("utenteId");
+CREATE INDEX IF NOT EXISTS idx_planos_tratamento_envio ON planos_tratamento("clinicaId", "enviadoEm");
+
+CREATE TABLE IF NOT EXISTS fases_plano_tratamento (
+  id SERIAL PRIMARY KEY,
+  "planoId" INTEGER NOT NULL REFERENCES planos_tratamento(id) ON DELETE CASCADE,
+  ordem INTEGER NOT NULL,
+  nome VARCHAR(255) NOT NULL,
+  descricao TEXT
+);
+
+CREATE TABLE IF NOT EXISTS itens_plano_tratamento (
+  id SERIAL PRIMARY KEY,
+  "planoId" INTEGER NOT NULL REFERENCES planos_tratamento(id) ON DELETE CASCADE,
+  "faseId" INTEGER NOT NULL REFERENCES fases_plano_tratamento(id) ON DELETE CASCADE,
+  "alternativaDe" INTEGER REFERENCES itens_plano_tratamento(id) ON DELETE CASCADE,
+  "procedimentoId" INTEGER REFERENCES procedimentos(id),
+  dente VARCHAR(10),
+  faces VARCHAR(10),
+  descricao VARCHAR(500) NOT NULL,
+  quantidade INTEGER NOT NULL DEFAULT 1,
+  "precoUnitario" NUMERIC(10, 2) NOT NULL,
+  "precoTotal" NUMERIC(10, 2) NOT NULL,
+  estado estado_item_plano NOT NULL DEFAULT 'proposto',
+  "consultaId" INTEGER REFERENCES consultas(id) ON DELETE SET NULL,
+  "realizadoEm" TIMESTAMP,
+  "faturaId" INTEGER REFERENCES faturas(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_itens_plano_tratamento_plano ON itens_plano_tratamento("planoId");
+CREATE INDEX IF NOT EXISTS idx_itens_plano_tratamento_consulta ON itens_plano_tratamento("consultaId");
@@ -0,0 +1,44 @@
+-- ============================================
+-- RECURSOS DA AGENDA
+-- Gabinetes, cadeiras e equipamentos partilhados, requisitos por procedimento
+-- e recursos atribuidos a cada consulta
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE tipo_recurso AS ENUM ('gabinete', 'cadeira', 'equipamento');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS recursos (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  tipo tipo_recurso NOT NULL,
+  nome VARCHAR(255) NOT NULL,
+  descricao TEXT,
+  ativo BOOLEAN NOT NULL DEFAULT TRUE,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Requisito por recurso concreto ("recursoId") ou por tipo ("tipoRecurso" + quantidade)
+CREATE TABLE IF NOT EXISTS procedimentos_recursos (
+  id SERIAL PRIMARY KEY,
+  "procedimentoId" INTEGER NOT NULL REFERENCES procedimentos(id) ON DELETE CASCADE,
+  "recursoId" INTEGER REFERENCES recursos(id) ON DELETE CASCADE,
+  "tipoRecurso" tipo_recurso,
+  quantidade INTEGER NOT NULL DEFAULT 1 CHECK (quantidade >= 1),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CHECK (("recursoId" IS NULL) <> ("tipoRecurso" IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS consultas_recursos (
+  id SERIAL PRIMARY KEY,
+  "consultaId" INTEGER NOT NULL REFERENCES consultas(id) ON DELETE CASCADE,
+  "recursoId" INTEGER NOT NULL REFERENCES recursos(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE ("consultaId", "recursoId")
+);
+
+CREATE INDEX IF NOT EXISTS idx_recursos_clinica_tipo ON recursos("clinicaId", tipo);
+CREATE INDEX IF NOT EXISTS idx_procedimentos_recursos_procedimento ON procedimentos_recursos("procedimentoId");
+CREATE INDEX IF NOT EXISTS idx_consultas_recursos_recurso ON consultas_recursos("recursoId");
@@ -0,0 +1,33 @@
+-- ============================================
+-- REMARCACOES EM BLOCO
+-- Consultas movidas quando um dentista fica indisponivel, com aviso ao utente e resposta (SIM/NAO)
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE estado_remarcacao AS ENUM ('pendente', 'aceite', 'recusada');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS remarcacoes_consulta (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "consultaId" INTEGER NOT NULL REFERENCES consultas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  lote VARCHAR(32) NOT NULL,
+  motivo TEXT,
+  "dentistaAnteriorId" INTEGER NOT NULL REFERENCES dentistas(id),
+  "horaInicioAnterior" TIMESTAMP NOT NULL,
+  "horaFimAnterior" TIMESTAMP NOT NULL,
+  "dentistaNovoId" INTEGER NOT NULL REFERENCES dentistas(id),
+  "horaInicioNova" TIMESTAMP NOT NULL,
+  "horaFimNova" TIMESTAMP NOT NULL,
+  estado estado_remarcacao NOT NULL DEFAULT 'pendente',
+  "canalNotificacao" VARCHAR(20), -- whatsapp, sms (NULL = nao foi possivel avisar)
+  "notificadaEm" TIMESTAMP,
+  "respondidaEm" TIMESTAMP,
+  "aplicadaPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_remarcacoes_consulta_lote ON remarcacoes_consulta("clinicaId", lote);
+CREATE INDEX IF NOT EXISTS idx_remarcacoes_consulta_utente ON remarcacoes_consulta("utenteId", estado);
@@ -0,0 +1,162 @@
+-- ============================================
+-- SEGURADORAS E ACORDOS
+-- Entidades, tabelas de precos, apolices dos utentes, comparticipacoes e lotes de faturacao
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE tipo_entidade_acordo AS ENUM ('seguradora', 'subsistema', 'acordo');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE tipo_copagamento AS ENUM ('valor', 'percentagem');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE estado_comparticipacao AS ENUM ('pendente', 'em_lote', 'paga', 'recusada');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE estado_lote_entidade AS ENUM ('aberto', 'enviado', 'parcialmente_pago', 'pago', 'anulado');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS entidades_acordo (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  nome VARCHAR(255) NOT NULL,
+  tipo tipo_entidade_acordo NOT NULL DEFAULT 'seguradora',
+  codigo VARCHAR(50),
+  nif VARCHAR(20),
+  email VARCHAR(320),
+  telefone VARCHAR(50),
+  morada TEXT,
+  "prazoPagamentoDias" INTEGER NOT NULL DEFAULT 60,
+  ativo BOOLEAN NOT NULL DEFAULT TRUE,
+  observacoes TEXT,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS precos_acordo (
+  id SERIAL PRIMARY KEY,
+  "entidadeId" INTEGER NOT NULL REFERENCES entidades_acordo(id) ON DELETE CASCADE,
+  "procedimentoId" INTEGER NOT NULL REFERENCES procedimentos(id) ON DELETE CASCADE,
+  "codigoEntidade" VARCHAR(50),
+  preco NUMERIC(10, 2) NOT NULL CHECK (preco >= 0),
+  "tipoCopagamento" tipo_copagamento NOT NULL DEFAULT 'valor',
+  copagamento NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (copagamento >= 0),
+  "requerAutorizacao" BOOLEAN NOT NULL DEFAULT FALSE,
+  "validoDesde" DATE,
+  "validoAte" DATE,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_precos_acordo_entidade ON precos_acordo("entidadeId", "procedimentoId");
+
+CREATE TABLE IF NOT EXISTS apolices_utente (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  "entidadeId" INTEGER NOT NULL REFERENCES entidades_acordo(id),
+  "numeroApolice" VARCHAR(100) NOT NULL,
+  titular VARCHAR(255),
+  "validaDesde" DATE,
+  "validaAte" DATE,
+  ativa BOOLEAN NOT NULL DEFAULT TRUE,
+  observacoes TEXT,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_apolices_utente_utente ON apolices_utente("utenteId");
+
+CREATE TABLE IF NOT EXISTS lotes_entidade (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "entidadeId" INTEGER NOT NULL REFERENCES entidades_acordo(id),
+  numero VARCHAR(30) NOT NULL,
+  "dataInicio" DATE NOT NULL,
+  "dataFim" DATE NOT NULL,
+  estado estado_lote_entidade NOT NULL DEFAULT 'aberto',
+  "valorReclamado" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "valorRecusado" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "valorPago" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "dataEnvio" TIMESTAMP,
+  "dataVencimento" DATE,
+  observacoes TEXT,
+  "criadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE ("entidadeId", numero)
+);
+
+CREATE TABLE IF NOT EXISTS comparticipacoes (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "entidadeId" INTEGER NOT NULL REFERENCES entidades_acordo(id),
+  "apoliceId" INTEGER NOT NULL REFERENCES apolices_utente(id),
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id),
+  "faturaId" INTEGER REFERENCES faturas(id),
+  "procedimentoId" INTEGER REFERENCES procedimentos(id),
+  "dentistaId" INTEGER REFERENCES dentistas(id),
+  "dataAto" DATE NOT NULL,
+  "codigoEntidade" VARCHAR(50),
+  descricao VARCHAR(500) NOT NULL,
+  quantidade INTEGER NOT NULL DEFAULT 1,
+  "precoAcordado" NUMERIC(10, 2) NOT NULL,
+  "valorUtente" NUMERIC(10, 2) NOT NULL,
+  "valorEntidade" NUMERIC(10, 2) NOT NULL CHECK ("valorEntidade" > 0),
+  "custosDeduzidos" NUMERIC(10, 2) NOT NULL DEFAULT 0, -- Comissao do dentista sobre a parte da entidade
+  "comissaoDentista" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "valorClinica" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "numeroAutorizacao" VARCHAR(100),
+  estado estado_comparticipacao NOT NULL DEFAULT 'pendente',
+  "loteId" INTEGER REFERENCES lotes_entidade(id),
+  "valorPago" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "motivoRecusa" TEXT,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_comparticipacoes_entidade ON comparticipacoes("entidadeId", estado, "dataAto");
+CREATE INDEX IF NOT EXISTS idx_comparticipacoes_lote ON comparticipacoes("loteId");
+
+ALTER TABLE comparticipacoes ADD COLUMN IF NOT EXISTS "custosDeduzidos" NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE comparticipacoes ADD COLUMN IF NOT EXISTS "comissaoDentista" NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE comparticipacoes ADD COLUMN IF NOT EXISTS "valorClinica" NUMERIC(10, 2) NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS idx_comparticipacoes_dentista ON comparticipacoes("dentistaId", "dataAto");
+
+CREATE TABLE IF NOT EXISTS pagamentos_lote (
+  id SERIAL PRIMARY KEY,
+  "loteId" INTEGER NOT NULL REFERENCES lotes_entidade(id) ON DELETE CASCADE,
+  valor NUMERIC(10, 2) NOT NULL,
+  "dataPagamento" TIMESTAMP NOT NULL,
+  referencia VARCHAR(255),
+  observacoes TEXT,
+  "registadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- FK das linhas de liquidacao de comissoes, quando create_liquidacoes_comissoes.sql correu antes
+-- desta tabela existir
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'linhas_liquidacao_comissao'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'linhas_liquidacao_comissao_comparticipacaoId_fkey'
+  ) THEN
+    ALTER TABLE linhas_liquidacao_comissao
+      ADD CONSTRAINT "linhas_liquidacao_comissao_comparticipacaoId_fkey"
+      FOREIGN KEY ("comparticipacaoId") REFERENCES comparticipacoes(id);
+  END IF;
+END $$;
@@ -0,0 +1,36 @@
+-- ============================================
+-- SERIES DE CONSULTAS RECORRENTES
+-- Ortodontia, manutencao periodontal, endodontia em varias sessoes
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE frequencia_recorrencia AS ENUM ('diaria', 'semanal', 'mensal');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS series_consultas (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "utenteId" INTEGER NOT NULL REFERENCES utentes(id) ON DELETE CASCADE,
+  "dentistaId" INTEGER NOT NULL REFERENCES dentistas(id),
+  "procedimentoId" INTEGER REFERENCES procedimentos(id),
+  frequencia frequencia_recorrencia NOT NULL,
+  intervalo INTEGER NOT NULL DEFAULT 1 CHECK (intervalo >= 1),
+  "diasSemana" JSONB, -- Apenas semanal: [0..6], 0=domingo
+  ocorrencias INTEGER,
+  "dataFim" TIMESTAMP,
+  "duracaoMinutos" INTEGER NOT NULL,
+  titulo VARCHAR(255),
+  observacoes TEXT,
+  ativa BOOLEAN NOT NULL DEFAULT TRUE,
+  "criadoPor" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Ligacao das consultas a serie
+ALTER TABLE consultas ADD COLUMN IF NOT EXISTS "serieId" INTEGER REFERENCES series_consultas(id) ON DELETE SET NULL;
+ALTER TABLE consultas ADD COLUMN IF NOT EXISTS "indiceSerie" INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_series_consultas_clinica ON series_consultas("clinicaId");
+CREATE INDEX IF NOT EXISTS idx_consultas_serie ON consultas("serieId", "indiceSerie");
@@ -0,0 +1,56 @@
+-- ============================================
+-- SERIES DE DOCUMENTOS (CERTIFICACAO AT)
+-- Numeracao sequencial por serie, ATCUD, assinatura encadeada e codigo QR
+-- ============================================
+
+DO $$ BEGIN
+  CREATE TYPE tipo_documento_fiscal AS ENUM ('FT', 'FS', 'FR', 'NC', 'RC');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS series_documentos (
+  id SERIAL PRIMARY KEY,
+  "clinicaId" INTEGER NOT NULL REFERENCES clinicas(id) ON DELETE CASCADE,
+  "tipoDocumento" tipo_documento_fiscal NOT NULL,
+  serie VARCHAR(35) NOT NULL,
+  "codigoValidacao" VARCHAR(50) NOT NULL, -- Atribuido pela AT na comunicacao da serie
+  "numeroInicial" INTEGER NOT NULL DEFAULT 1,
+  "ultimoNumero" INTEGER NOT NULL DEFAULT 0,
+  "ultimoHash" VARCHAR(255), -- Assinatura do ultimo documento, encadeada no seguinte
+  "dataUltimoDocumento" TIMESTAMP,
+  ativa BOOLEAN NOT NULL DEFAULT TRUE,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_series_documentos_serie ON series_documentos("clinicaId", "tipoDocumento", serie);
+-- Uma unica serie ativa por tipo de documento e clinica
+CREATE UNIQUE INDEX IF NOT EXISTS idx_series_documentos_ativa ON series_documentos("clinicaId", "tipoDocumento") WHERE ativa;
+
+-- Faturas
+ALTER TABLE faturas ADD COLUMN IF NOT EXISTS "tipoDocumento" tipo_documento_fiscal NOT NULL DEFAULT 'FT';
+ALTER TABLE faturas ADD COLUMN IF NOT EXISTS "serieId" INTEGER REFERENCES series_documentos(id);
+ALTER TABLE faturas ADD COLUMN IF NOT EXISTS atcud VARCHAR(100);
+ALTER TABLE faturas ADD COLUMN IF NOT EXISTS hash VARCHAR(255);
+ALTER TABLE faturas ADD COLUMN IF NOT EXISTS "hashControlo" VARCHAR(10);
+ALTER TABLE faturas ADD COLUMN IF NOT EXISTS "dataSistema" TIMESTAMP;
+ALTER TABLE faturas ADD COLUMN IF NOT EXISTS "codigoQR" TEXT;
+
+-- Notas de credito
+ALTER TABLE notas_credito ADD COLUMN IF NOT EXISTS "serieId" INTEGER REFERENCES series_documentos(id);
+ALTER TABLE notas_credito ADD COLUMN IF NOT EXISTS atcud VARCHAR(100);
+ALTER TABLE notas_credito ADD COLUMN IF NOT EXISTS hash VARCHAR(255);
+ALTER TABLE notas_credito ADD COLUMN IF NOT EXISTS "hashControlo" VARCHAR(10);
+ALTER TABLE notas_credito ADD COLUMN IF NOT EXISTS "dataSistema" TIMESTAMP;
+ALTER TABLE notas_credito ADD COLUMN IF NOT EXISTS "codigoQR" TEXT;
+
+-- Recibos (pagamentos)
+ALTER TABLE pagamentos_fatura ADD COLUMN IF NOT EXISTS "numeroRecibo" VARCHAR(50);
+ALTER TABLE pagamentos_fatura ADD COLUMN IF NOT EXISTS "serieId" INTEGER REFERENCES series_documentos(id);
+ALTER TABLE pagamentos_fatura ADD COLUMN IF NOT EXISTS atcud VARCHAR(100);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_faturas_atcud ON faturas(atcud) WHERE atcud IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notas_credito_atcud ON notas_credito(atcud) WHERE atcud IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pagamentos_fatura_atcud ON pagamentos_fatura(atcud) WHERE atcud IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_faturas_serie ON faturas("serieId");
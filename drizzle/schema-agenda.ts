@@ -0,0 +1,218 @@
+import { pgTable, serial, integer, varchar, text, timestamp, date, time, boolean, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { clinicas, dentistas, users, utentes, procedimentos, consultas, consultaEstadoEnum } from "./schema";
+
+/**
+ * Schema de Horários e Disponibilidade da Agenda
+ * - Horário de funcionamento da clínica (vários períodos por dia)
+ * - Horário semanal de cada dentista (turnos e pausas)
+ * - Exceções datadas (feriados, férias, formações, ausências)
+ * - Séries de consultas recorrentes
+ * - Lista de espera e ofertas de vagas libertadas
+ * - Feeds iCalendar (ICS) de subscrição da agenda
+ * - Histórico de transições de estado das consultas
+ */
+
+// ============================================
+// ENUMS
+// ============================================
+
+export const tipoBlocoHorarioEnum = pgEnum("tipo_bloco_horario", ["trabalho", "pausa"]);
+export const tipoExcecaoHorarioEnum = pgEnum("tipo_excecao_horario", ["feriado", "ferias", "formacao", "ausencia", "outro"]);
+export const frequenciaRecorrenciaEnum = pgEnum("frequencia_recorrencia", ["diaria", "semanal", "mensal"]);
+export const estadoListaEsperaEnum = pgEnum("estado_lista_espera", ["ativa", "agendada", "cancelada"]);
+export const estadoOfertaVagaEnum = pgEnum("estado_oferta_vaga", ["pendente", "aceite", "recusada", "expirada", "preenchida"]);
+export const privacidadeFeedEnum = pgEnum("privacidade_feed", ["completo", "iniciais", "ocupado"]);
+export const estadoRemarcacaoEnum = pgEnum("estado_remarcacao", ["pendente", "aceite", "recusada"]);
+
+// ============================================
+// HORÁRIO DE FUNCIONAMENTO DA CLÍNICA
+// ============================================
+
+export const horariosClinica = pgTable("horarios_clinica", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  diaSemana: integer("diaSemana").notNull(), // 0=domingo, 1=segunda, ..., 6=sábado
+  horaInicio: time("horaInicio").notNull(),
+  horaFim: time("horaFim").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// ============================================
+// HORÁRIO SEMANAL DOS DENTISTAS
+// ============================================
+
+export const horariosDentista = pgTable("horarios_dentista", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  dentistaId: integer("dentistaId").notNull().references(() => dentistas.id),
+  diaSemana: integer("diaSemana").notNull(), // 0=domingo, 1=segunda, ..., 6=sábado
+  tipo: tipoBlocoHorarioEnum("tipo").notNull().default("trabalho"), // "pausa" bloqueia tempo dentro de um turno (ex: almoço)
+  horaInicio: time("horaInicio").notNull(),
+  horaFim: time("horaFim").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// ============================================
+// EXCEÇÕES (FERIADOS, FÉRIAS, FORMAÇÕES)
+// ============================================
+
+export const excecoesHorario = pgTable("excecoes_horario", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  dentistaId: integer("dentistaId").references(() => dentistas.id), // null = aplica-se a toda a clínica
+  tipo: tipoExcecaoHorarioEnum("tipo").notNull(),
+  dataInicio: date("dataInicio").notNull(),
+  dataFim: date("dataFim").notNull(),
+  horaInicio: time("horaInicio"), // null = dia inteiro
+  horaFim: time("horaFim"),
+  descricao: varchar("descricao", { length: 255 }),
+  observacoes: text("observacoes"),
+  criadoPor: integer("criadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// ============================================
+// SÉRIES DE CONSULTAS RECORRENTES
+// ============================================
+
+export const seriesConsultas = pgTable("series_consultas", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  dentistaId: integer("dentistaId").notNull().references(() => dentistas.id),
+  procedimentoId: integer("procedimentoId").references(() => procedimentos.id),
+  // Regra de recorrência (ex: semanal, intervalo 4, 10 ocorrências)
+  frequencia: frequenciaRecorrenciaEnum("frequencia").notNull(),
+  intervalo: integer("intervalo").notNull().default(1),
+  diasSemana: jsonb("diasSemana").$type<number[]>(), // Apenas semanal: 0=domingo, ..., 6=sábado
+  ocorrencias: integer("ocorrencias"),
+  dataFim: timestamp("dataFim"),
+  duracaoMinutos: integer("duracaoMinutos").notNull(),
+  titulo: varchar("titulo", { length: 255 }),
+  observacoes: text("observacoes"),
+  ativa: boolean("ativa").notNull().default(true),
+  criadoPor: integer("criadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// ============================================
+// LISTA DE ESPERA
+// ============================================
+
+export const listaEspera = pgTable("lista_espera", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  dentistaId: integer("dentistaId").references(() => dentistas.id), // null = qualquer dentista
+  procedimentoId: integer("procedimentoId").references(() => procedimentos.id),
+  diasSemana: jsonb("diasSemana").$type<number[]>(), // null = qualquer dia
+  horaInicioPreferida: time("horaInicioPreferida"), // null = qualquer hora
+  horaFimPreferida: time("horaFimPreferida"),
+  prioridade: integer("prioridade").notNull().default(0), // 0 = normal, valores maiores passam à frente
+  estado: estadoListaEsperaEnum("estado").notNull().default("ativa"),
+  consultaId: integer("consultaId"), // Consulta marcada a partir da lista de espera
+  observacoes: text("observacoes"),
+  criadoPor: integer("criadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// Oferta de uma vaga libertada a um utente da lista de espera
+export const ofertasVaga = pgTable("ofertas_vaga", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  listaEsperaId: integer("listaEsperaId").notNull().references(() => listaEspera.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  dentistaId: integer("dentistaId").notNull().references(() => dentistas.id),
+  procedimentoId: integer("procedimentoId").references(() => procedimentos.id),
+  horaInicio: timestamp("horaInicio").notNull(),
+  horaFim: timestamp("horaFim").notNull(),
+  consultaOrigemId: integer("consultaOrigemId"), // Consulta cancelada que libertou a vaga
+  canal: varchar("canal", { length: 20 }).notNull(), // whatsapp, sms
+  pontuacao: integer("pontuacao").notNull().default(0),
+  estado: estadoOfertaVagaEnum("estado").notNull().default("pendente"),
+  expiraEm: timestamp("expiraEm").notNull(),
+  respondidaEm: timestamp("respondidaEm"),
+  consultaId: integer("consultaId"), // Consulta criada quando a oferta é aceite
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// ============================================
+// FEEDS ICS (SUBSCRIÇÃO DE CALENDÁRIO)
+// ============================================
+
+// URL secreto só de leitura com a agenda de um dentista (ou da clínica inteira se dentistaId for null)
+export const feedsCalendario = pgTable("feeds_calendario", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  dentistaId: integer("dentistaId").references(() => dentistas.id), // null = todos os dentistas
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  nome: varchar("nome", { length: 255 }).notNull(),
+  // completo = nome do utente e procedimento; iniciais = só iniciais; ocupado = apenas "Ocupado"
+  privacidade: privacidadeFeedEnum("privacidade").notNull().default("iniciais"),
+  incluirObservacoes: boolean("incluirObservacoes").notNull().default(false),
+  ativo: boolean("ativo").notNull().default(true),
+  revogadoEm: timestamp("revogadoEm"),
+  ultimoAcesso: timestamp("ultimoAcesso"),
+  criadoPor: integer("criadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// ============================================
+// HISTÓRICO DE ESTADOS DAS CONSULTAS
+// ============================================
+
+export const historicoEstadosConsulta = pgTable("historico_estados_consulta", {
+  id: serial("id").primaryKey(),
+  consultaId: integer("consultaId").notNull().references(() => consultas.id),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  estadoAnterior: consultaEstadoEnum("estadoAnterior").notNull(),
+  estadoNovo: consultaEstadoEnum("estadoNovo").notNull(),
+  userId: integer("userId").references(() => users.id), // null = alteração automática do sistema
+  papel: varchar("papel", { length: 20 }).notNull(), // proprietario, admin, dentista, rececionista, sistema
+  motivo: text("motivo"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// ============================================
+// REMARCAÇÕES EM BLOCO (DENTISTA INDISPONÍVEL)
+// ============================================
+
+// Uma linha por consulta movida; as consultas movidas na mesma operação partilham o lote
+export const remarcacoesConsulta = pgTable("remarcacoes_consulta", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  consultaId: integer("consultaId").notNull().references(() => consultas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  lote: varchar("lote", { length: 32 }).notNull(),
+  motivo: text("motivo"),
+  dentistaAnteriorId: integer("dentistaAnteriorId").notNull().references(() => dentistas.id),
+  horaInicioAnterior: timestamp("horaInicioAnterior").notNull(),
+  horaFimAnterior: timestamp("horaFimAnterior").notNull(),
+  dentistaNovoId: integer("dentistaNovoId").notNull().references(() => dentistas.id),
+  horaInicioNova: timestamp("horaInicioNova").notNull(),
+  horaFimNova: timestamp("horaFimNova").notNull(),
+  // pendente = a aguardar resposta do utente; recusada = o utente não pode na nova hora (a receção remarca)
+  estado: estadoRemarcacaoEnum("estado").notNull().default("pendente"),
+  canalNotificacao: varchar("canalNotificacao", { length: 20 }), // whatsapp, sms (null = não foi possível avisar)
+  notificadaEm: timestamp("notificadaEm"),
+  respondidaEm: timestamp("respondidaEm"),
+  aplicadaPor: integer("aplicadaPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type HorarioClinica = typeof horariosClinica.$inferSelect;
+export type HorarioDentista = typeof horariosDentista.$inferSelect;
+export type ExcecaoHorario = typeof excecoesHorario.$inferSelect;
+export type NovaExcecaoHorario = typeof excecoesHorario.$inferInsert;
+export type SerieConsultas = typeof seriesConsultas.$inferSelect;
+export type EntradaListaEspera = typeof listaEspera.$inferSelect;
+export type OfertaVaga = typeof ofertasVaga.$inferSelect;
+export type FeedCalendario = typeof feedsCalendario.$inferSelect;
+export type PrivacidadeFeed = FeedCalendario["privacidade"];
+export type HistoricoEstadoConsulta = typeof historicoEstadosConsulta.$inferSelect;
+export type RemarcacaoConsulta = typeof remarcacoesConsulta.$inferSelect;
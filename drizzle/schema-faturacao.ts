@@ -0,0 +1,415 @@
+import { pgTable, pgEnum, serial, integer, varchar, text, timestamp, numeric, boolean, date, jsonb } from "drizzle-orm/pg-core";
+import {
+  clinicas,
+  utentes,
+  dentistas,
+  faturas,
+  itensFatura,
+  pagamentosFatura,
+  procedimentos,
+  users,
+  tipoDocumentoFiscalEnum,
+  metodoPagamentoEnum,
+} from "./schema";
+import { comparticipacoes } from "./schema-seguradoras";
+
+/**
+ * Schema de Documentos de Faturação
+ * - Séries de documentos comunicadas à AT (numeração, ATCUD e cadeia de assinaturas)
+ * - Notas de crédito (NC) que retificam total ou parcialmente uma fatura já emitida
+ * - Recebimentos da conta corrente do utente (pagamentos de várias faturas e adiantamentos)
+ * - Planos de pagamento em prestações (entrada e prestações com vencimento)
+ * - Referências Multibanco para faturas e prestações, conciliadas com as notificações de pagamento
+ * - Extratos bancários importados (CSV e camt.053) e conciliação dos movimentos com as faturas
+ * - Liquidações mensais das comissões dos dentistas (fechadas e sem alterações depois de fechadas)
+ * - Cobrança das faturas vencidas por uma escala de passos configurada pela clínica
+ */
+
+// ============================================
+// SÉRIES DE DOCUMENTOS
+// ============================================
+
+// Cada série tem numeração própria, sem falhas, e o código de validação atribuído pela AT.
+// Só pode haver uma série ativa por tipo de documento e clínica
+export const seriesDocumentos = pgTable("series_documentos", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  tipoDocumento: tipoDocumentoFiscalEnum("tipoDocumento").notNull(),
+  serie: varchar("serie", { length: 35 }).notNull(), // Identificador da série (ex: "2026A")
+  codigoValidacao: varchar("codigoValidacao", { length: 50 }).notNull(), // Atribuído pela AT na comunicação da série
+  numeroInicial: integer("numeroInicial").notNull().default(1),
+  ultimoNumero: integer("ultimoNumero").notNull().default(0), // 0 = nenhum documento emitido
+  ultimoHash: varchar("ultimoHash", { length: 255 }), // Assinatura do último documento (encadeada no seguinte)
+  dataUltimoDocumento: timestamp("dataUltimoDocumento"),
+  ativa: boolean("ativa").notNull().default(true),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type SerieDocumento = typeof seriesDocumentos.$inferSelect;
+
+// ============================================
+// NOTAS DE CRÉDITO
+// ============================================
+
+// Valores positivos: o total da nota é abatido ao valor em dívida da fatura de origem
+export const notasCredito = pgTable("notas_credito", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  faturaId: integer("faturaId").notNull().references(() => faturas.id), // Fatura retificada
+  numero: varchar("numero", { length: 50 }).notNull(),
+  serieId: integer("serieId").references(() => seriesDocumentos.id),
+  atcud: varchar("atcud", { length: 100 }),
+  hash: varchar("hash", { length: 255 }),
+  hashControlo: varchar("hashControlo", { length: 10 }),
+  dataSistema: timestamp("dataSistema"),
+  codigoQR: text("codigoQR"),
+  pdfUrl: varchar("pdfUrl", { length: 500 }),
+  dataEmissao: timestamp("dataEmissao").notNull(),
+  motivo: text("motivo").notNull(),
+  subtotal: numeric("subtotal", { precision: 10, scale: 2 }).notNull().default("0"),
+  percentagemIVA: numeric("percentagemIVA", { precision: 5, scale: 2 }).notNull().default("0"),
+  valorIVA: numeric("valorIVA", { precision: 10, scale: 2 }).notNull().default("0"),
+  valorDesconto: numeric("valorDesconto", { precision: 10, scale: 2 }).notNull().default("0"),
+  valorTotal: numeric("valorTotal", { precision: 10, scale: 2 }).notNull().default("0"),
+  valorReembolsado: numeric("valorReembolsado", { precision: 10, scale: 2 }).notNull().default("0"),
+  pagamentoReembolsoId: integer("pagamentoReembolsoId").references(() => pagamentosFatura.id), // Movimento negativo do reembolso
+  referenciaExterna: varchar("referenciaExterna", { length: 255 }).unique(), // Ex: id do reembolso no Stripe
+  emitidaPor: integer("emitidaPor").references(() => users.id), // null = emitida automaticamente
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// Cada linha credita (parte de) uma linha da fatura de origem
+export const itensNotaCredito = pgTable("itens_nota_credito", {
+  id: serial("id").primaryKey(),
+  notaCreditoId: integer("notaCreditoId").notNull().references(() => notasCredito.id),
+  itemFaturaId: integer("itemFaturaId").notNull().references(() => itensFatura.id),
+  procedimentoId: integer("procedimentoId").references(() => procedimentos.id),
+  descricao: varchar("descricao", { length: 500 }).notNull(),
+  quantidade: integer("quantidade").notNull().default(1),
+  precoUnitario: numeric("precoUnitario", { precision: 10, scale: 2 }).notNull(),
+  precoTotal: numeric("precoTotal", { precision: 10, scale: 2 }).notNull(),
+  taxaIVA: numeric("taxaIVA", { precision: 5, scale: 2 }).notNull().default("0"), // Da linha da fatura
+  motivoIsencao: varchar("motivoIsencao", { length: 3 }),
+  comissaoDentista: numeric("comissaoDentista", { precision: 10, scale: 2 }).notNull().default("0"), // Comissão estornada
+  valorClinica: numeric("valorClinica", { precision: 10, scale: 2 }).notNull().default("0"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type NotaCredito = typeof notasCredito.$inferSelect;
+export type ItemNotaCredito = typeof itensNotaCredito.$inferSelect;
+
+// ============================================
+// CONTA CORRENTE DO UTENTE
+// ============================================
+
+export const tipoRecebimentoEnum = pgEnum("tipo_recebimento", ["recebimento", "reembolso"]);
+
+// Dinheiro recebido do utente (ou devolvido, no reembolso de crédito), independente das faturas.
+// É imputado às faturas com pagamentos "porConta"; o que sobrar fica como crédito do utente
+export const recebimentos = pgTable("recebimentos", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  tipo: tipoRecebimentoEnum("tipo").notNull().default("recebimento"),
+  valor: numeric("valor", { precision: 10, scale: 2 }).notNull(), // Sempre positivo
+  metodoPagamento: metodoPagamentoEnum("metodoPagamento").notNull(),
+  dataRecebimento: timestamp("dataRecebimento").notNull(),
+  referencia: varchar("referencia", { length: 255 }),
+  observacoes: text("observacoes"),
+  registadoPor: integer("registadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Recebimento = typeof recebimentos.$inferSelect;
+
+// ============================================
+// PLANOS DE PAGAMENTO
+// ============================================
+
+export const estadoPlanoPagamentoEnum = pgEnum("estado_plano_pagamento", ["ativo", "concluido", "cancelado"]);
+
+export const estadoPrestacaoEnum = pgEnum("estado_prestacao", [
+  "pendente",
+  "parcialmente_paga",
+  "paga",
+  "vencida",
+  "anulada", // Substituída num reagendamento
+]);
+
+// Pagamento de um tratamento em prestações (ex: implantes, ortodontia). Pode estar ligado a
+// uma fatura; se não estiver, os pagamentos ficam como crédito na conta corrente do utente
+export const planosPagamento = pgTable("planos_pagamento", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  faturaId: integer("faturaId").references(() => faturas.id),
+  descricao: varchar("descricao", { length: 255 }).notNull(),
+  valorTotal: numeric("valorTotal", { precision: 10, scale: 2 }).notNull(),
+  valorEntrada: numeric("valorEntrada", { precision: 10, scale: 2 }).notNull().default("0"),
+  numeroPrestacoes: integer("numeroPrestacoes").notNull(), // Sem contar a entrada
+  periodicidadeMeses: integer("periodicidadeMeses").notNull().default(1),
+  dataInicio: date("dataInicio").notNull(), // Vencimento da entrada (ou da 1.ª prestação, sem entrada)
+  estado: estadoPlanoPagamentoEnum("estado").notNull().default("ativo"),
+  reagendamentos: integer("reagendamentos").notNull().default(0),
+  observacoes: text("observacoes"),
+  criadoPor: integer("criadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// Prestações do plano (numero 0 = entrada)
+export const prestacoesPlano = pgTable("prestacoes_plano", {
+  id: serial("id").primaryKey(),
+  planoId: integer("planoId").notNull().references(() => planosPagamento.id, { onDelete: "cascade" }),
+  numero: integer("numero").notNull(),
+  valor: numeric("valor", { precision: 10, scale: 2 }).notNull(),
+  valorPago: numeric("valorPago", { precision: 10, scale: 2 }).notNull().default("0"),
+  dataVencimento: date("dataVencimento").notNull(),
+  estado: estadoPrestacaoEnum("estado").notNull().default("pendente"),
+  dataPagamento: timestamp("dataPagamento"), // Último pagamento
+  lembretesEnviados: integer("lembretesEnviados").notNull().default(0),
+  ultimoLembrete: timestamp("ultimoLembrete"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type PlanoPagamento = typeof planosPagamento.$inferSelect;
+export type PrestacaoPlano = typeof prestacoesPlano.$inferSelect;
+
+// ============================================
+// MULTIBANCO
+// ============================================
+
+// Entidade e subentidade atribuídas à clínica pelo provedor de pagamentos
+export const configuracoesMultibanco = pgTable("configuracoes_multibanco", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id).unique(),
+  provedor: varchar("provedor", { length: 50 }).notNull().default("simulador"), // ifthenpay, simulador
+  entidade: varchar("entidade", { length: 5 }).notNull(),
+  subentidade: varchar("subentidade", { length: 3 }).notNull(),
+  chaveAntiPhishing: varchar("chaveAntiPhishing", { length: 100 }), // Validação dos callbacks do provedor
+  validadeDias: integer("validadeDias").notNull().default(30),
+  ultimaSequencia: integer("ultimaSequencia").notNull().default(0), // 0-9999, em ciclo
+  ativo: boolean("ativo").notNull().default(true),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export const estadoReferenciaMultibancoEnum = pgEnum("estado_referencia_multibanco", [
+  "pendente",
+  "paga",
+  "expirada",
+  "anulada",
+]);
+
+// Referência emitida para pagar uma fatura ou uma prestação de um plano de pagamento
+export const referenciasMultibanco = pgTable("referencias_multibanco", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  faturaId: integer("faturaId").references(() => faturas.id),
+  prestacaoId: integer("prestacaoId").references(() => prestacoesPlano.id),
+  provedor: varchar("provedor", { length: 50 }).notNull(),
+  entidade: varchar("entidade", { length: 5 }).notNull(),
+  referencia: varchar("referencia", { length: 9 }).notNull(),
+  valor: numeric("valor", { precision: 10, scale: 2 }).notNull(),
+  dataLimite: date("dataLimite"),
+  estado: estadoReferenciaMultibancoEnum("estado").notNull().default("pendente"),
+  dataPagamento: timestamp("dataPagamento"),
+  valorPago: numeric("valorPago", { precision: 10, scale: 2 }),
+  idTransacao: varchar("idTransacao", { length: 255 }).unique(), // Identificador do pagamento no provedor
+  terminal: varchar("terminal", { length: 100 }),
+  recebimentoId: integer("recebimentoId").references(() => recebimentos.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type ConfiguracaoMultibanco = typeof configuracoesMultibanco.$inferSelect;
+export type ReferenciaMultibanco = typeof referenciasMultibanco.$inferSelect;
+
+// ============================================
+// EXTRATOS BANCÁRIOS
+// ============================================
+
+// Ficheiro de extrato importado (CSV de um banco ou ISO 20022 camt.053)
+export const extratosBancarios = pgTable("extratos_bancarios", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  formato: varchar("formato", { length: 30 }).notNull(), // camt053, cgd, millennium, ...
+  nomeFicheiro: varchar("nomeFicheiro", { length: 255 }),
+  iban: varchar("iban", { length: 34 }),
+  dataInicio: date("dataInicio"),
+  dataFim: date("dataFim"),
+  numeroMovimentos: integer("numeroMovimentos").notNull().default(0), // Créditos novos importados
+  importadoPor: integer("importadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export const estadoMovimentoBancarioEnum = pgEnum("estado_movimento_bancario", [
+  "por_conciliar", // Sem fatura candidata
+  "sugerido", // Uma fatura claramente melhor que as restantes
+  "ambiguo", // Várias faturas com pontuação próxima
+  "conciliado",
+  "ignorado",
+]);
+
+export interface SugestaoConciliacao {
+  faturaId: number;
+  utenteId: number;
+  numeroFatura: string;
+  valorEmDivida: string;
+  pontuacao: number;
+  motivos: string[];
+}
+
+// Crédito na conta da clínica (transferência, MB WAY) à espera de ser associado a um pagamento
+export const movimentosBancarios = pgTable("movimentos_bancarios", {
+  id: serial("id").primaryKey(),
+  extratoId: integer("extratoId").notNull().references(() => extratosBancarios.id),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  chave: varchar("chave", { length: 64 }).notNull(), // Evita importar o mesmo movimento duas vezes
+  dataMovimento: date("dataMovimento").notNull(),
+  dataValor: date("dataValor"),
+  descricao: text("descricao"),
+  valor: numeric("valor", { precision: 10, scale: 2 }).notNull(),
+  referencia: varchar("referencia", { length: 255 }),
+  nomeOrdenante: varchar("nomeOrdenante", { length: 255 }),
+  ibanOrdenante: varchar("ibanOrdenante", { length: 34 }),
+  estado: estadoMovimentoBancarioEnum("estado").notNull().default("por_conciliar"),
+  sugestoes: jsonb("sugestoes").$type<SugestaoConciliacao[]>(), // Ordenadas pela pontuação
+  faturaId: integer("faturaId").references(() => faturas.id),
+  utenteId: integer("utenteId").references(() => utentes.id),
+  recebimentoId: integer("recebimentoId").references(() => recebimentos.id),
+  conciliadoPor: integer("conciliadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type ExtratoBancario = typeof extratosBancarios.$inferSelect;
+export type MovimentoBancario = typeof movimentosBancarios.$inferSelect;
+
+// ============================================
+// LIQUIDAÇÕES DE COMISSÕES
+// ============================================
+
+// Liquidação mensal fechada das comissões de um dentista
+export const liquidacoesComissoes = pgTable("liquidacoes_comissoes", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  dentistaId: integer("dentistaId").notNull().references(() => dentistas.id),
+  periodo: varchar("periodo", { length: 7 }).notNull(), // YYYY-MM
+  momentoComissao: varchar("momentoComissao", { length: 20 }).notNull(), // Política da clínica ao fechar
+  totalBase: numeric("totalBase", { precision: 10, scale: 2 }).notNull().default("0"),
+  totalCustos: numeric("totalCustos", { precision: 10, scale: 2 }).notNull().default("0"),
+  totalComissao: numeric("totalComissao", { precision: 10, scale: 2 }).notNull().default("0"),
+  totalClinica: numeric("totalClinica", { precision: 10, scale: 2 }).notNull().default("0"),
+  fechadaEm: timestamp("fechadaEm").defaultNow().notNull(),
+  fechadaPor: integer("fechadaPor").references(() => users.id),
+});
+
+export const origemLinhaComissaoEnum = pgEnum("origem_linha_comissao", ["fatura", "nota_credito", "pagamento", "comparticipacao"]);
+
+// Comissão de uma linha de fatura (na faturação), de um pagamento (no recebimento), estorno de
+// uma nota de crédito ou parte da entidade (comparticipação). Cada origem só entra numa liquidação
+// (chave única)
+export const linhasLiquidacaoComissao = pgTable("linhas_liquidacao_comissao", {
+  id: serial("id").primaryKey(),
+  liquidacaoId: integer("liquidacaoId").notNull().references(() => liquidacoesComissoes.id),
+  origem: origemLinhaComissaoEnum("origem").notNull(),
+  chave: varchar("chave", { length: 100 }).notNull().unique(), // Ex: fatura:12, pagamento:40:12, comparticipacao:7
+  faturaId: integer("faturaId").references(() => faturas.id), // Null nas comparticipações sem fatura do utente
+  itemFaturaId: integer("itemFaturaId").references(() => itensFatura.id),
+  itemNotaCreditoId: integer("itemNotaCreditoId").references(() => itensNotaCredito.id),
+  pagamentoId: integer("pagamentoId").references(() => pagamentosFatura.id),
+  comparticipacaoId: integer("comparticipacaoId").references(() => comparticipacoes.id),
+  data: date("data").notNull(),
+  documento: varchar("documento", { length: 50 }).notNull(),
+  descricao: varchar("descricao", { length: 500 }).notNull(),
+  utente: varchar("utente", { length: 255 }),
+  base: numeric("base", { precision: 10, scale: 2 }).notNull(), // Valor sem IVA, depois do desconto
+  custos: numeric("custos", { precision: 10, scale: 2 }).notNull().default("0"),
+  comissao: numeric("comissao", { precision: 10, scale: 2 }).notNull(),
+  valorClinica: numeric("valorClinica", { precision: 10, scale: 2 }).notNull(),
+});
+
+export type LiquidacaoComissoes = typeof liquidacoesComissoes.$inferSelect;
+export type LinhaLiquidacaoComissao = typeof linhasLiquidacaoComissao.$inferSelect;
+
+// ============================================
+// COBRANÇA DE FATURAS VENCIDAS
+// ============================================
+
+export const canalCobrancaEnum = pgEnum("canal_cobranca", ["email", "sms", "whatsapp", "tarefa"]);
+
+// Passo da escala de cobrança da clínica (ex: email ao 3.º dia depois do vencimento, SMS ao 10.º,
+// WhatsApp com link de pagamento ao 20.º e tarefa para a receção ao 45.º)
+export const passosCobranca = pgTable("passos_cobranca", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  diasAposVencimento: integer("diasAposVencimento").notNull(),
+  canal: canalCobrancaEnum("canal").notNull(),
+  mensagem: text("mensagem"), // Modelo com {utente}, {fatura}, {valor}, ...; vazio = texto padrão do canal
+  incluirLinkPagamento: boolean("incluirLinkPagamento").notNull().default(false),
+  ativo: boolean("ativo").notNull().default(true),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export const estadoCobrancaEnum = pgEnum("estado_cobranca", [
+  "ativa",
+  "interrompida", // Pagamento registado depois do início ou suspensa pela clínica
+  "concluida", // Fatura paga, creditada ou anulada
+]);
+
+// Cobrança de uma fatura vencida: começa no primeiro passo e para quando é registado um pagamento
+export const cobrancasFatura = pgTable("cobrancas_fatura", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  faturaId: integer("faturaId").notNull().references(() => faturas.id).unique(),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  estado: estadoCobrancaEnum("estado").notNull().default("ativa"),
+  iniciadaEm: timestamp("iniciadaEm").defaultNow().notNull(), // Pagamentos depois deste momento interrompem
+  terminadaEm: timestamp("terminadaEm"),
+  motivo: varchar("motivo", { length: 255 }), // Ex: Pagamento registado, Em contestação
+  tokenPagamento: varchar("tokenPagamento", { length: 64 }).notNull().unique(), // Link público de pagamento
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export const estadoAcaoCobrancaEnum = pgEnum("estado_acao_cobranca", [
+  "enviada",
+  "falhada", // Tentada de novo nos dias seguintes
+  "sem_contacto", // O utente não tem email ou telemóvel
+  "saltada", // Passo já ultrapassado quando a cobrança começou
+  "pendente", // Tarefa da equipa por fazer
+  "concluida", // Tarefa da equipa feita
+  "cancelada", // Tarefa por fazer quando a cobrança terminou
+]);
+
+// Passo executado numa cobrança. Um registo por fatura, dia e canal: o utente nunca é contactado
+// duas vezes no mesmo passo, mesmo que a escala da clínica seja alterada
+export const acoesCobranca = pgTable("acoes_cobranca", {
+  id: serial("id").primaryKey(),
+  cobrancaId: integer("cobrancaId").notNull().references(() => cobrancasFatura.id),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  faturaId: integer("faturaId").notNull().references(() => faturas.id),
+  diasAposVencimento: integer("diasAposVencimento").notNull(),
+  canal: canalCobrancaEnum("canal").notNull(),
+  estado: estadoAcaoCobrancaEnum("estado").notNull(),
+  destinatario: varchar("destinatario", { length: 255 }),
+  mensagem: text("mensagem"),
+  tentativas: integer("tentativas").notNull().default(1),
+  erro: text("erro"),
+  concluidaEm: timestamp("concluidaEm"),
+  concluidaPor: integer("concluidaPor").references(() => users.id),
+  observacoes: text("observacoes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type PassoCobranca = typeof passosCobranca.$inferSelect;
+export type CobrancaFatura = typeof cobrancasFatura.$inferSelect;
+export type AcaoCobranca = typeof acoesCobranca.$inferSelect;
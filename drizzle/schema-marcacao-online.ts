@@ -0,0 +1,64 @@
+import { pgTable, serial, integer, varchar, timestamp, boolean, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { clinicas, dentistas, procedimentos, utentes, consultas } from "./schema";
+
+/**
+ * Schema de Marcação Online
+ * - Configuração por clínica (procedimentos e dentistas visíveis, antecedência)
+ * - Reservas temporárias de horário enquanto o utente confirma o código (OTP)
+ */
+
+// ============================================
+// ENUMS
+// ============================================
+
+export const estadoReservaOnlineEnum = pgEnum("estado_reserva_online", ["pendente", "confirmada", "expirada", "cancelada"]);
+export const canalCodigoEnum = pgEnum("canal_codigo", ["sms", "email"]);
+
+// ============================================
+// CONFIGURAÇÃO POR CLÍNICA
+// ============================================
+
+export const configuracoesMarcacaoOnline = pgTable("configuracoes_marcacao_online", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().unique().references(() => clinicas.id),
+  ativo: boolean("ativo").notNull().default(false),
+  procedimentoIds: jsonb("procedimentoIds").$type<number[]>().notNull().default([]), // Procedimentos marcáveis online
+  dentistaIds: jsonb("dentistaIds").$type<number[]>().notNull().default([]), // Dentistas visíveis online
+  antecedenciaMinimaMinutos: integer("antecedenciaMinimaMinutos").notNull().default(120),
+  antecedenciaMaximaDias: integer("antecedenciaMaximaDias").notNull().default(60),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// ============================================
+// RESERVAS TEMPORÁRIAS
+// ============================================
+
+export const reservasMarcacaoOnline = pgTable("reservas_marcacao_online", {
+  id: serial("id").primaryKey(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  dentistaId: integer("dentistaId").notNull().references(() => dentistas.id),
+  procedimentoId: integer("procedimentoId").notNull().references(() => procedimentos.id),
+  horaInicio: timestamp("horaInicio").notNull(),
+  horaFim: timestamp("horaFim").notNull(),
+  // Dados indicados pelo utente
+  nome: varchar("nome", { length: 255 }).notNull(),
+  telemovel: varchar("telemovel", { length: 50 }).notNull(),
+  email: varchar("email", { length: 320 }),
+  nif: varchar("nif", { length: 50 }),
+  // Código de confirmação (guardado apenas em hash)
+  canalCodigo: canalCodigoEnum("canalCodigo").notNull().default("sms"),
+  codigoHash: varchar("codigoHash", { length: 64 }).notNull(),
+  tentativas: integer("tentativas").notNull().default(0),
+  estado: estadoReservaOnlineEnum("estado").notNull().default("pendente"),
+  expiraEm: timestamp("expiraEm").notNull(),
+  utenteId: integer("utenteId").references(() => utentes.id),
+  consultaId: integer("consultaId").references(() => consultas.id),
+  ip: varchar("ip", { length: 64 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  confirmadaEm: timestamp("confirmadaEm"),
+});
+
+export type ConfiguracaoMarcacaoOnline = typeof configuracoesMarcacaoOnline.$inferSelect;
+export type ReservaMarcacaoOnline = typeof reservasMarcacaoOnline.$inferSelect;
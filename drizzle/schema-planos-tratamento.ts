@@ -0,0 +1,101 @@
+import { pgTable, pgEnum, serial, integer, varchar, text, timestamp, numeric, date } from "drizzle-orm/pg-core";
+import { clinicas, consultas, dentistas, faturas, procedimentos, users, utentes } from "./schema";
+
+/**
+ * Schema de Planos de Tratamento (orçamentos ao utente)
+ * - Plano por fases, com os procedimentos por dente, preços e alternativas a um item
+ * - Aceitação total ou parcial pelo utente através de um link com assinatura
+ * - Itens aceites → consultas agendadas → realizados (consulta concluída) → faturados
+ *
+ * Não confundir com os orçamentos de custos da clínica (schema-custos)
+ */
+
+// ============================================
+// ENUMS
+// ============================================
+
+export const estadoPlanoTratamentoEnum = pgEnum("estado_plano_tratamento", [
+  "rascunho",
+  "enviado", // Link enviado ao utente, à espera de resposta
+  "aceite",
+  "aceite_parcial",
+  "recusado",
+  "expirado",
+  "concluido", // Todos os itens aceites realizados
+  "anulado",
+]);
+
+export const estadoItemPlanoEnum = pgEnum("estado_item_plano", [
+  "proposto",
+  "aceite",
+  "recusado",
+  "agendado",
+  "realizado",
+  "faturado",
+]);
+
+// ============================================
+// PLANOS DE TRATAMENTO
+// ============================================
+
+export const planosTratamento = pgTable("planos_tratamento", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  dentistaId: integer("dentistaId").notNull().references(() => dentistas.id),
+  numero: varchar("numero", { length: 30 }).notNull(), // Ex: 2026/0042 (sequência por clínica e ano)
+  titulo: varchar("titulo", { length: 255 }).notNull(),
+  observacoes: text("observacoes"),
+  validoAte: date("validoAte").notNull(),
+  estado: estadoPlanoTratamentoEnum("estado").notNull().default("rascunho"),
+  valorProposto: numeric("valorProposto", { precision: 10, scale: 2 }).notNull().default("0"), // Sem as alternativas
+  valorAceite: numeric("valorAceite", { precision: 10, scale: 2 }).notNull().default("0"),
+
+  // Link de aceitação
+  token: varchar("token", { length: 64 }).unique(),
+  enviadoEm: timestamp("enviadoEm"),
+
+  // Resposta do utente (prova da aceitação)
+  respondidoEm: timestamp("respondidoEm"),
+  assinaturaNome: varchar("assinaturaNome", { length: 255 }),
+  assinaturaImagem: text("assinaturaImagem"), // PNG em data URL, desenhada no ecrã
+  ipResposta: varchar("ipResposta", { length: 64 }),
+  hashAceitacao: varchar("hashAceitacao", { length: 64 }), // SHA-256 dos itens aceites, preços e assinatura
+  motivoRecusa: text("motivoRecusa"),
+
+  criadoPor: integer("criadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export const fasesPlanoTratamento = pgTable("fases_plano_tratamento", {
+  id: serial("id").primaryKey(),
+  planoId: integer("planoId").notNull().references(() => planosTratamento.id),
+  ordem: integer("ordem").notNull(),
+  nome: varchar("nome", { length: 255 }).notNull(), // Ex: Fase 1 - Higienização
+  descricao: text("descricao"),
+});
+
+export const itensPlanoTratamento = pgTable("itens_plano_tratamento", {
+  id: serial("id").primaryKey(),
+  planoId: integer("planoId").notNull().references(() => planosTratamento.id),
+  faseId: integer("faseId").notNull().references(() => fasesPlanoTratamento.id),
+  alternativaDe: integer("alternativaDe"), // Item principal de que este é alternativa (só um do grupo pode ser aceite)
+  procedimentoId: integer("procedimentoId").references(() => procedimentos.id),
+  dente: varchar("dente", { length: 10 }), // Numeração FDI (ex: 16), vazio se não for de um dente
+  faces: varchar("faces", { length: 10 }), // Ex: MOD
+  descricao: varchar("descricao", { length: 500 }).notNull(),
+  quantidade: integer("quantidade").notNull().default(1),
+  precoUnitario: numeric("precoUnitario", { precision: 10, scale: 2 }).notNull(),
+  precoTotal: numeric("precoTotal", { precision: 10, scale: 2 }).notNull(),
+  estado: estadoItemPlanoEnum("estado").notNull().default("proposto"),
+  consultaId: integer("consultaId").references(() => consultas.id),
+  realizadoEm: timestamp("realizadoEm"),
+  faturaId: integer("faturaId").references(() => faturas.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type PlanoTratamento = typeof planosTratamento.$inferSelect;
+export type FasePlanoTratamento = typeof fasesPlanoTratamento.$inferSelect;
+export type ItemPlanoTratamento = typeof itensPlanoTratamento.$inferSelect;
@@ -0,0 +1,61 @@
+import { pgTable, serial, integer, varchar, text, timestamp, boolean, pgEnum } from "drizzle-orm/pg-core";
+import { clinicas, consultas, procedimentos } from "./schema";
+
+/**
+ * Schema de Recursos da Agenda
+ * - Gabinetes, cadeiras e equipamentos partilhados (ex: raio-X panorâmico, kit cirúrgico)
+ * - Recursos exigidos por cada procedimento
+ * - Recursos atribuídos a cada consulta
+ */
+
+// ============================================
+// ENUMS
+// ============================================
+
+export const tipoRecursoEnum = pgEnum("tipo_recurso", ["gabinete", "cadeira", "equipamento"]);
+
+// ============================================
+// RECURSOS
+// ============================================
+
+export const recursos = pgTable("recursos", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  tipo: tipoRecursoEnum("tipo").notNull(),
+  nome: varchar("nome", { length: 255 }).notNull(),
+  descricao: text("descricao"),
+  ativo: boolean("ativo").notNull().default(true),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// ============================================
+// RECURSOS EXIGIDOS POR PROCEDIMENTO
+// ============================================
+
+// Cada requisito indica um recurso concreto (recursoId) ou qualquer recurso de um tipo (tipoRecurso)
+export const procedimentosRecursos = pgTable("procedimentos_recursos", {
+  id: serial("id").primaryKey(),
+  procedimentoId: integer("procedimentoId").notNull().references(() => procedimentos.id),
+  recursoId: integer("recursoId").references(() => recursos.id),
+  tipoRecurso: tipoRecursoEnum("tipoRecurso"),
+  quantidade: integer("quantidade").notNull().default(1), // Apenas para requisitos por tipo
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// ============================================
+// RECURSOS ATRIBUÍDOS ÀS CONSULTAS
+// ============================================
+
+export const consultasRecursos = pgTable("consultas_recursos", {
+  id: serial("id").primaryKey(),
+  consultaId: integer("consultaId").notNull().references(() => consultas.id),
+  recursoId: integer("recursoId").notNull().references(() => recursos.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Recurso = typeof recursos.$inferSelect;
+export type NovoRecurso = typeof recursos.$inferInsert;
+export type ProcedimentoRecurso = typeof procedimentosRecursos.$inferSelect;
+export type ConsultaRecurso = typeof consultasRecursos.$inferSelect;
+export type TipoRecurso = Recurso["tipo"];
@@ -0,0 +1,206 @@
+import { pgTable, pgEnum, serial, integer, varchar, text, timestamp, numeric, boolean, date } from "drizzle-orm/pg-core";
+import { clinicas, consultas, dentistas, faturas, procedimentos, users, utentes } from "./schema";
+
+/**
+ * Schema de Seguradoras e Acordos
+ * - Entidades com acordo (seguradoras, subsistemas como a ADSE, acordos com empresas)
+ * - Tabelas de preços por entidade e procedimento, com o copagamento do utente
+ * - Apólices / cartões de beneficiário dos utentes
+ * - Comparticipações (parte da entidade em cada ato faturado) e lotes de faturação periódicos
+ *   enviados à entidade, com os pagamentos recebidos
+ * - Cheques-dentista do SNS (PNPSO): cheques dos utentes, consultas em que foram utilizados e
+ *   reembolso mensal
+ */
+
+// ============================================
+// ENUMS
+// ============================================
+
+export const tipoEntidadeAcordoEnum = pgEnum("tipo_entidade_acordo", ["seguradora", "subsistema", "acordo"]);
+export const tipoCopagamentoEnum = pgEnum("tipo_copagamento", ["valor", "percentagem"]);
+export const estadoComparticipacaoEnum = pgEnum("estado_comparticipacao", [
+  "pendente", // Por incluir num lote
+  "em_lote",
+  "paga",
+  "recusada",
+]);
+export const estadoLoteEntidadeEnum = pgEnum("estado_lote_entidade", [
+  "aberto", // Em preparação: ainda se podem retirar linhas
+  "enviado",
+  "parcialmente_pago",
+  "pago",
+  "anulado",
+]);
+
+// ============================================
+// ENTIDADES E TABELAS DE PREÇOS
+// ============================================
+
+export const entidadesAcordo = pgTable("entidades_acordo", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  nome: varchar("nome", { length: 255 }).notNull(), // Ex: Médis, Multicare, AdvanceCare, ADSE
+  tipo: tipoEntidadeAcordoEnum("tipo").notNull().default("seguradora"),
+  codigo: varchar("codigo", { length: 50 }), // Código da clínica na entidade (prestador)
+  nif: varchar("nif", { length: 20 }),
+  email: varchar("email", { length: 320 }),
+  telefone: varchar("telefone", { length: 50 }),
+  morada: text("morada"),
+  prazoPagamentoDias: integer("prazoPagamentoDias").notNull().default(60), // Desde o envio do lote
+  ativo: boolean("ativo").notNull().default(true),
+  observacoes: text("observacoes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// Preço acordado de um procedimento e a parte paga pelo utente (valor fixo ou percentagem)
+export const precosAcordo = pgTable("precos_acordo", {
+  id: serial("id").primaryKey(),
+  entidadeId: integer("entidadeId").notNull().references(() => entidadesAcordo.id),
+  procedimentoId: integer("procedimentoId").notNull().references(() => procedimentos.id),
+  codigoEntidade: varchar("codigoEntidade", { length: 50 }), // Código do ato na tabela da entidade
+  preco: numeric("preco", { precision: 10, scale: 2 }).notNull(),
+  tipoCopagamento: tipoCopagamentoEnum("tipoCopagamento").notNull().default("valor"),
+  copagamento: numeric("copagamento", { precision: 10, scale: 2 }).notNull().default("0"), // Euros ou %
+  requerAutorizacao: boolean("requerAutorizacao").notNull().default(false),
+  validoDesde: date("validoDesde"),
+  validoAte: date("validoAte"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// ============================================
+// APÓLICES DOS UTENTES
+// ============================================
+
+export const apolicesUtente = pgTable("apolices_utente", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  entidadeId: integer("entidadeId").notNull().references(() => entidadesAcordo.id),
+  numeroApolice: varchar("numeroApolice", { length: 100 }).notNull(), // Apólice ou nº de beneficiário
+  titular: varchar("titular", { length: 255 }), // Se o utente for dependente
+  validaDesde: date("validaDesde"),
+  validaAte: date("validaAte"),
+  ativa: boolean("ativa").notNull().default(true),
+  observacoes: text("observacoes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// ============================================
+// LOTES E COMPARTICIPAÇÕES
+// ============================================
+
+export const lotesEntidade = pgTable("lotes_entidade", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  entidadeId: integer("entidadeId").notNull().references(() => entidadesAcordo.id),
+  numero: varchar("numero", { length: 30 }).notNull(), // Ex: 2026/0003 (sequência por entidade e ano)
+  dataInicio: date("dataInicio").notNull(),
+  dataFim: date("dataFim").notNull(),
+  estado: estadoLoteEntidadeEnum("estado").notNull().default("aberto"),
+  valorReclamado: numeric("valorReclamado", { precision: 10, scale: 2 }).notNull().default("0"),
+  valorRecusado: numeric("valorRecusado", { precision: 10, scale: 2 }).notNull().default("0"),
+  valorPago: numeric("valorPago", { precision: 10, scale: 2 }).notNull().default("0"),
+  dataEnvio: timestamp("dataEnvio"),
+  dataVencimento: date("dataVencimento"),
+  observacoes: text("observacoes"),
+  criadoPor: integer("criadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// Parte da entidade num ato faturado ao utente (a fatura do utente tem só o copagamento)
+export const comparticipacoes = pgTable("comparticipacoes", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  entidadeId: integer("entidadeId").notNull().references(() => entidadesAcordo.id),
+  apoliceId: integer("apoliceId").notNull().references(() => apolicesUtente.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  faturaId: integer("faturaId").references(() => faturas.id), // Fatura do copagamento (null se o utente não paga nada)
+  procedimentoId: integer("procedimentoId").references(() => procedimentos.id),
+  dentistaId: integer("dentistaId").references(() => dentistas.id),
+  dataAto: date("dataAto").notNull(),
+  codigoEntidade: varchar("codigoEntidade", { length: 50 }),
+  descricao: varchar("descricao", { length: 500 }).notNull(),
+  quantidade: integer("quantidade").notNull().default(1),
+  precoAcordado: numeric("precoAcordado", { precision: 10, scale: 2 }).notNull(), // Por unidade
+  valorUtente: numeric("valorUtente", { precision: 10, scale: 2 }).notNull(), // Total da linha
+  valorEntidade: numeric("valorEntidade", { precision: 10, scale: 2 }).notNull(),
+  // Comissão do dentista sobre a parte da entidade (calculada na emissão, como nas linhas de fatura)
+  custosDeduzidos: numeric("custosDeduzidos", { precision: 10, scale: 2 }).notNull().default("0"),
+  comissaoDentista: numeric("comissaoDentista", { precision: 10, scale: 2 }).notNull().default("0"),
+  valorClinica: numeric("valorClinica", { precision: 10, scale: 2 }).notNull().default("0"),
+  numeroAutorizacao: varchar("numeroAutorizacao", { length: 100 }),
+  estado: estadoComparticipacaoEnum("estado").notNull().default("pendente"),
+  loteId: integer("loteId").references(() => lotesEntidade.id),
+  valorPago: numeric("valorPago", { precision: 10, scale: 2 }).notNull().default("0"),
+  motivoRecusa: text("motivoRecusa"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export const pagamentosLote = pgTable("pagamentos_lote", {
+  id: serial("id").primaryKey(),
+  loteId: integer("loteId").notNull().references(() => lotesEntidade.id),
+  valor: numeric("valor", { precision: 10, scale: 2 }).notNull(),
+  dataPagamento: timestamp("dataPagamento").notNull(),
+  referencia: varchar("referencia", { length: 255 }),
+  observacoes: text("observacoes"),
+  registadoPor: integer("registadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// ============================================
+// CHEQUES-DENTISTA (SNS)
+// ============================================
+
+export const tipoChequeDentistaEnum = pgEnum("tipo_cheque_dentista", [
+  "crianca_jovem",
+  "gravida",
+  "idoso", // Beneficiários do complemento solidário para idosos
+  "vih_sida",
+  "outro",
+]);
+export const estadoChequeDentistaEnum = pgEnum("estado_cheque_dentista", ["ativo", "utilizado", "expirado", "anulado"]);
+
+export const chequesDentista = pgTable("cheques_dentista", {
+  id: serial("id").primaryKey(),
+  clinicaId: integer("clinicaId").notNull().references(() => clinicas.id),
+  utenteId: integer("utenteId").notNull().references(() => utentes.id),
+  numero: varchar("numero", { length: 50 }).notNull(), // Número do cheque emitido pelo SNS
+  tipo: tipoChequeDentistaEnum("tipo").notNull(),
+  numeroSNS: varchar("numeroSNS", { length: 20 }), // Número de utente do SNS
+  dataEmissao: date("dataEmissao").notNull(),
+  validoAte: date("validoAte").notNull(),
+  consultasPermitidas: integer("consultasPermitidas").notNull().default(1),
+  consultasUtilizadas: integer("consultasUtilizadas").notNull().default(0),
+  valorReembolso: numeric("valorReembolso", { precision: 10, scale: 2 }).notNull(), // Pago pelo SNS por consulta
+  estado: estadoChequeDentistaEnum("estado").notNull().default("ativo"),
+  alertaExpiracaoEm: timestamp("alertaExpiracaoEm"), // Aviso de expiração já enviado
+  observacoes: text("observacoes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+// Consulta realizada com o cheque (uma por consulta)
+export const utilizacoesChequeDentista = pgTable("utilizacoes_cheque_dentista", {
+  id: serial("id").primaryKey(),
+  chequeId: integer("chequeId").notNull().references(() => chequesDentista.id),
+  consultaId: integer("consultaId").notNull().references(() => consultas.id).unique(),
+  dataUtilizacao: date("dataUtilizacao").notNull(), // Data da consulta (mês do reembolso)
+  valorReembolso: numeric("valorReembolso", { precision: 10, scale: 2 }).notNull(),
+  reembolsadoEm: timestamp("reembolsadoEm"),
+  referenciaReembolso: varchar("referenciaReembolso", { length: 255 }),
+  registadoPor: integer("registadoPor").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type EntidadeAcordo = typeof entidadesAcordo.$inferSelect;
+export type PrecoAcordo = typeof precosAcordo.$inferSelect;
+export type ApoliceUtente = typeof apolicesUtente.$inferSelect;
+export type LoteEntidade = typeof lotesEntidade.$inferSelect;
+export type Comparticipacao = typeof comparticipacoes.$inferSelect;
+export type ChequeDentista = typeof chequesDentista.$inferSelect;
+export type UtilizacaoChequeDentista = typeof utilizacoesChequeDentista.$inferSelect;
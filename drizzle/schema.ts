@@ -15,10 +15,12 @@ export const utilizadorRoleEnum = pgEnum("utilizador_role", ["proprietario", "ad
 export const generoEnum = pgEnum("genero", ["masculino", "feminino", "outro"]);
 export const estadoTabagismoEnum = pgEnum("estadoTabagismo", ["nunca", "ex_fumador", "fumador"]);
 export const consumoAlcoolEnum = pgEnum("consumoAlcool", ["nunca", "ocasional", "regular"]);
-export const consultaEstadoEnum = pgEnum("consulta_estado", ["agendada", "confirmada", "em_curso", "concluida", "cancelada", "faltou"]);
-export const faturaEstadoEnum = pgEnum("fatura_estado", ["rascunho", "enviada", "paga", "parcialmente_paga", "vencida", "cancelada"]);
+export const consultaEstadoEnum = pgEnum("consulta_estado", ["agendada", "confirmada", "chegou", "em_curso", "concluida", "cancelada", "faltou"]);
+export const faturaEstadoEnum = pgEnum("fatura_estado", ["rascunho", "enviada", "paga", "parcialmente_paga", "vencida", "cancelada", "creditada"]);
 export const metodoPagamentoEnum = pgEnum("metodoPagamento", ["dinheiro", "cartao", "transferencia", "mbway", "multibanco", "outro"]);
+export const tipoDocumentoFiscalEnum = pgEnum("tipo_documento_fiscal", ["FT", "FS", "FR", "NC", "RC"]); // Fatura, Fatura Simplificada, Fatura-Recibo, Nota de Crédito, Recibo
 export const tipoDistribuicaoEnum = pgEnum("tipoDistribuicao", ["percentagem", "fixo", "hibrido"]);
+export const momentoComissaoEnum = pgEnum("momento_comissao", ["faturacao", "recebimento"]); // Quando a comissão do dentista é devida
 export const categoriaEnum = pgEnum("categoria", ["lembrete_consulta", "confirmacao_consulta", "seguimento", "pos_tratamento", "marketing", "outro"]);
 export const notificacaoCanalEnum = pgEnum("notificacao_canal", ["email", "sms", "whatsapp"]);
 export const mensagemEstadoEnum = pgEnum("mensagem_estado", ["pendente", "enviada", "entregue", "lida", "falhada"]);
@@ -117,6 +119,8 @@ export const clinicas = pgTable("clinicas", {
   cidade: varchar("cidade", { length: 100 }),
   codigoPostal: varchar("codigoPostal", { length: 20 }),
   pais: varchar("pais", { length: 2 }).notNull().default("PT"),
+  fusoHorario: varchar("fusoHorario", { length: 50 }).notNull().default("Europe/Lisbon"), // Europe/Lisbon, Atlantic/Madeira, Atlantic/Azores
+  momentoComissao: momentoComissaoEnum("momentoComissao").notNull().default("faturacao"),
   nif: varchar("nif", { length: 50 }),
   logoUrl: varchar("logoUrl", { length: 500 }),
   ativo: boolean("ativo").notNull().default(true),
@@ -269,6 +273,9 @@ export const procedimentos = pgTable("procedimentos", {
   nome: varchar("nome", { length: 255 }).notNull(),
   descricao: text("descricao"),
   precoBase: numeric("precoBase", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxaIVA: numeric("taxaIVA", { precision: 5, scale: 2 }).notNull().default("0"), // Taxa por omissão nas faturas
+  motivoIsencao: varchar("motivoIsencao", { length: 3 }).default("M07"), // Código AT do motivo de isenção (taxa 0)
+  abrangidoChequeDentista: boolean("abrangidoChequeDentista").notNull().default(false), // Ato pago pelo cheque-dentista (não se fatura ao utente)
   duracaoMinutos: integer("duracaoMinutos").default(30),
   cor: varchar("cor", { length: 7 }),
   ativo: boolean("ativo").notNull().default(true),
@@ -293,8 +300,12 @@ export const consultas = pgTable("consultas", {
   observacoes: text("observacoes"),
   motivoCancelamento: text("motivoCancelamento"),
   confirmadaEm: timestamp("confirmadaEm"),
+  chegadaEm: timestamp("chegadaEm"), // Check-in na receção
+  iniciadaEm: timestamp("iniciadaEm"), // Utente na cadeira
   concluidaEm: timestamp("concluidaEm"),
   canceladaEm: timestamp("canceladaEm"),
+  serieId: integer("serieId"), // Série recorrente (series_consultas), se aplicável
+  indiceSerie: integer("indiceSerie"), // Posição da ocorrência na série (0, 1, 2, ...)
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
 });
@@ -309,14 +320,23 @@ export const faturas = pgTable("faturas", {
   utenteId: integer("utenteId").notNull().references(() => utentes.id),
   consultaId: integer("consultaId").references(() => consultas.id),
   numeroFatura: varchar("numeroFatura", { length: 50 }).notNull(),
+  tipoDocumento: tipoDocumentoFiscalEnum("tipoDocumento").notNull().default("FT"),
+  serieId: integer("serieId"), // series_documentos.id (null em faturas anteriores às séries AT)
+  atcud: varchar("atcud", { length: 100 }),
+  hash: varchar("hash", { length: 255 }), // Assinatura RSA encadeada com o documento anterior da série
+  hashControlo: varchar("hashControlo", { length: 10 }), // Versão da chave de assinatura
+  dataSistema: timestamp("dataSistema"), // Data/hora de registo usada na assinatura (SystemEntryDate)
+  codigoQR: text("codigoQR"), // Conteúdo do código QR (Portaria 195/2020)
+  pdfUrl: varchar("pdfUrl", { length: 500 }), // Último PDF gerado
   dataFatura: timestamp("dataFatura").notNull(),
   dataVencimento: timestamp("dataVencimento"),
   subtotal: numeric("subtotal", { precision: 10, scale: 2 }).notNull().default("0"),
   valorIVA: numeric("valorIVA", { precision: 10, scale: 2 }).notNull().default("0"),
-  percentagemIVA: numeric("percentagemIVA", { precision: 5, scale: 2 }).notNull().default("0"),
+  percentagemIVA: numeric("percentagemIVA", { precision: 5, scale: 2 }).notNull().default("0"), // Taxa por omissão das linhas
   valorDesconto: numeric("valorDesconto", { precision: 10, scale: 2 }).notNull().default("0"),
   valorTotal: numeric("valorTotal", { precision: 10, scale: 2 }).notNull().default("0"),
   valorPago: numeric("valorPago", { precision: 10, scale: 2 }).notNull().default("0"),
+  valorCreditado: numeric("valorCreditado", { precision: 10, scale: 2 }).notNull().default("0"), // Soma das notas de crédito
   estado: faturaEstadoEnum("estado").notNull().default("rascunho"),
   observacoes: text("observacoes"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -331,8 +351,13 @@ export const itensFatura = pgTable("itens_fatura", {
   quantidade: integer("quantidade").notNull().default(1),
   precoUnitario: numeric("precoUnitario", { precision: 10, scale: 2 }).notNull(),
   precoTotal: numeric("precoTotal", { precision: 10, scale: 2 }).notNull(),
+  taxaIVA: numeric("taxaIVA", { precision: 5, scale: 2 }).notNull().default("0"),
+  motivoIsencao: varchar("motivoIsencao", { length: 3 }), // Só nas linhas à taxa 0
+  dentistaId: integer("dentistaId").references(() => dentistas.id), // Dentista que fez o tratamento (comissão)
+  custosDeduzidos: numeric("custosDeduzidos", { precision: 10, scale: 2 }).notNull().default("0"), // Laboratório e materiais
   comissaoDentista: numeric("comissaoDentista", { precision: 10, scale: 2 }).default("0"),
   valorClinica: numeric("valorClinica", { precision: 10, scale: 2 }).default("0"),
+  valorCreditado: numeric("valorCreditado", { precision: 10, scale: 2 }).notNull().default("0"), // Valor (sem IVA) já creditado
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -344,6 +369,12 @@ export const pagamentosFatura = pgTable("pagamentos_fatura", {
   dataPagamento: timestamp("dataPagamento").notNull(),
   referencia: varchar("referencia", { length: 255 }),
   observacoes: text("observacoes"),
+  numeroRecibo: varchar("numeroRecibo", { length: 50 }), // Recibo (RC) emitido pelo pagamento
+  serieId: integer("serieId"), // series_documentos.id
+  atcud: varchar("atcud", { length: 100 }),
+  reciboPdfUrl: varchar("reciboPdfUrl", { length: 500 }),
+  porConta: boolean("porConta").notNull().default(false), // Pago pela conta corrente (não é entrada de dinheiro)
+  recebimentoId: integer("recebimentoId"), // recebimentos.id, quando imputado no próprio recebimento
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -7,4 +7,8 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  atNumeroCertificado: process.env.AT_NUMERO_CERTIFICADO ?? "0",
+  atNifProdutor: process.env.AT_NIF_PRODUTOR ?? "999999990",
+  atVersaoChave: process.env.AT_VERSAO_CHAVE ?? "1",
+  atChavePrivada: (process.env.AT_CHAVE_PRIVADA ?? "").replace(/\\n/g, "\n"),
 };
@@ -4,6 +4,8 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registarRotasFeedsCalendario } from "../feeds-calendario";
+import { registarRotasMultibanco } from "../multibanco";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import cors from "cors";
@@ -30,6 +32,10 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 async function startServer() {
   const app = express();
   const server = createServer(app);
+
+  // Proxies à frente da aplicação (o proxy do Fly.io acrescenta um salto ao X-Forwarded-For).
+  // O req.ip usado nos limites por IP dos endpoints públicos depende deste valor.
+  app.set("trust proxy", parseInt(process.env.TRUST_PROXY_HOPS || "1"));
   
   // CORS configuration
   app.use(cors({
@@ -38,7 +44,13 @@ async function startServer() {
   }));
   
   // Configure body parser with larger size limit for file uploads
-  app.use(express.json({ limit: "50mb" }));
+  // O corpo original fica em req.rawBody para validar assinaturas de webhooks (ex: Meta)
+  app.use(express.json({
+    limit: "50mb",
+    verify: (req, _res, corpo) => {
+      (req as typeof req & { rawBody?: Buffer }).rawBody = corpo;
+    },
+  }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   
   // Health check endpoint
@@ -51,6 +63,12 @@ async function startServer() {
   
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+
+  // Feeds ICS de subscrição da agenda
+  registarRotasFeedsCalendario(app);
+
+  // Callback de pagamentos Multibanco do provedor
+  registarRotasMultibanco(app);
   
   // tRPC API
   app.use(
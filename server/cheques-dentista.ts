@@ -0,0 +1,539 @@
+import { getDb, type Executor, type Tx } from "./db";
+import { clinicas, consultas, dentistas, notificacoes, utentes, utilizadoresClinica } from "../drizzle/schema";
+import {
+  chequesDentista,
+  utilizacoesChequeDentista,
+  type ChequeDentista,
+} from "../drizzle/schema-seguradoras";
+import { adicionarDiasChave, adicionarMesesChave, chaveDia, obterFusoClinica } from "./fuso-horario";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, lte, sql } from "drizzle-orm";
+
+/**
+ * Cheques-Dentista do SNS (Programa Nacional de Promoção de Saúde Oral)
+ * - Cada cheque dá direito a um número de consultas até à data de validade; cada consulta
+ *   realizada com o cheque fica registada e é reembolsada pelo SNS (valor por consulta do cheque)
+ * - Os procedimentos marcados como abrangidos (procedimentos.abrangidoChequeDentista) não são
+ *   faturados ao utente numa consulta feita com cheque
+ * - Reembolso mensal: consultas do mês por clínica, com exportação e registo do reembolso
+ * - Alertas de expiração: cheques com consultas por utilizar perto do fim da validade geram uma
+ *   notificação para a receção (uma vez por cheque)
+ */
+
+type TipoCheque = ChequeDentista["tipo"];
+
+const DIAS_ALERTA_EXPIRACAO = 15;
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+function periodoValido(periodo: string) {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(periodo)) throw new Error("Período no formato AAAA-MM");
+}
+
+// ============================================
+// CHEQUES
+// ============================================
+
+export async function listarCheques(filtros: { clinicaId: number; utenteId?: number; estado?: ChequeDentista["estado"] }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      cheque: chequesDentista,
+      utenteNome: utentes.nome,
+    })
+    .from(chequesDentista)
+    .innerJoin(utentes, eq(chequesDentista.utenteId, utentes.id))
+    .where(
+      and(
+        eq(chequesDentista.clinicaId, filtros.clinicaId),
+        filtros.utenteId ? eq(chequesDentista.utenteId, filtros.utenteId) : undefined,
+        filtros.estado ? eq(chequesDentista.estado, filtros.estado) : undefined
+      )
+    )
+    .orderBy(desc(chequesDentista.dataEmissao));
+}
+
+/**
+ * Registar ou corrigir um cheque. Não é possível reduzir as consultas abaixo das já utilizadas
+ */
+export async function guardarCheque(dados: {
+  clinicaId: number;
+  chequeId?: number;
+  utenteId: number;
+  numero: string;
+  tipo: TipoCheque;
+  numeroSNS?: string | null;
+  dataEmissao: string;
+  validoAte: string;
+  consultasPermitidas: number;
+  valorReembolso: string;
+  observacoes?: string | null;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { chequeId, ...valores } = dados;
+  if (dados.validoAte < dados.dataEmissao) throw new Error("A validade termina antes da data de emissão");
+
+  const [utente] = await db
+    .select({ id: utentes.id })
+    .from(utentes)
+    .where(and(eq(utentes.id, dados.utenteId), eq(utentes.clinicaId, dados.clinicaId)))
+    .limit(1);
+  if (!utente) throw new Error("Utente não encontrado");
+
+  const [duplicado] = await db
+    .select({ id: chequesDentista.id })
+    .from(chequesDentista)
+    .where(and(eq(chequesDentista.clinicaId, dados.clinicaId), eq(chequesDentista.numero, dados.numero)))
+    .limit(1);
+  if (duplicado && duplicado.id !== chequeId) throw new Error(`O cheque ${dados.numero} já está registado`);
+
+  if (chequeId) {
+    const [atual] = await db
+      .select()
+      .from(chequesDentista)
+      .where(and(eq(chequesDentista.id, chequeId), eq(chequesDentista.clinicaId, dados.clinicaId)))
+      .limit(1);
+
+    if (!atual) throw new Error("Cheque não encontrado");
+    if (atual.estado === "anulado") throw new Error("O cheque está anulado");
+    if (dados.consultasPermitidas < atual.consultasUtilizadas) {
+      throw new Error(`O cheque já foi utilizado em ${atual.consultasUtilizadas} consulta(s)`);
+    }
+
+    const fuso = await obterFusoClinica(dados.clinicaId);
+    const [cheque] = await db
+      .update(chequesDentista)
+      .set({
+        ...valores,
+        estado: estadoPelaUtilizacao(dados.consultasPermitidas, atual.consultasUtilizadas, dados.validoAte, chaveDia(new Date(), fuso)),
+        // Nova validade: volta a avisar
+        alertaExpiracaoEm: dados.validoAte === atual.validoAte ? atual.alertaExpiracaoEm : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(chequesDentista.id, chequeId))
+      .returning();
+
+    return cheque;
+  }
+
+  const [cheque] = await db.insert(chequesDentista).values(valores).returning();
+  return cheque;
+}
+
+function estadoPelaUtilizacao(permitidas: number, utilizadas: number, validoAte: string, hoje: string): ChequeDentista["estado"] {
+  if (utilizadas >= permitidas) return "utilizado";
+  return validoAte < hoje ? "expirado" : "ativo";
+}
+
+/**
+ * Anular um cheque registado por engano (só sem consultas utilizadas)
+ */
+export async function anularCheque(chequeId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [cheque] = await db
+    .select({ consultasUtilizadas: chequesDentista.consultasUtilizadas })
+    .from(chequesDentista)
+    .where(and(eq(chequesDentista.id, chequeId), eq(chequesDentista.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!cheque) throw new Error("Cheque não encontrado");
+  if (cheque.consultasUtilizadas > 0) throw new Error("O cheque já foi utilizado: retire primeiro as consultas");
+
+  await db
+    .update(chequesDentista)
+    .set({ estado: "anulado", updatedAt: new Date() })
+    .where(eq(chequesDentista.id, chequeId));
+
+  return { success: true };
+}
+
+// ============================================
+// UTILIZAÇÃO NAS CONSULTAS
+// ============================================
+
+/**
+ * Consultas em que o cheque foi utilizado
+ */
+export async function listarUtilizacoes(chequeId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      utilizacao: utilizacoesChequeDentista,
+      horaInicio: consultas.horaInicio,
+      dentistaNome: dentistas.nome,
+    })
+    .from(utilizacoesChequeDentista)
+    .innerJoin(chequesDentista, eq(utilizacoesChequeDentista.chequeId, chequesDentista.id))
+    .innerJoin(consultas, eq(utilizacoesChequeDentista.consultaId, consultas.id))
+    .innerJoin(dentistas, eq(consultas.dentistaId, dentistas.id))
+    .where(and(eq(utilizacoesChequeDentista.chequeId, chequeId), eq(chequesDentista.clinicaId, clinicaId)))
+    .orderBy(asc(utilizacoesChequeDentista.dataUtilizacao));
+}
+
+/**
+ * Registar a consulta como feita com o cheque (dentro da validade e das consultas permitidas)
+ */
+export async function utilizarCheque(dados: { clinicaId: number; chequeId: number; consultaId: number; userId: number }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+
+  return await db.transaction(async tx => {
+    const [cheque] = await tx
+      .select()
+      .from(chequesDentista)
+      .where(and(eq(chequesDentista.id, dados.chequeId), eq(chequesDentista.clinicaId, dados.clinicaId)))
+      .for("update");
+    if (!cheque) throw new Error("Cheque não encontrado");
+
+    const [consulta] = await tx
+      .select({ utenteId: consultas.utenteId, horaInicio: consultas.horaInicio, estado: consultas.estado })
+      .from(consultas)
+      .where(and(eq(consultas.id, dados.consultaId), eq(consultas.clinicaId, dados.clinicaId)))
+      .limit(1);
+    if (!consulta) throw new Error("Consulta não encontrada");
+
+    if (consulta.utenteId !== cheque.utenteId) throw new Error("O cheque é de outro utente");
+    if (consulta.estado === "cancelada" || consulta.estado === "faltou") throw new Error("A consulta não foi realizada");
+
+    const [existente] = await tx
+      .select({ id: utilizacoesChequeDentista.id })
+      .from(utilizacoesChequeDentista)
+      .where(eq(utilizacoesChequeDentista.consultaId, dados.consultaId))
+      .limit(1);
+    if (existente) throw new Error("A consulta já está associada a um cheque-dentista");
+
+    const dataUtilizacao = chaveDia(consulta.horaInicio, fuso);
+    if (cheque.estado === "anulado") throw new Error("O cheque está anulado");
+    if (dataUtilizacao < cheque.dataEmissao || dataUtilizacao > cheque.validoAte) {
+      throw new Error(`A consulta está fora da validade do cheque (${cheque.dataEmissao} a ${cheque.validoAte})`);
+    }
+    if (cheque.consultasUtilizadas >= cheque.consultasPermitidas) throw new Error("O cheque já não tem consultas disponíveis");
+
+    const [utilizacao] = await tx
+      .insert(utilizacoesChequeDentista)
+      .values({
+        chequeId: cheque.id,
+        consultaId: dados.consultaId,
+        dataUtilizacao,
+        valorReembolso: cheque.valorReembolso,
+        registadoPor: dados.userId,
+      })
+      .returning();
+
+    const consultasUtilizadas = cheque.consultasUtilizadas + 1;
+    await tx
+      .update(chequesDentista)
+      .set({
+        consultasUtilizadas,
+        estado: consultasUtilizadas >= cheque.consultasPermitidas ? "utilizado" : cheque.estado,
+        updatedAt: new Date(),
+      })
+      .where(eq(chequesDentista.id, cheque.id));
+
+    return utilizacao;
+  });
+}
+
+/**
+ * Retirar o cheque de uma consulta (antes de ser reembolsada)
+ */
+export async function removerUtilizacao(dados: { clinicaId: number; consultaId: number }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+
+  return await db.transaction(async tx => {
+    const [utilizacao] = await tx
+      .select({ id: utilizacoesChequeDentista.id, chequeId: utilizacoesChequeDentista.chequeId, reembolsadoEm: utilizacoesChequeDentista.reembolsadoEm })
+      .from(utilizacoesChequeDentista)
+      .innerJoin(chequesDentista, eq(utilizacoesChequeDentista.chequeId, chequesDentista.id))
+      .where(and(eq(utilizacoesChequeDentista.consultaId, dados.consultaId), eq(chequesDentista.clinicaId, dados.clinicaId)))
+      .limit(1);
+
+    if (!utilizacao) throw new Error("A consulta não tem cheque-dentista");
+    if (utilizacao.reembolsadoEm) throw new Error("A consulta já foi reembolsada pelo SNS");
+
+    const [cheque] = await tx
+      .select()
+      .from(chequesDentista)
+      .where(eq(chequesDentista.id, utilizacao.chequeId))
+      .for("update");
+
+    await tx.delete(utilizacoesChequeDentista).where(eq(utilizacoesChequeDentista.id, utilizacao.id));
+
+    const consultasUtilizadas = cheque.consultasUtilizadas - 1;
+    await tx
+      .update(chequesDentista)
+      .set({
+        consultasUtilizadas,
+        estado: estadoPelaUtilizacao(cheque.consultasPermitidas, consultasUtilizadas, cheque.validoAte, chaveDia(new Date(), fuso)),
+        updatedAt: new Date(),
+      })
+      .where(eq(chequesDentista.id, cheque.id));
+
+    return { success: true };
+  });
+}
+
+/**
+ * A consulta foi feita com cheque-dentista? (na emissão da fatura)
+ */
+export async function consultaComChequeDentista(tx: Tx, consultaId: number): Promise<boolean> {
+  const [utilizacao] = await tx
+    .select({ id: utilizacoesChequeDentista.id })
+    .from(utilizacoesChequeDentista)
+    .where(eq(utilizacoesChequeDentista.consultaId, consultaId))
+    .limit(1);
+
+  return !!utilizacao;
+}
+
+// ============================================
+// REEMBOLSO MENSAL
+// ============================================
+
+/**
+ * Consultas com cheque-dentista do mês (pela data da consulta), para o pedido de reembolso ao SNS
+ */
+export async function listaReembolso(dados: { clinicaId: number; periodo: string }) {
+  periodoValido(dados.periodo);
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const inicio = `${dados.periodo}-01`;
+  const linhas = await db
+    .select({
+      utilizacaoId: utilizacoesChequeDentista.id,
+      data: utilizacoesChequeDentista.dataUtilizacao,
+      numeroCheque: chequesDentista.numero,
+      tipo: chequesDentista.tipo,
+      utenteNome: utentes.nome,
+      numeroSNS: chequesDentista.numeroSNS,
+      dentistaNome: dentistas.nome,
+      dentistaCedula: dentistas.numeroCedula,
+      valor: utilizacoesChequeDentista.valorReembolso,
+      reembolsadoEm: utilizacoesChequeDentista.reembolsadoEm,
+      referenciaReembolso: utilizacoesChequeDentista.referenciaReembolso,
+    })
+    .from(utilizacoesChequeDentista)
+    .innerJoin(chequesDentista, eq(utilizacoesChequeDentista.chequeId, chequesDentista.id))
+    .innerJoin(utentes, eq(chequesDentista.utenteId, utentes.id))
+    .innerJoin(consultas, eq(utilizacoesChequeDentista.consultaId, consultas.id))
+    .innerJoin(dentistas, eq(consultas.dentistaId, dentistas.id))
+    .where(
+      and(
+        eq(chequesDentista.clinicaId, dados.clinicaId),
+        gte(utilizacoesChequeDentista.dataUtilizacao, inicio),
+        lt(utilizacoesChequeDentista.dataUtilizacao, adicionarMesesChave(inicio, 1))
+      )
+    )
+    .orderBy(asc(utilizacoesChequeDentista.dataUtilizacao), asc(chequesDentista.numero));
+
+  return {
+    periodo: dados.periodo,
+    linhas,
+    numeroConsultas: linhas.length,
+    total: euros(linhas.reduce((s, l) => s + centimos(l.valor), 0)),
+    totalReembolsado: euros(linhas.filter(l => l.reembolsadoEm).reduce((s, l) => s + centimos(l.valor), 0)),
+  };
+}
+
+/**
+ * Lista de reembolso em CSV (separador ";" e vírgula decimal)
+ */
+export async function exportarReembolsoCSV(dados: { clinicaId: number; periodo: string }) {
+  const lista = await listaReembolso(dados);
+
+  const campo = (valor: string | null) => (/[";\n]/.test(valor ?? "") ? `"${(valor ?? "").replace(/"/g, '""')}"` : valor ?? "");
+  const numero = (valor: string) => valor.replace(".", ",");
+
+  const linhas = [
+    ["Data", "Cheque", "Tipo", "Utente", "N.º SNS", "Médico dentista", "Cédula", "Valor"].join(";"),
+    ...lista.linhas.map(l =>
+      [
+        l.data,
+        campo(l.numeroCheque),
+        l.tipo,
+        campo(l.utenteNome),
+        campo(l.numeroSNS),
+        campo(l.dentistaNome),
+        campo(l.dentistaCedula),
+        numero(l.valor),
+      ].join(";")
+    ),
+    ["", "", "", "", "", "", "Total", numero(lista.total)].join(";"),
+  ];
+
+  return {
+    nomeFicheiro: `ChequesDentista_${lista.periodo}.csv`,
+    conteudo: Buffer.from(`\uFEFF${linhas.join("\r\n")}\r\n`, "utf8"),
+  };
+}
+
+/**
+ * Registar o reembolso do SNS das consultas do mês ainda por reembolsar
+ */
+export async function marcarReembolsados(dados: { clinicaId: number; periodo: string; referencia?: string; dataReembolso?: Date }) {
+  periodoValido(dados.periodo);
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const inicio = `${dados.periodo}-01`;
+  const atualizadas = await db
+    .update(utilizacoesChequeDentista)
+    .set({ reembolsadoEm: dados.dataReembolso ?? new Date(), referenciaReembolso: dados.referencia })
+    .where(
+      and(
+        isNull(utilizacoesChequeDentista.reembolsadoEm),
+        gte(utilizacoesChequeDentista.dataUtilizacao, inicio),
+        lt(utilizacoesChequeDentista.dataUtilizacao, adicionarMesesChave(inicio, 1)),
+        inArray(
+          utilizacoesChequeDentista.chequeId,
+          db.select({ id: chequesDentista.id }).from(chequesDentista).where(eq(chequesDentista.clinicaId, dados.clinicaId))
+        )
+      )
+    )
+    .returning({ id: utilizacoesChequeDentista.id });
+
+  return { reembolsadas: atualizadas.length };
+}
+
+// ============================================
+// EXPIRAÇÃO (AGENDAMENTO DIÁRIO)
+// ============================================
+
+/**
+ * Quem recebe os alertas da clínica: o proprietário e os administradores e rececionistas ativos
+ */
+export async function destinatariosClinica(tx: Executor, clinicaId: number): Promise<number[]> {
+  const [clinica] = await tx
+    .select({ proprietarioId: clinicas.proprietarioId })
+    .from(clinicas)
+    .where(eq(clinicas.id, clinicaId))
+    .limit(1);
+
+  const membros: { userId: number }[] = await tx
+    .select({ userId: utilizadoresClinica.userId })
+    .from(utilizadoresClinica)
+    .where(
+      and(
+        eq(utilizadoresClinica.clinicaId, clinicaId),
+        eq(utilizadoresClinica.ativo, true),
+        inArray(utilizadoresClinica.role, ["proprietario", "admin", "rececionista"])
+      )
+    );
+
+  return Array.from(new Set([clinica?.proprietarioId, ...membros.map(m => m.userId)].filter((id): id is number => !!id)));
+}
+
+/**
+ * Marcar como expirados os cheques fora de validade e avisar dos que expiram nos próximos dias
+ * com consultas por utilizar
+ */
+export async function processarExpiracaoCheques(): Promise<{ expirados: number; alertas: number }> {
+  const db = await getDb();
+  if (!db) return { expirados: 0, alertas: 0 };
+
+  // Nenhum fuso suportado está à frente de UTC+1
+  const limite = adicionarDiasChave(new Date().toISOString().slice(0, 10), DIAS_ALERTA_EXPIRACAO + 1);
+
+  const candidatos = await db
+    .select({ cheque: chequesDentista, utenteNome: utentes.nome })
+    .from(chequesDentista)
+    .innerJoin(utentes, eq(chequesDentista.utenteId, utentes.id))
+    .where(and(eq(chequesDentista.estado, "ativo"), lte(chequesDentista.validoAte, limite)));
+
+  const agora = new Date();
+  let expirados = 0;
+  let alertas = 0;
+
+  for (const { cheque, utenteNome } of candidatos) {
+    const hoje = chaveDia(agora, await obterFusoClinica(cheque.clinicaId));
+
+    if (cheque.validoAte < hoje) {
+      await db.update(chequesDentista).set({ estado: "expirado", updatedAt: agora }).where(eq(chequesDentista.id, cheque.id));
+      expirados++;
+      continue;
+    }
+
+    if (cheque.alertaExpiracaoEm || cheque.validoAte > adicionarDiasChave(hoje, DIAS_ALERTA_EXPIRACAO)) continue;
+
+    const porUtilizar = cheque.consultasPermitidas - cheque.consultasUtilizadas;
+    const [ano, mes, dia] = cheque.validoAte.split("-");
+
+    await db.transaction(async tx => {
+      const destinatarios = await destinatariosClinica(tx, cheque.clinicaId);
+      if (destinatarios.length > 0) {
+        await tx.insert(notificacoes).values(
+          destinatarios.map(userId => ({
+            userId,
+            clinicaId: cheque.clinicaId,
+            tipo: "cheque_dentista_expiracao",
+            titulo: "Cheque-dentista a expirar",
+            mensagem: `O cheque-dentista ${cheque.numero} de ${utenteNome} expira a ${dia}/${mes}/${ano} e ainda tem ${porUtilizar} consulta(s) por utilizar`,
+            link: `/utentes/${cheque.utenteId}`,
+            icone: "AlertTriangle",
+            cor: "yellow",
+          }))
+        );
+      }
+
+      await tx.update(chequesDentista).set({ alertaExpiracaoEm: agora }).where(eq(chequesDentista.id, cheque.id));
+    });
+    alertas++;
+  }
+
+  return { expirados, alertas };
+}
+
+/**
+ * Resumo dos cheques da clínica (ativos, a expirar e consultas por reembolsar)
+ */
+export async function resumoCheques(clinicaId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const hoje = chaveDia(new Date(), await obterFusoClinica(clinicaId));
+
+  const [ativos] = await db
+    .select({
+      total: sql<number>`count(*)::int`,
+      aExpirar: sql<number>`count(*) filter (where ${chequesDentista.validoAte} <= ${adicionarDiasChave(hoje, DIAS_ALERTA_EXPIRACAO)})::int`,
+      consultasDisponiveis: sql<number>`coalesce(sum(${chequesDentista.consultasPermitidas} - ${chequesDentista.consultasUtilizadas}), 0)::int`,
+    })
+    .from(chequesDentista)
+    .where(and(eq(chequesDentista.clinicaId, clinicaId), eq(chequesDentista.estado, "ativo")));
+
+  const [porReembolsar] = await db
+    .select({
+      consultas: sql<number>`count(*)::int`,
+      valor: sql<string>`coalesce(sum(${utilizacoesChequeDentista.valorReembolso}), 0)`,
+    })
+    .from(utilizacoesChequeDentista)
+    .innerJoin(chequesDentista, eq(utilizacoesChequeDentista.chequeId, chequesDentista.id))
+    .where(and(eq(chequesDentista.clinicaId, clinicaId), isNull(utilizacoesChequeDentista.reembolsadoEm)));
+
+  return {
+    ativos: ativos.total,
+    aExpirar: ativos.aExpirar,
+    consultasDisponiveis: ativos.consultasDisponiveis,
+    consultasPorReembolsar: porReembolsar.consultas,
+    valorPorReembolsar: euros(centimos(porReembolsar.valor)),
+  };
+}
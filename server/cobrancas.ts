@@ -0,0 +1,792 @@
+import { nanoid } from "nanoid";
+import { getDb, type Executor } from "./db";
+import { clinicas, faturas, notificacoes, pagamentosFatura, utentes } from "../drizzle/schema";
+import {
+  acoesCobranca,
+  cobrancasFatura,
+  passosCobranca,
+  planosPagamento,
+  type AcaoCobranca,
+  type CobrancaFatura,
+  type PassoCobranca,
+} from "../drizzle/schema-faturacao";
+import { chaveDia, obterFusoClinica } from "./fuso-horario";
+import { gerarReferencia, listarReferencias, obterConfiguracao } from "./multibanco";
+import { destinatariosClinica } from "./cheques-dentista";
+import { enviarSMS } from "./integrations/twilio/sms";
+import { emailMarketingService } from "./email-marketing-service";
+import { whatsappService } from "./whatsapp-service";
+import { and, asc, desc, eq, exists, gt, inArray, lt, notExists, notInArray, sql } from "drizzle-orm";
+
+/**
+ * Cobrança de Faturas Vencidas
+ * - Job diário: faturas emitidas e por pagar depois do dia de vencimento (no fuso da clínica)
+ *   passam a "vencida"
+ * - Cada clínica define a sua escala de passos (dias depois do vencimento e canal: email, SMS,
+ *   WhatsApp ou tarefa para a equipa). Cada passo executado fica registado por fatura, dia e
+ *   canal, para que o utente nunca seja contactado duas vezes no mesmo passo
+ * - Clínicas sem nenhum passo configurado seguem a escala padrão (PASSOS_PADRAO); para deixar de
+ *   cobrar, a clínica desativa os passos
+ * - Quando a cobrança começa depois de alguns passos já terem passado (ex: escala criada com
+ *   faturas antigas em atraso), só é executado o passo mais recente; os anteriores ficam saltados
+ * - A cobrança para no momento em que é registado um pagamento da fatura, por qualquer meio, e termina
+ *   quando a fatura fica paga, creditada ou anulada. A clínica pode suspendê-la e retomá-la
+ * - Faturas com um plano de pagamento ativo seguem o calendário do plano (lembretes das prestações):
+ *   não passam a "vencida" nem são cobradas, e a cobrança em curso é interrompida
+ */
+
+type CanalCobranca = PassoCobranca["canal"];
+
+// Passo a executar: configurado pela clínica ou da escala padrão
+type PassoEscala = Pick<PassoCobranca, "diasAposVencimento" | "canal" | "mensagem" | "incluirLinkPagamento">;
+
+const ESTADOS_FATURA_EM_ABERTO: (typeof faturas.$inferSelect)["estado"][] = ["enviada", "parcialmente_paga", "vencida"];
+
+// Envios falhados são tentados de novo nos dias seguintes, até este limite
+const MAXIMO_TENTATIVAS = 3;
+
+/**
+ * Escala usada enquanto a clínica não configurar a sua (e sugerida ao configurar)
+ */
+export const PASSOS_PADRAO: { diasAposVencimento: number; canal: CanalCobranca; incluirLinkPagamento: boolean }[] = [
+  { diasAposVencimento: 3, canal: "email", incluirLinkPagamento: true },
+  { diasAposVencimento: 10, canal: "sms", incluirLinkPagamento: false },
+  { diasAposVencimento: 20, canal: "whatsapp", incluirLinkPagamento: true },
+  { diasAposVencimento: 45, canal: "tarefa", incluirLinkPagamento: false },
+];
+
+/**
+ * Texto de cada canal quando o passo não tem mensagem própria
+ * Variáveis: {utente}, {telefone}, {clinica}, {telefoneClinica}, {fatura}, {valor}, {vencimento},
+ * {dias}, {link}, {multibanco}
+ */
+const MENSAGENS_PADRAO: Record<CanalCobranca, string> = {
+  email:
+    "Olá {utente},\n\nLembramos que a fatura {fatura} da {clinica}, no valor em dívida de {valor} €, venceu a {vencimento}. " +
+    "Se já efetuou o pagamento, por favor ignore esta mensagem.\n\n{multibanco}\n\nPode consultar e pagar a fatura em {link}\n\n" +
+    "Obrigado,\n{clinica}",
+  sms: "{clinica}: a fatura {fatura} ({valor} €) está vencida desde {vencimento}. Por favor regularize ou contacte-nos: {telefoneClinica}.",
+  whatsapp:
+    "Olá {utente}, a fatura {fatura} da {clinica} ({valor} €) continua por pagar há {dias} dias.\n" +
+    "Pode pagá-la aqui: {link}\n{multibanco}",
+  tarefa: "Contactar {utente} ({telefone}) sobre a fatura {fatura}: {valor} € por pagar há {dias} dias.",
+};
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+function diasEntre(inicio: string, fim: string): number {
+  return Math.round((Date.parse(fim) - Date.parse(inicio)) / (24 * 60 * 60 * 1000));
+}
+
+function formatarChave(chave: string): string {
+  const [ano, mes, dia] = chave.split("-");
+  return `${dia}/${mes}/${ano}`;
+}
+
+function valorEmDivida(fatura: { valorTotal: string; valorCreditado: string; valorPago: string }): number {
+  return centimos(fatura.valorTotal) - centimos(fatura.valorCreditado) - centimos(fatura.valorPago);
+}
+
+/**
+ * URL público de pagamento da fatura em cobrança
+ */
+export function urlPagamento(token: string): string {
+  const base = (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+  return `${base}/pagamento/${token}`;
+}
+
+// ============================================
+// ESCALA DA CLÍNICA
+// ============================================
+
+/**
+ * Passos da escala de cobrança da clínica, pela ordem em que são executados
+ */
+export async function listarPassos(clinicaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(passosCobranca)
+    .where(eq(passosCobranca.clinicaId, clinicaId))
+    .orderBy(asc(passosCobranca.diasAposVencimento), asc(passosCobranca.id));
+}
+
+/**
+ * Criar ou alterar um passo da escala
+ */
+export async function guardarPasso(dados: {
+  clinicaId: number;
+  passoId?: number;
+  diasAposVencimento: number;
+  canal: CanalCobranca;
+  mensagem?: string | null;
+  incluirLinkPagamento: boolean;
+  ativo: boolean;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { passoId, ...valores } = dados;
+
+  const [repetido] = await db
+    .select({ id: passosCobranca.id })
+    .from(passosCobranca)
+    .where(
+      and(
+        eq(passosCobranca.clinicaId, dados.clinicaId),
+        eq(passosCobranca.diasAposVencimento, dados.diasAposVencimento),
+        eq(passosCobranca.canal, dados.canal)
+      )
+    )
+    .limit(1);
+  if (repetido && repetido.id !== passoId) throw new Error("Já existe um passo neste dia para este canal");
+
+  if (passoId) {
+    const [passo] = await db
+      .update(passosCobranca)
+      .set({ ...valores, mensagem: valores.mensagem || null, updatedAt: new Date() })
+      .where(and(eq(passosCobranca.id, passoId), eq(passosCobranca.clinicaId, dados.clinicaId)))
+      .returning();
+    if (!passo) throw new Error("Passo não encontrado");
+    return passo;
+  }
+
+  const [passo] = await db
+    .insert(passosCobranca)
+    .values({ ...valores, mensagem: valores.mensagem || null })
+    .returning();
+  return passo;
+}
+
+export async function removerPasso(passoId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [passo] = await db
+    .delete(passosCobranca)
+    .where(and(eq(passosCobranca.id, passoId), eq(passosCobranca.clinicaId, clinicaId)))
+    .returning({ id: passosCobranca.id });
+  if (!passo) throw new Error("Passo não encontrado");
+
+  return { success: true };
+}
+
+/**
+ * Criar a escala sugerida (só numa clínica sem passos)
+ */
+export async function aplicarPassosPadrao(clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existentes = await listarPassos(clinicaId);
+  if (existentes.length > 0) throw new Error("A clínica já tem uma escala de cobrança");
+
+  return await db
+    .insert(passosCobranca)
+    .values(PASSOS_PADRAO.map(passo => ({ ...passo, clinicaId })))
+    .returning();
+}
+
+// ============================================
+// JOB DIÁRIO
+// ============================================
+
+/**
+ * Marcar como vencidas as faturas emitidas e sem pagamentos cujo dia de vencimento já passou
+ * (as parcialmente pagas mantêm o estado; o valor em falta continua a ser cobrado)
+ */
+/**
+ * Subconsulta: plano de pagamento ativo da fatura (usar com exists / notExists)
+ */
+function planoPagamentoAtivo(executor: Executor) {
+  return executor
+    .select({ id: planosPagamento.id })
+    .from(planosPagamento)
+    .where(and(eq(planosPagamento.faturaId, faturas.id), eq(planosPagamento.estado, "ativo")));
+}
+
+export async function marcarFaturasVencidas(): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const agora = new Date();
+  const candidatas = await db
+    .select({ id: faturas.id, clinicaId: faturas.clinicaId, dataVencimento: faturas.dataVencimento })
+    .from(faturas)
+    .where(and(eq(faturas.estado, "enviada"), lt(faturas.dataVencimento, agora), notExists(planoPagamentoAtivo(db))));
+
+  const vencidas: number[] = [];
+  for (const fatura of candidatas) {
+    const fuso = await obterFusoClinica(fatura.clinicaId);
+    if (chaveDia(fatura.dataVencimento!, fuso) < chaveDia(agora, fuso)) vencidas.push(fatura.id);
+  }
+
+  if (vencidas.length === 0) return 0;
+
+  // Só as que continuam por pagar (um pagamento pode ter entrado entretanto)
+  const atualizadas = await db
+    .update(faturas)
+    .set({ estado: "vencida", updatedAt: agora })
+    .where(and(inArray(faturas.id, vencidas), eq(faturas.estado, "enviada")))
+    .returning({ id: faturas.id });
+
+  return atualizadas.length;
+}
+
+async function terminarCobranca(
+  executor: Executor,
+  cobrancaId: number,
+  estado: Exclude<CobrancaFatura["estado"], "ativa">,
+  motivo: string
+) {
+  const agora = new Date();
+  await executor
+    .update(cobrancasFatura)
+    .set({ estado, motivo, terminadaEm: agora, updatedAt: agora })
+    .where(and(eq(cobrancasFatura.id, cobrancaId), eq(cobrancasFatura.estado, "ativa")));
+
+  // Tarefas da equipa que deixaram de fazer sentido
+  await executor
+    .update(acoesCobranca)
+    .set({ estado: "cancelada", updatedAt: agora })
+    .where(and(eq(acoesCobranca.cobrancaId, cobrancaId), eq(acoesCobranca.estado, "pendente")));
+}
+
+/**
+ * Terminar as cobranças em curso de faturas que receberam um pagamento
+ * Chamado na transação do pagamento (depois de atualizar a fatura), para nenhum passo seguinte
+ * ser enviado ao utente que já pagou
+ */
+export async function terminarCobrancasPagamento(executor: Executor, faturaIds: number[]) {
+  if (faturaIds.length === 0) return;
+
+  const ativas = await executor
+    .select({ id: cobrancasFatura.id, estadoFatura: faturas.estado })
+    .from(cobrancasFatura)
+    .innerJoin(faturas, eq(cobrancasFatura.faturaId, faturas.id))
+    .where(and(inArray(cobrancasFatura.faturaId, faturaIds), eq(cobrancasFatura.estado, "ativa")));
+
+  for (const cobranca of ativas) {
+    if (cobranca.estadoFatura === "paga") {
+      await terminarCobranca(executor, cobranca.id, "concluida", "Fatura paga");
+    } else {
+      await terminarCobranca(executor, cobranca.id, "interrompida", "Pagamento registado");
+    }
+  }
+}
+
+type FaturaEmCobranca = {
+  fatura: typeof faturas.$inferSelect;
+  utente: typeof utentes.$inferSelect;
+  clinicaNome: string;
+  clinicaTelemovel: string | null;
+};
+
+/**
+ * Texto do passo com os dados da fatura
+ */
+async function prepararMensagem(
+  passo: PassoEscala,
+  dados: FaturaEmCobranca & { cobranca: CobrancaFatura; vencimento: string; dias: number }
+): Promise<string> {
+  let multibanco = "";
+  if (passo.incluirLinkPagamento) {
+    const configuracao = await obterConfiguracao(dados.fatura.clinicaId);
+    if (configuracao?.ativo) {
+      try {
+        const referencia = await gerarReferencia({ clinicaId: dados.fatura.clinicaId, faturaId: dados.fatura.id });
+        multibanco = `Multibanco - Entidade: ${referencia.entidade} Referência: ${referencia.referenciaFormatada} Valor: ${referencia.valor} €`;
+      } catch (error) {
+        console.error(`[Cobranças] Erro ao gerar referência Multibanco da fatura ${dados.fatura.id}:`, error);
+      }
+    }
+  }
+
+  const link = passo.incluirLinkPagamento ? urlPagamento(dados.cobranca.tokenPagamento) : "";
+  const modelo = passo.mensagem || MENSAGENS_PADRAO[passo.canal];
+
+  const variaveis: Record<string, string> = {
+    utente: dados.utente.nome,
+    telefone: dados.utente.telemovel,
+    clinica: dados.clinicaNome,
+    telefoneClinica: dados.clinicaTelemovel ?? "",
+    fatura: dados.fatura.numeroFatura,
+    valor: euros(valorEmDivida(dados.fatura)),
+    vencimento: formatarChave(dados.vencimento),
+    dias: String(dados.dias),
+    link,
+    multibanco,
+  };
+
+  // Linhas do link ou da referência quando não há (ex: sem Multibanco configurado)
+  const linhas = modelo
+    .split("\n")
+    .filter(linha => !(/\{link\}/.test(linha) && !link) && !(/\{multibanco\}/.test(linha) && !multibanco));
+  if (link && !modelo.includes("{link}")) linhas.push(link);
+
+  return linhas
+    .map(linha => linha.replace(/\{(\w+)\}/g, (original, nome) => variaveis[nome] ?? original))
+    .filter((linha, i, todas) => linha.trim() !== "" || (i > 0 && todas[i - 1].trim() !== ""))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * Executar um passo: contactar o utente pelo canal do passo ou criar a tarefa para a equipa
+ */
+async function executarPasso(
+  passo: PassoEscala,
+  dados: FaturaEmCobranca & { cobranca: CobrancaFatura },
+  mensagem: string
+): Promise<Pick<AcaoCobranca, "estado" | "destinatario" | "erro">> {
+  const { fatura, utente } = dados;
+
+  if (passo.canal === "tarefa") {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const destinatarios = await destinatariosClinica(db, fatura.clinicaId);
+    if (destinatarios.length > 0) {
+      await db.insert(notificacoes).values(
+        destinatarios.map(userId => ({
+          userId,
+          clinicaId: fatura.clinicaId,
+          tipo: "cobranca_tarefa",
+          titulo: `Cobrança: contactar ${utente.nome}`,
+          mensagem,
+          link: `/faturas/${fatura.id}`,
+          icone: "PhoneCall",
+          cor: "red",
+        }))
+      );
+    }
+    return { estado: "pendente", destinatario: null, erro: null };
+  }
+
+  if (passo.canal === "email") {
+    if (!utente.email) return { estado: "sem_contacto", destinatario: null, erro: "O utente não tem email" };
+
+    try {
+      await emailMarketingService.enviarEmailTransacional({
+        to: utente.email,
+        subject: `${dados.clinicaNome} - Fatura ${fatura.numeroFatura} por pagar`,
+        html: mensagem
+          .split("\n")
+          .map(linha => linha.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;"))
+          .join("<br>"),
+        text: mensagem,
+      });
+      return { estado: "enviada", destinatario: utente.email, erro: null };
+    } catch (error) {
+      return { estado: "falhada", destinatario: utente.email, erro: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  if (!utente.telemovel) return { estado: "sem_contacto", destinatario: null, erro: "O utente não tem telemóvel" };
+
+  if (passo.canal === "sms") {
+    const resultado = await enviarSMS({
+      para: utente.telemovel,
+      mensagem,
+      utenteId: utente.id,
+      clinicaId: fatura.clinicaId,
+      tipo: "cobranca",
+    });
+    return resultado.success
+      ? { estado: "enviada", destinatario: utente.telemovel, erro: null }
+      : { estado: "falhada", destinatario: utente.telemovel, erro: resultado.erro ?? "Erro no envio do SMS" };
+  }
+
+  const resultado = await whatsappService.sendTextMessage(utente.telemovel, mensagem, fatura.clinicaId, utente.id);
+  return resultado.success
+    ? { estado: "enviada", destinatario: utente.telemovel, erro: null }
+    : { estado: "falhada", destinatario: utente.telemovel, erro: resultado.error ?? "Erro no envio por WhatsApp" };
+}
+
+/**
+ * Executar os passos devidos das faturas em atraso de todas as clínicas (escala da clínica ou padrão)
+ */
+export async function processarCobrancas() {
+  const resultado = { enviadas: 0, falhadas: 0, semContacto: 0, tarefas: 0, interrompidas: 0, concluidas: 0 };
+
+  const db = await getDb();
+  if (!db) return resultado;
+
+  // Cobranças de faturas que já não estão por pagar
+  const terminadas = await db
+    .select({ id: cobrancasFatura.id, estadoFatura: faturas.estado })
+    .from(cobrancasFatura)
+    .innerJoin(faturas, eq(cobrancasFatura.faturaId, faturas.id))
+    .where(and(eq(cobrancasFatura.estado, "ativa"), notInArray(faturas.estado, ESTADOS_FATURA_EM_ABERTO)));
+
+  for (const cobranca of terminadas) {
+    await terminarCobranca(db, cobranca.id, "concluida", cobranca.estadoFatura === "paga" ? "Fatura paga" : "Fatura creditada ou anulada");
+    resultado.concluidas++;
+  }
+
+  // Cobranças de faturas que entretanto passaram a um plano de pagamento
+  const emPlano = await db
+    .select({ id: cobrancasFatura.id })
+    .from(cobrancasFatura)
+    .innerJoin(faturas, eq(cobrancasFatura.faturaId, faturas.id))
+    .where(and(eq(cobrancasFatura.estado, "ativa"), exists(planoPagamentoAtivo(db))));
+
+  for (const cobranca of emPlano) {
+    await terminarCobranca(db, cobranca.id, "interrompida", "Plano de pagamento ativo");
+    resultado.interrompidas++;
+  }
+
+  // Passos ativos por clínica; uma clínica sem nenhum passo (nem inativo) segue a escala padrão
+  const configurados = await db
+    .select()
+    .from(passosCobranca)
+    .orderBy(asc(passosCobranca.diasAposVencimento));
+  const passosClinica = (clinicaId: number): PassoEscala[] => {
+    const daClinica = configurados.filter(p => p.clinicaId === clinicaId);
+    return daClinica.length > 0
+      ? daClinica.filter(p => p.ativo)
+      : PASSOS_PADRAO.map(passo => ({ ...passo, mensagem: null }));
+  };
+
+  const agora = new Date();
+  const candidatas = await db
+    .select({
+      fatura: faturas,
+      utente: utentes,
+      clinicaNome: clinicas.nome,
+      clinicaTelemovel: clinicas.telemovel,
+    })
+    .from(faturas)
+    .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+    .innerJoin(clinicas, eq(faturas.clinicaId, clinicas.id))
+    .where(
+      and(
+        inArray(faturas.estado, ESTADOS_FATURA_EM_ABERTO),
+        lt(faturas.dataVencimento, agora),
+        eq(clinicas.ativo, true),
+        notExists(planoPagamentoAtivo(db))
+      )
+    )
+    .orderBy(asc(faturas.dataVencimento));
+
+  for (const candidata of candidatas) {
+    const { fatura } = candidata;
+    if (valorEmDivida(fatura) <= 0) continue;
+
+    const fuso = await obterFusoClinica(fatura.clinicaId);
+    const vencimento = chaveDia(fatura.dataVencimento!, fuso);
+    const dias = diasEntre(vencimento, chaveDia(agora, fuso));
+
+    const devidos = passosClinica(fatura.clinicaId).filter(p => p.diasAposVencimento <= dias);
+    if (devidos.length === 0) continue;
+
+    try {
+      let [cobranca] = await db.select().from(cobrancasFatura).where(eq(cobrancasFatura.faturaId, fatura.id)).limit(1);
+      if (!cobranca) {
+        [cobranca] = await db
+          .insert(cobrancasFatura)
+          .values({ clinicaId: fatura.clinicaId, faturaId: fatura.id, utenteId: fatura.utenteId, tokenPagamento: nanoid(32) })
+          .returning();
+      }
+      if (cobranca.estado !== "ativa") continue;
+
+      // Pagamento registado depois de a cobrança começar (parcial ou por um meio sem conciliação)
+      const [pagamento] = await db
+        .select({ id: pagamentosFatura.id })
+        .from(pagamentosFatura)
+        .where(and(eq(pagamentosFatura.faturaId, fatura.id), gt(pagamentosFatura.createdAt, cobranca.iniciadaEm)))
+        .limit(1);
+      if (pagamento) {
+        await terminarCobranca(db, cobranca.id, "interrompida", "Pagamento registado");
+        resultado.interrompidas++;
+        continue;
+      }
+
+      const acoes = await db.select().from(acoesCobranca).where(eq(acoesCobranca.cobrancaId, cobranca.id));
+      const ultimoDia = Math.max(-1, ...acoes.filter(a => a.estado !== "falhada").map(a => a.diasAposVencimento));
+
+      const porExecutar = devidos.filter(p => {
+        if (p.diasAposVencimento <= ultimoDia) return false;
+        const acao = acoes.find(a => a.diasAposVencimento === p.diasAposVencimento && a.canal === p.canal);
+        return !acao || (acao.estado === "falhada" && acao.tentativas < MAXIMO_TENTATIVAS);
+      });
+      if (porExecutar.length === 0) continue;
+
+      // Só o dia mais recente; os passos anteriores ainda não executados ficam saltados
+      const diaAtual = Math.max(...porExecutar.map(p => p.diasAposVencimento));
+      const saltados = porExecutar.filter(p => p.diasAposVencimento < diaAtual && !acoes.some(a => a.diasAposVencimento === p.diasAposVencimento && a.canal === p.canal));
+      if (saltados.length > 0) {
+        await db
+          .insert(acoesCobranca)
+          .values(saltados.map(p => ({
+            cobrancaId: cobranca.id,
+            clinicaId: fatura.clinicaId,
+            faturaId: fatura.id,
+            diasAposVencimento: p.diasAposVencimento,
+            canal: p.canal,
+            estado: "saltada" as const,
+            tentativas: 0,
+          })))
+          .onConflictDoNothing();
+      }
+
+      for (const passo of porExecutar.filter(p => p.diasAposVencimento === diaAtual)) {
+        // Um pagamento pode ter terminado a cobrança durante o envio dos passos anteriores
+        const [atual] = await db
+          .select({ estado: cobrancasFatura.estado })
+          .from(cobrancasFatura)
+          .where(eq(cobrancasFatura.id, cobranca.id));
+        if (atual.estado !== "ativa") break;
+
+        const dados = { ...candidata, cobranca };
+        const mensagem = await prepararMensagem(passo, { ...dados, vencimento, dias });
+        const execucao = await executarPasso(passo, dados, mensagem);
+
+        await db
+          .insert(acoesCobranca)
+          .values({
+            cobrancaId: cobranca.id,
+            clinicaId: fatura.clinicaId,
+            faturaId: fatura.id,
+            diasAposVencimento: passo.diasAposVencimento,
+            canal: passo.canal,
+            ...execucao,
+            mensagem,
+          })
+          .onConflictDoUpdate({
+            target: [acoesCobranca.faturaId, acoesCobranca.diasAposVencimento, acoesCobranca.canal],
+            set: { ...execucao, mensagem, tentativas: sql`${acoesCobranca.tentativas} + 1`, updatedAt: new Date() },
+          });
+
+        if (execucao.estado === "enviada") resultado.enviadas++;
+        else if (execucao.estado === "falhada") resultado.falhadas++;
+        else if (execucao.estado === "sem_contacto") resultado.semContacto++;
+        else resultado.tarefas++;
+      }
+    } catch (error) {
+      console.error(`[Cobranças] Erro na cobrança da fatura ${fatura.id}:`, error);
+    }
+  }
+
+  return resultado;
+}
+
+// ============================================
+// ACOMPANHAMENTO
+// ============================================
+
+/**
+ * Cobranças da clínica com o valor em dívida e o último passo executado
+ */
+export async function listarCobrancas(filtros: { clinicaId: number; estado?: CobrancaFatura["estado"]; utenteId?: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const lista = await db
+    .select({
+      cobranca: cobrancasFatura,
+      numeroFatura: faturas.numeroFatura,
+      dataVencimento: faturas.dataVencimento,
+      estadoFatura: faturas.estado,
+      valorTotal: faturas.valorTotal,
+      valorPago: faturas.valorPago,
+      valorCreditado: faturas.valorCreditado,
+      utenteNome: utentes.nome,
+    })
+    .from(cobrancasFatura)
+    .innerJoin(faturas, eq(cobrancasFatura.faturaId, faturas.id))
+    .innerJoin(utentes, eq(cobrancasFatura.utenteId, utentes.id))
+    .where(
+      and(
+        eq(cobrancasFatura.clinicaId, filtros.clinicaId),
+        filtros.estado ? eq(cobrancasFatura.estado, filtros.estado) : undefined,
+        filtros.utenteId ? eq(cobrancasFatura.utenteId, filtros.utenteId) : undefined
+      )
+    )
+    .orderBy(desc(cobrancasFatura.iniciadaEm));
+
+  const acoes = lista.length > 0
+    ? await db
+        .select()
+        .from(acoesCobranca)
+        .where(and(inArray(acoesCobranca.cobrancaId, lista.map(c => c.cobranca.id)), notInArray(acoesCobranca.estado, ["saltada"])))
+        .orderBy(desc(acoesCobranca.diasAposVencimento))
+    : [];
+
+  return lista.map(({ valorTotal, valorPago, valorCreditado, ...item }) => ({
+    ...item,
+    valorEmDivida: euros(valorEmDivida({ valorTotal, valorPago, valorCreditado })),
+    ultimaAcao: acoes.find(a => a.cobrancaId === item.cobranca.id) ?? null,
+  }));
+}
+
+/**
+ * Cobrança de uma fatura com todos os passos executados
+ */
+export async function obterCobranca(faturaId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [cobranca] = await db
+    .select()
+    .from(cobrancasFatura)
+    .where(and(eq(cobrancasFatura.faturaId, faturaId), eq(cobrancasFatura.clinicaId, clinicaId)))
+    .limit(1);
+  if (!cobranca) return null;
+
+  const acoes = await db
+    .select()
+    .from(acoesCobranca)
+    .where(eq(acoesCobranca.cobrancaId, cobranca.id))
+    .orderBy(asc(acoesCobranca.diasAposVencimento), asc(acoesCobranca.id));
+
+  return { ...cobranca, url: urlPagamento(cobranca.tokenPagamento), acoes };
+}
+
+/**
+ * Suspender a cobrança de uma fatura (ex: em contestação ou acordo com o utente)
+ */
+export async function interromperCobranca(dados: { clinicaId: number; faturaId: number; motivo: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const cobranca = await obterCobranca(dados.faturaId, dados.clinicaId);
+  if (!cobranca || cobranca.estado !== "ativa") throw new Error("A fatura não tem uma cobrança em curso");
+
+  await terminarCobranca(db, cobranca.id, "interrompida", dados.motivo);
+  return { success: true };
+}
+
+/**
+ * Retomar uma cobrança interrompida: continua no passo seguinte ao último executado e só
+ * pagamentos registados a partir de agora a voltam a interromper
+ */
+export async function retomarCobranca(dados: { clinicaId: number; faturaId: number }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [fatura] = await db
+    .select()
+    .from(faturas)
+    .where(and(eq(faturas.id, dados.faturaId), eq(faturas.clinicaId, dados.clinicaId)))
+    .limit(1);
+  if (!fatura) throw new Error("Fatura não encontrada");
+  if (!ESTADOS_FATURA_EM_ABERTO.includes(fatura.estado) || valorEmDivida(fatura) <= 0) throw new Error("A fatura não está por pagar");
+
+  const agora = new Date();
+  const [cobranca] = await db
+    .update(cobrancasFatura)
+    .set({ estado: "ativa", iniciadaEm: agora, terminadaEm: null, motivo: null, updatedAt: agora })
+    .where(and(eq(cobrancasFatura.faturaId, dados.faturaId), eq(cobrancasFatura.estado, "interrompida")))
+    .returning({ id: cobrancasFatura.id });
+  if (!cobranca) throw new Error("A cobrança desta fatura não está interrompida");
+
+  return { success: true };
+}
+
+/**
+ * Tarefas de cobrança da equipa por fazer
+ */
+export async function listarTarefas(clinicaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      tarefa: acoesCobranca,
+      numeroFatura: faturas.numeroFatura,
+      utenteId: utentes.id,
+      utenteNome: utentes.nome,
+      utenteTelemovel: utentes.telemovel,
+    })
+    .from(acoesCobranca)
+    .innerJoin(faturas, eq(acoesCobranca.faturaId, faturas.id))
+    .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+    .where(and(eq(acoesCobranca.clinicaId, clinicaId), eq(acoesCobranca.estado, "pendente")))
+    .orderBy(asc(acoesCobranca.createdAt));
+}
+
+export async function concluirTarefa(dados: { clinicaId: number; acaoId: number; userId: number; observacoes?: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const agora = new Date();
+  const [tarefa] = await db
+    .update(acoesCobranca)
+    .set({ estado: "concluida", concluidaEm: agora, concluidaPor: dados.userId, observacoes: dados.observacoes, updatedAt: agora })
+    .where(
+      and(
+        eq(acoesCobranca.id, dados.acaoId),
+        eq(acoesCobranca.clinicaId, dados.clinicaId),
+        eq(acoesCobranca.estado, "pendente")
+      )
+    )
+    .returning({ id: acoesCobranca.id });
+  if (!tarefa) throw new Error("Tarefa não encontrada ou já concluída");
+
+  return { success: true };
+}
+
+// ============================================
+// LINK DE PAGAMENTO (PÚBLICO)
+// ============================================
+
+/**
+ * Fatura em cobrança vista pelo utente, com a referência Multibanco gerada no envio da cobrança
+ * (se ainda estiver válida para o valor em dívida)
+ */
+export async function obterPagamentoPublico(token: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [resultado] = await db
+    .select({ fatura: faturas, clinicaNome: clinicas.nome, clinicaTelemovel: clinicas.telemovel, clinicaEmail: clinicas.email })
+    .from(cobrancasFatura)
+    .innerJoin(faturas, eq(cobrancasFatura.faturaId, faturas.id))
+    .innerJoin(clinicas, eq(cobrancasFatura.clinicaId, clinicas.id))
+    .where(eq(cobrancasFatura.tokenPagamento, token))
+    .limit(1);
+  if (!resultado) throw new Error("Pagamento não encontrado");
+
+  const { fatura } = resultado;
+  const emDivida = valorEmDivida(fatura);
+  const porPagar = ESTADOS_FATURA_EM_ABERTO.includes(fatura.estado) && emDivida > 0;
+
+  // Só leitura: a referência é gerada quando o passo com link é enviado, nunca ao abrir a página
+  // (o link também é aberto por pré-visualizações e crawlers)
+  let multibanco: { entidade: string; referencia: string; valor: string; dataLimite: string | null } | null = null;
+  if (porPagar) {
+    const hoje = chaveDia(new Date(), await obterFusoClinica(fatura.clinicaId));
+    const referencia = (await listarReferencias({ clinicaId: fatura.clinicaId, faturaId: fatura.id, estado: "pendente" }))
+      .find(r => centimos(r.valor) === emDivida && (!r.dataLimite || r.dataLimite >= hoje));
+    if (referencia) {
+      multibanco = {
+        entidade: referencia.entidade,
+        referencia: referencia.referenciaFormatada,
+        valor: referencia.valor,
+        dataLimite: referencia.dataLimite,
+      };
+    }
+  }
+
+  return {
+    clinicaNome: resultado.clinicaNome,
+    clinicaTelemovel: resultado.clinicaTelemovel,
+    clinicaEmail: resultado.clinicaEmail,
+    numeroFatura: fatura.numeroFatura,
+    dataFatura: fatura.dataFatura,
+    dataVencimento: fatura.dataVencimento,
+    valorTotal: fatura.valorTotal,
+    valorEmDivida: euros(Math.max(0, emDivida)),
+    paga: !porPagar,
+    multibanco,
+  };
+}
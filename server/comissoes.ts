@@ -0,0 +1,881 @@
+import { getDb, type Executor, type Tx } from "./db";
+import {
+  clinicas,
+  configuracoesFinanceiras,
+  dentistas,
+  faturas,
+  itensFatura,
+  pagamentosFatura,
+  utentes,
+} from "../drizzle/schema";
+import {
+  itensNotaCredito,
+  linhasLiquidacaoComissao,
+  liquidacoesComissoes,
+  notasCredito,
+  type LinhaLiquidacaoComissao,
+  type LiquidacaoComissoes,
+} from "../drizzle/schema-faturacao";
+import { comparticipacoes, entidadesAcordo, lotesEntidade, pagamentosLote } from "../drizzle/schema-seguradoras";
+import { adicionarMesesChave, chaveDia, dataNoFuso, obterFusoClinica } from "./fuso-horario";
+import { and, desc, eq, exists, gt, gte, inArray, isNull, like, lt, lte, ne, not, notInArray, or, sql, type SQL } from "drizzle-orm";
+
+/**
+ * Comissões dos Dentistas
+ * A comissão de cada linha de fatura é calculada na emissão, com a regra de distribuição mais
+ * específica (configuracoes_financeiras): dentista e procedimento, dentista, procedimento ou
+ * geral da clínica; sem regra, a percentagem de comissão do dentista. Os custos de laboratório e
+ * materiais (por unidade) são deduzidos antes da repartição
+ *
+ * - Política da clínica (clinicas.momentoComissao): a comissão é devida na faturação (as notas de
+ *   crédito estornam-na) ou no recebimento, na proporção de cada pagamento da fatura (os reembolsos
+ *   estornam-na)
+ * - A parte das seguradoras e subsistemas (comparticipações) tem a sua comissão, calculada na
+ *   emissão da fatura com acordo: devida na data do ato ou à medida que a entidade paga o lote
+ * - Liquidação mensal por dentista: tudo o que ainda não foi liquidado até ao fim do mês. Depois de
+ *   fechada, a liquidação fica com as linhas gravadas e não muda; o que chegar depois com data
+ *   desse mês (ex: pagamento registado com atraso) entra na liquidação seguinte
+ */
+
+type RegraComissao = typeof configuracoesFinanceiras.$inferSelect;
+type MomentoComissao = (typeof clinicas.$inferSelect)["momentoComissao"];
+type LinhaCalculada = Omit<LinhaLiquidacaoComissao, "id" | "liquidacaoId">;
+
+const ESTADOS_FATURA_SEM_COMISSAO: (typeof faturas.$inferSelect)["estado"][] = ["rascunho", "cancelada"];
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+function periodoValido(periodo: string) {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(periodo)) throw new Error("Período no formato AAAA-MM");
+}
+
+// ============================================
+// CÁLCULO NA EMISSÃO
+// ============================================
+
+/**
+ * Regra mais específica para o dentista e o procedimento
+ */
+function regraAplicavel(regras: RegraComissao[], dentistaId: number, procedimentoId?: number | null) {
+  const especificidade = (r: RegraComissao) => (r.dentistaId ? 2 : 0) + (r.procedimentoId ? 1 : 0);
+
+  return regras
+    .filter(r => (!r.dentistaId || r.dentistaId === dentistaId) && (!r.procedimentoId || r.procedimentoId === procedimentoId))
+    .sort((a, b) => especificidade(b) - especificidade(a))[0];
+}
+
+/**
+ * Repartir o valor de uma linha (sem IVA, já com o desconto) entre dentista e clínica, em cêntimos
+ * - percentagem: percentagem do dentista (ou o que sobra da percentagem da clínica) do valor líquido
+ * - fixo: valor fixo do dentista por unidade (ou o que sobra do valor fixo da clínica)
+ * - hibrido: valor fixo do dentista por unidade mais a percentagem do valor líquido
+ */
+function repartirLinha(
+  regra: RegraComissao | undefined,
+  percentagemDentista: string | null,
+  base: number,
+  quantidade: number
+) {
+  const custos = Math.min(
+    regra ? (centimos(regra.custoLaboratorio) + centimos(regra.custoMateriais)) * quantidade : 0,
+    Math.max(base, 0)
+  );
+  const liquido = base - custos;
+
+  const percentagem = regra?.percentagemDentista != null
+    ? parseFloat(regra.percentagemDentista)
+    : regra?.percentagemClinica != null
+      ? 100 - parseFloat(regra.percentagemClinica)
+      : parseFloat(percentagemDentista || "0");
+
+  let comissao: number;
+  switch (regra?.tipoDistribuicao) {
+    case "fixo":
+      comissao = regra.valorFixoDentista != null
+        ? centimos(regra.valorFixoDentista) * quantidade
+        : liquido - centimos(regra.valorFixoClinica) * quantidade;
+      break;
+    case "hibrido":
+      comissao = centimos(regra.valorFixoDentista) * quantidade + Math.round((liquido * percentagem) / 100);
+      break;
+    default:
+      comissao = Math.round((liquido * percentagem) / 100);
+  }
+
+  comissao = Math.min(Math.max(comissao, 0), Math.max(liquido, 0));
+  return { custos, comissao, valorClinica: liquido - comissao };
+}
+
+/**
+ * Comissão, custos deduzidos e valor da clínica das linhas de uma fatura (em cêntimos, pela
+ * ordem das linhas). Linhas sem dentista ficam inteiramente para a clínica
+ */
+export async function calcularComissoes(
+  tx: Tx,
+  clinicaId: number,
+  linhas: { dentistaId?: number | null; procedimentoId?: number | null; quantidade: number; base: number }[]
+) {
+  const dentistasIds = Array.from(new Set(linhas.map(l => l.dentistaId).filter((id): id is number => !!id)));
+  if (dentistasIds.length === 0) {
+    return linhas.map(l => ({ custos: 0, comissao: 0, valorClinica: l.base }));
+  }
+
+  const regras: RegraComissao[] = await tx
+    .select()
+    .from(configuracoesFinanceiras)
+    .where(eq(configuracoesFinanceiras.clinicaId, clinicaId));
+
+  const percentagens: { id: number; percentagemComissao: string | null }[] = await tx
+    .select({ id: dentistas.id, percentagemComissao: dentistas.percentagemComissao })
+    .from(dentistas)
+    .where(and(inArray(dentistas.id, dentistasIds), eq(dentistas.clinicaId, clinicaId)));
+
+  return linhas.map(linha => {
+    const dentista = percentagens.find(d => d.id === linha.dentistaId);
+    if (!dentista) return { custos: 0, comissao: 0, valorClinica: linha.base };
+
+    return repartirLinha(
+      regraAplicavel(regras, dentista.id, linha.procedimentoId),
+      dentista.percentagemComissao,
+      linha.base,
+      linha.quantidade
+    );
+  });
+}
+
+// ============================================
+// CONFIGURAÇÃO
+// ============================================
+
+export async function obterMomentoComissao(clinicaId: number): Promise<MomentoComissao> {
+  const db = await getDb();
+  if (!db) return "faturacao";
+
+  const [clinica] = await db
+    .select({ momentoComissao: clinicas.momentoComissao })
+    .from(clinicas)
+    .where(eq(clinicas.id, clinicaId))
+    .limit(1);
+
+  return clinica?.momentoComissao ?? "faturacao";
+}
+
+/**
+ * Mudar a política da clínica. O que já foi liquidado com a política anterior não volta a entrar
+ */
+export async function definirMomentoComissao(clinicaId: number, momentoComissao: MomentoComissao) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(clinicas).set({ momentoComissao, updatedAt: new Date() }).where(eq(clinicas.id, clinicaId));
+  return { success: true, momentoComissao };
+}
+
+export async function listarRegras(clinicaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(configuracoesFinanceiras)
+    .where(eq(configuracoesFinanceiras.clinicaId, clinicaId))
+    .orderBy(configuracoesFinanceiras.dentistaId, configuracoesFinanceiras.procedimentoId);
+}
+
+/**
+ * Criar ou alterar uma regra de distribuição (só se aplica às faturas emitidas depois)
+ */
+export async function guardarRegra(dados: {
+  clinicaId: number;
+  regraId?: number;
+  dentistaId?: number | null;
+  procedimentoId?: number | null;
+  tipoDistribuicao: RegraComissao["tipoDistribuicao"];
+  percentagemDentista?: string | null;
+  valorFixoDentista?: string | null;
+  percentagemClinica?: string | null;
+  valorFixoClinica?: string | null;
+  custoLaboratorio?: string;
+  custoMateriais?: string;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { regraId, ...valores } = dados;
+  if (valores.tipoDistribuicao !== "percentagem" && valores.valorFixoDentista == null && valores.valorFixoClinica == null) {
+    throw new Error("Indique o valor fixo do dentista ou da clínica");
+  }
+
+  // Uma regra por combinação de dentista e procedimento
+  const [existente] = await db
+    .select({ id: configuracoesFinanceiras.id })
+    .from(configuracoesFinanceiras)
+    .where(
+      and(
+        eq(configuracoesFinanceiras.clinicaId, dados.clinicaId),
+        dados.dentistaId ? eq(configuracoesFinanceiras.dentistaId, dados.dentistaId) : isNull(configuracoesFinanceiras.dentistaId),
+        dados.procedimentoId ? eq(configuracoesFinanceiras.procedimentoId, dados.procedimentoId) : isNull(configuracoesFinanceiras.procedimentoId)
+      )
+    )
+    .limit(1);
+
+  if (existente && existente.id !== regraId) throw new Error("Já existe uma regra para este dentista e procedimento");
+
+  if (regraId) {
+    const [regra] = await db
+      .update(configuracoesFinanceiras)
+      .set({ ...valores, updatedAt: new Date() })
+      .where(and(eq(configuracoesFinanceiras.id, regraId), eq(configuracoesFinanceiras.clinicaId, dados.clinicaId)))
+      .returning();
+
+    if (!regra) throw new Error("Regra não encontrada");
+    return regra;
+  }
+
+  const [regra] = await db.insert(configuracoesFinanceiras).values(valores).returning();
+  return regra;
+}
+
+export async function removerRegra(regraId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(configuracoesFinanceiras)
+    .where(and(eq(configuracoesFinanceiras.id, regraId), eq(configuracoesFinanceiras.clinicaId, clinicaId)));
+
+  return { success: true };
+}
+
+// ============================================
+// LIQUIDAÇÕES
+// ============================================
+
+/**
+ * Valores originais das linhas de fatura (as notas de crédito abatem a comissão na própria linha)
+ */
+const comissaoEstornada = sql<string>`coalesce((select sum(${itensNotaCredito.comissaoDentista}) from ${itensNotaCredito} where ${itensNotaCredito.itemFaturaId} = ${itensFatura.id}), 0)`;
+const clinicaEstornada = sql<string>`coalesce((select sum(${itensNotaCredito.valorClinica}) from ${itensNotaCredito} where ${itensNotaCredito.itemFaturaId} = ${itensFatura.id}), 0)`;
+
+/**
+ * Linhas ainda não liquidadas de um dentista, com data anterior ao limite
+ */
+async function linhasPorLiquidar(
+  tx: Executor,
+  dados: { clinicaId: number; dentistaId: number; momento: MomentoComissao; limite: Date; fuso: string }
+): Promise<LinhaCalculada[]> {
+  // Faturas já liquidadas com a outra política (a política da clínica mudou entre tanto)
+  const origensOutraPolitica: LinhaLiquidacaoComissao["origem"][] =
+    dados.momento === "faturacao" ? ["pagamento"] : ["fatura", "nota_credito"];
+  const jaLiquidadas: { faturaId: number | null }[] = await tx
+    .selectDistinct({ faturaId: linhasLiquidacaoComissao.faturaId })
+    .from(linhasLiquidacaoComissao)
+    .innerJoin(liquidacoesComissoes, eq(linhasLiquidacaoComissao.liquidacaoId, liquidacoesComissoes.id))
+    .where(
+      and(
+        eq(liquidacoesComissoes.dentistaId, dados.dentistaId),
+        inArray(linhasLiquidacaoComissao.origem, origensOutraPolitica)
+      )
+    );
+  const excluir = new Set(jaLiquidadas.map(f => f.faturaId));
+
+  const linhas: LinhaCalculada[] = [];
+  const filtroFatura = and(
+    eq(faturas.clinicaId, dados.clinicaId),
+    eq(itensFatura.dentistaId, dados.dentistaId),
+    notInArray(faturas.estado, ESTADOS_FATURA_SEM_COMISSAO)
+  );
+
+  if (dados.momento === "faturacao") {
+    const itens = await tx
+      .select({
+        faturaId: faturas.id,
+        itemFaturaId: itensFatura.id,
+        data: faturas.dataFatura,
+        documento: faturas.numeroFatura,
+        descricao: itensFatura.descricao,
+        utente: utentes.nome,
+        custos: itensFatura.custosDeduzidos,
+        comissao: itensFatura.comissaoDentista,
+        valorClinica: itensFatura.valorClinica,
+        comissaoEstornada,
+        clinicaEstornada,
+      })
+      .from(itensFatura)
+      .innerJoin(faturas, eq(itensFatura.faturaId, faturas.id))
+      .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+      .leftJoin(
+        linhasLiquidacaoComissao,
+        and(eq(linhasLiquidacaoComissao.itemFaturaId, itensFatura.id), eq(linhasLiquidacaoComissao.origem, "fatura"))
+      )
+      .where(and(filtroFatura, lt(faturas.dataFatura, dados.limite), isNull(linhasLiquidacaoComissao.id)));
+
+    for (const item of itens) {
+      if (excluir.has(item.faturaId)) continue;
+
+      const comissao = centimos(item.comissao) + centimos(item.comissaoEstornada);
+      const valorClinica = centimos(item.valorClinica) + centimos(item.clinicaEstornada);
+      const custos = centimos(item.custos);
+      linhas.push({
+        origem: "fatura",
+        chave: `fatura:${item.itemFaturaId}`,
+        faturaId: item.faturaId,
+        itemFaturaId: item.itemFaturaId,
+        itemNotaCreditoId: null,
+        pagamentoId: null,
+        comparticipacaoId: null,
+        data: chaveDia(item.data, dados.fuso),
+        documento: item.documento,
+        descricao: item.descricao,
+        utente: item.utente,
+        base: euros(comissao + valorClinica + custos),
+        custos: euros(custos),
+        comissao: euros(comissao),
+        valorClinica: euros(valorClinica),
+      });
+    }
+
+    const estornos = await tx
+      .select({
+        faturaId: faturas.id,
+        itemFaturaId: itensFatura.id,
+        itemNotaCreditoId: itensNotaCredito.id,
+        data: notasCredito.dataEmissao,
+        documento: notasCredito.numero,
+        descricao: itensNotaCredito.descricao,
+        utente: utentes.nome,
+        comissao: itensNotaCredito.comissaoDentista,
+        valorClinica: itensNotaCredito.valorClinica,
+      })
+      .from(itensNotaCredito)
+      .innerJoin(notasCredito, eq(itensNotaCredito.notaCreditoId, notasCredito.id))
+      .innerJoin(itensFatura, eq(itensNotaCredito.itemFaturaId, itensFatura.id))
+      .innerJoin(faturas, eq(itensFatura.faturaId, faturas.id))
+      .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+      .leftJoin(linhasLiquidacaoComissao, eq(linhasLiquidacaoComissao.itemNotaCreditoId, itensNotaCredito.id))
+      .where(and(filtroFatura, lt(notasCredito.dataEmissao, dados.limite), isNull(linhasLiquidacaoComissao.id)));
+
+    for (const estorno of estornos) {
+      if (excluir.has(estorno.faturaId)) continue;
+
+      const comissao = -centimos(estorno.comissao);
+      const valorClinica = -centimos(estorno.valorClinica);
+      if (comissao === 0 && valorClinica === 0) continue;
+      linhas.push({
+        origem: "nota_credito",
+        chave: `nota_credito:${estorno.itemNotaCreditoId}`,
+        faturaId: estorno.faturaId,
+        itemFaturaId: estorno.itemFaturaId,
+        itemNotaCreditoId: estorno.itemNotaCreditoId,
+        pagamentoId: null,
+        comparticipacaoId: null,
+        data: chaveDia(estorno.data, dados.fuso),
+        documento: estorno.documento,
+        descricao: estorno.descricao,
+        utente: estorno.utente,
+        base: euros(comissao + valorClinica),
+        custos: "0.00",
+        comissao: euros(comissao),
+        valorClinica: euros(valorClinica),
+      });
+    }
+  } else {
+    // No recebimento: cada pagamento (ou reembolso) vale a sua proporção do total da fatura
+    const pagamentos = await tx
+      .select({
+        faturaId: faturas.id,
+        itemFaturaId: itensFatura.id,
+        pagamentoId: pagamentosFatura.id,
+        data: pagamentosFatura.dataPagamento,
+        documento: sql<string>`coalesce(${pagamentosFatura.numeroRecibo}, ${faturas.numeroFatura})`,
+        descricao: itensFatura.descricao,
+        utente: utentes.nome,
+        valorPago: pagamentosFatura.valor,
+        valorTotal: faturas.valorTotal,
+        custos: itensFatura.custosDeduzidos,
+        comissao: itensFatura.comissaoDentista,
+        valorClinica: itensFatura.valorClinica,
+        comissaoEstornada,
+        clinicaEstornada,
+      })
+      .from(pagamentosFatura)
+      .innerJoin(faturas, eq(pagamentosFatura.faturaId, faturas.id))
+      .innerJoin(itensFatura, eq(itensFatura.faturaId, faturas.id))
+      .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+      .leftJoin(
+        linhasLiquidacaoComissao,
+        and(
+          eq(linhasLiquidacaoComissao.pagamentoId, pagamentosFatura.id),
+          eq(linhasLiquidacaoComissao.itemFaturaId, itensFatura.id)
+        )
+      )
+      .where(and(filtroFatura, lt(pagamentosFatura.dataPagamento, dados.limite), isNull(linhasLiquidacaoComissao.id)));
+
+    for (const pagamento of pagamentos) {
+      const total = centimos(pagamento.valorTotal);
+      if (excluir.has(pagamento.faturaId) || total <= 0) continue;
+
+      const proporcao = centimos(pagamento.valorPago) / total;
+      const comissao = Math.round((centimos(pagamento.comissao) + centimos(pagamento.comissaoEstornada)) * proporcao);
+      const valorClinica = Math.round((centimos(pagamento.valorClinica) + centimos(pagamento.clinicaEstornada)) * proporcao);
+      const custos = Math.round(centimos(pagamento.custos) * proporcao);
+      linhas.push({
+        origem: "pagamento",
+        chave: `pagamento:${pagamento.pagamentoId}:${pagamento.itemFaturaId}`,
+        faturaId: pagamento.faturaId,
+        itemFaturaId: pagamento.itemFaturaId,
+        itemNotaCreditoId: null,
+        pagamentoId: pagamento.pagamentoId,
+        comparticipacaoId: null,
+        data: chaveDia(pagamento.data, dados.fuso),
+        documento: pagamento.documento,
+        descricao: pagamento.descricao,
+        utente: pagamento.utente,
+        base: euros(comissao + valorClinica + custos),
+        custos: euros(custos),
+        comissao: euros(comissao),
+        valorClinica: euros(valorClinica),
+      });
+    }
+  }
+
+  linhas.push(...(await linhasComparticipacoes(tx, dados)));
+
+  return linhas.sort((a, b) => a.data.localeCompare(b.data) || a.documento.localeCompare(b.documento));
+}
+
+/**
+ * Parte das entidades (comparticipações) ainda não liquidada de um dentista
+ * - Na faturação: na data do ato; se a entidade a recusar depois de liquidada, a comissão é estornada
+ * - No recebimento: na proporção do que a entidade já pagou, na data do último pagamento do lote
+ */
+async function linhasComparticipacoes(
+  tx: Executor,
+  dados: { clinicaId: number; dentistaId: number; momento: MomentoComissao; limite: Date; fuso: string }
+): Promise<LinhaCalculada[]> {
+  const chaveAto = sql`'comparticipacao:' || ${comparticipacoes.id}`;
+  const liquidada = (chave: SQL) =>
+    exists(tx.select({ id: linhasLiquidacaoComissao.id }).from(linhasLiquidacaoComissao).where(eq(linhasLiquidacaoComissao.chave, chave)));
+
+  const porLiquidar = dados.momento === "faturacao"
+    ? or(
+        and(ne(comparticipacoes.estado, "recusada"), lt(comparticipacoes.dataAto, chaveDia(dados.limite, dados.fuso)), not(liquidada(chaveAto))),
+        and(
+          eq(comparticipacoes.estado, "recusada"),
+          lt(comparticipacoes.updatedAt, dados.limite),
+          liquidada(chaveAto),
+          not(liquidada(sql`${chaveAto} || ':recusa'`))
+        )
+      )
+    : and(
+        gt(comparticipacoes.valorPago, "0"),
+        not(liquidada(sql`${chaveAto} || ':pago:' || round(${comparticipacoes.valorPago} * 100)::int`))
+      );
+
+  const atos = await tx
+    .select({
+      comparticipacao: comparticipacoes,
+      utente: utentes.nome,
+      entidade: entidadesAcordo.nome,
+      lote: lotesEntidade.numero,
+      ultimoPagamento: sql<Date | null>`(select max(${pagamentosLote.dataPagamento}) from ${pagamentosLote} where ${pagamentosLote.loteId} = ${comparticipacoes.loteId})`.mapWith(pagamentosLote.dataPagamento),
+    })
+    .from(comparticipacoes)
+    .innerJoin(utentes, eq(comparticipacoes.utenteId, utentes.id))
+    .innerJoin(entidadesAcordo, eq(comparticipacoes.entidadeId, entidadesAcordo.id))
+    .leftJoin(lotesEntidade, eq(comparticipacoes.loteId, lotesEntidade.id))
+    .where(and(eq(comparticipacoes.clinicaId, dados.clinicaId), eq(comparticipacoes.dentistaId, dados.dentistaId), porLiquidar));
+  if (atos.length === 0) return [];
+
+  // Linhas já liquidadas destas comparticipações (estorno, proporção já paga e mudança de política)
+  const anteriores: Pick<LinhaLiquidacaoComissao, "comparticipacaoId" | "chave" | "custos" | "comissao" | "valorClinica">[] = await tx
+    .select({
+      comparticipacaoId: linhasLiquidacaoComissao.comparticipacaoId,
+      chave: linhasLiquidacaoComissao.chave,
+      custos: linhasLiquidacaoComissao.custos,
+      comissao: linhasLiquidacaoComissao.comissao,
+      valorClinica: linhasLiquidacaoComissao.valorClinica,
+    })
+    .from(linhasLiquidacaoComissao)
+    .where(inArray(linhasLiquidacaoComissao.comparticipacaoId, atos.map(a => a.comparticipacao.id)));
+
+  const linhas: LinhaCalculada[] = [];
+  for (const { comparticipacao, utente, entidade, lote, ultimoPagamento } of atos) {
+    const chave = `comparticipacao:${comparticipacao.id}`;
+    const daLinha = anteriores.filter(l => l.comparticipacaoId === comparticipacao.id);
+    const soma = (campo: "custos" | "comissao" | "valorClinica") => daLinha.reduce((s, l) => s + centimos(l[campo]), 0);
+
+    let valores: { chave: string; data: string; custos: number; comissao: number; valorClinica: number };
+    if (dados.momento === "faturacao") {
+      // Já liquidada com a política do recebimento
+      if (daLinha.some(l => l.chave.startsWith(`${chave}:pago:`))) continue;
+
+      valores = comparticipacao.estado === "recusada"
+        ? {
+            chave: `${chave}:recusa`,
+            data: chaveDia(comparticipacao.updatedAt, dados.fuso),
+            custos: -soma("custos"),
+            comissao: -soma("comissao"),
+            valorClinica: -soma("valorClinica"),
+          }
+        : {
+            chave,
+            data: comparticipacao.dataAto,
+            custos: centimos(comparticipacao.custosDeduzidos),
+            comissao: centimos(comparticipacao.comissaoDentista),
+            valorClinica: centimos(comparticipacao.valorClinica),
+          };
+    } else {
+      const valorEntidade = centimos(comparticipacao.valorEntidade);
+      if (daLinha.some(l => l.chave === chave) || valorEntidade <= 0) continue;
+      if (!ultimoPagamento || ultimoPagamento >= dados.limite) continue;
+
+      const pago = centimos(comparticipacao.valorPago);
+      const proporcional = (valor: string) => Math.round((centimos(valor) * pago) / valorEntidade);
+      valores = {
+        chave: `${chave}:pago:${pago}`,
+        data: chaveDia(ultimoPagamento, dados.fuso),
+        custos: proporcional(comparticipacao.custosDeduzidos) - soma("custos"),
+        comissao: proporcional(comparticipacao.comissaoDentista) - soma("comissao"),
+        valorClinica: proporcional(comparticipacao.valorClinica) - soma("valorClinica"),
+      };
+    }
+
+    linhas.push({
+      origem: "comparticipacao",
+      chave: valores.chave,
+      faturaId: comparticipacao.faturaId,
+      itemFaturaId: null,
+      itemNotaCreditoId: null,
+      pagamentoId: null,
+      comparticipacaoId: comparticipacao.id,
+      data: valores.data,
+      documento: (lote ? `${entidade} ${lote}` : entidade).slice(0, 50),
+      descricao: comparticipacao.descricao,
+      utente,
+      base: euros(valores.custos + valores.comissao + valores.valorClinica),
+      custos: euros(valores.custos),
+      comissao: euros(valores.comissao),
+      valorClinica: euros(valores.valorClinica),
+    });
+  }
+
+  return linhas;
+}
+
+function totais(linhas: Pick<LinhaCalculada, "base" | "custos" | "comissao" | "valorClinica">[]) {
+  const somar = (campo: "base" | "custos" | "comissao" | "valorClinica") =>
+    euros(linhas.reduce((s, l) => s + centimos(l[campo]), 0));
+
+  return {
+    totalBase: somar("base"),
+    totalCustos: somar("custos"),
+    totalComissao: somar("comissao"),
+    totalClinica: somar("valorClinica"),
+  };
+}
+
+/**
+ * Instante em que começa o mês seguinte ao período, no fuso da clínica
+ */
+function limitePeriodo(periodo: string, fuso: string): Date {
+  return dataNoFuso(adicionarMesesChave(`${periodo}-01`, 1), 0, fuso);
+}
+
+export type Liquidacao = {
+  liquidacaoId: number | null;
+  estado: "aberta" | "fechada";
+  clinicaId: number;
+  dentistaId: number;
+  dentistaNome: string;
+  periodo: string;
+  momentoComissao: string;
+  fechadaEm: Date | null;
+  linhas: LinhaCalculada[];
+  totalBase: string;
+  totalCustos: string;
+  totalComissao: string;
+  totalClinica: string;
+};
+
+/**
+ * Liquidação de um dentista num mês: a fechada (tal como ficou) ou, se ainda não foi fechada, o
+ * que está por liquidar até ao fim do mês
+ */
+export async function obterLiquidacao(dados: { clinicaId: number; dentistaId: number; periodo: string }): Promise<Liquidacao> {
+  periodoValido(dados.periodo);
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [dentista] = await db
+    .select({ nome: dentistas.nome })
+    .from(dentistas)
+    .where(and(eq(dentistas.id, dados.dentistaId), eq(dentistas.clinicaId, dados.clinicaId)))
+    .limit(1);
+  if (!dentista) throw new Error("Dentista não encontrado");
+
+  const [fechada]: LiquidacaoComissoes[] = await db
+    .select()
+    .from(liquidacoesComissoes)
+    .where(
+      and(
+        eq(liquidacoesComissoes.clinicaId, dados.clinicaId),
+        eq(liquidacoesComissoes.dentistaId, dados.dentistaId),
+        eq(liquidacoesComissoes.periodo, dados.periodo)
+      )
+    )
+    .limit(1);
+
+  if (fechada) {
+    const linhas = await db
+      .select()
+      .from(linhasLiquidacaoComissao)
+      .where(eq(linhasLiquidacaoComissao.liquidacaoId, fechada.id))
+      .orderBy(linhasLiquidacaoComissao.data, linhasLiquidacaoComissao.id);
+
+    return {
+      liquidacaoId: fechada.id,
+      estado: "fechada",
+      clinicaId: fechada.clinicaId,
+      dentistaId: fechada.dentistaId,
+      dentistaNome: dentista.nome,
+      periodo: fechada.periodo,
+      momentoComissao: fechada.momentoComissao,
+      fechadaEm: fechada.fechadaEm,
+      linhas: linhas.map(({ id, liquidacaoId, ...linha }) => linha),
+      totalBase: fechada.totalBase,
+      totalCustos: fechada.totalCustos,
+      totalComissao: fechada.totalComissao,
+      totalClinica: fechada.totalClinica,
+    };
+  }
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  const momento = await obterMomentoComissao(dados.clinicaId);
+  const linhas = await linhasPorLiquidar(db, { ...dados, momento, limite: limitePeriodo(dados.periodo, fuso), fuso });
+
+  return {
+    liquidacaoId: null,
+    estado: "aberta",
+    clinicaId: dados.clinicaId,
+    dentistaId: dados.dentistaId,
+    dentistaNome: dentista.nome,
+    periodo: dados.periodo,
+    momentoComissao: momento,
+    fechadaEm: null,
+    linhas,
+    ...totais(linhas),
+  };
+}
+
+/**
+ * Fechar a liquidação do mês (só depois de o mês terminar e pela ordem dos meses)
+ */
+export async function fecharLiquidacao(dados: { clinicaId: number; dentistaId: number; periodo: string; userId: number }) {
+  periodoValido(dados.periodo);
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  if (dados.periodo >= chaveDia(new Date(), fuso).slice(0, 7)) {
+    throw new Error("Só é possível fechar a liquidação depois de o mês terminar");
+  }
+
+  const momento = await obterMomentoComissao(dados.clinicaId);
+
+  return await db.transaction(async tx => {
+    // Uma liquidação de cada vez por dentista
+    const [dentista] = await tx
+      .select({ id: dentistas.id })
+      .from(dentistas)
+      .where(and(eq(dentistas.id, dados.dentistaId), eq(dentistas.clinicaId, dados.clinicaId)))
+      .for("update");
+    if (!dentista) throw new Error("Dentista não encontrado");
+
+    const [ultima] = await tx
+      .select({ periodo: liquidacoesComissoes.periodo })
+      .from(liquidacoesComissoes)
+      .where(and(eq(liquidacoesComissoes.clinicaId, dados.clinicaId), eq(liquidacoesComissoes.dentistaId, dados.dentistaId)))
+      .orderBy(desc(liquidacoesComissoes.periodo))
+      .limit(1);
+
+    if (ultima && ultima.periodo >= dados.periodo) {
+      throw new Error(ultima.periodo === dados.periodo
+        ? "A liquidação deste mês já está fechada"
+        : `Já existe uma liquidação fechada posterior (${ultima.periodo})`);
+    }
+
+    const linhas = await linhasPorLiquidar(tx, { ...dados, momento, limite: limitePeriodo(dados.periodo, fuso), fuso });
+
+    const [liquidacao] = await tx
+      .insert(liquidacoesComissoes)
+      .values({
+        clinicaId: dados.clinicaId,
+        dentistaId: dados.dentistaId,
+        periodo: dados.periodo,
+        momentoComissao: momento,
+        ...totais(linhas),
+        fechadaPor: dados.userId,
+      })
+      .returning();
+
+    if (linhas.length > 0) {
+      await tx.insert(linhasLiquidacaoComissao).values(linhas.map(linha => ({ ...linha, liquidacaoId: liquidacao.id })));
+    }
+
+    return { ...liquidacao, numeroLinhas: linhas.length };
+  });
+}
+
+/**
+ * Liquidações fechadas da clínica (de um dentista ou de um ano)
+ */
+export async function listarLiquidacoes(filtros: { clinicaId: number; dentistaId?: number; ano?: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      liquidacao: liquidacoesComissoes,
+      dentistaNome: dentistas.nome,
+    })
+    .from(liquidacoesComissoes)
+    .innerJoin(dentistas, eq(liquidacoesComissoes.dentistaId, dentistas.id))
+    .where(
+      and(
+        eq(liquidacoesComissoes.clinicaId, filtros.clinicaId),
+        filtros.dentistaId ? eq(liquidacoesComissoes.dentistaId, filtros.dentistaId) : undefined,
+        filtros.ano ? like(liquidacoesComissoes.periodo, `${filtros.ano}-%`) : undefined
+      )
+    )
+    .orderBy(desc(liquidacoesComissoes.periodo), dentistas.nome);
+}
+
+/**
+ * Liquidação em CSV (separador ";" e vírgula decimal, como o Excel em português)
+ */
+export async function exportarLiquidacaoCSV(dados: { clinicaId: number; dentistaId: number; periodo: string }) {
+  const liquidacao = await obterLiquidacao(dados);
+
+  const campo = (valor: string | null) => (/[";\n]/.test(valor ?? "") ? `"${(valor ?? "").replace(/"/g, '""')}"` : valor ?? "");
+  const numero = (valor: string) => valor.replace(".", ",");
+
+  const linhas = [
+    ["Data", "Documento", "Utente", "Descrição", "Origem", "Base", "Custos", "Comissão", "Clínica"].join(";"),
+    ...liquidacao.linhas.map(l =>
+      [
+        l.data,
+        campo(l.documento),
+        campo(l.utente),
+        campo(l.descricao),
+        l.origem,
+        numero(l.base),
+        numero(l.custos),
+        numero(l.comissao),
+        numero(l.valorClinica),
+      ].join(";")
+    ),
+    ["", "", "", "Total", "", numero(liquidacao.totalBase), numero(liquidacao.totalCustos), numero(liquidacao.totalComissao), numero(liquidacao.totalClinica)].join(";"),
+  ];
+
+  const nome = liquidacao.dentistaNome.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^A-Za-z0-9]+/g, "_");
+  return {
+    nomeFicheiro: `Comissoes_${nome}_${liquidacao.periodo}.csv`,
+    conteudo: Buffer.from(`\uFEFF${linhas.join("\r\n")}\r\n`, "utf8"),
+  };
+}
+
+/**
+ * Comissões geradas e liquidadas por dentista num período (para a análise por dentista)
+ */
+export async function resumoComissoesDentistas(clinicaId: number, dataInicio: Date, dataFim: Date) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const fuso = await obterFusoClinica(clinicaId);
+  const geradas = await db
+    .select({
+      dentistaId: itensFatura.dentistaId,
+      receita: sql<string>`coalesce(sum(${itensFatura.precoTotal} - ${itensFatura.valorCreditado}), 0)`,
+      comissao: sql<string>`coalesce(sum(${itensFatura.comissaoDentista}), 0)`,
+      valorClinica: sql<string>`coalesce(sum(${itensFatura.valorClinica}), 0)`,
+      custos: sql<string>`coalesce(sum(${itensFatura.custosDeduzidos}), 0)`,
+      faturas: sql<number>`count(distinct ${faturas.id})::int`,
+    })
+    .from(itensFatura)
+    .innerJoin(faturas, eq(itensFatura.faturaId, faturas.id))
+    .where(
+      and(
+        eq(faturas.clinicaId, clinicaId),
+        notInArray(faturas.estado, ESTADOS_FATURA_SEM_COMISSAO),
+        gte(faturas.dataFatura, dataInicio),
+        lte(faturas.dataFatura, dataFim)
+      )
+    )
+    .groupBy(itensFatura.dentistaId);
+
+  // Parte das entidades nos atos do período (as recusadas não contam)
+  const comparticipadas = await db
+    .select({
+      dentistaId: comparticipacoes.dentistaId,
+      receita: sql<string>`coalesce(sum(${comparticipacoes.valorEntidade}), 0)`,
+      comissao: sql<string>`coalesce(sum(${comparticipacoes.comissaoDentista}), 0)`,
+      valorClinica: sql<string>`coalesce(sum(${comparticipacoes.valorClinica}), 0)`,
+      custos: sql<string>`coalesce(sum(${comparticipacoes.custosDeduzidos}), 0)`,
+    })
+    .from(comparticipacoes)
+    .where(
+      and(
+        eq(comparticipacoes.clinicaId, clinicaId),
+        ne(comparticipacoes.estado, "recusada"),
+        gte(comparticipacoes.dataAto, chaveDia(dataInicio, fuso)),
+        lte(comparticipacoes.dataAto, chaveDia(dataFim, fuso))
+      )
+    )
+    .groupBy(comparticipacoes.dentistaId);
+
+  const liquidadas = await db
+    .select({
+      dentistaId: liquidacoesComissoes.dentistaId,
+      comissao: sql<string>`coalesce(sum(${linhasLiquidacaoComissao.comissao}), 0)`,
+    })
+    .from(linhasLiquidacaoComissao)
+    .innerJoin(liquidacoesComissoes, eq(linhasLiquidacaoComissao.liquidacaoId, liquidacoesComissoes.id))
+    .where(
+      and(
+        eq(liquidacoesComissoes.clinicaId, clinicaId),
+        gte(linhasLiquidacaoComissao.data, chaveDia(dataInicio, fuso)),
+        lte(linhasLiquidacaoComissao.data, chaveDia(dataFim, fuso))
+      )
+    )
+    .groupBy(liquidacoesComissoes.dentistaId);
+
+  const dentistasIds = Array.from(
+    new Set(
+      [...geradas.map(g => g.dentistaId), ...comparticipadas.map(c => c.dentistaId), ...liquidadas.map(l => l.dentistaId)]
+        .filter((id): id is number => id !== null)
+    )
+  );
+
+  return dentistasIds.map(dentistaId => {
+    const gerada = geradas.find(g => g.dentistaId === dentistaId);
+    const comparticipada = comparticipadas.find(c => c.dentistaId === dentistaId);
+    const somar = (campo: "receita" | "comissao" | "valorClinica" | "custos") =>
+      euros(centimos(gerada?.[campo]) + centimos(comparticipada?.[campo]));
+    return {
+      dentistaId,
+      receita: parseFloat(somar("receita")),
+      faturas: gerada?.faturas ?? 0,
+      comissaoGerada: parseFloat(somar("comissao")),
+      valorClinica: parseFloat(somar("valorClinica")),
+      custosDeduzidos: parseFloat(somar("custos")),
+      comissaoLiquidada: parseFloat(liquidadas.find(l => l.dentistaId === dentistaId)?.comissao ?? "0"),
+    };
+  });
+}
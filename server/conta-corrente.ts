@@ -0,0 +1,587 @@
+import { getDb, type Executor, type Tx } from "./db";
+import { faturas, pagamentosFatura, utentes } from "../drizzle/schema";
+import { notasCredito, recebimentos, type Recebimento } from "../drizzle/schema-faturacao";
+import { obterFusoClinica } from "./fuso-horario";
+import { TIPOS_DOCUMENTO, numerarDocumento } from "./documentos-fiscais";
+import { estadoFaturaAposCredito } from "./notas-credito";
+import { terminarCobrancasPagamento } from "./cobrancas";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+
+/**
+ * Conta Corrente do Utente
+ * Faturas, notas de crédito, pagamentos, adiantamentos e reembolsos de um utente, com saldo
+ *
+ * - Débitos: faturas emitidas e reembolsos; créditos: notas de crédito e dinheiro recebido
+ * - Saldo positivo = valor em dívida do utente; negativo = crédito a favor do utente
+ * - Um recebimento pode ser imputado a várias faturas; o que não for imputado fica como crédito,
+ *   a utilizar mais tarde ou a reembolsar. As imputações são pagamentos "porConta": não são
+ *   entradas de dinheiro, por isso não aparecem no extrato
+ * - Cada imputação a faturas (FT) emite um único recibo (RC) com uma linha por fatura
+ */
+
+type EstadoFatura = typeof faturas.$inferSelect["estado"];
+type MetodoPagamento = typeof pagamentosFatura.$inferSelect["metodoPagamento"];
+
+/**
+ * Estados das faturas com valor em dívida
+ */
+const ESTADOS_EM_ABERTO: EstadoFatura[] = ["enviada", "parcialmente_paga", "vencida"];
+
+/**
+ * Valor a imputar a uma fatura (sem valor, o que estiver em dívida)
+ */
+export interface Imputacao {
+  faturaId: number;
+  valor?: number;
+}
+
+export interface MovimentoContaCorrente {
+  data: Date;
+  tipo: "fatura" | "nota_credito" | "pagamento" | "recebimento" | "reembolso";
+  documento: string | null;
+  descricao: string;
+  debito: number;
+  credito: number;
+  saldo: number;
+  faturaId?: number;
+  notaCreditoId?: number;
+  pagamentoId?: number;
+  recebimentoId?: number;
+}
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+function emDivida(fatura: { valorTotal: string; valorCreditado: string; valorPago: string }): number {
+  return centimos(fatura.valorTotal) - centimos(fatura.valorCreditado) - centimos(fatura.valorPago);
+}
+
+/**
+ * Bloquear o utente: as operações sobre o crédito da conta são feitas uma de cada vez
+ */
+async function bloquearUtente(tx: Tx, clinicaId: number, utenteId: number) {
+  const [utente] = await tx
+    .select({ id: utentes.id })
+    .from(utentes)
+    .where(and(eq(utentes.id, utenteId), eq(utentes.clinicaId, clinicaId)))
+    .for("update");
+
+  if (!utente) throw new Error("Utente não encontrado");
+}
+
+/**
+ * Crédito do utente por utilizar (cêntimos): recebido - reembolsado - imputado a faturas
+ */
+async function calcularCredito(tx: Executor, clinicaId: number, utenteId: number): Promise<number> {
+  const [movimentos] = await tx
+    .select({
+      recebido: sql<string>`COALESCE(SUM(CASE WHEN ${recebimentos.tipo} = 'recebimento' THEN ${recebimentos.valor} ELSE -${recebimentos.valor} END), 0)`,
+    })
+    .from(recebimentos)
+    .where(and(eq(recebimentos.clinicaId, clinicaId), eq(recebimentos.utenteId, utenteId)));
+
+  const [imputado] = await tx
+    .select({ valor: sql<string>`COALESCE(SUM(${pagamentosFatura.valor}), 0)` })
+    .from(pagamentosFatura)
+    .innerJoin(faturas, eq(pagamentosFatura.faturaId, faturas.id))
+    .where(
+      and(
+        eq(faturas.clinicaId, clinicaId),
+        eq(faturas.utenteId, utenteId),
+        eq(pagamentosFatura.porConta, true)
+      )
+    );
+
+  return centimos(movimentos.recebido) - centimos(imputado.valor);
+}
+
+/**
+ * Imputar um valor disponível às faturas em aberto do utente (as indicadas ou, sem indicação,
+ * as mais antigas primeiro). Tem de correr dentro de uma transação com o utente bloqueado
+ */
+async function imputarFaturas(
+  tx: Tx,
+  dados: {
+    clinicaId: number;
+    utenteId: number;
+    disponivel: number; // Cêntimos
+    imputacoes: Imputacao[] | "automatica";
+    data: Date;
+    metodoPagamento: MetodoPagamento;
+    referencia?: string;
+    observacoes?: string;
+    recebimentoId?: number;
+  }
+) {
+  const abertas = await tx
+    .select()
+    .from(faturas)
+    .where(
+      and(
+        eq(faturas.clinicaId, dados.clinicaId),
+        eq(faturas.utenteId, dados.utenteId),
+        inArray(faturas.estado, ESTADOS_EM_ABERTO)
+      )
+    )
+    .orderBy(asc(faturas.dataFatura), asc(faturas.id))
+    .for("update");
+
+  // Valor a imputar em cada fatura (cêntimos)
+  const plano: { fatura: typeof faturas.$inferSelect; valor: number }[] = [];
+
+  if (dados.imputacoes === "automatica") {
+    let restante = dados.disponivel;
+    for (const fatura of abertas) {
+      const valor = Math.min(emDivida(fatura), restante);
+      if (valor <= 0) continue;
+      plano.push({ fatura, valor });
+      restante -= valor;
+    }
+  } else {
+    for (const imputacao of dados.imputacoes) {
+      const fatura = abertas.find((f: typeof faturas.$inferSelect) => f.id === imputacao.faturaId);
+      if (!fatura) throw new Error(`A fatura ${imputacao.faturaId} não está em aberto`);
+      if (plano.some(p => p.fatura.id === fatura.id)) throw new Error(`A fatura ${fatura.numeroFatura} está repetida`);
+
+      const divida = emDivida(fatura);
+      const valor = imputacao.valor !== undefined ? centimos(imputacao.valor) : divida;
+      if (valor <= 0) throw new Error(`Valor a imputar inválido na fatura ${fatura.numeroFatura}`);
+      if (valor > divida) {
+        throw new Error(`A fatura ${fatura.numeroFatura} só tem ${euros(divida)} € em dívida`);
+      }
+      plano.push({ fatura, valor });
+    }
+  }
+
+  const total = plano.reduce((s, p) => s + p.valor, 0);
+  if (total > dados.disponivel) {
+    throw new Error(`O valor a imputar (${euros(total)} €) excede o disponível (${euros(dados.disponivel)} €)`);
+  }
+
+  // Um recibo para todas as faturas (FT) liquidadas nesta imputação
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  const recibo = plano.some(p => p.fatura.tipoDocumento === "FT")
+    ? await numerarDocumento(tx, {
+        clinicaId: dados.clinicaId,
+        tipoDocumento: "RC",
+        dataDocumento: dados.data,
+        fuso,
+      })
+    : null;
+
+  const pagamentos = [];
+  for (const { fatura, valor } of plano) {
+    const comRecibo = recibo && fatura.tipoDocumento === "FT";
+
+    const [pagamento] = await tx
+      .insert(pagamentosFatura)
+      .values({
+        faturaId: fatura.id,
+        valor: euros(valor),
+        metodoPagamento: dados.metodoPagamento,
+        dataPagamento: dados.data,
+        referencia: dados.referencia,
+        observacoes: dados.observacoes,
+        numeroRecibo: comRecibo ? recibo.numeroDocumento : null,
+        serieId: comRecibo ? recibo.serieId : null,
+        atcud: comRecibo ? recibo.atcud : null,
+        porConta: true,
+        recebimentoId: dados.recebimentoId,
+      })
+      .returning();
+    pagamentos.push(pagamento);
+
+    const valorPago = euros(centimos(fatura.valorPago) + valor);
+    await tx
+      .update(faturas)
+      .set({
+        valorPago,
+        estado: estadoFaturaAposCredito({ ...fatura, valorPago }),
+        updatedAt: new Date(),
+      })
+      .where(eq(faturas.id, fatura.id));
+  }
+
+  // Faturas em cobrança: nenhum passo seguinte depois do pagamento
+  await terminarCobrancasPagamento(tx, plano.map(p => p.fatura.id));
+
+  return { pagamentos, imputado: total, numeroRecibo: recibo?.numeroDocumento ?? null };
+}
+
+type DadosRecebimento = {
+  clinicaId: number;
+  utenteId: number;
+  valor: number;
+  metodoPagamento: MetodoPagamento;
+  dataRecebimento: Date;
+  referencia?: string;
+  observacoes?: string;
+  imputacoes?: Imputacao[];
+  imputarAutomaticamente?: boolean;
+  userId: number | null;
+};
+
+/**
+ * Lançar um recebimento numa transação já aberta (ex: pagamento de prestações de um plano)
+ */
+export async function lancarRecebimento(tx: Tx, dados: DadosRecebimento) {
+  const valor = centimos(dados.valor);
+  if (valor <= 0) throw new Error("O valor recebido deve ser positivo");
+  if (dados.imputacoes && dados.imputarAutomaticamente) {
+    throw new Error("Indique as faturas ou a imputação automática, não ambas");
+  }
+
+  await bloquearUtente(tx, dados.clinicaId, dados.utenteId);
+
+  const [recebimento]: Recebimento[] = await tx
+    .insert(recebimentos)
+    .values({
+      clinicaId: dados.clinicaId,
+      utenteId: dados.utenteId,
+      tipo: "recebimento",
+      valor: euros(valor),
+      metodoPagamento: dados.metodoPagamento,
+      dataRecebimento: dados.dataRecebimento,
+      referencia: dados.referencia,
+      observacoes: dados.observacoes,
+      registadoPor: dados.userId,
+    })
+    .returning();
+
+  const imputacoes = dados.imputarAutomaticamente ? "automatica" : dados.imputacoes;
+  const resultado = imputacoes
+    ? await imputarFaturas(tx, {
+        clinicaId: dados.clinicaId,
+        utenteId: dados.utenteId,
+        disponivel: valor,
+        imputacoes,
+        data: dados.dataRecebimento,
+        metodoPagamento: dados.metodoPagamento,
+        referencia: dados.referencia,
+        observacoes: dados.observacoes,
+        recebimentoId: recebimento.id,
+      })
+    : { pagamentos: [], imputado: 0, numeroRecibo: null };
+
+  return {
+    recebimento,
+    pagamentos: resultado.pagamentos,
+    numeroRecibo: resultado.numeroRecibo,
+    valorImputado: euros(resultado.imputado),
+    creditoGerado: euros(valor - resultado.imputado),
+  };
+}
+
+/**
+ * Registar dinheiro recebido do utente, imputado a uma ou mais faturas ou guardado como crédito
+ * (adiantamento, ex: pagamento antecipado de um plano de tratamento)
+ */
+export async function registarRecebimento(dados: DadosRecebimento) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => await lancarRecebimento(tx, dados));
+}
+
+/**
+ * Pagar faturas em aberto com o crédito do utente
+ */
+export async function utilizarCredito(dados: {
+  clinicaId: number;
+  utenteId: number;
+  imputacoes?: Imputacao[];
+  data?: Date;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => {
+    await bloquearUtente(tx, dados.clinicaId, dados.utenteId);
+
+    const credito = await calcularCredito(tx, dados.clinicaId, dados.utenteId);
+    if (credito <= 0) throw new Error("O utente não tem crédito disponível");
+
+    const resultado = await imputarFaturas(tx, {
+      clinicaId: dados.clinicaId,
+      utenteId: dados.utenteId,
+      disponivel: credito,
+      imputacoes: dados.imputacoes ?? "automatica",
+      data: dados.data ?? new Date(),
+      metodoPagamento: "outro",
+      observacoes: "Pago com crédito da conta corrente",
+    });
+
+    if (resultado.imputado === 0) throw new Error("O utente não tem faturas em aberto");
+
+    return {
+      pagamentos: resultado.pagamentos,
+      numeroRecibo: resultado.numeroRecibo,
+      valorImputado: euros(resultado.imputado),
+      creditoRestante: euros(credito - resultado.imputado),
+    };
+  });
+}
+
+/**
+ * Devolver ao utente (parte de) o crédito da conta corrente
+ */
+export async function reembolsarCredito(dados: {
+  clinicaId: number;
+  utenteId: number;
+  valor: number;
+  metodoPagamento: MetodoPagamento;
+  dataReembolso: Date;
+  referencia?: string;
+  observacoes?: string;
+  userId: number | null;
+}): Promise<Recebimento> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const valor = centimos(dados.valor);
+  if (valor <= 0) throw new Error("O valor a reembolsar deve ser positivo");
+
+  return await db.transaction(async tx => {
+    await bloquearUtente(tx, dados.clinicaId, dados.utenteId);
+
+    const credito = await calcularCredito(tx, dados.clinicaId, dados.utenteId);
+    if (valor > credito) {
+      throw new Error(`O utente só tem ${euros(Math.max(credito, 0))} € de crédito disponível`);
+    }
+
+    const [reembolso] = await tx
+      .insert(recebimentos)
+      .values({
+        clinicaId: dados.clinicaId,
+        utenteId: dados.utenteId,
+        tipo: "reembolso",
+        valor: euros(valor),
+        metodoPagamento: dados.metodoPagamento,
+        dataRecebimento: dados.dataReembolso,
+        referencia: dados.referencia,
+        observacoes: dados.observacoes,
+        registadoPor: dados.userId,
+      })
+      .returning();
+
+    return reembolso;
+  });
+}
+
+// ============================================
+// EXTRATO E RESUMO
+// ============================================
+
+/**
+ * Todos os movimentos do utente, por ordem cronológica (valores em cêntimos, sem saldo)
+ */
+async function obterMovimentos(clinicaId: number, utenteId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const faturasUtente = await db
+    .select()
+    .from(faturas)
+    .where(and(eq(faturas.clinicaId, clinicaId), eq(faturas.utenteId, utenteId)))
+    .orderBy(asc(faturas.dataFatura), asc(faturas.id));
+
+  const notas = await db
+    .select()
+    .from(notasCredito)
+    .where(and(eq(notasCredito.clinicaId, clinicaId), eq(notasCredito.utenteId, utenteId)));
+
+  const pagamentos = faturasUtente.length > 0
+    ? await db
+        .select()
+        .from(pagamentosFatura)
+        .where(
+          and(
+            inArray(pagamentosFatura.faturaId, faturasUtente.map(f => f.id)),
+            eq(pagamentosFatura.porConta, false)
+          )
+        )
+    : [];
+
+  const recebimentosUtente = await db
+    .select()
+    .from(recebimentos)
+    .where(and(eq(recebimentos.clinicaId, clinicaId), eq(recebimentos.utenteId, utenteId)));
+
+  const movimentos: Omit<MovimentoContaCorrente, "saldo">[] = [];
+
+  // Rascunhos não são documentos emitidos; faturas anuladas não são dívida
+  for (const fatura of faturasUtente) {
+    if (fatura.estado === "rascunho" || fatura.estado === "cancelada") continue;
+    movimentos.push({
+      data: fatura.dataFatura,
+      tipo: "fatura",
+      documento: fatura.numeroFatura,
+      descricao: `${TIPOS_DOCUMENTO[fatura.tipoDocumento]} ${fatura.numeroFatura}`,
+      debito: centimos(fatura.valorTotal),
+      credito: 0,
+      faturaId: fatura.id,
+    });
+  }
+
+  for (const nota of notas) {
+    movimentos.push({
+      data: nota.dataEmissao,
+      tipo: "nota_credito",
+      documento: nota.numero,
+      descricao: `Nota de crédito ${nota.numero}: ${nota.motivo}`,
+      debito: 0,
+      credito: centimos(nota.valorTotal),
+      notaCreditoId: nota.id,
+      faturaId: nota.faturaId,
+    });
+  }
+
+  // Pagamentos feitos diretamente numa fatura (os negativos são reembolsos de notas de crédito)
+  for (const pagamento of pagamentos) {
+    const fatura = faturasUtente.find(f => f.id === pagamento.faturaId)!;
+    const valor = centimos(pagamento.valor);
+    movimentos.push({
+      data: pagamento.dataPagamento,
+      tipo: valor >= 0 ? "pagamento" : "reembolso",
+      documento: pagamento.numeroRecibo,
+      descricao: valor >= 0
+        ? `Pagamento da fatura ${fatura.numeroFatura}`
+        : `Reembolso (fatura ${fatura.numeroFatura})`,
+      debito: valor < 0 ? -valor : 0,
+      credito: valor > 0 ? valor : 0,
+      faturaId: fatura.id,
+      pagamentoId: pagamento.id,
+    });
+  }
+
+  for (const recebimento of recebimentosUtente) {
+    const reembolso = recebimento.tipo === "reembolso";
+    const descricao = reembolso ? "Reembolso de crédito" : "Recebimento";
+    movimentos.push({
+      data: recebimento.dataRecebimento,
+      tipo: recebimento.tipo,
+      documento: null,
+      descricao: recebimento.referencia ? `${descricao} (${recebimento.referencia})` : descricao,
+      debito: reembolso ? centimos(recebimento.valor) : 0,
+      credito: reembolso ? 0 : centimos(recebimento.valor),
+      recebimentoId: recebimento.id,
+    });
+  }
+
+  // No mesmo instante, os documentos antes dos pagamentos
+  const ordem = { fatura: 0, nota_credito: 1, pagamento: 2, recebimento: 2, reembolso: 3 };
+  movimentos.sort((a, b) => a.data.getTime() - b.data.getTime() || ordem[a.tipo] - ordem[b.tipo]);
+
+  return { movimentos, faturas: faturasUtente };
+}
+
+/**
+ * Extrato da conta corrente, com saldo acumulado (saldo inicial = movimentos anteriores ao período)
+ */
+export async function extratoContaCorrente(dados: {
+  clinicaId: number;
+  utenteId: number;
+  dataInicio?: Date;
+  dataFim?: Date;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [utente] = await db
+    .select({ id: utentes.id, nome: utentes.nome, nif: utentes.nif, email: utentes.email })
+    .from(utentes)
+    .where(and(eq(utentes.id, dados.utenteId), eq(utentes.clinicaId, dados.clinicaId)))
+    .limit(1);
+
+  if (!utente) throw new Error("Utente não encontrado");
+
+  const { movimentos, faturas: faturasUtente } = await obterMovimentos(dados.clinicaId, dados.utenteId);
+
+  let saldo = 0;
+  let saldoInicial = 0;
+  let totalDebito = 0;
+  let totalCredito = 0;
+  const doPeriodo: MovimentoContaCorrente[] = [];
+
+  for (const movimento of movimentos) {
+    saldo += movimento.debito - movimento.credito;
+
+    if (dados.dataInicio && movimento.data < dados.dataInicio) {
+      saldoInicial = saldo;
+      continue;
+    }
+    if (dados.dataFim && movimento.data > dados.dataFim) break;
+
+    totalDebito += movimento.debito;
+    totalCredito += movimento.credito;
+    doPeriodo.push({
+      ...movimento,
+      debito: movimento.debito / 100,
+      credito: movimento.credito / 100,
+      saldo: saldo / 100,
+    });
+  }
+
+  const credito = await calcularCredito(db, dados.clinicaId, dados.utenteId);
+
+  return {
+    utente,
+    dataInicio: dados.dataInicio ?? null,
+    dataFim: dados.dataFim ?? null,
+    saldoInicial: saldoInicial / 100,
+    movimentos: doPeriodo,
+    totalDebito: totalDebito / 100,
+    totalCredito: totalCredito / 100,
+    saldoFinal: (saldoInicial + totalDebito - totalCredito) / 100,
+    creditoDisponivel: credito / 100,
+    faturasEmAberto: faturasUtente
+      .filter(f => ESTADOS_EM_ABERTO.includes(f.estado) && emDivida(f) > 0)
+      .map(f => ({
+        id: f.id,
+        numeroFatura: f.numeroFatura,
+        dataFatura: f.dataFatura,
+        dataVencimento: f.dataVencimento,
+        valorTotal: parseFloat(f.valorTotal),
+        emDivida: emDivida(f) / 100,
+      })),
+  };
+}
+
+/**
+ * Resumo financeiro do utente (totais e saldo atual)
+ */
+export async function resumoContaCorrente(clinicaId: number, utenteId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { movimentos, faturas: faturasUtente } = await obterMovimentos(clinicaId, utenteId);
+  const soma = (tipos: MovimentoContaCorrente["tipo"][], campo: "debito" | "credito") =>
+    movimentos.filter(m => tipos.includes(m.tipo)).reduce((s, m) => s + m[campo], 0);
+
+  const emitidas = faturasUtente.filter(f => f.estado !== "rascunho" && f.estado !== "cancelada");
+  const emAberto = emitidas.filter(f => ESTADOS_EM_ABERTO.includes(f.estado) && emDivida(f) > 0);
+  const agora = new Date();
+
+  const totalFaturado = soma(["fatura"], "debito");
+  const totalCreditado = soma(["nota_credito"], "credito");
+  const totalRecebido = soma(["pagamento", "recebimento"], "credito");
+  const totalReembolsado = soma(["reembolso"], "debito");
+
+  return {
+    totalFaturado: totalFaturado / 100,
+    totalCreditado: totalCreditado / 100,
+    totalRecebido: totalRecebido / 100,
+    totalReembolsado: totalReembolsado / 100,
+    saldo: (totalFaturado + totalReembolsado - totalCreditado - totalRecebido) / 100,
+    totalPendente: emAberto.reduce((s, f) => s + emDivida(f), 0) / 100,
+    creditoDisponivel: (await calcularCredito(db, clinicaId, utenteId)) / 100,
+    numeroFaturas: emitidas.length,
+    faturasEmAberto: emAberto.length,
+    faturasVencidas: emAberto.filter(f => f.dataVencimento && f.dataVencimento < agora).length,
+  };
+}
@@ -1,6 +1,7 @@
 import { getDb } from "./db";
 import { faturas, consultas, procedimentos } from "../drizzle/schema";
 import { eq, and, gte, isNotNull, sql } from "drizzle-orm";
+import { obterFusoClinica, sqlHoraLocal } from "./fuso-horario";
 
 /**
  * Obter dados para gráfico de receita mensal
@@ -9,20 +10,23 @@ export async function getReceitaMensal(clinicaId: number) {
   const db = await getDb();
   if (!db) return [];
 
+  // Meses contados no fuso da clínica (uma fatura às 00:30 de dia 1 pertence a esse mês)
+  const mes = sql`to_char(${sqlHoraLocal(faturas.dataVencimento, await obterFusoClinica(clinicaId))}, 'YYYY-MM')`;
+
   const resultado = await db
     .select({
-      mes: sql<string>`DATE_FORMAT(${faturas.dataVencimento}, '%Y-%m')`,
+      mes: sql<string>`${mes}`,
       valor: sql<number>`SUM(${faturas.valorTotal})`,
     })
     .from(faturas)
     .where(
       and(
         eq(faturas.clinicaId, clinicaId),
-        gte(faturas.dataVencimento, sql`DATE_SUB(NOW(), INTERVAL 6 MONTH)`)
+        gte(faturas.dataVencimento, sql`NOW() - INTERVAL '6 months'`)
       )
     )
-    .groupBy(sql`DATE_FORMAT(${faturas.dataVencimento}, '%Y-%m')`)
-    .orderBy(sql`DATE_FORMAT(${faturas.dataVencimento}, '%Y-%m')`);
+    .groupBy(mes)
+    .orderBy(mes);
 
   return resultado.map((r) => ({
     mes: r.mes,
@@ -37,20 +41,22 @@ export async function getConsultasPorMes(clinicaId: number) {
   const db = await getDb();
   if (!db) return [];
 
+  const mes = sql`to_char(${sqlHoraLocal(consultas.horaInicio, await obterFusoClinica(clinicaId))}, 'YYYY-MM')`;
+
   const resultado = await db
     .select({
-      mes: sql<string>`DATE_FORMAT(${consultas.horaInicio}, '%Y-%m')`,
+      mes: sql<string>`${mes}`,
       total: sql<number>`COUNT(*)`,
     })
     .from(consultas)
     .where(
       and(
         eq(consultas.clinicaId, clinicaId),
-        gte(consultas.horaInicio, sql`DATE_SUB(NOW(), INTERVAL 6 MONTH)`)
+        gte(consultas.horaInicio, sql`NOW() - INTERVAL '6 months'`)
       )
     )
-    .groupBy(sql`DATE_FORMAT(${consultas.horaInicio}, '%Y-%m')`)
-    .orderBy(sql`DATE_FORMAT(${consultas.horaInicio}, '%Y-%m')`);
+    .groupBy(mes)
+    .orderBy(mes);
 
   return resultado.map((c) => ({
     mes: c.mes,
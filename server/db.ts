@@ -45,6 +45,20 @@ export async function getDb() {
   return _db;
 }
 
+// Pool da ligação acima, para quem precisa de uma ligação dedicada (ex.: LISTEN/NOTIFY)
+export async function getPool() {
+  await getDb();
+  return _pool;
+}
+
+export type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+// Transação aberta com db.transaction()
+export type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
+// Transação ou a ligação global (funções que podem correr dentro da transação de quem as chama)
+export type Executor = Tx | Db;
+
 // ============================================
 // AUTENTICAÇÃO
 // ============================================
@@ -178,6 +192,27 @@ export async function getUtentesByClinica(clinicaId: number, searchTerm?: string
     .orderBy(desc(utentes.createdAt));
 }
 
+/**
+ * Próximo número de utente da clínica (UT000001, UT000002, ...)
+ */
+export async function gerarNumeroUtente(clinicaId: number, executor?: Executor): Promise<string> {
+  const db = executor ?? await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const ultimoUtente = await db
+    .select()
+    .from(utentes)
+    .where(eq(utentes.clinicaId, clinicaId))
+    .orderBy(desc(utentes.id))
+    .limit(1);
+
+  const proximoNumero = ultimoUtente.length > 0
+    ? parseInt(ultimoUtente[0].numeroUtente.replace(/\D/g, '')) + 1
+    : 1;
+
+  return `UT${proximoNumero.toString().padStart(6, '0')}`;
+}
+
 export async function getUtenteById(utenteId: number, clinicaId: number) {
   const db = await getDb();
   if (!db) return null;
@@ -0,0 +1,215 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createVerify, generateKeyPairSync } from "crypto";
+import { ENV } from "./_core/env";
+import type { Tx } from "./db";
+import {
+  assinarDocumento,
+  codigoHash,
+  formatarDataSistema,
+  gerarCodigoQR,
+  linhasComDesconto,
+  numerarDocumento,
+  totaisPorTaxa,
+} from "./documentos-fiscais";
+import type { SerieDocumento } from "../drizzle/schema-faturacao";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 1024 });
+ENV.atChavePrivada = privateKey.export({ type: "pkcs1", format: "pem" }).toString();
+ENV.atNumeroCertificado = "9999";
+
+const CRIADO_EM = new Date("2026-01-01T00:00:00Z");
+
+function assinaturaValida(mensagem: string, assinatura: string): boolean {
+  return createVerify("RSA-SHA1").update(mensagem, "utf8").verify(publicKey, assinatura, "base64");
+}
+
+// Série 2026A de faturas, ainda sem documentos
+function serieFaturas(): SerieDocumento {
+  return {
+    id: 1,
+    clinicaId: 1,
+    tipoDocumento: "FT",
+    serie: "2026A",
+    codigoValidacao: "CSDF7T5H",
+    numeroInicial: 1,
+    ultimoNumero: 0,
+    ultimoHash: null,
+    dataUltimoDocumento: null,
+    ativa: true,
+    createdAt: CRIADO_EM,
+    updatedAt: CRIADO_EM,
+  };
+}
+
+// Transação com só o que a numeração usa: ler a série bloqueada e gravar o último documento
+function transacao(serie: SerieDocumento): Tx {
+  const tx = {
+    select: () => ({ from: () => ({ where: () => ({ for: async () => [serie] }) }) }),
+    update: () => ({
+      set: (valores: Partial<SerieDocumento>) => ({
+        where: async () => {
+          Object.assign(serie, valores);
+        },
+      }),
+    }),
+  };
+  return tx as unknown as Tx;
+}
+
+describe("assinatura dos documentos", () => {
+  it("assina a mensagem no formato da AT (data;data de sistema;número;total;assinatura anterior)", () => {
+    // Exemplo das especificações da AT para o primeiro documento de uma série
+    const hash = assinarDocumento({
+      dataDocumento: "2010-05-18",
+      dataSistema: "2010-05-18T11:22:19",
+      numeroDocumento: "FAC 001/14",
+      valorTotal: "3.12",
+      hashAnterior: "",
+    });
+
+    assert.ok(assinaturaValida("2010-05-18;2010-05-18T11:22:19;FAC 001/14;3.12;", hash));
+  });
+
+  it("encadeia a assinatura do documento anterior da série", async () => {
+    const serie = serieFaturas();
+    const fuso = "Europe/Lisbon";
+
+    const primeiro = await numerarDocumento(transacao(serie), {
+      clinicaId: 1,
+      tipoDocumento: "FT",
+      dataDocumento: new Date("2026-10-19T10:00:00Z"),
+      valorTotal: "120.5",
+      fuso,
+    });
+    const segundo = await numerarDocumento(transacao(serie), {
+      clinicaId: 1,
+      tipoDocumento: "FT",
+      dataDocumento: new Date("2026-10-19T11:00:00Z"),
+      valorTotal: "45",
+      fuso,
+    });
+
+    assert.equal(primeiro.numeroDocumento, "FT 2026A/1");
+    assert.equal(primeiro.atcud, "CSDF7T5H-1");
+    assert.ok(assinaturaValida(`2026-10-19;${formatarDataSistema(primeiro.dataSistema, fuso)};FT 2026A/1;120.50;`, primeiro.hash!));
+
+    assert.equal(segundo.numeroDocumento, "FT 2026A/2");
+    assert.equal(segundo.atcud, "CSDF7T5H-2");
+    assert.ok(
+      assinaturaValida(`2026-10-19;${formatarDataSistema(segundo.dataSistema, fuso)};FT 2026A/2;45.00;${primeiro.hash}`, segundo.hash!)
+    );
+    assert.equal(serie.ultimoNumero, 2);
+    assert.equal(serie.ultimoHash, segundo.hash);
+  });
+
+  it("recusa uma data anterior à do último documento da série", async () => {
+    const serie = { ...serieFaturas(), ultimoNumero: 3, dataUltimoDocumento: new Date("2026-10-19T10:00:00Z") };
+
+    await assert.rejects(
+      numerarDocumento(transacao(serie), {
+        clinicaId: 1,
+        tipoDocumento: "FT",
+        dataDocumento: new Date("2026-10-18T10:00:00Z"),
+        valorTotal: "10",
+        fuso: "Europe/Lisbon",
+      }),
+      /não pode ser anterior a/
+    );
+    assert.equal(serie.ultimoNumero, 3);
+  });
+
+  it("imprime o 1.º, 11.º, 21.º e 31.º caracteres da assinatura", () => {
+    assert.equal(codigoHash("ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz"), "AKUe");
+    assert.equal(codigoHash(null), "0");
+  });
+});
+
+describe("IVA por taxa", () => {
+  const linhas = [
+    { valor: 10000, taxa: 23 },
+    { valor: 5000, taxa: 6 },
+    { valor: 3333, taxa: 0 },
+  ];
+
+  it("reparte o desconto pelo valor com IVA de cada linha, sem perder cêntimos", () => {
+    // Partes do desconto com IVA: 588, 253 e o resto (159) na última linha
+    assert.deepEqual(linhasComDesconto(linhas, 1000), [10000 - 478, 5000 - 239, 3333 - 159]);
+    assert.deepEqual(linhasComDesconto(linhas, 0), [10000, 5000, 3333]);
+  });
+
+  it("soma bases e IVA por taxa, com o total igual ao bruto menos o desconto", () => {
+    const totais = totaisPorTaxa(linhas, 1000);
+
+    assert.deepEqual(totais, [
+      { taxa: 0, motivoIsencao: "M07", base: 3174, iva: 0 },
+      { taxa: 6, motivoIsencao: null, base: 4761, iva: 286 },
+      { taxa: 23, motivoIsencao: null, base: 9522, iva: 2190 },
+    ]);
+    assert.equal(totais.reduce((s, t) => s + t.base + t.iva, 0), 12300 + 5300 + 3333 - 1000);
+  });
+
+  it("arredonda o IVA sobre a base de cada taxa, não linha a linha", () => {
+    const totais = totaisPorTaxa([{ valor: 2, taxa: 23 }, { valor: 2, taxa: 23 }, { valor: 2, taxa: 23 }], 0);
+
+    // Linha a linha seriam 3 x 0,46 cêntimos, arredondados a 0; sobre a base de 6 cêntimos, 1,38
+    assert.deepEqual(totais, [{ taxa: 23, motivoIsencao: null, base: 6, iva: 1 }]);
+  });
+
+  it("agrupa as linhas isentas por motivo de isenção", () => {
+    const totais = totaisPorTaxa([{ valor: 1000, taxa: 0 }, { valor: 500, taxa: 0, motivoIsencao: "M10" }, { valor: 200, taxa: 0 }], 0);
+
+    assert.deepEqual(totais.map(t => [t.motivoIsencao, t.base]), [["M07", 1200], ["M10", 500]]);
+  });
+});
+
+describe("código QR", () => {
+  it("gera os campos da Portaria 195/2020 por escalão de IVA", () => {
+    // Valores do continente do exemplo das especificações técnicas do código QR da AT (sem os
+    // campos das regiões autónomas, do imposto do selo e das outras informações)
+    const hash = "P0FEzzzzzzKzzzzzzzzzTzzzzzzzzzQzzzzz";
+    const qr = gerarCodigoQR({
+      nifEmitente: "123456789",
+      tipoDocumento: "FT",
+      dataDocumento: "2019-08-12",
+      numeroDocumento: "FT AB2019/0035",
+      atcud: "CSDF7T5H-0035",
+      espacoFiscal: "PT",
+      resumoIVA: [
+        { taxa: 0, base: 12000, iva: 0 },
+        { taxa: 6, base: 15000, iva: 900 },
+        { taxa: 13, base: 50000, iva: 6500 },
+        { taxa: 23, base: 80000, iva: 18400 },
+      ],
+      valorTotal: 182800,
+      hash,
+    });
+
+    assert.equal(
+      qr,
+      "A:123456789*B:999999990*C:PT*D:FT*E:N*F:20190812*G:FT AB2019/0035*H:CSDF7T5H-0035*I1:PT*" +
+        "I2:12000.00*I3:15000.00*I4:900.00*I5:50000.00*I6:6500.00*I7:80000.00*I8:18400.00*" +
+        "N:25800.00*O:182800.00*Q:PKTQ*R:9999"
+    );
+  });
+
+  it("usa o espaço fiscal da região e omite os escalões sem base", () => {
+    const qr = gerarCodigoQR({
+      nifEmitente: "123456789",
+      nifAdquirente: "234567890",
+      tipoDocumento: "NC",
+      dataDocumento: "2026-10-19",
+      numeroDocumento: "NC 2026A/3",
+      atcud: "ABCD1234-3",
+      espacoFiscal: "PT-AC",
+      resumoIVA: [{ taxa: 16, base: 100, iva: 16 }],
+      valorTotal: 116,
+      hash: null,
+    });
+
+    assert.equal(
+      qr,
+      "A:123456789*B:234567890*C:PT*D:NC*E:N*F:20261019*G:NC 2026A/3*H:ABCD1234-3*I1:PT-AC*I7:100.00*I8:16.00*N:16.00*O:116.00*Q:0*R:9999"
+    );
+  });
+});
@@ -0,0 +1,530 @@
+import { createSign } from "crypto";
+import { getDb, type Tx } from "./db";
+import { ENV } from "./_core/env";
+import { seriesDocumentos, type SerieDocumento } from "../drizzle/schema-faturacao";
+import { chaveDia, formatarDataCurta, partesData } from "./fuso-horario";
+import { and, asc, eq } from "drizzle-orm";
+
+/**
+ * Documentos Fiscais (certificação AT)
+ * Numeração, ATCUD, assinatura e código QR dos documentos de faturação
+ *
+ * - Cada documento é numerado na série ativa do seu tipo, comunicada previamente à AT, que
+ *   atribui o código de validação. ATCUD = <código de validação>-<número sequencial>
+ * - A série é bloqueada (SELECT ... FOR UPDATE) durante a emissão: os números são sequenciais,
+ *   sem falhas, e se a transação falhar o número não é consumido
+ * - Faturas e notas de crédito são assinadas (RSA-SHA1) sobre
+ *   "<data>;<data de sistema>;<número>;<total>;<assinatura do documento anterior da série>"
+ * - Os recibos (RC) têm numeração e ATCUD, mas não são assinados
+ */
+
+export type TipoDocumentoFiscal = SerieDocumento["tipoDocumento"];
+
+export const TIPOS_DOCUMENTO: Record<TipoDocumentoFiscal, string> = {
+  FT: "Fatura",
+  FS: "Fatura simplificada",
+  FR: "Fatura-recibo",
+  NC: "Nota de crédito",
+  RC: "Recibo",
+};
+
+/**
+ * Limite das faturas simplificadas a consumidores finais (art. 40.º do CIVA)
+ */
+export const LIMITE_FATURA_SIMPLIFICADA = 1000;
+
+/**
+ * NIF usado quando o adquirente não indica contribuinte (consumidor final)
+ */
+export const NIF_CONSUMIDOR_FINAL = "999999990";
+
+/**
+ * Motivos de isenção de IVA (códigos da AT), indicados nas linhas à taxa 0
+ */
+export const MOTIVOS_ISENCAO_IVA: Record<string, string> = {
+  M01: "Artigo 16.º, n.º 6 do CIVA",
+  M04: "Isento artigo 13.º do CIVA",
+  M05: "Isento artigo 14.º do CIVA",
+  M06: "Isento artigo 15.º do CIVA",
+  M07: "Isento artigo 9.º do CIVA",
+  M10: "IVA - regime de isenção",
+  M16: "Isento artigo 14.º do RITI",
+  M19: "Outras isenções",
+  M99: "Não sujeito ou não tributado",
+};
+
+/**
+ * Atos médicos e de medicina dentária (art. 9.º do CIVA): motivo por omissão
+ */
+export const MOTIVO_ISENCAO_PADRAO = "M07";
+
+/**
+ * Dados de certificação atribuídos a um documento emitido
+ */
+export interface DocumentoNumerado {
+  serieId: number;
+  numeroDocumento: string; // Ex: "FT 2026A/15"
+  atcud: string;
+  hash: string | null;
+  hashControlo: string | null;
+  dataSistema: Date;
+}
+
+/**
+ * Data/hora de sistema no formato da assinatura e do SAF-T (AAAA-MM-DDThh:mm:ss, hora local)
+ */
+export function formatarDataSistema(data: Date, fuso: string): string {
+  const { hora, minuto, segundo } = partesData(data, fuso);
+  const hhmmss = [hora, minuto, segundo].map(v => v.toString().padStart(2, "0")).join(":");
+  return `${chaveDia(data, fuso)}T${hhmmss}`;
+}
+
+/**
+ * Assinar um documento com a chave privada do software certificado
+ */
+export function assinarDocumento(dados: {
+  dataDocumento: string; // AAAA-MM-DD
+  dataSistema: string; // AAAA-MM-DDThh:mm:ss
+  numeroDocumento: string;
+  valorTotal: string; // Com 2 casas decimais
+  hashAnterior: string; // Vazio no primeiro documento da série
+}): string {
+  if (!ENV.atChavePrivada) {
+    throw new Error("Chave privada de certificação não configurada (AT_CHAVE_PRIVADA)");
+  }
+
+  const mensagem = [
+    dados.dataDocumento,
+    dados.dataSistema,
+    dados.numeroDocumento,
+    dados.valorTotal,
+    dados.hashAnterior,
+  ].join(";");
+
+  return createSign("RSA-SHA1").update(mensagem, "utf8").sign(ENV.atChavePrivada, "base64");
+}
+
+/**
+ * Atribuir número, ATCUD e assinatura a um documento
+ * Tem de correr dentro da transação que grava o documento
+ */
+export async function numerarDocumento(
+  tx: Tx,
+  dados: {
+    clinicaId: number;
+    tipoDocumento: TipoDocumentoFiscal;
+    dataDocumento: Date;
+    valorTotal?: string;
+    fuso: string;
+  }
+): Promise<DocumentoNumerado> {
+  const [serie]: SerieDocumento[] = await tx
+    .select()
+    .from(seriesDocumentos)
+    .where(
+      and(
+        eq(seriesDocumentos.clinicaId, dados.clinicaId),
+        eq(seriesDocumentos.tipoDocumento, dados.tipoDocumento),
+        eq(seriesDocumentos.ativa, true)
+      )
+    )
+    .for("update");
+
+  if (!serie) {
+    throw new Error(
+      `Não existe uma série ativa de ${TIPOS_DOCUMENTO[dados.tipoDocumento].toLowerCase()} (${dados.tipoDocumento}) comunicada à AT`
+    );
+  }
+
+  // A data de um documento não pode ser anterior à do último documento da mesma série
+  if (
+    serie.dataUltimoDocumento &&
+    chaveDia(dados.dataDocumento, dados.fuso) < chaveDia(serie.dataUltimoDocumento, dados.fuso)
+  ) {
+    throw new Error(
+      `A data do documento não pode ser anterior a ${formatarDataCurta(serie.dataUltimoDocumento, dados.fuso)} (último documento da série ${serie.serie})`
+    );
+  }
+
+  const numero = serie.ultimoNumero + 1;
+  const numeroDocumento = `${dados.tipoDocumento} ${serie.serie}/${numero}`;
+  const dataSistema = new Date(Math.floor(Date.now() / 1000) * 1000); // A assinatura usa segundos
+
+  let hash: string | null = null;
+  if (dados.tipoDocumento !== "RC") {
+    if (dados.valorTotal === undefined) throw new Error("Total do documento em falta para a assinatura");
+
+    hash = assinarDocumento({
+      dataDocumento: chaveDia(dados.dataDocumento, dados.fuso),
+      dataSistema: formatarDataSistema(dataSistema, dados.fuso),
+      numeroDocumento,
+      valorTotal: parseFloat(dados.valorTotal).toFixed(2),
+      hashAnterior: serie.ultimoHash ?? "",
+    });
+  }
+
+  await tx
+    .update(seriesDocumentos)
+    .set({
+      ultimoNumero: numero,
+      ultimoHash: hash ?? serie.ultimoHash,
+      dataUltimoDocumento: dados.dataDocumento,
+      updatedAt: new Date(),
+    })
+    .where(eq(seriesDocumentos.id, serie.id));
+
+  return {
+    serieId: serie.id,
+    numeroDocumento,
+    atcud: `${serie.codigoValidacao}-${numero}`,
+    hash,
+    hashControlo: hash ? ENV.atVersaoChave : null,
+    dataSistema,
+  };
+}
+
+/**
+ * Caracteres da assinatura impressos no documento (1.º, 11.º, 21.º e 31.º)
+ */
+export function codigoHash(hash: string | null | undefined): string {
+  if (!hash) return "0";
+  return [0, 10, 20, 30].map(i => hash.charAt(i)).join("");
+}
+
+/**
+ * Menção obrigatória nos documentos assinados
+ */
+export function mensagemCertificacao(hash: string | null | undefined): string {
+  return `${codigoHash(hash)}-Processado por programa certificado n.º ${ENV.atNumeroCertificado}/AT`;
+}
+
+/**
+ * Dados de certificação a imprimir no documento (null em documentos anteriores às séries AT)
+ */
+export function dadosImpressao(documento: {
+  atcud: string | null;
+  hash: string | null;
+  codigoQR: string | null;
+}) {
+  if (!documento.atcud) return null;
+
+  return {
+    atcud: documento.atcud,
+    codigoHash: codigoHash(documento.hash),
+    mensagemCertificacao: documento.hash ? mensagemCertificacao(documento.hash) : null,
+    codigoQR: documento.codigoQR,
+  };
+}
+
+// ============================================
+// CÓDIGO QR (Portaria 195/2020)
+// ============================================
+
+/**
+ * Base tributável e IVA de uma taxa
+ */
+export interface ResumoIVA {
+  taxa: number; // Percentagem
+  base: number;
+  iva: number;
+}
+
+/**
+ * Linha de um documento para o cálculo do IVA (valor sem IVA, em cêntimos)
+ */
+export interface LinhaIVA {
+  valor: number;
+  taxa: number;
+  motivoIsencao?: string | null;
+}
+
+/**
+ * Base tributável e IVA de uma taxa, em cêntimos (as linhas isentas agrupam-se por motivo)
+ */
+export interface TotalTaxa {
+  taxa: number;
+  motivoIsencao: string | null;
+  base: number;
+  iva: number;
+}
+
+// Taxas reduzida, intermédia e normal do continente, da Madeira e dos Açores
+const TAXAS_REDUZIDAS = [4, 5, 6];
+const TAXAS_INTERMEDIAS = [9, 12, 13];
+const TAXAS_NORMAIS = [16, 22, 23];
+
+/**
+ * Código da taxa de IVA (SAF-T): ISE (isento), RED, INT ou NOR
+ */
+export function codigoTaxaIVA(taxa: number): "ISE" | "RED" | "INT" | "NOR" {
+  if (taxa === 0) return "ISE";
+  if (TAXAS_REDUZIDAS.includes(taxa)) return "RED";
+  if (TAXAS_INTERMEDIAS.includes(taxa)) return "INT";
+  if (TAXAS_NORMAIS.includes(taxa)) return "NOR";
+  throw new Error(`Taxa de IVA não suportada: ${taxa}%`);
+}
+
+function centimos(valor: string): number {
+  return Math.round(parseFloat(valor || "0") * 100);
+}
+
+/**
+ * Taxa e motivo de isenção de uma linha; o motivo só se aplica à taxa 0 (por omissão M07)
+ */
+export function impostoLinha(taxa: number, motivoIsencao?: string | null) {
+  codigoTaxaIVA(taxa);
+  if (taxa > 0) return { taxa, motivoIsencao: null };
+
+  const motivo = motivoIsencao || MOTIVO_ISENCAO_PADRAO;
+  if (!MOTIVOS_ISENCAO_IVA[motivo]) throw new Error(`Motivo de isenção de IVA desconhecido: ${motivo}`);
+  return { taxa, motivoIsencao: motivo };
+}
+
+/**
+ * Valor sem IVA de cada linha depois do desconto do documento
+ * O desconto é dado sobre o total com IVA: é repartido pelas linhas na proporção do seu valor
+ * com IVA e convertido para valor sem IVA à taxa de cada linha
+ */
+export function linhasComDesconto(linhas: LinhaIVA[], desconto: number): number[] {
+  const brutos = linhas.map(l => l.valor * (1 + l.taxa / 100));
+  const totalBruto = brutos.reduce((s, v) => s + v, 0);
+
+  let atribuido = 0;
+  return linhas.map((linha, indice) => {
+    const parte = indice === linhas.length - 1
+      ? desconto - atribuido
+      : totalBruto > 0 ? Math.round(desconto * brutos[indice] / totalBruto) : 0;
+    atribuido += parte;
+
+    return linha.valor - Math.round(parte / (1 + linha.taxa / 100));
+  });
+}
+
+/**
+ * Base tributável e IVA por taxa de um documento, depois do desconto
+ * O total do documento é a soma das bases e do IVA de cada taxa
+ */
+export function totaisPorTaxa(linhas: LinhaIVA[], desconto: number): TotalTaxa[] {
+  const liquidos = linhasComDesconto(linhas, desconto);
+  const totais = new Map<string, TotalTaxa>();
+
+  linhas.forEach((linha, indice) => {
+    const motivo = linha.taxa === 0 ? linha.motivoIsencao || MOTIVO_ISENCAO_PADRAO : null;
+    const chave = `${linha.taxa}|${motivo}`;
+    const total = totais.get(chave) ?? { taxa: linha.taxa, motivoIsencao: motivo, base: 0, iva: 0 };
+    total.base += liquidos[indice];
+    totais.set(chave, total);
+  });
+
+  return Array.from(totais.values())
+    .map(total => ({ ...total, iva: Math.round(total.base * total.taxa / 100) }))
+    .sort((a, b) => a.taxa - b.taxa);
+}
+
+/**
+ * Base e IVA por taxa de uma fatura ou nota de crédito emitida
+ * (documentos antigos sem linhas: o valor sem IVA à taxa única do documento)
+ */
+export function totaisDocumento(
+  documento: { percentagemIVA: string; valorTotal: string; valorIVA: string; valorDesconto: string },
+  itens: { precoTotal: string; taxaIVA: string; motivoIsencao: string | null }[]
+): TotalTaxa[] {
+  if (itens.length === 0) {
+    return totaisPorTaxa([{
+      valor: centimos(documento.valorTotal) - centimos(documento.valorIVA),
+      taxa: parseFloat(documento.percentagemIVA),
+    }], 0);
+  }
+
+  const linhas = itens.map(item => ({
+    valor: centimos(item.precoTotal),
+    taxa: parseFloat(item.taxaIVA),
+    motivoIsencao: item.motivoIsencao,
+  }));
+  return totaisPorTaxa(linhas, centimos(documento.valorDesconto));
+}
+
+/**
+ * Resumo do IVA em euros, para impressão e para o código QR
+ */
+export function resumoIVA(totais: TotalTaxa[]): (ResumoIVA & { motivoIsencao: string | null })[] {
+  return totais.map(t => ({ taxa: t.taxa, motivoIsencao: t.motivoIsencao, base: t.base / 100, iva: t.iva / 100 }));
+}
+
+/**
+ * Espaço fiscal do IVA da clínica (as regiões autónomas têm taxas próprias)
+ */
+export function espacoFiscal(fuso: string): string {
+  if (fuso === "Atlantic/Azores") return "PT-AC";
+  if (fuso === "Atlantic/Madeira") return "PT-MA";
+  return "PT";
+}
+
+function valorQR(valor: number): string {
+  return valor.toFixed(2);
+}
+
+/**
+ * Conteúdo do código QR impresso no documento
+ */
+export function gerarCodigoQR(dados: {
+  nifEmitente: string;
+  nifAdquirente?: string | null;
+  paisAdquirente?: string | null;
+  tipoDocumento: TipoDocumentoFiscal;
+  anulado?: boolean;
+  dataDocumento: string; // AAAA-MM-DD
+  numeroDocumento: string;
+  atcud: string;
+  espacoFiscal?: string; // PT, PT-AC ou PT-MA
+  resumoIVA: ResumoIVA[];
+  valorTotal: number;
+  hash: string | null;
+}): string {
+  const isento = { base: 0 };
+  const reduzida = { base: 0, iva: 0 };
+  const intermedia = { base: 0, iva: 0 };
+  const normal = { base: 0, iva: 0 };
+
+  const escaloes = { RED: reduzida, INT: intermedia, NOR: normal };
+
+  for (const linha of dados.resumoIVA) {
+    const codigo = codigoTaxaIVA(linha.taxa);
+    if (codigo === "ISE") isento.base += linha.base;
+    else {
+      escaloes[codigo].base += linha.base;
+      escaloes[codigo].iva += linha.iva;
+    }
+  }
+
+  const totalIVA = dados.resumoIVA.reduce((s, l) => s + l.iva, 0);
+
+  const campos: [string, string][] = [
+    ["A", dados.nifEmitente],
+    ["B", dados.nifAdquirente || NIF_CONSUMIDOR_FINAL],
+    ["C", dados.paisAdquirente || "PT"],
+    ["D", dados.tipoDocumento],
+    ["E", dados.anulado ? "A" : "N"],
+    ["F", dados.dataDocumento.replace(/-/g, "")],
+    ["G", dados.numeroDocumento],
+    ["H", dados.atcud],
+    ["I1", dados.espacoFiscal || "PT"],
+  ];
+
+  if (isento.base) campos.push(["I2", valorQR(isento.base)]);
+  if (reduzida.base) campos.push(["I3", valorQR(reduzida.base)], ["I4", valorQR(reduzida.iva)]);
+  if (intermedia.base) campos.push(["I5", valorQR(intermedia.base)], ["I6", valorQR(intermedia.iva)]);
+  if (normal.base) campos.push(["I7", valorQR(normal.base)], ["I8", valorQR(normal.iva)]);
+
+  campos.push(
+    ["N", valorQR(totalIVA)],
+    ["O", valorQR(dados.valorTotal)],
+    ["Q", codigoHash(dados.hash)],
+    ["R", ENV.atNumeroCertificado]
+  );
+
+  return campos.map(([campo, valor]) => `${campo}:${valor}`).join("*");
+}
+
+// ============================================
+// GESTÃO DE SÉRIES
+// ============================================
+
+/**
+ * Listar séries da clínica
+ */
+export async function listarSeries(clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(seriesDocumentos)
+    .where(eq(seriesDocumentos.clinicaId, clinicaId))
+    .orderBy(asc(seriesDocumentos.tipoDocumento), asc(seriesDocumentos.id));
+}
+
+/**
+ * Registar uma série comunicada à AT
+ * A nova série passa a ser a ativa do seu tipo (a anterior deixa de ser usada)
+ */
+export async function registarSerie(dados: {
+  clinicaId: number;
+  tipoDocumento: TipoDocumentoFiscal;
+  serie: string;
+  codigoValidacao: string;
+  numeroInicial?: number;
+}): Promise<SerieDocumento> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const serie = dados.serie.trim();
+  const codigoValidacao = dados.codigoValidacao.trim().toUpperCase();
+  const numeroInicial = dados.numeroInicial ?? 1;
+
+  if (!/^[A-Za-z0-9_.-]{1,35}$/.test(serie)) {
+    throw new Error("Identificador de série inválido (apenas letras, números, '_', '.' e '-')");
+  }
+  if (!/^[A-Z0-9]{8,}$/.test(codigoValidacao)) {
+    throw new Error("Código de validação inválido (mínimo 8 letras ou números, atribuído pela AT)");
+  }
+  if (numeroInicial < 1) throw new Error("O número inicial deve ser positivo");
+
+  return await db.transaction(async tx => {
+    const [existente] = await tx
+      .select({ id: seriesDocumentos.id })
+      .from(seriesDocumentos)
+      .where(
+        and(
+          eq(seriesDocumentos.clinicaId, dados.clinicaId),
+          eq(seriesDocumentos.tipoDocumento, dados.tipoDocumento),
+          eq(seriesDocumentos.serie, serie)
+        )
+      )
+      .limit(1);
+
+    if (existente) throw new Error(`A série ${dados.tipoDocumento} ${serie} já está registada`);
+
+    await tx
+      .update(seriesDocumentos)
+      .set({ ativa: false, updatedAt: new Date() })
+      .where(
+        and(
+          eq(seriesDocumentos.clinicaId, dados.clinicaId),
+          eq(seriesDocumentos.tipoDocumento, dados.tipoDocumento),
+          eq(seriesDocumentos.ativa, true)
+        )
+      );
+
+    const [nova] = await tx
+      .insert(seriesDocumentos)
+      .values({
+        clinicaId: dados.clinicaId,
+        tipoDocumento: dados.tipoDocumento,
+        serie,
+        codigoValidacao,
+        numeroInicial,
+        ultimoNumero: numeroInicial - 1,
+      })
+      .returning();
+
+    return nova;
+  });
+}
+
+/**
+ * Desativar uma série (deixa de ser possível emitir documentos nela)
+ */
+export async function desativarSerie(serieId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [serie] = await db
+    .update(seriesDocumentos)
+    .set({ ativa: false, updatedAt: new Date() })
+    .where(and(eq(seriesDocumentos.id, serieId), eq(seriesDocumentos.clinicaId, clinicaId)))
+    .returning();
+
+  if (!serie) throw new Error("Série não encontrada");
+  return serie;
+}
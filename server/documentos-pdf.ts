@@ -0,0 +1,949 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { getDb } from "./db";
+import { clinicas, faturas, itensFatura, pagamentosFatura, utentes } from "../drizzle/schema";
+import { itensNotaCredito, notasCredito } from "../drizzle/schema-faturacao";
+import { storagePut } from "./storage";
+import { storageLocalPut } from "./storage-local";
+import { emailMarketingService } from "./email-marketing-service";
+import { whatsappService } from "./whatsapp-service";
+import { chaveDia, formatarDataCurta } from "./fuso-horario";
+import { extratoContaCorrente } from "./conta-corrente";
+import { obterLiquidacao } from "./comissoes";
+import { getRelatorioAntiguidadeSaldos, linhasAntiguidadeSaldos, type AgrupamentoAntiguidade } from "./relatorios";
+import {
+  MOTIVOS_ISENCAO_IVA,
+  NIF_CONSUMIDOR_FINAL,
+  TIPOS_DOCUMENTO,
+  espacoFiscal,
+  gerarCodigoQR,
+  mensagemCertificacao,
+  resumoIVA,
+  totaisDocumento,
+  type TipoDocumentoFiscal,
+} from "./documentos-fiscais";
+import { and, eq, inArray } from "drizzle-orm";
+
+/**
+ * PDF dos Documentos de Faturação
+ * Faturas (FT, FS, FR), notas de crédito e recibos com os elementos obrigatórios: dados do
+ * emitente e do adquirente, linhas, IVA por taxa (ou motivo de isenção), ATCUD, código QR e
+ * menção do programa certificado
+ *
+ * - O PDF é guardado no storage e o URL fica no documento (pdfUrl / reciboPdfUrl); como os
+ *   documentos emitidos não mudam, só é gerado de novo a pedido
+ * - Pode ser enviado ao utente por email (anexo) ou WhatsApp (link do documento)
+ * - O extrato da conta corrente, a liquidação de comissões dos dentistas e a antiguidade de saldos
+ *   não são documentos fiscais: são gerados a pedido e não são guardados
+ */
+
+export type TipoDocumentoPdf = "fatura" | "nota_credito" | "recibo";
+
+type Clinica = typeof clinicas.$inferSelect;
+type Utente = typeof utentes.$inferSelect;
+
+const METODOS_PAGAMENTO: Record<typeof pagamentosFatura.$inferSelect["metodoPagamento"], string> = {
+  dinheiro: "Numerário",
+  cartao: "Cartão",
+  transferencia: "Transferência bancária",
+  mbway: "MB WAY",
+  multibanco: "Multibanco",
+  outro: "Outro",
+};
+
+/**
+ * Conteúdo de um documento a imprimir
+ */
+interface DadosDocumentoPdf {
+  tipoDocumento: TipoDocumentoFiscal;
+  numero: string;
+  dataEmissao: string;
+  dataVencimento?: string;
+  clinica: Clinica;
+  utente: Utente;
+  linhas: {
+    descricao: string;
+    quantidade: number;
+    precoUnitario: number;
+    taxaIVA: number | null; // null nos recibos
+    total: number;
+  }[];
+  totais: [string, number, boolean?][]; // Rótulo, valor, destaque
+  resumoIVA: ReturnType<typeof resumoIVA>;
+  referencias: string[]; // Ex: fatura retificada, motivo, método de pagamento
+  observacoes?: string | null;
+  atcud: string | null;
+  codigoQR: string | null;
+  hash: string | null;
+}
+
+/**
+ * Documento carregado da base de dados, com o URL do PDF já gerado
+ */
+interface DocumentoCarregado {
+  dados: DadosDocumentoPdf;
+  pdfUrl: string | null;
+  guardarUrl: (url: string) => Promise<void>;
+}
+
+function valor(texto: string | number | null | undefined): number {
+  return parseFloat(texto?.toString() || "0");
+}
+
+function moeda(quantia: number): string {
+  return `${quantia.toLocaleString("pt-PT", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} €`;
+}
+
+/**
+ * Totais impressos: o desconto é mostrado sem IVA, para que total ilíquido - desconto + IVA = total
+ */
+function totaisImpressos(
+  documento: { subtotal: string; valorIVA: string; valorTotal: string },
+  rotuloTotal: string
+): [string, number, boolean?][] {
+  const desconto = valor(documento.subtotal) + valor(documento.valorIVA) - valor(documento.valorTotal);
+
+  const totais: [string, number, boolean?][] = [["Total ilíquido", valor(documento.subtotal)]];
+  if (desconto >= 0.01) totais.push(["Desconto", -desconto]);
+  totais.push(["IVA", valor(documento.valorIVA)], [rotuloTotal, valor(documento.valorTotal), true]);
+  return totais;
+}
+
+function morada(entidade: { morada: string | null; codigoPostal: string | null; cidade: string | null }): string[] {
+  const localidade = [entidade.codigoPostal, entidade.cidade].filter(Boolean).join(" ");
+  return [entidade.morada, localidade].filter((linha): linha is string => !!linha);
+}
+
+/**
+ * Logótipo da clínica (PNG ou JPEG); sem logótipo válido o documento sai sem ele
+ */
+async function obterLogotipo(logoUrl: string | null): Promise<Buffer | null> {
+  if (!logoUrl) return null;
+
+  try {
+    const response = await fetch(logoUrl);
+    if (!response.ok) return null;
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    console.error("Erro ao obter logótipo da clínica:", error);
+    return null;
+  }
+}
+
+// ============================================
+// CARREGAR DOCUMENTOS
+// ============================================
+
+async function carregarFatura(faturaId: number, clinicaId: number): Promise<DocumentoCarregado> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [resultado] = await db
+    .select({ fatura: faturas, utente: utentes, clinica: clinicas })
+    .from(faturas)
+    .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+    .innerJoin(clinicas, eq(faturas.clinicaId, clinicas.id))
+    .where(and(eq(faturas.id, faturaId), eq(faturas.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!resultado) throw new Error("Fatura não encontrada");
+
+  const { fatura, utente, clinica } = resultado;
+  if (fatura.estado === "rascunho") throw new Error("Não é possível gerar o PDF de um rascunho");
+
+  const itens = await db
+    .select()
+    .from(itensFatura)
+    .where(eq(itensFatura.faturaId, faturaId))
+    .orderBy(itensFatura.id);
+
+  const fuso = clinica.fusoHorario;
+
+  const referencias: string[] = [];
+  if (fatura.tipoDocumento === "FR") {
+    const [pagamento] = await db
+      .select({ metodoPagamento: pagamentosFatura.metodoPagamento })
+      .from(pagamentosFatura)
+      .where(eq(pagamentosFatura.faturaId, faturaId))
+      .limit(1);
+    if (pagamento) referencias.push(`Pagamento: ${METODOS_PAGAMENTO[pagamento.metodoPagamento]}`);
+  }
+
+  return {
+    dados: {
+      tipoDocumento: fatura.tipoDocumento,
+      numero: fatura.numeroFatura,
+      dataEmissao: formatarDataCurta(fatura.dataFatura, fuso),
+      dataVencimento: fatura.dataVencimento ? formatarDataCurta(fatura.dataVencimento, fuso) : undefined,
+      clinica,
+      utente,
+      linhas: itens.map(item => ({
+        descricao: item.descricao,
+        quantidade: item.quantidade,
+        precoUnitario: valor(item.precoUnitario),
+        taxaIVA: valor(item.taxaIVA),
+        total: valor(item.precoTotal),
+      })),
+      totais: totaisImpressos(fatura, "Total"),
+      resumoIVA: resumoIVA(totaisDocumento(fatura, itens)),
+      referencias,
+      observacoes: fatura.observacoes,
+      atcud: fatura.atcud,
+      codigoQR: fatura.codigoQR,
+      hash: fatura.hash,
+    },
+    pdfUrl: fatura.pdfUrl,
+    guardarUrl: async url => {
+      await db.update(faturas).set({ pdfUrl: url, updatedAt: new Date() }).where(eq(faturas.id, faturaId));
+    },
+  };
+}
+
+async function carregarNotaCredito(notaCreditoId: number, clinicaId: number): Promise<DocumentoCarregado> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [resultado] = await db
+    .select({ notaCredito: notasCredito, fatura: faturas, utente: utentes, clinica: clinicas })
+    .from(notasCredito)
+    .innerJoin(faturas, eq(notasCredito.faturaId, faturas.id))
+    .innerJoin(utentes, eq(notasCredito.utenteId, utentes.id))
+    .innerJoin(clinicas, eq(notasCredito.clinicaId, clinicas.id))
+    .where(and(eq(notasCredito.id, notaCreditoId), eq(notasCredito.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!resultado) throw new Error("Nota de crédito não encontrada");
+
+  const { notaCredito, fatura, utente, clinica } = resultado;
+
+  const itens = await db
+    .select()
+    .from(itensNotaCredito)
+    .where(eq(itensNotaCredito.notaCreditoId, notaCreditoId))
+    .orderBy(itensNotaCredito.id);
+
+  const fuso = clinica.fusoHorario;
+
+  const totais = totaisImpressos(notaCredito, "Total creditado");
+  if (valor(notaCredito.valorReembolsado) > 0) totais.push(["Reembolsado", valor(notaCredito.valorReembolsado)]);
+
+  return {
+    dados: {
+      tipoDocumento: "NC",
+      numero: notaCredito.numero,
+      dataEmissao: formatarDataCurta(notaCredito.dataEmissao, fuso),
+      clinica,
+      utente,
+      linhas: itens.map(item => ({
+        descricao: item.descricao,
+        quantidade: item.quantidade,
+        precoUnitario: valor(item.precoUnitario),
+        taxaIVA: valor(item.taxaIVA),
+        total: valor(item.precoTotal),
+      })),
+      totais,
+      resumoIVA: resumoIVA(totaisDocumento(notaCredito, itens)),
+      referencias: [
+        `Documento retificado: ${fatura.numeroFatura} de ${formatarDataCurta(fatura.dataFatura, fuso)}`,
+        `Motivo: ${notaCredito.motivo}`,
+      ],
+      atcud: notaCredito.atcud,
+      codigoQR: notaCredito.codigoQR,
+      hash: notaCredito.hash,
+    },
+    pdfUrl: notaCredito.pdfUrl,
+    guardarUrl: async url => {
+      await db
+        .update(notasCredito)
+        .set({ pdfUrl: url, updatedAt: new Date() })
+        .where(eq(notasCredito.id, notaCreditoId));
+    },
+  };
+}
+
+async function carregarRecibo(pagamentoId: number, clinicaId: number): Promise<DocumentoCarregado> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [resultado] = await db
+    .select({ pagamento: pagamentosFatura, fatura: faturas, utente: utentes, clinica: clinicas })
+    .from(pagamentosFatura)
+    .innerJoin(faturas, eq(pagamentosFatura.faturaId, faturas.id))
+    .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+    .innerJoin(clinicas, eq(faturas.clinicaId, clinicas.id))
+    .where(and(eq(pagamentosFatura.id, pagamentoId), eq(faturas.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!resultado) throw new Error("Pagamento não encontrado");
+
+  const { pagamento, utente, clinica } = resultado;
+  const numeroRecibo = pagamento.numeroRecibo;
+  if (!numeroRecibo) throw new Error("Este pagamento não tem recibo emitido");
+
+  // O mesmo recibo pode liquidar várias faturas (recebimentos da conta corrente)
+  const linhasRecibo = await db
+    .select({ pagamento: pagamentosFatura, fatura: faturas })
+    .from(pagamentosFatura)
+    .innerJoin(faturas, eq(pagamentosFatura.faturaId, faturas.id))
+    .where(and(eq(pagamentosFatura.numeroRecibo, numeroRecibo), eq(faturas.clinicaId, clinicaId)))
+    .orderBy(pagamentosFatura.id);
+
+  const fuso = clinica.fusoHorario;
+  const quantia = linhasRecibo.reduce((s, l) => s + valor(l.pagamento.valor), 0);
+
+  // O recibo não é assinado nem guarda o código QR: é calculado na impressão
+  const codigoQR = pagamento.atcud && clinica.nif
+    ? gerarCodigoQR({
+        nifEmitente: clinica.nif,
+        nifAdquirente: utente.nif,
+        paisAdquirente: utente.pais,
+        tipoDocumento: "RC",
+        dataDocumento: chaveDia(pagamento.dataPagamento, fuso),
+        numeroDocumento: numeroRecibo,
+        atcud: pagamento.atcud,
+        espacoFiscal: espacoFiscal(fuso),
+        resumoIVA: [],
+        valorTotal: quantia,
+        hash: null,
+      })
+    : null;
+
+  const referencias = [`Pagamento: ${METODOS_PAGAMENTO[pagamento.metodoPagamento]}`];
+  if (pagamento.referencia) referencias.push(`Referência: ${pagamento.referencia}`);
+
+  return {
+    dados: {
+      tipoDocumento: "RC",
+      numero: numeroRecibo,
+      dataEmissao: formatarDataCurta(pagamento.dataPagamento, fuso),
+      clinica,
+      utente,
+      linhas: linhasRecibo.map(({ pagamento: linha, fatura }) => ({
+        descricao: `Pagamento da fatura ${fatura.numeroFatura} de ${formatarDataCurta(fatura.dataFatura, fuso)} (total ${moeda(valor(fatura.valorTotal))})`,
+        quantidade: 1,
+        precoUnitario: valor(linha.valor),
+        taxaIVA: null,
+        total: valor(linha.valor),
+      })),
+      totais: [["Total recebido", quantia, true]],
+      resumoIVA: [],
+      referencias,
+      observacoes: pagamento.observacoes,
+      atcud: pagamento.atcud,
+      codigoQR,
+      hash: null,
+    },
+    pdfUrl: pagamento.reciboPdfUrl,
+    guardarUrl: async url => {
+      await db
+        .update(pagamentosFatura)
+        .set({ reciboPdfUrl: url })
+        .where(inArray(pagamentosFatura.id, linhasRecibo.map(l => l.pagamento.id)));
+    },
+  };
+}
+
+async function carregarDocumento(tipo: TipoDocumentoPdf, id: number, clinicaId: number) {
+  if (tipo === "fatura") return await carregarFatura(id, clinicaId);
+  if (tipo === "nota_credito") return await carregarNotaCredito(id, clinicaId);
+  return await carregarRecibo(id, clinicaId);
+}
+
+// ============================================
+// RENDERIZAÇÃO
+// ============================================
+
+/**
+ * Desenhar o documento em A4 (pdfkit)
+ */
+/**
+ * Novo documento A4; o conteúdo fica disponível quando o documento é fechado (doc.end())
+ */
+function novoPdf(titulo: string) {
+  const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: titulo } });
+  const partes: Buffer[] = [];
+  doc.on("data", parte => partes.push(parte));
+  const concluido = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(partes)));
+    doc.on("error", reject);
+  });
+
+  return { doc, concluido };
+}
+
+/**
+ * Cabeçalho com o logótipo e os dados da clínica
+ */
+async function desenharEmitente(doc: PDFKit.PDFDocument, clinica: Clinica) {
+  const logotipo = await obterLogotipo(clinica.logoUrl);
+  const largura = doc.page.width - 100;
+
+  if (logotipo) {
+    try {
+      doc.image(logotipo, 50, 45, { fit: [140, 60] });
+    } catch {
+      // Formato de imagem não suportado: segue sem logótipo
+    }
+  }
+
+  doc.font("Helvetica-Bold").fontSize(12).text(clinica.nome, 300, 45, { width: largura - 250, align: "right" });
+  doc.font("Helvetica").fontSize(9);
+  for (const linha of morada(clinica)) doc.text(linha, { width: largura - 250, align: "right" });
+  doc.text(`NIF: ${clinica.nif || "-"}`, { width: largura - 250, align: "right" });
+  if (clinica.telemovel) doc.text(`Tel.: ${clinica.telemovel}`, { width: largura - 250, align: "right" });
+  if (clinica.email) doc.text(clinica.email, { width: largura - 250, align: "right" });
+}
+
+async function renderizarDocumento(dados: DadosDocumentoPdf): Promise<Buffer> {
+  const qr = dados.codigoQR
+    ? await QRCode.toBuffer(dados.codigoQR, { errorCorrectionLevel: "M", margin: 0, width: 200 })
+    : null;
+
+  const { doc, concluido } = novoPdf(dados.numero);
+  const esquerda = 50;
+  const largura = doc.page.width - 100;
+
+  const { clinica, utente } = dados;
+  await desenharEmitente(doc, clinica);
+
+  // Identificação do documento
+  let y = Math.max(doc.y, 115) + 20;
+  doc.font("Helvetica-Bold").fontSize(16).text(`${TIPOS_DOCUMENTO[dados.tipoDocumento]} ${dados.numero}`, esquerda, y);
+  doc.font("Helvetica").fontSize(9).text("Original", { continued: false });
+  if (dados.atcud) doc.text(`ATCUD: ${dados.atcud}`);
+  doc.text(`Data: ${dados.dataEmissao}`);
+  if (dados.dataVencimento) doc.text(`Vencimento: ${dados.dataVencimento}`);
+
+  // Adquirente
+  doc.font("Helvetica-Bold").fontSize(10).text("Exmo.(a) Sr.(a)", 320, y);
+  doc.font("Helvetica").fontSize(9);
+  doc.text(utente.nome, 320);
+  for (const linha of morada(utente)) doc.text(linha, 320);
+  doc.text(`NIF: ${utente.nif || `${NIF_CONSUMIDOR_FINAL} (Consumidor final)`}`, 320);
+
+  // Linhas
+  y = Math.max(doc.y, y + 70) + 25;
+  const colunas = [
+    { titulo: "Descrição", x: esquerda, largura: 245, alinhar: "left" as const },
+    { titulo: "Qtd.", x: 300, largura: 40, alinhar: "right" as const },
+    { titulo: "Preço unit.", x: 345, largura: 70, alinhar: "right" as const },
+    { titulo: "IVA", x: 420, largura: 40, alinhar: "right" as const },
+    { titulo: "Total", x: 465, largura: largura + esquerda - 465, alinhar: "right" as const },
+  ];
+
+  doc.font("Helvetica-Bold").fontSize(9);
+  for (const coluna of colunas) {
+    doc.text(coluna.titulo, coluna.x, y, { width: coluna.largura, align: coluna.alinhar });
+  }
+  y += 14;
+  doc.moveTo(esquerda, y).lineTo(esquerda + largura, y).stroke();
+  y += 6;
+
+  doc.font("Helvetica").fontSize(9);
+  for (const linha of dados.linhas) {
+    const altura = doc.heightOfString(linha.descricao, { width: colunas[0].largura });
+    if (y + altura > doc.page.height - 200) {
+      doc.addPage();
+      y = 50;
+    }
+    const valores = [
+      linha.descricao,
+      linha.quantidade.toString(),
+      moeda(linha.precoUnitario),
+      linha.taxaIVA === null ? "" : `${linha.taxaIVA}%`,
+      moeda(linha.total),
+    ];
+    colunas.forEach((coluna, i) => doc.text(valores[i], coluna.x, y, { width: coluna.largura, align: coluna.alinhar }));
+    y += altura + 6;
+  }
+
+  doc.moveTo(esquerda, y).lineTo(esquerda + largura, y).stroke();
+  y += 10;
+
+  // Resumo do IVA por taxa (à esquerda) e totais (à direita)
+  let yResumo = y;
+  if (dados.resumoIVA.length > 0) {
+    doc.font("Helvetica-Bold").fontSize(8);
+    ["Taxa", "Base", "IVA"].forEach((titulo, i) => {
+      doc.text(titulo, esquerda + i * 80, yResumo, { width: 75, align: i === 0 ? "left" : "right" });
+    });
+    yResumo += 12;
+
+    doc.font("Helvetica").fontSize(8);
+    for (const taxa of dados.resumoIVA) {
+      const rotulo = taxa.motivoIsencao ? `${taxa.taxa}% (${taxa.motivoIsencao})` : `${taxa.taxa}%`;
+      [rotulo, moeda(taxa.base), moeda(taxa.iva)].forEach((texto, i) => {
+        doc.text(texto, esquerda + i * 80, yResumo, { width: 75, align: i === 0 ? "left" : "right" });
+      });
+      yResumo += 11;
+    }
+  }
+
+  for (const [rotulo, quantia, destaque] of dados.totais) {
+    doc.font(destaque ? "Helvetica-Bold" : "Helvetica").fontSize(destaque ? 11 : 9);
+    doc.text(rotulo, 320, y, { width: 140, align: "right" });
+    doc.text(moeda(quantia), 465, y, { width: largura + esquerda - 465, align: "right" });
+    y += destaque ? 18 : 14;
+  }
+
+  // Referências, motivos de isenção e observações
+  doc.font("Helvetica").fontSize(9);
+  doc.y = Math.max(y, yResumo) + 10;
+  for (const referencia of dados.referencias) doc.text(referencia, esquerda, doc.y, { width: largura });
+  const motivos = Array.from(new Set(dados.resumoIVA.map(t => t.motivoIsencao).filter((m): m is string => !!m)));
+  for (const motivo of motivos) {
+    doc.text(`Motivo de isenção ${motivo}: ${MOTIVOS_ISENCAO_IVA[motivo]}`, esquerda, doc.y, { width: largura });
+  }
+  if (dados.observacoes) doc.moveDown(0.5).text(dados.observacoes, esquerda, doc.y, { width: largura });
+
+  // Código QR e menção do programa certificado, no rodapé
+  const rodape = doc.page.height - 150;
+  if (qr) doc.image(qr, esquerda, rodape, { width: 90 });
+
+  doc.fontSize(8).text(
+    [
+      dados.atcud ? `ATCUD: ${dados.atcud}` : null,
+      dados.tipoDocumento === "RC" ? null : mensagemCertificacao(dados.hash),
+      dados.tipoDocumento === "RC" ? "Este documento não serve de fatura" : null,
+    ].filter(Boolean).join("\n"),
+    esquerda + 105,
+    rodape + 30,
+    { width: largura - 105 }
+  );
+
+  doc.end();
+  return await concluido;
+}
+
+/**
+ * Gerar o PDF de um documento (sem guardar)
+ */
+export async function gerarPdfDocumento(tipo: TipoDocumentoPdf, id: number, clinicaId: number): Promise<Buffer> {
+  const { dados } = await carregarDocumento(tipo, id, clinicaId);
+  return await renderizarDocumento(dados);
+}
+
+function nomeFicheiro(dados: DadosDocumentoPdf): string {
+  return `${dados.numero.replace(/[^A-Za-z0-9]+/g, "_")}.pdf`;
+}
+
+async function guardarPdf(documento: DocumentoCarregado, conteudo: Buffer): Promise<string> {
+  const chave = `documentos/${documento.dados.clinica.id}/${nomeFicheiro(documento.dados)}`;
+  const { url } = process.env.NODE_ENV === "development"
+    ? await storageLocalPut(chave, conteudo, "application/pdf")
+    : await storagePut(chave, conteudo, "application/pdf");
+
+  await documento.guardarUrl(url);
+  return url;
+}
+
+/**
+ * URL do PDF de um documento, gerando-o se ainda não existir (ou se for pedido de novo)
+ */
+export async function obterPdfDocumento(dados: {
+  tipo: TipoDocumentoPdf;
+  id: number;
+  clinicaId: number;
+  regenerar?: boolean;
+}) {
+  const documento = await carregarDocumento(dados.tipo, dados.id, dados.clinicaId);
+
+  if (documento.pdfUrl && !dados.regenerar) {
+    return { url: documento.pdfUrl, nomeFicheiro: nomeFicheiro(documento.dados) };
+  }
+
+  const conteudo = await renderizarDocumento(documento.dados);
+  const url = await guardarPdf(documento, conteudo);
+
+  return { url, nomeFicheiro: nomeFicheiro(documento.dados) };
+}
+
+/**
+ * Enviar o PDF ao utente por email (anexo) ou WhatsApp (documento)
+ */
+export async function enviarDocumento(dados: {
+  tipo: TipoDocumentoPdf;
+  id: number;
+  clinicaId: number;
+  canal: "email" | "whatsapp";
+}) {
+  const documento = await carregarDocumento(dados.tipo, dados.id, dados.clinicaId);
+  const { clinica, utente } = documento.dados;
+  const titulo = `${TIPOS_DOCUMENTO[documento.dados.tipoDocumento]} ${documento.dados.numero}`;
+  const ficheiro = nomeFicheiro(documento.dados);
+
+  const conteudo = await renderizarDocumento(documento.dados);
+  const url = documento.pdfUrl || await guardarPdf(documento, conteudo);
+
+  if (dados.canal === "email") {
+    if (!utente.email) throw new Error("O utente não tem email registado");
+
+    const messageId = await emailMarketingService.enviarEmailTransacional({
+      to: utente.email,
+      subject: `${titulo} - ${clinica.nome}`,
+      html: `<p>Olá ${utente.nome},</p><p>Segue em anexo o documento ${titulo}.</p><p>Com os melhores cumprimentos,<br>${clinica.nome}</p>`,
+      text: `Olá ${utente.nome},\n\nSegue em anexo o documento ${titulo}.\n\nCom os melhores cumprimentos,\n${clinica.nome}`,
+      anexos: [{ nome: ficheiro, conteudo, tipo: "application/pdf" }],
+    });
+
+    return { success: true, canal: dados.canal, url, messageId };
+  }
+
+  const resultado = await whatsappService.sendDocumentMessage(
+    utente.telemovel,
+    url,
+    ficheiro,
+    `${clinica.nome}: ${titulo}`,
+    clinica.id,
+    utente.id
+  );
+
+  if (!resultado.success) throw new Error(resultado.error || "Erro ao enviar documento por WhatsApp");
+
+  return { success: true, canal: dados.canal, url, messageId: resultado.messageId };
+}
+
+/**
+ * PDF do extrato da conta corrente do utente (movimentos do período e saldo)
+ */
+export async function gerarPdfExtrato(dados: {
+  clinicaId: number;
+  utenteId: number;
+  dataInicio?: Date;
+  dataFim?: Date;
+}): Promise<{ nomeFicheiro: string; conteudo: Buffer }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const extrato = await extratoContaCorrente(dados);
+
+  const [clinica] = await db.select().from(clinicas).where(eq(clinicas.id, dados.clinicaId)).limit(1);
+  if (!clinica) throw new Error("Clínica não encontrada");
+
+  const [utente] = await db.select().from(utentes).where(eq(utentes.id, dados.utenteId)).limit(1);
+  const fuso = clinica.fusoHorario;
+
+  const { doc, concluido } = novoPdf(`Extrato de conta corrente - ${utente.nome}`);
+  const esquerda = 50;
+  const largura = doc.page.width - 100;
+
+  await desenharEmitente(doc, clinica);
+
+  let y = Math.max(doc.y, 115) + 20;
+  doc.font("Helvetica-Bold").fontSize(16).text("Extrato de conta corrente", esquerda, y);
+  doc.font("Helvetica").fontSize(9);
+  const periodo = [
+    extrato.dataInicio ? `de ${formatarDataCurta(extrato.dataInicio, fuso)}` : null,
+    extrato.dataFim ? `até ${formatarDataCurta(extrato.dataFim, fuso)}` : null,
+  ].filter(Boolean).join(" ");
+  doc.text(`Período: ${periodo || "todos os movimentos"}`);
+  doc.text(`Emitido em: ${formatarDataCurta(new Date(), fuso)}`);
+
+  doc.font("Helvetica-Bold").fontSize(10).text("Exmo.(a) Sr.(a)", 320, y);
+  doc.font("Helvetica").fontSize(9);
+  doc.text(utente.nome, 320);
+  for (const linha of morada(utente)) doc.text(linha, 320);
+  if (utente.nif) doc.text(`NIF: ${utente.nif}`, 320);
+
+  // Movimentos
+  y = Math.max(doc.y, y + 70) + 25;
+  const colunas = [
+    { titulo: "Data", x: esquerda, largura: 60, alinhar: "left" as const },
+    { titulo: "Descrição", x: 115, largura: 190, alinhar: "left" as const },
+    { titulo: "Débito", x: 310, largura: 70, alinhar: "right" as const },
+    { titulo: "Crédito", x: 385, largura: 70, alinhar: "right" as const },
+    { titulo: "Saldo", x: 460, largura: largura + esquerda - 460, alinhar: "right" as const },
+  ];
+
+  const cabecalho = () => {
+    doc.font("Helvetica-Bold").fontSize(9);
+    for (const coluna of colunas) {
+      doc.text(coluna.titulo, coluna.x, y, { width: coluna.largura, align: coluna.alinhar });
+    }
+    y += 14;
+    doc.moveTo(esquerda, y).lineTo(esquerda + largura, y).stroke();
+    y += 6;
+    doc.font("Helvetica").fontSize(9);
+  };
+
+  const linhas: string[][] = [
+    ["", "Saldo inicial", "", "", moeda(extrato.saldoInicial)],
+    ...extrato.movimentos.map(m => [
+      formatarDataCurta(m.data, fuso),
+      m.descricao,
+      m.debito ? moeda(m.debito) : "",
+      m.credito ? moeda(m.credito) : "",
+      moeda(m.saldo),
+    ]),
+  ];
+
+  cabecalho();
+  for (const valores of linhas) {
+    const altura = doc.heightOfString(valores[1], { width: colunas[1].largura });
+    if (y + altura > doc.page.height - 120) {
+      doc.addPage();
+      y = 50;
+      cabecalho();
+    }
+    colunas.forEach((coluna, i) => doc.text(valores[i], coluna.x, y, { width: coluna.largura, align: coluna.alinhar }));
+    y += altura + 6;
+  }
+
+  doc.moveTo(esquerda, y).lineTo(esquerda + largura, y).stroke();
+  y += 10;
+
+  if (y > doc.page.height - 150) {
+    doc.addPage();
+    y = 50;
+  }
+
+  const totais: [string, number, boolean?][] = [
+    ["Total a débito", extrato.totalDebito],
+    ["Total a crédito", extrato.totalCredito],
+    [extrato.saldoFinal < 0 ? "Saldo a seu favor" : "Saldo em dívida", Math.abs(extrato.saldoFinal), true],
+  ];
+  if (extrato.creditoDisponivel > 0) totais.push(["Crédito por utilizar", extrato.creditoDisponivel]);
+
+  for (const [rotulo, quantia, destaque] of totais) {
+    doc.font(destaque ? "Helvetica-Bold" : "Helvetica").fontSize(destaque ? 11 : 9);
+    doc.text(rotulo, 300, y, { width: 155, align: "right" });
+    doc.text(moeda(quantia), 460, y, { width: largura + esquerda - 460, align: "right" });
+    y += destaque ? 18 : 14;
+  }
+
+  doc.font("Helvetica").fontSize(8).text(
+    "Este documento não serve de fatura nem de recibo",
+    esquerda,
+    doc.page.height - 80,
+    { width: largura, align: "center" }
+  );
+
+  doc.end();
+
+  const nome = utente.nome.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^A-Za-z0-9]+/g, "_");
+  return { nomeFicheiro: `Extrato_${nome}.pdf`, conteudo: await concluido };
+}
+
+/**
+ * PDF da liquidação mensal de comissões de um dentista (fechada ou provisória)
+ */
+export async function gerarPdfLiquidacao(dados: {
+  clinicaId: number;
+  dentistaId: number;
+  periodo: string;
+}): Promise<{ nomeFicheiro: string; conteudo: Buffer }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const liquidacao = await obterLiquidacao(dados);
+
+  const [clinica] = await db.select().from(clinicas).where(eq(clinicas.id, dados.clinicaId)).limit(1);
+  if (!clinica) throw new Error("Clínica não encontrada");
+  const fuso = clinica.fusoHorario;
+
+  const [ano, mes] = liquidacao.periodo.split("-").map(Number);
+  const nomeMes = new Date(Date.UTC(ano, mes - 1, 15)).toLocaleDateString("pt-PT", { month: "long", year: "numeric", timeZone: "UTC" });
+
+  const { doc, concluido } = novoPdf(`Liquidação de comissões - ${liquidacao.dentistaNome} - ${liquidacao.periodo}`);
+  const esquerda = 50;
+  const largura = doc.page.width - 100;
+
+  await desenharEmitente(doc, clinica);
+
+  let y = Math.max(doc.y, 115) + 20;
+  doc.font("Helvetica-Bold").fontSize(16).text("Liquidação de comissões", esquerda, y);
+  doc.font("Helvetica").fontSize(9);
+  doc.text(`Período: ${nomeMes}`);
+  doc.text(`Comissão devida na ${liquidacao.momentoComissao === "recebimento" ? "data de recebimento" : "data de faturação"}`);
+  doc.text(
+    liquidacao.fechadaEm
+      ? `Fechada em: ${formatarDataCurta(liquidacao.fechadaEm, fuso)}`
+      : `Provisória (emitida em ${formatarDataCurta(new Date(), fuso)})`
+  );
+
+  doc.font("Helvetica-Bold").fontSize(10).text("Médico(a) dentista", 320, y);
+  doc.font("Helvetica").fontSize(9).text(liquidacao.dentistaNome, 320);
+
+  y = Math.max(doc.y, y + 70) + 25;
+  const colunas = [
+    { titulo: "Data", x: esquerda, largura: 55, alinhar: "left" as const },
+    { titulo: "Documento", x: 108, largura: 75, alinhar: "left" as const },
+    { titulo: "Utente / Descrição", x: 186, largura: 150, alinhar: "left" as const },
+    { titulo: "Base", x: 340, largura: 60, alinhar: "right" as const },
+    { titulo: "Custos", x: 403, largura: 55, alinhar: "right" as const },
+    { titulo: "Comissão", x: 461, largura: largura + esquerda - 461, alinhar: "right" as const },
+  ];
+
+  const cabecalho = () => {
+    doc.font("Helvetica-Bold").fontSize(9);
+    for (const coluna of colunas) {
+      doc.text(coluna.titulo, coluna.x, y, { width: coluna.largura, align: coluna.alinhar });
+    }
+    y += 14;
+    doc.moveTo(esquerda, y).lineTo(esquerda + largura, y).stroke();
+    y += 6;
+    doc.font("Helvetica").fontSize(8);
+  };
+
+  cabecalho();
+  for (const linha of liquidacao.linhas) {
+    const descricao = [linha.utente, linha.descricao].filter(Boolean).join(" - ");
+    const altura = doc.heightOfString(descricao, { width: colunas[2].largura });
+    if (y + altura > doc.page.height - 120) {
+      doc.addPage();
+      y = 50;
+      cabecalho();
+    }
+
+    const valores = [
+      formatarDataCurta(new Date(`${linha.data}T12:00:00Z`), "UTC"),
+      linha.documento,
+      descricao,
+      moeda(valor(linha.base)),
+      valor(linha.custos) ? moeda(valor(linha.custos)) : "",
+      moeda(valor(linha.comissao)),
+    ];
+    colunas.forEach((coluna, i) => doc.text(valores[i], coluna.x, y, { width: coluna.largura, align: coluna.alinhar }));
+    y += altura + 5;
+  }
+
+  if (liquidacao.linhas.length === 0) {
+    doc.text("Sem movimentos no período", esquerda, y, { width: largura });
+    y += 14;
+  }
+
+  doc.moveTo(esquerda, y).lineTo(esquerda + largura, y).stroke();
+  y += 10;
+
+  if (y > doc.page.height - 150) {
+    doc.addPage();
+    y = 50;
+  }
+
+  const totais: [string, number, boolean?][] = [
+    ["Total faturado (sem IVA)", valor(liquidacao.totalBase)],
+    ["Custos de laboratório e materiais", valor(liquidacao.totalCustos)],
+    ["Valor da clínica", valor(liquidacao.totalClinica)],
+    ["Comissão a pagar", valor(liquidacao.totalComissao), true],
+  ];
+
+  for (const [rotulo, quantia, destaque] of totais) {
+    doc.font(destaque ? "Helvetica-Bold" : "Helvetica").fontSize(destaque ? 11 : 9);
+    doc.text(rotulo, 250, y, { width: 205, align: "right" });
+    doc.text(moeda(quantia), 460, y, { width: largura + esquerda - 460, align: "right" });
+    y += destaque ? 18 : 14;
+  }
+
+  doc.font("Helvetica").fontSize(8).text(
+    "Documento interno: não serve de fatura nem de recibo",
+    esquerda,
+    doc.page.height - 80,
+    { width: largura, align: "center" }
+  );
+
+  doc.end();
+
+  const nome = liquidacao.dentistaNome.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^A-Za-z0-9]+/g, "_");
+  return { nomeFicheiro: `Comissoes_${nome}_${liquidacao.periodo}.pdf`, conteudo: await concluido };
+}
+
+/**
+ * PDF da antiguidade de saldos (contas a receber por escalão de atraso) num agrupamento
+ */
+export async function gerarPdfAntiguidadeSaldos(
+  clinicaId: number,
+  agrupamento: AgrupamentoAntiguidade,
+  filtros: Parameters<typeof getRelatorioAntiguidadeSaldos>[1] = {}
+): Promise<{ nomeFicheiro: string; conteudo: Buffer }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const relatorio = await getRelatorioAntiguidadeSaldos(clinicaId, filtros);
+  if (!relatorio) throw new Error("Database not available");
+
+  const [clinica] = await db.select().from(clinicas).where(eq(clinicas.id, clinicaId)).limit(1);
+  if (!clinica) throw new Error("Clínica não encontrada");
+
+  const titulos = { utente: "por utente", dentista: "por dentista", pagador: "por pagador", documento: "por documento" };
+  const { doc, concluido } = novoPdf(`Antiguidade de saldos ${titulos[agrupamento]} - ${relatorio.data}`);
+  const esquerda = 50;
+  const largura = doc.page.width - 100;
+
+  await desenharEmitente(doc, clinica);
+
+  let y = Math.max(doc.y, 115) + 20;
+  doc.font("Helvetica-Bold").fontSize(16).text("Antiguidade de saldos", esquerda, y);
+  doc.font("Helvetica").fontSize(9);
+  doc.text(`Valores em dívida ${titulos[agrupamento]}, à data de ${relatorio.data.split("-").reverse().join("/")}`);
+  doc.text("Escalões pelos dias de atraso desde o vencimento");
+
+  y = doc.y + 25;
+  const colunaValor = 57;
+  const colunas = [
+    { titulo: agrupamento === "documento" ? "Documento" : "Nome", x: esquerda, largura: 150, alinhar: "left" as const },
+    ...[...relatorio.escaloes.map(e => e.rotulo), "Total"].map((titulo, i) => ({
+      titulo,
+      x: esquerda + 153 + i * colunaValor,
+      largura: colunaValor - 3,
+      alinhar: "right" as const,
+    })),
+  ];
+
+  const cabecalho = () => {
+    doc.font("Helvetica-Bold").fontSize(8);
+    for (const coluna of colunas) {
+      doc.text(coluna.titulo, coluna.x, y, { width: coluna.largura, align: coluna.alinhar });
+    }
+    y += 22;
+    doc.moveTo(esquerda, y).lineTo(esquerda + largura, y).stroke();
+    y += 6;
+    doc.font("Helvetica").fontSize(8);
+  };
+
+  const quantia = (texto: string) => (valor(texto) ? moeda(valor(texto)) : "-");
+
+  cabecalho();
+  for (const linha of linhasAntiguidadeSaldos(relatorio, agrupamento)) {
+    const altura = doc.heightOfString(linha.rotulo, { width: colunas[0].largura }) + 10;
+    if (y + altura > doc.page.height - 120) {
+      doc.addPage();
+      y = 50;
+      cabecalho();
+    }
+
+    doc.font("Helvetica").fontSize(8).text(linha.rotulo, colunas[0].x, y, { width: colunas[0].largura });
+    doc.fontSize(7).fillColor("#666666").text(linha.detalhe, colunas[0].x, doc.y, { width: colunas[0].largura });
+    doc.fillColor("black").fontSize(8);
+    linha.valores.forEach((texto, i) => {
+      const coluna = colunas[i + 1];
+      doc.text(quantia(texto), coluna.x, y, { width: coluna.largura, align: coluna.alinhar });
+    });
+    y += altura + 4;
+  }
+
+  if (relatorio.documentos.length === 0) {
+    doc.text("Sem valores em dívida", esquerda, y, { width: largura });
+    y += 14;
+  }
+
+  doc.moveTo(esquerda, y).lineTo(esquerda + largura, y).stroke();
+  y += 8;
+
+  const { totais } = relatorio;
+  doc.font("Helvetica-Bold").fontSize(8).text("Total", colunas[0].x, y, { width: colunas[0].largura });
+  [totais.corrente, totais.de1a30, totais.de31a60, totais.de61a90, totais.mais90, totais.total].forEach((texto, i) => {
+    const coluna = colunas[i + 1];
+    doc.text(quantia(texto), coluna.x, y, { width: coluna.largura, align: coluna.alinhar });
+  });
+
+  doc.font("Helvetica").fontSize(8).text(
+    "Documento interno: não serve de fatura nem de recibo",
+    esquerda,
+    doc.page.height - 80,
+    { width: largura, align: "center" }
+  );
+
+  doc.end();
+
+  return { nomeFicheiro: `Antiguidade_Saldos_${agrupamento}_${relatorio.data}.pdf`, conteudo: await concluido };
+}
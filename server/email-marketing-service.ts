@@ -108,6 +108,15 @@ export interface ResultadoEnvio {
   }[];
 }
 
+/**
+ * Ficheiro anexo a um email transacional
+ */
+export interface AnexoEmail {
+  nome: string;
+  conteudo: Buffer;
+  tipo: string;
+}
+
 /**
  * Analytics de email
  */
@@ -317,6 +326,22 @@ export class EmailMarketingService {
     return resultado;
   }
 
+  /**
+   * Enviar email transacional a um destinatário (ex: códigos de verificação)
+   */
+  async enviarEmailTransacional(params: {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+    anexos?: AnexoEmail[];
+  }): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new Error('Email não configurado');
+    }
+    return await this.enviarEmail(params);
+  }
+
   /**
    * Enviar email individual
    */
@@ -325,6 +350,7 @@ export class EmailMarketingService {
     subject: string;
     html: string;
     text: string;
+    anexos?: AnexoEmail[];
   }): Promise<string> {
     if (this.config.provider === 'resend') {
       return await this.enviarResend(params);
@@ -341,6 +367,7 @@ export class EmailMarketingService {
     subject: string;
     html: string;
     text: string;
+    anexos?: AnexoEmail[];
   }): Promise<string> {
     const response = await axios.post(
       'https://api.resend.com/emails',
@@ -350,6 +377,10 @@ export class EmailMarketingService {
         subject: params.subject,
         html: params.html,
         text: params.text,
+        attachments: params.anexos?.map(anexo => ({
+          filename: anexo.nome,
+          content: anexo.conteudo.toString('base64'),
+        })),
       },
       {
         headers: {
@@ -370,6 +401,7 @@ export class EmailMarketingService {
     subject: string;
     html: string;
     text: string;
+    anexos?: AnexoEmail[];
   }): Promise<string> {
     const response = await axios.post(
       'https://api.sendgrid.com/v3/mail/send',
@@ -394,6 +426,12 @@ export class EmailMarketingService {
             value: params.html,
           },
         ],
+        attachments: params.anexos?.map(anexo => ({
+          content: anexo.conteudo.toString('base64'),
+          filename: anexo.nome,
+          type: anexo.tipo,
+          disposition: 'attachment',
+        })),
       },
       {
         headers: {
@@ -0,0 +1,223 @@
+import { getDb, type Tx } from "./db";
+import { clinicas, consultas, utilizadoresClinica, type User } from "../drizzle/schema";
+import { historicoEstadosConsulta } from "../drizzle/schema-agenda";
+import { atualizarItensConsulta } from "./planos-tratamento";
+import { and, eq, desc } from "drizzle-orm";
+
+/**
+ * Ciclo de Vida das Consultas
+ * Transições de estado permitidas, quem as pode efetuar e registo no histórico
+ *
+ * agendada → confirmada → chegou (check-in) → em_curso (na cadeira) → concluida
+ * Em qualquer momento antes do check-in: cancelada ou faltou
+ */
+
+export type EstadoConsulta = typeof consultas.$inferSelect["estado"];
+
+export type PapelUtilizador = "proprietario" | "admin" | "dentista" | "rececionista";
+
+/**
+ * "sistema" identifica alterações automáticas (ex: resposta do utente por WhatsApp, jobs agendados)
+ */
+export type PapelTransicao = PapelUtilizador | "sistema";
+
+const EQUIPA: PapelTransicao[] = ["proprietario", "admin", "dentista", "rececionista"];
+const RECECAO: PapelTransicao[] = ["proprietario", "admin", "rececionista"];
+const CLINICOS: PapelTransicao[] = ["proprietario", "admin", "dentista"];
+const GESTAO: PapelTransicao[] = ["proprietario", "admin"];
+
+/**
+ * Transições permitidas: estado atual → novo estado → papéis autorizados
+ */
+export const TRANSICOES_CONSULTA: Record<EstadoConsulta, Partial<Record<EstadoConsulta, PapelTransicao[]>>> = {
+  agendada: {
+    confirmada: [...EQUIPA, "sistema"],
+    chegou: EQUIPA,
+    cancelada: [...EQUIPA, "sistema"],
+    faltou: [...RECECAO, "sistema"],
+  },
+  confirmada: {
+    agendada: EQUIPA,
+    chegou: EQUIPA,
+    cancelada: [...EQUIPA, "sistema"],
+    faltou: [...RECECAO, "sistema"],
+  },
+  chegou: {
+    confirmada: EQUIPA, // Check-in anulado
+    em_curso: CLINICOS,
+    cancelada: EQUIPA, // Utente saiu sem ser atendido
+  },
+  em_curso: {
+    chegou: CLINICOS, // Voltou à sala de espera
+    concluida: CLINICOS,
+  },
+  concluida: {
+    em_curso: GESTAO, // Reabrir consulta concluída por engano
+  },
+  faltou: {
+    chegou: RECECAO, // Chegou atrasado
+    agendada: GESTAO, // Falta marcada por engano
+  },
+  cancelada: {},
+};
+
+const NOMES_ESTADO: Record<EstadoConsulta, string> = {
+  agendada: "agendada",
+  confirmada: "confirmada",
+  chegou: "com check-in",
+  em_curso: "em curso",
+  concluida: "concluída",
+  cancelada: "cancelada",
+  faltou: "marcada como falta",
+};
+
+/**
+ * Campo de data preenchido ao entrar em cada estado
+ */
+const DATAS_ESTADO: Partial<Record<EstadoConsulta, "confirmadaEm" | "chegadaEm" | "iniciadaEm" | "concluidaEm" | "canceladaEm">> = {
+  confirmada: "confirmadaEm",
+  chegou: "chegadaEm",
+  em_curso: "iniciadaEm",
+  concluida: "concluidaEm",
+  cancelada: "canceladaEm",
+};
+
+/**
+ * Estados para os quais é possível passar a partir do estado atual, para um papel
+ */
+export function transicoesPossiveis(estado: EstadoConsulta, papel: PapelTransicao): EstadoConsulta[] {
+  return (Object.entries(TRANSICOES_CONSULTA[estado]) as [EstadoConsulta, PapelTransicao[]][])
+    .filter(([, papeis]) => papeis.includes(papel))
+    .map(([destino]) => destino);
+}
+
+/**
+ * Validar uma transição de estado (sem acesso à base de dados)
+ */
+export function validarTransicao(
+  de: EstadoConsulta,
+  para: EstadoConsulta,
+  papel: PapelTransicao
+): { valido: boolean; erro?: string } {
+  const papeis = TRANSICOES_CONSULTA[de][para];
+
+  if (!papeis) {
+    return {
+      valido: false,
+      erro: `Não é possível passar uma consulta ${NOMES_ESTADO[de]} para ${NOMES_ESTADO[para]}`,
+    };
+  }
+
+  if (!papeis.includes(papel)) {
+    return {
+      valido: false,
+      erro: `Sem permissão para passar uma consulta ${NOMES_ESTADO[de]} para ${NOMES_ESTADO[para]}`,
+    };
+  }
+
+  return { valido: true };
+}
+
+/**
+ * Papel do utilizador na clínica
+ * Proprietário da clínica, depois a função em utilizadores_clinica, depois a função global do utilizador
+ */
+export async function obterPapelUtilizador(
+  user: Pick<User, "id" | "role">,
+  clinicaId: number
+): Promise<PapelUtilizador> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [clinica] = await db
+    .select({ proprietarioId: clinicas.proprietarioId })
+    .from(clinicas)
+    .where(eq(clinicas.id, clinicaId))
+    .limit(1);
+  if (clinica?.proprietarioId === user.id) return "proprietario";
+
+  const [membro] = await db
+    .select({ role: utilizadoresClinica.role })
+    .from(utilizadoresClinica)
+    .where(and(
+      eq(utilizadoresClinica.clinicaId, clinicaId),
+      eq(utilizadoresClinica.userId, user.id),
+      eq(utilizadoresClinica.ativo, true)
+    ))
+    .limit(1);
+  if (membro) return membro.role;
+
+  if (user.role === "admin" || user.role === "dentista" || user.role === "rececionista") {
+    return user.role;
+  }
+
+  throw new Error("Sem permissão para alterar consultas desta clínica");
+}
+
+/**
+ * Aplicar uma transição de estado e registá-la no histórico
+ * Corre na transação de quem a chama, para a consulta e o histórico serem gravados juntos. A atualização
+ * só é aplicada se o estado não tiver mudado entretanto, para que duas alterações simultâneas não se sobreponham
+ * `campos` permite gravar outras alterações da consulta na mesma operação
+ */
+export async function transicionarEstadoConsulta(
+  tx: Tx,
+  dados: {
+    consulta: { id: number; clinicaId: number; estado: EstadoConsulta };
+    estado: EstadoConsulta;
+    papel: PapelTransicao;
+    userId: number | null;
+    motivo?: string | null;
+    campos?: Record<string, unknown>;
+  }
+): Promise<void> {
+  const { consulta } = dados;
+
+  const validacao = validarTransicao(consulta.estado, dados.estado, dados.papel);
+  if (!validacao.valido) throw new Error(validacao.erro);
+
+  const agora = new Date();
+  const updates: Record<string, unknown> = { ...dados.campos, estado: dados.estado, updatedAt: agora };
+  const campoData = DATAS_ESTADO[dados.estado];
+  if (campoData) updates[campoData] = agora;
+
+  const atualizadas = await tx
+    .update(consultas)
+    .set(updates)
+    .where(and(eq(consultas.id, consulta.id), eq(consultas.estado, consulta.estado)))
+    .returning({ id: consultas.id });
+
+  if (atualizadas.length === 0) {
+    throw new Error("A consulta foi alterada entretanto. Atualize a agenda e tente novamente.");
+  }
+
+  await tx.insert(historicoEstadosConsulta).values({
+    consultaId: consulta.id,
+    clinicaId: consulta.clinicaId,
+    estadoAnterior: consulta.estado,
+    estadoNovo: dados.estado,
+    userId: dados.userId,
+    papel: dados.papel,
+    motivo: dados.motivo ?? null,
+  });
+
+  // Itens de planos de tratamento agendados nesta consulta
+  await atualizarItensConsulta(tx, consulta.id, dados.estado);
+}
+
+/**
+ * Histórico de estados de uma consulta (mais recente primeiro)
+ */
+export async function obterHistoricoEstados(consultaId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(historicoEstadosConsulta)
+    .where(and(
+      eq(historicoEstadosConsulta.consultaId, consultaId),
+      eq(historicoEstadosConsulta.clinicaId, clinicaId)
+    ))
+    .orderBy(desc(historicoEstadosConsulta.createdAt), desc(historicoEstadosConsulta.id));
+}
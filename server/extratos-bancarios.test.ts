@@ -0,0 +1,169 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { lerExtratoCamt053 } from "./integrations/bancos/camt053";
+import { lerExtratoCSV } from "./integrations/bancos/csv";
+import { lerData, lerValor } from "./integrations/bancos/movimentos";
+
+const IBAN = "PT50003501234567890123456";
+
+// Extrato camt.053 com os lançamentos indicados
+function camt053(lancamentos: string, versao = "001.02"): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.${versao}">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>EXT-1</MsgId><CreDtTm>2026-10-17T08:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>1</Id>
+      <Acct><Id><IBAN>${IBAN}</IBAN></Id></Acct>
+      ${lancamentos}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+}
+
+function lancamento(dados: {
+  montante?: string;
+  indicador?: string;
+  estado?: string;
+  data?: string;
+  detalhes?: string;
+  referencia?: string;
+}): string {
+  return `<Ntry>
+    ${dados.montante === undefined ? "" : `<Amt Ccy="EUR">${dados.montante}</Amt>`}
+    <CdtDbtInd>${dados.indicador ?? "CRDT"}</CdtDbtInd>
+    <Sts>${dados.estado ?? "BOOK"}</Sts>
+    ${dados.data ?? "<BookgDt><Dt>2026-10-16</Dt></BookgDt><ValDt><Dt>2026-10-16</Dt></ValDt>"}
+    <AcctSvcrRef>${dados.referencia ?? "REF-1"}</AcctSvcrRef>
+    ${dados.detalhes ? `<NtryDtls>${dados.detalhes}</NtryDtls>` : ""}
+  </Ntry>`;
+}
+
+describe("extrato camt.053", () => {
+  it("lê um crédito com a referência, o ordenante e o IBAN da conta", () => {
+    const extrato = lerExtratoCamt053(
+      camt053(
+        lancamento({
+          montante: "120.50",
+          detalhes: `<TxDtls>
+            <Refs><EndToEndId>E2E-123</EndToEndId></Refs>
+            <RltdPties><Dbtr><Nm>Maria Silva</Nm></Dbtr><DbtrAcct><Id><IBAN>PT50001000000000000000001</IBAN></Id></DbtrAcct></RltdPties>
+            <RmtInf><Ustrd>FT 2026A/15</Ustrd></RmtInf>
+          </TxDtls>`,
+        })
+      )
+    );
+
+    assert.equal(extrato.formato, "camt053");
+    assert.equal(extrato.iban, IBAN);
+    assert.deepEqual(extrato.movimentos, [
+      {
+        dataMovimento: "2026-10-16",
+        dataValor: "2026-10-16",
+        descricao: "FT 2026A/15",
+        valorCentimos: 12050,
+        referencia: "E2E-123",
+        nomeOrdenante: "Maria Silva",
+        ibanOrdenante: "PT50001000000000000000001",
+      },
+    ]);
+  });
+
+  it("dá um movimento por transação nos lançamentos agrupados e ignora os pendentes", () => {
+    const extrato = lerExtratoCamt053(
+      camt053(
+        lancamento({
+          montante: "75.00",
+          detalhes: `
+            <TxDtls><AmtDtls><TxAmt><Amt Ccy="EUR">50.00</Amt></TxAmt></AmtDtls><RmtInf><Strd><CdtrRefInf><Ref>RF18539007547034</Ref></CdtrRefInf></Strd></RmtInf></TxDtls>
+            <TxDtls><Amt Ccy="EUR">25.00</Amt><RltdPties><Dbtr><Pty><Nm>João Costa</Nm></Pty></Dbtr></RltdPties></TxDtls>`,
+        }) +
+          lancamento({ montante: "10.00", estado: "PDNG", referencia: "REF-2" }) +
+          lancamento({ montante: "5.99", indicador: "DBIT", referencia: "REF-3" }),
+        "001.08"
+      )
+    );
+
+    assert.deepEqual(
+      extrato.movimentos.map(m => [m.valorCentimos, m.referencia, m.nomeOrdenante]),
+      [
+        [5000, "RF18539007547034", null],
+        [2500, "REF-1", "João Costa"],
+        [-599, "REF-3", null],
+      ]
+    );
+  });
+
+  it("recusa lançamentos com montante, data ou indicador ilegível", () => {
+    assert.throws(() => lerExtratoCamt053(camt053(lancamento({ montante: "12,50" }))), /Lançamento REF-1: montante inválido \(12,50\)/);
+    assert.throws(() => lerExtratoCamt053(camt053(lancamento({}))), /Lançamento REF-1: sem montante/);
+    assert.throws(() => lerExtratoCamt053(camt053(lancamento({ montante: "1.00", data: "" }))), /sem data de movimento/);
+    assert.throws(
+      () => lerExtratoCamt053(camt053(lancamento({ montante: "1.00", data: "<BookgDt><Dt>16/10</Dt></BookgDt>" }))),
+      /data inválida/
+    );
+    assert.throws(() => lerExtratoCamt053(camt053(lancamento({ montante: "1.00", indicador: "X" }))), /indicador de crédito\/débito/);
+  });
+
+  it("recusa ficheiros que não são extratos camt.053", () => {
+    assert.throws(() => lerExtratoCamt053("<Document><BkToCstmrDbtCdtNtfctn/></Document>"), /não é um extrato camt.053/);
+  });
+});
+
+describe("extrato CSV", () => {
+  it("encontra a tabela depois das linhas de cabeçalho (débito e crédito em colunas)", () => {
+    const extrato = lerExtratoCSV(
+      [
+        "Consultar saldos e movimentos à ordem",
+        "Conta;PT50 0035 0123 4567 8901 2345 6",
+        "",
+        "Data mov.;Data valor;Descrição;Débito;Crédito;Saldo contabilístico",
+        "15-10-2026;15-10-2026;TRF P/ FORNECEDOR;1.234,56;;10.000,00",
+        '16-10-2026;16-10-2026;"TRF DE MARIA SILVA; FT 2026A/15";;120,50;10.120,50',
+        ";;Saldo final;;;10.120,50",
+      ].join("\r\n")
+    );
+
+    assert.equal(extrato.formato, "cgd");
+    assert.equal(extrato.iban, IBAN);
+    assert.deepEqual(
+      extrato.movimentos.map(m => [m.dataMovimento, m.descricao, m.valorCentimos]),
+      [
+        ["2026-10-15", "TRF P/ FORNECEDOR", -123456],
+        ["2026-10-16", "TRF DE MARIA SILVA; FT 2026A/15", 12050],
+      ]
+    );
+  });
+
+  it("lê o montante com sinal do perfil indicado", () => {
+    const extrato = lerExtratoCSV(
+      [
+        "Data lançamento;Data valor;Descrição;Montante;Saldo",
+        "16-10-2026;16-10-2026;COMPRA;-45,00;100,00",
+        "17.10.2026;17.10.2026;TRF;1 234,56 €;1.334,56",
+      ].join("\n"),
+      "millennium"
+    );
+
+    assert.equal(extrato.formato, "millennium");
+    assert.deepEqual(extrato.movimentos.map(m => [m.dataMovimento, m.valorCentimos]), [
+      ["2026-10-16", -4500],
+      ["2026-10-17", 123456],
+    ]);
+  });
+
+  it("recusa perfis e ficheiros desconhecidos", () => {
+    assert.throws(() => lerExtratoCSV("Data;Descrição;Valor", "banco"), /Perfil de banco desconhecido/);
+    assert.throws(() => lerExtratoCSV("a;b;c\n1;2;3"), /Não foi possível reconhecer o formato/);
+  });
+
+  it("normaliza valores e datas dos bancos", () => {
+    assert.equal(lerValor("1.234,56"), 123456);
+    assert.equal(lerValor("-1234,5"), -123450);
+    assert.equal(lerValor("(12,00)"), -1200);
+    assert.equal(lerValor("abc"), null);
+    assert.equal(lerData("5/3/26"), "2026-03-05");
+    assert.equal(lerData("2026-03-05T10:00:00"), "2026-03-05");
+    assert.equal(lerData("Saldo"), null);
+  });
+});
@@ -0,0 +1,541 @@
+import { createHash } from "crypto";
+import { getDb, type Tx } from "./db";
+import { faturas, utentes } from "../drizzle/schema";
+import {
+  extratosBancarios,
+  movimentosBancarios,
+  type MovimentoBancario,
+  type SugestaoConciliacao,
+} from "../drizzle/schema-faturacao";
+import { dataNoFuso, obterFusoClinica } from "./fuso-horario";
+import { lancarRecebimento } from "./conta-corrente";
+import { lerExtratoCSV } from "./integrations/bancos/csv";
+import { lerExtratoCamt053 } from "./integrations/bancos/camt053";
+import type { ExtratoLido, MovimentoExtrato } from "./integrations/bancos/movimentos";
+import { and, desc, eq, gte, inArray, lte } from "drizzle-orm";
+
+/**
+ * Extratos Bancários e Conciliação
+ * Importação dos extratos da conta da clínica (CSV dos principais bancos ou ISO 20022 camt.053)
+ * para registar as transferências e pagamentos MB WAY sem os introduzir à mão
+ *
+ * - Só os créditos são importados; movimentos repetidos (extratos sobrepostos) são ignorados
+ * - Cada movimento é comparado com as faturas em aberto da clínica: número da fatura no descritivo,
+ *   valor em dívida, NIF do utente e semelhança do nome do ordenante com o nome do utente
+ * - Os movimentos sem fatura clara ficam na fila de revisão (por conciliar ou ambíguos); ao confirmar,
+ *   o pagamento é lançado na conta corrente do utente e imputado à fatura (com recibo)
+ */
+
+const ESTADOS_FATURA_EM_ABERTO: (typeof faturas.$inferSelect)["estado"][] = ["enviada", "parcialmente_paga", "vencida"];
+
+const ESTADOS_POR_REVER: MovimentoBancario["estado"][] = ["por_conciliar", "sugerido", "ambiguo"];
+
+// Pontuação mínima para sugerir uma fatura e diferença mínima para a segunda candidata
+const PONTUACAO_SUGESTAO = 70;
+const DIFERENCA_SUGESTAO = 20;
+const PONTUACAO_MINIMA = 25;
+const MAXIMO_SUGESTOES = 5;
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+/**
+ * Texto em maiúsculas, sem acentos e só com letras, algarismos e espaços
+ */
+function normalizar(texto: string | null | undefined): string {
+  return (texto ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+}
+
+function paresLetras(texto: string): string[] {
+  const compacto = texto.replace(/\s+/g, " ");
+  const pares: string[] = [];
+  for (let i = 0; i < compacto.length - 1; i++) pares.push(compacto.slice(i, i + 2));
+  return pares;
+}
+
+/**
+ * Semelhança entre o nome do utente e o ordenante ou o descritivo (0 a 1): o melhor entre o
+ * coeficiente de Dice dos pares de letras e a proporção dos nomes do utente presentes no texto
+ * (os bancos abreviam e cortam os nomes: "TRF DE MARIA J SILVA")
+ */
+function semelhancaNome(nomeUtente: string, texto: string): number {
+  const nome = normalizar(nomeUtente);
+  const alvo = normalizar(texto);
+  if (!nome || !alvo) return 0;
+
+  const paresNome = paresLetras(nome);
+  const paresAlvo = paresLetras(alvo);
+  const restantes = [...paresAlvo];
+  let comuns = 0;
+  for (const par of paresNome) {
+    const i = restantes.indexOf(par);
+    if (i >= 0) {
+      comuns++;
+      restantes.splice(i, 1);
+    }
+  }
+  const dice = paresNome.length + paresAlvo.length > 0 ? (2 * comuns) / (paresNome.length + paresAlvo.length) : 0;
+
+  const palavrasNome = nome.split(" ").filter(p => p.length > 2);
+  const palavrasAlvo = new Set(alvo.split(" "));
+  const cobertura = palavrasNome.length > 0 ? palavrasNome.filter(p => palavrasAlvo.has(p)).length / palavrasNome.length : 0;
+
+  return Math.max(dice, cobertura);
+}
+
+/**
+ * Expressão que encontra o número da fatura no descritivo, com ou sem separadores e zeros à
+ * esquerda ("FT 2026A/15", "FT2026A-0015", "2026A/15")
+ */
+function expressaoNumeroFatura(numeroFatura: string): RegExp | null {
+  const partes = normalizar(numeroFatura).split(" ").filter(Boolean);
+  if (partes.length === 0) return null;
+
+  const ultima = partes[partes.length - 1];
+  const sequencia = /^\d+$/.test(ultima) ? `0*${Number(ultima)}` : ultima;
+  const meio = partes.slice(0, -1);
+
+  // O tipo de documento (FT, FS, FR) é muitas vezes omitido
+  const prefixo = meio.length > 1 && /^[A-Z]+$/.test(meio[0]) ? `(?:${meio[0]}\\s*)?${meio.slice(1).join("\\s*")}` : meio.join("\\s*");
+  if (!prefixo && partes.length === 1 && ultima.length < 4) return null;
+
+  return new RegExp(`(?<![A-Z0-9])${prefixo ? `${prefixo}\\s*` : ""}${sequencia}(?![0-9])`);
+}
+
+type FaturaEmAberto = {
+  id: number;
+  utenteId: number;
+  numeroFatura: string;
+  valorTotal: string;
+  valorPago: string;
+  valorCreditado: string;
+  nomeUtente: string;
+  nifUtente: string | null;
+};
+
+async function faturasEmAberto(tx: Tx, clinicaId: number): Promise<FaturaEmAberto[]> {
+  return await tx
+    .select({
+      id: faturas.id,
+      utenteId: faturas.utenteId,
+      numeroFatura: faturas.numeroFatura,
+      valorTotal: faturas.valorTotal,
+      valorPago: faturas.valorPago,
+      valorCreditado: faturas.valorCreditado,
+      nomeUtente: utentes.nome,
+      nifUtente: utentes.nif,
+    })
+    .from(faturas)
+    .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+    .where(and(eq(faturas.clinicaId, clinicaId), inArray(faturas.estado, ESTADOS_FATURA_EM_ABERTO)));
+}
+
+function emDivida(fatura: { valorTotal: string; valorCreditado: string; valorPago: string }): number {
+  return centimos(fatura.valorTotal) - centimos(fatura.valorCreditado) - centimos(fatura.valorPago);
+}
+
+/**
+ * Faturas candidatas para um movimento, ordenadas pela pontuação, e o estado que daí resulta
+ */
+function sugerirFaturas(
+  movimento: Pick<MovimentoExtrato, "descricao" | "referencia" | "nomeOrdenante" | "valorCentimos">,
+  candidatas: FaturaEmAberto[]
+): { estado: MovimentoBancario["estado"]; sugestoes: SugestaoConciliacao[] } {
+  const texto = normalizar(`${movimento.descricao} ${movimento.referencia ?? ""}`);
+  const algarismos = `${movimento.descricao} ${movimento.referencia ?? ""}`.replace(/\s+/g, "");
+
+  const sugestoes: SugestaoConciliacao[] = [];
+  for (const fatura of candidatas) {
+    const divida = emDivida(fatura);
+    if (divida <= 0) continue;
+
+    let pontuacao = 0;
+    const motivos: string[] = [];
+
+    if (expressaoNumeroFatura(fatura.numeroFatura)?.test(texto)) {
+      pontuacao += 60;
+      motivos.push("número da fatura no descritivo");
+    }
+
+    if (movimento.valorCentimos === divida) {
+      pontuacao += 30;
+      motivos.push("valor em dívida");
+    } else if (movimento.valorCentimos === centimos(fatura.valorTotal)) {
+      pontuacao += 25;
+      motivos.push("valor total da fatura");
+    }
+
+    const nif = fatura.nifUtente?.replace(/\D/g, "");
+    if (nif && nif.length === 9 && new RegExp(`(?<!\\d)${nif}(?!\\d)`).test(algarismos)) {
+      pontuacao += 40;
+      motivos.push("NIF do utente");
+    }
+
+    const semelhanca = semelhancaNome(fatura.nomeUtente, movimento.nomeOrdenante || movimento.descricao);
+    if (semelhanca >= 0.5) {
+      pontuacao += Math.round(30 * semelhanca);
+      motivos.push(`nome do ordenante (${Math.round(semelhanca * 100)}%)`);
+    }
+
+    if (pontuacao >= PONTUACAO_MINIMA) {
+      sugestoes.push({
+        faturaId: fatura.id,
+        utenteId: fatura.utenteId,
+        numeroFatura: fatura.numeroFatura,
+        valorEmDivida: euros(divida),
+        pontuacao,
+        motivos,
+      });
+    }
+  }
+
+  sugestoes.sort((a, b) => b.pontuacao - a.pontuacao);
+  const [melhor, segunda] = sugestoes;
+
+  let estado: MovimentoBancario["estado"] = "por_conciliar";
+  if (melhor && melhor.pontuacao >= PONTUACAO_SUGESTAO && (!segunda || melhor.pontuacao - segunda.pontuacao >= DIFERENCA_SUGESTAO)) {
+    estado = "sugerido";
+  } else if (segunda && melhor.pontuacao >= 40 && melhor.pontuacao - segunda.pontuacao < DIFERENCA_SUGESTAO) {
+    estado = "ambiguo";
+  }
+
+  return { estado, sugestoes: sugestoes.slice(0, MAXIMO_SUGESTOES) };
+}
+
+/**
+ * Conteúdo do ficheiro: os bancos exportam em UTF-8 ou em Latin-1 (Windows-1252)
+ */
+function descodificar(conteudoBase64: string): string {
+  const bytes = Buffer.from(conteudoBase64, "base64");
+  const texto = bytes.toString("utf8");
+  return (texto.includes("\uFFFD") ? bytes.toString("latin1") : texto).replace(/^\uFEFF/, "");
+}
+
+/**
+ * Identificador do movimento para detetar importações repetidas. Movimentos iguais no mesmo
+ * ficheiro (duas transferências do mesmo valor no mesmo dia) distinguem-se pela ordem
+ */
+function chaveMovimento(iban: string | null, movimento: MovimentoExtrato, ocorrencia: number): string {
+  return createHash("sha256")
+    .update(
+      [
+        iban ?? "",
+        movimento.dataMovimento,
+        movimento.valorCentimos,
+        normalizar(movimento.descricao),
+        movimento.referencia ?? "",
+        ocorrencia,
+      ].join("|")
+    )
+    .digest("hex");
+}
+
+/**
+ * Importar um extrato bancário e sugerir a fatura de cada crédito
+ * - formato: perfil do banco (cgd, millennium, ...) ou "camt053"; por omissão é detetado
+ */
+export async function importarExtrato(dados: {
+  clinicaId: number;
+  nomeFicheiro?: string;
+  conteudo: string; // Base64
+  formato?: string;
+  userId: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const conteudo = descodificar(dados.conteudo);
+  const xml = dados.formato === "camt053" || (!dados.formato && conteudo.trimStart().startsWith("<"));
+  const extrato: ExtratoLido = xml ? lerExtratoCamt053(conteudo) : lerExtratoCSV(conteudo, dados.formato);
+
+  const creditos = extrato.movimentos.filter(m => m.valorCentimos > 0);
+  if (creditos.length === 0) throw new Error("O extrato não tem créditos para importar");
+
+  const datas = creditos.map(m => m.dataMovimento).sort();
+
+  return await db.transaction(async tx => {
+    const candidatas = await faturasEmAberto(tx, dados.clinicaId);
+
+    const [registo] = await tx
+      .insert(extratosBancarios)
+      .values({
+        clinicaId: dados.clinicaId,
+        formato: extrato.formato,
+        nomeFicheiro: dados.nomeFicheiro,
+        iban: extrato.iban,
+        dataInicio: datas[0],
+        dataFim: datas[datas.length - 1],
+        importadoPor: dados.userId,
+      })
+      .returning();
+
+    const ocorrencias = new Map<string, number>();
+    const valores = creditos.map(movimento => {
+      const base = chaveMovimento(extrato.iban, movimento, 0);
+      const ocorrencia = ocorrencias.get(base) ?? 0;
+      ocorrencias.set(base, ocorrencia + 1);
+
+      const { estado, sugestoes } = sugerirFaturas(movimento, candidatas);
+      const sugerida = estado === "sugerido" ? sugestoes[0] : undefined;
+
+      return {
+        extratoId: registo.id,
+        clinicaId: dados.clinicaId,
+        chave: ocorrencia === 0 ? base : chaveMovimento(extrato.iban, movimento, ocorrencia),
+        dataMovimento: movimento.dataMovimento,
+        dataValor: movimento.dataValor,
+        descricao: movimento.descricao,
+        valor: euros(movimento.valorCentimos),
+        referencia: movimento.referencia?.slice(0, 255),
+        nomeOrdenante: movimento.nomeOrdenante?.slice(0, 255),
+        ibanOrdenante: movimento.ibanOrdenante?.replace(/\s/g, "").slice(0, 34),
+        estado,
+        sugestoes,
+        faturaId: sugerida?.faturaId,
+        utenteId: sugerida?.utenteId,
+      };
+    });
+
+    const inseridos: MovimentoBancario[] = await tx
+      .insert(movimentosBancarios)
+      .values(valores)
+      .onConflictDoNothing()
+      .returning();
+
+    await tx
+      .update(extratosBancarios)
+      .set({ numeroMovimentos: inseridos.length })
+      .where(eq(extratosBancarios.id, registo.id));
+
+    return {
+      extratoId: registo.id,
+      formato: extrato.formato,
+      iban: extrato.iban,
+      importados: inseridos.length,
+      repetidos: creditos.length - inseridos.length,
+      debitosIgnorados: extrato.movimentos.length - creditos.length,
+      sugeridos: inseridos.filter(m => m.estado === "sugerido").length,
+      ambiguos: inseridos.filter(m => m.estado === "ambiguo").length,
+      porConciliar: inseridos.filter(m => m.estado === "por_conciliar").length,
+    };
+  });
+}
+
+/**
+ * Extratos importados na clínica
+ */
+export async function listarExtratos(clinicaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(extratosBancarios)
+    .where(eq(extratosBancarios.clinicaId, clinicaId))
+    .orderBy(desc(extratosBancarios.createdAt));
+}
+
+/**
+ * Movimentos importados (por omissão, a fila de revisão: por conciliar, sugeridos e ambíguos)
+ */
+export async function listarMovimentos(filtros: {
+  clinicaId: number;
+  extratoId?: number;
+  estados?: MovimentoBancario["estado"][];
+  dataInicio?: string;
+  dataFim?: string;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(movimentosBancarios)
+    .where(
+      and(
+        eq(movimentosBancarios.clinicaId, filtros.clinicaId),
+        filtros.extratoId ? eq(movimentosBancarios.extratoId, filtros.extratoId) : undefined,
+        inArray(movimentosBancarios.estado, filtros.estados ?? ESTADOS_POR_REVER),
+        filtros.dataInicio ? gte(movimentosBancarios.dataMovimento, filtros.dataInicio) : undefined,
+        filtros.dataFim ? lte(movimentosBancarios.dataMovimento, filtros.dataFim) : undefined
+      )
+    )
+    .orderBy(desc(movimentosBancarios.dataMovimento), movimentosBancarios.id);
+}
+
+/**
+ * Voltar a comparar os movimentos por rever com as faturas em aberto (ex: depois de emitir as
+ * faturas de pagamentos recebidos antes da fatura)
+ */
+export async function atualizarSugestoes(clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => {
+    const candidatas = await faturasEmAberto(tx, clinicaId);
+    const pendentes: MovimentoBancario[] = await tx
+      .select()
+      .from(movimentosBancarios)
+      .where(and(eq(movimentosBancarios.clinicaId, clinicaId), inArray(movimentosBancarios.estado, ESTADOS_POR_REVER)))
+      .for("update");
+
+    let sugeridos = 0;
+    for (const movimento of pendentes) {
+      const { estado, sugestoes } = sugerirFaturas(
+        {
+          descricao: movimento.descricao ?? "",
+          referencia: movimento.referencia,
+          nomeOrdenante: movimento.nomeOrdenante,
+          valorCentimos: centimos(movimento.valor),
+        },
+        candidatas
+      );
+      const sugerida = estado === "sugerido" ? sugestoes[0] : undefined;
+      if (sugerida) sugeridos++;
+
+      await tx
+        .update(movimentosBancarios)
+        .set({
+          estado,
+          sugestoes,
+          faturaId: sugerida?.faturaId ?? null,
+          utenteId: sugerida?.utenteId ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(movimentosBancarios.id, movimento.id));
+    }
+
+    return { analisados: pendentes.length, sugeridos };
+  });
+}
+
+export type ResultadoConciliacao =
+  | { movimentoId: number; estado: "conciliado"; recebimentoId: number; numeroRecibo: string | null; creditoGerado: string }
+  | { movimentoId: number; estado: "erro"; motivo: string };
+
+/**
+ * Confirmar movimentos em lote: cada um dá um recebimento na conta corrente do utente, imputado à
+ * fatura até ao valor em dívida (o resto fica como crédito). Sem fatura nem utente indicados é
+ * usada a fatura sugerida; só com o utente, o valor fica todo como crédito (adiantamento).
+ * Cada movimento é lançado na sua transação, para que um erro não impeça os restantes
+ */
+export async function confirmarConciliacoes(dados: {
+  clinicaId: number;
+  movimentos: { movimentoId: number; faturaId?: number; utenteId?: number }[];
+  userId: number;
+}): Promise<{ conciliados: number; erros: number; resultados: ResultadoConciliacao[] }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  const resultados: ResultadoConciliacao[] = [];
+
+  for (const pedido of dados.movimentos) {
+    try {
+      const resultado = await db.transaction(async tx => {
+        const [movimento]: MovimentoBancario[] = await tx
+          .select()
+          .from(movimentosBancarios)
+          .where(and(eq(movimentosBancarios.id, pedido.movimentoId), eq(movimentosBancarios.clinicaId, dados.clinicaId)))
+          .for("update");
+
+        if (!movimento) throw new Error("Movimento não encontrado");
+        if (!ESTADOS_POR_REVER.includes(movimento.estado)) throw new Error(`Movimento já ${movimento.estado}`);
+
+        const faturaId = pedido.faturaId ?? (pedido.utenteId ? undefined : movimento.faturaId ?? undefined);
+        let utenteId = pedido.utenteId ?? (pedido.faturaId ? undefined : movimento.utenteId ?? undefined);
+        const valor = centimos(movimento.valor);
+        let imputar = 0;
+
+        if (faturaId) {
+          const [fatura] = await tx
+            .select()
+            .from(faturas)
+            .where(and(eq(faturas.id, faturaId), eq(faturas.clinicaId, dados.clinicaId)))
+            .limit(1);
+
+          if (!fatura) throw new Error("Fatura não encontrada");
+          if (utenteId && utenteId !== fatura.utenteId) throw new Error("A fatura não é do utente indicado");
+          utenteId = fatura.utenteId;
+          if (ESTADOS_FATURA_EM_ABERTO.includes(fatura.estado)) imputar = Math.max(Math.min(valor, emDivida(fatura)), 0);
+        }
+
+        if (!utenteId) throw new Error("Indique a fatura ou o utente do movimento");
+
+        const lancamento = await lancarRecebimento(tx, {
+          clinicaId: dados.clinicaId,
+          utenteId,
+          valor: valor / 100,
+          metodoPagamento: /MB\s*WAY/i.test(movimento.descricao ?? "") ? "mbway" : "transferencia",
+          dataRecebimento: dataNoFuso(movimento.dataMovimento, 0, fuso),
+          referencia: (movimento.referencia ?? movimento.descricao ?? undefined)?.slice(0, 255),
+          observacoes: movimento.nomeOrdenante ? `Ordenante: ${movimento.nomeOrdenante}` : undefined,
+          imputacoes: imputar > 0 ? [{ faturaId: faturaId!, valor: imputar / 100 }] : undefined,
+          userId: dados.userId,
+        });
+
+        await tx
+          .update(movimentosBancarios)
+          .set({
+            estado: "conciliado",
+            faturaId: faturaId ?? null,
+            utenteId,
+            recebimentoId: lancamento.recebimento.id,
+            conciliadoPor: dados.userId,
+            updatedAt: new Date(),
+          })
+          .where(eq(movimentosBancarios.id, movimento.id));
+
+        return {
+          movimentoId: movimento.id,
+          estado: "conciliado" as const,
+          recebimentoId: lancamento.recebimento.id,
+          numeroRecibo: lancamento.numeroRecibo,
+          creditoGerado: lancamento.creditoGerado,
+        };
+      });
+      resultados.push(resultado);
+    } catch (error: any) {
+      resultados.push({ movimentoId: pedido.movimentoId, estado: "erro", motivo: error.message });
+    }
+  }
+
+  return {
+    conciliados: resultados.filter(r => r.estado === "conciliado").length,
+    erros: resultados.filter(r => r.estado === "erro").length,
+    resultados,
+  };
+}
+
+/**
+ * Ignorar movimentos que não são pagamentos de utentes (ex: transferências entre contas), ou
+ * voltar a pô-los na fila de revisão
+ */
+export async function ignorarMovimentos(dados: { clinicaId: number; movimentoIds: number[]; ignorar: boolean }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const atualizados = await db
+    .update(movimentosBancarios)
+    .set({ estado: dados.ignorar ? "ignorado" : "por_conciliar", updatedAt: new Date() })
+    .where(
+      and(
+        eq(movimentosBancarios.clinicaId, dados.clinicaId),
+        inArray(movimentosBancarios.id, dados.movimentoIds),
+        inArray(movimentosBancarios.estado, dados.ignorar ? ESTADOS_POR_REVER : ["ignorado"])
+      )
+    )
+    .returning({ id: movimentosBancarios.id });
+
+  return { atualizados: atualizados.length };
+}
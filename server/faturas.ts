@@ -0,0 +1,253 @@
+import { getDb, type Tx } from "./db";
+import { clinicas, consultas, faturas, itensFatura, pagamentosFatura, procedimentos, utentes } from "../drizzle/schema";
+import { chaveDia, obterFusoClinica } from "./fuso-horario";
+import {
+  LIMITE_FATURA_SIMPLIFICADA,
+  espacoFiscal,
+  gerarCodigoQR,
+  impostoLinha,
+  numerarDocumento,
+  resumoIVA,
+  totaisPorTaxa,
+} from "./documentos-fiscais";
+import { calcularComissoes } from "./comissoes";
+import { consultaComChequeDentista } from "./cheques-dentista";
+import { and, eq, inArray } from "drizzle-orm";
+
+/**
+ * Emissão de Faturas
+ * Uma fatura é emitida (numerada, assinada e com ATCUD) no momento em que é criada e não
+ * pode ser alterada depois: correções fazem-se com nota de crédito
+ *
+ * Cada linha tem a sua taxa de IVA (e motivo de isenção, à taxa 0): indicada na linha, senão a
+ * do procedimento, senão a taxa por omissão da fatura (percentagemIVA)
+ *
+ * A comissão do dentista de cada linha (e o valor da clínica) fica calculada na emissão; o
+ * dentista é o da linha, senão o da fatura, senão o da consulta faturada
+ *
+ * Numa consulta feita com cheque-dentista, os atos abrangidos pelo cheque não são faturados ao
+ * utente (são reembolsados pelo SNS)
+ */
+
+type MetodoPagamento = typeof pagamentosFatura.$inferSelect["metodoPagamento"];
+
+function centimos(valor: string | number): number {
+  return Math.round(parseFloat(valor.toString()) * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+export type DadosFatura = {
+  clinicaId: number;
+  utenteId: number;
+  consultaId?: number;
+  dentistaId?: number;
+  tipoDocumento: "FT" | "FS" | "FR";
+  dataFatura: Date;
+  dataVencimento?: Date;
+  percentagemIVA: string; // Taxa das linhas sem taxa própria nem procedimento
+  valorDesconto: string;
+  observacoes?: string;
+  itens: {
+    procedimentoId?: number;
+    dentistaId?: number;
+    descricao: string;
+    quantidade: number;
+    precoUnitario: string;
+    taxaIVA?: string;
+    motivoIsencao?: string;
+  }[];
+  pagamento?: {
+    metodoPagamento: MetodoPagamento;
+    referencia?: string;
+  };
+};
+
+/**
+ * Emitir fatura (FT), fatura simplificada (FS) ou fatura-recibo (FR)
+ * A fatura-recibo regista logo o pagamento do total
+ */
+export async function emitirFatura(dados: DadosFatura) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => await lancarFatura(tx, dados));
+}
+
+/**
+ * Emitir a fatura numa transação já aberta (ex: parte do utente de uma fatura com acordo)
+ */
+export async function lancarFatura(tx: Tx, dados: DadosFatura) {
+  if (dados.itens.length === 0) throw new Error("A fatura tem de ter pelo menos uma linha");
+  if (dados.tipoDocumento === "FR" && !dados.pagamento) {
+    throw new Error("Indique o método de pagamento da fatura-recibo");
+  }
+
+  // Taxa e isenção por omissão dos procedimentos faturados
+  const procedimentosIds = dados.itens.map(i => i.procedimentoId).filter((id): id is number => !!id);
+  const procedimentosData: { id: number; taxaIVA: string; motivoIsencao: string | null; abrangidoChequeDentista: boolean }[] =
+    procedimentosIds.length > 0
+      ? await tx
+          .select({
+            id: procedimentos.id,
+            taxaIVA: procedimentos.taxaIVA,
+            motivoIsencao: procedimentos.motivoIsencao,
+            abrangidoChequeDentista: procedimentos.abrangidoChequeDentista,
+          })
+          .from(procedimentos)
+          .where(and(inArray(procedimentos.id, procedimentosIds), eq(procedimentos.clinicaId, dados.clinicaId)))
+      : [];
+
+  const comCheque = dados.consultaId ? await consultaComChequeDentista(tx, dados.consultaId) : false;
+  const itens = comCheque
+    ? dados.itens.filter(item => !procedimentosData.find(p => p.id === item.procedimentoId)?.abrangidoChequeDentista)
+    : dados.itens;
+  if (itens.length === 0) throw new Error("Os atos desta consulta são pagos pelo cheque-dentista: não há nada a faturar ao utente");
+
+  const linhas = itens.map(item => {
+    const procedimento = procedimentosData.find(p => p.id === item.procedimentoId);
+    const imposto = impostoLinha(
+      parseFloat(item.taxaIVA ?? procedimento?.taxaIVA ?? dados.percentagemIVA),
+      item.motivoIsencao ?? procedimento?.motivoIsencao
+    );
+
+    return { ...item, ...imposto, valor: centimos(item.precoUnitario) * item.quantidade };
+  });
+
+  // Calcular totais (o desconto é dado sobre o total com IVA)
+  const subtotal = linhas.reduce((s, l) => s + l.valor, 0);
+  const totalBruto = linhas.reduce((s, l) => s + Math.round(l.valor * (1 + l.taxa / 100)), 0);
+  if (centimos(dados.valorDesconto) > totalBruto) {
+    throw new Error("O desconto não pode ser superior ao total da fatura");
+  }
+
+  const totais = totaisPorTaxa(linhas, centimos(dados.valorDesconto));
+  const valorIVA = totais.reduce((s, t) => s + t.iva, 0);
+  const valorTotal = totais.reduce((s, t) => s + t.base + t.iva, 0);
+  if (dados.tipoDocumento === "FS" && valorTotal > LIMITE_FATURA_SIMPLIFICADA * 100) {
+    throw new Error(`Faturas simplificadas estão limitadas a ${LIMITE_FATURA_SIMPLIFICADA} €`);
+  }
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+
+  const [clinica] = await tx
+    .select({ nif: clinicas.nif })
+    .from(clinicas)
+    .where(eq(clinicas.id, dados.clinicaId))
+    .limit(1);
+
+  if (!clinica) throw new Error("Clínica não encontrada");
+  if (!clinica.nif) throw new Error("Configure o NIF da clínica antes de emitir faturas");
+
+  const [utente] = await tx
+    .select({ nif: utentes.nif, pais: utentes.pais })
+    .from(utentes)
+    .where(and(eq(utentes.id, dados.utenteId), eq(utentes.clinicaId, dados.clinicaId)))
+    .limit(1);
+
+  if (!utente) throw new Error("Utente não encontrado");
+
+  const consulta = dados.consultaId && !dados.dentistaId
+    ? (await tx
+        .select({ dentistaId: consultas.dentistaId })
+        .from(consultas)
+        .where(and(eq(consultas.id, dados.consultaId), eq(consultas.clinicaId, dados.clinicaId)))
+        .limit(1))[0]
+    : undefined;
+  const dentistaId = dados.dentistaId ?? consulta?.dentistaId;
+
+  // Comissões sobre o valor sem IVA de cada linha, com a parte do desconto que lhe cabe
+  const baseTotal = totais.reduce((s, t) => s + t.base, 0);
+  const comissoes = await calcularComissoes(
+    tx,
+    dados.clinicaId,
+    linhas.map(linha => ({
+      dentistaId: linha.dentistaId ?? dentistaId,
+      procedimentoId: linha.procedimentoId,
+      quantidade: linha.quantidade,
+      base: subtotal > 0 ? Math.round((linha.valor * baseTotal) / subtotal) : 0,
+    }))
+  );
+
+  const documento = await numerarDocumento(tx, {
+    clinicaId: dados.clinicaId,
+    tipoDocumento: dados.tipoDocumento,
+    dataDocumento: dados.dataFatura,
+    valorTotal: euros(valorTotal),
+    fuso,
+  });
+
+  const codigoQR = gerarCodigoQR({
+    nifEmitente: clinica.nif,
+    nifAdquirente: utente.nif,
+    paisAdquirente: utente.pais,
+    tipoDocumento: dados.tipoDocumento,
+    dataDocumento: chaveDia(dados.dataFatura, fuso),
+    numeroDocumento: documento.numeroDocumento,
+    atcud: documento.atcud,
+    espacoFiscal: espacoFiscal(fuso),
+    resumoIVA: resumoIVA(totais),
+    valorTotal: valorTotal / 100,
+    hash: documento.hash,
+  });
+
+  const [fatura]: (typeof faturas.$inferSelect)[] = await tx
+    .insert(faturas)
+    .values({
+      clinicaId: dados.clinicaId,
+      utenteId: dados.utenteId,
+      consultaId: dados.consultaId,
+      numeroFatura: documento.numeroDocumento,
+      tipoDocumento: dados.tipoDocumento,
+      serieId: documento.serieId,
+      atcud: documento.atcud,
+      hash: documento.hash,
+      hashControlo: documento.hashControlo,
+      dataSistema: documento.dataSistema,
+      codigoQR,
+      dataFatura: dados.dataFatura,
+      dataVencimento: dados.dataVencimento,
+      subtotal: euros(subtotal),
+      valorIVA: euros(valorIVA),
+      percentagemIVA: dados.percentagemIVA,
+      valorDesconto: dados.valorDesconto,
+      valorTotal: euros(valorTotal),
+      valorPago: dados.tipoDocumento === "FR" ? euros(valorTotal) : "0",
+      estado: dados.tipoDocumento === "FR" ? "paga" : "enviada",
+      observacoes: dados.observacoes,
+    })
+    .returning();
+
+  // Criar itens da fatura
+  for (const [i, linha] of linhas.entries()) {
+    await tx.insert(itensFatura).values({
+      faturaId: fatura.id,
+      procedimentoId: linha.procedimentoId,
+      descricao: linha.descricao,
+      quantidade: linha.quantidade,
+      precoUnitario: linha.precoUnitario,
+      precoTotal: euros(linha.valor),
+      taxaIVA: linha.taxa.toString(),
+      motivoIsencao: linha.motivoIsencao,
+      dentistaId: linha.dentistaId ?? dentistaId,
+      custosDeduzidos: euros(comissoes[i].custos),
+      comissaoDentista: euros(comissoes[i].comissao),
+      valorClinica: euros(comissoes[i].valorClinica),
+    });
+  }
+
+  // A fatura-recibo é o próprio recibo: o pagamento não emite RC
+  if (dados.tipoDocumento === "FR" && dados.pagamento) {
+    await tx.insert(pagamentosFatura).values({
+      faturaId: fatura.id,
+      valor: euros(valorTotal),
+      metodoPagamento: dados.pagamento.metodoPagamento,
+      dataPagamento: dados.dataFatura,
+      referencia: dados.pagamento.referencia,
+    });
+  }
+
+  return fatura;
+}
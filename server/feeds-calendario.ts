@@ -0,0 +1,237 @@
+import type { Express, Request, Response } from "express";
+import { nanoid } from "nanoid";
+import { getDb, getConsultasByPeriod } from "./db";
+import { clinicas } from "../drizzle/schema";
+import { feedsCalendario, type FeedCalendario, type PrivacidadeFeed } from "../drizzle/schema-agenda";
+import { and, eq } from "drizzle-orm";
+
+/**
+ * Feeds iCalendar (ICS)
+ * URLs secretos e revogáveis, só de leitura, para subscrever a agenda de um dentista
+ * (ou da clínica) em qualquer aplicação de calendário, sem OAuth
+ */
+
+/**
+ * Período publicado no feed, relativo à data do pedido
+ */
+const DIAS_PASSADOS = 30;
+const DIAS_FUTUROS = 365;
+
+/**
+ * Intervalo de atualização sugerido às aplicações de calendário
+ */
+const INTERVALO_ATUALIZACAO = "PT15M";
+
+type ConsultaFeed = Awaited<ReturnType<typeof getConsultasByPeriod>>[number];
+
+/**
+ * Gerar um token novo para um feed
+ */
+export function gerarTokenFeed(): string {
+  return nanoid(48);
+}
+
+/**
+ * URL público do feed
+ */
+export function urlFeed(token: string): string {
+  const base = (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+  return `${base}/api/calendario/${token}.ics`;
+}
+
+/**
+ * Escapar texto segundo o RFC 5545 (barra, ponto e vírgula, vírgula e quebras de linha)
+ */
+function escaparTexto(texto: string): string {
+  return texto
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Dobrar linhas com mais de 75 octetos (continuação começa por espaço)
+ */
+function dobrarLinha(linha: string): string {
+  const partes: string[] = [];
+  let atual = "";
+  let octetos = 0;
+
+  for (const caracter of linha) {
+    const tamanho = Buffer.byteLength(caracter, "utf8");
+    if (octetos + tamanho > (partes.length === 0 ? 75 : 74)) {
+      partes.push(atual);
+      atual = "";
+      octetos = 0;
+    }
+    atual += caracter;
+    octetos += tamanho;
+  }
+  partes.push(atual);
+
+  return partes.join("\r\n ");
+}
+
+/**
+ * Data em UTC no formato iCalendar (20250101T093000Z)
+ */
+function formatarData(data: Date): string {
+  return data.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Iniciais de um nome ("Maria João Silva" → "M.J.S.")
+ */
+export function iniciaisNome(nome: string): string {
+  return nome
+    .split(/\s+/)
+    .filter(parte => parte.length > 0)
+    .map(parte => `${parte[0].toUpperCase()}.`)
+    .join("");
+}
+
+/**
+ * Título do evento de acordo com a privacidade do feed
+ */
+function tituloEvento(item: ConsultaFeed, privacidade: PrivacidadeFeed): string {
+  if (privacidade === "ocupado") return "Ocupado";
+
+  const utente = privacidade === "completo" ? item.utente.nome : iniciaisNome(item.utente.nome);
+  const descricao = item.procedimento?.nome || item.consulta.titulo || "Consulta";
+  return `${utente} - ${descricao}`;
+}
+
+/**
+ * Gerar o calendário ICS (sem acesso à base de dados)
+ * O UID de cada evento deriva do id da consulta, para que alterações e cancelamentos
+ * substituam o evento existente em vez de criarem duplicados
+ */
+export function gerarCalendarioICS(dados: {
+  feed: Pick<FeedCalendario, "nome" | "dentistaId" | "privacidade" | "incluirObservacoes">;
+  consultas: ConsultaFeed[];
+  localizacao?: string | null;
+  agora?: Date;
+}): string {
+  const agora = formatarData(dados.agora ?? new Date());
+  const feedClinica = dados.feed.dentistaId === null;
+
+  const linhas = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DentCarePro//Agenda//PT",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escaparTexto(dados.feed.nome)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${INTERVALO_ATUALIZACAO}`,
+    `X-PUBLISHED-TTL:${INTERVALO_ATUALIZACAO}`,
+  ];
+
+  for (const item of dados.consultas) {
+    const { consulta } = item;
+    const cancelada = consulta.estado === "cancelada";
+
+    let titulo = tituloEvento(item, dados.feed.privacidade);
+    if (feedClinica) titulo = `${titulo} (${item.dentista.nome})`;
+
+    // SEQUENCE tem de aumentar a cada alteração: segundos desde a criação até à última atualização
+    const sequencia = Math.max(
+      0,
+      Math.floor((consulta.updatedAt.getTime() - consulta.createdAt.getTime()) / 1000)
+    );
+
+    linhas.push(
+      "BEGIN:VEVENT",
+      `UID:consulta-${consulta.id}@dentcarepro`,
+      `DTSTAMP:${agora}`,
+      `DTSTART:${formatarData(consulta.horaInicio)}`,
+      `DTEND:${formatarData(consulta.horaFim)}`,
+      `LAST-MODIFIED:${formatarData(consulta.updatedAt)}`,
+      `SEQUENCE:${sequencia}`,
+      `STATUS:${cancelada ? "CANCELLED" : "CONFIRMED"}`,
+      `TRANSP:${cancelada ? "TRANSPARENT" : "OPAQUE"}`,
+      `SUMMARY:${escaparTexto(cancelada ? `Cancelada: ${titulo}` : titulo)}`
+    );
+
+    if (dados.localizacao) {
+      linhas.push(`LOCATION:${escaparTexto(dados.localizacao)}`);
+    }
+
+    if (dados.feed.incluirObservacoes && dados.feed.privacidade !== "ocupado" && consulta.observacoes) {
+      linhas.push(`DESCRIPTION:${escaparTexto(consulta.observacoes)}`);
+    }
+
+    linhas.push("END:VEVENT");
+  }
+
+  linhas.push("END:VCALENDAR");
+
+  return linhas.map(dobrarLinha).join("\r\n") + "\r\n";
+}
+
+/**
+ * Gerar o conteúdo ICS de um feed a partir do token
+ * Devolve null se o token não existir ou o feed tiver sido revogado
+ */
+export async function gerarFeedPorToken(token: string): Promise<string | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [feed] = await db
+    .select()
+    .from(feedsCalendario)
+    .where(and(eq(feedsCalendario.token, token), eq(feedsCalendario.ativo, true)))
+    .limit(1);
+
+  if (!feed) return null;
+
+  const agora = new Date();
+  const dataInicio = new Date(agora.getTime() - DIAS_PASSADOS * 24 * 60 * 60 * 1000);
+  const dataFim = new Date(agora.getTime() + DIAS_FUTUROS * 24 * 60 * 60 * 1000);
+
+  const [consultasFeed, [clinica]] = await Promise.all([
+    getConsultasByPeriod(feed.clinicaId, dataInicio, dataFim, feed.dentistaId ?? undefined),
+    db.select().from(clinicas).where(eq(clinicas.id, feed.clinicaId)).limit(1),
+  ]);
+
+  const localizacao = clinica
+    ? [clinica.nome, clinica.morada, clinica.codigoPostal, clinica.cidade].filter(Boolean).join(", ")
+    : null;
+
+  await db
+    .update(feedsCalendario)
+    .set({ ultimoAcesso: agora })
+    .where(eq(feedsCalendario.id, feed.id));
+
+  return gerarCalendarioICS({
+    feed,
+    consultas: consultasFeed,
+    localizacao,
+    agora,
+  });
+}
+
+/**
+ * Registar a rota pública dos feeds: GET /api/calendario/<token>.ics
+ */
+export function registarRotasFeedsCalendario(app: Express) {
+  app.get("/api/calendario/:ficheiro", async (req: Request, res: Response) => {
+    const token = req.params.ficheiro.replace(/\.ics$/i, "");
+
+    try {
+      const calendario = await gerarFeedPorToken(token);
+      if (!calendario) {
+        res.status(404).send("Feed não encontrado");
+        return;
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="agenda.ics"');
+      res.setHeader("Cache-Control", "private, max-age=300");
+      res.send(calendario);
+    } catch (error) {
+      console.error("[Feeds Calendário] Erro ao gerar feed:", error);
+      res.status(500).send("Erro ao gerar o calendário");
+    }
+  });
+}
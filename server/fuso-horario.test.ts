@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { adicionarDias, dataNoFuso, fimDoDia, inicioDoDia, minutosDoDia } from "./fuso-horario";
+
+/**
+ * Mudanças de hora de 2026: 29 de março e 25 de outubro, às 01:00 UTC nos três fusos
+ * A hora local do salto é 01:00 no continente e na Madeira e 00:00 nos Açores
+ */
+const FUSOS = [
+  { fuso: "Europe/Lisbon", inverno: 0, verao: 60 },
+  { fuso: "Atlantic/Madeira", inverno: 0, verao: 60 },
+  { fuso: "Atlantic/Azores", inverno: -60, verao: 0 },
+];
+
+const HORA = 60 * 60 * 1000;
+
+// Instante de uma hora local com um deslocamento conhecido (minutos em relação a UTC)
+function instante(chave: string, minutos: number, deslocamento: number): Date {
+  const [ano, mes, dia] = chave.split("-").map(Number);
+  return new Date(Date.UTC(ano, mes - 1, dia, 0, minutos - deslocamento));
+}
+
+for (const { fuso, inverno, verao } of FUSOS) {
+  // Minutos locais (hora de inverno) em que a hora muda
+  const salto = 60 + inverno;
+
+  describe(`${fuso}: mudança para a hora de verão (2026-03-29)`, () => {
+    it("converte horas antes e depois do salto com o deslocamento certo", () => {
+      assert.deepEqual(dataNoFuso("2026-03-28", 10 * 60, fuso), instante("2026-03-28", 10 * 60, inverno));
+      assert.deepEqual(dataNoFuso("2026-03-29", salto - 30, fuso), instante("2026-03-29", salto - 30, inverno));
+      assert.deepEqual(dataNoFuso("2026-03-29", 10 * 60, fuso), instante("2026-03-29", 10 * 60, verao));
+    });
+
+    it("avança uma hora que não existe para depois do salto", () => {
+      const data = dataNoFuso("2026-03-29", salto + 30, fuso);
+
+      assert.deepEqual(data, instante("2026-03-29", salto + 90, verao));
+      assert.equal(minutosDoDia(data, fuso), salto + 90);
+    });
+
+    it("delimita um dia de 23 horas", () => {
+      const meioDia = dataNoFuso("2026-03-29", 12 * 60, fuso);
+      const inicio = inicioDoDia(meioDia, fuso);
+      const fim = fimDoDia(meioDia, fuso);
+
+      // Nos Açores a meia-noite não existe: o dia começa no instante do salto (01:00 locais)
+      assert.deepEqual(inicio, instante("2026-03-29", 0, inverno));
+      assert.deepEqual(fim, new Date(instante("2026-03-30", 0, verao).getTime() - 1));
+      assert.equal(fim.getTime() + 1 - inicio.getTime(), 23 * HORA);
+    });
+
+    it("mantém a hora local ao somar dias sobre o salto", () => {
+      const sabado = dataNoFuso("2026-03-28", 10 * 60, fuso);
+      const domingo = adicionarDias(sabado, 1, fuso);
+
+      assert.deepEqual(domingo, instante("2026-03-29", 10 * 60, verao));
+      assert.equal(domingo.getTime() - sabado.getTime(), 23 * HORA);
+      assert.deepEqual(adicionarDias(domingo, -1, fuso), sabado);
+    });
+  });
+
+  describe(`${fuso}: mudança para a hora de inverno (2026-10-25)`, () => {
+    it("converte horas antes e depois do salto com o deslocamento certo", () => {
+      assert.deepEqual(dataNoFuso("2026-10-24", 10 * 60, fuso), instante("2026-10-24", 10 * 60, verao));
+      assert.deepEqual(dataNoFuso("2026-10-25", 10 * 60, fuso), instante("2026-10-25", 10 * 60, inverno));
+    });
+
+    it("usa a primeira ocorrência de uma hora repetida", () => {
+      const data = dataNoFuso("2026-10-25", salto + 30, fuso);
+
+      assert.deepEqual(data, instante("2026-10-25", salto + 30, verao));
+      assert.equal(data.getTime() + HORA, instante("2026-10-25", salto + 30, inverno).getTime());
+    });
+
+    it("delimita um dia de 25 horas", () => {
+      const meioDia = dataNoFuso("2026-10-25", 12 * 60, fuso);
+      const inicio = inicioDoDia(meioDia, fuso);
+      const fim = fimDoDia(meioDia, fuso);
+
+      assert.deepEqual(inicio, instante("2026-10-25", 0, verao));
+      assert.deepEqual(fim, new Date(instante("2026-10-26", 0, inverno).getTime() - 1));
+      assert.equal(fim.getTime() + 1 - inicio.getTime(), 25 * HORA);
+
+      // A segunda ocorrência da hora repetida ainda pertence ao mesmo dia
+      const repetida = instante("2026-10-25", salto + 30, inverno);
+      assert.deepEqual(inicioDoDia(repetida, fuso), inicio);
+      assert.deepEqual(fimDoDia(repetida, fuso), fim);
+    });
+
+    it("mantém a hora local ao somar dias sobre o salto", () => {
+      const sabado = dataNoFuso("2026-10-24", 10 * 60, fuso);
+      const domingo = adicionarDias(sabado, 1, fuso);
+
+      assert.deepEqual(domingo, instante("2026-10-25", 10 * 60, inverno));
+      assert.equal(domingo.getTime() - sabado.getTime(), 25 * HORA);
+      assert.deepEqual(adicionarDias(sabado, 7, fuso), instante("2026-10-31", 10 * 60, inverno));
+    });
+  });
+}
@@ -0,0 +1,239 @@
+import { getDb } from "./db";
+import { clinicas } from "../drizzle/schema";
+import { eq, sql, type SQLWrapper } from "drizzle-orm";
+
+/**
+ * Fusos Horários
+ * Toda a lógica da agenda (dias da semana, horas de abertura, início/fim do dia, mensagens)
+ * é feita no fuso horário da clínica, independentemente do fuso do servidor (normalmente UTC).
+ * As conversões usam Intl e respeitam as mudanças de hora de verão/inverno.
+ */
+
+export const FUSOS_HORARIOS = ["Europe/Lisbon", "Atlantic/Madeira", "Atlantic/Azores"] as const;
+
+export type FusoHorario = (typeof FUSOS_HORARIOS)[number];
+
+export const FUSO_PADRAO: FusoHorario = "Europe/Lisbon";
+
+/**
+ * Fuso horário do processo Node. As colunas "timestamp" (sem fuso) são gravadas pelo
+ * node-postgres na hora local do processo, por isso é este o fuso de origem nas consultas SQL
+ */
+export const FUSO_SERVIDOR = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Data e hora "de parede" num fuso horário
+ */
+export interface PartesData {
+  ano: number;
+  mes: number; // 1-12
+  dia: number;
+  hora: number;
+  minuto: number;
+  segundo: number;
+  diaSemana: number; // 0=domingo, 1=segunda, ..., 6=sábado
+}
+
+const DIAS_SEMANA_INTL: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatadores = new Map<string, Intl.DateTimeFormat>();
+
+function formatador(fuso: string): Intl.DateTimeFormat {
+  let f = formatadores.get(fuso);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: fuso,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatadores.set(fuso, f);
+  }
+  return f;
+}
+
+/**
+ * Decompor um instante na data/hora local de um fuso
+ */
+export function partesData(data: Date, fuso: string): PartesData {
+  const partes: Record<string, string> = {};
+  for (const parte of formatador(fuso).formatToParts(data)) {
+    partes[parte.type] = parte.value;
+  }
+
+  return {
+    ano: Number(partes.year),
+    mes: Number(partes.month),
+    dia: Number(partes.day),
+    hora: Number(partes.hour),
+    minuto: Number(partes.minute),
+    segundo: Number(partes.second),
+    diaSemana: DIAS_SEMANA_INTL[partes.weekday],
+  };
+}
+
+/**
+ * Minutos desde as 00:00 locais
+ */
+export function minutosDoDia(data: Date, fuso: string): number {
+  const { hora, minuto } = partesData(data, fuso);
+  return hora * 60 + minuto;
+}
+
+/**
+ * Dia da semana local (0=domingo)
+ */
+export function diaSemana(data: Date, fuso: string): number {
+  return partesData(data, fuso).diaSemana;
+}
+
+/**
+ * Data local no formato YYYY-MM-DD (formato das colunas DATE)
+ */
+export function chaveDia(data: Date, fuso: string): string {
+  const { ano, mes, dia } = partesData(data, fuso);
+  return `${ano}-${mes.toString().padStart(2, "0")}-${dia.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Somar dias a uma data YYYY-MM-DD (aritmética de calendário, sem horas)
+ */
+export function adicionarDiasChave(chave: string, dias: number): string {
+  const [ano, mes, dia] = chave.split("-").map(Number);
+  return new Date(Date.UTC(ano, mes - 1, dia + dias)).toISOString().slice(0, 10);
+}
+
+/**
+ * Somar meses a uma data YYYY-MM-DD, no mesmo dia do mês ou no último dia se não existir
+ * (31 de janeiro + 1 mês = 28/29 de fevereiro)
+ */
+export function adicionarMesesChave(chave: string, meses: number): string {
+  const [ano, mes, dia] = chave.split("-").map(Number);
+  const ultimoDia = new Date(Date.UTC(ano, mes - 1 + meses + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(ano, mes - 1 + meses, Math.min(dia, ultimoDia))).toISOString().slice(0, 10);
+}
+
+/**
+ * Diferença entre a hora local do fuso e UTC, em minutos, num dado instante
+ */
+export function deslocamentoMinutos(data: Date, fuso: string): number {
+  const p = partesData(data, fuso);
+  const comoUTC = Date.UTC(p.ano, p.mes - 1, p.dia, p.hora, p.minuto, p.segundo);
+  return Math.round((comoUTC - Math.floor(data.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Instante correspondente a uma data (YYYY-MM-DD) e hora local (minutos desde as 00:00) num fuso
+ * - Horas que não existem (mudança para a hora de verão) avançam para depois do salto
+ * - Horas repetidas (mudança para a hora de inverno) correspondem à primeira ocorrência
+ */
+export function dataNoFuso(chave: string, minutos: number, fuso: string): Date {
+  const [ano, mes, dia] = chave.split("-").map(Number);
+  const comoUTC = Date.UTC(ano, mes - 1, dia, 0, minutos);
+
+  // Deslocamentos possíveis nesse dia: antes e depois de uma eventual mudança de hora
+  const deslocamentoAntes = deslocamentoMinutos(new Date(comoUTC - 24 * 60 * 60 * 1000), fuso);
+  const deslocamentoDepois = deslocamentoMinutos(new Date(comoUTC + 24 * 60 * 60 * 1000), fuso);
+
+  const candidatos = [deslocamentoAntes, deslocamentoDepois]
+    .map(deslocamento => ({ deslocamento, instante: comoUTC - deslocamento * 60000 }))
+    .filter(c => deslocamentoMinutos(new Date(c.instante), fuso) === c.deslocamento)
+    .map(c => c.instante)
+    .sort((a, b) => a - b);
+
+  // Sem candidatos a hora não existe: com o deslocamento anterior ao salto fica depois do salto
+  return new Date(candidatos[0] ?? comoUTC - deslocamentoAntes * 60000);
+}
+
+/**
+ * Início do dia local (00:00) que contém o instante
+ */
+export function inicioDoDia(data: Date, fuso: string): Date {
+  return dataNoFuso(chaveDia(data, fuso), 0, fuso);
+}
+
+/**
+ * Último milissegundo do dia local que contém o instante
+ * (os dias de mudança de hora têm 23 ou 25 horas)
+ */
+export function fimDoDia(data: Date, fuso: string): Date {
+  const seguinte = dataNoFuso(adicionarDiasChave(chaveDia(data, fuso), 1), 0, fuso);
+  return new Date(seguinte.getTime() - 1);
+}
+
+/**
+ * Mesmo horário local, N dias depois (mantém a hora na mudança de hora de verão/inverno)
+ */
+export function adicionarDias(data: Date, dias: number, fuso: string): Date {
+  return dataNoFuso(adicionarDiasChave(chaveDia(data, fuso), dias), minutosDoDia(data, fuso), fuso);
+}
+
+/**
+ * Data por extenso para mensagens ("terça-feira, 20 de outubro")
+ */
+export function formatarDataExtenso(data: Date, fuso: string): string {
+  return data.toLocaleDateString("pt-PT", { weekday: "long", day: "numeric", month: "long", timeZone: fuso });
+}
+
+/**
+ * Hora para mensagens ("09:30")
+ */
+export function formatarHora(data: Date, fuso: string): string {
+  return data.toLocaleTimeString("pt-PT", { hour: "2-digit", minute: "2-digit", timeZone: fuso });
+}
+
+/**
+ * Data curta para mensagens ("20/10/2026")
+ */
+export function formatarDataCurta(data: Date, fuso: string): string {
+  return data.toLocaleDateString("pt-PT", { timeZone: fuso });
+}
+
+/**
+ * Converter uma coluna timestamp para a hora local da clínica, em SQL (PostgreSQL)
+ */
+export function sqlHoraLocal(coluna: SQLWrapper, fuso: string) {
+  return sql`((${coluna} AT TIME ZONE ${FUSO_SERVIDOR}) AT TIME ZONE ${fuso})`;
+}
+
+/**
+ * Verificar se é um dos fusos suportados
+ */
+export function fusoValido(fuso: string | null | undefined): fuso is FusoHorario {
+  return !!fuso && (FUSOS_HORARIOS as readonly string[]).includes(fuso);
+}
+
+const cacheFusos = new Map<number, { fuso: FusoHorario; expiraEm: number }>();
+
+/**
+ * Fuso horário de uma clínica (em cache durante 5 minutos)
+ */
+export async function obterFusoClinica(clinicaId: number): Promise<FusoHorario> {
+  const emCache = cacheFusos.get(clinicaId);
+  if (emCache && emCache.expiraEm > Date.now()) return emCache.fuso;
+
+  const db = await getDb();
+  if (!db) return FUSO_PADRAO;
+
+  const [clinica] = await db
+    .select({ fusoHorario: clinicas.fusoHorario })
+    .from(clinicas)
+    .where(eq(clinicas.id, clinicaId))
+    .limit(1);
+
+  const fuso = fusoValido(clinica?.fusoHorario) ? clinica.fusoHorario : FUSO_PADRAO;
+  cacheFusos.set(clinicaId, { fuso, expiraEm: Date.now() + 5 * 60 * 1000 });
+  return fuso;
+}
+
+/**
+ * Esquecer o fuso em cache (após alterar a clínica)
+ */
+export function limparCacheFuso(clinicaId: number) {
+  cacheFusos.delete(clinicaId);
+}
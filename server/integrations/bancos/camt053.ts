@@ -0,0 +1,168 @@
+import { XMLParser } from 'fast-xml-parser';
+import { lerData, type ExtratoLido, type MovimentoExtrato } from './movimentos';
+
+/**
+ * Extratos ISO 20022 camt.053 (BankToCustomerStatement), versões 001.02 a 001.08
+ * Cada lançamento (Ntry) dá um movimento; lançamentos agrupados com várias transações (TxDtls
+ * com valor próprio) dão um movimento por transação
+ * - Um lançamento com montante, data ou indicador de crédito/débito ilegível é um erro: o extrato
+ *   não é importado, em vez de ficar com movimentos em falta
+ */
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  isArray: nome => ['Stmt', 'Ntry', 'NtryDtls', 'TxDtls', 'Ustrd', 'Strd'].includes(nome),
+});
+
+/**
+ * Elemento de um nó do XML já lido, pelo caminho. Os nós são texto, objetos com os elementos
+ * filhos (e "#text" / "@atributo") ou listas; undefined se o caminho não existir
+ */
+function filho(no: unknown, ...caminho: string[]): unknown {
+  let atual = no;
+  for (const nome of caminho) {
+    if (typeof atual !== 'object' || atual === null || Array.isArray(atual)) return undefined;
+    atual = (atual as Record<string, unknown>)[nome];
+  }
+  return atual;
+}
+
+function lista(valor: unknown): unknown[] {
+  if (valor === undefined || valor === null) return [];
+  return Array.isArray(valor) ? valor : [valor];
+}
+
+function texto(valor: unknown): string | null {
+  if (valor === undefined || valor === null) return null;
+  if (typeof valor === 'string') return valor;
+  if (typeof valor === 'number' || typeof valor === 'boolean') return String(valor);
+  return typeof valor === 'object' && !Array.isArray(valor) ? texto(filho(valor, '#text')) : null;
+}
+
+/**
+ * Montante em cêntimos; null só se o elemento não existir (um montante ilegível é um erro)
+ */
+function montante(valor: unknown, onde: string): number | null {
+  if (valor === undefined || valor === null) return null;
+
+  const quantia = texto(valor)?.trim();
+  if (!quantia || !/^\d+(\.\d{1,5})?$/.test(quantia)) {
+    throw new Error(`${onde}: montante inválido (${quantia || 'vazio'})`);
+  }
+  return Math.round(parseFloat(quantia) * 100);
+}
+
+/**
+ * Data de um elemento com Dt ou DtTm; null só se o elemento não existir
+ */
+function data(valor: unknown, onde: string): string | null {
+  if (valor === undefined || valor === null) return null;
+
+  const lida = lerData(texto(filho(valor, 'Dt')) ?? texto(filho(valor, 'DtTm')));
+  if (!lida) throw new Error(`${onde}: data inválida`);
+  return lida;
+}
+
+/**
+ * Descrição, referência e ordenante dos detalhes da transação
+ */
+function detalhes(transacao: unknown) {
+  const remessa = filho(transacao, 'RmtInf');
+  const referenciaEstruturada = lista(filho(remessa, 'Strd'))
+    .map(s => texto(filho(s, 'CdtrRefInf', 'Ref')))
+    .find(Boolean);
+
+  // O ordenante vem em RltdPties/Dbtr/Nm ou, a partir da versão 08, em RltdPties/Dbtr/Pty/Nm
+  const devedor = filho(transacao, 'RltdPties', 'Dbtr');
+  const endToEnd = texto(filho(transacao, 'Refs', 'EndToEndId'));
+
+  return {
+    descricao: [...lista(filho(remessa, 'Ustrd')).map(texto), texto(filho(transacao, 'AddtlTxInf'))].filter(Boolean).join(' '),
+    referencia: referenciaEstruturada ?? (endToEnd && endToEnd !== 'NOTPROVIDED' ? endToEnd : null),
+    nomeOrdenante: texto(filho(devedor, 'Nm')) ?? texto(filho(devedor, 'Pty', 'Nm')),
+    ibanOrdenante: texto(filho(transacao, 'RltdPties', 'DbtrAcct', 'Id', 'IBAN')),
+  };
+}
+
+// Montante próprio de uma transação de um lançamento agrupado
+function montanteTransacao(transacao: unknown, onde: string): number | null {
+  return montante(filho(transacao, 'AmtDtls', 'TxAmt', 'Amt') ?? filho(transacao, 'Amt'), onde);
+}
+
+export function lerExtratoCamt053(conteudo: string): ExtratoLido {
+  let documento: unknown;
+  try {
+    documento = parser.parse(conteudo);
+  } catch (error) {
+    throw new Error(`XML inválido: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const extratos = lista(filho(documento, 'Document', 'BkToCstmrStmt', 'Stmt'));
+  if (extratos.length === 0) throw new Error('O ficheiro não é um extrato camt.053 (BkToCstmrStmt)');
+
+  let iban: string | null = null;
+  const movimentos: MovimentoExtrato[] = [];
+
+  for (const extrato of extratos) {
+    iban = iban ?? texto(filho(extrato, 'Acct', 'Id', 'IBAN'));
+
+    for (const [i, lancamento] of lista(filho(extrato, 'Ntry')).entries()) {
+      // Lançamentos pendentes (PDNG) ainda não estão no saldo contabilístico
+      const estado = texto(filho(lancamento, 'Sts', 'Cd')) ?? texto(filho(lancamento, 'Sts'));
+      if (estado && estado !== 'BOOK') continue;
+
+      const referenciaBanco = texto(filho(lancamento, 'AcctSvcrRef'));
+      const onde = `Lançamento ${referenciaBanco ?? i + 1}`;
+
+      const indicador = texto(filho(lancamento, 'CdtDbtInd'));
+      if (indicador !== 'CRDT' && indicador !== 'DBIT') {
+        throw new Error(`${onde}: indicador de crédito/débito inválido (${indicador ?? 'vazio'})`);
+      }
+      const sinal = indicador === 'DBIT' ? -1 : 1;
+
+      const dataValor = data(filho(lancamento, 'ValDt'), onde);
+      const dataMovimento = data(filho(lancamento, 'BookgDt'), onde) ?? dataValor;
+      if (!dataMovimento) throw new Error(`${onde}: sem data de movimento nem data valor`);
+
+      const descricaoLancamento = texto(filho(lancamento, 'AddtlNtryInf')) ?? '';
+      const transacoes = lista(filho(lancamento, 'NtryDtls')).flatMap(d => lista(filho(d, 'TxDtls')));
+      const comValorProprio = transacoes.length > 1 && transacoes.every(t => montanteTransacao(t, onde) !== null);
+
+      if (comValorProprio) {
+        for (const transacao of transacoes) {
+          const info = detalhes(transacao);
+          movimentos.push({
+            dataMovimento,
+            dataValor,
+            descricao: info.descricao || descricaoLancamento,
+            valorCentimos: sinal * montanteTransacao(transacao, onde)!,
+            referencia: info.referencia ?? referenciaBanco,
+            nomeOrdenante: info.nomeOrdenante,
+            ibanOrdenante: info.ibanOrdenante,
+          });
+        }
+        continue;
+      }
+
+      const valor = montante(filho(lancamento, 'Amt'), onde);
+      if (valor === null) throw new Error(`${onde}: sem montante`);
+      if (valor === 0) continue;
+
+      const info = detalhes(transacoes[0]);
+      movimentos.push({
+        dataMovimento,
+        dataValor,
+        descricao: [descricaoLancamento, info.descricao].filter(Boolean).join(' '),
+        valorCentimos: sinal * valor,
+        referencia: info.referencia ?? referenciaBanco,
+        nomeOrdenante: info.nomeOrdenante,
+        ibanOrdenante: info.ibanOrdenante,
+      });
+    }
+  }
+
+  return { formato: 'camt053', iban, movimentos };
+}
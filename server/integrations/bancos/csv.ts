@@ -0,0 +1,169 @@
+import { lerData, lerValor, type ExtratoLido, type MovimentoExtrato } from './movimentos';
+
+/**
+ * Extratos em CSV dos principais bancos portugueses
+ * Os ficheiros exportados pelo homebanking têm linhas de cabeçalho (titular, conta, período)
+ * antes da tabela de movimentos; a tabela é encontrada pela linha com os nomes das colunas.
+ * Cada perfil indica os nomes possíveis de cada coluna (sem acentos, em minúsculas)
+ */
+
+interface PerfilBanco {
+  nome: string;
+  data: string[];
+  dataValor: string[];
+  descricao: string[];
+  montante?: string[]; // Uma coluna com sinal...
+  debito?: string[]; // ...ou débito e crédito em colunas separadas
+  credito?: string[];
+}
+
+export const PERFIS_BANCO: PerfilBanco[] = [
+  {
+    nome: 'cgd',
+    data: ['data mov.', 'data movimento', 'data mov'],
+    dataValor: ['data valor'],
+    descricao: ['descricao', 'descritivo'],
+    debito: ['debito'],
+    credito: ['credito'],
+  },
+  {
+    nome: 'millennium',
+    data: ['data lancamento', 'data de lancamento'],
+    dataValor: ['data valor', 'data de valor'],
+    descricao: ['descricao'],
+    montante: ['montante', 'valor'],
+  },
+  {
+    nome: 'novobanco',
+    data: ['data operacao', 'data da operacao'],
+    dataValor: ['data valor'],
+    descricao: ['descricao'],
+    debito: ['debito'],
+    credito: ['credito'],
+  },
+  {
+    nome: 'santander',
+    data: ['data operacao', 'data da operacao'],
+    dataValor: ['data valor'],
+    descricao: ['descricao'],
+    montante: ['montante', 'valor'],
+  },
+  {
+    nome: 'bpi',
+    data: ['data mov.', 'data movimento'],
+    dataValor: ['data valor'],
+    descricao: ['descricao do movimento', 'descricao'],
+    montante: ['valor', 'montante'],
+  },
+  {
+    nome: 'montepio',
+    data: ['data', 'data movimento'],
+    dataValor: ['data valor'],
+    descricao: ['descricao', 'movimento'],
+    montante: ['montante', 'valor', 'importancia'],
+  },
+  {
+    nome: 'creditoagricola',
+    data: ['data', 'data mov.'],
+    dataValor: ['data valor'],
+    descricao: ['descricao'],
+    debito: ['debito'],
+    credito: ['credito'],
+  },
+];
+
+function normalizar(texto: string): string {
+  return texto.trim().replace(/^"|"$/g, '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Dividir uma linha CSV, respeitando aspas
+ */
+function dividirLinha(linha: string, separador: string): string[] {
+  const campos: string[] = [];
+  let atual = '';
+  let aspas = false;
+
+  for (let i = 0; i < linha.length; i++) {
+    const c = linha[i];
+    if (c === '"') {
+      if (aspas && linha[i + 1] === '"') {
+        atual += '"';
+        i++;
+      } else {
+        aspas = !aspas;
+      }
+    } else if (c === separador && !aspas) {
+      campos.push(atual.trim());
+      atual = '';
+    } else {
+      atual += c;
+    }
+  }
+  campos.push(atual.trim());
+  return campos;
+}
+
+function indiceColuna(cabecalho: string[], nomes: string[] | undefined): number {
+  if (!nomes) return -1;
+  return cabecalho.findIndex(c => nomes.includes(c));
+}
+
+/**
+ * Ler um extrato CSV; sem perfil indicado, usa o primeiro cujas colunas existam no ficheiro
+ */
+export function lerExtratoCSV(conteudo: string, perfil?: string): ExtratoLido {
+  const linhas = conteudo.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const perfis = perfil ? PERFIS_BANCO.filter(p => p.nome === perfil) : PERFIS_BANCO;
+  if (perfis.length === 0) throw new Error(`Perfil de banco desconhecido: ${perfil}`);
+
+  // IBAN nas linhas de cabeçalho do ficheiro, se existir
+  const iban = conteudo.match(/\bPT50\s?(?:\d{4}\s?){5}\d\b/)?.[0].replace(/\s/g, '') ?? null;
+
+  for (let i = 0; i < linhas.length; i++) {
+    const separador = linhas[i].split(';').length >= linhas[i].split(',').length ? ';' : ',';
+    const cabecalho = dividirLinha(linhas[i], separador).map(normalizar);
+
+    for (const p of perfis) {
+      const colunas = {
+        data: indiceColuna(cabecalho, p.data),
+        dataValor: indiceColuna(cabecalho, p.dataValor),
+        descricao: indiceColuna(cabecalho, p.descricao),
+        montante: indiceColuna(cabecalho, p.montante),
+        debito: indiceColuna(cabecalho, p.debito),
+        credito: indiceColuna(cabecalho, p.credito),
+      };
+      const temValor = colunas.montante >= 0 || (colunas.debito >= 0 && colunas.credito >= 0);
+      if (colunas.data < 0 || colunas.descricao < 0 || !temValor) continue;
+
+      const movimentos: MovimentoExtrato[] = [];
+      for (const linha of linhas.slice(i + 1)) {
+        if (!linha.trim()) continue;
+        const campos = dividirLinha(linha, separador);
+
+        // Linhas de totais ou de saldo no fim do ficheiro não têm data
+        const dataMovimento = lerData(campos[colunas.data]);
+        if (!dataMovimento) continue;
+
+        const valor = colunas.montante >= 0
+          ? lerValor(campos[colunas.montante])
+          : (lerValor(campos[colunas.credito]) ?? 0) - Math.abs(lerValor(campos[colunas.debito]) ?? 0);
+        if (!valor) continue;
+
+        movimentos.push({
+          dataMovimento,
+          dataValor: colunas.dataValor >= 0 ? lerData(campos[colunas.dataValor]) : null,
+          descricao: campos[colunas.descricao] || '',
+          valorCentimos: valor,
+          referencia: null,
+          nomeOrdenante: null,
+          ibanOrdenante: null,
+        });
+      }
+
+      return { formato: p.nome, iban, movimentos };
+    }
+  }
+
+  throw new Error('Não foi possível reconhecer o formato do extrato (colunas de data, descrição e valor)');
+}
@@ -0,0 +1,56 @@
+/**
+ * Movimento de um extrato bancário, já normalizado (valor em cêntimos: positivo = crédito)
+ */
+export interface MovimentoExtrato {
+  dataMovimento: string; // YYYY-MM-DD
+  dataValor: string | null;
+  descricao: string;
+  valorCentimos: number;
+  referencia: string | null; // Referência do banco ou do ordenante (EndToEndId, referência estruturada)
+  nomeOrdenante: string | null;
+  ibanOrdenante: string | null;
+}
+
+export interface ExtratoLido {
+  formato: string; // Perfil do banco ou "camt053"
+  iban: string | null;
+  movimentos: MovimentoExtrato[];
+}
+
+/**
+ * Valor em cêntimos a partir dos formatos usados pelos bancos: "1.234,56", "-1234,56", "1234.56", "1 234,56 €"
+ */
+export function lerValor(texto: string | undefined | null): number | null {
+  if (texto === undefined || texto === null) return null;
+
+  let limpo = texto.replace(/[\s€]|EUR/g, '').replace(/^\+/, '');
+  if (!limpo) return null;
+
+  const negativo = /^-|-$|^\(.*\)$/.test(limpo);
+  limpo = limpo.replace(/[-()]/g, '');
+
+  // O último separador é o decimal
+  const decimal = Math.max(limpo.lastIndexOf(','), limpo.lastIndexOf('.'));
+  const inteiro = decimal >= 0 ? limpo.slice(0, decimal).replace(/[.,]/g, '') : limpo;
+  const casas = decimal >= 0 ? limpo.slice(decimal + 1) : '';
+  if (!/^\d*$/.test(inteiro) || !/^\d{0,2}$/.test(casas) || (!inteiro && !casas)) return null;
+
+  const valor = Number(inteiro || '0') * 100 + Number(casas.padEnd(2, '0') || '0');
+  return negativo ? -valor : valor;
+}
+
+/**
+ * Data YYYY-MM-DD a partir de "dd-mm-aaaa", "dd/mm/aaaa", "dd.mm.aaaa" ou "aaaa-mm-dd"
+ */
+export function lerData(texto: string | undefined | null): string | null {
+  const valor = texto?.trim() ?? '';
+
+  const iso = valor.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const pt = valor.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+  if (!pt) return null;
+
+  const ano = pt[3].length === 2 ? `20${pt[3]}` : pt[3];
+  return `${ano}-${pt[2].padStart(2, '0')}-${pt[1].padStart(2, '0')}`;
+}
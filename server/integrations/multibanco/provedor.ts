@@ -0,0 +1,204 @@
+import { calcularReferencia } from './referencias';
+import { FUSO_PADRAO, dataNoFuso } from '../../fuso-horario';
+
+/**
+ * Provedores de Pagamentos Multibanco
+ * Cada clínica escolhe o provedor na configuração Multibanco. Todos geram a referência com o
+ * algoritmo padrão (modo offline: não há pedido ao provedor) e diferem na forma como
+ * notificam os pagamentos:
+ * - ifthenpay: callback HTTP com chave anti-phishing e ficheiro de pagamentos
+ * - simulador: para desenvolvimento, os pagamentos são simulados na própria aplicação
+ */
+
+export type NomeProvedorMultibanco = 'ifthenpay' | 'simulador';
+
+export interface PedidoReferencia {
+  entidade: string;
+  subentidade: string;
+  sequencia: number;
+  valorCentimos: number;
+}
+
+export interface ReferenciaGerada {
+  entidade: string;
+  referencia: string;
+  valorCentimos: number;
+}
+
+/**
+ * Pagamento de uma referência comunicado pelo provedor
+ */
+export interface NotificacaoMultibanco {
+  entidade: string;
+  referencia: string;
+  valorCentimos: number;
+  dataPagamento: Date;
+  idTransacao: string; // Identifica o pagamento: notificações repetidas não são registadas duas vezes
+  terminal?: string;
+}
+
+export interface ProvedorMultibanco {
+  readonly nome: NomeProvedorMultibanco;
+  readonly simulado: boolean; // Sem pagamentos reais: não aceita callbacks e não pode ser usado em produção
+
+  gerarReferencia(pedido: PedidoReferencia): Promise<ReferenciaGerada>;
+
+  /**
+   * Ler o callback de pagamento (parâmetros do pedido HTTP), validando a chave da clínica
+   */
+  lerCallback(parametros: Record<string, string | undefined>, chaveAntiPhishing: string | null): NotificacaoMultibanco;
+
+  /**
+   * Ler um ficheiro de pagamentos exportado do provedor
+   */
+  lerFicheiro(conteudo: string): NotificacaoMultibanco[];
+}
+
+function gerarReferenciaLocal(pedido: PedidoReferencia): ReferenciaGerada {
+  return {
+    entidade: pedido.entidade,
+    referencia: calcularReferencia(pedido),
+    valorCentimos: pedido.valorCentimos,
+  };
+}
+
+function valorEmCentimos(texto: string | undefined): number {
+  const valor = Math.round(parseFloat((texto || '').replace(',', '.')) * 100);
+  if (!Number.isFinite(valor) || valor <= 0) throw new Error(`Valor de pagamento inválido: ${texto}`);
+  return valor;
+}
+
+/**
+ * Datas do provedor, na hora de Portugal continental: "dd-mm-aaaa hh:mm:ss", "dd/mm/aaaa hh:mm" ou ISO
+ */
+function lerData(texto: string | undefined): Date {
+  const partes = texto?.trim().match(/^(\d{2})[-/](\d{2})[-/](\d{4})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  const data = partes
+    ? new Date(
+        dataNoFuso(`${partes[3]}-${partes[2]}-${partes[1]}`, Number(partes[4] || 0) * 60 + Number(partes[5] || 0), FUSO_PADRAO)
+          .getTime() + Number(partes[6] || 0) * 1000
+      )
+    : new Date(texto || '');
+
+  if (isNaN(data.getTime())) throw new Error(`Data de pagamento inválida: ${texto}`);
+  return data;
+}
+
+function normalizarReferencia(texto: string | undefined): string {
+  const referencia = (texto || '').replace(/\s/g, '');
+  if (!/^\d{9}$/.test(referencia)) throw new Error(`Referência inválida: ${texto}`);
+  return referencia;
+}
+
+/**
+ * Ficheiro de pagamentos em CSV (separador ";" ou ","), com cabeçalho e as colunas
+ * entidade, referencia, valor, data e, opcionalmente, id/idtransacao e terminal
+ */
+function lerFicheiroCSV(conteudo: string): NotificacaoMultibanco[] {
+  const linhas = conteudo.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  if (linhas.length < 2) return [];
+
+  const separador = linhas[0].includes(';') ? ';' : ',';
+  const cabecalho = linhas[0].split(separador).map(c => c.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, ''));
+  const coluna = (...nomes: string[]) => cabecalho.findIndex(c => nomes.includes(c));
+
+  const indices = {
+    entidade: coluna('entidade'),
+    referencia: coluna('referencia'),
+    valor: coluna('valor', 'montante'),
+    data: coluna('data', 'datahorapag', 'data pagamento', 'data_pagamento'),
+    id: coluna('id', 'idtransacao', 'id_transacao'),
+    terminal: coluna('terminal'),
+  };
+  if (indices.entidade < 0 || indices.referencia < 0 || indices.valor < 0 || indices.data < 0) {
+    throw new Error('O ficheiro tem de ter as colunas entidade, referencia, valor e data');
+  }
+
+  return linhas.slice(1).map((linha, i) => {
+    const campos = linha.split(separador).map(c => c.trim().replace(/^"|"$/g, ''));
+    try {
+      const notificacao = {
+        entidade: campos[indices.entidade],
+        referencia: normalizarReferencia(campos[indices.referencia]),
+        valorCentimos: valorEmCentimos(campos[indices.valor]),
+        dataPagamento: lerData(campos[indices.data]),
+        terminal: indices.terminal >= 0 ? campos[indices.terminal] : undefined,
+      };
+      const idTransacao = indices.id >= 0 && campos[indices.id]
+        ? campos[indices.id]
+        : `${notificacao.entidade}-${notificacao.referencia}-${notificacao.dataPagamento.toISOString()}`;
+
+      return { ...notificacao, idTransacao };
+    } catch (error: any) {
+      throw new Error(`Linha ${i + 2}: ${error.message}`);
+    }
+  });
+}
+
+/**
+ * IfThenPay: callback GET com chave, entidade, referencia, valor, datahorapag, terminal e id
+ */
+const ifthenpay: ProvedorMultibanco = {
+  nome: 'ifthenpay',
+  simulado: false,
+
+  async gerarReferencia(pedido) {
+    return gerarReferenciaLocal(pedido);
+  },
+
+  lerCallback(parametros, chaveAntiPhishing) {
+    if (!chaveAntiPhishing || parametros.chave !== chaveAntiPhishing) {
+      throw new Error('Chave anti-phishing inválida');
+    }
+
+    const notificacao = {
+      entidade: parametros.entidade || '',
+      referencia: normalizarReferencia(parametros.referencia),
+      valorCentimos: valorEmCentimos(parametros.valor),
+      dataPagamento: lerData(parametros.datahorapag),
+      terminal: parametros.terminal,
+    };
+
+    return {
+      ...notificacao,
+      idTransacao: parametros.id || parametros.idpedido
+        || `${notificacao.entidade}-${notificacao.referencia}-${notificacao.dataPagamento.toISOString()}`,
+    };
+  },
+
+  lerFicheiro: lerFicheiroCSV,
+};
+
+/**
+ * Simulador para desenvolvimento: os pagamentos só são registados pela própria aplicação
+ * (simularPagamento), nunca pelo callback público
+ */
+const simulador: ProvedorMultibanco = {
+  nome: 'simulador',
+  simulado: true,
+
+  async gerarReferencia(pedido) {
+    return gerarReferenciaLocal(pedido);
+  },
+
+  lerCallback(parametros) {
+    return {
+      entidade: parametros.entidade || '',
+      referencia: normalizarReferencia(parametros.referencia),
+      valorCentimos: valorEmCentimos(parametros.valor),
+      dataPagamento: parametros.datahorapag ? lerData(parametros.datahorapag) : new Date(),
+      idTransacao: parametros.id || `SIM-${Date.now()}`,
+      terminal: parametros.terminal || 'SIMULADOR',
+    };
+  },
+
+  lerFicheiro: lerFicheiroCSV,
+};
+
+const PROVEDORES: Record<NomeProvedorMultibanco, ProvedorMultibanco> = { ifthenpay, simulador };
+
+export function obterProvedorMultibanco(nome: string): ProvedorMultibanco {
+  const provedor = PROVEDORES[nome as NomeProvedorMultibanco];
+  if (!provedor) throw new Error(`Provedor Multibanco desconhecido: ${nome}`);
+  return provedor;
+}
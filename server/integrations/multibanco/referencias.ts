@@ -0,0 +1,65 @@
+/**
+ * Referências Multibanco
+ * Algoritmo padrão de cálculo dos dígitos de controlo (referências geradas localmente, sem
+ * pedido ao provedor): referência = subentidade (3) + sequência (4) + controlo (2)
+ */
+
+// Pesos aplicados aos 20 dígitos (entidade + subentidade + sequência + valor), da direita para a esquerda
+const PESOS = [3, 30, 9, 90, 27, 76, 81, 34, 49, 5, 50, 15, 53, 45, 62, 38, 89, 17, 73, 51];
+
+export const VALOR_MAXIMO_CENTIMOS = 99999999;
+
+/**
+ * Calcular a referência de 9 dígitos para um valor (cêntimos)
+ */
+export function calcularReferencia(dados: {
+  entidade: string;
+  subentidade: string;
+  sequencia: number;
+  valorCentimos: number;
+}): string {
+  if (!/^\d{5}$/.test(dados.entidade)) throw new Error('A entidade Multibanco tem de ter 5 dígitos');
+  if (!/^\d{3}$/.test(dados.subentidade)) throw new Error('A subentidade Multibanco tem de ter 3 dígitos');
+  if (!Number.isInteger(dados.sequencia) || dados.sequencia < 0 || dados.sequencia > 9999) {
+    throw new Error('A sequência da referência tem de estar entre 0 e 9999');
+  }
+  if (dados.valorCentimos <= 0 || dados.valorCentimos > VALOR_MAXIMO_CENTIMOS) {
+    throw new Error('Valor inválido para pagamento Multibanco');
+  }
+
+  const sequencia = dados.sequencia.toString().padStart(4, '0');
+  const digitos = `${dados.entidade}${dados.subentidade}${sequencia}${dados.valorCentimos.toString().padStart(8, '0')}`;
+
+  let soma = 0;
+  for (let i = 0; i < 20; i++) {
+    soma += Number(digitos[19 - i]) * PESOS[i];
+  }
+  const controlo = (98 - (soma % 97)).toString().padStart(2, '0');
+
+  return `${dados.subentidade}${sequencia}${controlo}`;
+}
+
+/**
+ * Confirmar que a referência corresponde à entidade e ao valor (dígitos de controlo)
+ */
+export function referenciaValida(entidade: string, referencia: string, valorCentimos: number): boolean {
+  if (!/^\d{9}$/.test(referencia)) return false;
+
+  try {
+    return calcularReferencia({
+      entidade,
+      subentidade: referencia.slice(0, 3),
+      sequencia: parseInt(referencia.slice(3, 7), 10),
+      valorCentimos,
+    }) === referencia;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Referência como é apresentada ao utente: "123 456 789"
+ */
+export function formatarReferencia(referencia: string): string {
+  return referencia.replace(/(\d{3})(\d{3})(\d{3})/, '$1 $2 $3');
+}
@@ -2,7 +2,10 @@ import { getStripeClient } from './client';
 import type Stripe from 'stripe';
 import { getDb } from '../../db';
 import { faturas, pagamentosFatura } from '../../../drizzle/schema';
+import { notasCredito } from '../../../drizzle/schema-faturacao';
 import { eq } from 'drizzle-orm';
+import { emitirNotaCredito } from '../../notas-credito';
+import { terminarCobrancasPagamento } from '../../cobrancas';
 
 /**
  * Processar webhook do Stripe
@@ -99,6 +102,8 @@ async function processarCheckoutCompleto(session: Stripe.Checkout.Session): Prom
     dataPagamento: new Date(),
   });
 
+  await terminarCobrancasPagamento(db, [parseInt(faturaId)]);
+
   console.log(`[Stripe Webhook] Fatura #${faturaId} marcada como paga`);
 }
 
@@ -130,6 +135,8 @@ async function processarPagamentoSucesso(paymentIntent: Stripe.PaymentIntent): P
     })
     .where(eq(faturas.id, parseInt(faturaId)));
 
+  await terminarCobrancasPagamento(db, [parseInt(faturaId)]);
+
   console.log(`[Stripe Webhook] Fatura #${faturaId} marcada como paga`);
 }
 
@@ -150,6 +157,8 @@ async function processarPagamentoFalhou(paymentIntent: Stripe.PaymentIntent): Pr
 
 /**
  * Processar reembolso
+ * Cada reembolso do Stripe dá origem a uma nota de crédito sobre a fatura paga (uma só vez,
+ * mesmo que o evento seja recebido várias vezes: o id do reembolso fica na nota)
  */
 async function processarReembolso(charge: Stripe.Charge): Promise<void> {
   const db = await getDb();
@@ -160,6 +169,58 @@ async function processarReembolso(charge: Stripe.Charge): Promise<void> {
 
   console.log(`[Stripe Webhook] Reembolso processado: ${charge.id}`);
 
-  // Aqui você pode adicionar lógica para atualizar o status da fatura
-  // ou registrar o reembolso no histórico de pagamentos
+  const stripe = getStripeClient();
+  const paymentIntentId = typeof charge.payment_intent === 'string'
+    ? charge.payment_intent
+    : charge.payment_intent?.id;
+
+  // A fatura vem nos metadata do pagamento ou da sessão de checkout que o originou
+  let faturaId: string | undefined = charge.metadata?.faturaId;
+  if (!faturaId && paymentIntentId) {
+    const sessoes = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+    faturaId = sessoes.data[0]?.metadata?.faturaId;
+  }
+  if (!faturaId) return;
+
+  const [fatura] = await db
+    .select()
+    .from(faturas)
+    .where(eq(faturas.id, parseInt(faturaId)))
+    .limit(1);
+  if (!fatura) {
+    console.error(`[Stripe Webhook] Fatura #${faturaId} não encontrada`);
+    return;
+  }
+
+  const reembolsos = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+
+  for (const reembolso of reembolsos.data) {
+    if (reembolso.status !== 'succeeded') continue;
+
+    const [existente] = await db
+      .select({ id: notasCredito.id })
+      .from(notasCredito)
+      .where(eq(notasCredito.referenciaExterna, reembolso.id))
+      .limit(1);
+    if (existente) continue;
+
+    try {
+      await emitirNotaCredito({
+        clinicaId: fatura.clinicaId,
+        faturaId: fatura.id,
+        motivo: reembolso.metadata?.motivo || 'Reembolso de pagamento por cartão',
+        valor: reembolso.amount / 100,
+        reembolso: {
+          metodoPagamento: 'cartao',
+          referencia: reembolso.id,
+        },
+        referenciaExterna: reembolso.id,
+        userId: null,
+      });
+    } catch (error: any) {
+      // Outro evento do mesmo reembolso já emitiu a nota
+      if (error?.code === '23505') continue;
+      console.error(`[Stripe Webhook] Erro ao emitir nota de crédito do reembolso ${reembolso.id}:`, error);
+    }
+  }
 }
@@ -0,0 +1,17 @@
+import twilio from 'twilio';
+import type { Request } from 'express';
+
+/**
+ * Validar a assinatura (X-Twilio-Signature) de um webhook do Twilio
+ * A assinatura cobre o URL do pedido e os parâmetros do POST, com o TWILIO_AUTH_TOKEN da conta.
+ * Sem token configurado nenhum pedido é aceite
+ */
+export function assinaturaTwilioValida(req: Request, parametros: Record<string, unknown>): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const assinatura = req.get('X-Twilio-Signature');
+  if (!authToken || !assinatura) return false;
+
+  // Atrás do proxy, o protocolo e o host vêm dos cabeçalhos X-Forwarded-* (trust proxy)
+  const url = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+  return twilio.validateRequest(authToken, assinatura, url, parametros);
+}
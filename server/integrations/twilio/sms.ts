@@ -176,6 +176,15 @@ function normalizarNumeroTelefone(numero: string): string {
   return cleaned;
 }
 
+/**
+ * Formas em que o mesmo número pode estar guardado na ficha do utente (com ou sem indicativo)
+ */
+export function variantesNumeroTelefone(numero: string): string[] {
+  const limpo = numero.replace(/[\s\-\(\)]/g, '').replace(/^00/, '+');
+  const nacional = limpo.replace(/^\+?351(?=\d{9}$)/, '');
+  return Array.from(new Set([numero, limpo, nacional, `+351${nacional}`]));
+}
+
 /**
  * Registrar mensagem no banco de dados
  */
@@ -0,0 +1,558 @@
+/**
+ * Serviço de Lista de Espera
+ *
+ * Funcionalidades:
+ * - Classificação dos utentes em espera para uma vaga libertada
+ * - Oferta da vaga por WhatsApp (ou SMS) aos melhores candidatos
+ * - Aceitação por resposta "SIM", com bloqueio para a vaga não ser marcada duas vezes
+ * - Expiração das ofertas sem resposta e nova ronda de ofertas
+ */
+
+import { getDb, type Tx } from './db';
+import { consultas, utentes, dentistas, clinicas, procedimentos } from '../drizzle/schema';
+import { listaEspera, ofertasVaga, type EntradaListaEspera, type OfertaVaga } from '../drizzle/schema-agenda';
+import { eq, and, gt, lt, inArray, desc } from 'drizzle-orm';
+import { whatsappService } from './whatsapp-service';
+import { enviarSMS, variantesNumeroTelefone } from './integrations/twilio/sms';
+import {
+  bloquearAgenda,
+  horaParaMinutos,
+  verificarConflitoHorario,
+  verificarConflitoUtenteHorario,
+} from './validacoes-agenda';
+import { verificarDisponibilidadeRecursos, atribuirRecursosConsulta } from './recursos-agenda';
+import { diaSemana as diaSemanaNoFuso, formatarDataExtenso, formatarHora, minutosDoDia, obterFusoClinica } from './fuso-horario';
+
+/**
+ * Número de candidatos contactados em simultâneo por ronda
+ */
+const OFERTAS_POR_RONDA = 3;
+
+/**
+ * Tempo que cada oferta fica válida sem resposta
+ */
+const VALIDADE_OFERTA_MINUTOS = 120;
+
+/**
+ * Vagas que começam em menos tempo do que isto já não são oferecidas
+ */
+const ANTECEDENCIA_MINIMA_MINUTOS = 60;
+
+/**
+ * Vaga na agenda de um dentista
+ */
+export interface Vaga {
+  clinicaId: number;
+  dentistaId: number;
+  procedimentoId: number | null;
+  horaInicio: Date;
+  horaFim: Date;
+  consultaOrigemId: number | null;
+}
+
+/**
+ * Candidato da lista de espera para uma vaga
+ */
+export interface CandidatoVaga {
+  entrada: EntradaListaEspera;
+  pontuacao: number;
+}
+
+/**
+ * Resultado da aceitação de uma oferta
+ */
+export interface ResultadoAceitacao {
+  aceite: boolean;
+  consultaId?: number;
+  motivo?: string;
+}
+
+export class ListaEsperaService {
+  /**
+   * Processar uma vaga libertada por cancelamento ou falta
+   * Chamado depois de a consulta passar a "cancelada" ou "faltou"
+   */
+  static async processarVagaLibertada(consultaId: number): Promise<{ ofertas: number }> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const [consulta] = await db
+      .select()
+      .from(consultas)
+      .where(eq(consultas.id, consultaId))
+      .limit(1);
+
+    if (!consulta || !['cancelada', 'faltou'].includes(consulta.estado)) {
+      return { ofertas: 0 };
+    }
+
+    return await this.ofertarVaga({
+      clinicaId: consulta.clinicaId,
+      dentistaId: consulta.dentistaId,
+      procedimentoId: consulta.procedimentoId,
+      horaInicio: consulta.horaInicio,
+      horaFim: consulta.horaFim,
+      consultaOrigemId: consulta.id,
+    }, [consulta.utenteId]);
+  }
+
+  /**
+   * Oferecer uma vaga aos próximos candidatos ainda não contactados
+   */
+  static async ofertarVaga(vaga: Vaga, excluirUtenteIds: number[] = []): Promise<{ ofertas: number }> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const limite = new Date(Date.now() + ANTECEDENCIA_MINIMA_MINUTOS * 60 * 1000);
+    if (vaga.horaInicio < limite) {
+      return { ofertas: 0 };
+    }
+
+    // A vaga continua livre?
+    const conflito = await verificarConflitoHorario({
+      dentistaId: vaga.dentistaId,
+      horaInicio: vaga.horaInicio,
+      horaFim: vaga.horaFim,
+    });
+    if (!conflito.valido) {
+      return { ofertas: 0 };
+    }
+
+    // Ofertas já feitas para esta vaga (qualquer estado) não se repetem
+    const ofertasAnteriores = await db
+      .select()
+      .from(ofertasVaga)
+      .where(and(
+        eq(ofertasVaga.dentistaId, vaga.dentistaId),
+        eq(ofertasVaga.horaInicio, vaga.horaInicio)
+      ));
+
+    if (ofertasAnteriores.some(o => o.estado === 'pendente' || o.estado === 'aceite')) {
+      return { ofertas: 0 };
+    }
+
+    const candidatos = await this.classificarCandidatos(vaga, [
+      ...excluirUtenteIds,
+      ...ofertasAnteriores.map(o => o.utenteId),
+    ]);
+
+    const [clinica] = await db.select().from(clinicas).where(eq(clinicas.id, vaga.clinicaId)).limit(1);
+    const [dentista] = await db.select().from(dentistas).where(eq(dentistas.id, vaga.dentistaId)).limit(1);
+
+    const validadeMs = VALIDADE_OFERTA_MINUTOS * 60 * 1000;
+    const expiraEm = new Date(Math.min(Date.now() + validadeMs, vaga.horaInicio.getTime() - validadeMs / 4));
+
+    let ofertas = 0;
+    for (const candidato of candidatos) {
+      if (ofertas >= OFERTAS_POR_RONDA) break;
+
+      const [utente] = await db
+        .select()
+        .from(utentes)
+        .where(eq(utentes.id, candidato.entrada.utenteId))
+        .limit(1);
+      if (!utente) continue;
+
+      const mensagem = this.gerarMensagemOferta({
+        nomeUtente: utente.nome,
+        nomeClinica: clinica?.nome || 'Clínica',
+        nomeDentista: dentista?.nome || '',
+        horaInicio: vaga.horaInicio,
+        expiraEm,
+        fusoHorario: await obterFusoClinica(vaga.clinicaId),
+      });
+
+      const canal = await this.enviarMensagem(utente, mensagem);
+      if (!canal) continue;
+
+      await db.insert(ofertasVaga).values({
+        clinicaId: vaga.clinicaId,
+        listaEsperaId: candidato.entrada.id,
+        utenteId: utente.id,
+        dentistaId: vaga.dentistaId,
+        procedimentoId: vaga.procedimentoId,
+        horaInicio: vaga.horaInicio,
+        horaFim: vaga.horaFim,
+        consultaOrigemId: vaga.consultaOrigemId,
+        canal,
+        pontuacao: candidato.pontuacao,
+        expiraEm,
+      });
+      ofertas++;
+    }
+
+    return { ofertas };
+  }
+
+  /**
+   * Classificar os utentes em espera para uma vaga
+   * Exclui quem não é compatível (dentista, dias, janela horária, duração do procedimento
+   * ou já tem consulta à mesma hora) e ordena pelos restantes critérios
+   */
+  static async classificarCandidatos(vaga: Vaga, excluirUtenteIds: number[] = []): Promise<CandidatoVaga[]> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const entradas = await db
+      .select()
+      .from(listaEspera)
+      .where(and(
+        eq(listaEspera.clinicaId, vaga.clinicaId),
+        eq(listaEspera.estado, 'ativa')
+      ));
+
+    // Duração dos procedimentos pretendidos
+    const procedimentoIds = Array.from(new Set(
+      entradas.map(e => e.procedimentoId).filter((id): id is number => id !== null)
+    ));
+    const duracoes = new Map<number, number>();
+    if (procedimentoIds.length > 0) {
+      const procs = await db
+        .select({ id: procedimentos.id, duracaoMinutos: procedimentos.duracaoMinutos })
+        .from(procedimentos)
+        .where(inArray(procedimentos.id, procedimentoIds));
+      procs.forEach(p => duracoes.set(p.id, p.duracaoMinutos ?? 30));
+    }
+
+    const duracaoVaga = (vaga.horaFim.getTime() - vaga.horaInicio.getTime()) / 60000;
+    const fuso = await obterFusoClinica(vaga.clinicaId);
+    const diaSemana = diaSemanaNoFuso(vaga.horaInicio, fuso);
+    const minutoInicio = minutosDoDia(vaga.horaInicio, fuso);
+    const minutoFim = minutoInicio + duracaoVaga;
+    const agora = Date.now();
+
+    const candidatos: CandidatoVaga[] = [];
+
+    for (const entrada of entradas) {
+      if (excluirUtenteIds.includes(entrada.utenteId)) continue;
+
+      let pontuacao = 0;
+
+      // Dentista preferido
+      if (entrada.dentistaId !== null) {
+        if (entrada.dentistaId !== vaga.dentistaId) continue;
+        pontuacao += 30;
+      }
+
+      // Procedimento: tem de caber na vaga
+      if (entrada.procedimentoId !== null) {
+        const duracao = duracoes.get(entrada.procedimentoId) ?? 30;
+        if (duracao > duracaoVaga) continue;
+        if (entrada.procedimentoId === vaga.procedimentoId) pontuacao += 20;
+      }
+
+      // Dias da semana preferidos
+      if (entrada.diasSemana && entrada.diasSemana.length > 0) {
+        if (!entrada.diasSemana.includes(diaSemana)) continue;
+        pontuacao += 10;
+      }
+
+      // Janela horária preferida
+      if (entrada.horaInicioPreferida && entrada.horaFimPreferida) {
+        if (
+          minutoInicio < horaParaMinutos(entrada.horaInicioPreferida) ||
+          minutoFim > horaParaMinutos(entrada.horaFimPreferida)
+        ) {
+          continue;
+        }
+        pontuacao += 10;
+      }
+
+      // Prioridade clínica e tempo em espera (1 ponto por dia, até 60)
+      pontuacao += entrada.prioridade * 25;
+      pontuacao += Math.min(Math.floor((agora - entrada.createdAt.getTime()) / 86400000), 60);
+
+      candidatos.push({ entrada, pontuacao });
+    }
+
+    candidatos.sort((a, b) =>
+      b.pontuacao - a.pontuacao || a.entrada.createdAt.getTime() - b.entrada.createdAt.getTime()
+    );
+
+    // Excluir quem já tem consulta à mesma hora (verificado só para os primeiros, por custo)
+    const disponiveis: CandidatoVaga[] = [];
+    for (const candidato of candidatos) {
+      if (disponiveis.length >= OFERTAS_POR_RONDA * 3) break;
+      const conflito = await verificarConflitoUtenteHorario({
+        utenteId: candidato.entrada.utenteId,
+        horaInicio: vaga.horaInicio,
+        horaFim: vaga.horaFim,
+      });
+      if (conflito.valido) disponiveis.push(candidato);
+    }
+
+    return disponiveis;
+  }
+
+  /**
+   * Aceitar uma oferta e marcar a consulta
+   * Bloqueia a agenda do dentista no dia da vaga (a mesma chave das restantes marcações): o primeiro a aceitar fica com a vaga
+   */
+  static async aceitarOferta(ofertaId: number): Promise<ResultadoAceitacao> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const [oferta] = await db.select().from(ofertasVaga).where(eq(ofertasVaga.id, ofertaId)).limit(1);
+    if (!oferta) throw new Error('Oferta não encontrada');
+
+    try {
+      return await db.transaction(async tx => {
+        await bloquearAgenda(tx, [oferta]);
+
+        // Reler dentro do bloqueio: outra resposta pode ter ganho a vaga entretanto
+        const [atual] = await tx.select().from(ofertasVaga).where(eq(ofertasVaga.id, ofertaId)).limit(1);
+        if (atual.estado !== 'pendente') {
+          return { aceite: false, motivo: 'Esta oferta já não está disponível' };
+        }
+
+        if (atual.expiraEm < new Date()) {
+          await tx
+            .update(ofertasVaga)
+            .set({ estado: 'expirada' })
+            .where(eq(ofertasVaga.id, ofertaId));
+          return { aceite: false, motivo: 'Esta oferta expirou' };
+        }
+
+        const [conflitoDentista, conflitoUtente] = await Promise.all([
+          verificarConflitoHorario({
+            dentistaId: atual.dentistaId,
+            horaInicio: atual.horaInicio,
+            horaFim: atual.horaFim,
+          }, tx),
+          verificarConflitoUtenteHorario({
+            utenteId: atual.utenteId,
+            horaInicio: atual.horaInicio,
+            horaFim: atual.horaFim,
+          }, tx),
+        ]);
+
+        if (!conflitoDentista.valido) {
+          await this.marcarVagaPreenchida(tx, atual);
+          return { aceite: false, motivo: 'A vaga já foi preenchida' };
+        }
+        if (!conflitoUtente.valido) {
+          return { aceite: false, motivo: conflitoUtente.erro };
+        }
+
+        const recursosConsulta = await verificarDisponibilidadeRecursos({
+          clinicaId: atual.clinicaId,
+          procedimentoId: atual.procedimentoId,
+          horaInicio: atual.horaInicio,
+          horaFim: atual.horaFim,
+        }, tx);
+        if (!recursosConsulta.valido) {
+          return { aceite: false, motivo: recursosConsulta.erro };
+        }
+
+        const [consulta] = await tx
+          .insert(consultas)
+          .values({
+            clinicaId: atual.clinicaId,
+            utenteId: atual.utenteId,
+            dentistaId: atual.dentistaId,
+            procedimentoId: atual.procedimentoId,
+            horaInicio: atual.horaInicio,
+            horaFim: atual.horaFim,
+            estado: 'confirmada',
+            confirmadaEm: new Date(),
+            titulo: 'Marcação da lista de espera',
+          })
+          .returning();
+
+        await atribuirRecursosConsulta(tx, consulta.id, recursosConsulta.recursoIds);
+
+        await tx
+          .update(ofertasVaga)
+          .set({ estado: 'aceite', respondidaEm: new Date(), consultaId: consulta.id })
+          .where(eq(ofertasVaga.id, ofertaId));
+
+        await this.marcarVagaPreenchida(tx, atual);
+
+        await tx
+          .update(listaEspera)
+          .set({ estado: 'agendada', consultaId: consulta.id, updatedAt: new Date() })
+          .where(eq(listaEspera.id, atual.listaEsperaId));
+
+        return { aceite: true, consultaId: consulta.id };
+      });
+    } catch (error: any) {
+      // Índice único de ofertas aceites: outra aceitação concorrente ganhou a vaga
+      if (error?.code === '23505') {
+        return { aceite: false, motivo: 'A vaga já foi preenchida' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Recusar uma oferta; se já ninguém tiver a vaga pendente, passa aos próximos candidatos
+   */
+  static async recusarOferta(ofertaId: number): Promise<{ success: boolean }> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const [oferta] = await db
+      .update(ofertasVaga)
+      .set({ estado: 'recusada', respondidaEm: new Date() })
+      .where(and(eq(ofertasVaga.id, ofertaId), eq(ofertasVaga.estado, 'pendente')))
+      .returning();
+
+    if (oferta) {
+      await this.ofertarVaga(this.vagaDaOferta(oferta));
+    }
+
+    return { success: !!oferta };
+  }
+
+  /**
+   * Processar resposta de um utente (WhatsApp ou SMS) a uma oferta
+   * Devolve tratada=false se a mensagem não for resposta a uma oferta pendente
+   */
+  static async processarResposta(telefone: string, texto: string): Promise<{
+    tratada: boolean;
+    resultado?: ResultadoAceitacao;
+  }> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const resposta = texto
+      .trim()
+      .toUpperCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '');
+    const aceita = /^(SIM|S|ACEITO)\b/.test(resposta);
+    const recusa = /^(NAO|N)\b/.test(resposta);
+    if (!aceita && !recusa) return { tratada: false };
+
+    const utentesTelefone = await db
+      .select()
+      .from(utentes)
+      .where(inArray(utentes.telemovel, variantesNumeroTelefone(telefone)));
+    if (utentesTelefone.length === 0) return { tratada: false };
+
+    const [oferta] = await db
+      .select()
+      .from(ofertasVaga)
+      .where(and(
+        inArray(ofertasVaga.utenteId, utentesTelefone.map(u => u.id)),
+        eq(ofertasVaga.estado, 'pendente'),
+        gt(ofertasVaga.expiraEm, new Date())
+      ))
+      .orderBy(desc(ofertasVaga.createdAt))
+      .limit(1);
+    if (!oferta) return { tratada: false };
+
+    const utente = utentesTelefone.find(u => u.id === oferta.utenteId)!;
+
+    if (recusa) {
+      await this.recusarOferta(oferta.id);
+      await this.enviarMensagem(utente, 'Obrigado pela resposta. Mantemos o seu pedido na lista de espera.');
+      return { tratada: true, resultado: { aceite: false, motivo: 'Recusada pelo utente' } };
+    }
+
+    const resultado = await this.aceitarOferta(oferta.id);
+    const fuso = await obterFusoClinica(oferta.clinicaId);
+    const data = formatarDataExtenso(oferta.horaInicio, fuso);
+    const hora = formatarHora(oferta.horaInicio, fuso);
+
+    await this.enviarMensagem(
+      utente,
+      resultado.aceite
+        ? `Consulta confirmada para ${data} às ${hora}. Até breve!`
+        : `Lamentamos, mas a vaga de ${data} às ${hora} já não está disponível. Mantemos o seu pedido na lista de espera.`
+    );
+
+    return { tratada: true, resultado };
+  }
+
+  /**
+   * Expirar ofertas sem resposta e oferecer essas vagas aos candidatos seguintes
+   */
+  static async processarOfertasExpiradas(): Promise<{ expiradas: number; novasOfertas: number }> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const expiradas = await db
+      .update(ofertasVaga)
+      .set({ estado: 'expirada' })
+      .where(and(eq(ofertasVaga.estado, 'pendente'), lt(ofertasVaga.expiraEm, new Date())))
+      .returning();
+
+    // Uma nova ronda por vaga
+    const vagas = new Map<string, OfertaVaga>();
+    expiradas.forEach(o => vagas.set(`${o.dentistaId}:${o.horaInicio.getTime()}`, o));
+
+    let novasOfertas = 0;
+    for (const oferta of vagas.values()) {
+      const resultado = await this.ofertarVaga(this.vagaDaOferta(oferta));
+      novasOfertas += resultado.ofertas;
+    }
+
+    return { expiradas: expiradas.length, novasOfertas };
+  }
+
+  /**
+   * Marcar as restantes ofertas pendentes da mesma vaga como preenchidas
+   */
+  private static async marcarVagaPreenchida(tx: Tx, oferta: OfertaVaga) {
+    await tx
+      .update(ofertasVaga)
+      .set({ estado: 'preenchida' })
+      .where(and(
+        eq(ofertasVaga.dentistaId, oferta.dentistaId),
+        eq(ofertasVaga.horaInicio, oferta.horaInicio),
+        eq(ofertasVaga.estado, 'pendente')
+      ));
+  }
+
+  private static vagaDaOferta(oferta: OfertaVaga): Vaga {
+    return {
+      clinicaId: oferta.clinicaId,
+      dentistaId: oferta.dentistaId,
+      procedimentoId: oferta.procedimentoId,
+      horaInicio: oferta.horaInicio,
+      horaFim: oferta.horaFim,
+      consultaOrigemId: oferta.consultaOrigemId,
+    };
+  }
+
+  /**
+   * Enviar mensagem por WhatsApp (se configurado) ou SMS
+   * Devolve o canal usado, ou null se nenhum envio teve sucesso
+   */
+  private static async enviarMensagem(
+    utente: { id: number; clinicaId: number; telemovel: string },
+    mensagem: string
+  ): Promise<'whatsapp' | 'sms' | null> {
+    if (whatsappService.isConfigured()) {
+      const resultado = await whatsappService.sendTextMessage(utente.telemovel, mensagem, utente.clinicaId, utente.id);
+      if (resultado.success) return 'whatsapp';
+    }
+
+    const resultado = await enviarSMS({
+      para: utente.telemovel,
+      mensagem,
+      utenteId: utente.id,
+      clinicaId: utente.clinicaId,
+      tipo: 'lista_espera',
+    });
+    return resultado.success ? 'sms' : null;
+  }
+
+  private static gerarMensagemOferta(dados: {
+    nomeUtente: string;
+    nomeClinica: string;
+    nomeDentista: string;
+    horaInicio: Date;
+    expiraEm: Date;
+    fusoHorario: string;
+  }): string {
+    const data = formatarDataExtenso(dados.horaInicio, dados.fusoHorario);
+    const hora = formatarHora(dados.horaInicio, dados.fusoHorario);
+    const validade = formatarHora(dados.expiraEm, dados.fusoHorario);
+    const comDentista = dados.nomeDentista ? ` com ${dados.nomeDentista}` : '';
+
+    return `Olá ${dados.nomeUtente}! Vagou uma consulta na ${dados.nomeClinica} ${data} às ${hora}${comDentista}. ` +
+      `Responda SIM para ficar com a vaga ou NAO para recusar. A oferta é válida até às ${validade}.`;
+  }
+}
@@ -0,0 +1,633 @@
+/**
+ * Serviço de Marcação Online
+ *
+ * Fluxo público (sem autenticação):
+ * 1. Listar procedimentos e dentistas disponibilizados pela clínica
+ * 2. Consultar horários livres
+ * 3. Reservar um horário durante alguns minutos e enviar código por SMS/email
+ * 4. Confirmar o código: associar o utente pelo contacto confirmado (ou criar um novo) e criar a consulta "agendada"
+ */
+
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import { nanoid } from 'nanoid';
+import { getDb, gerarNumeroUtente, type Tx } from './db';
+import { clinicas, consultas, dentistas, notificacoes, procedimentos, utentes } from '../drizzle/schema';
+import {
+  configuracoesMarcacaoOnline,
+  reservasMarcacaoOnline,
+  type ConfiguracaoMarcacaoOnline,
+  type ReservaMarcacaoOnline,
+} from '../drizzle/schema-marcacao-online';
+import { eq, and, gt, lt, inArray, sql } from 'drizzle-orm';
+import { bloquearAgenda, sugerirHorariosAlternativos, validarAgendamentoCompleto } from './validacoes-agenda';
+import { destinatariosClinica } from './cheques-dentista';
+import { atribuirRecursosConsulta } from './recursos-agenda';
+import { enviarSMS, variantesNumeroTelefone } from './integrations/twilio/sms';
+import { emailMarketingService } from './email-marketing-service';
+import { consumirLimite } from './rate-limit';
+import { fimDoDia, formatarDataExtenso, formatarHora, inicioDoDia, obterFusoClinica } from './fuso-horario';
+
+/**
+ * Tempo durante o qual o horário fica reservado à espera do código
+ */
+const RESERVA_MINUTOS = 10;
+
+/**
+ * Tentativas de código permitidas por reserva
+ */
+const MAX_TENTATIVAS_CODIGO = 5;
+
+/**
+ * Códigos enviados por telemóvel/email a cada 15 minutos
+ */
+const MAX_CODIGOS_POR_CONTACTO = 3;
+
+/**
+ * Configuração usada enquanto a clínica não guardar a sua
+ */
+const CONFIGURACAO_PADRAO = {
+  ativo: false,
+  procedimentoIds: [] as number[],
+  dentistaIds: [] as number[],
+  antecedenciaMinimaMinutos: 120,
+  antecedenciaMaximaDias: 60,
+};
+
+export type ConfiguracaoMarcacao = Pick<
+  ConfiguracaoMarcacaoOnline,
+  'ativo' | 'procedimentoIds' | 'dentistaIds' | 'antecedenciaMinimaMinutos' | 'antecedenciaMaximaDias'
+>;
+
+function hashCodigo(codigo: string): string {
+  return createHash('sha256').update(codigo).digest('hex');
+}
+
+function normalizarNome(nome: string): string {
+  return nome.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export class MarcacaoOnlineService {
+  /**
+   * Obter configuração de marcação online da clínica
+   */
+  static async obterConfiguracao(clinicaId: number): Promise<ConfiguracaoMarcacao> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const [config] = await db
+      .select()
+      .from(configuracoesMarcacaoOnline)
+      .where(eq(configuracoesMarcacaoOnline.clinicaId, clinicaId))
+      .limit(1);
+
+    return config ?? CONFIGURACAO_PADRAO;
+  }
+
+  /**
+   * Guardar configuração de marcação online da clínica
+   */
+  static async guardarConfiguracao(clinicaId: number, dados: Partial<ConfiguracaoMarcacao>) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    await db
+      .insert(configuracoesMarcacaoOnline)
+      .values({ ...CONFIGURACAO_PADRAO, ...dados, clinicaId })
+      .onConflictDoUpdate({
+        target: configuracoesMarcacaoOnline.clinicaId,
+        set: { ...dados, updatedAt: new Date() },
+      });
+
+    return { success: true };
+  }
+
+  /**
+   * Configuração de uma clínica com marcação online ativa (erro caso contrário)
+   */
+  private static async configuracaoAtiva(clinicaId: number): Promise<ConfiguracaoMarcacao> {
+    const config = await this.obterConfiguracao(clinicaId);
+    if (!config.ativo) {
+      throw new Error('A marcação online não está disponível para esta clínica');
+    }
+    return config;
+  }
+
+  /**
+   * Procedimentos marcáveis online
+   */
+  static async listarProcedimentos(clinicaId: number) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const config = await this.configuracaoAtiva(clinicaId);
+    if (config.procedimentoIds.length === 0) return [];
+
+    return await db
+      .select({
+        id: procedimentos.id,
+        nome: procedimentos.nome,
+        descricao: procedimentos.descricao,
+        duracaoMinutos: procedimentos.duracaoMinutos,
+        precoBase: procedimentos.precoBase,
+      })
+      .from(procedimentos)
+      .where(and(
+        eq(procedimentos.clinicaId, clinicaId),
+        eq(procedimentos.ativo, true),
+        inArray(procedimentos.id, config.procedimentoIds)
+      ))
+      .orderBy(procedimentos.nome);
+  }
+
+  /**
+   * Dentistas visíveis online
+   */
+  static async listarDentistas(clinicaId: number) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const config = await this.configuracaoAtiva(clinicaId);
+    if (config.dentistaIds.length === 0) return [];
+
+    return await db
+      .select({
+        id: dentistas.id,
+        nome: dentistas.nome,
+        especializacao: dentistas.especializacao,
+      })
+      .from(dentistas)
+      .where(and(
+        eq(dentistas.clinicaId, clinicaId),
+        eq(dentistas.ativo, true),
+        inArray(dentistas.id, config.dentistaIds)
+      ))
+      .orderBy(dentistas.nome);
+  }
+
+  /**
+   * Horários livres num dia, por dentista
+   * Respeita a antecedência mínima/máxima da clínica e as reservas temporárias em curso
+   */
+  static async horariosLivres(dados: {
+    clinicaId: number;
+    procedimentoId: number;
+    data: Date;
+    dentistaId?: number;
+  }) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const config = await this.configuracaoAtiva(dados.clinicaId);
+    const procedimento = await this.procedimentoDisponivel(dados.clinicaId, dados.procedimentoId, config);
+    const duracao = procedimento.duracaoMinutos ?? 30;
+
+    const listaDentistas = (await this.listarDentistas(dados.clinicaId))
+      .filter(d => !dados.dentistaId || d.id === dados.dentistaId);
+
+    const minimo = new Date(Date.now() + config.antecedenciaMinimaMinutos * 60 * 1000);
+    const maximo = new Date(Date.now() + config.antecedenciaMaximaDias * 24 * 60 * 60 * 1000);
+
+    const fuso = await obterFusoClinica(dados.clinicaId);
+    const inicioDia = inicioDoDia(dados.data, fuso);
+    const fimDia = fimDoDia(dados.data, fuso);
+
+    if (inicioDia > maximo) return [];
+
+    const reservas = await db
+      .select()
+      .from(reservasMarcacaoOnline)
+      .where(and(
+        eq(reservasMarcacaoOnline.clinicaId, dados.clinicaId),
+        eq(reservasMarcacaoOnline.estado, 'pendente'),
+        gt(reservasMarcacaoOnline.expiraEm, new Date()),
+        lt(reservasMarcacaoOnline.horaInicio, fimDia),
+        gt(reservasMarcacaoOnline.horaFim, inicioDia)
+      ));
+
+    const resultado = [];
+    for (const dentista of listaDentistas) {
+      const sugestoes = await sugerirHorariosAlternativos({
+        clinicaId: dados.clinicaId,
+        dentistaId: dentista.id,
+        dataDesejada: inicioDia,
+        duracao,
+        quantidade: 48,
+        procedimentoId: dados.procedimentoId,
+      });
+
+      const horarios = sugestoes.filter(inicio => {
+        const fim = new Date(inicio.getTime() + duracao * 60 * 1000);
+        return inicio >= minimo && inicio <= maximo && !reservas.some(r =>
+          r.dentistaId === dentista.id && r.horaInicio < fim && r.horaFim > inicio
+        );
+      });
+
+      resultado.push({ dentista, horarios });
+    }
+
+    return resultado;
+  }
+
+  /**
+   * Reservar um horário e enviar o código de confirmação
+   * A reserva é criada com a agenda do dentista bloqueada, para duas pessoas (ou a receção) não marcarem o mesmo horário
+   */
+  static async reservarHorario(dados: {
+    clinicaId: number;
+    procedimentoId: number;
+    dentistaId: number;
+    horaInicio: Date;
+    nome: string;
+    telemovel: string;
+    email?: string;
+    nif?: string;
+    canalCodigo: 'sms' | 'email';
+    ip?: string;
+  }): Promise<{ token: string; expiraEm: Date }> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const config = await this.configuracaoAtiva(dados.clinicaId);
+    const procedimento = await this.procedimentoDisponivel(dados.clinicaId, dados.procedimentoId, config);
+
+    if (!config.dentistaIds.includes(dados.dentistaId)) {
+      throw new Error('Dentista não disponível para marcação online');
+    }
+    if (dados.canalCodigo === 'email' && !dados.email) {
+      throw new Error('Indique o email para receber o código');
+    }
+
+    const maximo = new Date(Date.now() + config.antecedenciaMaximaDias * 24 * 60 * 60 * 1000);
+    if (dados.horaInicio > maximo) {
+      throw new Error(`Só é possível marcar até ${config.antecedenciaMaximaDias} dias de antecedência`);
+    }
+
+    const contacto = dados.canalCodigo === 'email' ? dados.email! : dados.telemovel;
+    if (!consumirLimite(`marcacao-codigo:${contacto}`, MAX_CODIGOS_POR_CONTACTO, 15 * 60 * 1000)) {
+      throw new Error('Foram pedidos demasiados códigos. Tente novamente mais tarde.');
+    }
+
+    const horaFim = new Date(dados.horaInicio.getTime() + (procedimento.duracaoMinutos ?? 30) * 60 * 1000);
+    const codigo = randomInt(0, 1000000).toString().padStart(6, '0');
+    const token = nanoid(32);
+    const expiraEm = new Date(Date.now() + RESERVA_MINUTOS * 60 * 1000);
+
+    await db.transaction(async tx => {
+      await bloquearAgenda(tx, [{ dentistaId: dados.dentistaId, horaInicio: dados.horaInicio, horaFim }]);
+
+      const [reservaExistente] = await tx
+        .select({ id: reservasMarcacaoOnline.id })
+        .from(reservasMarcacaoOnline)
+        .where(and(
+          eq(reservasMarcacaoOnline.dentistaId, dados.dentistaId),
+          eq(reservasMarcacaoOnline.estado, 'pendente'),
+          gt(reservasMarcacaoOnline.expiraEm, new Date()),
+          lt(reservasMarcacaoOnline.horaInicio, horaFim),
+          gt(reservasMarcacaoOnline.horaFim, dados.horaInicio)
+        ))
+        .limit(1);
+      if (reservaExistente) {
+        throw new Error('Este horário acabou de ser reservado. Escolha outro horário.');
+      }
+
+      const validacao = await validarAgendamentoCompleto({
+        clinicaId: dados.clinicaId,
+        dentistaId: dados.dentistaId,
+        utenteId: 0,
+        horaInicio: dados.horaInicio,
+        horaFim,
+        procedimentoId: dados.procedimentoId,
+        config: {
+          verificarConflitoUtente: false,
+          antecedenciaMinutos: config.antecedenciaMinimaMinutos,
+        },
+      }, tx);
+      if (!validacao.valido) {
+        throw new Error(validacao.erro || 'Horário indisponível');
+      }
+
+      await tx.insert(reservasMarcacaoOnline).values({
+        token,
+        clinicaId: dados.clinicaId,
+        dentistaId: dados.dentistaId,
+        procedimentoId: dados.procedimentoId,
+        horaInicio: dados.horaInicio,
+        horaFim,
+        nome: dados.nome,
+        telemovel: dados.telemovel,
+        email: dados.email ?? null,
+        nif: dados.nif ?? null,
+        canalCodigo: dados.canalCodigo,
+        codigoHash: hashCodigo(codigo),
+        expiraEm,
+        ip: dados.ip ?? null,
+      });
+    });
+
+    await this.enviarCodigo({ ...dados, codigo });
+
+    return { token, expiraEm };
+  }
+
+  /**
+   * Confirmar a reserva com o código recebido e criar a consulta
+   */
+  static async confirmarReserva(token: string, codigo: string): Promise<{
+    consultaId: number;
+    horaInicio: Date;
+    horaFim: Date;
+  }> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const reserva = await this.obterReservaPendente(token);
+
+    // Contar a tentativa antes de comparar o código: o incremento é atómico, por isso pedidos em
+    // paralelo não passam do limite
+    const [tentativa] = await db
+      .update(reservasMarcacaoOnline)
+      .set({ tentativas: sql`${reservasMarcacaoOnline.tentativas} + 1` })
+      .where(and(
+        eq(reservasMarcacaoOnline.id, reserva.id),
+        eq(reservasMarcacaoOnline.estado, 'pendente'),
+        lt(reservasMarcacaoOnline.tentativas, MAX_TENTATIVAS_CODIGO)
+      ))
+      .returning({ tentativas: reservasMarcacaoOnline.tentativas });
+    if (!tentativa) {
+      throw new Error('Reserva não encontrada ou já utilizada');
+    }
+
+    const esperado = Buffer.from(reserva.codigoHash, 'hex');
+    const recebido = Buffer.from(hashCodigo(codigo.trim()), 'hex');
+    if (!timingSafeEqual(esperado, recebido)) {
+      if (tentativa.tentativas >= MAX_TENTATIVAS_CODIGO) {
+        await db
+          .update(reservasMarcacaoOnline)
+          .set({ estado: 'cancelada' })
+          .where(and(eq(reservasMarcacaoOnline.id, reserva.id), eq(reservasMarcacaoOnline.estado, 'pendente')));
+      }
+
+      throw new Error(
+        tentativa.tentativas >= MAX_TENTATIVAS_CODIGO
+          ? 'Código inválido. A reserva foi cancelada; por favor recomece a marcação.'
+          : 'Código inválido'
+      );
+    }
+
+    const config = await this.obterConfiguracao(reserva.clinicaId);
+
+    return await db.transaction(async tx => {
+      await bloquearAgenda(tx, [reserva]);
+
+      // Dois pedidos com o código certo em paralelo: só o primeiro confirma
+      const [atual] = await tx
+        .select({ estado: reservasMarcacaoOnline.estado })
+        .from(reservasMarcacaoOnline)
+        .where(eq(reservasMarcacaoOnline.id, reserva.id))
+        .for('update');
+      if (atual?.estado !== 'pendente') {
+        throw new Error('Reserva não encontrada ou já utilizada');
+      }
+
+      const utenteId = await this.associarUtente(tx, reserva);
+
+      // O horário esteve reservado, mas a receção pode ter marcado entretanto
+      const validacao = await validarAgendamentoCompleto({
+        clinicaId: reserva.clinicaId,
+        dentistaId: reserva.dentistaId,
+        utenteId,
+        horaInicio: reserva.horaInicio,
+        horaFim: reserva.horaFim,
+        procedimentoId: reserva.procedimentoId,
+        config: { antecedenciaMinutos: config.antecedenciaMinimaMinutos },
+      }, tx);
+      if (!validacao.valido) {
+        await tx
+          .update(reservasMarcacaoOnline)
+          .set({ estado: 'cancelada' })
+          .where(eq(reservasMarcacaoOnline.id, reserva.id));
+        throw new Error(validacao.erro || 'O horário deixou de estar disponível');
+      }
+
+      const [consulta] = await tx
+        .insert(consultas)
+        .values({
+          clinicaId: reserva.clinicaId,
+          utenteId,
+          dentistaId: reserva.dentistaId,
+          procedimentoId: reserva.procedimentoId,
+          horaInicio: reserva.horaInicio,
+          horaFim: reserva.horaFim,
+          estado: 'agendada',
+          titulo: 'Marcação online',
+        })
+        .returning();
+
+      await atribuirRecursosConsulta(tx, consulta.id, validacao.recursoIds ?? []);
+
+      await tx
+        .update(reservasMarcacaoOnline)
+        .set({
+          estado: 'confirmada',
+          utenteId,
+          consultaId: consulta.id,
+          confirmadaEm: new Date(),
+        })
+        .where(eq(reservasMarcacaoOnline.id, reserva.id));
+
+      return { consultaId: consulta.id, horaInicio: consulta.horaInicio, horaFim: consulta.horaFim };
+    });
+  }
+
+  /**
+   * Cancelar uma reserva pendente (liberta o horário)
+   */
+  static async cancelarReserva(token: string) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    await db
+      .update(reservasMarcacaoOnline)
+      .set({ estado: 'cancelada' })
+      .where(and(eq(reservasMarcacaoOnline.token, token), eq(reservasMarcacaoOnline.estado, 'pendente')));
+
+    return { success: true };
+  }
+
+  /**
+   * Procedimento ativo e disponibilizado online
+   */
+  private static async procedimentoDisponivel(
+    clinicaId: number,
+    procedimentoId: number,
+    config: ConfiguracaoMarcacao
+  ) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const [procedimento] = config.procedimentoIds.includes(procedimentoId)
+      ? await db
+          .select()
+          .from(procedimentos)
+          .where(and(
+            eq(procedimentos.id, procedimentoId),
+            eq(procedimentos.clinicaId, clinicaId),
+            eq(procedimentos.ativo, true)
+          ))
+          .limit(1)
+      : [];
+
+    if (!procedimento) {
+      throw new Error('Procedimento não disponível para marcação online');
+    }
+    return procedimento;
+  }
+
+  /**
+   * Reserva pendente e dentro da validade (marca como expirada se já passou)
+   */
+  private static async obterReservaPendente(token: string): Promise<ReservaMarcacaoOnline> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const [reserva] = await db
+      .select()
+      .from(reservasMarcacaoOnline)
+      .where(eq(reservasMarcacaoOnline.token, token))
+      .limit(1);
+
+    if (!reserva || reserva.estado !== 'pendente') {
+      throw new Error('Reserva não encontrada ou já utilizada');
+    }
+
+    if (reserva.expiraEm < new Date()) {
+      await db
+        .update(reservasMarcacaoOnline)
+        .set({ estado: 'expirada' })
+        .where(eq(reservasMarcacaoOnline.id, reserva.id));
+      throw new Error('A reserva expirou. Por favor escolha novamente o horário.');
+    }
+
+    return reserva;
+  }
+
+  /**
+   * Associar a reserva a um utente existente ou criar um novo
+   * Só o contacto confirmado pelo código (telemóvel no SMS, email no email) identifica o utente, e só
+   * quando corresponde a uma única ficha com o mesmo nome. A ficha existente nunca é alterada com
+   * dados da marcação pública: nos restantes casos cria-se uma ficha nova e a receção é avisada
+   * do possível duplicado
+   */
+  private static async associarUtente(tx: Tx, reserva: ReservaMarcacaoOnline): Promise<number> {
+    const porContacto = reserva.canalCodigo === 'sms'
+      ? await tx
+          .select()
+          .from(utentes)
+          .where(and(
+            eq(utentes.clinicaId, reserva.clinicaId),
+            inArray(utentes.telemovel, variantesNumeroTelefone(reserva.telemovel))
+          ))
+      : await tx
+          .select()
+          .from(utentes)
+          .where(and(
+            eq(utentes.clinicaId, reserva.clinicaId),
+            sql`lower(${utentes.email}) = lower(${reserva.email})`
+          ));
+
+    const mesmoNome = porContacto.filter(u => normalizarNome(u.nome) === normalizarNome(reserva.nome));
+    if (mesmoNome.length === 1) {
+      return mesmoNome[0].id;
+    }
+
+    // O NIF não foi confirmado: não se associa por NIF, mas uma ficha com o mesmo NIF é um possível duplicado
+    const porNif = reserva.nif
+      ? await tx
+          .select()
+          .from(utentes)
+          .where(and(eq(utentes.clinicaId, reserva.clinicaId), eq(utentes.nif, reserva.nif)))
+      : [];
+    const semelhantes = [...porContacto, ...porNif.filter(u => !porContacto.some(c => c.id === u.id))];
+
+    const [novo] = await tx
+      .insert(utentes)
+      .values({
+        clinicaId: reserva.clinicaId,
+        numeroUtente: await gerarNumeroUtente(reserva.clinicaId, tx),
+        nome: reserva.nome,
+        telemovel: reserva.telemovel,
+        email: reserva.email,
+        // Um NIF já atribuído a outra ficha fica por confirmar pela receção
+        nif: porNif.length > 0 ? null : reserva.nif,
+        observacoes: semelhantes.length > 0
+          ? `Criado através da marcação online. Possível duplicado de: ${semelhantes.map(u => u.numeroUtente).join(', ')}` +
+            (porNif.length > 0 ? ` (NIF indicado: ${reserva.nif})` : '')
+          : 'Criado através da marcação online',
+      })
+      .returning();
+
+    if (semelhantes.length > 0) {
+      const destinatarios = await destinatariosClinica(tx, reserva.clinicaId);
+      if (destinatarios.length > 0) {
+        await tx.insert(notificacoes).values(
+          destinatarios.map(userId => ({
+            userId,
+            clinicaId: reserva.clinicaId,
+            tipo: 'marcacao_online_duplicado',
+            titulo: `Marcação online: possível utente duplicado (${reserva.nome})`,
+            mensagem: `A ficha ${novo.numeroUtente} foi criada pela marcação online com dados semelhantes a ` +
+              `${semelhantes.map(u => `${u.numeroUtente} (${u.nome})`).join(', ')}. Verifique se se trata do mesmo utente.`,
+            link: `/utentes/${novo.id}`,
+            icone: 'UserPlus',
+            cor: 'orange',
+          }))
+        );
+      }
+    }
+
+    return novo.id;
+  }
+
+  /**
+   * Enviar código de confirmação por SMS ou email
+   */
+  private static async enviarCodigo(dados: {
+    clinicaId: number;
+    horaInicio: Date;
+    telemovel: string;
+    email?: string;
+    canalCodigo: 'sms' | 'email';
+    codigo: string;
+  }) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const [clinica] = await db.select().from(clinicas).where(eq(clinicas.id, dados.clinicaId)).limit(1);
+    const nomeClinica = clinica?.nome || 'DentCarePro';
+    const fuso = await obterFusoClinica(dados.clinicaId);
+    const data = formatarDataExtenso(dados.horaInicio, fuso);
+    const hora = formatarHora(dados.horaInicio, fuso);
+    const mensagem = `${nomeClinica}: o seu código de confirmação é ${dados.codigo}. ` +
+      `Marcação de ${data} às ${hora}. Válido durante ${RESERVA_MINUTOS} minutos.`;
+
+    if (dados.canalCodigo === 'email') {
+      await emailMarketingService.enviarEmailTransacional({
+        to: dados.email!,
+        subject: `${nomeClinica} - Código de confirmação da marcação`,
+        html: `<p>${mensagem}</p>`,
+        text: mensagem,
+      });
+      return;
+    }
+
+    const resultado = await enviarSMS({
+      para: dados.telemovel,
+      mensagem,
+      clinicaId: dados.clinicaId,
+      tipo: 'marcacao_online',
+    });
+    if (!resultado.success) {
+      throw new Error('Não foi possível enviar o código por SMS');
+    }
+  }
+}
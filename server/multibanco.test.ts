@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calcularReferencia, formatarReferencia, referenciaValida } from "./integrations/multibanco/referencias";
+
+/**
+ * Os pesos do algoritmo são 10^n mod 97: os dígitos de controlo são 98 - (N x 100 mod 97), com N
+ * = entidade + subentidade + sequência + valor (ISO 7064, MOD 97-10)
+ */
+function controloEsperado(entidade: string, subentidade: string, sequencia: number, valorCentimos: number): string {
+  const numero = BigInt(`${entidade}${subentidade}${sequencia.toString().padStart(4, "0")}${valorCentimos.toString().padStart(8, "0")}`);
+  return (98n - ((numero * 100n) % 97n)).toString().padStart(2, "0");
+}
+
+describe("referências Multibanco", () => {
+  it("calcula os dígitos de controlo de referências conhecidas", () => {
+    assert.equal(calcularReferencia({ entidade: "21312", subentidade: "123", sequencia: 1, valorCentimos: 2550 }), "123000139");
+    assert.equal(calcularReferencia({ entidade: "12345", subentidade: "001", sequencia: 42, valorCentimos: 1 }), "001004203");
+    assert.equal(calcularReferencia({ entidade: "11202", subentidade: "999", sequencia: 9999, valorCentimos: 99999999 }), "999999923");
+  });
+
+  it("coincide com o MOD 97-10 para vários valores", () => {
+    for (const valorCentimos of [1, 99, 1000, 4599, 123456, 99999999]) {
+      for (const sequencia of [0, 7, 5000, 9999]) {
+        const referencia = calcularReferencia({ entidade: "10559", subentidade: "042", sequencia, valorCentimos });
+        assert.equal(referencia.slice(7), controloEsperado("10559", "042", sequencia, valorCentimos));
+      }
+    }
+  });
+
+  it("valida a referência contra a entidade e o valor", () => {
+    assert.equal(referenciaValida("21312", "123000139", 2550), true);
+    assert.equal(referenciaValida("21312", "123000139", 2551), false);
+    assert.equal(referenciaValida("21313", "123000139", 2550), false);
+    assert.equal(referenciaValida("21312", "123000138", 2550), false);
+    assert.equal(referenciaValida("21312", "12300013", 2550), false);
+  });
+
+  it("recusa dados fora dos limites", () => {
+    assert.throws(() => calcularReferencia({ entidade: "2131", subentidade: "123", sequencia: 1, valorCentimos: 100 }), /5 dígitos/);
+    assert.throws(() => calcularReferencia({ entidade: "21312", subentidade: "12", sequencia: 1, valorCentimos: 100 }), /3 dígitos/);
+    assert.throws(() => calcularReferencia({ entidade: "21312", subentidade: "123", sequencia: 10000, valorCentimos: 100 }), /sequência/);
+    assert.throws(() => calcularReferencia({ entidade: "21312", subentidade: "123", sequencia: 1, valorCentimos: 0 }), /Valor inválido/);
+    assert.throws(() => calcularReferencia({ entidade: "21312", subentidade: "123", sequencia: 1, valorCentimos: 100000000 }), /Valor inválido/);
+  });
+
+  it("apresenta a referência em grupos de três dígitos", () => {
+    assert.equal(formatarReferencia("123000139"), "123 000 139");
+  });
+});
@@ -0,0 +1,587 @@
+import type { Express, Request, Response } from "express";
+import { getDb } from "./db";
+import { ENV } from "./_core/env";
+import { faturas } from "../drizzle/schema";
+import {
+  configuracoesMultibanco,
+  planosPagamento,
+  prestacoesPlano,
+  referenciasMultibanco,
+  type ConfiguracaoMultibanco,
+  type ReferenciaMultibanco,
+} from "../drizzle/schema-faturacao";
+import { adicionarDiasChave, chaveDia, obterFusoClinica } from "./fuso-horario";
+import { lancarRecebimento } from "./conta-corrente";
+import { lancarPagamentoPrestacoes } from "./planos-pagamento";
+import {
+  obterProvedorMultibanco,
+  type NomeProvedorMultibanco,
+  type NotificacaoMultibanco,
+} from "./integrations/multibanco/provedor";
+import { formatarReferencia, referenciaValida } from "./integrations/multibanco/referencias";
+import { and, desc, eq, inArray, lt } from "drizzle-orm";
+
+/**
+ * Pagamentos por Referência Multibanco
+ * Referências (entidade / referência / valor) para faturas e prestações de planos de pagamento,
+ * com a entidade e subentidade de cada clínica e o provedor configurado
+ *
+ * - Os pagamentos chegam por callback do provedor (/api/multibanco/callback) ou por importação do
+ *   ficheiro de pagamentos, e são lançados na conta corrente do utente: imputados à fatura (com
+ *   recibo) ou às prestações do plano. Notificações repetidas são ignoradas (idTransacao)
+ * - Em desenvolvimento, o provedor "simulador" permite pagar referências na própria aplicação
+ */
+
+const ESTADOS_FATURA_EM_ABERTO: (typeof faturas.$inferSelect)["estado"][] = ["enviada", "parcialmente_paga", "vencida"];
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+/**
+ * Configuração Multibanco da clínica (null se não estiver configurada)
+ */
+export async function obterConfiguracao(clinicaId: number): Promise<ConfiguracaoMultibanco | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [configuracao] = await db
+    .select()
+    .from(configuracoesMultibanco)
+    .where(eq(configuracoesMultibanco.clinicaId, clinicaId))
+    .limit(1);
+
+  return configuracao ?? null;
+}
+
+/**
+ * Criar ou alterar a configuração Multibanco da clínica
+ */
+export async function guardarConfiguracao(dados: {
+  clinicaId: number;
+  provedor: NomeProvedorMultibanco;
+  entidade: string;
+  subentidade: string;
+  chaveAntiPhishing?: string | null;
+  validadeDias?: number;
+  ativo?: boolean;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (obterProvedorMultibanco(dados.provedor).simulado && ENV.isProduction) {
+    throw new Error("O provedor simulador não está disponível em produção");
+  }
+  if (!/^\d{5}$/.test(dados.entidade)) throw new Error("A entidade tem de ter 5 dígitos");
+  if (!/^\d{3}$/.test(dados.subentidade)) throw new Error("A subentidade tem de ter 3 dígitos");
+  if (dados.provedor !== "simulador" && !dados.chaveAntiPhishing) {
+    throw new Error("Indique a chave anti-phishing configurada no provedor");
+  }
+
+  const [existente] = await db
+    .select({ clinicaId: configuracoesMultibanco.clinicaId })
+    .from(configuracoesMultibanco)
+    .where(
+      and(
+        eq(configuracoesMultibanco.entidade, dados.entidade),
+        eq(configuracoesMultibanco.subentidade, dados.subentidade)
+      )
+    )
+    .limit(1);
+
+  if (existente && existente.clinicaId !== dados.clinicaId) {
+    throw new Error("Esta entidade e subentidade já estão atribuídas a outra clínica");
+  }
+
+  const valores = {
+    provedor: dados.provedor,
+    entidade: dados.entidade,
+    subentidade: dados.subentidade,
+    chaveAntiPhishing: dados.chaveAntiPhishing ?? null,
+    validadeDias: dados.validadeDias ?? 30,
+    ativo: dados.ativo ?? true,
+  };
+
+  const [configuracao] = await db
+    .insert(configuracoesMultibanco)
+    .values({ clinicaId: dados.clinicaId, ...valores })
+    .onConflictDoUpdate({
+      target: configuracoesMultibanco.clinicaId,
+      set: { ...valores, updatedAt: new Date() },
+    })
+    .returning();
+
+  return configuracao;
+}
+
+/**
+ * Gerar (ou reutilizar, se já existir pendente com o mesmo valor) a referência Multibanco de uma
+ * fatura em aberto ou de uma prestação de um plano de pagamento
+ */
+export async function gerarReferencia(dados: {
+  clinicaId: number;
+  faturaId?: number;
+  prestacaoId?: number;
+  dataLimite?: string; // YYYY-MM-DD; por omissão, a validade configurada
+}): Promise<ReferenciaMultibanco & { referenciaFormatada: string }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (!dados.faturaId === !dados.prestacaoId) throw new Error("Indique a fatura ou a prestação a pagar");
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+
+  const referencia = await db.transaction(async tx => {
+    const [configuracao] = await tx
+      .select()
+      .from(configuracoesMultibanco)
+      .where(eq(configuracoesMultibanco.clinicaId, dados.clinicaId))
+      .for("update");
+
+    if (!configuracao || !configuracao.ativo) throw new Error("Pagamentos Multibanco não configurados na clínica");
+
+    // Utente e valor em dívida do documento a pagar
+    let utenteId: number;
+    let valor: number;
+    if (dados.faturaId) {
+      const [fatura] = await tx
+        .select()
+        .from(faturas)
+        .where(and(eq(faturas.id, dados.faturaId), eq(faturas.clinicaId, dados.clinicaId)))
+        .limit(1);
+
+      if (!fatura) throw new Error("Fatura não encontrada");
+      if (!ESTADOS_FATURA_EM_ABERTO.includes(fatura.estado)) throw new Error("A fatura não está em aberto");
+      utenteId = fatura.utenteId;
+      valor = centimos(fatura.valorTotal) - centimos(fatura.valorCreditado) - centimos(fatura.valorPago);
+    } else {
+      const [prestacao] = await tx
+        .select({ prestacao: prestacoesPlano, plano: planosPagamento })
+        .from(prestacoesPlano)
+        .innerJoin(planosPagamento, eq(prestacoesPlano.planoId, planosPagamento.id))
+        .where(and(eq(prestacoesPlano.id, dados.prestacaoId!), eq(planosPagamento.clinicaId, dados.clinicaId)))
+        .limit(1);
+
+      if (!prestacao) throw new Error("Prestação não encontrada");
+      if (prestacao.plano.estado !== "ativo" || ["paga", "anulada"].includes(prestacao.prestacao.estado)) {
+        throw new Error("A prestação não está por pagar");
+      }
+      utenteId = prestacao.plano.utenteId;
+      valor = centimos(prestacao.prestacao.valor) - centimos(prestacao.prestacao.valorPago);
+    }
+
+    if (valor <= 0) throw new Error("Não há valor por pagar");
+
+    const [pendente] = await tx
+      .select()
+      .from(referenciasMultibanco)
+      .where(
+        and(
+          eq(referenciasMultibanco.estado, "pendente"),
+          dados.faturaId
+            ? eq(referenciasMultibanco.faturaId, dados.faturaId)
+            : eq(referenciasMultibanco.prestacaoId, dados.prestacaoId!)
+        )
+      )
+      .limit(1);
+
+    if (pendente) {
+      if (centimos(pendente.valor) === valor && pendente.entidade === configuracao.entidade) return pendente;
+
+      // O valor em dívida mudou: a referência antiga deixa de ser válida
+      await tx
+        .update(referenciasMultibanco)
+        .set({ estado: "anulada", updatedAt: new Date() })
+        .where(eq(referenciasMultibanco.id, pendente.id));
+    }
+
+    // Próxima sequência livre (as de referências pendentes não podem ser reutilizadas)
+    const ocupadas = new Set(
+      (await tx
+        .select({ referencia: referenciasMultibanco.referencia })
+        .from(referenciasMultibanco)
+        .where(
+          and(
+            eq(referenciasMultibanco.entidade, configuracao.entidade),
+            eq(referenciasMultibanco.estado, "pendente")
+          )
+        ))
+        .filter((r: { referencia: string }) => r.referencia.startsWith(configuracao.subentidade))
+        .map((r: { referencia: string }) => parseInt(r.referencia.slice(3, 7), 10))
+    );
+
+    let sequencia = configuracao.ultimaSequencia;
+    for (let tentativas = 0; ; tentativas++) {
+      if (tentativas >= 10000) throw new Error("Não há referências Multibanco livres: anule referências pendentes");
+      sequencia = (sequencia + 1) % 10000;
+      if (!ocupadas.has(sequencia)) break;
+    }
+
+    const provedor = obterProvedorMultibanco(configuracao.provedor);
+    const gerada = await provedor.gerarReferencia({
+      entidade: configuracao.entidade,
+      subentidade: configuracao.subentidade,
+      sequencia,
+      valorCentimos: valor,
+    });
+
+    await tx
+      .update(configuracoesMultibanco)
+      .set({ ultimaSequencia: sequencia, updatedAt: new Date() })
+      .where(eq(configuracoesMultibanco.id, configuracao.id));
+
+    const [nova] = await tx
+      .insert(referenciasMultibanco)
+      .values({
+        clinicaId: dados.clinicaId,
+        utenteId,
+        faturaId: dados.faturaId,
+        prestacaoId: dados.prestacaoId,
+        provedor: provedor.nome,
+        entidade: gerada.entidade,
+        referencia: gerada.referencia,
+        valor: euros(gerada.valorCentimos),
+        dataLimite: dados.dataLimite ?? adicionarDiasChave(chaveDia(new Date(), fuso), configuracao.validadeDias),
+      })
+      .returning();
+
+    return nova;
+  });
+
+  return { ...referencia, referenciaFormatada: formatarReferencia(referencia.referencia) };
+}
+
+/**
+ * Listar referências da clínica (filtradas por estado, fatura, prestação ou utente)
+ */
+export async function listarReferencias(filtros: {
+  clinicaId: number;
+  estado?: ReferenciaMultibanco["estado"];
+  utenteId?: number;
+  faturaId?: number;
+  prestacaoId?: number;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const referencias = await db
+    .select()
+    .from(referenciasMultibanco)
+    .where(
+      and(
+        eq(referenciasMultibanco.clinicaId, filtros.clinicaId),
+        filtros.estado ? eq(referenciasMultibanco.estado, filtros.estado) : undefined,
+        filtros.utenteId ? eq(referenciasMultibanco.utenteId, filtros.utenteId) : undefined,
+        filtros.faturaId ? eq(referenciasMultibanco.faturaId, filtros.faturaId) : undefined,
+        filtros.prestacaoId ? eq(referenciasMultibanco.prestacaoId, filtros.prestacaoId) : undefined
+      )
+    )
+    .orderBy(desc(referenciasMultibanco.createdAt));
+
+  return referencias.map(r => ({ ...r, referenciaFormatada: formatarReferencia(r.referencia) }));
+}
+
+/**
+ * Anular uma referência pendente (ex: o utente pagou por outro meio)
+ */
+export async function anularReferencia(referenciaId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [anulada] = await db
+    .update(referenciasMultibanco)
+    .set({ estado: "anulada", updatedAt: new Date() })
+    .where(
+      and(
+        eq(referenciasMultibanco.id, referenciaId),
+        eq(referenciasMultibanco.clinicaId, clinicaId),
+        eq(referenciasMultibanco.estado, "pendente")
+      )
+    )
+    .returning();
+
+  if (!anulada) throw new Error("Referência pendente não encontrada");
+  return anulada;
+}
+
+export type ResultadoNotificacao =
+  | { estado: "registado"; referenciaId: number; recebimentoId: number; numeroRecibo: string | null }
+  | { estado: "duplicado"; referenciaId: number }
+  | { estado: "desconhecida"; motivo: string };
+
+/**
+ * Registar o pagamento comunicado pelo provedor e lançá-lo na conta corrente do utente
+ * A referência paga fica com o id da transação: a mesma notificação recebida de novo é ignorada.
+ * Pagamentos de referências já anuladas ou expiradas são registados na mesma (o dinheiro entrou)
+ */
+export async function registarPagamentoMultibanco(
+  notificacao: NotificacaoMultibanco,
+  clinicaId?: number
+): Promise<ResultadoNotificacao> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => {
+    const [repetida] = await tx
+      .select({ id: referenciasMultibanco.id })
+      .from(referenciasMultibanco)
+      .where(eq(referenciasMultibanco.idTransacao, notificacao.idTransacao))
+      .limit(1);
+
+    if (repetida) return { estado: "duplicado", referenciaId: repetida.id };
+
+    // A referência em espera de pagamento; se não houver, a última emitida com esse número
+    const candidatas: ReferenciaMultibanco[] = await tx
+      .select()
+      .from(referenciasMultibanco)
+      .where(
+        and(
+          eq(referenciasMultibanco.entidade, notificacao.entidade),
+          eq(referenciasMultibanco.referencia, notificacao.referencia),
+          clinicaId ? eq(referenciasMultibanco.clinicaId, clinicaId) : undefined,
+          inArray(referenciasMultibanco.estado, ["pendente", "expirada", "anulada"])
+        )
+      )
+      .orderBy(desc(referenciasMultibanco.createdAt))
+      .for("update");
+
+    const referencia = candidatas.find(r => r.estado === "pendente") ?? candidatas[0];
+    if (!referencia) {
+      return { estado: "desconhecida", motivo: `Referência ${notificacao.entidade} ${notificacao.referencia} não encontrada` };
+    }
+    if (!referenciaValida(referencia.entidade, referencia.referencia, centimos(referencia.valor))) {
+      return { estado: "desconhecida", motivo: `Referência ${referencia.referencia} com dígitos de controlo inválidos` };
+    }
+
+    const valor = notificacao.valorCentimos;
+    const dadosRecebimento = {
+      clinicaId: referencia.clinicaId,
+      utenteId: referencia.utenteId,
+      metodoPagamento: "multibanco" as const,
+      referencia: `MB ${referencia.entidade} ${formatarReferencia(referencia.referencia)}`,
+      userId: null,
+    };
+
+    let recebimentoId: number;
+    let numeroRecibo: string | null = null;
+
+    const prestacao = referencia.prestacaoId
+      ? (await tx
+          .select({ planoId: prestacoesPlano.planoId, estadoPlano: planosPagamento.estado })
+          .from(prestacoesPlano)
+          .innerJoin(planosPagamento, eq(prestacoesPlano.planoId, planosPagamento.id))
+          .where(eq(prestacoesPlano.id, referencia.prestacaoId))
+          .limit(1))[0]
+      : undefined;
+
+    const emFaltaPlano = prestacao?.estadoPlano === "ativo"
+      ? (await tx
+          .select({ valor: prestacoesPlano.valor, valorPago: prestacoesPlano.valorPago })
+          .from(prestacoesPlano)
+          .where(
+            and(
+              eq(prestacoesPlano.planoId, prestacao.planoId),
+              inArray(prestacoesPlano.estado, ["pendente", "parcialmente_paga", "vencida"])
+            )
+          ))
+          .reduce((s: number, p: { valor: string; valorPago: string }) => s + centimos(p.valor) - centimos(p.valorPago), 0)
+      : 0;
+
+    if (prestacao && valor <= emFaltaPlano) {
+      const pagamento = await lancarPagamentoPrestacoes(tx, {
+        ...dadosRecebimento,
+        planoId: prestacao.planoId,
+        valor: valor / 100,
+        dataPagamento: notificacao.dataPagamento,
+      });
+      recebimentoId = pagamento.recebimento.id;
+      numeroRecibo = pagamento.numeroRecibo;
+    } else {
+      // Fatura: imputado até ao valor em dívida; o resto (ou tudo, se já não houver dívida) fica como crédito
+      let imputar = 0;
+      if (referencia.faturaId) {
+        const [fatura] = await tx.select().from(faturas).where(eq(faturas.id, referencia.faturaId)).limit(1);
+        if (fatura && ESTADOS_FATURA_EM_ABERTO.includes(fatura.estado)) {
+          const divida = centimos(fatura.valorTotal) - centimos(fatura.valorCreditado) - centimos(fatura.valorPago);
+          imputar = Math.max(Math.min(valor, divida), 0);
+        }
+      }
+
+      const lancamento = await lancarRecebimento(tx, {
+        ...dadosRecebimento,
+        valor: valor / 100,
+        dataRecebimento: notificacao.dataPagamento,
+        imputacoes: imputar > 0 ? [{ faturaId: referencia.faturaId!, valor: imputar / 100 }] : undefined,
+      });
+      recebimentoId = lancamento.recebimento.id;
+      numeroRecibo = lancamento.numeroRecibo;
+    }
+
+    await tx
+      .update(referenciasMultibanco)
+      .set({
+        estado: "paga",
+        dataPagamento: notificacao.dataPagamento,
+        valorPago: euros(valor),
+        idTransacao: notificacao.idTransacao,
+        terminal: notificacao.terminal,
+        recebimentoId,
+        updatedAt: new Date(),
+      })
+      .where(eq(referenciasMultibanco.id, referencia.id));
+
+    return { estado: "registado", referenciaId: referencia.id, recebimentoId, numeroRecibo };
+  });
+}
+
+/**
+ * Importar o ficheiro de pagamentos do provedor da clínica
+ */
+export async function importarFicheiroPagamentos(clinicaId: number, conteudo: string) {
+  const configuracao = await obterConfiguracao(clinicaId);
+  if (!configuracao) throw new Error("Pagamentos Multibanco não configurados na clínica");
+
+  const notificacoes = obterProvedorMultibanco(configuracao.provedor).lerFicheiro(conteudo);
+  const resultados: (ResultadoNotificacao & { referencia: string })[] = [];
+
+  for (const notificacao of notificacoes) {
+    if (notificacao.entidade !== configuracao.entidade) {
+      resultados.push({ estado: "desconhecida", motivo: `Entidade ${notificacao.entidade} não é a da clínica`, referencia: notificacao.referencia });
+      continue;
+    }
+
+    try {
+      resultados.push({ ...(await registarPagamentoMultibanco(notificacao, clinicaId)), referencia: notificacao.referencia });
+    } catch (error: any) {
+      resultados.push({ estado: "desconhecida", motivo: error.message, referencia: notificacao.referencia });
+    }
+  }
+
+  return {
+    total: resultados.length,
+    registados: resultados.filter(r => r.estado === "registado").length,
+    duplicados: resultados.filter(r => r.estado === "duplicado").length,
+    naoConciliados: resultados.filter(r => r.estado === "desconhecida").length,
+    resultados,
+  };
+}
+
+/**
+ * Processar o callback de pagamento do provedor: a clínica é identificada pela entidade e
+ * subentidade (os 3 primeiros dígitos da referência)
+ */
+export async function processarCallback(parametros: Record<string, string | undefined>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const entidade = parametros.entidade || "";
+  const subentidade = (parametros.referencia || "").replace(/\s/g, "").slice(0, 3);
+
+  const [configuracao] = await db
+    .select()
+    .from(configuracoesMultibanco)
+    .where(
+      and(
+        eq(configuracoesMultibanco.entidade, entidade),
+        eq(configuracoesMultibanco.subentidade, subentidade)
+      )
+    )
+    .limit(1);
+
+  if (!configuracao) throw new Error("Entidade Multibanco desconhecida");
+
+  // Os callbacks só valem para provedores reais, que validam a chave anti-phishing
+  const provedor = obterProvedorMultibanco(configuracao.provedor);
+  if (provedor.simulado) throw new Error("Provedor sem callbacks de pagamento");
+
+  const notificacao = provedor.lerCallback(parametros, configuracao.chaveAntiPhishing);
+  return await registarPagamentoMultibanco(notificacao, configuracao.clinicaId);
+}
+
+/**
+ * Simular o pagamento de uma referência (só com o provedor "simulador")
+ */
+export async function simularPagamento(referenciaId: number, clinicaId: number) {
+  if (ENV.isProduction) throw new Error("A simulação de pagamentos não está disponível em produção");
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [referencia] = await db
+    .select()
+    .from(referenciasMultibanco)
+    .where(and(eq(referenciasMultibanco.id, referenciaId), eq(referenciasMultibanco.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!referencia) throw new Error("Referência não encontrada");
+  if (referencia.provedor !== "simulador") throw new Error("Só é possível simular pagamentos com o provedor simulador");
+
+  const notificacao = obterProvedorMultibanco("simulador").lerCallback(
+    {
+      entidade: referencia.entidade,
+      referencia: referencia.referencia,
+      valor: referencia.valor,
+      id: `SIM-${referencia.id}-${Date.now()}`,
+    },
+    null
+  );
+
+  return await registarPagamentoMultibanco(notificacao, clinicaId);
+}
+
+/**
+ * Marcar como expiradas as referências pendentes cuja data limite já passou
+ * Executado diariamente pelo scheduler
+ */
+export async function expirarReferencias(): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  // Nenhum fuso suportado está à frente de UTC+1
+  const amanha = adicionarDiasChave(new Date().toISOString().slice(0, 10), 1);
+
+  const candidatas = await db
+    .select({ id: referenciasMultibanco.id, dataLimite: referenciasMultibanco.dataLimite, clinicaId: referenciasMultibanco.clinicaId })
+    .from(referenciasMultibanco)
+    .where(and(eq(referenciasMultibanco.estado, "pendente"), lt(referenciasMultibanco.dataLimite, amanha)));
+
+  const agora = new Date();
+  const expiradas: number[] = [];
+  for (const referencia of candidatas) {
+    if (referencia.dataLimite! < chaveDia(agora, await obterFusoClinica(referencia.clinicaId))) expiradas.push(referencia.id);
+  }
+
+  if (expiradas.length === 0) return 0;
+
+  await db
+    .update(referenciasMultibanco)
+    .set({ estado: "expirada", updatedAt: new Date() })
+    .where(inArray(referenciasMultibanco.id, expiradas));
+
+  return expiradas.length;
+}
+
+/**
+ * Rota do callback de pagamentos (GET, como o provedor a chama)
+ */
+export function registarRotasMultibanco(app: Express) {
+  app.get("/api/multibanco/callback", async (req: Request, res: Response) => {
+    const parametros = Object.fromEntries(
+      Object.entries(req.query).map(([chave, valor]) => [chave, typeof valor === "string" ? valor : undefined])
+    );
+
+    try {
+      const resultado = await processarCallback(parametros);
+      if (resultado.estado === "desconhecida") console.warn(`[Multibanco] Pagamento não conciliado: ${resultado.motivo}`);
+      res.status(200).send("OK");
+    } catch (error: any) {
+      console.error("[Multibanco] Erro ao processar callback:", error);
+      const recusado = ["Chave anti-phishing inválida", "Provedor sem callbacks de pagamento"].includes(error.message);
+      res.status(recusado ? 403 : 400).send("Erro");
+    }
+  });
+}
@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { estadoFaturaAposCredito } from "./notas-credito";
+
+type Fatura = Parameters<typeof estadoFaturaAposCredito>[0];
+
+function fatura(estado: Fatura["estado"], valorPago: string, valorCreditado: string): Fatura {
+  return { estado, valorTotal: "100.00", valorPago, valorCreditado };
+}
+
+describe("estado da fatura depois de uma nota de crédito", () => {
+  it("fica creditada quando todo o valor foi creditado", () => {
+    assert.equal(estadoFaturaAposCredito(fatura("enviada", "0", "100.00")), "creditada");
+    assert.equal(estadoFaturaAposCredito(fatura("paga", "100.00", "100.00")), "creditada");
+  });
+
+  it("fica paga quando o pagamento cobre o que resta depois do crédito", () => {
+    assert.equal(estadoFaturaAposCredito(fatura("parcialmente_paga", "60.00", "40.00")), "paga");
+    assert.equal(estadoFaturaAposCredito(fatura("vencida", "70.00", "30.01")), "paga");
+  });
+
+  it("fica parcialmente paga com pagamentos abaixo do valor em dívida", () => {
+    assert.equal(estadoFaturaAposCredito(fatura("paga", "60.00", "0")), "parcialmente_paga");
+    assert.equal(estadoFaturaAposCredito(fatura("vencida", "10.00", "20.00")), "parcialmente_paga");
+  });
+
+  it("volta a enviada sem pagamentos, mantendo os outros estados", () => {
+    assert.equal(estadoFaturaAposCredito(fatura("paga", "0", "20.00")), "enviada");
+    assert.equal(estadoFaturaAposCredito(fatura("parcialmente_paga", "0", "0")), "enviada");
+    assert.equal(estadoFaturaAposCredito(fatura("vencida", "0", "20.00")), "vencida");
+    assert.equal(estadoFaturaAposCredito(fatura("enviada", "0", "20.00")), "enviada");
+  });
+
+  it("compara em cêntimos, sem erros de vírgula flutuante", () => {
+    assert.equal(estadoFaturaAposCredito({ estado: "enviada", valorTotal: "0.30", valorPago: "0.10", valorCreditado: "0.20" }), "paga");
+  });
+});
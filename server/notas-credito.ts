@@ -0,0 +1,411 @@
+import { getDb } from "./db";
+import { clinicas, faturas, itensFatura, pagamentosFatura, utentes } from "../drizzle/schema";
+import { itensNotaCredito, notasCredito, type NotaCredito } from "../drizzle/schema-faturacao";
+import { chaveDia, obterFusoClinica } from "./fuso-horario";
+import {
+  dadosImpressao,
+  espacoFiscal,
+  gerarCodigoQR,
+  numerarDocumento,
+  resumoIVA,
+  totaisPorTaxa,
+  type LinhaIVA,
+} from "./documentos-fiscais";
+import { and, desc, eq } from "drizzle-orm";
+
+/**
+ * Notas de Crédito
+ * Retificação total ou parcial de uma fatura emitida (uma fatura comunicada não pode ser anulada)
+ *
+ * - A nota referencia a fatura e as linhas creditadas; os valores são positivos e abatidos ao
+ *   valor em dívida da fatura (faturas.valorCreditado)
+ * - As comissões das linhas creditadas são estornadas proporcionalmente
+ * - Com reembolso, o valor devolvido ao utente fica registado como pagamento negativo
+ * - A nota é numerada e assinada na série NC ativa da clínica (ver documentos-fiscais)
+ */
+
+type EstadoFatura = typeof faturas.$inferSelect["estado"];
+type MetodoPagamento = typeof pagamentosFatura.$inferSelect["metodoPagamento"];
+
+/**
+ * Linha a creditar: por quantidade (unidades da linha original) ou por valor (sem IVA)
+ * Sem quantidade nem valor, é creditado todo o valor ainda por creditar da linha
+ */
+export interface LinhaCredito {
+  itemFaturaId: number;
+  quantidade?: number;
+  valor?: number;
+}
+
+/**
+ * Estados em que uma fatura pode ser retificada por nota de crédito
+ */
+const ESTADOS_CREDITAVEIS: EstadoFatura[] = ["enviada", "paga", "parcialmente_paga", "vencida"];
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+/**
+ * Estado da fatura depois de alterar o valor pago ou creditado
+ */
+export function estadoFaturaAposCredito(fatura: {
+  estado: EstadoFatura;
+  valorTotal: string;
+  valorPago: string;
+  valorCreditado: string;
+}): EstadoFatura {
+  const emDivida = centimos(fatura.valorTotal) - centimos(fatura.valorCreditado);
+  const pago = centimos(fatura.valorPago);
+
+  if (emDivida <= 0) return "creditada";
+  if (pago >= emDivida) return "paga";
+  if (pago > 0) return "parcialmente_paga";
+  return fatura.estado === "paga" || fatura.estado === "parcialmente_paga" ? "enviada" : fatura.estado;
+}
+
+/**
+ * Emitir nota de crédito sobre uma fatura
+ * - `linhas`: crédito parcial por linha (quantidade ou valor sem IVA)
+ * - `valor`: crédito parcial de um valor total (com IVA), repartido pelas linhas
+ * - nenhum dos dois: crédito de todo o valor ainda não creditado
+ * Com `reembolso`, o valor indicado (por omissão o total da nota, até ao valor pago) é
+ * registado como devolvido ao utente
+ */
+export async function emitirNotaCredito(dados: {
+  clinicaId: number;
+  faturaId: number;
+  motivo: string;
+  linhas?: LinhaCredito[];
+  valor?: number;
+  dataEmissao?: Date;
+  reembolso?: {
+    metodoPagamento: MetodoPagamento;
+    valor?: number;
+    referencia?: string;
+  };
+  referenciaExterna?: string;
+  userId: number | null;
+}): Promise<NotaCredito> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const motivo = dados.motivo.trim();
+  if (!motivo) throw new Error("Indique o motivo da nota de crédito");
+  if (dados.linhas && dados.valor !== undefined) {
+    throw new Error("Indique as linhas ou o valor a creditar, não ambos");
+  }
+
+  const dataEmissao = dados.dataEmissao ?? new Date();
+  const fuso = await obterFusoClinica(dados.clinicaId);
+
+  return await db.transaction(async tx => {
+    // Bloquear a fatura: duas notas em simultâneo não podem creditar o mesmo valor
+    const [fatura] = await tx
+      .select()
+      .from(faturas)
+      .where(and(eq(faturas.id, dados.faturaId), eq(faturas.clinicaId, dados.clinicaId)))
+      .for("update");
+
+    if (!fatura) throw new Error("Fatura não encontrada");
+    if (!ESTADOS_CREDITAVEIS.includes(fatura.estado)) {
+      throw new Error(
+        fatura.estado === "rascunho"
+          ? "A fatura ainda não foi emitida: altere-a em vez de emitir uma nota de crédito"
+          : "A fatura já não pode ser retificada"
+      );
+    }
+
+    const itens = await tx
+      .select()
+      .from(itensFatura)
+      .where(eq(itensFatura.faturaId, fatura.id))
+      .orderBy(itensFatura.id);
+
+    const porCreditar = new Map(itens.map(i => [i.id, centimos(i.precoTotal) - centimos(i.valorCreditado)]));
+    const totalFatura = centimos(fatura.valorTotal);
+    const subtotalFatura = centimos(fatura.subtotal);
+    const emDivida = totalFatura - centimos(fatura.valorCreditado);
+
+    if (emDivida <= 0) throw new Error("A fatura já foi totalmente creditada");
+
+    // Valor sem IVA a creditar em cada linha (cêntimos)
+    const creditos = new Map<number, number>();
+
+    if (dados.linhas) {
+      for (const linha of dados.linhas) {
+        const item = itens.find(i => i.id === linha.itemFaturaId);
+        if (!item) throw new Error(`A linha ${linha.itemFaturaId} não pertence à fatura`);
+
+        const disponivel = porCreditar.get(item.id)!;
+        const valor = linha.valor !== undefined
+          ? centimos(linha.valor)
+          : linha.quantidade !== undefined
+            ? centimos(item.precoUnitario) * linha.quantidade
+            : disponivel;
+
+        if (valor <= 0) throw new Error(`Valor a creditar inválido na linha "${item.descricao}"`);
+        const total = (creditos.get(item.id) ?? 0) + valor;
+        if (total > disponivel) {
+          throw new Error(`A linha "${item.descricao}" só tem ${euros(disponivel)} € por creditar`);
+        }
+        creditos.set(item.id, total);
+      }
+    } else {
+      // Repartir pelas linhas na proporção do que falta creditar em cada uma
+      const totalPorCreditar = Array.from(porCreditar.values()).reduce((s, v) => s + v, 0);
+      const pedido = dados.valor !== undefined ? centimos(dados.valor) : emDivida;
+      if (pedido <= 0) throw new Error("O valor a creditar deve ser positivo");
+      if (pedido > emDivida) {
+        throw new Error(`O valor a creditar excede o valor por creditar da fatura (${euros(emDivida)} €)`);
+      }
+
+      const subtotalPedido = pedido === emDivida
+        ? totalPorCreditar
+        : Math.round(pedido * subtotalFatura / totalFatura);
+
+      let atribuido = 0;
+      const comSaldo = itens.filter(i => porCreditar.get(i.id)! > 0);
+      comSaldo.forEach((item, indice) => {
+        const disponivel = porCreditar.get(item.id)!;
+        const valor = indice === comSaldo.length - 1
+          ? Math.min(subtotalPedido - atribuido, disponivel)
+          : Math.min(Math.round(subtotalPedido * disponivel / totalPorCreditar), disponivel);
+        if (valor > 0) creditos.set(item.id, valor);
+        atribuido += valor;
+      });
+    }
+
+    if (creditos.size === 0) throw new Error("Indique pelo menos uma linha a creditar");
+
+    // Totais da nota, com as taxas de IVA das linhas e a proporção do desconto da fatura
+    const linhasIVA: LinhaIVA[] = itens
+      .filter(i => creditos.has(i.id))
+      .map(i => ({ valor: creditos.get(i.id)!, taxa: parseFloat(i.taxaIVA), motivoIsencao: i.motivoIsencao }));
+    const subtotal = linhasIVA.reduce((s, l) => s + l.valor, 0);
+    let valorDesconto = subtotalFatura > 0
+      ? Math.round(centimos(fatura.valorDesconto) * subtotal / subtotalFatura)
+      : 0;
+    let totais = totaisPorTaxa(linhasIVA, valorDesconto);
+    let valorTotal = totais.reduce((s, t) => s + t.base + t.iva, 0);
+
+    // A última nota fecha exatamente o valor em dívida (sem diferenças de arredondamento)
+    const totalmenteCreditada = itens.every(i => (creditos.get(i.id) ?? 0) === porCreditar.get(i.id));
+    if (totalmenteCreditada || valorTotal > emDivida) {
+      valorDesconto += valorTotal - emDivida;
+      totais = totaisPorTaxa(linhasIVA, valorDesconto);
+      // O que ainda sobrar do arredondamento fica na base da última taxa
+      totais[totais.length - 1].base -= totais.reduce((s, t) => s + t.base + t.iva, 0) - emDivida;
+      valorTotal = emDivida;
+    }
+    if (valorTotal <= 0) throw new Error("O valor a creditar deve ser positivo");
+    const valorIVA = totais.reduce((s, t) => s + t.iva, 0);
+
+    const [emitente] = await tx
+      .select({ nif: clinicas.nif })
+      .from(clinicas)
+      .where(eq(clinicas.id, dados.clinicaId))
+      .limit(1);
+    if (!emitente?.nif) throw new Error("Configure o NIF da clínica antes de emitir notas de crédito");
+
+    const [adquirente] = await tx
+      .select({ nif: utentes.nif, pais: utentes.pais })
+      .from(utentes)
+      .where(eq(utentes.id, fatura.utenteId))
+      .limit(1);
+
+    const documento = await numerarDocumento(tx, {
+      clinicaId: dados.clinicaId,
+      tipoDocumento: "NC",
+      dataDocumento: dataEmissao,
+      valorTotal: euros(valorTotal),
+      fuso,
+    });
+    const numero = documento.numeroDocumento;
+
+    const codigoQR = gerarCodigoQR({
+      nifEmitente: emitente.nif,
+      nifAdquirente: adquirente?.nif,
+      paisAdquirente: adquirente?.pais,
+      tipoDocumento: "NC",
+      dataDocumento: chaveDia(dataEmissao, fuso),
+      numeroDocumento: numero,
+      atcud: documento.atcud,
+      espacoFiscal: espacoFiscal(fuso),
+      resumoIVA: resumoIVA(totais),
+      valorTotal: valorTotal / 100,
+      hash: documento.hash,
+    });
+
+    const [nota] = await tx
+      .insert(notasCredito)
+      .values({
+        clinicaId: dados.clinicaId,
+        utenteId: fatura.utenteId,
+        faturaId: fatura.id,
+        numero,
+        serieId: documento.serieId,
+        atcud: documento.atcud,
+        hash: documento.hash,
+        hashControlo: documento.hashControlo,
+        dataSistema: documento.dataSistema,
+        codigoQR,
+        dataEmissao,
+        motivo,
+        subtotal: euros(subtotal),
+        percentagemIVA: fatura.percentagemIVA,
+        valorIVA: euros(valorIVA),
+        valorDesconto: euros(valorDesconto),
+        valorTotal: euros(valorTotal),
+        referenciaExterna: dados.referenciaExterna,
+        emitidaPor: dados.userId,
+      })
+      .returning();
+
+    for (const item of itens) {
+      const valor = creditos.get(item.id);
+      if (!valor) continue;
+
+      // Comissões estornadas na proporção do valor ainda não creditado da linha
+      const proporcao = valor / porCreditar.get(item.id)!;
+      const comissao = Math.round(centimos(item.comissaoDentista) * proporcao);
+      const clinica = Math.round(centimos(item.valorClinica) * proporcao);
+
+      const porUnidade = valor % centimos(item.precoUnitario) === 0 && centimos(item.precoUnitario) > 0;
+      await tx.insert(itensNotaCredito).values({
+        notaCreditoId: nota.id,
+        itemFaturaId: item.id,
+        procedimentoId: item.procedimentoId,
+        descricao: item.descricao,
+        quantidade: porUnidade ? valor / centimos(item.precoUnitario) : 1,
+        precoUnitario: porUnidade ? item.precoUnitario : euros(valor),
+        precoTotal: euros(valor),
+        taxaIVA: item.taxaIVA,
+        motivoIsencao: item.motivoIsencao,
+        comissaoDentista: euros(comissao),
+        valorClinica: euros(clinica),
+      });
+
+      await tx
+        .update(itensFatura)
+        .set({
+          valorCreditado: euros(centimos(item.valorCreditado) + valor),
+          comissaoDentista: euros(centimos(item.comissaoDentista) - comissao),
+          valorClinica: euros(centimos(item.valorClinica) - clinica),
+        })
+        .where(eq(itensFatura.id, item.id));
+    }
+
+    // Reembolso ao utente (nunca mais do que o valor pago nem do que o total da nota)
+    let valorPago = centimos(fatura.valorPago);
+    let notaFinal = nota;
+    if (dados.reembolso) {
+      const reembolso = Math.min(
+        dados.reembolso.valor !== undefined ? centimos(dados.reembolso.valor) : valorTotal,
+        valorTotal,
+        valorPago
+      );
+
+      if (reembolso > 0) {
+        const [pagamento] = await tx
+          .insert(pagamentosFatura)
+          .values({
+            faturaId: fatura.id,
+            valor: euros(-reembolso),
+            metodoPagamento: dados.reembolso.metodoPagamento,
+            dataPagamento: dataEmissao,
+            referencia: dados.reembolso.referencia,
+            observacoes: `Reembolso da nota de crédito ${numero}`,
+          })
+          .returning();
+
+        valorPago -= reembolso;
+        [notaFinal] = await tx
+          .update(notasCredito)
+          .set({ valorReembolsado: euros(reembolso), pagamentoReembolsoId: pagamento.id })
+          .where(eq(notasCredito.id, nota.id))
+          .returning();
+      }
+    }
+
+    const atualizada = {
+      ...fatura,
+      valorPago: euros(valorPago),
+      valorCreditado: euros(centimos(fatura.valorCreditado) + valorTotal),
+    };
+
+    await tx
+      .update(faturas)
+      .set({
+        valorPago: atualizada.valorPago,
+        valorCreditado: atualizada.valorCreditado,
+        estado: estadoFaturaAposCredito(atualizada),
+        updatedAt: new Date(),
+      })
+      .where(eq(faturas.id, fatura.id));
+
+    return notaFinal;
+  });
+}
+
+/**
+ * Listar notas de crédito da clínica (mais recentes primeiro)
+ */
+export async function listarNotasCredito(dados: {
+  clinicaId: number;
+  faturaId?: number;
+  utenteId?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const conditions = [eq(notasCredito.clinicaId, dados.clinicaId)];
+  if (dados.faturaId) conditions.push(eq(notasCredito.faturaId, dados.faturaId));
+  if (dados.utenteId) conditions.push(eq(notasCredito.utenteId, dados.utenteId));
+
+  return await db
+    .select({
+      notaCredito: notasCredito,
+      fatura: { id: faturas.id, numeroFatura: faturas.numeroFatura },
+      utente: { id: utentes.id, nome: utentes.nome },
+    })
+    .from(notasCredito)
+    .innerJoin(faturas, eq(notasCredito.faturaId, faturas.id))
+    .innerJoin(utentes, eq(notasCredito.utenteId, utentes.id))
+    .where(and(...conditions))
+    .orderBy(desc(notasCredito.dataEmissao), desc(notasCredito.id));
+}
+
+/**
+ * Nota de crédito com as linhas e a fatura de origem
+ */
+export async function obterNotaCredito(notaCreditoId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [resultado] = await db
+    .select({
+      notaCredito: notasCredito,
+      fatura: faturas,
+      utente: utentes,
+    })
+    .from(notasCredito)
+    .innerJoin(faturas, eq(notasCredito.faturaId, faturas.id))
+    .innerJoin(utentes, eq(notasCredito.utenteId, utentes.id))
+    .where(and(eq(notasCredito.id, notaCreditoId), eq(notasCredito.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!resultado) return null;
+
+  const itens = await db
+    .select()
+    .from(itensNotaCredito)
+    .where(eq(itensNotaCredito.notaCreditoId, notaCreditoId))
+    .orderBy(itensNotaCredito.id);
+
+  return { ...resultado, itens, certificacao: dadosImpressao(resultado.notaCredito) };
+}
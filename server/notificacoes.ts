@@ -1,6 +1,7 @@
 import { getDb } from "./db";
 import { consultas, utentes, dentistas, clinicas, templatesMensagem, mensagensUtente } from "../drizzle/schema";
 import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { FUSO_PADRAO, formatarHora } from "./fuso-horario";
 
 /**
  * Sistema de Notificações Automáticas
@@ -37,6 +38,7 @@ export async function getConsultasParaLembrete(antecedenciaHoras: number = 24) {
       clinicaNome: clinicas.nome,
       clinicaTelemovel: clinicas.telemovel,
       clinicaEmail: clinicas.email,
+      clinicaFusoHorario: clinicas.fusoHorario,
     })
     .from(consultas)
     .innerJoin(utentes, eq(consultas.utenteId, utentes.id))
@@ -87,18 +89,19 @@ export function formatarMensagemLembrete(dados: {
   clinicaNome: string;
   consultaHora: Date;
   clinicaTelemovel: string | null;
+  fusoHorario?: string;
 }): { email: string; sms: string } {
+  const fuso = dados.fusoHorario || FUSO_PADRAO;
+
   const dataFormatada = new Date(dados.consultaHora).toLocaleDateString("pt-PT", {
     weekday: "long",
     year: "numeric",
     month: "long",
     day: "numeric",
+    timeZone: fuso,
   });
 
-  const horaFormatada = new Date(dados.consultaHora).toLocaleTimeString("pt-PT", {
-    hour: "2-digit",
-    minute: "2-digit",
-  });
+  const horaFormatada = formatarHora(new Date(dados.consultaHora), fuso);
 
   const email = `
 Olá ${dados.utenteNome},
@@ -138,6 +141,7 @@ export async function processarLembretesAutomaticos(config: NotificacaoConfig) {
       clinicaNome: consulta.clinicaNome,
       consultaHora: consulta.consultaHora,
       clinicaTelemovel: consulta.clinicaTelemovel,
+      fusoHorario: consulta.clinicaFusoHorario,
     });
 
     // Enviar email
@@ -239,75 +239,6 @@ export class PaymentIntegrationService {
       return [];
     }
   }
-
-  /**
-   * Obter resumo financeiro do utente
-   */
-  static async getResumoFinanceiroUtente(
-    utenteId: number,
-    clinicaId: number
-  ): Promise<{
-    totalFaturado: number;
-    totalPago: number;
-    totalPendente: number;
-    numeroFaturas: number;
-    faturasVencidas: number;
-  }> {
-    try {
-      const db = await getDb();
-      if (!db) {
-        return {
-          totalFaturado: 0,
-          totalPago: 0,
-          totalPendente: 0,
-          numeroFaturas: 0,
-          faturasVencidas: 0,
-        };
-      }
-
-      // Obter todas as faturas do utente
-      const faturasUtente = await db
-        .select()
-        .from(faturas)
-        .where(eq(faturas.utenteId, utenteId));
-
-      const totalFaturado = faturasUtente.reduce(
-        (sum, f) => sum + parseFloat(f.valorTotal),
-        0
-      );
-      const totalPago = faturasUtente.reduce(
-        (sum, f) => sum + parseFloat(f.valorPago),
-        0
-      );
-      const totalPendente = totalFaturado - totalPago;
-
-      const hoje = new Date();
-      const faturasVencidas = faturasUtente.filter(
-        (f) =>
-          f.dataVencimento &&
-          new Date(f.dataVencimento) < hoje &&
-          f.estado !== "paga" &&
-          f.estado !== "cancelada"
-      ).length;
-
-      return {
-        totalFaturado,
-        totalPago,
-        totalPendente,
-        numeroFaturas: faturasUtente.length,
-        faturasVencidas,
-      };
-    } catch (error) {
-      console.error("Erro ao obter resumo financeiro:", error);
-      return {
-        totalFaturado: 0,
-        totalPago: 0,
-        totalPendente: 0,
-        numeroFaturas: 0,
-        faturasVencidas: 0,
-      };
-    }
-  }
 }
 
 export default PaymentIntegrationService;
@@ -0,0 +1,650 @@
+import { getDb, type Tx } from "./db";
+import { clinicas, faturas, utentes } from "../drizzle/schema";
+import {
+  planosPagamento,
+  prestacoesPlano,
+  type PlanoPagamento,
+  type PrestacaoPlano,
+} from "../drizzle/schema-faturacao";
+import { adicionarDiasChave, adicionarMesesChave, chaveDia, fusoValido, obterFusoClinica, FUSO_PADRAO } from "./fuso-horario";
+import { lancarRecebimento } from "./conta-corrente";
+import { and, asc, desc, eq, inArray, lt, notInArray } from "drizzle-orm";
+
+/**
+ * Planos de Pagamento em Prestações
+ * Tratamentos caros (implantes, ortodontia) pagos em 6 a 24 meses, com entrada opcional
+ *
+ * - As datas de vencimento são dias de calendário (YYYY-MM-DD) no fuso da clínica
+ * - O pagamento de prestações é um recebimento da conta corrente: imputado à fatura do plano,
+ *   se existir e tiver valor em dívida, senão fica como crédito do utente (a usar quando o
+ *   tratamento for faturado)
+ * - Prestações não pagas até ao vencimento passam a "vencida" (job diário) e o utente recebe
+ *   lembretes pelo PaymentReminderService
+ * - Reagendar um plano anula as prestações em aberto e distribui o valor em falta por novas
+ *   prestações; o que já foi pago fica nas prestações antigas
+ */
+
+type EstadoPrestacao = PrestacaoPlano["estado"];
+type MetodoPagamento = Parameters<typeof lancarRecebimento>[1]["metodoPagamento"];
+
+/**
+ * Prestações que ainda contam para o valor em falta
+ */
+const ESTADOS_EM_ABERTO: EstadoPrestacao[] = ["pendente", "parcialmente_paga", "vencida"];
+
+const ESTADOS_FATURA_EM_ABERTO: (typeof faturas.$inferSelect)["estado"][] = ["enviada", "parcialmente_paga", "vencida"];
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+function emFalta(prestacao: { valor: string; valorPago: string }): number {
+  return centimos(prestacao.valor) - centimos(prestacao.valorPago);
+}
+
+/**
+ * Estado de uma prestação a partir do valor pago e do vencimento (hoje = YYYY-MM-DD da clínica)
+ */
+function estadoPrestacao(prestacao: { valor: string; valorPago: string; dataVencimento: string }, hoje: string): EstadoPrestacao {
+  if (emFalta(prestacao) <= 0) return "paga";
+  if (prestacao.dataVencimento < hoje) return "vencida";
+  return centimos(prestacao.valorPago) > 0 ? "parcialmente_paga" : "pendente";
+}
+
+/**
+ * Dividir um valor (cêntimos) em prestações iguais; a última acerta os cêntimos do arredondamento
+ */
+function calendarioPrestacoes(total: number, numero: number, primeira: string, periodicidadeMeses: number) {
+  const valor = Math.floor(total / numero);
+
+  return Array.from({ length: numero }, (_, i) => ({
+    valor: i === numero - 1 ? total - valor * (numero - 1) : valor,
+    dataVencimento: adicionarMesesChave(primeira, i * periodicidadeMeses),
+  }));
+}
+
+function validarData(chave: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(chave) || isNaN(Date.parse(chave))) {
+    throw new Error(`Data inválida: ${chave} (use AAAA-MM-DD)`);
+  }
+}
+
+/**
+ * Obter e bloquear o plano para alteração
+ */
+async function bloquearPlano(tx: Tx, planoId: number, clinicaId: number): Promise<PlanoPagamento> {
+  const [plano] = await tx
+    .select()
+    .from(planosPagamento)
+    .where(and(eq(planosPagamento.id, planoId), eq(planosPagamento.clinicaId, clinicaId)))
+    .for("update");
+
+  if (!plano) throw new Error("Plano de pagamento não encontrado");
+  return plano;
+}
+
+async function prestacoesEmAberto(tx: Tx, planoId: number): Promise<PrestacaoPlano[]> {
+  return await tx
+    .select()
+    .from(prestacoesPlano)
+    .where(and(eq(prestacoesPlano.planoId, planoId), inArray(prestacoesPlano.estado, ESTADOS_EM_ABERTO)))
+    .orderBy(asc(prestacoesPlano.numero));
+}
+
+/**
+ * Fechar as prestações em aberto: as que têm pagamentos ficam pagas pelo valor já recebido,
+ * as outras são anuladas. Devolve o valor que ficou por pagar (cêntimos)
+ */
+async function fecharPrestacoes(tx: Tx, prestacoes: PrestacaoPlano[]): Promise<number> {
+  let porPagar = 0;
+
+  for (const prestacao of prestacoes) {
+    porPagar += emFalta(prestacao);
+    const pago = centimos(prestacao.valorPago) > 0;
+
+    await tx
+      .update(prestacoesPlano)
+      .set({
+        valor: pago ? prestacao.valorPago : prestacao.valor,
+        estado: pago ? "paga" : "anulada",
+        updatedAt: new Date(),
+      })
+      .where(eq(prestacoesPlano.id, prestacao.id));
+  }
+
+  return porPagar;
+}
+
+/**
+ * Criar um plano de pagamento com entrada (opcional) e prestações
+ */
+export async function criarPlano(dados: {
+  clinicaId: number;
+  utenteId: number;
+  faturaId?: number;
+  descricao: string;
+  valorTotal: number;
+  valorEntrada?: number;
+  numeroPrestacoes: number;
+  periodicidadeMeses?: number;
+  dataInicio: string; // YYYY-MM-DD
+  observacoes?: string;
+  userId: number | null;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  validarData(dados.dataInicio);
+  const total = centimos(dados.valorTotal);
+  const entrada = centimos(dados.valorEntrada ?? 0);
+  const periodicidade = dados.periodicidadeMeses ?? 1;
+
+  if (total <= 0) throw new Error("O valor do plano deve ser positivo");
+  if (entrada < 0 || entrada >= total) throw new Error("A entrada tem de ser inferior ao valor do plano");
+  if (dados.numeroPrestacoes < 1) throw new Error("O plano tem de ter pelo menos uma prestação");
+
+  return await db.transaction(async tx => {
+    const [utente] = await tx
+      .select({ id: utentes.id })
+      .from(utentes)
+      .where(and(eq(utentes.id, dados.utenteId), eq(utentes.clinicaId, dados.clinicaId)))
+      .limit(1);
+
+    if (!utente) throw new Error("Utente não encontrado");
+
+    if (dados.faturaId) {
+      const [fatura] = await tx
+        .select()
+        .from(faturas)
+        .where(
+          and(
+            eq(faturas.id, dados.faturaId),
+            eq(faturas.clinicaId, dados.clinicaId),
+            eq(faturas.utenteId, dados.utenteId)
+          )
+        )
+        .limit(1);
+
+      if (!fatura) throw new Error("Fatura não encontrada");
+      if (!ESTADOS_FATURA_EM_ABERTO.includes(fatura.estado)) throw new Error("A fatura não está em aberto");
+
+      const divida = centimos(fatura.valorTotal) - centimos(fatura.valorCreditado) - centimos(fatura.valorPago);
+      if (total > divida) {
+        throw new Error(`O valor do plano excede o valor em dívida da fatura (${euros(divida)} €)`);
+      }
+    }
+
+    const [plano] = await tx
+      .insert(planosPagamento)
+      .values({
+        clinicaId: dados.clinicaId,
+        utenteId: dados.utenteId,
+        faturaId: dados.faturaId,
+        descricao: dados.descricao,
+        valorTotal: euros(total),
+        valorEntrada: euros(entrada),
+        numeroPrestacoes: dados.numeroPrestacoes,
+        periodicidadeMeses: periodicidade,
+        dataInicio: dados.dataInicio,
+        observacoes: dados.observacoes,
+        criadoPor: dados.userId,
+      })
+      .returning();
+
+    // Com entrada, a 1.ª prestação vence um período depois
+    const primeira = entrada > 0 ? adicionarMesesChave(dados.dataInicio, periodicidade) : dados.dataInicio;
+    const calendario = calendarioPrestacoes(total - entrada, dados.numeroPrestacoes, primeira, periodicidade);
+
+    const prestacoes = await tx
+      .insert(prestacoesPlano)
+      .values([
+        ...(entrada > 0 ? [{ numero: 0, valor: euros(entrada), dataVencimento: dados.dataInicio }] : []),
+        ...calendario.map((p, i) => ({ numero: i + 1, valor: euros(p.valor), dataVencimento: p.dataVencimento })),
+      ].map(p => ({ ...p, planoId: plano.id })))
+      .returning();
+
+    return { ...plano, prestacoes };
+  });
+}
+
+/**
+ * Totais do plano a partir das prestações
+ */
+function resumoPlano(prestacoes: PrestacaoPlano[]) {
+  const validas = prestacoes.filter(p => p.estado !== "anulada");
+  const abertas = validas.filter(p => ESTADOS_EM_ABERTO.includes(p.estado));
+  const proxima = abertas.sort((a, b) => a.dataVencimento.localeCompare(b.dataVencimento))[0];
+
+  return {
+    valorPago: validas.reduce((s, p) => s + centimos(p.valorPago), 0) / 100,
+    valorEmFalta: abertas.reduce((s, p) => s + emFalta(p), 0) / 100,
+    valorEmAtraso: abertas.filter(p => p.estado === "vencida").reduce((s, p) => s + emFalta(p), 0) / 100,
+    prestacoesPagas: validas.filter(p => p.estado === "paga").length,
+    prestacoesVencidas: abertas.filter(p => p.estado === "vencida").length,
+    proximaPrestacao: proxima
+      ? { id: proxima.id, numero: proxima.numero, dataVencimento: proxima.dataVencimento, valor: emFalta(proxima) / 100 }
+      : null,
+  };
+}
+
+/**
+ * Plano com as prestações (incluindo as anuladas em reagendamentos) e totais
+ */
+export async function obterPlano(planoId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [plano] = await db
+    .select()
+    .from(planosPagamento)
+    .where(and(eq(planosPagamento.id, planoId), eq(planosPagamento.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!plano) throw new Error("Plano de pagamento não encontrado");
+
+  const prestacoes = await db
+    .select()
+    .from(prestacoesPlano)
+    .where(eq(prestacoesPlano.planoId, planoId))
+    .orderBy(asc(prestacoesPlano.numero));
+
+  return { ...plano, prestacoes, ...resumoPlano(prestacoes) };
+}
+
+/**
+ * Listar planos da clínica (ou de um utente), com totais
+ */
+export async function listarPlanos(filtros: {
+  clinicaId: number;
+  utenteId?: number;
+  estado?: PlanoPagamento["estado"];
+}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const planos = await db
+    .select({ plano: planosPagamento, utenteNome: utentes.nome })
+    .from(planosPagamento)
+    .innerJoin(utentes, eq(planosPagamento.utenteId, utentes.id))
+    .where(
+      and(
+        eq(planosPagamento.clinicaId, filtros.clinicaId),
+        filtros.utenteId ? eq(planosPagamento.utenteId, filtros.utenteId) : undefined,
+        filtros.estado ? eq(planosPagamento.estado, filtros.estado) : undefined
+      )
+    )
+    .orderBy(desc(planosPagamento.createdAt));
+
+  if (planos.length === 0) return [];
+
+  const prestacoes = await db
+    .select()
+    .from(prestacoesPlano)
+    .where(inArray(prestacoesPlano.planoId, planos.map(p => p.plano.id)));
+
+  return planos.map(({ plano, utenteNome }) => ({
+    ...plano,
+    utenteNome,
+    ...resumoPlano(prestacoes.filter(p => p.planoId === plano.id)),
+  }));
+}
+
+type DadosPagamentoPrestacoes = {
+  clinicaId: number;
+  planoId: number;
+  valor: number;
+  metodoPagamento: MetodoPagamento;
+  dataPagamento: Date;
+  referencia?: string;
+  userId: number | null;
+};
+
+/**
+ * Lançar o pagamento de prestações numa transação já aberta (ex: referência Multibanco paga)
+ */
+export async function lancarPagamentoPrestacoes(tx: Tx, dados: DadosPagamentoPrestacoes) {
+  const valor = centimos(dados.valor);
+  if (valor <= 0) throw new Error("O valor pago deve ser positivo");
+
+  const hoje = chaveDia(new Date(), await obterFusoClinica(dados.clinicaId));
+
+  const plano = await bloquearPlano(tx, dados.planoId, dados.clinicaId);
+  if (plano.estado !== "ativo") throw new Error("O plano de pagamento não está ativo");
+
+  const abertas = await prestacoesEmAberto(tx, plano.id);
+  const porPagar = abertas.reduce((s, p) => s + emFalta(p), 0);
+  if (valor > porPagar) throw new Error(`O plano só tem ${euros(porPagar)} € por pagar`);
+
+  // Parte do pagamento que ainda pode ser imputada à fatura do plano
+  let imputarFatura = 0;
+  if (plano.faturaId) {
+    const [fatura] = await tx.select().from(faturas).where(eq(faturas.id, plano.faturaId)).limit(1);
+    if (fatura && ESTADOS_FATURA_EM_ABERTO.includes(fatura.estado)) {
+      const divida = centimos(fatura.valorTotal) - centimos(fatura.valorCreditado) - centimos(fatura.valorPago);
+      imputarFatura = Math.max(Math.min(valor, divida), 0);
+    }
+  }
+
+  const lancamento = await lancarRecebimento(tx, {
+    clinicaId: plano.clinicaId,
+    utenteId: plano.utenteId,
+    valor: valor / 100,
+    metodoPagamento: dados.metodoPagamento,
+    dataRecebimento: dados.dataPagamento,
+    referencia: dados.referencia,
+    observacoes: `Plano de pagamento: ${plano.descricao}`,
+    imputacoes: imputarFatura > 0 ? [{ faturaId: plano.faturaId!, valor: imputarFatura / 100 }] : undefined,
+    userId: dados.userId,
+  });
+
+  let restante = valor;
+  const pagas: PrestacaoPlano[] = [];
+  for (const prestacao of abertas) {
+    if (restante <= 0) break;
+    const parte = Math.min(emFalta(prestacao), restante);
+    restante -= parte;
+
+    const valorPago = euros(centimos(prestacao.valorPago) + parte);
+    const [atualizada] = await tx
+      .update(prestacoesPlano)
+      .set({
+        valorPago,
+        estado: estadoPrestacao({ ...prestacao, valorPago }, hoje),
+        dataPagamento: dados.dataPagamento,
+        updatedAt: new Date(),
+      })
+      .where(eq(prestacoesPlano.id, prestacao.id))
+      .returning();
+    pagas.push(atualizada);
+  }
+
+  const concluido = valor === porPagar;
+  if (concluido) {
+    await tx
+      .update(planosPagamento)
+      .set({ estado: "concluido", updatedAt: new Date() })
+      .where(eq(planosPagamento.id, plano.id));
+  }
+
+  return {
+    prestacoes: pagas,
+    recebimento: lancamento.recebimento,
+    numeroRecibo: lancamento.numeroRecibo,
+    valorEmFalta: euros(porPagar - valor),
+    concluido,
+  };
+}
+
+/**
+ * Registar o pagamento de prestações: o valor é imputado às prestações em aberto, pela ordem,
+ * e lançado na conta corrente do utente (na fatura do plano, se tiver valor em dívida)
+ */
+export async function pagarPrestacoes(dados: DadosPagamentoPrestacoes) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => await lancarPagamentoPrestacoes(tx, dados));
+}
+
+/**
+ * Reagendar o valor em falta (ex: depois de prestações falhadas) em novas prestações
+ */
+export async function reagendarPlano(dados: {
+  clinicaId: number;
+  planoId: number;
+  dataPrimeiraPrestacao: string; // YYYY-MM-DD
+  numeroPrestacoes: number;
+  periodicidadeMeses?: number;
+  observacoes?: string;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  validarData(dados.dataPrimeiraPrestacao);
+  if (dados.numeroPrestacoes < 1) throw new Error("O plano tem de ter pelo menos uma prestação");
+
+  return await db.transaction(async tx => {
+    const plano = await bloquearPlano(tx, dados.planoId, dados.clinicaId);
+    if (plano.estado !== "ativo") throw new Error("O plano de pagamento não está ativo");
+
+    const porPagar = await fecharPrestacoes(tx, await prestacoesEmAberto(tx, plano.id));
+    if (porPagar <= 0) throw new Error("O plano não tem valor por pagar");
+
+    const [ultima] = await tx
+      .select({ numero: prestacoesPlano.numero })
+      .from(prestacoesPlano)
+      .where(eq(prestacoesPlano.planoId, plano.id))
+      .orderBy(desc(prestacoesPlano.numero))
+      .limit(1);
+
+    const periodicidade = dados.periodicidadeMeses ?? plano.periodicidadeMeses;
+    const calendario = calendarioPrestacoes(porPagar, dados.numeroPrestacoes, dados.dataPrimeiraPrestacao, periodicidade);
+
+    const prestacoes = await tx
+      .insert(prestacoesPlano)
+      .values(calendario.map((p, i) => ({
+        planoId: plano.id,
+        numero: ultima.numero + i + 1,
+        valor: euros(p.valor),
+        dataVencimento: p.dataVencimento,
+      })))
+      .returning();
+
+    const [atualizado] = await tx
+      .update(planosPagamento)
+      .set({
+        periodicidadeMeses: periodicidade,
+        reagendamentos: plano.reagendamentos + 1,
+        observacoes: dados.observacoes ?? plano.observacoes,
+        updatedAt: new Date(),
+      })
+      .where(eq(planosPagamento.id, plano.id))
+      .returning();
+
+    return { ...atualizado, prestacoes };
+  });
+}
+
+/**
+ * Ajustar o valor ou o vencimento de prestações em aberto. O valor em falta do plano não muda:
+ * o que se tira a uma prestação tem de passar para outra
+ */
+export async function ajustarPlano(dados: {
+  clinicaId: number;
+  planoId: number;
+  descricao?: string;
+  observacoes?: string;
+  prestacoes?: { prestacaoId: number; valor?: number; dataVencimento?: string }[];
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const hoje = chaveDia(new Date(), await obterFusoClinica(dados.clinicaId));
+
+  return await db.transaction(async tx => {
+    const plano = await bloquearPlano(tx, dados.planoId, dados.clinicaId);
+    if (plano.estado !== "ativo") throw new Error("O plano de pagamento não está ativo");
+
+    if (dados.prestacoes?.length) {
+      const abertas = await prestacoesEmAberto(tx, plano.id);
+      const antes = abertas.reduce((s, p) => s + centimos(p.valor), 0);
+
+      const novas = abertas.map(prestacao => {
+        const ajuste = dados.prestacoes!.find(a => a.prestacaoId === prestacao.id);
+        if (!ajuste) return prestacao;
+
+        if (ajuste.dataVencimento) validarData(ajuste.dataVencimento);
+        const valor = ajuste.valor !== undefined ? centimos(ajuste.valor) : centimos(prestacao.valor);
+        if (valor < centimos(prestacao.valorPago) || valor <= 0) {
+          throw new Error(`A prestação ${prestacao.numero} não pode ficar abaixo do valor já pago`);
+        }
+
+        return { ...prestacao, valor: euros(valor), dataVencimento: ajuste.dataVencimento ?? prestacao.dataVencimento };
+      });
+
+      for (const ajuste of dados.prestacoes) {
+        if (!abertas.some(p => p.id === ajuste.prestacaoId)) {
+          throw new Error(`A prestação ${ajuste.prestacaoId} não está em aberto neste plano`);
+        }
+      }
+
+      const depois = novas.reduce((s, p) => s + centimos(p.valor), 0);
+      if (depois !== antes) {
+        throw new Error(`O total das prestações em aberto tem de se manter em ${euros(antes)} € (ficaria ${euros(depois)} €)`);
+      }
+
+      for (const prestacao of novas) {
+        await tx
+          .update(prestacoesPlano)
+          .set({
+            valor: prestacao.valor,
+            dataVencimento: prestacao.dataVencimento,
+            estado: estadoPrestacao(prestacao, hoje),
+            updatedAt: new Date(),
+          })
+          .where(eq(prestacoesPlano.id, prestacao.id));
+      }
+    }
+
+    const [atualizado] = await tx
+      .update(planosPagamento)
+      .set({
+        descricao: dados.descricao ?? plano.descricao,
+        observacoes: dados.observacoes ?? plano.observacoes,
+        updatedAt: new Date(),
+      })
+      .where(eq(planosPagamento.id, plano.id))
+      .returning();
+
+    return atualizado;
+  });
+}
+
+/**
+ * Cancelar o plano: as prestações em aberto são fechadas. O que já foi pago continua na conta
+ * corrente do utente (imputado à fatura ou como crédito)
+ */
+export async function cancelarPlano(dados: { clinicaId: number; planoId: number; motivo?: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => {
+    const plano = await bloquearPlano(tx, dados.planoId, dados.clinicaId);
+    if (plano.estado !== "ativo") throw new Error("O plano de pagamento não está ativo");
+
+    const porPagar = await fecharPrestacoes(tx, await prestacoesEmAberto(tx, plano.id));
+
+    const [cancelado] = await tx
+      .update(planosPagamento)
+      .set({
+        estado: "cancelado",
+        observacoes: dados.motivo
+          ? [plano.observacoes, `Cancelado: ${dados.motivo}`].filter(Boolean).join("\n")
+          : plano.observacoes,
+        updatedAt: new Date(),
+      })
+      .where(eq(planosPagamento.id, plano.id))
+      .returning();
+
+    return { ...cancelado, valorNaoPago: euros(porPagar) };
+  });
+}
+
+/**
+ * Marcar como vencidas as prestações não pagas cujo vencimento já passou (no fuso de cada clínica)
+ * Executado diariamente pelo scheduler
+ */
+export async function atualizarPrestacoesVencidas(clinicaId?: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  // Nenhum fuso suportado está à frente de UTC+1: amanhã em UTC apanha todas as candidatas
+  const amanha = adicionarDiasChave(new Date().toISOString().slice(0, 10), 1);
+
+  const candidatas = await db
+    .select({ id: prestacoesPlano.id, dataVencimento: prestacoesPlano.dataVencimento, fuso: clinicas.fusoHorario })
+    .from(prestacoesPlano)
+    .innerJoin(planosPagamento, eq(prestacoesPlano.planoId, planosPagamento.id))
+    .innerJoin(clinicas, eq(planosPagamento.clinicaId, clinicas.id))
+    .where(
+      and(
+        eq(planosPagamento.estado, "ativo"),
+        inArray(prestacoesPlano.estado, ["pendente", "parcialmente_paga"]),
+        lt(prestacoesPlano.dataVencimento, amanha),
+        clinicaId ? eq(planosPagamento.clinicaId, clinicaId) : undefined
+      )
+    );
+
+  const agora = new Date();
+  const vencidas = candidatas
+    .filter(p => p.dataVencimento < chaveDia(agora, fusoValido(p.fuso) ? p.fuso : FUSO_PADRAO))
+    .map(p => p.id);
+
+  if (vencidas.length === 0) return 0;
+
+  await db
+    .update(prestacoesPlano)
+    .set({ estado: "vencida", updatedAt: new Date() })
+    .where(inArray(prestacoesPlano.id, vencidas));
+
+  return vencidas.length;
+}
+
+/**
+ * Recebimentos previstos dos planos ativos, por mês de vencimento (valores em atraso à parte)
+ */
+export async function previsaoRecebimentosPlanos(clinicaId: number, meses: number = 12) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const hoje = chaveDia(new Date(), await obterFusoClinica(clinicaId));
+  const limite = adicionarMesesChave(`${hoje.slice(0, 7)}-01`, meses);
+
+  const prestacoes = await db
+    .select({ prestacao: prestacoesPlano, planoId: planosPagamento.id })
+    .from(prestacoesPlano)
+    .innerJoin(planosPagamento, eq(prestacoesPlano.planoId, planosPagamento.id))
+    .where(
+      and(
+        eq(planosPagamento.clinicaId, clinicaId),
+        eq(planosPagamento.estado, "ativo"),
+        notInArray(prestacoesPlano.estado, ["paga", "anulada"])
+      )
+    );
+
+  const porMes = new Map<string, { valor: number; prestacoes: number }>();
+  let emAtraso = 0;
+  let prestacoesEmAtraso = 0;
+  let posteriores = 0;
+
+  for (const { prestacao } of prestacoes) {
+    const valor = emFalta(prestacao);
+    if (prestacao.dataVencimento < hoje) {
+      emAtraso += valor;
+      prestacoesEmAtraso++;
+    } else if (prestacao.dataVencimento >= limite) {
+      posteriores += valor;
+    } else {
+      const mes = prestacao.dataVencimento.slice(0, 7);
+      const atual = porMes.get(mes) ?? { valor: 0, prestacoes: 0 };
+      porMes.set(mes, { valor: atual.valor + valor, prestacoes: atual.prestacoes + 1 });
+    }
+  }
+
+  const previsto = Array.from(porMes.values()).reduce((s, m) => s + m.valor, 0);
+
+  return {
+    planosAtivos: new Set(prestacoes.map(p => p.planoId)).size,
+    emAtraso: emAtraso / 100,
+    prestacoesEmAtraso,
+    porMes: Array.from(porMes.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([mes, m]) => ({ mes, valor: m.valor / 100, prestacoes: m.prestacoes })),
+    posteriores: posteriores / 100,
+    totalPorReceber: (emAtraso + previsto + posteriores) / 100,
+  };
+}
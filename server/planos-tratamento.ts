@@ -0,0 +1,861 @@
+import { createHash } from "crypto";
+import { nanoid } from "nanoid";
+import { getDb, type Executor } from "./db";
+import { clinicas, consultas, dentistas, procedimentos, utentes } from "../drizzle/schema";
+import {
+  fasesPlanoTratamento,
+  itensPlanoTratamento,
+  planosTratamento,
+  type ItemPlanoTratamento,
+  type PlanoTratamento,
+} from "../drizzle/schema-planos-tratamento";
+import { adicionarDiasChave, chaveDia, obterFusoClinica } from "./fuso-horario";
+import { bloquearAgenda, validarAgendamentoCompleto } from "./validacoes-agenda";
+import { atribuirRecursosConsulta } from "./recursos-agenda";
+import { lancarFatura, type DadosFatura } from "./faturas";
+import { enviarSMS } from "./integrations/twilio/sms";
+import { emailMarketingService } from "./email-marketing-service";
+import { and, asc, desc, eq, gte, inArray, like, lt, lte, sql } from "drizzle-orm";
+import type { EstadoConsulta } from "./estados-consulta";
+
+/**
+ * Planos de Tratamento (orçamentos ao utente)
+ * - O dentista prepara o plano por fases, com os procedimentos por dente e, se quiser,
+ *   alternativas a um item (ex: coroa cerâmica ou metalo-cerâmica)
+ * - O plano é enviado ao utente por um link secreto; o utente aceita todo o plano ou só
+ *   alguns itens (no máximo um de cada grupo de alternativas), assinando com o nome e, se
+ *   quiser, uma assinatura desenhada. A aceitação fica com o IP e um hash do que foi aceite
+ * - Itens aceites → agendados numa consulta → realizados quando a consulta é concluída →
+ *   faturados (linhas da fatura)
+ * - Taxa de aceitação: planos aceites (total ou parcialmente) sobre os planos enviados
+ */
+
+type EstadoPlano = PlanoTratamento["estado"];
+
+type DadosItemPlano = {
+  procedimentoId?: number | null;
+  dente?: string | null;
+  faces?: string | null;
+  descricao?: string;
+  quantidade: number;
+  precoUnitario?: string; // Por omissão, o preço base do procedimento
+};
+
+export type DadosPlano = {
+  clinicaId: number;
+  planoId?: number;
+  utenteId: number;
+  dentistaId: number;
+  titulo: string;
+  observacoes?: string | null;
+  validoAte: string;
+  fases: {
+    nome: string;
+    descricao?: string | null;
+    itens: (DadosItemPlano & { alternativas?: DadosItemPlano[] })[];
+  }[];
+  userId: number;
+};
+
+// Planos aceites pelo utente, total ou parcialmente
+const ESTADOS_ACEITE: EstadoPlano[] = ["aceite", "aceite_parcial", "concluido"];
+const ESTADOS_ITEM_ACEITE: ItemPlanoTratamento["estado"][] = ["aceite", "agendado", "realizado", "faturado"];
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+/**
+ * URL público do plano para o utente
+ */
+export function urlPlano(token: string): string {
+  const base = (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+  return `${base}/plano-tratamento/${token}`;
+}
+
+/**
+ * Descrição do item com o dente e as faces (linha da fatura)
+ */
+function descricaoItem(item: Pick<ItemPlanoTratamento, "descricao" | "dente" | "faces">): string {
+  if (!item.dente) return item.descricao;
+  return `${item.descricao} (dente ${item.dente}${item.faces ? `, ${item.faces}` : ""})`;
+}
+
+/**
+ * Estado de um plano respondido: aceite se todos os grupos (item principal e alternativas)
+ * tiverem um item aceite, concluído se todos os aceites já estiverem realizados
+ */
+function estadoPlanoAceite(itens: Pick<ItemPlanoTratamento, "id" | "alternativaDe" | "estado">[]): EstadoPlano {
+  const aceites = itens.filter(i => ESTADOS_ITEM_ACEITE.includes(i.estado));
+  if (aceites.length > 0 && aceites.every(i => i.estado === "realizado" || i.estado === "faturado")) return "concluido";
+
+  const grupos = itens.filter(i => !i.alternativaDe);
+  const todos = grupos.every(g => aceites.some(i => i.id === g.id || i.alternativaDe === g.id));
+  return todos ? "aceite" : "aceite_parcial";
+}
+
+// ============================================
+// PREPARAÇÃO
+// ============================================
+
+/**
+ * Criar ou alterar um plano (só enquanto estiver em rascunho)
+ * Numeração sequencial por clínica e ano (ex: 2026/0042)
+ */
+export async function guardarPlano(dados: DadosPlano) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (dados.fases.length === 0 || dados.fases.every(f => f.itens.length === 0)) {
+    throw new Error("O plano tem de ter pelo menos um tratamento");
+  }
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  if (dados.validoAte < chaveDia(new Date(), fuso)) throw new Error("A validade do plano já terminou");
+
+  return await db.transaction(async tx => {
+    const [utente] = await tx
+      .select({ id: utentes.id })
+      .from(utentes)
+      .where(and(eq(utentes.id, dados.utenteId), eq(utentes.clinicaId, dados.clinicaId)))
+      .limit(1);
+    if (!utente) throw new Error("Utente não encontrado");
+
+    // Preço e descrição por omissão dos procedimentos
+    const procedimentosIds = dados.fases
+      .flatMap(f => f.itens.flatMap(i => [i, ...(i.alternativas ?? [])]))
+      .map(i => i.procedimentoId)
+      .filter((id): id is number => !!id);
+    const procedimentosData = procedimentosIds.length > 0
+      ? await tx
+          .select({ id: procedimentos.id, nome: procedimentos.nome, precoBase: procedimentos.precoBase })
+          .from(procedimentos)
+          .where(and(inArray(procedimentos.id, procedimentosIds), eq(procedimentos.clinicaId, dados.clinicaId)))
+      : [];
+
+    const valoresItem = (item: DadosItemPlano) => {
+      const procedimento = procedimentosData.find(p => p.id === item.procedimentoId);
+      if (item.procedimentoId && !procedimento) throw new Error("Procedimento não encontrado");
+
+      const descricao = item.descricao || procedimento?.nome;
+      if (!descricao) throw new Error("Indique a descrição do tratamento");
+
+      const precoUnitario = euros(centimos(item.precoUnitario ?? procedimento?.precoBase));
+      return {
+        procedimentoId: item.procedimentoId ?? null,
+        dente: item.dente || null,
+        faces: item.faces || null,
+        descricao,
+        quantidade: item.quantidade,
+        precoUnitario,
+        precoTotal: euros(centimos(precoUnitario) * item.quantidade),
+      };
+    };
+
+    let plano: PlanoTratamento;
+    if (dados.planoId) {
+      const [atual] = await tx
+        .select()
+        .from(planosTratamento)
+        .where(and(eq(planosTratamento.id, dados.planoId), eq(planosTratamento.clinicaId, dados.clinicaId)))
+        .for("update");
+      if (!atual) throw new Error("Plano de tratamento não encontrado");
+      if (atual.estado !== "rascunho") throw new Error("Só é possível alterar um plano ainda não enviado ao utente");
+
+      await tx.delete(itensPlanoTratamento).where(eq(itensPlanoTratamento.planoId, atual.id));
+      await tx.delete(fasesPlanoTratamento).where(eq(fasesPlanoTratamento.planoId, atual.id));
+      plano = atual;
+    } else {
+      // Um plano de cada vez por clínica (numeração)
+      await tx.select({ id: clinicas.id }).from(clinicas).where(eq(clinicas.id, dados.clinicaId)).for("update");
+
+      const ano = chaveDia(new Date(), fuso).slice(0, 4);
+      const [{ total }] = await tx
+        .select({ total: sql<number>`count(*)::int` })
+        .from(planosTratamento)
+        .where(and(eq(planosTratamento.clinicaId, dados.clinicaId), like(planosTratamento.numero, `${ano}/%`)));
+
+      [plano] = await tx
+        .insert(planosTratamento)
+        .values({
+          clinicaId: dados.clinicaId,
+          utenteId: dados.utenteId,
+          dentistaId: dados.dentistaId,
+          numero: `${ano}/${String(total + 1).padStart(4, "0")}`,
+          titulo: dados.titulo,
+          validoAte: dados.validoAte,
+          criadoPor: dados.userId,
+        })
+        .returning();
+    }
+
+    let valorProposto = 0;
+    for (const [ordem, fase] of dados.fases.entries()) {
+      const [novaFase] = await tx
+        .insert(fasesPlanoTratamento)
+        .values({ planoId: plano.id, ordem: ordem + 1, nome: fase.nome, descricao: fase.descricao })
+        .returning();
+
+      for (const item of fase.itens) {
+        const valores = valoresItem(item);
+        valorProposto += centimos(valores.precoTotal);
+
+        const [principal] = await tx
+          .insert(itensPlanoTratamento)
+          .values({ ...valores, planoId: plano.id, faseId: novaFase.id })
+          .returning();
+
+        for (const alternativa of item.alternativas ?? []) {
+          await tx
+            .insert(itensPlanoTratamento)
+            .values({ ...valoresItem(alternativa), planoId: plano.id, faseId: novaFase.id, alternativaDe: principal.id });
+        }
+      }
+    }
+
+    const [atualizado] = await tx
+      .update(planosTratamento)
+      .set({
+        utenteId: dados.utenteId,
+        dentistaId: dados.dentistaId,
+        titulo: dados.titulo,
+        observacoes: dados.observacoes,
+        validoAte: dados.validoAte,
+        valorProposto: euros(valorProposto),
+        updatedAt: new Date(),
+      })
+      .where(eq(planosTratamento.id, plano.id))
+      .returning();
+
+    return atualizado;
+  });
+}
+
+/**
+ * Planos da clínica (de um utente ou num estado)
+ */
+export async function listarPlanos(filtros: { clinicaId: number; utenteId?: number; dentistaId?: number; estado?: EstadoPlano }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      plano: planosTratamento,
+      utenteNome: utentes.nome,
+      dentistaNome: dentistas.nome,
+    })
+    .from(planosTratamento)
+    .innerJoin(utentes, eq(planosTratamento.utenteId, utentes.id))
+    .innerJoin(dentistas, eq(planosTratamento.dentistaId, dentistas.id))
+    .where(
+      and(
+        eq(planosTratamento.clinicaId, filtros.clinicaId),
+        filtros.utenteId ? eq(planosTratamento.utenteId, filtros.utenteId) : undefined,
+        filtros.dentistaId ? eq(planosTratamento.dentistaId, filtros.dentistaId) : undefined,
+        filtros.estado ? eq(planosTratamento.estado, filtros.estado) : undefined
+      )
+    )
+    .orderBy(desc(planosTratamento.createdAt));
+}
+
+async function fasesComItens(executor: Executor, planoId: number) {
+  const fases: (typeof fasesPlanoTratamento.$inferSelect)[] = await executor
+    .select()
+    .from(fasesPlanoTratamento)
+    .where(eq(fasesPlanoTratamento.planoId, planoId))
+    .orderBy(asc(fasesPlanoTratamento.ordem));
+
+  const itens: ItemPlanoTratamento[] = await executor
+    .select()
+    .from(itensPlanoTratamento)
+    .where(eq(itensPlanoTratamento.planoId, planoId))
+    .orderBy(asc(itensPlanoTratamento.id));
+
+  return fases.map(fase => ({ ...fase, itens: itens.filter(i => i.faseId === fase.id) }));
+}
+
+/**
+ * Plano com as fases e os itens
+ */
+export async function obterPlano(planoId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [resultado] = await db
+    .select({
+      plano: planosTratamento,
+      utenteNome: utentes.nome,
+      dentistaNome: dentistas.nome,
+    })
+    .from(planosTratamento)
+    .innerJoin(utentes, eq(planosTratamento.utenteId, utentes.id))
+    .innerJoin(dentistas, eq(planosTratamento.dentistaId, dentistas.id))
+    .where(and(eq(planosTratamento.id, planoId), eq(planosTratamento.clinicaId, clinicaId)))
+    .limit(1);
+  if (!resultado) throw new Error("Plano de tratamento não encontrado");
+
+  return {
+    ...resultado,
+    url: resultado.plano.token ? urlPlano(resultado.plano.token) : null,
+    fases: await fasesComItens(db, planoId),
+  };
+}
+
+/**
+ * Enviar o link do plano ao utente (ou só gerá-lo, para enviar por outro meio)
+ */
+export async function enviarPlano(dados: { clinicaId: number; planoId: number; canal: "email" | "sms" | "nenhum" }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+
+  const [resultado] = await db
+    .select({ plano: planosTratamento, utente: utentes, clinicaNome: clinicas.nome })
+    .from(planosTratamento)
+    .innerJoin(utentes, eq(planosTratamento.utenteId, utentes.id))
+    .innerJoin(clinicas, eq(planosTratamento.clinicaId, clinicas.id))
+    .where(and(eq(planosTratamento.id, dados.planoId), eq(planosTratamento.clinicaId, dados.clinicaId)))
+    .limit(1);
+  if (!resultado) throw new Error("Plano de tratamento não encontrado");
+
+  const { plano, utente, clinicaNome } = resultado;
+  if (plano.estado !== "rascunho" && plano.estado !== "enviado") throw new Error("O utente já respondeu a este plano");
+  if (plano.validoAte < chaveDia(new Date(), fuso)) throw new Error("A validade do plano já terminou");
+  if (dados.canal === "email" && !utente.email) throw new Error("O utente não tem email");
+
+  const token = plano.token ?? nanoid(32);
+  await db
+    .update(planosTratamento)
+    .set({ token, estado: "enviado", enviadoEm: plano.enviadoEm ?? new Date(), updatedAt: new Date() })
+    .where(eq(planosTratamento.id, plano.id));
+
+  const url = urlPlano(token);
+  const [ano, mes, dia] = plano.validoAte.split("-");
+  const mensagem = `${clinicaNome}: o seu plano de tratamento (${plano.titulo}) está disponível em ${url} ` +
+    `e pode ser aceite até ${dia}/${mes}/${ano}.`;
+
+  if (dados.canal === "email") {
+    await emailMarketingService.enviarEmailTransacional({
+      to: utente.email!,
+      subject: `${clinicaNome} - Plano de tratamento ${plano.numero}`,
+      html: `<p>Olá ${utente.nome},</p><p>O seu plano de tratamento <strong>${plano.titulo}</strong> está disponível para consulta e aceitação:</p>` +
+        `<p><a href="${url}">${url}</a></p><p>Válido até ${dia}/${mes}/${ano}.</p>`,
+      text: mensagem,
+    });
+  } else if (dados.canal === "sms") {
+    const resultadoSMS = await enviarSMS({
+      para: utente.telemovel,
+      mensagem,
+      utenteId: utente.id,
+      clinicaId: dados.clinicaId,
+      tipo: "plano_tratamento",
+    });
+    if (!resultadoSMS.success) throw new Error("Não foi possível enviar o link por SMS");
+  }
+
+  return { url, success: true };
+}
+
+/**
+ * Anular um plano (os itens já agendados ou realizados mantêm-se)
+ */
+export async function anularPlano(planoId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [plano] = await db
+    .update(planosTratamento)
+    .set({ estado: "anulado", token: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(planosTratamento.id, planoId),
+        eq(planosTratamento.clinicaId, clinicaId),
+        inArray(planosTratamento.estado, ["rascunho", "enviado", "expirado"])
+      )
+    )
+    .returning({ id: planosTratamento.id });
+
+  if (!plano) throw new Error("Só é possível anular um plano a que o utente ainda não respondeu");
+  return { success: true };
+}
+
+// ============================================
+// RESPOSTA DO UTENTE (LINK PÚBLICO)
+// ============================================
+
+async function obterPlanoPorToken(executor: Executor, token: string, bloquear = false): Promise<PlanoTratamento> {
+  const consulta = executor.select().from(planosTratamento).where(eq(planosTratamento.token, token));
+  const [plano]: PlanoTratamento[] = bloquear ? await consulta.for("update") : await consulta.limit(1);
+  if (!plano) throw new Error("Plano de tratamento não encontrado");
+
+  if (plano.estado === "enviado" && plano.validoAte < chaveDia(new Date(), await obterFusoClinica(plano.clinicaId))) {
+    await executor
+      .update(planosTratamento)
+      .set({ estado: "expirado", updatedAt: new Date() })
+      .where(eq(planosTratamento.id, plano.id));
+    return { ...plano, estado: "expirado" };
+  }
+
+  return plano;
+}
+
+/**
+ * Plano visto pelo utente (sem dados internos)
+ */
+export async function obterPlanoPublico(token: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const plano = await obterPlanoPorToken(db, token);
+  if (plano.estado === "anulado") throw new Error("Plano de tratamento não encontrado");
+
+  const [dados] = await db
+    .select({ clinicaNome: clinicas.nome, utenteNome: utentes.nome, dentistaNome: dentistas.nome })
+    .from(planosTratamento)
+    .innerJoin(clinicas, eq(planosTratamento.clinicaId, clinicas.id))
+    .innerJoin(utentes, eq(planosTratamento.utenteId, utentes.id))
+    .innerJoin(dentistas, eq(planosTratamento.dentistaId, dentistas.id))
+    .where(eq(planosTratamento.id, plano.id))
+    .limit(1);
+
+  const fases = await fasesComItens(db, plano.id);
+
+  return {
+    ...dados,
+    numero: plano.numero,
+    titulo: plano.titulo,
+    observacoes: plano.observacoes,
+    validoAte: plano.validoAte,
+    estado: plano.estado,
+    valorProposto: plano.valorProposto,
+    valorAceite: plano.valorAceite,
+    respondidoEm: plano.respondidoEm,
+    fases: fases.map(fase => ({
+      nome: fase.nome,
+      descricao: fase.descricao,
+      itens: fase.itens.map(item => ({
+        id: item.id,
+        alternativaDe: item.alternativaDe,
+        dente: item.dente,
+        faces: item.faces,
+        descricao: item.descricao,
+        quantidade: item.quantidade,
+        precoUnitario: item.precoUnitario,
+        precoTotal: item.precoTotal,
+        aceite: ESTADOS_ITEM_ACEITE.includes(item.estado),
+      })),
+    })),
+  };
+}
+
+/**
+ * Aceitar o plano, todo ou em parte, com a assinatura do utente
+ */
+export async function aceitarPlano(dados: {
+  token: string;
+  itensIds: number[];
+  assinaturaNome: string;
+  assinaturaImagem?: string;
+  ip: string;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (dados.itensIds.length === 0) throw new Error("Selecione os tratamentos que aceita ou recuse o plano");
+
+  return await db.transaction(async tx => {
+    const plano = await obterPlanoPorToken(tx, dados.token, true);
+    if (plano.estado === "expirado") throw new Error("A validade deste plano terminou. Contacte a clínica.");
+    if (plano.estado !== "enviado") throw new Error("Este plano já não pode ser aceite");
+
+    const itens: ItemPlanoTratamento[] = await tx
+      .select()
+      .from(itensPlanoTratamento)
+      .where(eq(itensPlanoTratamento.planoId, plano.id))
+      .orderBy(asc(itensPlanoTratamento.id));
+
+    const aceites = itens.filter(i => dados.itensIds.includes(i.id));
+    if (aceites.length !== new Set(dados.itensIds).size) throw new Error("Tratamento não encontrado no plano");
+
+    // Um item por grupo de alternativas
+    const grupos = aceites.map(i => i.alternativaDe ?? i.id);
+    if (new Set(grupos).size !== grupos.length) throw new Error("Escolha apenas uma das alternativas de cada tratamento");
+
+    const respondidoEm = new Date();
+    const valorAceite = aceites.reduce((s, i) => s + centimos(i.precoTotal), 0);
+    const hashAceitacao = createHash("sha256")
+      .update(JSON.stringify({
+        plano: plano.numero,
+        itens: aceites.map(i => [i.id, i.descricao, i.dente, i.quantidade, i.precoTotal]),
+        valorAceite: euros(valorAceite),
+        assinaturaNome: dados.assinaturaNome,
+        assinaturaImagem: dados.assinaturaImagem ?? null,
+        respondidoEm: respondidoEm.toISOString(),
+      }))
+      .digest("hex");
+
+    await tx
+      .update(itensPlanoTratamento)
+      .set({ estado: "aceite", updatedAt: respondidoEm })
+      .where(inArray(itensPlanoTratamento.id, aceites.map(i => i.id)));
+
+    const recusados = itens.filter(i => !dados.itensIds.includes(i.id)).map(i => i.id);
+    if (recusados.length > 0) {
+      await tx
+        .update(itensPlanoTratamento)
+        .set({ estado: "recusado", updatedAt: respondidoEm })
+        .where(inArray(itensPlanoTratamento.id, recusados));
+    }
+
+    const estado = estadoPlanoAceite(itens.map(i => ({ ...i, estado: dados.itensIds.includes(i.id) ? "aceite" : "recusado" })));
+
+    await tx
+      .update(planosTratamento)
+      .set({
+        estado,
+        valorAceite: euros(valorAceite),
+        respondidoEm,
+        assinaturaNome: dados.assinaturaNome,
+        assinaturaImagem: dados.assinaturaImagem,
+        ipResposta: dados.ip,
+        hashAceitacao,
+        updatedAt: respondidoEm,
+      })
+      .where(eq(planosTratamento.id, plano.id));
+
+    return { estado, valorAceite: euros(valorAceite), success: true };
+  });
+}
+
+/**
+ * Recusar o plano
+ */
+export async function recusarPlano(dados: { token: string; motivo?: string; ip: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => {
+    const plano = await obterPlanoPorToken(tx, dados.token, true);
+    if (plano.estado !== "enviado") throw new Error("Este plano já não pode ser recusado");
+
+    const agora = new Date();
+    await tx
+      .update(itensPlanoTratamento)
+      .set({ estado: "recusado", updatedAt: agora })
+      .where(eq(itensPlanoTratamento.planoId, plano.id));
+
+    await tx
+      .update(planosTratamento)
+      .set({ estado: "recusado", respondidoEm: agora, ipResposta: dados.ip, motivoRecusa: dados.motivo, updatedAt: agora })
+      .where(eq(planosTratamento.id, plano.id));
+
+    return { success: true };
+  });
+}
+
+// ============================================
+// EXECUÇÃO: CONSULTAS E FATURAÇÃO
+// ============================================
+
+/**
+ * Agendar itens aceites numa consulta
+ */
+export async function agendarItens(dados: {
+  clinicaId: number;
+  planoId: number;
+  itensIds: number[];
+  dentistaId?: number;
+  horaInicio: Date;
+  horaFim: Date;
+  ignorarConflitos?: boolean;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const plano = (await obterPlano(dados.planoId, dados.clinicaId)).plano;
+  if (!ESTADOS_ACEITE.includes(plano.estado)) throw new Error("O plano ainda não foi aceite pelo utente");
+
+  const itens = await db
+    .select()
+    .from(itensPlanoTratamento)
+    .where(and(eq(itensPlanoTratamento.planoId, plano.id), inArray(itensPlanoTratamento.id, dados.itensIds)));
+  if (itens.length !== new Set(dados.itensIds).size) throw new Error("Tratamento não encontrado no plano");
+  if (itens.some(i => i.estado !== "aceite")) throw new Error("Só é possível agendar tratamentos aceites e ainda não agendados");
+
+  const dentistaId = dados.dentistaId ?? plano.dentistaId;
+  const procedimentoId = itens.find(i => i.procedimentoId)?.procedimentoId ?? null;
+
+  return await db.transaction(async tx => {
+    await bloquearAgenda(tx, [{ dentistaId, horaInicio: dados.horaInicio, horaFim: dados.horaFim }]);
+
+    const validacao = await validarAgendamentoCompleto({
+      clinicaId: dados.clinicaId,
+      dentistaId,
+      utenteId: plano.utenteId,
+      horaInicio: dados.horaInicio,
+      horaFim: dados.horaFim,
+      procedimentoId,
+      config: dados.ignorarConflitos ? { verificarConflitoDentista: false, verificarConflitoUtente: false } : undefined,
+    }, tx);
+    if (!validacao.valido) throw new Error(validacao.erro || "Horário indisponível");
+
+    const [consulta] = await tx
+      .insert(consultas)
+      .values({
+        clinicaId: dados.clinicaId,
+        utenteId: plano.utenteId,
+        dentistaId,
+        procedimentoId,
+        horaInicio: dados.horaInicio,
+        horaFim: dados.horaFim,
+        estado: "agendada",
+        titulo: `Plano ${plano.numero}: ${itens.map(descricaoItem).join(", ")}`.slice(0, 255),
+      })
+      .returning();
+
+    await atribuirRecursosConsulta(tx, consulta.id, validacao.recursoIds ?? []);
+
+    // Só os itens ainda por agendar (dois pedidos em simultâneo)
+    const agendados = await tx
+      .update(itensPlanoTratamento)
+      .set({ estado: "agendado", consultaId: consulta.id, updatedAt: new Date() })
+      .where(and(inArray(itensPlanoTratamento.id, dados.itensIds), eq(itensPlanoTratamento.estado, "aceite")))
+      .returning({ id: itensPlanoTratamento.id });
+    if (agendados.length !== itens.length) throw new Error("Os tratamentos foram agendados entretanto");
+
+    return { consultaId: consulta.id, success: true };
+  });
+}
+
+/**
+ * Acompanhar a consulta nos itens do plano (chamado em cada mudança de estado da consulta)
+ * - concluída: itens agendados passam a realizados
+ * - reaberta: itens realizados (ainda não faturados) voltam a agendados
+ * - cancelada ou falta: itens voltam a aceites, para agendar de novo
+ */
+export async function atualizarItensConsulta(executor: Executor, consultaId: number, estado: EstadoConsulta) {
+  const agora = new Date();
+  let atualizados: { planoId: number }[] = [];
+
+  if (estado === "concluida") {
+    atualizados = await executor
+      .update(itensPlanoTratamento)
+      .set({ estado: "realizado", realizadoEm: agora, updatedAt: agora })
+      .where(and(eq(itensPlanoTratamento.consultaId, consultaId), eq(itensPlanoTratamento.estado, "agendado")))
+      .returning({ planoId: itensPlanoTratamento.planoId });
+  } else if (estado === "em_curso") {
+    atualizados = await executor
+      .update(itensPlanoTratamento)
+      .set({ estado: "agendado", realizadoEm: null, updatedAt: agora })
+      .where(and(eq(itensPlanoTratamento.consultaId, consultaId), eq(itensPlanoTratamento.estado, "realizado")))
+      .returning({ planoId: itensPlanoTratamento.planoId });
+  } else if (estado === "cancelada" || estado === "faltou") {
+    atualizados = await executor
+      .update(itensPlanoTratamento)
+      .set({ estado: "aceite", consultaId: null, updatedAt: agora })
+      .where(and(eq(itensPlanoTratamento.consultaId, consultaId), eq(itensPlanoTratamento.estado, "agendado")))
+      .returning({ planoId: itensPlanoTratamento.planoId });
+  }
+
+  for (const planoId of new Set(atualizados.map(i => i.planoId))) {
+    await atualizarEstadoPlano(executor, planoId);
+  }
+}
+
+async function atualizarEstadoPlano(executor: Executor, planoId: number) {
+  const itens = await executor
+    .select({ id: itensPlanoTratamento.id, alternativaDe: itensPlanoTratamento.alternativaDe, estado: itensPlanoTratamento.estado })
+    .from(itensPlanoTratamento)
+    .where(eq(itensPlanoTratamento.planoId, planoId));
+
+  await executor
+    .update(planosTratamento)
+    .set({ estado: estadoPlanoAceite(itens), updatedAt: new Date() })
+    .where(and(eq(planosTratamento.id, planoId), inArray(planosTratamento.estado, ESTADOS_ACEITE)));
+}
+
+/**
+ * Itens realizados ainda por faturar
+ */
+export async function itensPorFaturar(filtros: { clinicaId: number; planoId?: number; utenteId?: number; consultaId?: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      item: itensPlanoTratamento,
+      numeroPlano: planosTratamento.numero,
+      utenteId: planosTratamento.utenteId,
+    })
+    .from(itensPlanoTratamento)
+    .innerJoin(planosTratamento, eq(itensPlanoTratamento.planoId, planosTratamento.id))
+    .where(
+      and(
+        eq(planosTratamento.clinicaId, filtros.clinicaId),
+        eq(itensPlanoTratamento.estado, "realizado"),
+        filtros.planoId ? eq(itensPlanoTratamento.planoId, filtros.planoId) : undefined,
+        filtros.utenteId ? eq(planosTratamento.utenteId, filtros.utenteId) : undefined,
+        filtros.consultaId ? eq(itensPlanoTratamento.consultaId, filtros.consultaId) : undefined
+      )
+    )
+    .orderBy(asc(itensPlanoTratamento.realizadoEm));
+}
+
+/**
+ * Faturar itens realizados de um plano: cada item é uma linha da fatura, ao preço do plano
+ * aceite e com o dentista da consulta em que foi realizado
+ */
+export async function faturarItens(
+  dados: Omit<DadosFatura, "utenteId" | "consultaId" | "itens"> & { planoId: number; itensIds: number[] }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { planoId, itensIds, ...dadosFatura } = dados;
+
+  return await db.transaction(async tx => {
+    const [plano] = await tx
+      .select()
+      .from(planosTratamento)
+      .where(and(eq(planosTratamento.id, planoId), eq(planosTratamento.clinicaId, dados.clinicaId)))
+      .limit(1);
+    if (!plano) throw new Error("Plano de tratamento não encontrado");
+
+    const itens = await tx
+      .select({ item: itensPlanoTratamento, dentistaId: consultas.dentistaId })
+      .from(itensPlanoTratamento)
+      .leftJoin(consultas, eq(itensPlanoTratamento.consultaId, consultas.id))
+      .where(and(eq(itensPlanoTratamento.planoId, plano.id), inArray(itensPlanoTratamento.id, itensIds)))
+      .for("update", { of: itensPlanoTratamento });
+    if (itens.length !== new Set(itensIds).size) throw new Error("Tratamento não encontrado no plano");
+    if (itens.some(({ item }) => item.estado !== "realizado")) throw new Error("Só é possível faturar tratamentos realizados e ainda não faturados");
+
+    const consultasIds = new Set(itens.map(({ item }) => item.consultaId));
+
+    const fatura = await lancarFatura(tx, {
+      ...dadosFatura,
+      utenteId: plano.utenteId,
+      consultaId: consultasIds.size === 1 ? itens[0].item.consultaId ?? undefined : undefined,
+      observacoes: dadosFatura.observacoes ?? `Plano de tratamento ${plano.numero}`,
+      itens: itens.map(({ item, dentistaId }) => ({
+        procedimentoId: item.procedimentoId ?? undefined,
+        dentistaId: dentistaId ?? plano.dentistaId,
+        descricao: descricaoItem(item),
+        quantidade: item.quantidade,
+        precoUnitario: item.precoUnitario,
+      })),
+    });
+
+    await tx
+      .update(itensPlanoTratamento)
+      .set({ estado: "faturado", faturaId: fatura.id, updatedAt: new Date() })
+      .where(inArray(itensPlanoTratamento.id, itensIds));
+
+    return fatura;
+  });
+}
+
+// ============================================
+// EXPIRAÇÃO E INDICADORES
+// ============================================
+
+/**
+ * Marcar como expirados os planos enviados sem resposta depois da validade
+ */
+export async function expirarPlanos(): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  // Nenhum fuso suportado está à frente de UTC+1
+  const amanha = adicionarDiasChave(new Date().toISOString().slice(0, 10), 1);
+
+  const candidatos = await db
+    .select({ id: planosTratamento.id, clinicaId: planosTratamento.clinicaId, validoAte: planosTratamento.validoAte })
+    .from(planosTratamento)
+    .where(and(eq(planosTratamento.estado, "enviado"), lt(planosTratamento.validoAte, amanha)));
+
+  const agora = new Date();
+  const expirados: number[] = [];
+  for (const plano of candidatos) {
+    if (plano.validoAte < chaveDia(agora, await obterFusoClinica(plano.clinicaId))) expirados.push(plano.id);
+  }
+
+  if (expirados.length === 0) return 0;
+
+  await db
+    .update(planosTratamento)
+    .set({ estado: "expirado", updatedAt: agora })
+    .where(and(inArray(planosTratamento.id, expirados), eq(planosTratamento.estado, "enviado")));
+
+  return expirados.length;
+}
+
+/**
+ * Taxa de aceitação dos planos enviados no período (por número de planos e por valor), total
+ * e por dentista
+ */
+export async function indicadoresAceitacao(clinicaId: number, dataInicio: Date, dataFim: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const planos = await db
+    .select({
+      dentistaId: planosTratamento.dentistaId,
+      dentistaNome: dentistas.nome,
+      estado: planosTratamento.estado,
+      valorProposto: planosTratamento.valorProposto,
+      valorAceite: planosTratamento.valorAceite,
+      enviadoEm: planosTratamento.enviadoEm,
+      respondidoEm: planosTratamento.respondidoEm,
+    })
+    .from(planosTratamento)
+    .innerJoin(dentistas, eq(planosTratamento.dentistaId, dentistas.id))
+    .where(
+      and(
+        eq(planosTratamento.clinicaId, clinicaId),
+        gte(planosTratamento.enviadoEm, dataInicio),
+        lte(planosTratamento.enviadoEm, dataFim),
+        sql`${planosTratamento.estado} <> 'anulado'`
+      )
+    );
+
+  const resumir = (lista: typeof planos) => {
+    const aceites = lista.filter(p => ESTADOS_ACEITE.includes(p.estado));
+    const valorProposto = lista.reduce((s, p) => s + centimos(p.valorProposto), 0);
+    const valorAceite = aceites.reduce((s, p) => s + centimos(p.valorAceite), 0);
+    const diasResposta = aceites
+      .filter(p => p.enviadoEm && p.respondidoEm)
+      .map(p => (p.respondidoEm!.getTime() - p.enviadoEm!.getTime()) / (24 * 60 * 60 * 1000));
+
+    return {
+      enviados: lista.length,
+      aceites: aceites.filter(p => p.estado !== "aceite_parcial").length,
+      aceitesParcialmente: aceites.filter(p => p.estado === "aceite_parcial").length,
+      recusados: lista.filter(p => p.estado === "recusado").length,
+      expirados: lista.filter(p => p.estado === "expirado").length,
+      semResposta: lista.filter(p => p.estado === "enviado").length,
+      taxaAceitacao: lista.length > 0 ? Math.round((aceites.length / lista.length) * 1000) / 10 : 0,
+      valorProposto: euros(valorProposto),
+      valorAceite: euros(valorAceite),
+      taxaAceitacaoValor: valorProposto > 0 ? Math.round((valorAceite / valorProposto) * 1000) / 10 : 0,
+      diasMedioResposta: diasResposta.length > 0
+        ? Math.round((diasResposta.reduce((s, d) => s + d, 0) / diasResposta.length) * 10) / 10
+        : null,
+    };
+  };
+
+  const dentistasIds = Array.from(new Set(planos.map(p => p.dentistaId)));
+
+  return {
+    ...resumir(planos),
+    porDentista: dentistasIds.map(dentistaId => {
+      const lista = planos.filter(p => p.dentistaId === dentistaId);
+      return { dentistaId, dentistaNome: lista[0].dentistaNome, ...resumir(lista) };
+    }),
+  };
+}
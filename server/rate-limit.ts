@@ -0,0 +1,46 @@
+/**
+ * Limitação de pedidos em memória (janela fixa)
+ * Usado nos endpoints públicos, por IP e por número de telemóvel
+ */
+
+interface Janela {
+  inicio: number;
+  pedidos: number;
+}
+
+const janelas = new Map<string, Janela>();
+
+// Limpar janelas antigas a cada 5 minutos
+setInterval(() => {
+  const agora = Date.now();
+  for (const [chave, janela] of janelas.entries()) {
+    if (agora - janela.inicio > 60 * 60 * 1000) {
+      janelas.delete(chave);
+    }
+  }
+}, 5 * 60 * 1000).unref();
+
+/**
+ * Registar um pedido e indicar se ainda está dentro do limite
+ */
+export function consumirLimite(chave: string, limite: number, janelaMs: number): boolean {
+  const agora = Date.now();
+  const janela = janelas.get(chave);
+
+  if (!janela || agora - janela.inicio > janelaMs) {
+    janelas.set(chave, { inicio: agora, pedidos: 1 });
+    return true;
+  }
+
+  janela.pedidos++;
+  return janela.pedidos <= limite;
+}
+
+/**
+ * IP do cliente
+ * Usa req.ip, que o Express calcula a partir do X-Forwarded-For só até ao número de proxies
+ * configurado em "trust proxy" (o valor mais à esquerda do cabeçalho é escolhido pelo cliente)
+ */
+export function obterIpPedido(req: { ip?: string; socket?: { remoteAddress?: string } }): string {
+  return req.ip || req.socket?.remoteAddress || 'desconhecido';
+}
@@ -0,0 +1,316 @@
+import { getDb, type Executor } from "./db";
+import { consultas } from "../drizzle/schema";
+import {
+  recursos,
+  procedimentosRecursos,
+  consultasRecursos,
+  type Recurso,
+  type TipoRecurso,
+} from "../drizzle/schema-recursos";
+import { and, eq, gt, lt, ne, inArray, notInArray } from "drizzle-orm";
+
+/**
+ * Serviço de Recursos da Agenda
+ * Verificar e atribuir gabinetes, cadeiras e equipamentos necessários a cada consulta
+ */
+
+/**
+ * Recurso exigido por um procedimento: um recurso concreto ou N recursos de um tipo
+ */
+export interface RequisitoRecurso {
+  recursoId: number | null;
+  tipoRecurso: TipoRecurso | null;
+  quantidade: number;
+}
+
+/**
+ * Recurso ocupado por uma consulta
+ */
+export interface OcupacaoRecurso {
+  recursoId: number;
+  consultaId: number;
+  horaInicio: Date;
+  horaFim: Date;
+}
+
+export interface ResultadoRecursos {
+  valido: boolean;
+  erro?: string;
+  recursoIds: number[];
+}
+
+const NOMES_TIPO: Record<TipoRecurso, { singular: string; plural: string }> = {
+  gabinete: { singular: "nenhum gabinete livre", plural: "gabinetes livres" },
+  cadeira: { singular: "nenhuma cadeira livre", plural: "cadeiras livres" },
+  equipamento: { singular: "nenhum equipamento livre", plural: "equipamentos livres" },
+};
+
+/**
+ * Carregar os recursos exigidos por um procedimento
+ */
+export async function carregarRequisitos(
+  procedimentoId?: number | null,
+  executor?: Executor
+): Promise<RequisitoRecurso[]> {
+  if (!procedimentoId) return [];
+
+  const db = executor ?? await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select({
+      recursoId: procedimentosRecursos.recursoId,
+      tipoRecurso: procedimentosRecursos.tipoRecurso,
+      quantidade: procedimentosRecursos.quantidade,
+    })
+    .from(procedimentosRecursos)
+    .where(eq(procedimentosRecursos.procedimentoId, procedimentoId));
+}
+
+/**
+ * Carregar os recursos ativos de uma clínica
+ */
+export async function carregarRecursosClinica(clinicaId: number, executor?: Executor): Promise<Recurso[]> {
+  const db = executor ?? await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(recursos)
+    .where(and(eq(recursos.clinicaId, clinicaId), eq(recursos.ativo, true)))
+    .orderBy(recursos.tipo, recursos.nome);
+}
+
+/**
+ * Carregar os recursos ocupados por consultas (não canceladas) num período
+ */
+export async function carregarOcupacaoRecursos(dados: {
+  clinicaId: number;
+  dataInicio: Date;
+  dataFim: Date;
+  consultaIdExcluir?: number;
+}, executor?: Executor): Promise<OcupacaoRecurso[]> {
+  const db = executor ?? await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select({
+      recursoId: consultasRecursos.recursoId,
+      consultaId: consultas.id,
+      horaInicio: consultas.horaInicio,
+      horaFim: consultas.horaFim,
+    })
+    .from(consultasRecursos)
+    .innerJoin(consultas, eq(consultasRecursos.consultaId, consultas.id))
+    .where(
+      and(
+        eq(consultas.clinicaId, dados.clinicaId),
+        dados.consultaIdExcluir ? ne(consultas.id, dados.consultaIdExcluir) : undefined,
+        notInArray(consultas.estado, ["cancelada", "faltou"]),
+        lt(consultas.horaInicio, dados.dataFim),
+        gt(consultas.horaFim, dados.dataInicio)
+      )
+    );
+}
+
+/**
+ * Escolher os recursos para uma consulta (sem acesso à base de dados)
+ * - `obrigatorios`: recursos escolhidos explicitamente (ex: gabinete indicado pela receção), têm de estar livres
+ * - `preferidos`: usados primeiro se estiverem livres (ex: recursos que a consulta já tinha antes de ser movida)
+ * Os requisitos por tipo são preenchidos com os recursos livres desse tipo
+ */
+export function escolherRecursos(dados: {
+  requisitos: RequisitoRecurso[];
+  recursos: Recurso[];
+  ocupacoes: OcupacaoRecurso[];
+  horaInicio: Date;
+  horaFim: Date;
+  obrigatorios?: number[];
+  preferidos?: number[];
+}): ResultadoRecursos {
+  const porId = new Map(dados.recursos.map(r => [r.id, r]));
+  const ocupados = new Set(
+    dados.ocupacoes
+      .filter(o => o.horaInicio < dados.horaFim && o.horaFim > dados.horaInicio)
+      .map(o => o.recursoId)
+  );
+  const livre = (id: number) => porId.has(id) && !ocupados.has(id);
+  const escolhidos = new Set<number>();
+
+  for (const id of dados.obrigatorios ?? []) {
+    const recurso = porId.get(id);
+    if (!recurso) {
+      return { valido: false, erro: "Recurso não encontrado ou inativo", recursoIds: [] };
+    }
+    if (ocupados.has(id)) {
+      return { valido: false, erro: `${recurso.nome} já está ocupado neste horário`, recursoIds: [] };
+    }
+    escolhidos.add(id);
+  }
+
+  // Requisitos por recurso concreto
+  for (const requisito of dados.requisitos) {
+    if (requisito.recursoId === null) continue;
+
+    const recurso = porId.get(requisito.recursoId);
+    if (!recurso) {
+      return { valido: false, erro: "Um recurso exigido pelo procedimento não está ativo", recursoIds: [] };
+    }
+    if (ocupados.has(recurso.id)) {
+      return { valido: false, erro: `${recurso.nome} já está ocupado neste horário`, recursoIds: [] };
+    }
+    escolhidos.add(recurso.id);
+  }
+
+  // Requisitos por tipo: contar os já escolhidos desse tipo e completar com recursos livres
+  const preferidos = dados.preferidos ?? [];
+  for (const requisito of dados.requisitos) {
+    if (requisito.tipoRecurso === null) continue;
+    const tipo = requisito.tipoRecurso;
+
+    let emFalta = requisito.quantidade -
+      Array.from(escolhidos).filter(id => porId.get(id)?.tipo === tipo).length;
+
+    const candidatos = [
+      ...preferidos.filter(id => porId.get(id)?.tipo === tipo),
+      ...dados.recursos.filter(r => r.tipo === tipo).map(r => r.id),
+    ];
+    for (const id of candidatos) {
+      if (emFalta <= 0) break;
+      if (escolhidos.has(id) || !livre(id)) continue;
+      escolhidos.add(id);
+      emFalta--;
+    }
+
+    if (emFalta > 0) {
+      const { singular, plural } = NOMES_TIPO[tipo];
+      return {
+        valido: false,
+        erro: requisito.quantidade === 1
+          ? `Não há ${singular} neste horário`
+          : `Não há ${plural} suficientes neste horário (necessários: ${requisito.quantidade})`,
+        recursoIds: [],
+      };
+    }
+  }
+
+  // Recursos preferidos fora dos requisitos mantêm-se se continuarem livres
+  for (const id of preferidos) {
+    if (!escolhidos.has(id) && livre(id)) escolhidos.add(id);
+  }
+
+  return { valido: true, recursoIds: Array.from(escolhidos) };
+}
+
+/**
+ * Verificar se os recursos exigidos pelo procedimento (e os indicados) estão livres
+ * Devolve os recursos a atribuir à consulta
+ */
+export async function verificarDisponibilidadeRecursos(dados: {
+  clinicaId: number;
+  procedimentoId?: number | null;
+  recursoIds?: number[];
+  recursosPreferidos?: number[];
+  horaInicio: Date;
+  horaFim: Date;
+  consultaIdExcluir?: number;
+}, executor?: Executor): Promise<ResultadoRecursos> {
+  const requisitos = await carregarRequisitos(dados.procedimentoId, executor);
+  const obrigatorios = dados.recursoIds ?? [];
+  const preferidos = dados.recursosPreferidos ?? [];
+
+  if (requisitos.length === 0 && obrigatorios.length === 0 && preferidos.length === 0) {
+    return { valido: true, recursoIds: [] };
+  }
+
+  const [recursosClinica, ocupacoes] = await Promise.all([
+    carregarRecursosClinica(dados.clinicaId, executor),
+    carregarOcupacaoRecursos({
+      clinicaId: dados.clinicaId,
+      dataInicio: dados.horaInicio,
+      dataFim: dados.horaFim,
+      consultaIdExcluir: dados.consultaIdExcluir,
+    }, executor),
+  ]);
+
+  return escolherRecursos({
+    requisitos,
+    recursos: recursosClinica,
+    ocupacoes,
+    horaInicio: dados.horaInicio,
+    horaFim: dados.horaFim,
+    obrigatorios,
+    preferidos,
+  });
+}
+
+/**
+ * Recursos atualmente atribuídos a uma consulta
+ */
+export async function obterRecursosConsulta(consultaId: number, executor?: Executor): Promise<number[]> {
+  const db = executor ?? await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const linhas = await db
+    .select({ recursoId: consultasRecursos.recursoId })
+    .from(consultasRecursos)
+    .where(eq(consultasRecursos.consultaId, consultaId));
+
+  return linhas.map(l => l.recursoId);
+}
+
+/**
+ * Substituir os recursos atribuídos a uma consulta
+ * Aceita a ligação à base de dados ou uma transação em curso
+ */
+export async function atribuirRecursosConsulta(
+  executor: Executor,
+  consultaId: number,
+  recursoIds: number[]
+): Promise<void> {
+  await executor.delete(consultasRecursos).where(eq(consultasRecursos.consultaId, consultaId));
+
+  if (recursoIds.length > 0) {
+    await executor
+      .insert(consultasRecursos)
+      .values(recursoIds.map(recursoId => ({ consultaId, recursoId })));
+  }
+}
+
+/**
+ * Ocupação dos recursos de uma clínica num período (para a vista de agenda por gabinete)
+ */
+export async function listarOcupacaoRecursos(dados: {
+  clinicaId: number;
+  dataInicio: Date;
+  dataFim: Date;
+  recursoIds?: number[];
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select({
+      recursoId: consultasRecursos.recursoId,
+      consultaId: consultas.id,
+      dentistaId: consultas.dentistaId,
+      utenteId: consultas.utenteId,
+      horaInicio: consultas.horaInicio,
+      horaFim: consultas.horaFim,
+      estado: consultas.estado,
+    })
+    .from(consultasRecursos)
+    .innerJoin(consultas, eq(consultasRecursos.consultaId, consultas.id))
+    .where(
+      and(
+        eq(consultas.clinicaId, dados.clinicaId),
+        dados.recursoIds && dados.recursoIds.length > 0
+          ? inArray(consultasRecursos.recursoId, dados.recursoIds)
+          : undefined,
+        notInArray(consultas.estado, ["cancelada", "faltou"]),
+        lt(consultas.horaInicio, dados.dataFim),
+        gt(consultas.horaFim, dados.dataInicio)
+      )
+    )
+    .orderBy(consultas.horaInicio);
+}
@@ -1,6 +1,8 @@
 import { getDb } from "./db";
 import { consultas, utentes, dentistas, faturas, procedimentos, itensFatura } from "../drizzle/schema";
 import { eq, and, gte, lte, sql, desc } from "drizzle-orm";
+import { resumoComissoesDentistas } from "./comissoes";
+import { indicadoresAceitacao } from "./planos-tratamento";
 
 /**
  * Servico de Relatorios Avancados
@@ -40,6 +42,9 @@ export interface KPIsGerais {
   utentesAtivos: number;
   taxaRetencao: number; // %
   
+  // Planos de tratamento
+  taxaAceitacaoTratamentos: number; // % dos planos enviados aceites (total ou parcialmente)
+  
   // Produtividade
   consultasPorDia: number;
   receitaPorConsulta: number;
@@ -64,6 +69,10 @@ export interface AnaliseDentista {
   ticketMedio: number;
   taxaComparecimento: number;
   avaliacaoMedia: number;
+  comissaoGerada: number;
+  custosDeduzidos: number; // Laboratorio e materiais
+  valorClinica: number;
+  comissaoLiquidada: number;
   ranking: number;
 }
 
@@ -143,6 +152,9 @@ export class RelatoriosAvancadosService {
       }
     }
 
+    // Planos de tratamento
+    const planos = await indicadoresAceitacao(clinicaId, periodo.dataInicio, periodo.dataFim);
+
     const fin = financeiro[0] || {};
     const op = operacional[0] || {};
     const ut = utentesStats[0] || {};
@@ -175,6 +187,9 @@ export class RelatoriosAvancadosService {
       utentesAtivos: parseInt(ut.utentes_ativos) || 0,
       taxaRetencao: 0, // TODO: Calcular taxa de retencao
 
+      // Planos de tratamento
+      taxaAceitacaoTratamentos: planos.taxaAceitacao,
+
       // Produtividade
       consultasPorDia: diasPeriodo > 0 ? totalConsultas / diasPeriodo : 0,
       receitaPorConsulta: consultasRealizadas > 0 
@@ -231,6 +246,8 @@ export class RelatoriosAvancadosService {
 
   /**
    * Analise de performance por dentista
+   * A receita e as comissoes vem das linhas de fatura de cada dentista (sem IVA, descontadas
+   * as notas de credito); a comissao liquidada e a das liquidacoes mensais fechadas
    */
   static async getAnaliseDentistas(
     clinicaId: number,
@@ -239,41 +256,50 @@ export class RelatoriosAvancadosService {
     const db = await getDb();
     if (!db) throw new Error("Database not available");
 
-    const resultado = await db.query(`
-      SELECT 
-        d.id as dentista_id,
-        d.nome as dentista_nome,
-        COUNT(c.id) as total_consultas,
-        SUM(CASE WHEN c.estado = 'realizada' THEN 1 ELSE 0 END) as consultas_realizadas,
-        COALESCE(SUM(f.valor_total), 0) as receita_gerada,
-        COALESCE(AVG(f.valor_total), 0) as ticket_medio
-      FROM dentistas d
-      LEFT JOIN consultas c ON d.id = c.dentista_id 
-        AND c.hora_inicio >= ? 
-        AND c.hora_inicio <= ?
-      LEFT JOIN faturas f ON c.id = f.consulta_id
-      WHERE d.clinica_id = ?
-      GROUP BY d.id, d.nome
-      ORDER BY receita_gerada DESC
-    `, [periodo.dataInicio, periodo.dataFim, clinicaId]);
-
-    return resultado.map((item: any, index: number) => {
-      const totalConsultas = parseInt(item.total_consultas) || 0;
-      const consultasRealizadas = parseInt(item.consultas_realizadas) || 0;
-
-      return {
-        dentistaId: item.dentista_id,
-        dentistaNome: item.dentista_nome,
-        totalConsultas,
-        receitaGerada: parseFloat(item.receita_gerada) || 0,
-        ticketMedio: parseFloat(item.ticket_medio) || 0,
-        taxaComparecimento: totalConsultas > 0 
-          ? (consultasRealizadas / totalConsultas) * 100 
-          : 0,
-        avaliacaoMedia: 4.5, // TODO: Implementar sistema de avaliacoes
-        ranking: index + 1,
-      };
-    });
+    const resultado = await db
+      .select({
+        dentistaId: dentistas.id,
+        dentistaNome: dentistas.nome,
+        totalConsultas: sql<number>`count(${consultas.id})::int`,
+        consultasRealizadas: sql<number>`count(${consultas.id}) filter (where ${consultas.estado} = 'concluida')::int`,
+      })
+      .from(dentistas)
+      .leftJoin(
+        consultas,
+        and(
+          eq(consultas.dentistaId, dentistas.id),
+          gte(consultas.horaInicio, periodo.dataInicio),
+          lte(consultas.horaInicio, periodo.dataFim)
+        )
+      )
+      .where(eq(dentistas.clinicaId, clinicaId))
+      .groupBy(dentistas.id, dentistas.nome);
+
+    const comissoes = await resumoComissoesDentistas(clinicaId, periodo.dataInicio, periodo.dataFim);
+
+    return resultado
+      .map(item => {
+        const comissao = comissoes.find(c => c.dentistaId === item.dentistaId);
+
+        return {
+          dentistaId: item.dentistaId,
+          dentistaNome: item.dentistaNome,
+          totalConsultas: item.totalConsultas,
+          receitaGerada: comissao?.receita ?? 0,
+          ticketMedio: comissao && comissao.faturas > 0 ? comissao.receita / comissao.faturas : 0,
+          taxaComparecimento: item.totalConsultas > 0
+            ? (item.consultasRealizadas / item.totalConsultas) * 100
+            : 0,
+          avaliacaoMedia: 4.5, // TODO: Implementar sistema de avaliacoes
+          comissaoGerada: comissao?.comissaoGerada ?? 0,
+          custosDeduzidos: comissao?.custosDeduzidos ?? 0,
+          valorClinica: comissao?.valorClinica ?? 0,
+          comissaoLiquidada: comissao?.comissaoLiquidada ?? 0,
+          ranking: 0,
+        };
+      })
+      .sort((a, b) => b.receitaGerada - a.receitaGerada)
+      .map((item, index) => ({ ...item, ranking: index + 1 }));
   }
 
   /**
@@ -8,7 +8,10 @@ import {
   pagamentosFatura,
   itensFatura,
 } from "../drizzle/schema";
-import { eq, and, gte, lte, sql, desc } from "drizzle-orm";
+import { notasCredito, planosPagamento, prestacoesPlano } from "../drizzle/schema-faturacao";
+import { comparticipacoes, entidadesAcordo, lotesEntidade } from "../drizzle/schema-seguradoras";
+import { eq, and, gte, lte, sql, asc, desc, inArray, type SQLWrapper } from "drizzle-orm";
+import { adicionarDiasChave, chaveDia, obterFusoClinica, sqlHoraLocal } from "./fuso-horario";
 
 /**
  * Sistema de Relatórios Avançados
@@ -161,10 +164,15 @@ export async function getRelatorioProdutividade(clinicaId: number, periodo: Peri
     )
     .groupBy(dentistas.id, dentistas.nome);
 
+  // Dia da semana e hora no fuso da clínica (1=domingo, ..., 7=sábado)
+  const horaLocal = sqlHoraLocal(consultas.horaInicio, await obterFusoClinica(clinicaId));
+  const diaSemana = sql`EXTRACT(DOW FROM ${horaLocal}) + 1`;
+  const hora = sql`EXTRACT(HOUR FROM ${horaLocal})`;
+
   // Taxa de ocupação por dia da semana
   const ocupacaoPorDia = await db
     .select({
-      diaSemana: sql<number>`DAYOFWEEK(${consultas.horaInicio})`,
+      diaSemana: sql<number>`${diaSemana}`,
       totalConsultas: sql<number>`COUNT(*)`,
     })
     .from(consultas)
@@ -175,12 +183,12 @@ export async function getRelatorioProdutividade(clinicaId: number, periodo: Peri
         lte(consultas.horaInicio, periodo.dataFim)
       )
     )
-    .groupBy(sql`DAYOFWEEK(${consultas.horaInicio})`);
+    .groupBy(diaSemana);
 
   // Taxa de ocupação por hora do dia
   const ocupacaoPorHora = await db
     .select({
-      hora: sql<number>`HOUR(${consultas.horaInicio})`,
+      hora: sql<number>`${hora}`,
       totalConsultas: sql<number>`COUNT(*)`,
     })
     .from(consultas)
@@ -191,7 +199,7 @@ export async function getRelatorioProdutividade(clinicaId: number, periodo: Peri
         lte(consultas.horaInicio, periodo.dataFim)
       )
     )
-    .groupBy(sql`HOUR(${consultas.horaInicio})`);
+    .groupBy(hora);
 
   return {
     periodo,
@@ -411,3 +419,499 @@ export async function getTopProcedimentosLucrativos(
     receitaMedia: parseFloat(r.receitaMedia?.toString() || "0"),
   }));
 }
+
+/**
+ * Relatório de Tempos de Espera
+ * Espera na sala (check-in → cadeira), tempo na cadeira e atraso da agenda face à hora marcada
+ */
+export async function getRelatorioTemposEspera(
+  clinicaId: number,
+  periodo: PeriodoRelatorio,
+  dentistaId?: number
+) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const minutos = (inicio: SQLWrapper, fim: SQLWrapper) => sql`EXTRACT(EPOCH FROM (${fim} - ${inicio})) / 60`;
+
+  const espera = minutos(consultas.chegadaEm, consultas.iniciadaEm);
+  const cadeira = minutos(consultas.iniciadaEm, consultas.concluidaEm);
+  const previsto = minutos(consultas.horaInicio, consultas.horaFim);
+  const atrasoUtente = sql`GREATEST(${minutos(consultas.horaInicio, consultas.chegadaEm)}, 0)`;
+  // Atraso da agenda: desde a hora marcada (ou da chegada, se o utente chegou atrasado) até entrar na cadeira
+  const atrasoAgenda = sql`GREATEST(${minutos(
+    sql`GREATEST(${consultas.horaInicio}, ${consultas.chegadaEm})`,
+    consultas.iniciadaEm
+  )}, 0)`;
+
+  const metricas = {
+    totalAtendidas: sql<number>`COUNT(*)`,
+    esperaMedia: sql<number>`COALESCE(AVG(${espera}), 0)`,
+    esperaMaxima: sql<number>`COALESCE(MAX(${espera}), 0)`,
+    tempoCadeiraMedio: sql<number>`COALESCE(AVG(${cadeira}), 0)`,
+    duracaoPrevistaMedia: sql<number>`COALESCE(AVG(${previsto}), 0)`,
+    atrasoAgendaMedio: sql<number>`COALESCE(AVG(${atrasoAgenda}), 0)`,
+    atrasoUtenteMedio: sql<number>`COALESCE(AVG(${atrasoUtente}), 0)`,
+    consultasComAtraso: sql<number>`SUM(CASE WHEN ${atrasoAgenda} > 10 THEN 1 ELSE 0 END)`,
+  };
+
+  const conditions = and(
+    eq(consultas.clinicaId, clinicaId),
+    gte(consultas.horaInicio, periodo.dataInicio),
+    lte(consultas.horaInicio, periodo.dataFim),
+    sql`${consultas.chegadaEm} IS NOT NULL`,
+    sql`${consultas.iniciadaEm} IS NOT NULL`,
+    dentistaId ? eq(consultas.dentistaId, dentistaId) : undefined
+  );
+
+  const [global] = await db
+    .select(metricas)
+    .from(consultas)
+    .where(conditions);
+
+  const porDentista = await db
+    .select({
+      dentistaId: dentistas.id,
+      dentistaNome: dentistas.nome,
+      ...metricas,
+    })
+    .from(consultas)
+    .innerJoin(dentistas, eq(consultas.dentistaId, dentistas.id))
+    .where(conditions)
+    .groupBy(dentistas.id, dentistas.nome);
+
+  // Atraso ao longo do dia (a agenda tende a derrapar à tarde), na hora local da clínica
+  const hora = sql`EXTRACT(HOUR FROM ${sqlHoraLocal(consultas.horaInicio, await obterFusoClinica(clinicaId))})`;
+  const porHora = await db
+    .select({
+      hora: sql<number>`${hora}`,
+      totalAtendidas: sql<number>`COUNT(*)`,
+      esperaMedia: sql<number>`COALESCE(AVG(${espera}), 0)`,
+      atrasoAgendaMedio: sql<number>`COALESCE(AVG(${atrasoAgenda}), 0)`,
+    })
+    .from(consultas)
+    .where(conditions)
+    .groupBy(hora)
+    .orderBy(hora);
+
+  const arredondar = (valor: unknown) => Math.round(parseFloat(valor?.toString() || "0") * 10) / 10;
+  const normalizar = <T extends Record<string, unknown>>(linha: T) => ({
+    totalAtendidas: parseInt(linha.totalAtendidas?.toString() || "0"),
+    esperaMedia: arredondar(linha.esperaMedia),
+    esperaMaxima: arredondar(linha.esperaMaxima),
+    tempoCadeiraMedio: arredondar(linha.tempoCadeiraMedio),
+    duracaoPrevistaMedia: arredondar(linha.duracaoPrevistaMedia),
+    atrasoAgendaMedio: arredondar(linha.atrasoAgendaMedio),
+    atrasoUtenteMedio: arredondar(linha.atrasoUtenteMedio),
+    consultasComAtraso: parseInt(linha.consultasComAtraso?.toString() || "0"),
+  });
+
+  return {
+    periodo,
+    global: normalizar(global ?? {}),
+    porDentista: porDentista.map((linha) => ({
+      dentistaId: linha.dentistaId,
+      dentistaNome: linha.dentistaNome,
+      ...normalizar(linha),
+    })),
+    porHora: porHora.map((linha) => ({
+      hora: parseInt(linha.hora?.toString() || "0"),
+      totalAtendidas: parseInt(linha.totalAtendidas?.toString() || "0"),
+      esperaMedia: arredondar(linha.esperaMedia),
+      atrasoAgendaMedio: arredondar(linha.atrasoAgendaMedio),
+    })),
+  };
+}
+
+// ============================================
+// ANTIGUIDADE DE SALDOS
+// ============================================
+
+export type EscalaoAntiguidade = "corrente" | "de1a30" | "de31a60" | "de61a90" | "mais90";
+
+const ESCALOES_ANTIGUIDADE: { escalao: EscalaoAntiguidade; rotulo: string; ate: number }[] = [
+  { escalao: "corrente", rotulo: "Por vencer", ate: 0 },
+  { escalao: "de1a30", rotulo: "1-30 dias", ate: 30 },
+  { escalao: "de31a60", rotulo: "31-60 dias", ate: 60 },
+  { escalao: "de61a90", rotulo: "61-90 dias", ate: 90 },
+  { escalao: "mais90", rotulo: "Mais de 90 dias", ate: Infinity },
+];
+
+const ESTADOS_FATURA_EM_ABERTO: (typeof faturas.$inferSelect)["estado"][] = ["enviada", "parcialmente_paga", "vencida"];
+
+type ValoresEscaloes = Record<EscalaoAntiguidade | "total", string>;
+
+export interface DocumentoAntiguidade {
+  tipo: "fatura" | "comparticipacao";
+  id: number;
+  documento: string; // Número da fatura (e a prestação, com plano de pagamento) ou, na parte da entidade, o ato (e o lote, se enviado)
+  data: string; // YYYY-MM-DD
+  vencimento: string; // YYYY-MM-DD
+  diasAtraso: number; // Negativo enquanto não vence
+  escalao: EscalaoAntiguidade;
+  pagador: "utente" | "entidade";
+  entidadeId: number | null;
+  entidadeNome: string | null;
+  utenteId: number;
+  utenteNome: string;
+  valorDocumento: string;
+  valorRecebido: string; // Pagamentos (e notas de crédito, nas faturas)
+  valorEmDivida: string;
+  dentistas: { dentistaId: number | null; dentistaNome: string; valor: string }[]; // Parte em dívida de cada dentista
+}
+
+function centimosRelatorio(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function eurosRelatorio(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+function escalaoAntiguidade(diasAtraso: number): EscalaoAntiguidade {
+  return ESCALOES_ANTIGUIDADE.find(e => diasAtraso <= e.ate)!.escalao;
+}
+
+/**
+ * Repartir um valor em cêntimos pelos pesos, sem perder cêntimos no arredondamento
+ */
+function repartirCentimos(valor: number, pesos: number[]): number[] {
+  const totalPesos = pesos.reduce((s, p) => s + p, 0);
+  if (totalPesos <= 0) return pesos.map((_, i) => (i === 0 ? valor : 0));
+
+  const partes = pesos.map(p => Math.floor((valor * p) / totalPesos));
+  partes[0] += valor - partes.reduce((s, p) => s + p, 0);
+  return partes;
+}
+
+/**
+ * Relatório de Antiguidade de Saldos (contas a receber)
+ * Valor em dívida hoje, por escalão de atraso desde o vencimento (por vencer, 1-30, 31-60, 61-90
+ * e mais de 90 dias), por utente, por dentista e por pagador (utente ou entidade)
+ *
+ * - Faturas do utente: total - pagamentos - notas de crédito; vencimento na data de vencimento
+ *   da fatura ou, sem ela, na data da fatura. A parte de cada dentista é proporcional às linhas
+ * - Faturas com plano de pagamento ativo: o valor em dívida segue o calendário do plano (uma linha
+ *   por prestação em aberto, com o vencimento da prestação); o que exceder o plano fica na fatura
+ * - Parte das seguradoras e subsistemas (comparticipações por receber): vencimento no lote
+ *   enviado ou, antes do envio, na data do ato mais o prazo de pagamento da entidade
+ * - Os filtros restringem os documentos e todos os agrupamentos (drill-down)
+ */
+export async function getRelatorioAntiguidadeSaldos(
+  clinicaId: number,
+  filtros: {
+    utenteId?: number;
+    dentistaId?: number | null; // null = linhas sem dentista
+    pagador?: "utente" | "entidade";
+    entidadeId?: number;
+    escalao?: EscalaoAntiguidade;
+  } = {}
+) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const fuso = await obterFusoClinica(clinicaId);
+  const hoje = chaveDia(new Date(), fuso);
+  const dias = (vencimento: string) => Math.round((Date.parse(hoje) - Date.parse(vencimento)) / (24 * 60 * 60 * 1000));
+
+  const documentos: DocumentoAntiguidade[] = [];
+
+  // Faturas do utente
+  if (filtros.pagador !== "entidade" && !filtros.entidadeId) {
+    const faturasAbertas = await db
+      .select({ fatura: faturas, utenteNome: utentes.nome })
+      .from(faturas)
+      .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+      .where(
+        and(
+          eq(faturas.clinicaId, clinicaId),
+          inArray(faturas.estado, ESTADOS_FATURA_EM_ABERTO),
+          filtros.utenteId ? eq(faturas.utenteId, filtros.utenteId) : undefined
+        )
+      );
+
+    const ids = faturasAbertas.map(f => f.fatura.id);
+    const [pagamentos, creditos, linhas, prestacoes] = ids.length > 0
+      ? await Promise.all([
+          db
+            .select({ faturaId: pagamentosFatura.faturaId, valor: sql<string>`sum(${pagamentosFatura.valor})` })
+            .from(pagamentosFatura)
+            .where(inArray(pagamentosFatura.faturaId, ids))
+            .groupBy(pagamentosFatura.faturaId),
+          db
+            .select({ faturaId: notasCredito.faturaId, valor: sql<string>`sum(${notasCredito.valorTotal})` })
+            .from(notasCredito)
+            .where(inArray(notasCredito.faturaId, ids))
+            .groupBy(notasCredito.faturaId),
+          db
+            .select({
+              faturaId: itensFatura.faturaId,
+              dentistaId: sql<number | null>`coalesce(${itensFatura.dentistaId}, ${consultas.dentistaId})`,
+              dentistaNome: dentistas.nome,
+              valor: sql<string>`sum(${itensFatura.precoTotal})`,
+            })
+            .from(itensFatura)
+            .innerJoin(faturas, eq(itensFatura.faturaId, faturas.id))
+            .leftJoin(consultas, eq(faturas.consultaId, consultas.id))
+            .leftJoin(dentistas, sql`${dentistas.id} = coalesce(${itensFatura.dentistaId}, ${consultas.dentistaId})`)
+            .where(inArray(itensFatura.faturaId, ids))
+            .groupBy(itensFatura.faturaId, sql`coalesce(${itensFatura.dentistaId}, ${consultas.dentistaId})`, dentistas.nome),
+          db
+            .select({
+              faturaId: planosPagamento.faturaId,
+              numero: prestacoesPlano.numero,
+              numeroPrestacoes: planosPagamento.numeroPrestacoes,
+              valor: prestacoesPlano.valor,
+              valorPago: prestacoesPlano.valorPago,
+              dataVencimento: prestacoesPlano.dataVencimento,
+            })
+            .from(prestacoesPlano)
+            .innerJoin(planosPagamento, eq(prestacoesPlano.planoId, planosPagamento.id))
+            .where(
+              and(
+                inArray(planosPagamento.faturaId, ids),
+                eq(planosPagamento.estado, "ativo"),
+                inArray(prestacoesPlano.estado, ["pendente", "parcialmente_paga", "vencida"])
+              )
+            )
+            .orderBy(asc(prestacoesPlano.dataVencimento), asc(prestacoesPlano.numero)),
+        ])
+      : [[], [], [], []];
+
+    for (const { fatura, utenteNome } of faturasAbertas) {
+      const recebido =
+        centimosRelatorio(pagamentos.find(p => p.faturaId === fatura.id)?.valor) +
+        centimosRelatorio(creditos.find(c => c.faturaId === fatura.id)?.valor);
+      const emDivida = centimosRelatorio(fatura.valorTotal) - recebido;
+      if (emDivida <= 0) continue;
+
+      // Valor em dívida por vencimento: prestações do plano ativo (as mais antigas primeiro) e o resto na fatura
+      const parcelas: { documento: string; vencimento: string; valor: number }[] = [];
+      let porRepartir = emDivida;
+      for (const prestacao of prestacoes.filter(p => p.faturaId === fatura.id)) {
+        const valor = Math.min(porRepartir, centimosRelatorio(prestacao.valor) - centimosRelatorio(prestacao.valorPago));
+        if (valor <= 0) continue;
+        const rotulo = prestacao.numero === 0 ? "entrada" : `prestação ${prestacao.numero}/${prestacao.numeroPrestacoes}`;
+        parcelas.push({ documento: `${fatura.numeroFatura} (${rotulo})`, vencimento: prestacao.dataVencimento, valor });
+        porRepartir -= valor;
+      }
+      if (porRepartir > 0) {
+        parcelas.push({ documento: fatura.numeroFatura, vencimento: chaveDia(fatura.dataVencimento ?? fatura.dataFatura, fuso), valor: porRepartir });
+      }
+
+      const linhasFatura = linhas.filter(l => l.faturaId === fatura.id);
+      for (const parcela of parcelas) {
+        const partes = repartirCentimos(parcela.valor, linhasFatura.map(l => Math.max(0, centimosRelatorio(l.valor))));
+        const diasAtraso = dias(parcela.vencimento);
+
+        documentos.push({
+          tipo: "fatura",
+          id: fatura.id,
+          documento: parcela.documento,
+          data: chaveDia(fatura.dataFatura, fuso),
+          vencimento: parcela.vencimento,
+          diasAtraso,
+          escalao: escalaoAntiguidade(diasAtraso),
+          pagador: "utente",
+          entidadeId: null,
+          entidadeNome: null,
+          utenteId: fatura.utenteId,
+          utenteNome,
+          valorDocumento: fatura.valorTotal,
+          valorRecebido: eurosRelatorio(recebido),
+          valorEmDivida: eurosRelatorio(parcela.valor),
+          dentistas: linhasFatura.length > 0
+            ? linhasFatura.map((l, i) => ({ dentistaId: l.dentistaId, dentistaNome: l.dentistaNome ?? "Sem dentista", valor: eurosRelatorio(partes[i]) }))
+            : [{ dentistaId: null, dentistaNome: "Sem dentista", valor: eurosRelatorio(parcela.valor) }],
+        });
+      }
+    }
+  }
+
+  // Parte das entidades (seguradoras e subsistemas)
+  if (filtros.pagador !== "utente") {
+    const porReceber = await db
+      .select({
+        comparticipacao: comparticipacoes,
+        entidadeNome: entidadesAcordo.nome,
+        prazoPagamentoDias: entidadesAcordo.prazoPagamentoDias,
+        utenteNome: utentes.nome,
+        dentistaNome: dentistas.nome,
+        loteNumero: lotesEntidade.numero,
+        loteVencimento: lotesEntidade.dataVencimento,
+      })
+      .from(comparticipacoes)
+      .innerJoin(entidadesAcordo, eq(comparticipacoes.entidadeId, entidadesAcordo.id))
+      .innerJoin(utentes, eq(comparticipacoes.utenteId, utentes.id))
+      .leftJoin(dentistas, eq(comparticipacoes.dentistaId, dentistas.id))
+      .leftJoin(lotesEntidade, eq(comparticipacoes.loteId, lotesEntidade.id))
+      .where(
+        and(
+          eq(comparticipacoes.clinicaId, clinicaId),
+          inArray(comparticipacoes.estado, ["pendente", "em_lote"]),
+          filtros.utenteId ? eq(comparticipacoes.utenteId, filtros.utenteId) : undefined,
+          filtros.entidadeId ? eq(comparticipacoes.entidadeId, filtros.entidadeId) : undefined
+        )
+      );
+
+    for (const linha of porReceber) {
+      const { comparticipacao } = linha;
+      const emDivida = centimosRelatorio(comparticipacao.valorEntidade) - centimosRelatorio(comparticipacao.valorPago);
+      if (emDivida <= 0) continue;
+
+      const vencimento = linha.loteVencimento ?? adicionarDiasChave(comparticipacao.dataAto, linha.prazoPagamentoDias);
+      const diasAtraso = dias(vencimento);
+
+      documentos.push({
+        tipo: "comparticipacao",
+        id: comparticipacao.id,
+        documento: linha.loteNumero ? `Lote ${linha.loteNumero}: ${comparticipacao.descricao}` : comparticipacao.descricao,
+        data: comparticipacao.dataAto,
+        vencimento,
+        diasAtraso,
+        escalao: escalaoAntiguidade(diasAtraso),
+        pagador: "entidade",
+        entidadeId: comparticipacao.entidadeId,
+        entidadeNome: linha.entidadeNome,
+        utenteId: comparticipacao.utenteId,
+        utenteNome: linha.utenteNome,
+        valorDocumento: comparticipacao.valorEntidade,
+        valorRecebido: comparticipacao.valorPago,
+        valorEmDivida: eurosRelatorio(emDivida),
+        dentistas: [{ dentistaId: comparticipacao.dentistaId, dentistaNome: linha.dentistaNome ?? "Sem dentista", valor: eurosRelatorio(emDivida) }],
+      });
+    }
+  }
+
+  // Filtros por dentista e escalão (sobre os documentos já calculados)
+  const filtrados = documentos
+    .filter(d => !filtros.escalao || d.escalao === filtros.escalao)
+    .filter(d => filtros.dentistaId === undefined || d.dentistas.some(p => p.dentistaId === filtros.dentistaId))
+    .sort((a, b) => b.diasAtraso - a.diasAtraso || a.utenteNome.localeCompare(b.utenteNome));
+
+  // Agrupar valores em cêntimos por chave
+  const agrupar = <T extends object>(entradas: { chave: string; dados: T; escalao: EscalaoAntiguidade; valor: number }[]) => {
+    const grupos = new Map<string, { dados: T; valores: Record<EscalaoAntiguidade, number>; documentos: number }>();
+    for (const entrada of entradas) {
+      let grupo = grupos.get(entrada.chave);
+      if (!grupo) {
+        grupo = { dados: entrada.dados, valores: { corrente: 0, de1a30: 0, de31a60: 0, de61a90: 0, mais90: 0 }, documentos: 0 };
+        grupos.set(entrada.chave, grupo);
+      }
+      grupo.valores[entrada.escalao] += entrada.valor;
+      grupo.documentos++;
+    }
+
+    return Array.from(grupos.values())
+      .map(({ dados, valores, documentos }) => ({ ...dados, ...valoresEscaloes(valores), documentos }))
+      .sort((a, b) => parseFloat(b.total) - parseFloat(a.total));
+  };
+
+  const porDocumento = filtrados.map(d => ({ d, valor: centimosRelatorio(d.valorEmDivida) }));
+
+  const totais: Record<EscalaoAntiguidade, number> = { corrente: 0, de1a30: 0, de31a60: 0, de61a90: 0, mais90: 0 };
+  for (const { d, valor } of porDocumento) totais[d.escalao] += valor;
+
+  return {
+    data: hoje,
+    escaloes: ESCALOES_ANTIGUIDADE.map(({ escalao, rotulo }) => ({ escalao, rotulo })),
+    totais: valoresEscaloes(totais),
+    porUtente: agrupar(porDocumento.map(({ d, valor }) => ({
+      chave: String(d.utenteId),
+      dados: { utenteId: d.utenteId, utenteNome: d.utenteNome },
+      escalao: d.escalao,
+      valor,
+    }))),
+    porDentista: agrupar(filtrados.flatMap(d =>
+      d.dentistas
+        .filter(p => filtros.dentistaId === undefined || p.dentistaId === filtros.dentistaId)
+        .map(p => ({
+          chave: String(p.dentistaId),
+          dados: { dentistaId: p.dentistaId, dentistaNome: p.dentistaNome },
+          escalao: d.escalao,
+          valor: centimosRelatorio(p.valor),
+        }))
+    )),
+    porPagador: agrupar(porDocumento.map(({ d, valor }) => ({
+      chave: d.pagador === "utente" ? "utente" : `entidade:${d.entidadeId}`,
+      dados: { pagador: d.pagador, entidadeId: d.entidadeId, nome: d.entidadeNome ?? "Utentes" },
+      escalao: d.escalao,
+      valor,
+    }))),
+    documentos: filtrados,
+  };
+}
+
+function valoresEscaloes(valores: Record<EscalaoAntiguidade, number>): ValoresEscaloes {
+  return {
+    corrente: eurosRelatorio(valores.corrente),
+    de1a30: eurosRelatorio(valores.de1a30),
+    de31a60: eurosRelatorio(valores.de31a60),
+    de61a90: eurosRelatorio(valores.de61a90),
+    mais90: eurosRelatorio(valores.mais90),
+    total: eurosRelatorio(Object.values(valores).reduce((s, v) => s + v, 0)),
+  };
+}
+
+export type RelatorioAntiguidadeSaldos = NonNullable<Awaited<ReturnType<typeof getRelatorioAntiguidadeSaldos>>>;
+
+export type AgrupamentoAntiguidade = "utente" | "dentista" | "pagador" | "documento";
+
+/**
+ * Linhas do relatório num agrupamento (para exportar): rótulo, detalhe e valores por escalão
+ */
+export function linhasAntiguidadeSaldos(relatorio: RelatorioAntiguidadeSaldos, agrupamento: AgrupamentoAntiguidade) {
+  const escaloes = (v: ValoresEscaloes) => [v.corrente, v.de1a30, v.de31a60, v.de61a90, v.mais90, v.total];
+
+  switch (agrupamento) {
+    case "utente":
+      return relatorio.porUtente.map(u => ({ rotulo: u.utenteNome, detalhe: `${u.documentos} documento(s)`, valores: escaloes(u) }));
+    case "dentista":
+      return relatorio.porDentista.map(d => ({ rotulo: d.dentistaNome, detalhe: `${d.documentos} documento(s)`, valores: escaloes(d) }));
+    case "pagador":
+      return relatorio.porPagador.map(p => ({ rotulo: p.nome, detalhe: p.pagador === "utente" ? "Utente" : "Entidade", valores: escaloes(p) }));
+    case "documento":
+      return relatorio.documentos.map(d => {
+        const valores = ESCALOES_ANTIGUIDADE.map(e => (e.escalao === d.escalao ? d.valorEmDivida : "0.00"));
+        return {
+          rotulo: `${d.documento} - ${d.utenteNome}`,
+          detalhe: `${d.entidadeNome ?? "Utente"}; venc. ${d.vencimento.split("-").reverse().join("/")}`,
+          valores: [...valores, d.valorEmDivida],
+        };
+      });
+  }
+}
+
+/**
+ * Antiguidade de saldos em CSV (separador ";" e vírgula decimal, como o Excel em português)
+ */
+export async function exportarAntiguidadeSaldosCSV(
+  clinicaId: number,
+  agrupamento: AgrupamentoAntiguidade,
+  filtros: Parameters<typeof getRelatorioAntiguidadeSaldos>[1] = {}
+) {
+  const relatorio = await getRelatorioAntiguidadeSaldos(clinicaId, filtros);
+  if (!relatorio) throw new Error("Database not available");
+
+  const campo = (valor: string) => (/[";\n]/.test(valor) ? `"${valor.replace(/"/g, '""')}"` : valor);
+  const numero = (valor: string) => valor.replace(".", ",");
+  const titulo = { utente: "Utente", dentista: "Dentista", pagador: "Pagador", documento: "Documento" }[agrupamento];
+
+  const linhas = [
+    [titulo, "Detalhe", ...ESCALOES_ANTIGUIDADE.map(e => e.rotulo), "Total"].join(";"),
+    ...linhasAntiguidadeSaldos(relatorio, agrupamento).map(l => [campo(l.rotulo), campo(l.detalhe), ...l.valores.map(numero)].join(";")),
+    ["Total", "", ...[
+      relatorio.totais.corrente,
+      relatorio.totais.de1a30,
+      relatorio.totais.de31a60,
+      relatorio.totais.de61a90,
+      relatorio.totais.mais90,
+      relatorio.totais.total,
+    ].map(numero)].join(";"),
+  ];
+
+  return {
+    nomeFicheiro: `Antiguidade_Saldos_${agrupamento}_${relatorio.data}.csv`,
+    conteudo: Buffer.from(`\uFEFF${linhas.join("\r\n")}\r\n`, "utf8"),
+  };
+}
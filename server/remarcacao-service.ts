@@ -0,0 +1,639 @@
+/**
+ * Serviço de Remarcação em Bloco
+ *
+ * Funcionalidades:
+ * - Proposta de nova data para todas as consultas de um dentista indisponível num período
+ * - Alternativas: o mesmo dentista noutro dia ou outro dentista com a mesma especialização
+ * - Aplicação da proposta (revista pela receção) numa única operação
+ * - Aviso automático a cada utente, que pode responder SIM (confirma) ou NAO (a consulta fica por
+ *   remarcar pela receção, que é avisada)
+ */
+
+import { nanoid } from 'nanoid';
+import { getDb } from './db';
+import { clinicas, consultas, dentistas, notificacoes, procedimentos, utentes, type User } from '../drizzle/schema';
+import { remarcacoesConsulta, type RemarcacaoConsulta } from '../drizzle/schema-agenda';
+import { eq, and, gt, lt, inArray, desc, isNotNull } from 'drizzle-orm';
+import { whatsappService } from './whatsapp-service';
+import { enviarSMS, variantesNumeroTelefone } from './integrations/twilio/sms';
+import {
+  bloquearAgenda,
+  sugerirHorariosAlternativos,
+  validarAgendamentoCompleto,
+  verificarConflitoUtenteHorario,
+} from './validacoes-agenda';
+import { atribuirRecursosConsulta, obterRecursosConsulta } from './recursos-agenda';
+import { obterPapelUtilizador, transicionarEstadoConsulta } from './estados-consulta';
+import { notificarSalaEspera } from './sala-espera';
+import { destinatariosClinica } from './cheques-dentista';
+import { adicionarDias, formatarDataExtenso, formatarHora, obterFusoClinica } from './fuso-horario';
+
+/**
+ * Dias (a contar do fim da indisponibilidade) em que se procura vaga com o mesmo dentista
+ */
+const DIAS_PESQUISA_MESMO_DENTISTA = 14;
+
+/**
+ * Horários pedidos à sugestão de horários por dentista e por dia
+ */
+const SUGESTOES_POR_DIA = 20;
+
+/**
+ * Alternativas devolvidas por consulta (a primeira é a sugerida)
+ */
+const ALTERNATIVAS_POR_CONSULTA = 3;
+
+/**
+ * Estados em que uma consulta ainda pode ser remarcada
+ */
+const ESTADOS_REMARCAVEIS = ['agendada', 'confirmada'] as const;
+
+/**
+ * Novo horário proposto para uma consulta
+ */
+export interface HorarioRemarcacao {
+  dentistaId: number;
+  dentistaNome: string;
+  horaInicio: Date;
+  horaFim: Date;
+}
+
+/**
+ * Proposta para uma consulta afetada
+ */
+export interface PropostaRemarcacao {
+  consultaId: number;
+  utente: { id: number; nome: string };
+  procedimento: string | null;
+  horaInicioAtual: Date;
+  horaFimAtual: Date;
+  sugestao: HorarioRemarcacao | null;
+  alternativas: HorarioRemarcacao[];
+}
+
+/**
+ * Consulta a mover, tal como revista pela receção
+ */
+export interface ItemRemarcacao {
+  consultaId: number;
+  dentistaId: number;
+  horaInicio: Date;
+  horaFim: Date;
+}
+
+export interface ConflitoRemarcacao {
+  consultaId: number;
+  erro: string;
+}
+
+function sobrepoe(a: { horaInicio: Date; horaFim: Date }, b: { horaInicio: Date; horaFim: Date }): boolean {
+  return a.horaInicio < b.horaFim && a.horaFim > b.horaInicio;
+}
+
+export class RemarcacaoService {
+  /**
+   * Propor nova data para as consultas de um dentista num período de indisponibilidade
+   * Nada é alterado: a receção revê a proposta e aplica-a com aplicarRemarcacao
+   */
+  static async proporRemarcacao(dados: {
+    clinicaId: number;
+    dentistaId: number;
+    dataInicio: Date;
+    dataFim: Date;
+    mesmoDentista?: boolean;
+    outrosDentistas?: boolean;
+  }) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    if (dados.dataFim <= dados.dataInicio) {
+      throw new Error('A data de fim deve ser posterior à data de início');
+    }
+
+    const [dentista] = await db
+      .select()
+      .from(dentistas)
+      .where(and(eq(dentistas.id, dados.dentistaId), eq(dentistas.clinicaId, dados.clinicaId)))
+      .limit(1);
+    if (!dentista) throw new Error('Dentista não encontrado');
+
+    const afetadas = await db
+      .select({
+        consulta: consultas,
+        utente: { id: utentes.id, nome: utentes.nome },
+        procedimento: procedimentos.nome,
+      })
+      .from(consultas)
+      .innerJoin(utentes, eq(consultas.utenteId, utentes.id))
+      .leftJoin(procedimentos, eq(consultas.procedimentoId, procedimentos.id))
+      .where(and(
+        eq(consultas.clinicaId, dados.clinicaId),
+        eq(consultas.dentistaId, dados.dentistaId),
+        inArray(consultas.estado, [...ESTADOS_REMARCAVEIS]),
+        lt(consultas.horaInicio, dados.dataFim),
+        gt(consultas.horaFim, dados.dataInicio)
+      ))
+      .orderBy(consultas.horaInicio);
+
+    // Outros dentistas ativos com a mesma especialização (ou todos, se o dentista não tiver nenhuma)
+    const especializacao = dentista.especializacao?.trim().toLowerCase() || null;
+    const alternativos = dados.outrosDentistas === false
+      ? []
+      : (await db
+          .select()
+          .from(dentistas)
+          .where(and(eq(dentistas.clinicaId, dados.clinicaId), eq(dentistas.ativo, true))))
+          .filter(d => d.id !== dentista.id)
+          .filter(d => !especializacao || d.especializacao?.trim().toLowerCase() === especializacao);
+
+    const fuso = await obterFusoClinica(dados.clinicaId);
+    const periodoIndisponivel = { horaInicio: dados.dataInicio, horaFim: dados.dataFim };
+
+    // Horários já atribuídos nesta proposta, para não propor o mesmo a duas consultas
+    const reservados: Array<HorarioRemarcacao & { utenteId: number }> = [];
+
+    const propostas: PropostaRemarcacao[] = [];
+
+    for (const { consulta, utente, procedimento } of afetadas) {
+      const duracao = Math.round((consulta.horaFim.getTime() - consulta.horaInicio.getTime()) / 60000);
+      const candidatos: HorarioRemarcacao[] = [];
+      const adicionarCandidatos = (d: { id: number; nome: string }, inicios: Date[]) => {
+        for (const horaInicio of inicios) {
+          candidatos.push({
+            dentistaId: d.id,
+            dentistaNome: d.nome,
+            horaInicio,
+            horaFim: new Date(horaInicio.getTime() + duracao * 60 * 1000),
+          });
+        }
+      };
+
+      // Outro dentista no mesmo dia
+      for (const alternativo of alternativos) {
+        adicionarCandidatos(alternativo, await sugerirHorariosAlternativos({
+          dentistaId: alternativo.id,
+          dataDesejada: consulta.horaInicio,
+          duracao,
+          quantidade: SUGESTOES_POR_DIA,
+          clinicaId: dados.clinicaId,
+          procedimentoId: consulta.procedimentoId ?? undefined,
+        }));
+      }
+
+      // O mesmo dentista, no primeiro dia com vagas depois da indisponibilidade
+      if (dados.mesmoDentista !== false) {
+        for (let dia = 0; dia <= DIAS_PESQUISA_MESMO_DENTISTA; dia++) {
+          const inicios = (await sugerirHorariosAlternativos({
+            dentistaId: dentista.id,
+            dataDesejada: adicionarDias(dados.dataFim, dia, fuso),
+            duracao,
+            quantidade: SUGESTOES_POR_DIA,
+            clinicaId: dados.clinicaId,
+            procedimentoId: consulta.procedimentoId ?? undefined,
+          })).filter(inicio => inicio >= dados.dataFim && !reservados.some(r =>
+            r.dentistaId === dentista.id &&
+            sobrepoe(r, { horaInicio: inicio, horaFim: new Date(inicio.getTime() + duracao * 60 * 1000) })
+          ));
+
+          if (inicios.length > 0) {
+            adicionarCandidatos(dentista, inicios);
+            break;
+          }
+        }
+      }
+
+      // Mais próximos da hora original primeiro
+      const distancia = (c: HorarioRemarcacao) => Math.abs(c.horaInicio.getTime() - consulta.horaInicio.getTime());
+      candidatos.sort((a, b) => distancia(a) - distancia(b));
+
+      const alternativas: HorarioRemarcacao[] = [];
+      for (const candidato of candidatos) {
+        if (alternativas.length >= ALTERNATIVAS_POR_CONSULTA) break;
+        if (candidato.dentistaId === dentista.id && sobrepoe(candidato, periodoIndisponivel)) continue;
+        if (reservados.some(r =>
+          (r.dentistaId === candidato.dentistaId || r.utenteId === utente.id) && sobrepoe(r, candidato)
+        )) continue;
+
+        const conflitoUtente = await verificarConflitoUtenteHorario({
+          utenteId: utente.id,
+          horaInicio: candidato.horaInicio,
+          horaFim: candidato.horaFim,
+          consultaIdExcluir: consulta.id,
+        });
+        if (!conflitoUtente.valido) continue;
+
+        alternativas.push(candidato);
+      }
+
+      const sugestao = alternativas[0] ?? null;
+      if (sugestao) {
+        reservados.push({ ...sugestao, utenteId: utente.id });
+      }
+
+      propostas.push({
+        consultaId: consulta.id,
+        utente,
+        procedimento,
+        horaInicioAtual: consulta.horaInicio,
+        horaFimAtual: consulta.horaFim,
+        sugestao,
+        alternativas,
+      });
+    }
+
+    return {
+      dentista: { id: dentista.id, nome: dentista.nome },
+      total: propostas.length,
+      semSugestao: propostas.filter(p => !p.sugestao).length,
+      propostas,
+    };
+  }
+
+  /**
+   * Aplicar a proposta revista pela receção
+   * Todas as consultas são validadas antes de alterar alguma: se houver conflitos nada é
+   * remarcado e os conflitos são devolvidos. Cada utente é depois avisado da nova hora
+   */
+  static async aplicarRemarcacao(dados: {
+    clinicaId: number;
+    itens: ItemRemarcacao[];
+    motivo?: string;
+    notificarUtentes?: boolean;
+    user: Pick<User, 'id' | 'role'>;
+  }) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    if (dados.itens.length === 0) {
+      throw new Error('Indique pelo menos uma consulta a remarcar');
+    }
+
+    const papel = await obterPapelUtilizador(dados.user, dados.clinicaId);
+
+    const lote = nanoid(16);
+    const motivo = dados.motivo?.trim() || null;
+
+    // Validação e gravação na mesma transação, com as agendas de destino bloqueadas
+    const { remarcacoes, conflitos } = await db.transaction(async tx => {
+      await bloquearAgenda(tx, dados.itens);
+
+      const atuais = await tx
+        .select()
+        .from(consultas)
+        .where(and(
+          eq(consultas.clinicaId, dados.clinicaId),
+          inArray(consultas.id, dados.itens.map(i => i.consultaId))
+        ));
+      const porId = new Map(atuais.map(c => [c.id, c]));
+
+      const conflitos: ConflitoRemarcacao[] = [];
+      const validados: Array<ItemRemarcacao & { consulta: typeof atuais[number]; recursoIds: number[] }> = [];
+
+      for (const [indice, item] of dados.itens.entries()) {
+        const consulta = porId.get(item.consultaId);
+        if (!consulta) {
+          conflitos.push({ consultaId: item.consultaId, erro: 'Consulta não encontrada' });
+          continue;
+        }
+        if (!(ESTADOS_REMARCAVEIS as readonly string[]).includes(consulta.estado)) {
+          conflitos.push({ consultaId: item.consultaId, erro: 'A consulta já não pode ser remarcada' });
+          continue;
+        }
+        if (item.horaFim <= item.horaInicio) {
+          conflitos.push({ consultaId: item.consultaId, erro: 'A hora de fim deve ser posterior à hora de início' });
+          continue;
+        }
+
+        // Conflitos entre as próprias consultas remarcadas
+        const anterior = dados.itens.slice(0, indice).find(outro => {
+          const outraConsulta = porId.get(outro.consultaId);
+          return sobrepoe(outro, item) && (
+            outro.dentistaId === item.dentistaId || outraConsulta?.utenteId === consulta.utenteId
+          );
+        });
+        if (anterior) {
+          conflitos.push({
+            consultaId: item.consultaId,
+            erro: `O novo horário sobrepõe-se ao da consulta ${anterior.consultaId}, também remarcada`,
+          });
+          continue;
+        }
+
+        const validacao = await validarAgendamentoCompleto({
+          clinicaId: dados.clinicaId,
+          dentistaId: item.dentistaId,
+          utenteId: consulta.utenteId,
+          horaInicio: item.horaInicio,
+          horaFim: item.horaFim,
+          consultaIdExcluir: consulta.id,
+          procedimentoId: consulta.procedimentoId,
+          recursosPreferidos: await obterRecursosConsulta(consulta.id, tx),
+        }, tx);
+        if (!validacao.valido) {
+          conflitos.push({ consultaId: item.consultaId, erro: validacao.erro ?? 'Conflito de agendamento' });
+          continue;
+        }
+
+        validados.push({ ...item, consulta, recursoIds: validacao.recursoIds ?? [] });
+      }
+
+      if (conflitos.length > 0) {
+        return { remarcacoes: [] as RemarcacaoConsulta[], conflitos };
+      }
+
+      const registos: RemarcacaoConsulta[] = [];
+
+      for (const item of validados) {
+        const { consulta } = item;
+        const campos = {
+          dentistaId: item.dentistaId,
+          horaInicio: item.horaInicio,
+          horaFim: item.horaFim,
+        };
+
+        // Uma consulta confirmada volta a "agendada": o utente confirmou a hora antiga
+        if (consulta.estado === 'confirmada') {
+          await transicionarEstadoConsulta(tx, {
+            consulta,
+            estado: 'agendada',
+            papel,
+            userId: dados.user.id,
+            motivo: motivo ? `Remarcada: ${motivo}` : 'Remarcada',
+            campos,
+          });
+        } else {
+          const atualizadas = await tx
+            .update(consultas)
+            .set({ ...campos, updatedAt: new Date() })
+            .where(and(eq(consultas.id, consulta.id), eq(consultas.estado, consulta.estado)))
+            .returning({ id: consultas.id });
+          if (atualizadas.length === 0) {
+            throw new Error('A consulta foi alterada entretanto. Atualize a agenda e tente novamente.');
+          }
+        }
+
+        await atribuirRecursosConsulta(tx, consulta.id, item.recursoIds);
+
+        const [registo] = await tx
+          .insert(remarcacoesConsulta)
+          .values({
+            clinicaId: dados.clinicaId,
+            consultaId: consulta.id,
+            utenteId: consulta.utenteId,
+            lote,
+            motivo,
+            dentistaAnteriorId: consulta.dentistaId,
+            horaInicioAnterior: consulta.horaInicio,
+            horaFimAnterior: consulta.horaFim,
+            dentistaNovoId: item.dentistaId,
+            horaInicioNova: item.horaInicio,
+            horaFimNova: item.horaFim,
+            aplicadaPor: dados.user.id,
+          })
+          .returning();
+        registos.push(registo);
+      }
+
+      return { remarcacoes: registos, conflitos };
+    });
+
+    if (conflitos.length > 0) {
+      return { success: false, lote: null, remarcadas: 0, avisados: 0, conflitos };
+    }
+
+    await notificarSalaEspera(dados.clinicaId);
+
+    let avisados = 0;
+    if (dados.notificarUtentes !== false) {
+      for (const remarcacao of remarcacoes) {
+        try {
+          if (await this.avisarUtente(remarcacao)) avisados++;
+        } catch (error) {
+          console.error(`[Remarcação] Erro ao avisar utente da consulta ${remarcacao.consultaId}:`, error);
+        }
+      }
+    }
+
+    return { success: true, lote, remarcadas: remarcacoes.length, avisados, conflitos };
+  }
+
+  /**
+   * Listar remarcações da clínica (mais recentes primeiro), com a resposta dos utentes
+   */
+  static async listarRemarcacoes(dados: {
+    clinicaId: number;
+    lote?: string;
+    estado?: RemarcacaoConsulta['estado'];
+  }) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const conditions = [eq(remarcacoesConsulta.clinicaId, dados.clinicaId)];
+    if (dados.lote) conditions.push(eq(remarcacoesConsulta.lote, dados.lote));
+    if (dados.estado) conditions.push(eq(remarcacoesConsulta.estado, dados.estado));
+
+    return await db
+      .select({
+        remarcacao: remarcacoesConsulta,
+        utente: { id: utentes.id, nome: utentes.nome, telemovel: utentes.telemovel },
+      })
+      .from(remarcacoesConsulta)
+      .innerJoin(utentes, eq(remarcacoesConsulta.utenteId, utentes.id))
+      .where(and(...conditions))
+      .orderBy(desc(remarcacoesConsulta.createdAt), remarcacoesConsulta.horaInicioNova)
+      .limit(500);
+  }
+
+  /**
+   * Processar resposta de um utente (WhatsApp ou SMS) a um aviso de remarcação
+   * SIM confirma a nova hora; NAO não cancela a consulta: fica agendada (por confirmar) até a receção
+   * combinar outra hora com o utente, e a equipa da clínica é avisada
+   * Devolve tratada=false se a mensagem não for resposta a uma remarcação pendente
+   */
+  static async processarResposta(telefone: string, texto: string): Promise<{
+    tratada: boolean;
+    estado?: 'aceite' | 'recusada';
+  }> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const resposta = texto
+      .trim()
+      .toUpperCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '');
+    const aceita = /^(SIM|S|ACEITO)\b/.test(resposta);
+    const recusa = /^(NAO|N)\b/.test(resposta);
+    if (!aceita && !recusa) return { tratada: false };
+
+    const utentesTelefone = await db
+      .select()
+      .from(utentes)
+      .where(inArray(utentes.telemovel, variantesNumeroTelefone(telefone)));
+    if (utentesTelefone.length === 0) return { tratada: false };
+
+    const [remarcacao] = await db
+      .select()
+      .from(remarcacoesConsulta)
+      .where(and(
+        inArray(remarcacoesConsulta.utenteId, utentesTelefone.map(u => u.id)),
+        eq(remarcacoesConsulta.estado, 'pendente'),
+        isNotNull(remarcacoesConsulta.notificadaEm),
+        gt(remarcacoesConsulta.horaInicioNova, new Date())
+      ))
+      .orderBy(desc(remarcacoesConsulta.notificadaEm))
+      .limit(1);
+    if (!remarcacao) return { tratada: false };
+
+    // A consulta pode ter sido alterada pela receção depois do aviso
+    const [consulta] = await db
+      .select()
+      .from(consultas)
+      .where(eq(consultas.id, remarcacao.consultaId))
+      .limit(1);
+    if (
+      !consulta ||
+      !(ESTADOS_REMARCAVEIS as readonly string[]).includes(consulta.estado) ||
+      consulta.horaInicio.getTime() !== remarcacao.horaInicioNova.getTime()
+    ) {
+      return { tratada: false };
+    }
+
+    const utente = utentesTelefone.find(u => u.id === remarcacao.utenteId)!;
+    const estado = aceita ? 'aceite' : 'recusada';
+
+    const respondida = await db.transaction(async tx => {
+      // Só a primeira resposta conta: uma resposta repetida já não encontra a remarcação pendente
+      const [atualizada] = await tx
+        .update(remarcacoesConsulta)
+        .set({ estado, respondidaEm: new Date() })
+        .where(and(
+          eq(remarcacoesConsulta.id, remarcacao.id),
+          eq(remarcacoesConsulta.estado, 'pendente')
+        ))
+        .returning({ id: remarcacoesConsulta.id });
+      if (!atualizada) return false;
+
+      if (aceita && consulta.estado === 'agendada') {
+        await transicionarEstadoConsulta(tx, {
+          consulta,
+          estado: 'confirmada',
+          papel: 'sistema',
+          userId: null,
+          motivo: 'Remarcação aceite pelo utente',
+        });
+      }
+      return true;
+    });
+    if (!respondida) return { tratada: false };
+
+    const fuso = await obterFusoClinica(consulta.clinicaId);
+    const data = formatarDataExtenso(remarcacao.horaInicioNova, fuso);
+    const hora = formatarHora(remarcacao.horaInicioNova, fuso);
+
+    if (recusa) {
+      await this.avisarRececao(remarcacao, utente, `${data} às ${hora}`);
+      await this.enviarMensagem(
+        utente,
+        `Lamentamos o incómodo. A clínica vai contactá-lo para combinar outra data para a sua consulta. ` +
+          `Até lá, a marcação de ${data} às ${hora} mantém-se reservada.`
+      );
+    } else {
+      await notificarSalaEspera(consulta.clinicaId);
+      await this.enviarMensagem(utente, `Obrigado! A sua consulta de ${data} às ${hora} está confirmada. Até breve!`);
+    }
+
+    return { tratada: true, estado };
+  }
+
+  /**
+   * Avisar a equipa da clínica de que um utente não aceitou a nova hora e a consulta tem de ser remarcada
+   */
+  private static async avisarRececao(
+    remarcacao: RemarcacaoConsulta,
+    utente: { id: number; nome: string; telemovel: string },
+    novaHora: string
+  ) {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const destinatarios = await destinatariosClinica(db, remarcacao.clinicaId);
+    if (destinatarios.length === 0) return;
+
+    await db.insert(notificacoes).values(
+      destinatarios.map(userId => ({
+        userId,
+        clinicaId: remarcacao.clinicaId,
+        tipo: 'remarcacao_recusada',
+        titulo: `Remarcação recusada: ${utente.nome}`,
+        mensagem: `${utente.nome} (${utente.telemovel}) não pode comparecer em ${novaHora}. ` +
+          'A consulta continua agendada nessa hora até ser remarcada.',
+        link: `/utentes/${utente.id}`,
+        icone: 'CalendarX',
+        cor: 'orange',
+      }))
+    );
+  }
+
+  /**
+   * Avisar o utente da nova hora; devolve true se a mensagem foi enviada
+   */
+  private static async avisarUtente(remarcacao: RemarcacaoConsulta): Promise<boolean> {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+
+    const [utente] = await db.select().from(utentes).where(eq(utentes.id, remarcacao.utenteId)).limit(1);
+    if (!utente?.telemovel) return false;
+
+    const [clinica] = await db.select().from(clinicas).where(eq(clinicas.id, remarcacao.clinicaId)).limit(1);
+    const [dentista] = await db
+      .select({ nome: dentistas.nome })
+      .from(dentistas)
+      .where(eq(dentistas.id, remarcacao.dentistaNovoId))
+      .limit(1);
+
+    const fuso = await obterFusoClinica(remarcacao.clinicaId);
+    const comDentista = remarcacao.dentistaNovoId !== remarcacao.dentistaAnteriorId && dentista
+      ? ` com ${dentista.nome}`
+      : '';
+
+    const mensagem = `Olá ${utente.nome}! Por indisponibilidade do médico dentista, a sua consulta na ` +
+      `${clinica?.nome || 'Clínica'} de ${formatarDataExtenso(remarcacao.horaInicioAnterior, fuso)} às ` +
+      `${formatarHora(remarcacao.horaInicioAnterior, fuso)} passou para ${formatarDataExtenso(remarcacao.horaInicioNova, fuso)} ` +
+      `às ${formatarHora(remarcacao.horaInicioNova, fuso)}${comDentista}. ` +
+      `Responda SIM para confirmar ou NAO se não puder comparecer (a clínica contacta-o para combinar outra data).`;
+
+    const canal = await this.enviarMensagem(utente, mensagem);
+    if (!canal) return false;
+
+    await db
+      .update(remarcacoesConsulta)
+      .set({ canalNotificacao: canal, notificadaEm: new Date() })
+      .where(eq(remarcacoesConsulta.id, remarcacao.id));
+
+    return true;
+  }
+
+  /**
+   * Enviar mensagem por WhatsApp (se configurado) ou SMS
+   * Devolve o canal usado, ou null se nenhum envio teve sucesso
+   */
+  private static async enviarMensagem(
+    utente: { id: number; clinicaId: number; telemovel: string },
+    mensagem: string
+  ): Promise<'whatsapp' | 'sms' | null> {
+    if (whatsappService.isConfigured()) {
+      const resultado = await whatsappService.sendTextMessage(utente.telemovel, mensagem, utente.clinicaId, utente.id);
+      if (resultado.success) return 'whatsapp';
+    }
+
+    const resultado = await enviarSMS({
+      para: utente.telemovel,
+      mensagem,
+      utenteId: utente.id,
+      clinicaId: utente.clinicaId,
+      tipo: 'remarcacao',
+    });
+    return resultado.success ? 'sms' : null;
+  }
+}
@@ -1,6 +1,14 @@
 import { getDb } from "./db";
-import { consultas, utentes, dentistas, clinicas, mensagensUtente, faturas } from "../drizzle/schema";
-import { eq, and, gte, lte, lt } from "drizzle-orm";
+import { consultas, utentes, dentistas, clinicas, mensagensUtente } from "../drizzle/schema";
+import { planosPagamento, prestacoesPlano } from "../drizzle/schema-faturacao";
+import { eq, and, gte, lte, inArray } from "drizzle-orm";
+import {
+  FUSO_PADRAO,
+  adicionarDiasChave,
+  chaveDia,
+  fusoValido,
+  formatarHora,
+} from "./fuso-horario";
 
 /**
  * Servico de Lembretes Automaticos - MULTI-TENANT
@@ -15,7 +23,7 @@ import { eq, and, gte, lte, lt } from "drizzle-orm";
  * Funcionalidades:
  * - Lembretes de consultas (24h antes)
  * - Lembretes de confirmacao (48h antes)
- * - Lembretes de pagamento (faturas vencidas)
+ * - Lembretes de prestacoes dos planos de pagamento (antes do vencimento e em atraso)
  * - Integracao com SMS, Email e WhatsApp
  */
 
@@ -44,7 +52,8 @@ export interface ReminderResult {
 export class ConsultaReminderService {
   /**
    * Processar lembretes de consultas
-   * Envia 24h antes da consulta
+   * Envia para as consultas do dia local (no fuso de cada clinica) que fica a
+   * `antecedenciaHoras` de agora: com 24h e o job das 09:00, todas as consultas de amanha
    * 
    * MULTI-TENANT: Processa todas as clinicas ou uma especifica
    */
@@ -54,12 +63,13 @@ export class ConsultaReminderService {
       return { total: 0, enviados: 0, falhados: 0, detalhes: [] };
     }
 
-    // Obter consultas nas proximas X horas
+    // Dia alvo de cada clinica; a pesquisa cobre o dia em qualquer fuso suportado (margem de 36h)
     const agora = new Date();
-    const dataInicio = new Date(agora.getTime() + config.antecedenciaHoras * 60 * 60 * 1000);
-    const dataFim = new Date(dataInicio.getTime() + 60 * 60 * 1000); // Janela de 1 hora
+    const alvo = new Date(agora.getTime() + config.antecedenciaHoras * 60 * 60 * 1000);
+    const dataInicio = new Date(alvo.getTime() - 36 * 60 * 60 * 1000);
+    const dataFim = new Date(alvo.getTime() + 36 * 60 * 60 * 1000);
 
-    const consultasParaLembrar = await db
+    const candidatas = await db
       .select({
         consultaId: consultas.id,
         consultaHora: consultas.horaInicio,
@@ -81,6 +91,7 @@ export class ConsultaReminderService {
         clinicaCodigoPostal: clinicas.codigoPostal,
         clinicaPais: clinicas.pais,
         clinicaLogoUrl: clinicas.logoUrl,
+        clinicaFusoHorario: clinicas.fusoHorario,
       })
       .from(consultas)
       .innerJoin(utentes, eq(consultas.utenteId, utentes.id))
@@ -96,6 +107,11 @@ export class ConsultaReminderService {
         )
       );
 
+    const consultasParaLembrar = candidatas.filter(consulta => {
+      const fuso = fusoValido(consulta.clinicaFusoHorario) ? consulta.clinicaFusoHorario : FUSO_PADRAO;
+      return consulta.consultaHora > agora && chaveDia(consulta.consultaHora, fuso) === chaveDia(alvo, fuso);
+    });
+
     const resultado: ReminderResult = {
       total: consultasParaLembrar.length,
       enviados: 0,
@@ -195,17 +211,17 @@ export class ConsultaReminderService {
    * USA DADOS DINAMICOS DA CLINICA
    */
   private static formatarMensagemConsulta(dados: any) {
+    const fuso = fusoValido(dados.clinicaFusoHorario) ? dados.clinicaFusoHorario : FUSO_PADRAO;
+
     const dataFormatada = new Date(dados.consultaHora).toLocaleDateString("pt-PT", {
       weekday: "long",
       year: "numeric",
       month: "long",
       day: "numeric",
+      timeZone: fuso,
     });
 
-    const horaFormatada = new Date(dados.consultaHora).toLocaleTimeString("pt-PT", {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+    const horaFormatada = formatarHora(new Date(dados.consultaHora), fuso);
 
     // Montar morada completa da clinica
     const moradaCompleta = [
@@ -338,118 +354,148 @@ Para remarcar: ${dados.clinicaTelemovel || dados.clinicaEmail || ""}`;
 
 /**
  * LEMBRETES DE PAGAMENTO
+ * Faturas vencidas: escala de cobranca de cada clinica (cobrancas.ts)
  */
 export class PaymentReminderService {
+  private static readonly DIAS_AVISO_PRESTACAO = 3;
+  private static readonly DIAS_ENTRE_LEMBRETES = 7;
+
   /**
-   * Processar lembretes de faturas vencidas
-   * USA DADOS DINAMICOS DA CLINICA
+   * Processar lembretes de prestacoes dos planos de pagamento
+   * - Aviso DIAS_AVISO_PRESTACAO dias antes do vencimento
+   * - Prestacoes vencidas: no dia seguinte ao vencimento e depois a cada DIAS_ENTRE_LEMBRETES dias
+   * As datas sao dias de calendario no fuso de cada clinica
    */
-  static async processarLembretesPagamento(clinicaId?: number): Promise<ReminderResult> {
+  static async processarLembretesPrestacoes(clinicaId?: number): Promise<ReminderResult> {
     const db = await getDb();
     if (!db) {
       return { total: 0, enviados: 0, falhados: 0, detalhes: [] };
     }
 
-    // Obter faturas vencidas
-    const hoje = new Date();
-    
-    const faturasVencidas = await db
+    // Nenhum fuso suportado esta a frente de UTC+1
+    const limite = adicionarDiasChave(new Date().toISOString().slice(0, 10), this.DIAS_AVISO_PRESTACAO + 1);
+
+    const candidatas = await db
       .select({
-        faturaId: faturas.id,
-        numeroFatura: faturas.numeroFatura,
-        valorTotal: faturas.valorTotal,
-        valorPago: faturas.valorPago,
-        dataVencimento: faturas.dataVencimento,
+        prestacaoId: prestacoesPlano.id,
+        numero: prestacoesPlano.numero,
+        valor: prestacoesPlano.valor,
+        valorPago: prestacoesPlano.valorPago,
+        dataVencimento: prestacoesPlano.dataVencimento,
+        estado: prestacoesPlano.estado,
+        ultimoLembrete: prestacoesPlano.ultimoLembrete,
+        lembretesEnviados: prestacoesPlano.lembretesEnviados,
+        planoDescricao: planosPagamento.descricao,
+        numeroPrestacoes: planosPagamento.numeroPrestacoes,
         // Dados do utente
-        utenteId: utentes.id,
         utenteNome: utentes.nome,
         utenteEmail: utentes.email,
-        utenteTelemovel: utentes.telemovel,
         // Dados da clinica (DINAMICOS!)
-        clinicaId: clinicas.id,
         clinicaNome: clinicas.nome,
         clinicaEmail: clinicas.email,
         clinicaTelemovel: clinicas.telemovel,
-        clinicaMorada: clinicas.morada,
+        clinicaFusoHorario: clinicas.fusoHorario,
       })
-      .from(faturas)
-      .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
-      .innerJoin(clinicas, eq(faturas.clinicaId, clinicas.id))
+      .from(prestacoesPlano)
+      .innerJoin(planosPagamento, eq(prestacoesPlano.planoId, planosPagamento.id))
+      .innerJoin(utentes, eq(planosPagamento.utenteId, utentes.id))
+      .innerJoin(clinicas, eq(planosPagamento.clinicaId, clinicas.id))
       .where(
         and(
-          lt(faturas.dataVencimento, hoje),
-          eq(faturas.estado, "enviada"),
+          eq(planosPagamento.estado, "ativo"),
+          inArray(prestacoesPlano.estado, ["pendente", "parcialmente_paga", "vencida"]),
+          lte(prestacoesPlano.dataVencimento, limite),
           eq(clinicas.ativo, true),
-          clinicaId ? eq(faturas.clinicaId, clinicaId) : undefined
+          clinicaId ? eq(planosPagamento.clinicaId, clinicaId) : undefined
         )
       );
 
+    const agora = new Date();
+    const aEnviar = candidatas.filter((prestacao) => {
+      const fuso = fusoValido(prestacao.clinicaFusoHorario) ? prestacao.clinicaFusoHorario : FUSO_PADRAO;
+      const hoje = chaveDia(agora, fuso);
+
+      if (prestacao.dataVencimento >= hoje) {
+        return (
+          prestacao.dataVencimento === adicionarDiasChave(hoje, this.DIAS_AVISO_PRESTACAO) &&
+          !prestacao.ultimoLembrete
+        );
+      }
+
+      return (
+        !prestacao.ultimoLembrete ||
+        chaveDia(prestacao.ultimoLembrete, fuso) <= adicionarDiasChave(hoje, -this.DIAS_ENTRE_LEMBRETES) ||
+        chaveDia(prestacao.ultimoLembrete, fuso) <= prestacao.dataVencimento
+      );
+    });
+
     const resultado: ReminderResult = {
-      total: faturasVencidas.length,
+      total: aEnviar.length,
       enviados: 0,
       falhados: 0,
       detalhes: [],
     };
 
-    for (const fatura of faturasVencidas) {
-      const valorPendente = parseFloat(fatura.valorTotal) - parseFloat(fatura.valorPago);
-      const diasVencido = Math.floor(
-        (hoje.getTime() - new Date(fatura.dataVencimento!).getTime()) / (1000 * 60 * 60 * 24)
-      );
+    for (const prestacao of aEnviar) {
+      if (!prestacao.utenteEmail) continue;
 
-      const mensagens = this.formatarMensagemPagamento({
-        ...fatura,
-        valorPendente,
-        diasVencido,
-      });
+      const fuso = fusoValido(prestacao.clinicaFusoHorario) ? prestacao.clinicaFusoHorario : FUSO_PADRAO;
+      const emAtraso = prestacao.dataVencimento < chaveDia(agora, fuso);
 
-      // Enviar por email
-      if (fatura.utenteEmail) {
-        const sucesso = await ConsultaReminderService["enviarEmail"](
-          fatura.utenteEmail,
-          `Lembrete de Pagamento - ${fatura.clinicaNome}`,
-          mensagens.email
-        );
-
-        if (sucesso) {
-          resultado.enviados++;
-        } else {
-          resultado.falhados++;
-        }
+      const sucesso = await ConsultaReminderService["enviarEmail"](
+        prestacao.utenteEmail,
+        `${emAtraso ? "Prestacao em atraso" : "Lembrete de prestacao"} - ${prestacao.clinicaNome}`,
+        this.formatarMensagemPrestacao({
+          ...prestacao,
+          valorPendente: parseFloat(prestacao.valor) - parseFloat(prestacao.valorPago),
+          emAtraso,
+        })
+      );
 
-        resultado.detalhes.push({
-          tipo: "email",
-          destinatario: fatura.utenteEmail,
-          clinica: fatura.clinicaNome,
-          sucesso,
-        });
+      if (sucesso) {
+        resultado.enviados++;
+        await db
+          .update(prestacoesPlano)
+          .set({
+            ultimoLembrete: agora,
+            lembretesEnviados: prestacao.lembretesEnviados + 1,
+          })
+          .where(eq(prestacoesPlano.id, prestacao.prestacaoId));
+      } else {
+        resultado.falhados++;
       }
+
+      resultado.detalhes.push({
+        tipo: "email",
+        destinatario: prestacao.utenteEmail,
+        clinica: prestacao.clinicaNome,
+        sucesso,
+      });
     }
 
     return resultado;
   }
 
   /**
-   * Formatar mensagem de lembrete de pagamento
-   * USA DADOS DINAMICOS DA CLINICA
+   * Formatar mensagem de lembrete de prestacao
    */
-  private static formatarMensagemPagamento(dados: any) {
-    const email = `
-Ola ${dados.utenteNome},
+  private static formatarMensagemPrestacao(dados: any) {
+    const [ano, mes, dia] = dados.dataVencimento.split("-");
+    const prestacao = dados.numero === 0 ? "Entrada" : `Prestacao ${dados.numero}/${dados.numeroPrestacoes}`;
 
-Este e um lembrete de pagamento da ${dados.clinicaNome}.
+    return `
+Ola ${dados.utenteNome},
 
-Fatura: ${dados.numeroFatura}
-💰 Valor Pendente: €${dados.valorPendente.toFixed(2)}
-📅 Vencimento: ${new Date(dados.dataVencimento).toLocaleDateString("pt-PT")}
-⚠️ Vencida ha ${dados.diasVencido} dia(s)
+${dados.emAtraso
+  ? `A seguinte prestacao do seu plano de pagamento na ${dados.clinicaNome} encontra-se em atraso.`
+  : `Lembramos que se aproxima o vencimento de uma prestacao do seu plano de pagamento na ${dados.clinicaNome}.`}
 
-Por favor, regularize o pagamento o mais breve possivel.
+Plano: ${dados.planoDescricao}
+${prestacao}
+💰 Valor: €${dados.valorPendente.toFixed(2)}
+📅 Vencimento: ${dia}/${mes}/${ano}
 
-Metodos de pagamento disponiveis:
-• Multibanco
-• MB WAY
-• Transferencia bancaria
+${dados.emAtraso ? "Por favor, regularize o pagamento o mais breve possivel." : "Obrigado pela sua pontualidade."}
 
 Para mais informacoes, contacte-nos:
 ${dados.clinicaTelemovel ? `📞 ${dados.clinicaTelemovel}` : ""}
@@ -458,8 +504,6 @@ ${dados.clinicaEmail ? `📧 ${dados.clinicaEmail}` : ""}
 Obrigado,
 ${dados.clinicaNome}
     `.trim();
-
-    return { email };
   }
 }
 
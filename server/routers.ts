@@ -9,6 +9,10 @@ import * as notificacoes from "./notificacoes";
 import * as relatorios from "./relatorios";
 import * as stripeService from "./stripe-service";
 import * as validacoesAgenda from "./validacoes-agenda";
+import * as seriesConsultas from "./series-consultas";
+import * as recursosAgenda from "./recursos-agenda";
+import * as estadosConsulta from "./estados-consulta";
+import { FUSOS_HORARIOS, limparCacheFuso } from "./fuso-horario";
 import { aiAssistantRouter } from "./routers/ai-assistant";
 import { contabilidadeRouter } from "./routers/contabilidade";
 import { lembretesConfigRouter } from "./routers/lembretes-config";
@@ -18,6 +22,33 @@ import { notasRouter } from "./routers/notas";
 import { prescricoesRouter } from "./routers/prescricoes";
 import { whatsappRouter } from "./routers/whatsapp";
 import { notificacoesSistemaRouter } from "./routers/notificacoes-sistema";
+import { horariosRouter } from "./routers/horarios";
+import { listaEsperaRouter } from "./routers/lista-espera";
+import { recursosRouter } from "./routers/recursos";
+import { marcacaoOnlineRouter } from "./routers/marcacao-online";
+import { feedsCalendarioRouter } from "./routers/feeds-calendario";
+import { salaEsperaRouter } from "./routers/sala-espera";
+import { notificarSalaEspera } from "./sala-espera";
+import { remarcacoesRouter } from "./routers/remarcacoes";
+import { notasCreditoRouter } from "./routers/notas-credito";
+import { emitirFatura } from "./faturas";
+import { emitirFaturaComAcordo } from "./seguradoras";
+import { dadosImpressao, impostoLinha, resumoIVA, totaisDocumento } from "./documentos-fiscais";
+import { seriesDocumentosRouter } from "./routers/series-documentos";
+import { documentosPdfRouter } from "./routers/documentos-pdf";
+import { contaCorrenteRouter } from "./routers/conta-corrente";
+import { lancarRecebimento } from "./conta-corrente";
+import { planosPagamentoRouter } from "./routers/planos-pagamento";
+import { multibancoRouter } from "./routers/multibanco";
+import { extratosBancariosRouter } from "./routers/extratos-bancarios";
+import { comissoesRouter } from "./routers/comissoes";
+import { seguradorasRouter } from "./routers/seguradoras";
+import { chequesDentistaRouter } from "./routers/cheques-dentista";
+import { planosTratamentoRouter } from "./routers/planos-tratamento";
+import { cobrancasRouter } from "./routers/cobrancas";
+import { previsaoRecebimentosPlanos } from "./planos-pagamento";
+import { gerarPdfAntiguidadeSaldos } from "./documentos-pdf";
+import { ListaEsperaService } from "./lista-espera-service";
 import { biRouter } from "./routes/bi";
 import { pagamentosRouter } from "./routes/pagamentos";
 import { notificacoesRouter } from "./routes/notificacoes";
@@ -51,12 +82,40 @@ import { eq, and, desc } from "drizzle-orm";
  * - utentes: Gestão de utentes (pacientes)
  * - dentistas: Gestão de dentistas
  * - consultas: Agendamento e consultas
+ * - horarios: Horários da clínica, dos dentistas e exceções
+ * - listaEspera: Lista de espera e ofertas de vagas libertadas
+ * - recursos: Gabinetes, cadeiras e equipamentos
+ * - marcacaoOnline: Auto-marcação pública pelos utentes
+ * - feedsCalendario: Feeds ICS de subscrição da agenda
+ * - salaEspera: Check-in, fila da sala de espera e chamada de utentes
+ * - remarcacoes: Remarcação em bloco quando um dentista fica indisponível
  * - procedimentos: Procedimentos e categorias
  * - faturas: Faturação e pagamentos
+ * - notasCredito: Notas de crédito sobre faturas emitidas
+ * - seriesDocumentos: Séries de documentos comunicadas à AT (ATCUD)
+ * - documentosPdf: PDF de faturas, notas de crédito e recibos (download e envio)
+ * - contaCorrente: Conta corrente do utente (recebimentos, crédito e extrato)
+ * - planosPagamento: Planos de pagamento em prestações
+ * - multibanco: Referências Multibanco e conciliação dos pagamentos
+ * - extratosBancarios: Extratos bancários e conciliação de transferências e MB WAY
+ * - comissoes: Comissões dos dentistas e liquidações mensais
+ * - seguradoras: Seguradoras e acordos, apólices e lotes de faturação às entidades
+ * - chequesDentista: Cheques-dentista do SNS e reembolso mensal
+ * - planosTratamento: Planos de tratamento (orçamentos ao utente), aceitação e faturação
+ * - cobrancas: Cobrança de faturas vencidas (escala de passos, tarefas e link de pagamento)
  * - saas: Planos, assinaturas e métricas
  * - dashboard: Estatísticas e relatórios
  */
 
+// Filtros do relatório de antiguidade de saldos (dentistaId null = linhas sem dentista)
+const filtrosAntiguidade = {
+  utenteId: z.number().optional(),
+  dentistaId: z.number().nullable().optional(),
+  pagador: z.enum(["utente", "entidade"]).optional(),
+  entidadeId: z.number().optional(),
+  escalao: z.enum(["corrente", "de1a30", "de31a60", "de61a90", "mais90"]).optional(),
+};
+
 export const appRouter = router({
   system: systemRouter,
   
@@ -98,6 +157,7 @@ export const appRouter = router({
         cidade: z.string().optional(),
         codigoPostal: z.string().optional(),
         pais: z.string().default("PT"),
+        fusoHorario: z.enum(FUSOS_HORARIOS).optional(),
         nif: z.string().optional(),
       }))
       .mutation(async ({ input, ctx }) => {
@@ -124,6 +184,7 @@ export const appRouter = router({
         codigoPostal: z.string().optional(),
         nif: z.string().optional(),
         logoUrl: z.string().optional(),
+        fusoHorario: z.enum(FUSOS_HORARIOS).optional(),
       }))
       .mutation(async ({ input }) => {
         const database = await getDb();
@@ -135,6 +196,8 @@ export const appRouter = router({
           .set({ ...data, updatedAt: new Date() })
           .where(eq(clinicas.id, clinicaId));
 
+        limparCacheFuso(clinicaId);
+
         return { success: true };
       }),
   }),
@@ -184,18 +247,7 @@ export const appRouter = router({
         if (!database) throw new Error("Database not available");
 
         // Gerar número de utente automático
-        const ultimoUtente = await database
-          .select()
-          .from(utentes)
-          .where(eq(utentes.clinicaId, input.clinicaId))
-          .orderBy(desc(utentes.id))
-          .limit(1);
-
-        const proximoNumero = ultimoUtente.length > 0 
-          ? parseInt(ultimoUtente[0].numeroUtente.replace(/\D/g, '')) + 1 
-          : 1;
-        
-        const numeroUtente = `UT${proximoNumero.toString().padStart(6, '0')}`;
+        const numeroUtente = await db.gerarNumeroUtente(input.clinicaId);
 
         const [result] = await database.insert(utentes).values({
           clinicaId: input.clinicaId,
@@ -416,6 +468,9 @@ export const appRouter = router({
         nome: z.string().min(2),
         descricao: z.string().optional(),
         precoBase: z.string(),
+        taxaIVA: z.string().default("0"),
+        motivoIsencao: z.string().regex(/^M\d{2}$/).optional(), // Só para taxa 0 (por omissão M07)
+        abrangidoChequeDentista: z.boolean().default(false),
         duracaoMinutos: z.number().default(30),
         cor: z.string().optional(),
       }))
@@ -423,7 +478,11 @@ export const appRouter = router({
         const database = await getDb();
         if (!database) throw new Error("Database not available");
 
-        const [result] = await database.insert(procedimentos).values(input).returning();
+        const imposto = impostoLinha(parseFloat(input.taxaIVA), input.motivoIsencao);
+        const [result] = await database
+          .insert(procedimentos)
+          .values({ ...input, motivoIsencao: imposto.motivoIsencao })
+          .returning();
 
         return { id: result.id, success: true };
       }),
@@ -455,6 +514,9 @@ export const appRouter = router({
         nome: z.string().min(2).optional(),
         descricao: z.string().optional(),
         precoBase: z.string().optional(),
+        taxaIVA: z.string().optional(),
+        motivoIsencao: z.string().regex(/^M\d{2}$/).optional(),
+        abrangidoChequeDentista: z.boolean().optional(),
         duracaoMinutos: z.number().optional(),
         cor: z.string().optional(),
         ativo: z.boolean().optional(),
@@ -464,9 +526,13 @@ export const appRouter = router({
         if (!database) throw new Error("Database not available");
 
         const { id, clinicaId, ...data } = input;
+        const imposto = data.taxaIVA !== undefined
+          ? impostoLinha(parseFloat(data.taxaIVA), data.motivoIsencao)
+          : undefined;
+
         await database
           .update(procedimentos)
-          .set({ ...data, updatedAt: new Date() })
+          .set({ ...data, ...(imposto && { motivoIsencao: imposto.motivoIsencao }), updatedAt: new Date() })
           .where(and(
             eq(procedimentos.id, id),
             eq(procedimentos.clinicaId, clinicaId)
@@ -564,7 +630,7 @@ export const appRouter = router({
         return await db.getConsultaById(input.consultaId, input.clinicaId);
       }),
 
-    // Criar consulta
+    // Criar consulta (ou série recorrente, se for indicada uma regra de recorrência)
     criar: protectedProcedure
       .input(z.object({
         clinicaId: z.number(),
@@ -575,24 +641,66 @@ export const appRouter = router({
         horaFim: z.date(),
         titulo: z.string().optional(),
         observacoes: z.string().optional(),
+        recursoIds: z.array(z.number()).optional(),
+        recorrencia: seriesConsultas.regraRecorrenciaSchema.optional(),
+        ignorarConflitos: z.boolean().optional().default(false),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
+        if (input.recorrencia) {
+          const { recorrencia, ignorarConflitos, ...consulta } = input;
+          const resultado = await seriesConsultas.criarSerieConsultas({
+            ...consulta,
+            regra: recorrencia,
+            ignorarConflitos,
+            criadoPor: ctx.user.id,
+          });
+          return { id: resultado.ids[0] ?? null, ...resultado };
+        }
+
         const database = await getDb();
         if (!database) throw new Error("Database not available");
 
-        const [result] = await database.insert(consultas).values({
-          clinicaId: input.clinicaId,
-          utenteId: input.utenteId,
-          dentistaId: input.dentistaId,
-          procedimentoId: input.procedimentoId || null,
-          horaInicio: input.horaInicio,
-          horaFim: input.horaFim,
-          estado: "agendada",
-          titulo: input.titulo || null,
-          observacoes: input.observacoes || null,
-        }).returning();
+        const { consulta: result, recursoIds } = await database.transaction(async (tx) => {
+          // Mesmo bloqueio da marcação online e da lista de espera
+          await validacoesAgenda.bloquearAgenda(tx, [input]);
+
+          // Horário do dentista, conflitos (exceto se a receção os aceitar) e gabinetes, cadeiras
+          // e equipamentos necessários, com a agenda já bloqueada
+          const validacao = await validacoesAgenda.validarAgendamentoCompleto({
+            clinicaId: input.clinicaId,
+            dentistaId: input.dentistaId,
+            utenteId: input.utenteId,
+            horaInicio: input.horaInicio,
+            horaFim: input.horaFim,
+            procedimentoId: input.procedimentoId,
+            recursoIds: input.recursoIds,
+            config: {
+              verificarConflitoDentista: !input.ignorarConflitos,
+              verificarConflitoUtente: !input.ignorarConflitos,
+            },
+          }, tx);
+          if (!validacao.valido) throw new Error(validacao.erro);
+          const recursoIds = validacao.recursoIds ?? [];
+
+          const [consulta] = await tx.insert(consultas).values({
+            clinicaId: input.clinicaId,
+            utenteId: input.utenteId,
+            dentistaId: input.dentistaId,
+            procedimentoId: input.procedimentoId || null,
+            horaInicio: input.horaInicio,
+            horaFim: input.horaFim,
+            estado: "agendada",
+            titulo: input.titulo || null,
+            observacoes: input.observacoes || null,
+          }).returning();
+
+          await recursosAgenda.atribuirRecursosConsulta(tx, consulta.id, recursoIds);
+          return { consulta, recursoIds };
+        });
 
-        return { id: result.id, success: true };
+        await notificarSalaEspera(input.clinicaId);
+
+        return { id: result.id, recursoIds, success: true };
       }),
 
     // Atualizar consulta
@@ -605,35 +713,91 @@ export const appRouter = router({
         procedimentoId: z.number().optional(),
         horaInicio: z.date().optional(),
         horaFim: z.date().optional(),
-        estado: z.enum(["agendada", "confirmada", "em_curso", "concluida", "cancelada", "faltou"]).optional(),
+        estado: z.enum(["agendada", "confirmada", "chegou", "em_curso", "concluida", "cancelada", "faltou"]).optional(),
         titulo: z.string().optional(),
         observacoes: z.string().optional(),
         motivoCancelamento: z.string().optional(),
+        recursoIds: z.array(z.number()).optional(),
+        ignorarConflitos: z.boolean().optional().default(false),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const database = await getDb();
         if (!database) throw new Error("Database not available");
 
-        const { consultaId, clinicaId, ...data } = input;
-
-        // Atualizar timestamps baseado no estado
-        const updates: any = { ...data, updatedAt: new Date() };
-        
-        if (data.estado === "confirmada") {
-          updates.confirmadaEm = new Date();
-        } else if (data.estado === "concluida") {
-          updates.concluidaEm = new Date();
-        } else if (data.estado === "cancelada") {
-          updates.canceladaEm = new Date();
+        const { consultaId, clinicaId, recursoIds, estado, ignorarConflitos, ...data } = input;
+
+        const atual = (await db.getConsultaById(consultaId, clinicaId))?.consulta;
+        if (!atual) throw new Error("Consulta não encontrada");
+
+        // Mudança de estado: só transições permitidas ao papel do utilizador, registadas no histórico
+        const mudaEstado = estado !== undefined && estado !== atual.estado;
+        const papel = mudaEstado ? await estadosConsulta.obterPapelUtilizador(ctx.user, clinicaId) : null;
+
+        await database.transaction(async (tx) => {
+          // Alteração de horário, dentista, utente, procedimento ou recursos: bloquear a agenda de
+          // destino, validar de novo a marcação e reatribuir os recursos necessários
+          let novosRecursos: number[] | null = null;
+          if (data.horaInicio || data.horaFim || data.dentistaId || data.utenteId || data.procedimentoId || recursoIds) {
+            const dentistaId = data.dentistaId ?? atual.dentistaId;
+            const horaInicio = data.horaInicio ?? atual.horaInicio;
+            const horaFim = data.horaFim ?? atual.horaFim;
+            await validacoesAgenda.bloquearAgenda(tx, [{ dentistaId, horaInicio, horaFim }]);
+
+            const validacao = await validacoesAgenda.validarAgendamentoCompleto({
+              clinicaId,
+              dentistaId,
+              utenteId: data.utenteId ?? atual.utenteId,
+              horaInicio,
+              horaFim,
+              consultaIdExcluir: consultaId,
+              procedimentoId: data.procedimentoId ?? atual.procedimentoId,
+              recursoIds,
+              recursosPreferidos: recursoIds ? [] : await recursosAgenda.obterRecursosConsulta(consultaId, tx),
+              config: {
+                // Só uma nova hora tem de respeitar a antecedência mínima
+                verificarAntecedencia: !!data.horaInicio,
+                verificarConflitoDentista: !ignorarConflitos,
+                verificarConflitoUtente: !ignorarConflitos,
+              },
+            }, tx);
+            if (!validacao.valido) throw new Error(validacao.erro);
+            novosRecursos = validacao.recursoIds ?? [];
+          }
+
+          if (mudaEstado) {
+            await estadosConsulta.transicionarEstadoConsulta(tx, {
+              consulta: atual,
+              estado: estado!,
+              papel: papel!,
+              userId: ctx.user.id,
+              motivo: data.motivoCancelamento,
+              campos: data,
+            });
+          } else {
+            await tx
+              .update(consultas)
+              .set({ ...data, updatedAt: new Date() })
+              .where(and(
+                eq(consultas.id, consultaId),
+                eq(consultas.clinicaId, clinicaId)
+              ));
+          }
+
+          if (novosRecursos) {
+            await recursosAgenda.atribuirRecursosConsulta(tx, consultaId, novosRecursos);
+          }
+        });
+
+        if (mudaEstado || data.horaInicio || data.dentistaId) {
+          await notificarSalaEspera(clinicaId);
         }
 
-        await database
-          .update(consultas)
-          .set(updates)
-          .where(and(
-            eq(consultas.id, consultaId),
-            eq(consultas.clinicaId, clinicaId)
-          ));
+        // Vaga libertada: oferecer aos utentes em lista de espera
+        if (mudaEstado && (estado === "cancelada" || estado === "faltou")) {
+          ListaEsperaService.processarVagaLibertada(consultaId).catch(error =>
+            console.error("[LISTA ESPERA] Erro ao processar vaga libertada:", error)
+          );
+        }
 
         return { success: true };
       }),
@@ -645,26 +809,106 @@ export const appRouter = router({
         clinicaId: z.number(),
         motivo: z.string().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const database = await getDb();
         if (!database) throw new Error("Database not available");
 
-        await database
-          .update(consultas)
-          .set({
+        const atual = (await db.getConsultaById(input.consultaId, input.clinicaId))?.consulta;
+        if (!atual) throw new Error("Consulta não encontrada");
+
+        const papel = await estadosConsulta.obterPapelUtilizador(ctx.user, input.clinicaId);
+
+        await database.transaction(async (tx) => {
+          await estadosConsulta.transicionarEstadoConsulta(tx, {
+            consulta: atual,
             estado: "cancelada",
-            motivoCancelamento: input.motivo,
-            canceladaEm: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(and(
-            eq(consultas.id, input.consultaId),
-            eq(consultas.clinicaId, input.clinicaId)
-          ));
+            papel,
+            userId: ctx.user.id,
+            motivo: input.motivo,
+            campos: { motivoCancelamento: input.motivo },
+          });
+        });
+
+        await notificarSalaEspera(input.clinicaId);
+
+        // Vaga libertada: oferecer aos utentes em lista de espera
+        ListaEsperaService.processarVagaLibertada(input.consultaId).catch(error =>
+          console.error("[LISTA ESPERA] Erro ao processar vaga libertada:", error)
+        );
 
         return { success: true };
       }),
 
+    // Histórico de mudanças de estado e próximos estados possíveis para o utilizador
+    historicoEstados: protectedProcedure
+      .input(z.object({
+        consultaId: z.number(),
+        clinicaId: z.number(),
+      }))
+      .query(async ({ input, ctx }) => {
+        const atual = (await db.getConsultaById(input.consultaId, input.clinicaId))?.consulta;
+        if (!atual) throw new Error("Consulta não encontrada");
+
+        const papel = await estadosConsulta.obterPapelUtilizador(ctx.user, input.clinicaId);
+
+        return {
+          estado: atual.estado,
+          transicoesPossiveis: estadosConsulta.transicoesPossiveis(atual.estado, papel),
+          historico: await estadosConsulta.obterHistoricoEstados(input.consultaId, input.clinicaId),
+        };
+      }),
+
+    // Obter série recorrente e respetivas ocorrências
+    serie: protectedProcedure
+      .input(z.object({
+        serieId: z.number(),
+        clinicaId: z.number(),
+      }))
+      .query(async ({ input }) => {
+        return await seriesConsultas.obterSerieConsultas(input.serieId, input.clinicaId);
+      }),
+
+    // Editar ocorrência de uma série: só esta, esta e as seguintes, ou todas
+    atualizarSerie: protectedProcedure
+      .input(z.object({
+        consultaId: z.number(),
+        clinicaId: z.number(),
+        ambito: z.enum(["esta", "seguintes", "todas"]),
+        dentistaId: z.number().optional(),
+        procedimentoId: z.number().optional(),
+        horaInicio: z.date().optional(),
+        horaFim: z.date().optional(),
+        titulo: z.string().optional(),
+        observacoes: z.string().optional(),
+        ignorarConflitos: z.boolean().optional().default(false),
+      }))
+      .mutation(async ({ input }) => {
+        const { consultaId, clinicaId, ambito, ignorarConflitos, ...alteracoes } = input;
+        return await seriesConsultas.atualizarSerieConsultas({
+          consultaId,
+          clinicaId,
+          ambito,
+          alteracoes,
+          ignorarConflitos,
+        });
+      }),
+
+    // Cancelar ocorrência de uma série: só esta, esta e as seguintes, ou todas
+    cancelarSerie: protectedProcedure
+      .input(z.object({
+        consultaId: z.number(),
+        clinicaId: z.number(),
+        ambito: z.enum(["esta", "seguintes", "todas"]),
+        motivo: z.string().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await seriesConsultas.cancelarSerieConsultas({
+          ...input,
+          papel: await estadosConsulta.obterPapelUtilizador(ctx.user, input.clinicaId),
+          userId: ctx.user.id,
+        });
+      }),
+
     // Validar agendamento
     validarAgendamento: protectedProcedure
       .input(z.object({
@@ -674,6 +918,8 @@ export const appRouter = router({
         horaInicio: z.date(),
         horaFim: z.date(),
         consultaIdExcluir: z.number().optional(),
+        procedimentoId: z.number().optional(),
+        recursoIds: z.array(z.number()).optional(),
       }))
       .query(async ({ input }) => {
         return await validacoesAgenda.validarAgendamentoCompleto(input);
@@ -686,6 +932,8 @@ export const appRouter = router({
         dataDesejada: z.date(),
         duracao: z.number(),
         quantidade: z.number().optional(),
+        procedimentoId: z.number().optional(),
+        recursoIds: z.array(z.number()).optional(),
       }))
       .query(async ({ input }) => {
         return await validacoesAgenda.sugerirHorariosAlternativos(input);
@@ -757,22 +1005,32 @@ export const appRouter = router({
         return await db.getFaturasByClinica(input.clinicaId, input.utenteId);
       }),
 
-    // Obter fatura por ID
+    // Obter fatura por ID (com os dados de certificação a imprimir)
     porId: protectedProcedure
       .input(z.object({
         faturaId: z.number(),
         clinicaId: z.number(),
       }))
       .query(async ({ input }) => {
-        return await db.getFaturaById(input.faturaId, input.clinicaId);
+        const fatura = await db.getFaturaById(input.faturaId, input.clinicaId);
+        if (!fatura) return null;
+
+        return {
+          ...fatura,
+          resumoIVA: resumoIVA(totaisDocumento(fatura.fatura, fatura.itens)),
+          certificacao: dadosImpressao(fatura.fatura),
+        };
       }),
 
-    // Criar fatura
+    // Emitir fatura (numerada e assinada na série ativa do tipo de documento)
     criar: protectedProcedure
       .input(z.object({
         clinicaId: z.number(),
         utenteId: z.number(),
         consultaId: z.number().optional(),
+        // Dentista das linhas (comissões); por omissão, o da consulta
+        dentistaId: z.number().optional(),
+        tipoDocumento: z.enum(["FT", "FS", "FR"]).default("FT"),
         dataFatura: z.date(),
         dataVencimento: z.date().optional(),
         percentagemIVA: z.string().default("0"),
@@ -780,72 +1038,43 @@ export const appRouter = router({
         observacoes: z.string().optional(),
         itens: z.array(z.object({
           procedimentoId: z.number().optional(),
+          dentistaId: z.number().optional(),
           descricao: z.string(),
           quantidade: z.number().default(1),
           precoUnitario: z.string(),
-        })),
+          // Por omissão, a taxa e o motivo de isenção do procedimento
+          taxaIVA: z.string().optional(),
+          motivoIsencao: z.string().regex(/^M\d{2}$/).optional(),
+        })).min(1),
+        // Obrigatório na fatura-recibo (FR)
+        pagamento: z.object({
+          metodoPagamento: z.enum(["dinheiro", "cartao", "transferencia", "mbway", "multibanco", "outro"]),
+          referencia: z.string().optional(),
+        }).optional(),
+        // Apólice do utente: fatura só o copagamento e regista a parte da entidade
+        apoliceId: z.number().optional(),
+        numeroAutorizacao: z.string().max(100).optional(),
       }))
       .mutation(async ({ input }) => {
-        const database = await getDb();
-        if (!database) throw new Error("Database not available");
-
-        // Gerar número de fatura
-        const ultimaFatura = await database
-          .select()
-          .from(faturas)
-          .where(eq(faturas.clinicaId, input.clinicaId))
-          .orderBy(desc(faturas.id))
-          .limit(1);
-
-        const proximoNumero = ultimaFatura.length > 0 
-          ? parseInt(ultimaFatura[0].numeroFatura.replace(/\D/g, '')) + 1 
-          : 1;
-        
-        const ano = new Date().getFullYear();
-        const numeroFatura = `FT${ano}/${proximoNumero.toString().padStart(5, '0')}`;
-
-        // Calcular totais
-        let subtotal = 0;
-        input.itens.forEach(item => {
-          subtotal += parseFloat(item.precoUnitario) * item.quantidade;
-        });
-
-        const valorIVA = subtotal * (parseFloat(input.percentagemIVA) / 100);
-        const valorTotal = subtotal + valorIVA - parseFloat(input.valorDesconto);
-
-        // Criar fatura
-        const [faturaResult] = await database.insert(faturas).values({
-          clinicaId: input.clinicaId,
-          utenteId: input.utenteId,
-          consultaId: input.consultaId,
-          numeroFatura,
-          dataFatura: input.dataFatura,
-          dataVencimento: input.dataVencimento,
-          subtotal: subtotal.toFixed(2),
-          valorIVA: valorIVA.toFixed(2),
-          percentagemIVA: input.percentagemIVA,
-          valorDesconto: input.valorDesconto,
-          valorTotal: valorTotal.toFixed(2),
-          valorPago: "0",
-          estado: "rascunho",
-          observacoes: input.observacoes,
-        });
-
-        // Criar itens da fatura
-        for (const item of input.itens) {
-          const precoTotal = parseFloat(item.precoUnitario) * item.quantidade;
-          
-          await database.insert(itensFatura).values({
-            faturaId: faturaResult.insertId,
-            procedimentoId: item.procedimentoId,
-            descricao: item.descricao,
-            quantidade: item.quantidade,
-            precoUnitario: item.precoUnitario,
-            precoTotal: precoTotal.toFixed(2),
-          });
+        const { apoliceId, numeroAutorizacao, ...dados } = input;
+
+        if (apoliceId) {
+          const { fatura, comparticipacoes, valorEntidade } = await emitirFaturaComAcordo({ ...dados, apoliceId, numeroAutorizacao });
+
+          // Sem fatura quando a entidade paga tudo
+          return {
+            id: fatura?.id ?? null,
+            numeroFatura: fatura?.numeroFatura ?? null,
+            atcud: fatura?.atcud ?? null,
+            comparticipacoes: comparticipacoes.map(c => c.id),
+            valorEntidade,
+            success: true,
+          };
         }
 
-        return { id: faturaResult.insertId, numeroFatura, success: true };
+        const fatura = await emitirFatura(dados);
+
+        return { id: fatura.id, numeroFatura: fatura.numeroFatura, atcud: fatura.atcud, success: true };
       }),
 
     // Registrar pagamento
@@ -859,53 +1088,50 @@ export const appRouter = router({
         referencia: z.string().optional(),
         observacoes: z.string().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const database = await getDb();
         if (!database) throw new Error("Database not available");
 
-        const { faturaId, clinicaId, ...pagamentoData } = input;
-
-        // Registrar pagamento
-        await database.insert(pagamentosFatura).values({
-          faturaId,
-          ...pagamentoData,
+        const { faturaId, clinicaId } = input;
+        const valor = parseFloat(input.valor);
+
+        // Recebimento na conta corrente do utente, imputado a esta fatura: a fatura é bloqueada,
+        // atualizada e recebe o recibo (RC) na mesma transação
+        const lancamento = await database.transaction(async tx => {
+          const [faturaPaga] = await tx
+            .select({ utenteId: faturas.utenteId })
+            .from(faturas)
+            .where(and(eq(faturas.id, faturaId), eq(faturas.clinicaId, clinicaId)))
+            .limit(1);
+          if (!faturaPaga) throw new Error("Fatura não encontrada");
+
+          return await lancarRecebimento(tx, {
+            clinicaId,
+            utenteId: faturaPaga.utenteId,
+            valor,
+            metodoPagamento: input.metodoPagamento,
+            dataRecebimento: input.dataPagamento,
+            referencia: input.referencia,
+            observacoes: input.observacoes,
+            imputacoes: [{ faturaId, valor }],
+            userId: ctx.user.id,
+          });
         });
 
-        // Atualizar valor pago da fatura
         const fatura = await db.getFaturaById(faturaId, clinicaId);
         if (!fatura) throw new Error("Fatura não encontrada");
 
-        const novoValorPago = parseFloat(fatura.fatura.valorPago) + parseFloat(input.valor);
-        const valorTotal = parseFloat(fatura.fatura.valorTotal);
-
-        let novoEstado: "paga" | "parcialmente_paga" | "enviada" = "enviada";
-        if (novoValorPago >= valorTotal) {
-          novoEstado = "paga";
-        } else if (novoValorPago > 0) {
-          novoEstado = "parcialmente_paga";
-        }
-
-        await database
-          .update(faturas)
-          .set({
-            valorPago: novoValorPago.toFixed(2),
-            estado: novoEstado,
-            updatedAt: new Date(),
-          })
-          .where(eq(faturas.id, faturaId));
-
-        // TODO: Integracoes adicionais
-        // 1. Registar no historico do utente
-        // 2. Criar registo de auditoria RGPD
-        // 3. Enviar notificacao ao utente (email/SMS)
-        // 4. Atualizar cache
+        // Valor em dívida: total da fatura menos as notas de crédito emitidas
+        const valorTotal = parseFloat(fatura.fatura.valorTotal) - parseFloat(fatura.fatura.valorCreditado);
 
         return { 
           success: true, 
-          novoEstado,
-          valorPago: novoValorPago.toFixed(2),
+          novoEstado: fatura.fatura.estado,
+          valorPago: fatura.fatura.valorPago,
           valorTotal: valorTotal.toFixed(2),
-          faturaId
+          faturaId,
+          numeroRecibo: lancamento.numeroRecibo,
+          atcudRecibo: lancamento.pagamentos[0]?.atcud ?? null,
         };
       }),
   }),
@@ -1086,6 +1312,21 @@ export const appRouter = router({
         );
       }),
 
+    // Tempos de espera e atraso da agenda
+    temposEspera: protectedProcedure
+      .input(z.object({
+        clinicaId: z.number(),
+        dataInicio: z.date(),
+        dataFim: z.date(),
+        dentistaId: z.number().optional(),
+      }))
+      .query(async ({ input }) => {
+        return await relatorios.getRelatorioTemposEspera(input.clinicaId, {
+          dataInicio: input.dataInicio,
+          dataFim: input.dataFim,
+        }, input.dentistaId);
+      }),
+
     // Top procedimentos lucrativos
     topProcedimentos: protectedProcedure
       .input(z.object({
@@ -1099,6 +1340,45 @@ export const appRouter = router({
           dataFim: input.dataFim,
         });
       }),
+
+    // Recebimentos previstos dos planos de pagamento (prestações por receber)
+    recebimentosPrevistos: protectedProcedure
+      .input(z.object({
+        clinicaId: z.number(),
+        meses: z.number().min(1).max(36).default(12),
+      }))
+      .query(async ({ input }) => {
+        return await previsaoRecebimentosPlanos(input.clinicaId, input.meses);
+      }),
+
+    // Antiguidade de saldos: valores em dívida por escalão de atraso, por utente, dentista e pagador
+    // (os filtros dão o detalhe dos documentos de uma linha)
+    antiguidadeSaldos: protectedProcedure
+      .input(z.object({
+        clinicaId: z.number(),
+        ...filtrosAntiguidade,
+      }))
+      .query(async ({ input }) => {
+        const { clinicaId, ...filtros } = input;
+        return await relatorios.getRelatorioAntiguidadeSaldos(clinicaId, filtros);
+      }),
+
+    // Exportar a antiguidade de saldos em PDF ou CSV (base64)
+    exportarAntiguidadeSaldos: protectedProcedure
+      .input(z.object({
+        clinicaId: z.number(),
+        formato: z.enum(["pdf", "csv"]),
+        agrupamento: z.enum(["utente", "dentista", "pagador", "documento"]).default("utente"),
+        ...filtrosAntiguidade,
+      }))
+      .query(async ({ input }) => {
+        const { clinicaId, formato, agrupamento, ...filtros } = input;
+        const { nomeFicheiro, conteudo } = formato === "pdf"
+          ? await gerarPdfAntiguidadeSaldos(clinicaId, agrupamento, filtros)
+          : await relatorios.exportarAntiguidadeSaldosCSV(clinicaId, agrupamento, filtros);
+
+        return { nomeFicheiro, conteudo: conteudo.toString("base64") };
+      }),
   }),
 
   // ============================================
@@ -1203,6 +1483,101 @@ export const appRouter = router({
   // NOTIFICAÇÕES DO SISTEMA
   // ============================================
   notificacoesSistema: notificacoesSistemaRouter,
+
+  // ============================================
+  // HORÁRIOS E DISPONIBILIDADE
+  // ============================================
+  horarios: horariosRouter,
+
+  // ============================================
+  // LISTA DE ESPERA
+  // ============================================
+  listaEspera: listaEsperaRouter,
+
+  // ============================================
+  // RECURSOS (GABINETES, CADEIRAS, EQUIPAMENTOS)
+  // ============================================
+  recursos: recursosRouter,
+
+  // ============================================
+  // MARCAÇÃO ONLINE (PÚBLICA)
+  // ============================================
+  marcacaoOnline: marcacaoOnlineRouter,
+
+  // ============================================
+  // FEEDS DE CALENDÁRIO (ICS)
+  // ============================================
+  feedsCalendario: feedsCalendarioRouter,
+
+  // ============================================
+  // SALA DE ESPERA
+  // ============================================
+  salaEspera: salaEsperaRouter,
+
+  // ============================================
+  // REMARCAÇÕES EM BLOCO
+  // ============================================
+  remarcacoes: remarcacoesRouter,
+
+  // ============================================
+  // NOTAS DE CRÉDITO
+  // ============================================
+  notasCredito: notasCreditoRouter,
+
+  // ============================================
+  // SÉRIES DE DOCUMENTOS (AT)
+  // ============================================
+  seriesDocumentos: seriesDocumentosRouter,
+
+  // ============================================
+  // PDF DOS DOCUMENTOS DE FATURAÇÃO
+  // ============================================
+  documentosPdf: documentosPdfRouter,
+
+  // ============================================
+  // CONTA CORRENTE DO UTENTE
+  // ============================================
+  contaCorrente: contaCorrenteRouter,
+
+  // ============================================
+  // PLANOS DE PAGAMENTO
+  // ============================================
+  planosPagamento: planosPagamentoRouter,
+
+  // ============================================
+  // MULTIBANCO
+  // ============================================
+  multibanco: multibancoRouter,
+
+  // ============================================
+  // EXTRATOS BANCÁRIOS
+  // ============================================
+  extratosBancarios: extratosBancariosRouter,
+
+  // ============================================
+  // COMISSÕES DOS DENTISTAS
+  // ============================================
+  comissoes: comissoesRouter,
+
+  // ============================================
+  // SEGURADORAS E ACORDOS
+  // ============================================
+  seguradoras: seguradorasRouter,
+
+  // ============================================
+  // CHEQUES-DENTISTA (SNS)
+  // ============================================
+  chequesDentista: chequesDentistaRouter,
+
+  // ============================================
+  // PLANOS DE TRATAMENTO
+  // ============================================
+  planosTratamento: planosTratamentoRouter,
+
+  // ============================================
+  // COBRANÇA DE FATURAS VENCIDAS
+  // ============================================
+  cobrancas: cobrancasRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,129 @@
+/**
+ * Router tRPC para Cheques-Dentista do SNS
+ * Cheques dos utentes, utilização nas consultas e lista mensal de reembolso
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  anularCheque,
+  exportarReembolsoCSV,
+  guardarCheque,
+  listaReembolso,
+  listarCheques,
+  listarUtilizacoes,
+  marcarReembolsados,
+  removerUtilizacao,
+  resumoCheques,
+  utilizarCheque,
+} from '../cheques-dentista';
+
+const periodo = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Período no formato AAAA-MM');
+const data = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data no formato AAAA-MM-DD');
+
+export const chequesDentistaRouter = router({
+  /**
+   * Cheques da clínica (de um utente ou num estado)
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        utenteId: z.number().optional(),
+        estado: z.enum(['ativo', 'utilizado', 'expirado', 'anulado']).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listarCheques(input);
+    }),
+
+  /**
+   * Registar ou corrigir um cheque
+   */
+  guardar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        chequeId: z.number().optional(),
+        utenteId: z.number(),
+        numero: z.string().min(1).max(50),
+        tipo: z.enum(['crianca_jovem', 'gravida', 'idoso', 'vih_sida', 'outro']),
+        numeroSNS: z.string().regex(/^\d{9}$/, 'Número de utente do SNS inválido').nullable().optional(),
+        dataEmissao: data,
+        validoAte: data,
+        consultasPermitidas: z.number().int().min(1).max(10),
+        valorReembolso: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Valor inválido'),
+        observacoes: z.string().nullable().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await guardarCheque(input);
+    }),
+
+  anular: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), chequeId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await anularCheque(input.chequeId, input.clinicaId);
+    }),
+
+  /**
+   * Consultas em que o cheque foi utilizado
+   */
+  utilizacoes: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), chequeId: z.number() }))
+    .query(async ({ input }) => {
+      return await listarUtilizacoes(input.chequeId, input.clinicaId);
+    }),
+
+  /**
+   * Registar a consulta como feita com o cheque
+   */
+  utilizar: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), chequeId: z.number(), consultaId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      return await utilizarCheque({ ...input, userId: ctx.user.id });
+    }),
+
+  removerUtilizacao: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), consultaId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await removerUtilizacao(input);
+    }),
+
+  /**
+   * Lista de reembolso do mês
+   */
+  reembolso: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), periodo }))
+    .query(async ({ input }) => {
+      return await listaReembolso(input);
+    }),
+
+  /**
+   * Exportar a lista de reembolso em CSV (base64)
+   */
+  exportarReembolso: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), periodo }))
+    .query(async ({ input }) => {
+      const { nomeFicheiro, conteudo } = await exportarReembolsoCSV(input);
+      return { nomeFicheiro, conteudo: conteudo.toString('base64') };
+    }),
+
+  /**
+   * Registar o reembolso do SNS das consultas do mês
+   */
+  marcarReembolsados: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), periodo, referencia: z.string().max(255).optional(), dataReembolso: z.date().optional() }))
+    .mutation(async ({ input }) => {
+      return await marcarReembolsados(input);
+    }),
+
+  /**
+   * Cheques ativos, a expirar e valor por reembolsar
+   */
+  resumo: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await resumoCheques(input.clinicaId);
+    }),
+});
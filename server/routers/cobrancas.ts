@@ -0,0 +1,150 @@
+/**
+ * Router tRPC para Cobrança de Faturas Vencidas
+ * Escala de passos da clínica, cobranças em curso, tarefas da equipa e link público de pagamento
+ */
+
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure, publicProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  PASSOS_PADRAO,
+  aplicarPassosPadrao,
+  concluirTarefa,
+  guardarPasso,
+  interromperCobranca,
+  listarCobrancas,
+  listarPassos,
+  listarTarefas,
+  obterCobranca,
+  obterPagamentoPublico,
+  removerPasso,
+  retomarCobranca,
+} from '../cobrancas';
+import { consumirLimite, obterIpPedido } from '../rate-limit';
+
+/**
+ * Pedidos permitidos por IP e por endpoint em cada minuto
+ */
+const LIMITE_PEDIDOS_MINUTO = 20;
+
+const pagamentoPublicoProcedure = publicProcedure.use(async ({ ctx, path, next }) => {
+  const ip = obterIpPedido(ctx.req);
+  if (!consumirLimite(`pagamento:${path}:${ip}`, LIMITE_PEDIDOS_MINUTO, 60 * 1000)) {
+    throw new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: 'Demasiados pedidos. Aguarde um momento e tente novamente.',
+    });
+  }
+
+  return next({ ctx: { ...ctx, ip } });
+});
+
+const canal = z.enum(['email', 'sms', 'whatsapp', 'tarefa']);
+
+export const cobrancasRouter = router({
+  /**
+   * Escala de cobrança da clínica (e a escala sugerida, para clínicas sem passos)
+   */
+  passos: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return { passos: await listarPassos(input.clinicaId), sugeridos: PASSOS_PADRAO };
+    }),
+
+  /**
+   * Criar ou alterar um passo da escala
+   */
+  guardarPasso: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        passoId: z.number().optional(),
+        diasAposVencimento: z.number().int().min(0).max(365),
+        canal,
+        mensagem: z.string().max(2000).nullable().optional(),
+        incluirLinkPagamento: z.boolean().default(false),
+        ativo: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await guardarPasso(input);
+    }),
+
+  removerPasso: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), passoId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await removerPasso(input.passoId, input.clinicaId);
+    }),
+
+  /**
+   * Criar a escala sugerida
+   */
+  aplicarPassosPadrao: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await aplicarPassosPadrao(input.clinicaId);
+    }),
+
+  /**
+   * Cobranças da clínica
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        estado: z.enum(['ativa', 'interrompida', 'concluida']).optional(),
+        utenteId: z.number().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listarCobrancas(input);
+    }),
+
+  /**
+   * Cobrança de uma fatura com os passos executados (null se a fatura não está em cobrança)
+   */
+  obter: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), faturaId: z.number() }))
+    .query(async ({ input }) => {
+      return await obterCobranca(input.faturaId, input.clinicaId);
+    }),
+
+  /**
+   * Suspender a cobrança de uma fatura
+   */
+  interromper: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), faturaId: z.number(), motivo: z.string().min(1).max(255) }))
+    .mutation(async ({ input }) => {
+      return await interromperCobranca(input);
+    }),
+
+  retomar: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), faturaId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await retomarCobranca(input);
+    }),
+
+  /**
+   * Tarefas de cobrança da equipa por fazer
+   */
+  tarefas: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await listarTarefas(input.clinicaId);
+    }),
+
+  concluirTarefa: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), acaoId: z.number(), observacoes: z.string().max(2000).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      return await concluirTarefa({ ...input, userId: ctx.user.id });
+    }),
+
+  /**
+   * Fatura por pagar vista pelo utente (link enviado na cobrança)
+   */
+  pagamento: pagamentoPublicoProcedure
+    .input(z.object({ token: z.string().min(20).max(64) }))
+    .query(async ({ input }) => {
+      return await obterPagamentoPublico(input.token);
+    }),
+});
@@ -0,0 +1,119 @@
+/**
+ * Router tRPC para Comissões dos Dentistas
+ * Regras de distribuição, política da clínica e liquidações mensais (fecho e exportação)
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  definirMomentoComissao,
+  exportarLiquidacaoCSV,
+  fecharLiquidacao,
+  guardarRegra,
+  listarLiquidacoes,
+  listarRegras,
+  obterLiquidacao,
+  obterMomentoComissao,
+  removerRegra,
+} from '../comissoes';
+import { gerarPdfLiquidacao } from '../documentos-pdf';
+
+const periodo = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Período no formato AAAA-MM');
+const valor = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Valor inválido');
+const percentagem = z.string().regex(/^\d{1,3}(\.\d{1,2})?$/, 'Percentagem inválida').refine(p => parseFloat(p) <= 100, 'Percentagem inválida');
+
+export const comissoesRouter = router({
+  /**
+   * Regras de distribuição da clínica
+   */
+  regras: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await listarRegras(input.clinicaId);
+    }),
+
+  /**
+   * Criar ou alterar uma regra (sem dentista nem procedimento = regra geral da clínica)
+   */
+  guardarRegra: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        regraId: z.number().optional(),
+        dentistaId: z.number().nullable().optional(),
+        procedimentoId: z.number().nullable().optional(),
+        tipoDistribuicao: z.enum(['percentagem', 'fixo', 'hibrido']),
+        percentagemDentista: percentagem.nullable().optional(),
+        valorFixoDentista: valor.nullable().optional(),
+        percentagemClinica: percentagem.nullable().optional(),
+        valorFixoClinica: valor.nullable().optional(),
+        custoLaboratorio: valor.optional(),
+        custoMateriais: valor.optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await guardarRegra(input);
+    }),
+
+  removerRegra: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), regraId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await removerRegra(input.regraId, input.clinicaId);
+    }),
+
+  /**
+   * Comissão devida na faturação ou no recebimento
+   */
+  politica: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return { momentoComissao: await obterMomentoComissao(input.clinicaId) };
+    }),
+
+  definirPolitica: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), momentoComissao: z.enum(['faturacao', 'recebimento']) }))
+    .mutation(async ({ input }) => {
+      return await definirMomentoComissao(input.clinicaId, input.momentoComissao);
+    }),
+
+  /**
+   * Liquidações fechadas
+   */
+  liquidacoes: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), dentistaId: z.number().optional(), ano: z.number().int().optional() }))
+    .query(async ({ input }) => {
+      return await listarLiquidacoes(input);
+    }),
+
+  /**
+   * Liquidação de um dentista num mês (provisória enquanto não for fechada)
+   */
+  liquidacao: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), dentistaId: z.number(), periodo }))
+    .query(async ({ input }) => {
+      return await obterLiquidacao(input);
+    }),
+
+  /**
+   * Fechar a liquidação do mês (deixa de poder ser alterada)
+   */
+  fecharLiquidacao: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), dentistaId: z.number(), periodo }))
+    .mutation(async ({ ctx, input }) => {
+      return await fecharLiquidacao({ ...input, userId: ctx.user.id });
+    }),
+
+  /**
+   * Exportar a liquidação em PDF ou CSV (base64)
+   */
+  exportarLiquidacao: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), dentistaId: z.number(), periodo, formato: z.enum(['pdf', 'csv']) }))
+    .query(async ({ input }) => {
+      const { formato, ...dados } = input;
+      const { nomeFicheiro, conteudo } = formato === 'pdf'
+        ? await gerarPdfLiquidacao(dados)
+        : await exportarLiquidacaoCSV(dados);
+
+      return { nomeFicheiro, conteudo: conteudo.toString('base64') };
+    }),
+});
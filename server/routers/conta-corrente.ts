@@ -0,0 +1,127 @@
+/**
+ * Router tRPC para Conta Corrente do Utente
+ * Extrato, resumo, recebimentos imputados a várias faturas, crédito e reembolsos
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  extratoContaCorrente,
+  reembolsarCredito,
+  registarRecebimento,
+  resumoContaCorrente,
+  utilizarCredito,
+} from '../conta-corrente';
+import { gerarPdfExtrato } from '../documentos-pdf';
+
+const metodoPagamento = z.enum(['dinheiro', 'cartao', 'transferencia', 'mbway', 'multibanco', 'outro']);
+
+const imputacoes = z
+  .array(
+    z.object({
+      faturaId: z.number(),
+      valor: z.number().positive().optional(), // Sem valor: o que estiver em dívida
+    })
+  )
+  .min(1);
+
+const periodo = z.object({
+  clinicaId: z.number(),
+  utenteId: z.number(),
+  dataInicio: z.date().optional(),
+  dataFim: z.date().optional(),
+});
+
+export const contaCorrenteRouter = router({
+  /**
+   * Extrato com todos os movimentos e saldo acumulado
+   */
+  extrato: protectedProcedure
+    .input(periodo)
+    .query(async ({ input }) => {
+      return await extratoContaCorrente(input);
+    }),
+
+  /**
+   * Extrato em PDF (base64)
+   */
+  extratoPdf: protectedProcedure
+    .input(periodo)
+    .mutation(async ({ input }) => {
+      const { nomeFicheiro, conteudo } = await gerarPdfExtrato(input);
+      return { nomeFicheiro, conteudo: conteudo.toString('base64') };
+    }),
+
+  /**
+   * Resumo financeiro (totais, saldo e crédito disponível)
+   */
+  resumo: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), utenteId: z.number() }))
+    .query(async ({ input }) => {
+      return await resumoContaCorrente(input.clinicaId, input.utenteId);
+    }),
+
+  /**
+   * Registar dinheiro recebido: imputado às faturas indicadas, às mais antigas
+   * (imputarAutomaticamente) ou guardado como crédito
+   */
+  registarRecebimento: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        utenteId: z.number(),
+        valor: z.number().positive(),
+        metodoPagamento,
+        dataRecebimento: z.date().optional(),
+        referencia: z.string().optional(),
+        observacoes: z.string().optional(),
+        imputacoes: imputacoes.optional(),
+        imputarAutomaticamente: z.boolean().optional().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await registarRecebimento({
+        ...input,
+        dataRecebimento: input.dataRecebimento ?? new Date(),
+        userId: ctx.user.id,
+      });
+    }),
+
+  /**
+   * Pagar faturas em aberto com o crédito do utente (sem faturas indicadas, as mais antigas)
+   */
+  utilizarCredito: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        utenteId: z.number(),
+        imputacoes: imputacoes.optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await utilizarCredito(input);
+    }),
+
+  /**
+   * Devolver crédito ao utente
+   */
+  reembolsarCredito: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        utenteId: z.number(),
+        valor: z.number().positive(),
+        metodoPagamento,
+        dataReembolso: z.date().optional(),
+        referencia: z.string().optional(),
+        observacoes: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await reembolsarCredito({
+        ...input,
+        dataReembolso: input.dataReembolso ?? new Date(),
+        userId: ctx.user.id,
+      });
+    }),
+});
@@ -16,17 +16,20 @@ export const contabilidadeRouter = router({
         clinicaId: z.number(),
         dataInicio: z.date(),
         dataFim: z.date(),
-        tipoDocumento: z.enum(["FT", "FS", "FR", "NC", "ND"]).optional(),
+        tipoDocumento: z.enum(["FT", "FS", "FR", "NC", "ND", "RC"]).optional(),
       })
     )
     .mutation(async ({ input }) => {
-      const xml = await SAFTExportService.exportarSAFT(input);
+      // O ficheiro e validado contra o XSD oficial; os erros sao devolvidos ao contabilista
+      const { xml, valido, erros } = await SAFTExportService.exportarSAFT(input);
       
       // Retornar como base64 para download
       const base64 = Buffer.from(xml).toString('base64');
       
       return {
-        success: true,
+        success: valido,
+        valido,
+        erros,
         xml,
         base64,
         filename: `SAFT-PT_${input.clinicaId}_${input.dataInicio.toISOString().split('T')[0]}_${input.dataFim.toISOString().split('T')[0]}.xml`,
@@ -105,6 +108,8 @@ export const contabilidadeRouter = router({
       const totalAnual = trimestres.reduce((sum, t) => sum + t.totalFaturado, 0);
       const totalPagoAnual = trimestres.reduce((sum, t) => sum + t.totalPago, 0);
       const numeroFaturasAnual = trimestres.reduce((sum, t) => sum + t.numeroFaturas, 0);
+      const ivaIsentoAnual = trimestres.reduce((sum, t) => sum + t.ivaIsento, 0);
+      const ivaCobradoAnual = trimestres.reduce((sum, t) => sum + t.ivaCobrado, 0);
 
       return {
         success: true,
@@ -114,8 +119,8 @@ export const contabilidadeRouter = router({
           totalFaturado: totalAnual,
           totalPago: totalPagoAnual,
           numeroFaturas: numeroFaturasAnual,
-          ivaIsento: totalAnual,
-          ivaCobrado: 0,
+          ivaIsento: ivaIsentoAnual,
+          ivaCobrado: ivaCobradoAnual,
         },
       };
     }),
@@ -0,0 +1,44 @@
+/**
+ * Router tRPC para PDF dos Documentos de Faturação
+ * Gerar, descarregar e enviar faturas, notas de crédito e recibos
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { enviarDocumento, obterPdfDocumento } from '../documentos-pdf';
+
+const tipoDocumento = z.enum(['fatura', 'nota_credito', 'recibo']);
+
+export const documentosPdfRouter = router({
+  /**
+   * Obter o URL do PDF (gerado na primeira vez ou quando pedido de novo)
+   */
+  obter: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        tipo: tipoDocumento,
+        id: z.number(), // Fatura, nota de crédito ou pagamento (recibo)
+        regenerar: z.boolean().optional().default(false),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await obterPdfDocumento(input);
+    }),
+
+  /**
+   * Enviar o PDF ao utente por email ou WhatsApp
+   */
+  enviar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        tipo: tipoDocumento,
+        id: z.number(),
+        canal: z.enum(['email', 'whatsapp']),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await enviarDocumento(input);
+    }),
+});
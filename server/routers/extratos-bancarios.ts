@@ -0,0 +1,118 @@
+/**
+ * Router tRPC para Extratos Bancários
+ * Importação de extratos (CSV e camt.053), fila de revisão e confirmação dos pagamentos
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  atualizarSugestoes,
+  confirmarConciliacoes,
+  ignorarMovimentos,
+  importarExtrato,
+  listarExtratos,
+  listarMovimentos,
+} from '../extratos-bancarios';
+import { PERFIS_BANCO } from '../integrations/bancos/csv';
+
+const data = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data no formato AAAA-MM-DD');
+
+const estadoMovimento = z.enum(['por_conciliar', 'sugerido', 'ambiguo', 'conciliado', 'ignorado']);
+
+export const extratosBancariosRouter = router({
+  /**
+   * Formatos de extrato suportados (perfis CSV dos bancos e camt.053)
+   */
+  formatos: protectedProcedure.query(() => {
+    return [...PERFIS_BANCO.map(p => p.nome), 'camt053'];
+  }),
+
+  /**
+   * Importar um extrato (conteúdo do ficheiro em base64; formato detetado se omitido)
+   */
+  importar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        nomeFicheiro: z.string().max(255).optional(),
+        conteudo: z.string().min(1),
+        formato: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await importarExtrato({ ...input, userId: ctx.user.id });
+    }),
+
+  /**
+   * Extratos importados
+   */
+  extratos: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await listarExtratos(input.clinicaId);
+    }),
+
+  /**
+   * Movimentos (por omissão, os que estão por rever)
+   */
+  movimentos: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        extratoId: z.number().optional(),
+        estados: z.array(estadoMovimento).optional(),
+        dataInicio: data.optional(),
+        dataFim: data.optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listarMovimentos(input);
+    }),
+
+  /**
+   * Comparar de novo os movimentos por rever com as faturas em aberto
+   */
+  atualizarSugestoes: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await atualizarSugestoes(input.clinicaId);
+    }),
+
+  /**
+   * Confirmar movimentos em lote (fatura sugerida, outra fatura ou só o utente)
+   */
+  confirmar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        movimentos: z
+          .array(
+            z.object({
+              movimentoId: z.number(),
+              faturaId: z.number().optional(),
+              utenteId: z.number().optional(),
+            })
+          )
+          .min(1)
+          .max(500),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await confirmarConciliacoes({ ...input, userId: ctx.user.id });
+    }),
+
+  /**
+   * Ignorar movimentos (ou repô-los na fila de revisão)
+   */
+  ignorar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        movimentoIds: z.array(z.number()).min(1),
+        ignorar: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await ignorarMovimentos(input);
+    }),
+});
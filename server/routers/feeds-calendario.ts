@@ -0,0 +1,164 @@
+/**
+ * Router tRPC para Feeds de Calendário (ICS)
+ * Criação, configuração de privacidade e revogação dos URLs de subscrição da agenda
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { getDb } from '../db';
+import { dentistas } from '../../drizzle/schema';
+import { feedsCalendario } from '../../drizzle/schema-agenda';
+import { eq, and, desc } from 'drizzle-orm';
+import { gerarTokenFeed, urlFeed } from '../feeds-calendario';
+
+const privacidadeSchema = z.enum(['completo', 'iniciais', 'ocupado']);
+
+export const feedsCalendarioRouter = router({
+  /**
+   * Listar feeds da clínica (ativos e revogados)
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const conditions = [eq(feedsCalendario.clinicaId, input.clinicaId)];
+      if (input.dentistaId) {
+        conditions.push(eq(feedsCalendario.dentistaId, input.dentistaId));
+      }
+
+      const feeds = await db
+        .select()
+        .from(feedsCalendario)
+        .where(and(...conditions))
+        .orderBy(desc(feedsCalendario.createdAt));
+
+      return feeds.map(feed => ({ ...feed, url: feed.ativo ? urlFeed(feed.token) : null }));
+    }),
+
+  /**
+   * Criar feed para um dentista ou para a clínica inteira
+   */
+  criar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number().nullable().optional(),
+        nome: z.string().min(1).max(255).optional(),
+        privacidade: privacidadeSchema.optional().default('iniciais'),
+        incluirObservacoes: z.boolean().optional().default(false),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      let nome = input.nome;
+      if (input.dentistaId) {
+        const [dentista] = await db
+          .select()
+          .from(dentistas)
+          .where(and(eq(dentistas.id, input.dentistaId), eq(dentistas.clinicaId, input.clinicaId)))
+          .limit(1);
+        if (!dentista) throw new Error('Dentista não encontrado');
+        nome = nome || `Agenda - ${dentista.nome}`;
+      }
+
+      const token = gerarTokenFeed();
+      const [feed] = await db
+        .insert(feedsCalendario)
+        .values({
+          clinicaId: input.clinicaId,
+          dentistaId: input.dentistaId ?? null,
+          token,
+          nome: nome || 'Agenda da clínica',
+          privacidade: input.privacidade,
+          incluirObservacoes: input.incluirObservacoes,
+          criadoPor: ctx.user.id,
+        })
+        .returning();
+
+      return { id: feed.id, url: urlFeed(token), success: true };
+    }),
+
+  /**
+   * Alterar nome ou privacidade de um feed
+   */
+  atualizar: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        clinicaId: z.number(),
+        nome: z.string().min(1).max(255).optional(),
+        privacidade: privacidadeSchema.optional(),
+        incluirObservacoes: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const { id, clinicaId, ...data } = input;
+
+      await db
+        .update(feedsCalendario)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(feedsCalendario.id, id), eq(feedsCalendario.clinicaId, clinicaId)));
+
+      return { success: true };
+    }),
+
+  /**
+   * Gerar um novo URL (o anterior deixa de funcionar)
+   */
+  regenerarToken: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        clinicaId: z.number(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const token = gerarTokenFeed();
+      const [feed] = await db
+        .update(feedsCalendario)
+        .set({ token, ativo: true, revogadoEm: null, updatedAt: new Date() })
+        .where(and(eq(feedsCalendario.id, input.id), eq(feedsCalendario.clinicaId, input.clinicaId)))
+        .returning();
+
+      if (!feed) throw new Error('Feed não encontrado');
+
+      return { url: urlFeed(token), success: true };
+    }),
+
+  /**
+   * Revogar um feed (o URL deixa de funcionar)
+   */
+  revogar: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        clinicaId: z.number(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      await db
+        .update(feedsCalendario)
+        .set({ ativo: false, revogadoEm: new Date(), updatedAt: new Date() })
+        .where(and(eq(feedsCalendario.id, input.id), eq(feedsCalendario.clinicaId, input.clinicaId)));
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,292 @@
+/**
+ * Router tRPC para Horários e Disponibilidade
+ * Horário de funcionamento da clínica, horário semanal dos dentistas e exceções
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { getDb } from '../db';
+import {
+  horariosClinica,
+  horariosDentista,
+  excecoesHorario,
+} from '../../drizzle/schema-agenda';
+import { eq, and, gte, lte, isNull, or } from 'drizzle-orm';
+import {
+  carregarConfiguracaoHorario,
+  calcularIntervalosDia,
+  horaParaMinutos,
+  minutosParaHora,
+} from '../validacoes-agenda';
+
+const horaSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Hora inválida (HH:MM)');
+const dataSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (YYYY-MM-DD)');
+
+const blocoHorarioSchema = z
+  .object({
+    diaSemana: z.number().int().min(0).max(6),
+    horaInicio: horaSchema,
+    horaFim: horaSchema,
+  })
+  .refine(b => horaParaMinutos(b.horaFim) > horaParaMinutos(b.horaInicio), {
+    message: 'A hora de fim deve ser posterior à hora de início',
+  });
+
+export const horariosRouter = router({
+  /**
+   * Obter horário de funcionamento da clínica
+   */
+  obterHorarioClinica: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      return await db
+        .select()
+        .from(horariosClinica)
+        .where(eq(horariosClinica.clinicaId, input.clinicaId))
+        .orderBy(horariosClinica.diaSemana, horariosClinica.horaInicio);
+    }),
+
+  /**
+   * Definir horário de funcionamento da clínica (substitui o horário semanal completo)
+   */
+  definirHorarioClinica: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        blocos: z.array(blocoHorarioSchema),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      await db.transaction(async tx => {
+        await tx.delete(horariosClinica).where(eq(horariosClinica.clinicaId, input.clinicaId));
+
+        if (input.blocos.length > 0) {
+          await tx.insert(horariosClinica).values(
+            input.blocos.map(b => ({
+              clinicaId: input.clinicaId,
+              diaSemana: b.diaSemana,
+              horaInicio: b.horaInicio,
+              horaFim: b.horaFim,
+            }))
+          );
+        }
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Obter horário semanal de um dentista
+   */
+  obterHorarioDentista: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number(),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      return await db
+        .select()
+        .from(horariosDentista)
+        .where(and(
+          eq(horariosDentista.clinicaId, input.clinicaId),
+          eq(horariosDentista.dentistaId, input.dentistaId)
+        ))
+        .orderBy(horariosDentista.diaSemana, horariosDentista.horaInicio);
+    }),
+
+  /**
+   * Definir horário semanal de um dentista (turnos e pausas)
+   * Lista vazia = o dentista passa a seguir o horário da clínica
+   */
+  definirHorarioDentista: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number(),
+        blocos: z.array(
+          blocoHorarioSchema.and(
+            z.object({ tipo: z.enum(['trabalho', 'pausa']).default('trabalho') })
+          )
+        ),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      await db.transaction(async tx => {
+        await tx
+          .delete(horariosDentista)
+          .where(and(
+            eq(horariosDentista.clinicaId, input.clinicaId),
+            eq(horariosDentista.dentistaId, input.dentistaId)
+          ));
+
+        if (input.blocos.length > 0) {
+          await tx.insert(horariosDentista).values(
+            input.blocos.map(b => ({
+              clinicaId: input.clinicaId,
+              dentistaId: input.dentistaId,
+              diaSemana: b.diaSemana,
+              tipo: b.tipo,
+              horaInicio: b.horaInicio,
+              horaFim: b.horaFim,
+            }))
+          );
+        }
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Listar exceções (feriados, férias, formações) de um período
+   */
+  listarExcecoes: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number().optional(),
+        dataInicio: dataSchema.optional(),
+        dataFim: dataSchema.optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const conditions = [eq(excecoesHorario.clinicaId, input.clinicaId)];
+
+      if (input.dentistaId) {
+        conditions.push(
+          or(isNull(excecoesHorario.dentistaId), eq(excecoesHorario.dentistaId, input.dentistaId))!
+        );
+      }
+      if (input.dataInicio) {
+        conditions.push(gte(excecoesHorario.dataFim, input.dataInicio));
+      }
+      if (input.dataFim) {
+        conditions.push(lte(excecoesHorario.dataInicio, input.dataFim));
+      }
+
+      return await db
+        .select()
+        .from(excecoesHorario)
+        .where(and(...conditions))
+        .orderBy(excecoesHorario.dataInicio);
+    }),
+
+  /**
+   * Criar exceção de horário
+   * Sem dentistaId aplica-se a toda a clínica (ex: feriado); sem horas aplica-se ao dia inteiro
+   */
+  criarExcecao: protectedProcedure
+    .input(
+      z
+        .object({
+          clinicaId: z.number(),
+          dentistaId: z.number().optional(),
+          tipo: z.enum(['feriado', 'ferias', 'formacao', 'ausencia', 'outro']),
+          dataInicio: dataSchema,
+          dataFim: dataSchema,
+          horaInicio: horaSchema.optional(),
+          horaFim: horaSchema.optional(),
+          descricao: z.string().max(255).optional(),
+          observacoes: z.string().optional(),
+        })
+        .refine(e => e.dataFim >= e.dataInicio, {
+          message: 'A data de fim deve ser igual ou posterior à data de início',
+        })
+        .refine(e => !!e.horaInicio === !!e.horaFim, {
+          message: 'Indique hora de início e de fim, ou nenhuma para o dia inteiro',
+        })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const [excecao] = await db
+        .insert(excecoesHorario)
+        .values({
+          clinicaId: input.clinicaId,
+          dentistaId: input.dentistaId ?? null,
+          tipo: input.tipo,
+          dataInicio: input.dataInicio,
+          dataFim: input.dataFim,
+          horaInicio: input.horaInicio ?? null,
+          horaFim: input.horaFim ?? null,
+          descricao: input.descricao ?? null,
+          observacoes: input.observacoes ?? null,
+          criadoPor: ctx.user.id,
+        })
+        .returning();
+
+      return { id: excecao.id, success: true };
+    }),
+
+  /**
+   * Eliminar exceção de horário
+   */
+  eliminarExcecao: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        clinicaId: z.number(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      await db
+        .delete(excecoesHorario)
+        .where(and(
+          eq(excecoesHorario.id, input.id),
+          eq(excecoesHorario.clinicaId, input.clinicaId)
+        ));
+
+      return { success: true };
+    }),
+
+  /**
+   * Intervalos de trabalho efetivos de um dentista num dia
+   * (horário da clínica + horário do dentista - pausas - exceções)
+   */
+  intervalosDia: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number(),
+        data: z.date(),
+      })
+    )
+    .query(async ({ input }) => {
+      const configuracao = await carregarConfiguracaoHorario({
+        clinicaId: input.clinicaId,
+        dentistaId: input.dentistaId,
+        dataInicio: input.data,
+        dataFim: input.data,
+      });
+
+      const { intervalos, excecoes } = calcularIntervalosDia(configuracao, input.data);
+
+      return {
+        intervalos: intervalos.map(i => ({
+          horaInicio: minutosParaHora(i.inicio),
+          horaFim: minutosParaHora(i.fim),
+        })),
+        excecoes,
+      };
+    }),
+});
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { publicProcedure, router } from "../trpc";
 import { getDb } from "../db";
 import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { formatarDataCurta, formatarHora, obterFusoClinica } from "../fuso-horario";
 
 /**
  * Router tRPC para Configuracoes de Lembretes
@@ -312,6 +313,7 @@ export const lembretesConfigRouter = router({
       };
 
       let mensagem = "";
+      const fuso = await obterFusoClinica(input.clinicaId);
 
       if (input.tipo === "consulta") {
         const dataFormatada = dadosExemplo.consultaHora.toLocaleDateString("pt-PT", {
@@ -319,12 +321,10 @@ export const lembretesConfigRouter = router({
           year: "numeric",
           month: "long",
           day: "numeric",
+          timeZone: fuso,
         });
 
-        const horaFormatada = dadosExemplo.consultaHora.toLocaleTimeString("pt-PT", {
-          hour: "2-digit",
-          minute: "2-digit",
-        });
+        const horaFormatada = formatarHora(dadosExemplo.consultaHora, fuso);
 
         if (input.canal === "email") {
           mensagem = `Ola ${dadosExemplo.utenteNome},
@@ -370,7 +370,7 @@ Este e um lembrete de pagamento da ${dadosExemplo.clinicaNome}.
 
 Fatura: ${dadosExemplo.numeroFatura}
 💰 Valor Pendente: €${dadosExemplo.valorPendente.toFixed(2)}
-📅 Vencimento: ${dadosExemplo.dataVencimento.toLocaleDateString("pt-PT")}
+📅 Vencimento: ${formatarDataCurta(dadosExemplo.dataVencimento, fuso)}
 ⚠️ Vencida ha ${dadosExemplo.diasVencido} dia(s)
 
 Por favor, regularize o pagamento o mais breve possivel.
@@ -0,0 +1,269 @@
+/**
+ * Router tRPC para Lista de Espera
+ * Pedidos de vaga, ofertas de vagas libertadas e respostas dos utentes
+ */
+
+import { router, protectedProcedure, publicProcedure } from '../_core/trpc';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { getDb } from '../db';
+import { utentes } from '../../drizzle/schema';
+import { listaEspera, ofertasVaga } from '../../drizzle/schema-agenda';
+import { eq, and, desc } from 'drizzle-orm';
+import { ListaEsperaService } from '../lista-espera-service';
+import { RemarcacaoService } from '../remarcacao-service';
+import { horaParaMinutos } from '../validacoes-agenda';
+import { assinaturaTwilioValida } from '../integrations/twilio/assinatura';
+
+const horaSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Hora inválida (HH:MM)');
+
+const preferenciasSchema = z.object({
+  dentistaId: z.number().nullable().optional(),
+  procedimentoId: z.number().nullable().optional(),
+  diasSemana: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+  horaInicioPreferida: horaSchema.nullable().optional(),
+  horaFimPreferida: horaSchema.nullable().optional(),
+  prioridade: z.number().int().min(0).max(3).optional(),
+  observacoes: z.string().optional(),
+});
+
+const janelaValida = (p: { horaInicioPreferida?: string | null; horaFimPreferida?: string | null }) =>
+  !p.horaInicioPreferida || !p.horaFimPreferida ||
+  horaParaMinutos(p.horaFimPreferida) > horaParaMinutos(p.horaInicioPreferida);
+
+export const listaEsperaRouter = router({
+  /**
+   * Listar utentes em lista de espera
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        estado: z.enum(['ativa', 'agendada', 'cancelada']).optional().default('ativa'),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      return await db
+        .select({
+          entrada: listaEspera,
+          utente: {
+            id: utentes.id,
+            nome: utentes.nome,
+            telemovel: utentes.telemovel,
+          },
+        })
+        .from(listaEspera)
+        .innerJoin(utentes, eq(listaEspera.utenteId, utentes.id))
+        .where(and(
+          eq(listaEspera.clinicaId, input.clinicaId),
+          eq(listaEspera.estado, input.estado)
+        ))
+        .orderBy(desc(listaEspera.prioridade), listaEspera.createdAt);
+    }),
+
+  /**
+   * Adicionar utente à lista de espera
+   */
+  adicionar: protectedProcedure
+    .input(
+      preferenciasSchema
+        .extend({
+          clinicaId: z.number(),
+          utenteId: z.number(),
+        })
+        .refine(janelaValida, { message: 'A hora de fim preferida deve ser posterior à hora de início' })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const [entrada] = await db
+        .insert(listaEspera)
+        .values({
+          clinicaId: input.clinicaId,
+          utenteId: input.utenteId,
+          dentistaId: input.dentistaId ?? null,
+          procedimentoId: input.procedimentoId ?? null,
+          diasSemana: input.diasSemana ?? null,
+          horaInicioPreferida: input.horaInicioPreferida ?? null,
+          horaFimPreferida: input.horaFimPreferida ?? null,
+          prioridade: input.prioridade ?? 0,
+          observacoes: input.observacoes ?? null,
+          criadoPor: ctx.user.id,
+        })
+        .returning();
+
+      return { id: entrada.id, success: true };
+    }),
+
+  /**
+   * Atualizar preferências de um pedido em lista de espera
+   */
+  atualizar: protectedProcedure
+    .input(
+      preferenciasSchema
+        .extend({
+          id: z.number(),
+          clinicaId: z.number(),
+        })
+        .refine(janelaValida, { message: 'A hora de fim preferida deve ser posterior à hora de início' })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const { id, clinicaId, ...data } = input;
+
+      await db
+        .update(listaEspera)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(listaEspera.id, id), eq(listaEspera.clinicaId, clinicaId)));
+
+      return { success: true };
+    }),
+
+  /**
+   * Retirar utente da lista de espera
+   */
+  remover: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        clinicaId: z.number(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      await db
+        .update(listaEspera)
+        .set({ estado: 'cancelada', updatedAt: new Date() })
+        .where(and(eq(listaEspera.id, input.id), eq(listaEspera.clinicaId, input.clinicaId)));
+
+      return { success: true };
+    }),
+
+  /**
+   * Pré-visualizar a classificação dos candidatos para uma vaga
+   */
+  candidatos: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number(),
+        procedimentoId: z.number().optional(),
+        horaInicio: z.date(),
+        horaFim: z.date(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await ListaEsperaService.classificarCandidatos({
+        clinicaId: input.clinicaId,
+        dentistaId: input.dentistaId,
+        procedimentoId: input.procedimentoId ?? null,
+        horaInicio: input.horaInicio,
+        horaFim: input.horaFim,
+        consultaOrigemId: null,
+      });
+    }),
+
+  /**
+   * Oferecer manualmente uma vaga aos candidatos da lista de espera
+   */
+  ofertarVaga: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number(),
+        procedimentoId: z.number().optional(),
+        horaInicio: z.date(),
+        horaFim: z.date(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await ListaEsperaService.ofertarVaga({
+        clinicaId: input.clinicaId,
+        dentistaId: input.dentistaId,
+        procedimentoId: input.procedimentoId ?? null,
+        horaInicio: input.horaInicio,
+        horaFim: input.horaFim,
+        consultaOrigemId: null,
+      });
+    }),
+
+  /**
+   * Listar ofertas de vagas
+   */
+  ofertas: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        estado: z.enum(['pendente', 'aceite', 'recusada', 'expirada', 'preenchida']).optional(),
+        limit: z.number().optional().default(50),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const conditions = [eq(ofertasVaga.clinicaId, input.clinicaId)];
+      if (input.estado) {
+        conditions.push(eq(ofertasVaga.estado, input.estado));
+      }
+
+      return await db
+        .select()
+        .from(ofertasVaga)
+        .where(and(...conditions))
+        .orderBy(desc(ofertasVaga.createdAt))
+        .limit(input.limit);
+    }),
+
+  /**
+   * Aceitar uma oferta em nome do utente (ex: resposta por telefone)
+   */
+  aceitarOferta: protectedProcedure
+    .input(z.object({ ofertaId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await ListaEsperaService.aceitarOferta(input.ofertaId);
+    }),
+
+  /**
+   * Recusar uma oferta em nome do utente
+   */
+  recusarOferta: protectedProcedure
+    .input(z.object({ ofertaId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await ListaEsperaService.recusarOferta(input.ofertaId);
+    }),
+
+  /**
+   * Webhook para respostas por SMS (Twilio)
+   * Respostas a ofertas de vagas e a avisos de remarcação
+   */
+  webhookSMS: publicProcedure
+    .input(z.any())
+    .mutation(async ({ input, ctx }) => {
+      // O número de origem identifica o utente: só pedidos assinados pelo Twilio
+      if (!assinaturaTwilioValida(ctx.req, input ?? {})) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Assinatura do webhook inválida' });
+      }
+
+      if (input?.From && input?.Body) {
+        try {
+          const resposta = await ListaEsperaService.processarResposta(input.From, input.Body);
+          if (!resposta.tratada) {
+            await RemarcacaoService.processarResposta(input.From, input.Body);
+          }
+        } catch (error) {
+          console.error('Erro ao processar resposta SMS:', error);
+        }
+      }
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,134 @@
+/**
+ * Router tRPC para Marcação Online
+ * API pública de auto-marcação pelos utentes e configuração pela clínica
+ */
+
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure, publicProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { MarcacaoOnlineService } from '../marcacao-online-service';
+import { consumirLimite, obterIpPedido } from '../rate-limit';
+
+/**
+ * Pedidos permitidos por IP e por endpoint em cada minuto
+ */
+const LIMITE_PEDIDOS_MINUTO = 30;
+
+const marcacaoPublicaProcedure = publicProcedure.use(async ({ ctx, path, next }) => {
+  const ip = obterIpPedido(ctx.req);
+  if (!consumirLimite(`marcacao-online:${path}:${ip}`, LIMITE_PEDIDOS_MINUTO, 60 * 1000)) {
+    throw new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: 'Demasiados pedidos. Aguarde um momento e tente novamente.',
+    });
+  }
+
+  return next({ ctx: { ...ctx, ip } });
+});
+
+const configuracaoSchema = z.object({
+  ativo: z.boolean().optional(),
+  procedimentoIds: z.array(z.number()).optional(),
+  dentistaIds: z.array(z.number()).optional(),
+  antecedenciaMinimaMinutos: z.number().int().min(0).optional(),
+  antecedenciaMaximaDias: z.number().int().min(1).max(365).optional(),
+});
+
+export const marcacaoOnlineRouter = router({
+  /**
+   * Procedimentos disponíveis para marcação online
+   */
+  procedimentos: marcacaoPublicaProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await MarcacaoOnlineService.listarProcedimentos(input.clinicaId);
+    }),
+
+  /**
+   * Dentistas disponíveis para marcação online
+   */
+  dentistas: marcacaoPublicaProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await MarcacaoOnlineService.listarDentistas(input.clinicaId);
+    }),
+
+  /**
+   * Horários livres num dia para um procedimento
+   */
+  horarios: marcacaoPublicaProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        procedimentoId: z.number(),
+        data: z.date(),
+        dentistaId: z.number().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await MarcacaoOnlineService.horariosLivres(input);
+    }),
+
+  /**
+   * Reservar um horário e enviar o código de confirmação
+   */
+  reservar: marcacaoPublicaProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        procedimentoId: z.number(),
+        dentistaId: z.number(),
+        horaInicio: z.date(),
+        nome: z.string().trim().min(2).max(255),
+        telemovel: z.string().trim().min(9).max(20),
+        email: z.string().email().optional(),
+        nif: z.string().regex(/^\d{9}$/, 'NIF inválido').optional(),
+        canalCodigo: z.enum(['sms', 'email']).optional().default('sms'),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await MarcacaoOnlineService.reservarHorario({ ...input, ip: ctx.ip });
+    }),
+
+  /**
+   * Confirmar a reserva com o código recebido
+   */
+  confirmar: marcacaoPublicaProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+        codigo: z.string().regex(/^\d{6}$/, 'Código inválido'),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await MarcacaoOnlineService.confirmarReserva(input.token, input.codigo);
+    }),
+
+  /**
+   * Desistir de uma reserva ainda não confirmada
+   */
+  cancelar: marcacaoPublicaProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      return await MarcacaoOnlineService.cancelarReserva(input.token);
+    }),
+
+  /**
+   * Obter configuração de marcação online da clínica
+   */
+  configuracao: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await MarcacaoOnlineService.obterConfiguracao(input.clinicaId);
+    }),
+
+  /**
+   * Guardar configuração de marcação online da clínica
+   */
+  guardarConfiguracao: protectedProcedure
+    .input(configuracaoSchema.extend({ clinicaId: z.number() }))
+    .mutation(async ({ input }) => {
+      const { clinicaId, ...dados } = input;
+      return await MarcacaoOnlineService.guardarConfiguracao(clinicaId, dados);
+    }),
+});
@@ -0,0 +1,106 @@
+/**
+ * Router tRPC para Pagamentos Multibanco
+ * Configuração da entidade, referências de faturas e prestações e conciliação dos pagamentos
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  anularReferencia,
+  gerarReferencia,
+  guardarConfiguracao,
+  importarFicheiroPagamentos,
+  listarReferencias,
+  obterConfiguracao,
+  simularPagamento,
+} from '../multibanco';
+
+export const multibancoRouter = router({
+  /**
+   * Configuração Multibanco da clínica
+   */
+  configuracao: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await obterConfiguracao(input.clinicaId);
+    }),
+
+  /**
+   * Guardar entidade, subentidade e provedor
+   */
+  guardarConfiguracao: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        provedor: z.enum(['ifthenpay', 'simulador']),
+        entidade: z.string().regex(/^\d{5}$/, 'A entidade tem de ter 5 dígitos'),
+        subentidade: z.string().regex(/^\d{3}$/, 'A subentidade tem de ter 3 dígitos'),
+        chaveAntiPhishing: z.string().max(100).nullable().optional(),
+        validadeDias: z.number().int().min(1).max(365).optional(),
+        ativo: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await guardarConfiguracao(input);
+    }),
+
+  /**
+   * Gerar a referência de uma fatura ou de uma prestação
+   */
+  gerarReferencia: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        faturaId: z.number().optional(),
+        prestacaoId: z.number().optional(),
+        dataLimite: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await gerarReferencia(input);
+    }),
+
+  /**
+   * Listar referências
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        estado: z.enum(['pendente', 'paga', 'expirada', 'anulada']).optional(),
+        utenteId: z.number().optional(),
+        faturaId: z.number().optional(),
+        prestacaoId: z.number().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listarReferencias(input);
+    }),
+
+  /**
+   * Anular uma referência pendente
+   */
+  anular: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), referenciaId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await anularReferencia(input.referenciaId, input.clinicaId);
+    }),
+
+  /**
+   * Importar o ficheiro de pagamentos do provedor (CSV)
+   */
+  importarPagamentos: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), conteudo: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      return await importarFicheiroPagamentos(input.clinicaId, input.conteudo);
+    }),
+
+  /**
+   * Simular o pagamento de uma referência (provedor simulador)
+   */
+  simularPagamento: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), referenciaId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await simularPagamento(input.referenciaId, input.clinicaId);
+    }),
+});
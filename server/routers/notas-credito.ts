@@ -0,0 +1,73 @@
+/**
+ * Router tRPC para Notas de Crédito
+ * Retificação total ou parcial de faturas emitidas, com reembolso opcional
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { emitirNotaCredito, listarNotasCredito, obterNotaCredito } from '../notas-credito';
+
+export const notasCreditoRouter = router({
+  /**
+   * Listar notas de crédito (da clínica, de uma fatura ou de um utente)
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        faturaId: z.number().optional(),
+        utenteId: z.number().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listarNotasCredito(input);
+    }),
+
+  /**
+   * Obter nota de crédito com linhas e fatura de origem
+   */
+  porId: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        clinicaId: z.number(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await obterNotaCredito(input.id, input.clinicaId);
+    }),
+
+  /**
+   * Emitir nota de crédito (total, por linhas ou por valor)
+   */
+  emitir: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        faturaId: z.number(),
+        motivo: z.string().min(3).max(500),
+        linhas: z
+          .array(
+            z.object({
+              itemFaturaId: z.number(),
+              quantidade: z.number().int().positive().optional(),
+              valor: z.number().positive().optional(),
+            })
+          )
+          .min(1)
+          .optional(),
+        valor: z.number().positive().optional(),
+        reembolso: z
+          .object({
+            metodoPagamento: z.enum(['dinheiro', 'cartao', 'transferencia', 'mbway', 'multibanco', 'outro']),
+            valor: z.number().positive().optional(),
+            referencia: z.string().optional(),
+          })
+          .optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const nota = await emitirNotaCredito({ ...input, userId: ctx.user.id });
+      return { id: nota.id, numero: nota.numero, valorTotal: nota.valorTotal, success: true };
+    }),
+});
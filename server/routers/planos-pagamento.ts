@@ -0,0 +1,150 @@
+/**
+ * Router tRPC para Planos de Pagamento
+ * Tratamentos pagos em prestações: criação, pagamentos, ajustes, reagendamento e previsão
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  ajustarPlano,
+  cancelarPlano,
+  criarPlano,
+  listarPlanos,
+  obterPlano,
+  pagarPrestacoes,
+  previsaoRecebimentosPlanos,
+  reagendarPlano,
+} from '../planos-pagamento';
+
+const data = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data no formato AAAA-MM-DD');
+
+export const planosPagamentoRouter = router({
+  /**
+   * Listar planos da clínica ou de um utente
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        utenteId: z.number().optional(),
+        estado: z.enum(['ativo', 'concluido', 'cancelado']).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listarPlanos(input);
+    }),
+
+  /**
+   * Plano com as prestações
+   */
+  porId: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), planoId: z.number() }))
+    .query(async ({ input }) => {
+      return await obterPlano(input.planoId, input.clinicaId);
+    }),
+
+  /**
+   * Criar plano (entrada opcional e prestações com periodicidade em meses)
+   */
+  criar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        utenteId: z.number(),
+        faturaId: z.number().optional(),
+        descricao: z.string().min(1).max(255),
+        valorTotal: z.number().positive(),
+        valorEntrada: z.number().min(0).optional(),
+        numeroPrestacoes: z.number().int().min(1).max(60),
+        periodicidadeMeses: z.number().int().min(1).max(12).optional(),
+        dataInicio: data,
+        observacoes: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await criarPlano({ ...input, userId: ctx.user.id });
+    }),
+
+  /**
+   * Registar o pagamento de uma ou mais prestações
+   */
+  pagar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        planoId: z.number(),
+        valor: z.number().positive(),
+        metodoPagamento: z.enum(['dinheiro', 'cartao', 'transferencia', 'mbway', 'multibanco', 'outro']),
+        dataPagamento: z.date().optional(),
+        referencia: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await pagarPrestacoes({
+        ...input,
+        dataPagamento: input.dataPagamento ?? new Date(),
+        userId: ctx.user.id,
+      });
+    }),
+
+  /**
+   * Ajustar valores ou vencimentos de prestações em aberto
+   */
+  ajustar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        planoId: z.number(),
+        descricao: z.string().min(1).max(255).optional(),
+        observacoes: z.string().optional(),
+        prestacoes: z
+          .array(
+            z.object({
+              prestacaoId: z.number(),
+              valor: z.number().positive().optional(),
+              dataVencimento: data.optional(),
+            })
+          )
+          .optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await ajustarPlano(input);
+    }),
+
+  /**
+   * Reagendar o valor em falta em novas prestações
+   */
+  reagendar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        planoId: z.number(),
+        dataPrimeiraPrestacao: data,
+        numeroPrestacoes: z.number().int().min(1).max(60),
+        periodicidadeMeses: z.number().int().min(1).max(12).optional(),
+        observacoes: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await reagendarPlano(input);
+    }),
+
+  /**
+   * Cancelar plano (o que já foi pago fica na conta corrente)
+   */
+  cancelar: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), planoId: z.number(), motivo: z.string().optional() }))
+    .mutation(async ({ input }) => {
+      return await cancelarPlano(input);
+    }),
+
+  /**
+   * Recebimentos previstos por mês (prestações por receber)
+   */
+  previsao: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), meses: z.number().int().min(1).max(36).default(12) }))
+    .query(async ({ input }) => {
+      return await previsaoRecebimentosPlanos(input.clinicaId, input.meses);
+    }),
+});
@@ -0,0 +1,228 @@
+/**
+ * Router tRPC para Planos de Tratamento
+ * Orçamentos ao utente por fases, aceitação por link assinado, agendamento e faturação dos itens
+ */
+
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure, publicProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  aceitarPlano,
+  agendarItens,
+  anularPlano,
+  enviarPlano,
+  faturarItens,
+  guardarPlano,
+  indicadoresAceitacao,
+  itensPorFaturar,
+  listarPlanos,
+  obterPlano,
+  obterPlanoPublico,
+  recusarPlano,
+} from '../planos-tratamento';
+import { consumirLimite, obterIpPedido } from '../rate-limit';
+
+/**
+ * Pedidos permitidos por IP e por endpoint em cada minuto
+ */
+const LIMITE_PEDIDOS_MINUTO = 20;
+
+const planoPublicoProcedure = publicProcedure.use(async ({ ctx, path, next }) => {
+  const ip = obterIpPedido(ctx.req);
+  if (!consumirLimite(`plano-tratamento:${path}:${ip}`, LIMITE_PEDIDOS_MINUTO, 60 * 1000)) {
+    throw new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: 'Demasiados pedidos. Aguarde um momento e tente novamente.',
+    });
+  }
+
+  return next({ ctx: { ...ctx, ip } });
+});
+
+const preco = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Preço inválido');
+
+const itemSchema = z.object({
+  procedimentoId: z.number().nullable().optional(),
+  dente: z.string().regex(/^[1-8][1-8]$/, 'Dente inválido (numeração FDI)').nullable().optional(),
+  faces: z.string().regex(/^[MODVLPI]{1,5}$/, 'Faces inválidas').nullable().optional(),
+  descricao: z.string().max(500).optional(),
+  quantidade: z.number().int().min(1).default(1),
+  precoUnitario: preco.optional(),
+});
+
+const estadoPlano = z.enum(['rascunho', 'enviado', 'aceite', 'aceite_parcial', 'recusado', 'expirado', 'concluido', 'anulado']);
+
+export const planosTratamentoRouter = router({
+  /**
+   * Planos da clínica (de um utente ou num estado)
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        utenteId: z.number().optional(),
+        dentistaId: z.number().optional(),
+        estado: estadoPlano.optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listarPlanos(input);
+    }),
+
+  /**
+   * Plano com as fases e os itens
+   */
+  obter: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), planoId: z.number() }))
+    .query(async ({ input }) => {
+      return await obterPlano(input.planoId, input.clinicaId);
+    }),
+
+  /**
+   * Criar ou alterar um plano em rascunho
+   */
+  guardar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        planoId: z.number().optional(),
+        utenteId: z.number(),
+        dentistaId: z.number(),
+        titulo: z.string().min(1).max(255),
+        observacoes: z.string().nullable().optional(),
+        validoAte: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data no formato AAAA-MM-DD'),
+        fases: z.array(
+          z.object({
+            nome: z.string().min(1).max(255),
+            descricao: z.string().nullable().optional(),
+            itens: z.array(itemSchema.extend({ alternativas: z.array(itemSchema).optional() })),
+          })
+        ).min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await guardarPlano({ ...input, userId: ctx.user.id });
+    }),
+
+  /**
+   * Enviar o link de aceitação ao utente (ou só gerá-lo)
+   */
+  enviar: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), planoId: z.number(), canal: z.enum(['email', 'sms', 'nenhum']).default('email') }))
+    .mutation(async ({ input }) => {
+      return await enviarPlano(input);
+    }),
+
+  anular: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), planoId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await anularPlano(input.planoId, input.clinicaId);
+    }),
+
+  /**
+   * Agendar itens aceites numa consulta
+   */
+  agendar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        planoId: z.number(),
+        itensIds: z.array(z.number()).min(1),
+        dentistaId: z.number().optional(),
+        horaInicio: z.date(),
+        horaFim: z.date(),
+        ignorarConflitos: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await agendarItens(input);
+    }),
+
+  /**
+   * Itens realizados por faturar
+   */
+  porFaturar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        planoId: z.number().optional(),
+        utenteId: z.number().optional(),
+        consultaId: z.number().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await itensPorFaturar(input);
+    }),
+
+  /**
+   * Faturar itens realizados (uma linha da fatura por item)
+   */
+  faturar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        planoId: z.number(),
+        itensIds: z.array(z.number()).min(1),
+        tipoDocumento: z.enum(['FT', 'FS', 'FR']).default('FT'),
+        dataFatura: z.date(),
+        dataVencimento: z.date().optional(),
+        percentagemIVA: z.string().default('0'),
+        valorDesconto: z.string().default('0'),
+        observacoes: z.string().optional(),
+        // Obrigatório na fatura-recibo (FR)
+        pagamento: z.object({
+          metodoPagamento: z.enum(['dinheiro', 'cartao', 'transferencia', 'mbway', 'multibanco', 'outro']),
+          referencia: z.string().optional(),
+        }).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const fatura = await faturarItens(input);
+      return { id: fatura.id, numeroFatura: fatura.numeroFatura, atcud: fatura.atcud, success: true };
+    }),
+
+  /**
+   * Taxa de aceitação dos planos enviados no período
+   */
+  indicadores: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), dataInicio: z.date(), dataFim: z.date() }))
+    .query(async ({ input }) => {
+      return await indicadoresAceitacao(input.clinicaId, input.dataInicio, input.dataFim);
+    }),
+
+  // ============================================
+  // LINK PÚBLICO DO UTENTE
+  // ============================================
+
+  /**
+   * Plano visto pelo utente
+   */
+  publico: planoPublicoProcedure
+    .input(z.object({ token: z.string().min(20).max(64) }))
+    .query(async ({ input }) => {
+      return await obterPlanoPublico(input.token);
+    }),
+
+  /**
+   * Aceitar o plano, todo ou em parte, com assinatura
+   */
+  aceitar: planoPublicoProcedure
+    .input(
+      z.object({
+        token: z.string().min(20).max(64),
+        itensIds: z.array(z.number()).min(1),
+        assinaturaNome: z.string().min(3).max(255),
+        // PNG desenhado no ecrã
+        assinaturaImagem: z.string().regex(/^data:image\/png;base64,/).max(500_000).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await aceitarPlano({ ...input, ip: ctx.ip });
+    }),
+
+  recusar: planoPublicoProcedure
+    .input(z.object({ token: z.string().min(20).max(64), motivo: z.string().max(1000).optional() }))
+    .mutation(async ({ input, ctx }) => {
+      return await recusarPlano({ ...input, ip: ctx.ip });
+    }),
+});
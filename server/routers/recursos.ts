@@ -0,0 +1,208 @@
+/**
+ * Router tRPC para Recursos da Agenda
+ * Gabinetes, cadeiras e equipamentos, requisitos por procedimento e ocupação
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { getDb } from '../db';
+import { recursos, procedimentosRecursos } from '../../drizzle/schema-recursos';
+import { eq, and } from 'drizzle-orm';
+import {
+  listarOcupacaoRecursos,
+  obterRecursosConsulta,
+  verificarDisponibilidadeRecursos,
+} from '../recursos-agenda';
+
+const tipoRecursoSchema = z.enum(['gabinete', 'cadeira', 'equipamento']);
+
+export const recursosRouter = router({
+  /**
+   * Listar recursos da clínica
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        tipo: tipoRecursoSchema.optional(),
+        incluirInativos: z.boolean().optional().default(false),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const conditions = [eq(recursos.clinicaId, input.clinicaId)];
+      if (input.tipo) {
+        conditions.push(eq(recursos.tipo, input.tipo));
+      }
+      if (!input.incluirInativos) {
+        conditions.push(eq(recursos.ativo, true));
+      }
+
+      return await db
+        .select()
+        .from(recursos)
+        .where(and(...conditions))
+        .orderBy(recursos.tipo, recursos.nome);
+    }),
+
+  /**
+   * Criar recurso
+   */
+  criar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        tipo: tipoRecursoSchema,
+        nome: z.string().min(1).max(255),
+        descricao: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const [recurso] = await db
+        .insert(recursos)
+        .values({
+          clinicaId: input.clinicaId,
+          tipo: input.tipo,
+          nome: input.nome,
+          descricao: input.descricao ?? null,
+        })
+        .returning();
+
+      return { id: recurso.id, success: true };
+    }),
+
+  /**
+   * Atualizar recurso (desativar com ativo=false mantém o histórico de consultas)
+   */
+  atualizar: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        clinicaId: z.number(),
+        nome: z.string().min(1).max(255).optional(),
+        descricao: z.string().optional(),
+        ativo: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      const { id, clinicaId, ...data } = input;
+
+      await db
+        .update(recursos)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(recursos.id, id), eq(recursos.clinicaId, clinicaId)));
+
+      return { success: true };
+    }),
+
+  /**
+   * Obter recursos exigidos por um procedimento
+   */
+  requisitosProcedimento: protectedProcedure
+    .input(z.object({ procedimentoId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      return await db
+        .select()
+        .from(procedimentosRecursos)
+        .where(eq(procedimentosRecursos.procedimentoId, input.procedimentoId));
+    }),
+
+  /**
+   * Definir recursos exigidos por um procedimento (substitui os requisitos atuais)
+   * Cada requisito é um recurso concreto (ex: raio-X panorâmico) ou N recursos de um tipo (ex: 1 cadeira)
+   */
+  definirRequisitosProcedimento: protectedProcedure
+    .input(
+      z.object({
+        procedimentoId: z.number(),
+        requisitos: z.array(
+          z
+            .object({
+              recursoId: z.number().optional(),
+              tipoRecurso: tipoRecursoSchema.optional(),
+              quantidade: z.number().int().min(1).optional().default(1),
+            })
+            .refine(r => (r.recursoId === undefined) !== (r.tipoRecurso === undefined), {
+              message: 'Indique um recurso concreto ou um tipo de recurso',
+            })
+        ),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error('Database not available');
+
+      await db.transaction(async tx => {
+        await tx
+          .delete(procedimentosRecursos)
+          .where(eq(procedimentosRecursos.procedimentoId, input.procedimentoId));
+
+        if (input.requisitos.length > 0) {
+          await tx.insert(procedimentosRecursos).values(
+            input.requisitos.map(r => ({
+              procedimentoId: input.procedimentoId,
+              recursoId: r.recursoId ?? null,
+              tipoRecurso: r.tipoRecurso ?? null,
+              quantidade: r.recursoId ? 1 : r.quantidade,
+            }))
+          );
+        }
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Recursos atribuídos a uma consulta
+   */
+  recursosConsulta: protectedProcedure
+    .input(z.object({ consultaId: z.number() }))
+    .query(async ({ input }) => {
+      return await obterRecursosConsulta(input.consultaId);
+    }),
+
+  /**
+   * Ocupação dos recursos num período (agenda por gabinete/equipamento)
+   */
+  ocupacao: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dataInicio: z.date(),
+        dataFim: z.date(),
+        recursoIds: z.array(z.number()).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listarOcupacaoRecursos(input);
+    }),
+
+  /**
+   * Verificar se os recursos necessários estão livres num horário
+   */
+  verificarDisponibilidade: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        procedimentoId: z.number().optional(),
+        recursoIds: z.array(z.number()).optional(),
+        horaInicio: z.date(),
+        horaFim: z.date(),
+        consultaIdExcluir: z.number().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await verificarDisponibilidadeRecursos(input);
+    }),
+});
@@ -0,0 +1,69 @@
+/**
+ * Router tRPC para Remarcações em Bloco
+ * Proposta e aplicação de novas datas quando um dentista fica indisponível
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { RemarcacaoService } from '../remarcacao-service';
+
+export const remarcacoesRouter = router({
+  /**
+   * Propor nova data para as consultas do dentista no período (não altera a agenda)
+   */
+  proposta: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number(),
+        dataInicio: z.date(),
+        dataFim: z.date(),
+        mesmoDentista: z.boolean().optional().default(true),
+        outrosDentistas: z.boolean().optional().default(true),
+      })
+    )
+    .query(async ({ input }) => {
+      return await RemarcacaoService.proporRemarcacao(input);
+    }),
+
+  /**
+   * Aplicar a proposta revista pela receção e avisar os utentes
+   */
+  aplicar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        itens: z
+          .array(
+            z.object({
+              consultaId: z.number(),
+              dentistaId: z.number(),
+              horaInicio: z.date(),
+              horaFim: z.date(),
+            })
+          )
+          .min(1)
+          .max(200),
+        motivo: z.string().max(500).optional(),
+        notificarUtentes: z.boolean().optional().default(true),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await RemarcacaoService.aplicarRemarcacao({ ...input, user: ctx.user });
+    }),
+
+  /**
+   * Listar remarcações e respostas dos utentes (recusada = consulta por remarcar pela receção)
+   */
+  listar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        lote: z.string().optional(),
+        estado: z.enum(['pendente', 'aceite', 'recusada']).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await RemarcacaoService.listarRemarcacoes(input);
+    }),
+});
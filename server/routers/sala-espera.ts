@@ -0,0 +1,67 @@
+/**
+ * Router tRPC para Sala de Espera
+ * Check-in na receção, chamada do próximo utente e fila em tempo real
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  chamarProximoUtente,
+  fazerCheckIn,
+  obterFilaEspera,
+  subscreverFilaEspera,
+} from '../sala-espera';
+
+const filaSchema = z.object({
+  clinicaId: z.number(),
+  dentistaId: z.number().optional(),
+});
+
+export const salaEsperaRouter = router({
+  /**
+   * Fila do dia (por chegar, sala de espera, em atendimento)
+   */
+  fila: protectedProcedure
+    .input(filaSchema.extend({ data: z.date().optional() }))
+    .query(async ({ input }) => {
+      return await obterFilaEspera(input);
+    }),
+
+  /**
+   * Fila em tempo real para os ecrãs da receção (Server-Sent Events)
+   */
+  filaAoVivo: protectedProcedure
+    .input(filaSchema)
+    .subscription(async function* ({ input, signal }) {
+      yield* subscreverFilaEspera(input, signal);
+    }),
+
+  /**
+   * Registar a chegada do utente
+   */
+  checkIn: protectedProcedure
+    .input(
+      z.object({
+        consultaId: z.number(),
+        clinicaId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await fazerCheckIn({ ...input, user: ctx.user });
+    }),
+
+  /**
+   * Chamar o próximo utente (ou um utente concreto) para a cadeira
+   */
+  chamarProximo: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        dentistaId: z.number(),
+        consultaId: z.number().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await chamarProximoUtente({ ...input, user: ctx.user });
+    }),
+});
@@ -0,0 +1,230 @@
+/**
+ * Router tRPC para Seguradoras e Acordos
+ * Entidades, tabelas de preços, apólices dos utentes, lotes de faturação às entidades e valores a receber
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import {
+  anularLote,
+  contasReceberEntidades,
+  criarLote,
+  enviarLote,
+  exportarLoteCSV,
+  guardarApolice,
+  guardarEntidade,
+  guardarPreco,
+  listarApolices,
+  listarComparticipacoes,
+  listarEntidades,
+  listarLotes,
+  listarPrecos,
+  obterLote,
+  registarPagamentoLote,
+  removerPreco,
+  retirarDoLote,
+} from '../seguradoras';
+
+const valor = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Valor inválido');
+const data = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data no formato AAAA-MM-DD');
+
+export const seguradorasRouter = router({
+  /**
+   * Entidades com acordo (seguradoras, subsistemas e acordos)
+   */
+  entidades: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), apenasAtivas: z.boolean().default(false) }))
+    .query(async ({ input }) => {
+      return await listarEntidades(input.clinicaId, input.apenasAtivas);
+    }),
+
+  guardarEntidade: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        entidadeId: z.number().optional(),
+        nome: z.string().min(1).max(255),
+        tipo: z.enum(['seguradora', 'subsistema', 'acordo']),
+        codigo: z.string().max(50).nullable().optional(),
+        nif: z.string().max(20).nullable().optional(),
+        email: z.string().email().nullable().optional(),
+        telefone: z.string().max(50).nullable().optional(),
+        morada: z.string().nullable().optional(),
+        prazoPagamentoDias: z.number().int().min(0).max(365).default(60),
+        ativo: z.boolean().optional(),
+        observacoes: z.string().nullable().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await guardarEntidade(input);
+    }),
+
+  /**
+   * Tabela de preços de uma entidade
+   */
+  precos: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), entidadeId: z.number() }))
+    .query(async ({ input }) => {
+      return await listarPrecos(input.entidadeId, input.clinicaId);
+    }),
+
+  /**
+   * Criar ou alterar o preço acordado de um procedimento e o copagamento do utente
+   */
+  guardarPreco: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        precoId: z.number().optional(),
+        entidadeId: z.number(),
+        procedimentoId: z.number(),
+        codigoEntidade: z.string().max(50).nullable().optional(),
+        preco: valor,
+        tipoCopagamento: z.enum(['valor', 'percentagem']),
+        copagamento: valor,
+        requerAutorizacao: z.boolean().optional(),
+        validoDesde: data.nullable().optional(),
+        validoAte: data.nullable().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await guardarPreco(input);
+    }),
+
+  removerPreco: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), precoId: z.number() }))
+    .mutation(async ({ input }) => {
+      return await removerPreco(input.precoId, input.clinicaId);
+    }),
+
+  /**
+   * Apólices / cartões de beneficiário de um utente
+   */
+  apolices: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), utenteId: z.number() }))
+    .query(async ({ input }) => {
+      return await listarApolices(input.utenteId, input.clinicaId);
+    }),
+
+  guardarApolice: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        apoliceId: z.number().optional(),
+        utenteId: z.number(),
+        entidadeId: z.number(),
+        numeroApolice: z.string().min(1).max(100),
+        titular: z.string().max(255).nullable().optional(),
+        validaDesde: data.nullable().optional(),
+        validaAte: data.nullable().optional(),
+        ativa: z.boolean().optional(),
+        observacoes: z.string().nullable().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await guardarApolice(input);
+    }),
+
+  /**
+   * Comparticipações (parte das entidades nos atos faturados)
+   */
+  comparticipacoes: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        entidadeId: z.number().optional(),
+        estado: z.enum(['pendente', 'em_lote', 'paga', 'recusada']).optional(),
+        loteId: z.number().optional(),
+        utenteId: z.number().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      return await listarComparticipacoes(input);
+    }),
+
+  /**
+   * Lotes de faturação às entidades
+   */
+  lotes: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), entidadeId: z.number().optional(), ano: z.number().int().optional() }))
+    .query(async ({ input }) => {
+      return await listarLotes(input);
+    }),
+
+  lote: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), loteId: z.number() }))
+    .query(async ({ input }) => {
+      return await obterLote(input.loteId, input.clinicaId);
+    }),
+
+  /**
+   * Criar o lote de uma entidade com as comparticipações pendentes do período
+   */
+  criarLote: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), entidadeId: z.number(), dataInicio: data, dataFim: data }))
+    .mutation(async ({ ctx, input }) => {
+      return await criarLote({ ...input, userId: ctx.user.id });
+    }),
+
+  /**
+   * Retirar linhas de um lote ainda não enviado
+   */
+  retirarDoLote: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), loteId: z.number(), comparticipacoesIds: z.array(z.number()).min(1) }))
+    .mutation(async ({ input }) => {
+      return await retirarDoLote(input);
+    }),
+
+  anularLote: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), loteId: z.number(), motivo: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      return await anularLote(input);
+    }),
+
+  /**
+   * Marcar o lote como enviado (começa a contar o prazo de pagamento)
+   */
+  enviarLote: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), loteId: z.number(), dataEnvio: z.date().optional() }))
+    .mutation(async ({ input }) => {
+      return await enviarLote(input);
+    }),
+
+  /**
+   * Registar o pagamento da entidade e as linhas recusadas
+   */
+  registarPagamento: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        loteId: z.number(),
+        valor: valor.default('0'),
+        dataPagamento: z.date(),
+        referencia: z.string().optional(),
+        observacoes: z.string().optional(),
+        recusas: z.array(z.object({ comparticipacaoId: z.number(), motivo: z.string().min(1) })).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await registarPagamentoLote({ ...input, userId: ctx.user.id });
+    }),
+
+  /**
+   * Exportar o lote em CSV (base64) para envio à entidade
+   */
+  exportarLote: protectedProcedure
+    .input(z.object({ clinicaId: z.number(), loteId: z.number() }))
+    .query(async ({ input }) => {
+      const { nomeFicheiro, conteudo } = await exportarLoteCSV(input.loteId, input.clinicaId);
+      return { nomeFicheiro, conteudo: conteudo.toString('base64') };
+    }),
+
+  /**
+   * Valores a receber por entidade (por faturar, em lote e vencidos)
+   */
+  contasReceber: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await contasReceberEntidades(input.clinicaId);
+    }),
+});
@@ -0,0 +1,50 @@
+/**
+ * Router tRPC para Séries de Documentos
+ * Registo das séries comunicadas à AT e respetivos códigos de validação (ATCUD)
+ */
+
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { desativarSerie, listarSeries, registarSerie } from '../documentos-fiscais';
+
+export const seriesDocumentosRouter = router({
+  /**
+   * Listar séries da clínica (ativas e anteriores)
+   */
+  listar: protectedProcedure
+    .input(z.object({ clinicaId: z.number() }))
+    .query(async ({ input }) => {
+      return await listarSeries(input.clinicaId);
+    }),
+
+  /**
+   * Registar série comunicada à AT (passa a ser a série ativa do tipo de documento)
+   */
+  registar: protectedProcedure
+    .input(
+      z.object({
+        clinicaId: z.number(),
+        tipoDocumento: z.enum(['FT', 'FS', 'FR', 'NC', 'RC']),
+        serie: z.string().min(1).max(35),
+        codigoValidacao: z.string().min(8).max(50),
+        numeroInicial: z.number().int().positive().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await registarSerie(input);
+    }),
+
+  /**
+   * Desativar série (sem série ativa não é possível emitir documentos desse tipo)
+   */
+  desativar: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        clinicaId: z.number(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await desativarSerie(input.id, input.clinicaId);
+    }),
+});
@@ -3,8 +3,13 @@
  */
 
 import { router, protectedProcedure, publicProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { whatsappService } from '../whatsapp-service';
+import { assinaturaTwilioValida } from '../integrations/twilio/assinatura';
+import { ListaEsperaService } from '../lista-espera-service';
+import { RemarcacaoService } from '../remarcacao-service';
+import { obterFusoClinica, partesData } from '../fuso-horario';
 import { getDb } from '../db';
 import { utentes, mensagensUtente } from '../../drizzle/schema';
 import { eq } from 'drizzle-orm';
@@ -167,7 +172,13 @@ export const whatsappRouter = router({
    */
   webhookMeta: publicProcedure
     .input(z.any())
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      // As respostas confirmam marcações: só pedidos assinados pela Meta
+      const corpo = (ctx.req as typeof ctx.req & { rawBody?: Buffer }).rawBody;
+      if (!whatsappService.assinaturaMetaValida(corpo, ctx.req.get('X-Hub-Signature-256'))) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Assinatura do webhook inválida' });
+      }
+
       const message = await whatsappService.processMetaWebhook(input);
 
       if (message) {
@@ -197,10 +208,20 @@ export const whatsappRouter = router({
               dataEnvio: new Date(message.timestamp),
             });
 
+            // Resposta a uma oferta de vaga da lista de espera
+            const respostaOferta = await ListaEsperaService.processarResposta(message.from, message.text);
+            if (respostaOferta.tratada) {
+              return { success: true };
+            }
+
+            // Resposta a um aviso de remarcação (SIM confirma, NAO fica por remarcar pela receção)
+            const respostaRemarcacao = await RemarcacaoService.processarResposta(message.from, message.text);
+            if (respostaRemarcacao.tratada) {
+              return { success: true };
+            }
+
             // Resposta automática (fora de horário)
-            const agora = new Date();
-            const hora = agora.getHours();
-            const diaSemana = agora.getDay();
+            const { hora, diaSemana } = partesData(new Date(), await obterFusoClinica(utente.clinicaId));
             
             // Se for fora do horário (antes das 8h ou depois das 20h, ou fim de semana)
             if (hora < 8 || hora >= 20 || diaSemana === 0 || diaSemana === 6) {
@@ -225,7 +246,12 @@ export const whatsappRouter = router({
    */
   webhookTwilio: publicProcedure
     .input(z.any())
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      // As respostas confirmam marcações: só pedidos assinados pelo Twilio
+      if (!assinaturaTwilioValida(ctx.req, input ?? {})) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Assinatura do webhook inválida' });
+      }
+
       const message = await whatsappService.processTwilioWebhook(input);
 
       if (message) {
@@ -255,10 +281,20 @@ export const whatsappRouter = router({
               dataEnvio: new Date(message.timestamp),
             });
 
+            // Resposta a uma oferta de vaga da lista de espera
+            const respostaOferta = await ListaEsperaService.processarResposta(message.from, message.text);
+            if (respostaOferta.tratada) {
+              return { success: true };
+            }
+
+            // Resposta a um aviso de remarcação (SIM confirma, NAO fica por remarcar pela receção)
+            const respostaRemarcacao = await RemarcacaoService.processarResposta(message.from, message.text);
+            if (respostaRemarcacao.tratada) {
+              return { success: true };
+            }
+
             // Resposta automática (fora de horário)
-            const agora = new Date();
-            const hora = agora.getHours();
-            const diaSemana = agora.getDay();
+            const { hora, diaSemana } = partesData(new Date(), await obterFusoClinica(utente.clinicaId));
             
             // Se for fora do horário (antes das 8h ou depois das 20h, ou fim de semana)
             if (hora < 8 || hora >= 20 || diaSemana === 0 || diaSemana === 6) {
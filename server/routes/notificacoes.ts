@@ -11,6 +11,7 @@ import {
   gerarMensagemCancelamentoConsulta,
   gerarMensagemPersonalizada,
 } from "../integrations/twilio/templates";
+import { formatarDataCurta, formatarHora, obterFusoClinica } from "../fuso-horario";
 
 /**
  * Router de Notificações
@@ -52,14 +53,12 @@ export const notificacoesRouter = router({
       }
 
       // Gerar mensagem
+      const fuso = await obterFusoClinica(consulta.consulta.clinicaId);
       const mensagem = gerarMensagemLembreteConsulta({
         nomeUtente: consulta.utente.nome,
         nomeDentista: consulta.dentista.nome,
-        dataConsulta: new Date(consulta.consulta.horaInicio).toLocaleDateString('pt-PT'),
-        horaConsulta: new Date(consulta.consulta.horaInicio).toLocaleTimeString('pt-PT', {
-          hour: '2-digit',
-          minute: '2-digit',
-        }),
+        dataConsulta: formatarDataCurta(consulta.consulta.horaInicio, fuso),
+        horaConsulta: formatarHora(consulta.consulta.horaInicio, fuso),
         nomeClinica: 'DentCarePro', // TODO: Buscar nome da clínica
       });
 
@@ -115,7 +114,7 @@ export const notificacoesRouter = router({
         numeroFatura: fatura.fatura.numeroFatura,
         valor: `€${parseFloat(fatura.fatura.valorTotal).toFixed(2)}`,
         dataVencimento: fatura.fatura.dataVencimento 
-          ? new Date(fatura.fatura.dataVencimento).toLocaleDateString('pt-PT')
+          ? formatarDataCurta(fatura.fatura.dataVencimento, await obterFusoClinica(fatura.fatura.clinicaId))
           : 'N/A',
         linkPagamento: input.linkPagamento,
       });
@@ -168,13 +167,11 @@ export const notificacoesRouter = router({
       }
 
       // Gerar mensagem
+      const fuso = await obterFusoClinica(consulta.consulta.clinicaId);
       const mensagem = gerarMensagemConfirmacaoAgendamento({
         nomeUtente: consulta.utente.nome,
-        dataConsulta: new Date(consulta.consulta.horaInicio).toLocaleDateString('pt-PT'),
-        horaConsulta: new Date(consulta.consulta.horaInicio).toLocaleTimeString('pt-PT', {
-          hour: '2-digit',
-          minute: '2-digit',
-        }),
+        dataConsulta: formatarDataCurta(consulta.consulta.horaInicio, fuso),
+        horaConsulta: formatarHora(consulta.consulta.horaInicio, fuso),
         nomeDentista: consulta.dentista.nome,
         nomeClinica: 'DentCarePro',
       });
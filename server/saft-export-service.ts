@@ -1,27 +1,134 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { memoryPages, validateXML } from "xmllint-wasm";
 import { getDb } from "./db";
-import { faturas, itensFatura, utentes, clinicas } from "../drizzle/schema";
-import { eq, and, gte, lte } from "drizzle-orm";
+import { ENV } from "./_core/env";
+import { faturas, itensFatura, pagamentosFatura, procedimentos, utentes, clinicas } from "../drizzle/schema";
+import { notasCredito, itensNotaCredito, type NotaCredito } from "../drizzle/schema-faturacao";
+import { chaveDia, dataNoFuso, obterFusoClinica, partesData } from "./fuso-horario";
+import {
+  codigoTaxaIVA,
+  espacoFiscal,
+  formatarDataSistema,
+  MOTIVO_ISENCAO_PADRAO,
+  MOTIVOS_ISENCAO_IVA,
+  NIF_CONSUMIDOR_FINAL,
+  linhasComDesconto,
+  totaisDocumento,
+  type TotalTaxa,
+} from "./documentos-fiscais";
+import { eq, and, gte, lte, inArray, isNotNull, asc } from "drizzle-orm";
 
 /**
  * Servico de Exportacao SAF-T PT
  * Standard Audit File for Tax Purposes - Portugal
- * 
+ *
  * Formato XML obrigatorio para comunicacao com a Autoridade Tributaria
  * Usado pelos contabilistas para declaracoes fiscais
+ *
+ * - Versao 1.04_01, faturacao (TaxAccountingBasis F): clientes, produtos (procedimentos),
+ *   tabela de IVA, faturas, notas de credito e recibos do periodo
+ * - Datas na hora local da clinica (as mesmas usadas na assinatura dos documentos)
+ * - Valores das linhas sem IVA e deduzidos do desconto do documento
+ * - O ficheiro e validado contra o XSD oficial antes de ser devolvido
  */
 
 interface SAFTExportOptions {
   clinicaId: number;
   dataInicio: Date;
   dataFim: Date;
-  tipoDocumento?: "FT" | "FS" | "FR" | "NC" | "ND"; // Fatura, Fatura Simplificada, Fatura Recibo, Nota Credito, Nota Debito
+  tipoDocumento?: "FT" | "FS" | "FR" | "NC" | "ND" | "RC"; // Fatura, Fatura Simplificada, Fatura Recibo, Nota Credito, Nota Debito, Recibo
+}
+
+export interface ResultadoExportacaoSAFT {
+  xml: string;
+  valido: boolean;
+  erros: string[];
+}
+
+/**
+ * Linha de documento ja convertida para SAF-T (valores em centimos)
+ */
+interface LinhaSAFT {
+  codigoProduto: string;
+  descricao: string;
+  quantidade: number;
+  valorLiquido: number; // Sem IVA, deduzido do desconto do documento
+  taxaIVA: number;
+  motivoIsencao: string | null;
+}
+
+type Utente = typeof utentes.$inferSelect;
+type PagamentoFatura = typeof pagamentosFatura.$inferSelect;
+
+/**
+ * Fatura do periodo com as linhas convertidas (e os pagamentos, nas faturas-recibo)
+ */
+interface DocumentoFaturaSAFT {
+  fatura: typeof faturas.$inferSelect;
+  utente: Utente;
+  linhas: LinhaSAFT[];
+  pagamentos: PagamentoFatura[];
+}
+
+/**
+ * Nota de credito do periodo com as linhas convertidas e o numero da fatura retificada
+ */
+interface DocumentoNotaCreditoSAFT {
+  notaCredito: NotaCredito;
+  utente: Utente;
+  numeroFatura: string;
+  linhas: LinhaSAFT[];
+}
+
+/**
+ * Pagamento com recibo emitido (uma linha do recibo)
+ */
+interface LinhaReciboSAFT {
+  pagamento: PagamentoFatura;
+  fatura: { numeroFatura: string; dataFatura: Date };
+  utente: Utente;
+}
+
+/**
+ * Caminho do XSD oficial (SAFTPT1_04_01.xsd, publicado no Portal das Financas)
+ * Nao vem com o repositorio (ver README): por omissao em server/saft, resolvido a partir deste
+ * modulo tanto no codigo fonte (server/) como no build (dist/)
+ */
+const CAMINHO_XSD = process.env.SAFT_XSD_PATH || path.resolve(import.meta.dirname, "..", "server", "saft", "SAFTPT1_04_01.xsd");
+
+// Utentes sem NIF sao exportados como um unico cliente "Consumidor final"
+const CLIENTE_CONSUMIDOR_FINAL = "CF";
+
+// Linhas sem procedimento associado
+const PRODUTO_GENERICO = { codigo: "SERVICO", descricao: "Servicos de medicina dentaria" };
+
+// Mecanismos de pagamento do SAF-T
+const MECANISMOS_PAGAMENTO: Record<string, string> = {
+  dinheiro: "NU",
+  cartao: "CC",
+  transferencia: "TB",
+  mbway: "DE",
+  multibanco: "MB",
+  outro: "OU",
+};
+
+const DESCRICOES_TAXA: Record<string, string> = {
+  ISE: "Isento",
+  RED: "Taxa reduzida",
+  INT: "Taxa intermedia",
+  NOR: "Taxa normal",
+};
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
 }
 
 export class SAFTExportService {
   /**
-   * Exportar dados no formato SAF-T PT (XML)
+   * Exportar dados no formato SAF-T PT (XML), validado contra o XSD oficial
    */
-  static async exportarSAFT(options: SAFTExportOptions): Promise<string> {
+  static async exportarSAFT(options: SAFTExportOptions): Promise<ResultadoExportacaoSAFT> {
     const db = await getDb();
     if (!db) throw new Error("Database not available");
 
@@ -32,92 +139,266 @@ export class SAFTExportService {
       .where(eq(clinicas.id, options.clinicaId));
 
     if (!clinica) throw new Error("Clinica not found");
+    if (!/^\d{9}$/.test(clinica.nif?.replace(/\s/g, "") || "")) {
+      throw new Error("Configure um NIF valido da clinica antes de exportar o SAF-T");
+    }
 
-    // Obter faturas do periodo
-    const faturasData = await db
-      .select()
+    const fuso = await obterFusoClinica(options.clinicaId);
+
+    const incluirFaturas = !options.tipoDocumento || ["FT", "FS", "FR"].includes(options.tipoDocumento);
+    const incluirNotasCredito = !options.tipoDocumento || options.tipoDocumento === "NC";
+    const incluirRecibos = !options.tipoDocumento || options.tipoDocumento === "RC";
+
+    // Faturas do periodo
+    const faturasData = !incluirFaturas ? [] : await db
+      .select({ fatura: faturas, utente: utentes })
       .from(faturas)
-      .leftJoin(utentes, eq(faturas.utenteId, utentes.id))
+      .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
       .where(
         and(
           eq(faturas.clinicaId, options.clinicaId),
           gte(faturas.dataFatura, options.dataInicio),
-          lte(faturas.dataFatura, options.dataFim)
+          lte(faturas.dataFatura, options.dataFim),
+          options.tipoDocumento ? eq(faturas.tipoDocumento, options.tipoDocumento as "FT" | "FS" | "FR") : undefined
         )
-      );
+      )
+      .orderBy(asc(faturas.dataFatura), asc(faturas.id));
 
-    // Obter itens de todas as faturas
-    const faturasIds = faturasData.map(f => f.faturas.id);
-    const itens = faturasIds.length > 0 
+    const faturasIds = faturasData.map(f => f.fatura.id);
+    const itens = faturasIds.length > 0
       ? await db
           .select()
           .from(itensFatura)
-          .where(eq(itensFatura.faturaId, faturasIds[0])) // Simplificado
+          .where(inArray(itensFatura.faturaId, faturasIds))
+          .orderBy(asc(itensFatura.id))
+      : [];
+
+    // Pagamentos das faturas-recibo (indicados nos totais do proprio documento)
+    const faturasRecibo = faturasData.filter(f => f.fatura.tipoDocumento === "FR").map(f => f.fatura.id);
+    const pagamentosFR = faturasRecibo.length > 0
+      ? await db
+          .select()
+          .from(pagamentosFatura)
+          .where(inArray(pagamentosFatura.faturaId, faturasRecibo))
+      : [];
+
+    // Notas de credito do periodo, com a fatura de origem e as linhas creditadas
+    const notasData = !incluirNotasCredito ? [] : await db
+      .select({
+        notaCredito: notasCredito,
+        utente: utentes,
+        fatura: { numeroFatura: faturas.numeroFatura },
+      })
+      .from(notasCredito)
+      .innerJoin(faturas, eq(notasCredito.faturaId, faturas.id))
+      .innerJoin(utentes, eq(notasCredito.utenteId, utentes.id))
+      .where(
+        and(
+          eq(notasCredito.clinicaId, options.clinicaId),
+          gte(notasCredito.dataEmissao, options.dataInicio),
+          lte(notasCredito.dataEmissao, options.dataFim)
+        )
+      )
+      .orderBy(asc(notasCredito.dataEmissao), asc(notasCredito.id));
+
+    const notasIds = notasData.map(n => n.notaCredito.id);
+    const itensNotas = notasIds.length > 0
+      ? await db
+          .select()
+          .from(itensNotaCredito)
+          .where(inArray(itensNotaCredito.notaCreditoId, notasIds))
+          .orderBy(asc(itensNotaCredito.id))
       : [];
 
+    // Recibos (pagamentos com RC emitido) do periodo
+    const recibosData = !incluirRecibos ? [] : await db
+      .select({
+        pagamento: pagamentosFatura,
+        fatura: { numeroFatura: faturas.numeroFatura, dataFatura: faturas.dataFatura },
+        utente: utentes,
+      })
+      .from(pagamentosFatura)
+      .innerJoin(faturas, eq(pagamentosFatura.faturaId, faturas.id))
+      .innerJoin(utentes, eq(faturas.utenteId, utentes.id))
+      .where(
+        and(
+          eq(faturas.clinicaId, options.clinicaId),
+          isNotNull(pagamentosFatura.numeroRecibo),
+          gte(pagamentosFatura.dataPagamento, options.dataInicio),
+          lte(pagamentosFatura.dataPagamento, options.dataFim)
+        )
+      )
+      .orderBy(asc(pagamentosFatura.dataPagamento), asc(pagamentosFatura.id));
+
+    // Produtos: procedimentos faturados ou creditados no periodo
+    const procedimentosIds = Array.from(new Set(
+      [...itens, ...itensNotas].map(i => i.procedimentoId).filter((id): id is number => !!id)
+    ));
+    const procedimentosData = procedimentosIds.length > 0
+      ? await db
+          .select()
+          .from(procedimentos)
+          .where(inArray(procedimentos.id, procedimentosIds))
+      : [];
+
+    const regiao = espacoFiscal(fuso);
+
+    // Converter documentos para linhas SAF-T
+    const documentosFaturas = faturasData.map(({ fatura, utente }) => ({
+      fatura,
+      utente,
+      linhas: this.linhasDocumento(itens.filter(i => i.faturaId === fatura.id), fatura),
+      pagamentos: pagamentosFR.filter(p => p.faturaId === fatura.id),
+    }));
+
+    const documentosNotas = notasData.map(({ notaCredito, utente, fatura }) => ({
+      notaCredito,
+      utente,
+      numeroFatura: fatura.numeroFatura,
+      linhas: this.linhasDocumento(itensNotas.filter(i => i.notaCreditoId === notaCredito.id), notaCredito),
+    }));
+
     // Gerar XML SAF-T PT
-    const xml = this.gerarXMLSAFT(clinica, faturasData, itens, options);
+    const xml = this.gerarXMLSAFT({
+      clinica,
+      fuso,
+      regiao,
+      options,
+      faturas: documentosFaturas,
+      notas: documentosNotas,
+      recibos: recibosData,
+      procedimentos: procedimentosData,
+    });
 
-    return xml;
+    const validacao = await this.validarSAFT(xml);
+
+    return { xml, ...validacao };
   }
 
   /**
-   * Gerar XML no formato SAF-T PT
+   * Validar o ficheiro contra o XSD oficial do SAF-T PT 1.04_01
    */
-  private static gerarXMLSAFT(
-    clinica: any,
-    faturas: any[],
+  static async validarSAFT(xml: string): Promise<{ valido: boolean; erros: string[] }> {
+    let xsd: string;
+    try {
+      xsd = await readFile(CAMINHO_XSD, "utf8");
+    } catch {
+      return {
+        valido: false,
+        erros: [`XSD oficial do SAF-T nao encontrado em ${CAMINHO_XSD} (defina SAFT_XSD_PATH)`],
+      };
+    }
+
+    const resultado = await validateXML({
+      xml: [{ fileName: "saft.xml", contents: xml }],
+      schema: [{ fileName: "SAFTPT1_04_01.xsd", contents: xsd }],
+      maxMemoryPages: memoryPages.GiB,
+    });
+
+    return {
+      valido: resultado.valid,
+      erros: resultado.errors.map(e => (e.loc ? `Linha ${e.loc.lineNumber}: ${e.message}` : e.message)),
+    };
+  }
+
+  /**
+   * Linhas de um documento sem IVA, com o desconto do documento repartido pelas linhas
+   * (o desconto e aplicado ao total com IVA, por isso e convertido para valor sem IVA a taxa
+   * de cada linha)
+   */
+  private static linhasDocumento(
     itens: any[],
-    options: SAFTExportOptions
-  ): string {
-    const dataExportacao = new Date().toISOString();
-    
+    documento: { percentagemIVA: string; valorDesconto: string; valorTotal: string; valorIVA: string }
+  ): LinhaSAFT[] {
+    // Documentos antigos sem linhas: uma linha com o valor total sem IVA
+    if (itens.length === 0) {
+      const taxaIVA = parseFloat(documento.percentagemIVA || "0");
+      return [{
+        codigoProduto: PRODUTO_GENERICO.codigo,
+        descricao: PRODUTO_GENERICO.descricao,
+        quantidade: 1,
+        valorLiquido: centimos(documento.valorTotal) - centimos(documento.valorIVA),
+        taxaIVA,
+        motivoIsencao: taxaIVA === 0 ? MOTIVO_ISENCAO_PADRAO : null,
+      }];
+    }
+
+    const linhasIVA = itens.map(item => ({
+      valor: centimos(item.precoTotal),
+      taxa: parseFloat(item.taxaIVA),
+      motivoIsencao: item.motivoIsencao,
+    }));
+    const liquidos = linhasComDesconto(linhasIVA, centimos(documento.valorDesconto));
+
+    return itens.map((item, indice) => ({
+      codigoProduto: item.procedimentoId ? `P${item.procedimentoId}` : PRODUTO_GENERICO.codigo,
+      descricao: item.descricao,
+      quantidade: item.quantidade || 1,
+      valorLiquido: liquidos[indice],
+      taxaIVA: linhasIVA[indice].taxa,
+      motivoIsencao: linhasIVA[indice].taxa === 0 ? item.motivoIsencao || MOTIVO_ISENCAO_PADRAO : null,
+    }));
+  }
+
+  /**
+   * Gerar XML no formato SAF-T PT
+   */
+  private static gerarXMLSAFT(dados: {
+    clinica: any;
+    fuso: string;
+    regiao: string;
+    options: SAFTExportOptions;
+    faturas: DocumentoFaturaSAFT[];
+    notas: DocumentoNotaCreditoSAFT[];
+    recibos: LinhaReciboSAFT[];
+    procedimentos: any[];
+  }): string {
+    const { clinica, fuso, options } = dados;
+    const nif = clinica.nif.replace(/\s/g, "");
+
     // Header
     let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
     xml += '<AuditFile xmlns="urn:OECD:StandardAuditFile-Tax:PT_1.04_01">\n';
-    
+
     // Header
     xml += '  <Header>\n';
     xml += `    <AuditFileVersion>1.04_01</AuditFileVersion>\n`;
-    xml += `    <CompanyID>${clinica.nif || 'N/A'}</CompanyID>\n`;
-    xml += `    <TaxRegistrationNumber>${clinica.nif || 'N/A'}</TaxRegistrationNumber>\n`;
+    xml += `    <CompanyID>${nif}</CompanyID>\n`;
+    xml += `    <TaxRegistrationNumber>${nif}</TaxRegistrationNumber>\n`;
     xml += `    <TaxAccountingBasis>F</TaxAccountingBasis>\n`; // F = Faturacao
-    xml += `    <CompanyName>${this.escapeXML(clinica.nome)}</CompanyName>\n`;
+    xml += `    <CompanyName>${this.texto(clinica.nome, 100)}</CompanyName>\n`;
     xml += `    <CompanyAddress>\n`;
-    xml += `      <AddressDetail>${this.escapeXML(clinica.morada || '')}</AddressDetail>\n`;
-    xml += `      <City>${this.escapeXML(clinica.cidade || '')}</City>\n`;
-    xml += `      <PostalCode>${clinica.codigoPostal || ''}</PostalCode>\n`;
-    xml += `      <Country>${clinica.pais || 'PT'}</Country>\n`;
+    xml += `      <AddressDetail>${this.texto(clinica.morada || 'Desconhecido', 210)}</AddressDetail>\n`;
+    xml += `      <City>${this.texto(clinica.cidade || 'Desconhecido', 50)}</City>\n`;
+    xml += `      <PostalCode>${this.codigoPostalPT(clinica.codigoPostal)}</PostalCode>\n`;
+    xml += `      <Country>PT</Country>\n`;
     xml += `    </CompanyAddress>\n`;
-    xml += `    <FiscalYear>${options.dataInicio.getFullYear()}</FiscalYear>\n`;
-    xml += `    <StartDate>${this.formatDate(options.dataInicio)}</StartDate>\n`;
-    xml += `    <EndDate>${this.formatDate(options.dataFim)}</EndDate>\n`;
+    xml += `    <FiscalYear>${partesData(options.dataInicio, fuso).ano}</FiscalYear>\n`;
+    xml += `    <StartDate>${this.formatDate(options.dataInicio, fuso)}</StartDate>\n`;
+    xml += `    <EndDate>${this.formatDate(options.dataFim, fuso)}</EndDate>\n`;
     xml += `    <CurrencyCode>EUR</CurrencyCode>\n`;
-    xml += `    <DateCreated>${this.formatDate(new Date())}</DateCreated>\n`;
+    xml += `    <DateCreated>${this.formatDate(new Date(), fuso)}</DateCreated>\n`;
     xml += `    <TaxEntity>Global</TaxEntity>\n`;
-    xml += `    <ProductCompanyTaxID>999999990</ProductCompanyTaxID>\n`; // NIF do software
-    xml += `    <SoftwareCertificateNumber>0</SoftwareCertificateNumber>\n`;
-    xml += `    <ProductID>DentCarePro SaaS/5.6.0</ProductID>\n`;
+    xml += `    <ProductCompanyTaxID>${ENV.atNifProdutor}</ProductCompanyTaxID>\n`; // NIF do produtor do software
+    xml += `    <SoftwareCertificateNumber>${ENV.atNumeroCertificado}</SoftwareCertificateNumber>\n`;
+    xml += `    <ProductID>DentCarePro SaaS/DentCarePro</ProductID>\n`;
     xml += `    <ProductVersion>5.6.0</ProductVersion>\n`;
     xml += '  </Header>\n';
 
-    // Master Files (Clientes)
+    // Master Files (Clientes, Produtos e Tabela de IVA)
     xml += '  <MasterFiles>\n';
-    xml += this.gerarMasterFiles(faturas);
+    xml += this.gerarClientes([...dados.faturas, ...dados.notas, ...dados.recibos].map(d => d.utente));
+    xml += this.gerarProdutos([...dados.faturas, ...dados.notas], dados.procedimentos);
+    xml += this.gerarTabelaIVA([...dados.faturas, ...dados.notas], dados.regiao);
     xml += '  </MasterFiles>\n';
 
-    // Source Documents (Faturas)
     xml += '  <SourceDocuments>\n';
-    xml += '    <SalesInvoices>\n';
-    xml += `      <NumberOfEntries>${faturas.length}</NumberOfEntries>\n`;
-    xml += `      <TotalDebit>${this.calcularTotalDebito(faturas)}</TotalDebit>\n`;
-    xml += `      <TotalCredit>0.00</TotalCredit>\n`;
-    
-    faturas.forEach((fatura, index) => {
-      xml += this.gerarInvoice(fatura, index + 1);
-    });
-    
-    xml += '    </SalesInvoices>\n';
+    if (dados.faturas.length > 0 || dados.notas.length > 0) {
+      xml += this.gerarSalesInvoices(dados.faturas, dados.notas, fuso, dados.regiao);
+    }
+    if (dados.recibos.length > 0) {
+      xml += this.gerarPayments(dados.recibos, fuso);
+    }
     xml += '  </SourceDocuments>\n';
 
     xml += '</AuditFile>';
@@ -126,32 +407,45 @@ export class SAFTExportService {
   }
 
   /**
-   * Gerar secao MasterFiles (Clientes)
+   * Identificador do cliente no SAF-T (utentes sem NIF sao "Consumidor final")
    */
-  private static gerarMasterFiles(faturas: any[]): string {
+  private static idCliente(utente: any): string {
+    return utente?.nif?.trim() ? `U${utente.id}` : CLIENTE_CONSUMIDOR_FINAL;
+  }
+
+  /**
+   * Gerar clientes (MasterFiles/Customer)
+   */
+  private static gerarClientes(utentesDocumentos: any[]): string {
     let xml = '';
-    
+
     // Extrair clientes unicos
-    const clientesMap = new Map();
-    faturas.forEach(f => {
-      if (f.utentes && !clientesMap.has(f.utentes.id)) {
-        clientesMap.set(f.utentes.id, f.utentes);
-      }
+    const clientesMap = new Map<string, any>();
+    utentesDocumentos.forEach(utente => {
+      const id = this.idCliente(utente);
+      if (!clientesMap.has(id)) clientesMap.set(id, utente);
     });
 
-    const clientes = Array.from(clientesMap.values());
+    clientesMap.forEach((cliente, id) => {
+      const consumidorFinal = id === CLIENTE_CONSUMIDOR_FINAL;
 
-    clientes.forEach(cliente => {
       xml += '    <Customer>\n';
-      xml += `      <CustomerID>${cliente.id}</CustomerID>\n`;
+      xml += `      <CustomerID>${id}</CustomerID>\n`;
       xml += `      <AccountID>Desconhecido</AccountID>\n`;
-      xml += `      <CustomerTaxID>${cliente.nif || '999999990'}</CustomerTaxID>\n`;
-      xml += `      <CompanyName>${this.escapeXML(cliente.nome)}</CompanyName>\n`;
+      xml += `      <CustomerTaxID>${consumidorFinal ? NIF_CONSUMIDOR_FINAL : this.texto(cliente.nif.replace(/\s/g, ''), 30)}</CustomerTaxID>\n`;
+      xml += `      <CompanyName>${consumidorFinal ? 'Consumidor final' : this.texto(cliente.nome, 100)}</CompanyName>\n`;
       xml += `      <BillingAddress>\n`;
-      xml += `        <AddressDetail>${this.escapeXML(cliente.morada || 'Desconhecido')}</AddressDetail>\n`;
-      xml += `        <City>${this.escapeXML(cliente.cidade || 'Desconhecido')}</City>\n`;
-      xml += `        <PostalCode>${cliente.codigoPostal || '0000-000'}</PostalCode>\n`;
-      xml += `        <Country>${cliente.pais || 'PT'}</Country>\n`;
+      if (consumidorFinal) {
+        xml += `        <AddressDetail>Desconhecido</AddressDetail>\n`;
+        xml += `        <City>Desconhecido</City>\n`;
+        xml += `        <PostalCode>Desconhecido</PostalCode>\n`;
+        xml += `        <Country>Desconhecido</Country>\n`;
+      } else {
+        xml += `        <AddressDetail>${this.texto(cliente.morada || 'Desconhecido', 210)}</AddressDetail>\n`;
+        xml += `        <City>${this.texto(cliente.cidade || 'Desconhecido', 50)}</City>\n`;
+        xml += `        <PostalCode>${this.texto(cliente.codigoPostal || 'Desconhecido', 20)}</PostalCode>\n`;
+        xml += `        <Country>${cliente.pais || 'PT'}</Country>\n`;
+      }
       xml += `      </BillingAddress>\n`;
       xml += `      <SelfBillingIndicator>0</SelfBillingIndicator>\n`;
       xml += '    </Customer>\n';
@@ -161,54 +455,205 @@ export class SAFTExportService {
   }
 
   /**
-   * Gerar uma fatura individual
+   * Gerar produtos (MasterFiles/Product): procedimentos usados nas linhas
    */
-  private static gerarInvoice(faturaData: any, numero: number): string {
-    const fatura = faturaData.faturas;
-    const utente = faturaData.utentes;
+  private static gerarProdutos(documentos: any[], procedimentosData: any[]): string {
+    const codigos = new Set<string>();
+    documentos.forEach(d => d.linhas.forEach((l: LinhaSAFT) => codigos.add(l.codigoProduto)));
+
+    let xml = '';
+    codigos.forEach(codigo => {
+      const procedimento = procedimentosData.find(p => `P${p.id}` === codigo);
+      const descricao = procedimento?.nome || PRODUTO_GENERICO.descricao;
+
+      xml += '    <Product>\n';
+      xml += `      <ProductType>S</ProductType>\n`; // S = Servicos
+      xml += `      <ProductCode>${codigo}</ProductCode>\n`;
+      xml += `      <ProductDescription>${this.texto(descricao, 200, 2)}</ProductDescription>\n`;
+      xml += `      <ProductNumberCode>${this.texto(procedimento?.codigo || codigo, 60)}</ProductNumberCode>\n`;
+      xml += '    </Product>\n';
+    });
+
+    return xml;
+  }
+
+  /**
+   * Gerar tabela de IVA (MasterFiles/TaxTable) com as taxas usadas
+   */
+  private static gerarTabelaIVA(documentos: any[], regiao: string): string {
+    const taxas = new Set<number>();
+    documentos.forEach(d => d.linhas.forEach((l: LinhaSAFT) => taxas.add(l.taxaIVA)));
+    if (taxas.size === 0) return '';
+
+    let xml = '    <TaxTable>\n';
+    Array.from(taxas).sort((a, b) => a - b).forEach(taxa => {
+      const codigo = codigoTaxaIVA(taxa);
+      xml += '      <TaxTableEntry>\n';
+      xml += `        <TaxType>IVA</TaxType>\n`;
+      xml += `        <TaxCountryRegion>${regiao}</TaxCountryRegion>\n`;
+      xml += `        <TaxCode>${codigo}</TaxCode>\n`;
+      xml += `        <Description>${DESCRICOES_TAXA[codigo]}</Description>\n`;
+      xml += `        <TaxPercentage>${this.formatDecimal(taxa)}</TaxPercentage>\n`;
+      xml += '      </TaxTableEntry>\n';
+    });
+    xml += '    </TaxTable>\n';
+
+    return xml;
+  }
+
+  /**
+   * Gerar faturas e notas de credito (SourceDocuments/SalesInvoices)
+   * Totais de controlo: faturas a credito e notas de credito a debito, sem IVA e sem
+   * documentos anulados
+   */
+  private static gerarSalesInvoices(
+    faturasDocs: DocumentoFaturaSAFT[],
+    notasDocs: DocumentoNotaCreditoSAFT[],
+    fuso: string,
+    regiao: string
+  ): string {
+    const liquido = (linhas: LinhaSAFT[]) => linhas.reduce((s, l) => s + l.valorLiquido, 0);
+
+    const totalCredito = faturasDocs
+      .filter(d => d.fatura.estado !== 'cancelada')
+      .reduce((s, d) => s + liquido(d.linhas), 0);
+    const totalDebito = notasDocs.reduce((s, d) => s + liquido(d.linhas), 0);
+
+    let xml = '    <SalesInvoices>\n';
+    xml += `      <NumberOfEntries>${faturasDocs.length + notasDocs.length}</NumberOfEntries>\n`;
+    xml += `      <TotalDebit>${this.formatCentimos(totalDebito)}</TotalDebit>\n`; // Notas de credito
+    xml += `      <TotalCredit>${this.formatCentimos(totalCredito)}</TotalCredit>\n`; // Faturas
+
+    faturasDocs.forEach(documento => {
+      const fatura = documento.fatura;
+      const anulada = fatura.estado === 'cancelada';
+
+      xml += this.gerarInvoice({
+        numero: fatura.numeroFatura,
+        atcud: fatura.atcud,
+        tipo: fatura.tipoDocumento || 'FT',
+        anulado: anulada,
+        dataEstado: anulada ? fatura.updatedAt : fatura.dataSistema || fatura.createdAt,
+        origem: 'Admin',
+        hash: fatura.hash,
+        hashControlo: fatura.hashControlo,
+        data: fatura.dataFatura,
+        dataSistema: fatura.dataSistema || fatura.createdAt,
+        clienteId: this.idCliente(documento.utente),
+        linhas: documento.linhas,
+        natureza: 'CreditAmount',
+        valorTotal: fatura.valorTotal,
+        pagamentos: documento.pagamentos,
+      }, fuso, regiao);
+    });
+
+    notasDocs.forEach(documento => {
+      const nota = documento.notaCredito;
+
+      xml += this.gerarInvoice({
+        numero: nota.numero,
+        atcud: nota.atcud,
+        tipo: 'NC',
+        anulado: false,
+        dataEstado: nota.dataSistema || nota.createdAt,
+        origem: nota.emitidaPor ? String(nota.emitidaPor) : 'Sistema',
+        hash: nota.hash,
+        hashControlo: nota.hashControlo,
+        data: nota.dataEmissao,
+        dataSistema: nota.dataSistema || nota.createdAt,
+        clienteId: this.idCliente(documento.utente),
+        linhas: documento.linhas,
+        natureza: 'DebitAmount',
+        valorTotal: nota.valorTotal,
+        referencia: { documento: documento.numeroFatura, motivo: nota.motivo },
+      }, fuso, regiao);
+    });
+
+    xml += '    </SalesInvoices>\n';
+    return xml;
+  }
+
+  /**
+   * Gerar um documento de venda (fatura, fatura simplificada, fatura-recibo ou nota de credito)
+   */
+  private static gerarInvoice(documento: {
+    numero: string;
+    atcud: string | null;
+    tipo: string;
+    anulado: boolean;
+    dataEstado: Date;
+    origem: string;
+    hash: string | null;
+    hashControlo: string | null;
+    data: Date;
+    dataSistema: Date;
+    clienteId: string;
+    linhas: LinhaSAFT[];
+    natureza: 'CreditAmount' | 'DebitAmount';
+    valorTotal: string;
+    referencia?: { documento: string; motivo: string };
+    pagamentos?: PagamentoFatura[];
+  }, fuso: string, regiao: string): string {
+    const dataDocumento = this.formatDate(documento.data, fuso);
 
     let xml = '      <Invoice>\n';
-    xml += `        <InvoiceNo>${fatura.numeroFatura || numero}</InvoiceNo>\n`;
+    xml += `        <InvoiceNo>${this.texto(documento.numero, 60)}</InvoiceNo>\n`;
+    xml += `        <ATCUD>${documento.atcud || 0}</ATCUD>\n`; // 0 em documentos anteriores as series AT
     xml += `        <DocumentStatus>\n`;
-    xml += `          <InvoiceStatus>${fatura.estado === 'cancelada' ? 'A' : 'N'}</InvoiceStatus>\n`; // N=Normal, A=Anulado
-    xml += `          <InvoiceStatusDate>${this.formatDateTime(fatura.dataFatura)}</InvoiceStatusDate>\n`;
-    xml += `          <SourceID>Admin</SourceID>\n`;
+    xml += `          <InvoiceStatus>${documento.anulado ? 'A' : 'N'}</InvoiceStatus>\n`; // N=Normal, A=Anulado
+    xml += `          <InvoiceStatusDate>${this.formatDateTime(documento.dataEstado, fuso)}</InvoiceStatusDate>\n`;
+    xml += `          <SourceID>${this.texto(documento.origem, 30)}</SourceID>\n`;
     xml += `          <SourceBilling>P</SourceBilling>\n`; // P=Producao
     xml += `        </DocumentStatus>\n`;
-    xml += `        <Hash>0</Hash>\n`; // Simplificado
-    xml += `        <HashControl>0</HashControl>\n`;
-    xml += `        <InvoiceDate>${this.formatDate(fatura.dataFatura)}</InvoiceDate>\n`;
-    xml += `        <InvoiceType>FT</InvoiceType>\n`; // FT=Fatura
-    xml += `        <SourceID>Admin</SourceID>\n`;
-    xml += `        <SystemEntryDate>${this.formatDateTime(fatura.createdAt || fatura.dataFatura)}</SystemEntryDate>\n`;
-    xml += `        <CustomerID>${utente?.id || 0}</CustomerID>\n`;
-
-    // Linhas da fatura
-    xml += '        <Line>\n';
-    xml += `          <LineNumber>1</LineNumber>\n`;
-    xml += `          <ProductCode>SERVICO</ProductCode>\n`;
-    xml += `          <ProductDescription>Servicos dentarios</ProductDescription>\n`;
-    xml += `          <Quantity>1</Quantity>\n`;
-    xml += `          <UnitOfMeasure>UN</UnitOfMeasure>\n`;
-    xml += `          <UnitPrice>${this.formatDecimal(fatura.valorTotal)}</UnitPrice>\n`;
-    xml += `          <TaxPointDate>${this.formatDate(fatura.dataFatura)}</TaxPointDate>\n`;
-    xml += `          <Description>Servicos dentarios</Description>\n`;
-    xml += `          <DebitAmount>${this.formatDecimal(fatura.valorTotal)}</DebitAmount>\n`;
-    xml += `          <Tax>\n`;
-    xml += `            <TaxType>IVA</TaxType>\n`;
-    xml += `            <TaxCountryRegion>PT</TaxCountryRegion>\n`;
-    xml += `            <TaxCode>ISE</TaxCode>\n`; // ISE=Isento (servicos medicos)
-    xml += `            <TaxPercentage>0.00</TaxPercentage>\n`;
-    xml += `          </Tax>\n`;
-    xml += `          <TaxExemptionReason>Isento nos termos do artigo 9 do CIVA</TaxExemptionReason>\n`;
-    xml += `          <SettlementAmount>0.00</SettlementAmount>\n`;
-    xml += '        </Line>\n';
+    xml += `        <Hash>${documento.hash || 0}</Hash>\n`;
+    xml += `        <HashControl>${documento.hashControlo || 0}</HashControl>\n`;
+    xml += `        <InvoiceDate>${dataDocumento}</InvoiceDate>\n`;
+    xml += `        <InvoiceType>${documento.tipo}</InvoiceType>\n`;
+    xml += `        <SpecialRegimes>\n`;
+    xml += `          <SelfBillingIndicator>0</SelfBillingIndicator>\n`;
+    xml += `          <CashVATSchemeIndicator>0</CashVATSchemeIndicator>\n`;
+    xml += `          <ThirdPartiesBillingIndicator>0</ThirdPartiesBillingIndicator>\n`;
+    xml += `        </SpecialRegimes>\n`;
+    xml += `        <SourceID>${this.texto(documento.origem, 30)}</SourceID>\n`;
+    xml += `        <SystemEntryDate>${this.formatDateTime(documento.dataSistema, fuso)}</SystemEntryDate>\n`;
+    xml += `        <CustomerID>${documento.clienteId}</CustomerID>\n`;
+
+    documento.linhas.forEach((linha, index) => {
+      xml += '        <Line>\n';
+      xml += `          <LineNumber>${index + 1}</LineNumber>\n`;
+      xml += `          <ProductCode>${linha.codigoProduto}</ProductCode>\n`;
+      xml += `          <ProductDescription>${this.texto(linha.descricao, 200, 2)}</ProductDescription>\n`;
+      xml += `          <Quantity>${linha.quantidade}</Quantity>\n`;
+      xml += `          <UnitOfMeasure>UN</UnitOfMeasure>\n`;
+      xml += `          <UnitPrice>${this.formatPrecoUnitario(linha.valorLiquido, linha.quantidade)}</UnitPrice>\n`;
+      xml += `          <TaxPointDate>${dataDocumento}</TaxPointDate>\n`;
+      if (documento.referencia) {
+        xml += `          <References>\n`;
+        xml += `            <Reference>${this.texto(documento.referencia.documento, 60)}</Reference>\n`;
+        xml += `            <Reason>${this.texto(documento.referencia.motivo, 50)}</Reason>\n`;
+        xml += `          </References>\n`;
+      }
+      xml += `          <Description>${this.texto(linha.descricao, 200)}</Description>\n`;
+      xml += `          <${documento.natureza}>${this.formatCentimos(linha.valorLiquido)}</${documento.natureza}>\n`;
+      xml += this.gerarImposto(linha, regiao);
+      xml += '        </Line>\n';
+    });
+
+    // Totais: o total com IVA e o do documento assinado; o IVA e a diferenca
+    const liquido = documento.linhas.reduce((s, l) => s + l.valorLiquido, 0);
+    const bruto = centimos(documento.valorTotal);
 
-    // Totais
     xml += '        <DocumentTotals>\n';
-    xml += `          <TaxPayable>0.00</TaxPayable>\n`;
-    xml += `          <NetTotal>${this.formatDecimal(fatura.valorTotal)}</NetTotal>\n`;
-    xml += `          <GrossTotal>${this.formatDecimal(fatura.valorTotal)}</GrossTotal>\n`;
+    xml += `          <TaxPayable>${this.formatCentimos(bruto - liquido)}</TaxPayable>\n`;
+    xml += `          <NetTotal>${this.formatCentimos(liquido)}</NetTotal>\n`;
+    xml += `          <GrossTotal>${this.formatCentimos(bruto)}</GrossTotal>\n`;
+    (documento.pagamentos || []).forEach(pagamento => {
+      xml += `          <Payment>\n`;
+      xml += `            <PaymentMechanism>${MECANISMOS_PAGAMENTO[pagamento.metodoPagamento] || 'OU'}</PaymentMechanism>\n`;
+      xml += `            <PaymentAmount>${this.formatDecimal(pagamento.valor)}</PaymentAmount>\n`;
+      xml += `            <PaymentDate>${this.formatDate(pagamento.dataPagamento, fuso)}</PaymentDate>\n`;
+      xml += `          </Payment>\n`;
+    });
     xml += '        </DocumentTotals>\n';
 
     xml += '      </Invoice>\n';
@@ -217,27 +662,98 @@ export class SAFTExportService {
   }
 
   /**
-   * Calcular total de debito
+   * Imposto de uma linha (com o motivo de isencao quando a taxa e 0)
    */
-  private static calcularTotalDebito(faturas: any[]): string {
-    const total = faturas.reduce((sum, f) => {
-      return sum + parseFloat(f.faturas.valorTotal || 0);
-    }, 0);
-    return this.formatDecimal(total);
+  private static gerarImposto(linha: LinhaSAFT, regiao: string): string {
+    let xml = `          <Tax>\n`;
+    xml += `            <TaxType>IVA</TaxType>\n`;
+    xml += `            <TaxCountryRegion>${regiao}</TaxCountryRegion>\n`;
+    xml += `            <TaxCode>${codigoTaxaIVA(linha.taxaIVA)}</TaxCode>\n`;
+    xml += `            <TaxPercentage>${this.formatDecimal(linha.taxaIVA)}</TaxPercentage>\n`;
+    xml += `          </Tax>\n`;
+    if (linha.motivoIsencao) {
+      xml += `          <TaxExemptionReason>${this.texto(MOTIVOS_ISENCAO_IVA[linha.motivoIsencao], 60)}</TaxExemptionReason>\n`;
+      xml += `          <TaxExemptionCode>${linha.motivoIsencao}</TaxExemptionCode>\n`;
+    }
+    return xml;
   }
 
   /**
-   * Formatar data (YYYY-MM-DD)
+   * Gerar recibos (SourceDocuments/Payments)
+   * Um recibo pode liquidar varias faturas (pagamentos com o mesmo numero de recibo): uma linha
+   * por fatura
    */
-  private static formatDate(date: Date): string {
-    return date.toISOString().split('T')[0];
+  private static gerarPayments(pagamentos: LinhaReciboSAFT[], fuso: string): string {
+    const recibos = new Map<string, LinhaReciboSAFT[]>();
+    pagamentos.forEach(p => {
+      const numero = p.pagamento.numeroRecibo!; // So entram pagamentos com recibo emitido
+      recibos.set(numero, [...(recibos.get(numero) || []), p]);
+    });
+
+    const total = pagamentos.reduce((s, r) => s + centimos(r.pagamento.valor), 0);
+
+    let xml = '    <Payments>\n';
+    xml += `      <NumberOfEntries>${recibos.size}</NumberOfEntries>\n`;
+    xml += `      <TotalDebit>0.00</TotalDebit>\n`;
+    xml += `      <TotalCredit>${this.formatCentimos(total)}</TotalCredit>\n`;
+
+    recibos.forEach((linhas, numero) => {
+      const { pagamento, utente } = linhas[0];
+      const valor = this.formatCentimos(linhas.reduce((s, l) => s + centimos(l.pagamento.valor), 0));
+
+      xml += '      <Payment>\n';
+      xml += `        <PaymentRefNo>${this.texto(numero, 60)}</PaymentRefNo>\n`;
+      xml += `        <ATCUD>${pagamento.atcud || 0}</ATCUD>\n`;
+      xml += `        <TransactionDate>${this.formatDate(pagamento.dataPagamento, fuso)}</TransactionDate>\n`;
+      xml += `        <PaymentType>RC</PaymentType>\n`;
+      xml += `        <DocumentStatus>\n`;
+      xml += `          <PaymentStatus>N</PaymentStatus>\n`;
+      xml += `          <PaymentStatusDate>${this.formatDateTime(pagamento.createdAt, fuso)}</PaymentStatusDate>\n`;
+      xml += `          <SourceID>Admin</SourceID>\n`;
+      xml += `          <SourcePayment>P</SourcePayment>\n`;
+      xml += `        </DocumentStatus>\n`;
+      xml += `        <PaymentMethod>\n`;
+      xml += `          <PaymentMechanism>${MECANISMOS_PAGAMENTO[pagamento.metodoPagamento] || 'OU'}</PaymentMechanism>\n`;
+      xml += `          <PaymentAmount>${valor}</PaymentAmount>\n`;
+      xml += `          <PaymentDate>${this.formatDate(pagamento.dataPagamento, fuso)}</PaymentDate>\n`;
+      xml += `        </PaymentMethod>\n`;
+      xml += `        <SourceID>Admin</SourceID>\n`;
+      xml += `        <SystemEntryDate>${this.formatDateTime(pagamento.createdAt, fuso)}</SystemEntryDate>\n`;
+      xml += `        <CustomerID>${this.idCliente(utente)}</CustomerID>\n`;
+      linhas.forEach(({ pagamento: linha, fatura }, index) => {
+        xml += '        <Line>\n';
+        xml += `          <LineNumber>${index + 1}</LineNumber>\n`;
+        xml += `          <SourceDocumentID>\n`;
+        xml += `            <OriginatingON>${this.texto(fatura.numeroFatura, 60)}</OriginatingON>\n`;
+        xml += `            <InvoiceDate>${this.formatDate(fatura.dataFatura, fuso)}</InvoiceDate>\n`;
+        xml += `          </SourceDocumentID>\n`;
+        xml += `          <CreditAmount>${this.formatDecimal(linha.valor)}</CreditAmount>\n`;
+        xml += '        </Line>\n';
+      });
+      xml += '        <DocumentTotals>\n';
+      xml += `          <TaxPayable>0.00</TaxPayable>\n`;
+      xml += `          <NetTotal>${valor}</NetTotal>\n`;
+      xml += `          <GrossTotal>${valor}</GrossTotal>\n`;
+      xml += '        </DocumentTotals>\n';
+      xml += '      </Payment>\n';
+    });
+
+    xml += '    </Payments>\n';
+    return xml;
+  }
+
+  /**
+   * Formatar data local da clinica (YYYY-MM-DD)
+   */
+  private static formatDate(date: Date, fuso: string): string {
+    return chaveDia(date, fuso);
   }
 
   /**
-   * Formatar data e hora (YYYY-MM-DDTHH:mm:ss)
+   * Formatar data e hora local da clinica (YYYY-MM-DDTHH:mm:ss)
    */
-  private static formatDateTime(date: Date): string {
-    return date.toISOString().split('.')[0];
+  private static formatDateTime(date: Date, fuso: string): string {
+    return formatarDataSistema(date, fuso);
   }
 
   /**
@@ -248,6 +764,38 @@ export class SAFTExportService {
     return num.toFixed(2);
   }
 
+  /**
+   * Formatar valor em centimos (2 casas)
+   */
+  private static formatCentimos(valor: number): string {
+    return (valor / 100).toFixed(2);
+  }
+
+  /**
+   * Preco unitario sem IVA (mais casas decimais quando a divisao nao e exata)
+   */
+  private static formatPrecoUnitario(valorCentimos: number, quantidade: number): string {
+    return valorCentimos % quantidade === 0
+      ? this.formatCentimos(valorCentimos / quantidade)
+      : (valorCentimos / quantidade / 100).toFixed(6);
+  }
+
+  /**
+   * Codigo postal portugues (NNNN-NNN)
+   */
+  private static codigoPostalPT(codigo: string | null): string {
+    const digitos = (codigo || '').replace(/\D/g, '');
+    return digitos.length === 7 ? `${digitos.slice(0, 4)}-${digitos.slice(4)}` : '0000-000';
+  }
+
+  /**
+   * Texto escapado e limitado ao comprimento maximo do campo
+   */
+  private static texto(str: string, maximo: number, minimo = 1): string {
+    const valor = (str || '').trim().slice(0, maximo);
+    return this.escapeXML(valor.length >= minimo ? valor : valor.padEnd(minimo, '.'));
+  }
+
   /**
    * Escapar caracteres especiais XML
    */
@@ -295,16 +843,20 @@ export class SAFTExportService {
 
   /**
    * Gerar relatorio de IVA para contabilista
+   * Base tributavel e IVA por taxa (e motivo de isencao) das faturas emitidas no trimestre,
+   * deduzidos das notas de credito do mesmo periodo
    */
   static async relatorioIVA(clinicaId: number, ano: number, trimestre: number) {
     const db = await getDb();
     if (!db) throw new Error("Database not available");
 
-    // Calcular datas do trimestre
+    // Calcular datas do trimestre (hora local da clinica)
+    const fuso = await obterFusoClinica(clinicaId);
     const mesInicio = (trimestre - 1) * 3 + 1;
-    const mesFim = trimestre * 3;
-    const dataInicio = new Date(ano, mesInicio - 1, 1);
-    const dataFim = new Date(ano, mesFim, 0);
+    const chaveMes = (a: number, m: number) => `${a}-${String(m).padStart(2, "0")}-01`;
+    const dataInicio = dataNoFuso(chaveMes(ano, mesInicio), 0, fuso);
+    const seguinte = trimestre === 4 ? chaveMes(ano + 1, 1) : chaveMes(ano, mesInicio + 3);
+    const dataFim = new Date(dataNoFuso(seguinte, 0, fuso).getTime() - 1);
 
     // Obter faturas do trimestre
     const faturasData = await db
@@ -318,24 +870,75 @@ export class SAFTExportService {
         )
       );
 
+    const notasData = await db
+      .select()
+      .from(notasCredito)
+      .where(
+        and(
+          eq(notasCredito.clinicaId, clinicaId),
+          gte(notasCredito.dataEmissao, dataInicio),
+          lte(notasCredito.dataEmissao, dataFim)
+        )
+      );
+
+    // Rascunhos e faturas anuladas nao contam para o IVA
+    const emitidas = faturasData.filter(f => f.estado !== "rascunho" && f.estado !== "cancelada");
+
+    const itens = emitidas.length > 0
+      ? await db.select().from(itensFatura).where(inArray(itensFatura.faturaId, emitidas.map(f => f.id)))
+      : [];
+    const itensNotas = notasData.length > 0
+      ? await db.select().from(itensNotaCredito).where(inArray(itensNotaCredito.notaCreditoId, notasData.map(n => n.id)))
+      : [];
+
+    const taxas = new Map<string, TotalTaxa>();
+    const acumular = (totais: TotalTaxa[], sinal: number) => {
+      totais.forEach(total => {
+        const chave = `${total.taxa}|${total.motivoIsencao}`;
+        const acumulado = taxas.get(chave) ?? { ...total, base: 0, iva: 0 };
+        acumulado.base += sinal * total.base;
+        acumulado.iva += sinal * total.iva;
+        taxas.set(chave, acumulado);
+      });
+    };
+
+    emitidas.forEach(fatura => {
+      acumular(totaisDocumento(fatura, itens.filter(i => i.faturaId === fatura.id)), 1);
+    });
+    notasData.forEach(nota => {
+      acumular(totaisDocumento(nota, itensNotas.filter(i => i.notaCreditoId === nota.id)), -1);
+    });
+
+    const resumo = Array.from(taxas.values())
+      .sort((a, b) => a.taxa - b.taxa)
+      .map(total => ({
+        taxa: total.taxa,
+        codigo: codigoTaxaIVA(total.taxa),
+        motivoIsencao: total.motivoIsencao,
+        descricaoIsencao: total.motivoIsencao ? MOTIVOS_ISENCAO_IVA[total.motivoIsencao] : null,
+        base: total.base / 100,
+        iva: total.iva / 100,
+      }));
+
     // Calcular totais
     const totalFaturado = faturasData.reduce((sum, f) => sum + parseFloat(f.valorTotal), 0);
     const totalPago = faturasData.reduce((sum, f) => sum + parseFloat(f.valorPago), 0);
 
-    // Servicos medicos sao isentos de IVA em Portugal (Art. 9 CIVA)
-    const ivaIsento = totalFaturado;
-    const ivaCobrado = 0;
+    const ivaIsento = resumo.filter(t => t.taxa === 0).reduce((sum, t) => sum + t.base, 0);
+    const ivaCobrado = resumo.reduce((sum, t) => sum + t.iva, 0);
 
     return {
       periodo: `${ano} - ${trimestre}º Trimestre`,
       dataInicio,
       dataFim,
       numeroFaturas: faturasData.length,
+      numeroNotasCredito: notasData.length,
       totalFaturado,
       totalPago,
       ivaIsento,
       ivaCobrado,
-      observacoes: "Servicos medicos isentos de IVA nos termos do artigo 9 do CIVA",
+      taxas: resumo,
+      observacoes: "Base tributavel e IVA por taxa, deduzidos das notas de credito do periodo",
     };
   }
 }
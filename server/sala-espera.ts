@@ -0,0 +1,337 @@
+import { EventEmitter, on } from "events";
+import type { PoolClient } from "pg";
+import { getDb, getPool } from "./db";
+import { consultas, dentistas, procedimentos, utentes, type User } from "../drizzle/schema";
+import { and, asc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import { obterPapelUtilizador, transicionarEstadoConsulta, type EstadoConsulta } from "./estados-consulta";
+import { fimDoDia, inicioDoDia, obterFusoClinica } from "./fuso-horario";
+
+/**
+ * Sala de Espera
+ * Check-in na receção, chamada do próximo utente pelo dentista e fila em tempo real
+ * Os tempos ficam registados em chegadaEm (check-in), iniciadaEm (cadeira) e concluidaEm
+ */
+
+/**
+ * Minutos de tolerância antes de uma consulta ser assinalada como atrasada
+ */
+const TOLERANCIA_ATRASO_MINUTOS = 10;
+
+/**
+ * Canal Postgres (NOTIFY) com o id da clínica cuja fila mudou
+ * Passa pela base de dados para chegar às subscrições de todas as instâncias do servidor
+ */
+const CANAL_SALA_ESPERA = "sala_espera";
+
+/**
+ * Segundos até voltar a escutar o canal depois de perder a ligação
+ */
+const ESPERA_RELIGAR_SEGUNDOS = 5;
+
+/**
+ * Alterações da fila por clínica ("clinica:<id>"), recebidas do canal e entregues às subscrições desta instância
+ */
+const eventosSalaEspera = new EventEmitter();
+eventosSalaEspera.setMaxListeners(0);
+
+let ligacaoEscuta: Promise<PoolClient | null> | null = null;
+
+export interface ItemFilaEspera {
+  consultaId: number;
+  estado: EstadoConsulta;
+  utente: { id: number; nome: string };
+  dentista: { id: number; nome: string };
+  procedimento: string | null;
+  horaInicio: Date;
+  horaFim: Date;
+  chegadaEm: Date | null;
+  iniciadaEm: Date | null;
+  minutosEspera: number | null; // Tempo na sala de espera (até agora, ou até entrar na cadeira)
+  minutosNaCadeira: number | null;
+  minutosAtrasoUtente: number; // Chegada depois da hora marcada (ou ainda não chegou)
+  minutosAtrasoAgenda: number; // Atendimento ainda não começou (ou começou) depois da hora marcada
+  atrasado: boolean;
+}
+
+function minutosEntre(inicio: Date, fim: Date): number {
+  return Math.round((fim.getTime() - inicio.getTime()) / 60000);
+}
+
+/**
+ * Calcular tempos e atrasos de uma consulta (sem acesso à base de dados)
+ */
+export function calcularTemposConsulta(
+  consulta: { horaInicio: Date; chegadaEm: Date | null; iniciadaEm: Date | null; concluidaEm: Date | null },
+  agora: Date = new Date()
+) {
+  const { horaInicio, chegadaEm, iniciadaEm, concluidaEm } = consulta;
+
+  const minutosEspera = chegadaEm ? minutosEntre(chegadaEm, iniciadaEm ?? agora) : null;
+  const minutosNaCadeira = iniciadaEm ? minutosEntre(iniciadaEm, concluidaEm ?? agora) : null;
+
+  const minutosAtrasoUtente = Math.max(0, minutosEntre(horaInicio, chegadaEm ?? agora));
+
+  // O atraso da agenda conta a partir da hora marcada, ou da chegada se o utente chegou atrasado
+  const referenciaAgenda = chegadaEm && chegadaEm > horaInicio ? chegadaEm : horaInicio;
+  const minutosAtrasoAgenda = chegadaEm
+    ? Math.max(0, minutosEntre(referenciaAgenda, iniciadaEm ?? agora))
+    : 0;
+
+  return {
+    minutosEspera,
+    minutosNaCadeira,
+    minutosAtrasoUtente,
+    minutosAtrasoAgenda,
+    atrasado: !iniciadaEm && Math.max(minutosAtrasoUtente, minutosAtrasoAgenda) > TOLERANCIA_ATRASO_MINUTOS,
+  };
+}
+
+/**
+ * Fila do dia: por chegar, na sala de espera e em atendimento
+ */
+export async function obterFilaEspera(dados: {
+  clinicaId: number;
+  dentistaId?: number;
+  data?: Date;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const agora = new Date();
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  const inicioDia = inicioDoDia(dados.data ?? agora, fuso);
+  const fimDia = fimDoDia(dados.data ?? agora, fuso);
+
+  const conditions = [
+    eq(consultas.clinicaId, dados.clinicaId),
+    gte(consultas.horaInicio, inicioDia),
+    lte(consultas.horaInicio, fimDia),
+    inArray(consultas.estado, ["agendada", "confirmada", "chegou", "em_curso"]),
+  ];
+  if (dados.dentistaId) {
+    conditions.push(eq(consultas.dentistaId, dados.dentistaId));
+  }
+
+  const linhas = await db
+    .select({
+      consulta: consultas,
+      utente: { id: utentes.id, nome: utentes.nome },
+      dentista: { id: dentistas.id, nome: dentistas.nome },
+      procedimento: procedimentos.nome,
+    })
+    .from(consultas)
+    .innerJoin(utentes, eq(consultas.utenteId, utentes.id))
+    .innerJoin(dentistas, eq(consultas.dentistaId, dentistas.id))
+    .leftJoin(procedimentos, eq(consultas.procedimentoId, procedimentos.id))
+    .where(and(...conditions))
+    .orderBy(asc(consultas.horaInicio), asc(consultas.chegadaEm));
+
+  const itens: ItemFilaEspera[] = linhas.map(({ consulta, utente, dentista, procedimento }) => ({
+    consultaId: consulta.id,
+    estado: consulta.estado,
+    utente,
+    dentista,
+    procedimento,
+    horaInicio: consulta.horaInicio,
+    horaFim: consulta.horaFim,
+    chegadaEm: consulta.chegadaEm,
+    iniciadaEm: consulta.iniciadaEm,
+    ...calcularTemposConsulta(consulta, agora),
+  }));
+
+  return {
+    atualizadoEm: agora,
+    porChegar: itens.filter(i => i.estado === "agendada" || i.estado === "confirmada"),
+    salaEspera: itens.filter(i => i.estado === "chegou"),
+    emAtendimento: itens.filter(i => i.estado === "em_curso"),
+  };
+}
+
+/**
+ * Avisar os ecrãs da receção (de todas as instâncias) de que a fila da clínica mudou
+ * Chamar depois de confirmada a transação; uma falha no aviso não anula a alteração
+ */
+export async function notificarSalaEspera(clinicaId: number) {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    await db.execute(sql`SELECT pg_notify(${CANAL_SALA_ESPERA}, ${String(clinicaId)})`);
+  } catch (error) {
+    console.error("[Sala Espera] Erro ao notificar alteração da fila:", error);
+  }
+}
+
+/**
+ * Ligação dedicada que escuta o canal (uma por instância, aberta na primeira subscrição)
+ */
+function escutarSalaEspera() {
+  if (!ligacaoEscuta) {
+    ligacaoEscuta = abrirLigacaoEscuta().catch(error => {
+      console.error("[Sala Espera] Erro ao escutar alterações da fila:", error);
+      religarEscuta();
+      return null;
+    });
+  }
+  return ligacaoEscuta;
+}
+
+async function abrirLigacaoEscuta() {
+  const pool = await getPool();
+  if (!pool) throw new Error("Database not available");
+
+  const client = await pool.connect();
+  let perdida = false;
+  const perder = (error?: Error) => {
+    if (perdida) return;
+    perdida = true;
+    if (error) console.error("[Sala Espera] Ligação de escuta perdida:", error);
+    client.release(error ?? true);
+    religarEscuta();
+  };
+
+  client.on("notification", mensagem => {
+    if (mensagem.channel === CANAL_SALA_ESPERA && mensagem.payload) {
+      eventosSalaEspera.emit(`clinica:${mensagem.payload}`);
+    }
+  });
+  client.on("error", perder);
+  client.on("end", () => perder());
+
+  try {
+    await client.query(`LISTEN ${CANAL_SALA_ESPERA}`);
+  } catch (error) {
+    perdida = true;
+    client.release(error as Error);
+    throw error;
+  }
+
+  return client;
+}
+
+/**
+ * Voltar a escutar depois de uma falha, se ainda houver ecrãs ligados
+ * Os avisos perdidos entretanto são compensados com uma atualização de todas as filas subscritas
+ */
+function religarEscuta() {
+  ligacaoEscuta = null;
+  setTimeout(async () => {
+    const subscritas = eventosSalaEspera.eventNames();
+    if (subscritas.length === 0) return;
+
+    if (await escutarSalaEspera()) {
+      for (const evento of subscritas) eventosSalaEspera.emit(evento);
+    }
+  }, ESPERA_RELIGAR_SEGUNDOS * 1000).unref();
+}
+
+/**
+ * Fila atualizada sempre que houver alterações (primeiro valor: fila atual)
+ */
+export async function* subscreverFilaEspera(
+  dados: { clinicaId: number; dentistaId?: number },
+  signal?: AbortSignal
+) {
+  // Escutar antes de ler a fila, para não perder alterações feitas entre as duas
+  const eventos = on(eventosSalaEspera, `clinica:${dados.clinicaId}`, { signal });
+  await escutarSalaEspera();
+
+  try {
+    yield await obterFilaEspera(dados);
+
+    for await (const _ of eventos) {
+      yield await obterFilaEspera(dados);
+    }
+  } finally {
+    await eventos.return?.();
+  }
+}
+
+/**
+ * Carregar consulta da clínica
+ */
+async function obterConsulta(consultaId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [consulta] = await db
+    .select()
+    .from(consultas)
+    .where(and(eq(consultas.id, consultaId), eq(consultas.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!consulta) throw new Error("Consulta não encontrada");
+  return consulta;
+}
+
+/**
+ * Check-in do utente na receção
+ */
+export async function fazerCheckIn(dados: {
+  consultaId: number;
+  clinicaId: number;
+  user: Pick<User, "id" | "role">;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const consulta = await obterConsulta(dados.consultaId, dados.clinicaId);
+
+  const papel = await obterPapelUtilizador(dados.user, dados.clinicaId);
+
+  await db.transaction(async tx => {
+    await transicionarEstadoConsulta(tx, {
+      consulta,
+      estado: "chegou",
+      papel,
+      userId: dados.user.id,
+    });
+  });
+
+  await notificarSalaEspera(dados.clinicaId);
+
+  return { success: true };
+}
+
+/**
+ * O dentista chama o próximo utente (ou um utente concreto) da sala de espera para a cadeira
+ * Sem consulta indicada, é chamado o utente com a hora marcada mais cedo
+ */
+export async function chamarProximoUtente(dados: {
+  clinicaId: number;
+  dentistaId: number;
+  consultaId?: number;
+  user: Pick<User, "id" | "role">;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const papel = await obterPapelUtilizador(dados.user, dados.clinicaId);
+
+  let consulta;
+  if (dados.consultaId) {
+    consulta = await obterConsulta(dados.consultaId, dados.clinicaId);
+    if (consulta.dentistaId !== dados.dentistaId) {
+      throw new Error("A consulta não pertence a este dentista");
+    }
+  } else {
+    const { salaEspera } = await obterFilaEspera({ clinicaId: dados.clinicaId, dentistaId: dados.dentistaId });
+    if (salaEspera.length === 0) {
+      throw new Error("Não há utentes na sala de espera");
+    }
+    consulta = await obterConsulta(salaEspera[0].consultaId, dados.clinicaId);
+  }
+
+  await db.transaction(async tx => {
+    await transicionarEstadoConsulta(tx, {
+      consulta,
+      estado: "em_curso",
+      papel,
+      userId: dados.user.id,
+    });
+  });
+
+  await notificarSalaEspera(dados.clinicaId);
+
+  return { success: true, consultaId: consulta.id };
+}
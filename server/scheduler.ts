@@ -1,12 +1,23 @@
 import cron from 'node-cron';
 import { ConsultaReminderService, PaymentReminderService } from './reminder-service';
+import { ListaEsperaService } from './lista-espera-service';
+import { atualizarPrestacoesVencidas } from './planos-pagamento';
+import { expirarReferencias } from './multibanco';
+import { processarExpiracaoCheques } from './cheques-dentista';
+import { expirarPlanos } from './planos-tratamento';
+import { marcarFaturasVencidas, processarCobrancas } from './cobrancas';
 
 /**
  * Sistema de Agendamento Automatico
  * 
  * Executa tarefas periodicas:
  * - Lembretes de consultas (diariamente as 09:00)
- * - Lembretes de pagamento (diariamente as 10:00)
+ * - Faturas vencidas e escala de cobranca de cada clinica (diariamente as 10:00)
+ * - Prestacoes vencidas dos planos de pagamento e lembretes (diariamente as 10:30)
+ * - Ofertas da lista de espera expiradas (a cada 15 minutos)
+ * - Referencias Multibanco expiradas (diariamente as 00:30)
+ * - Cheques-dentista expirados e alertas de expiracao (diariamente as 08:00)
+ * - Planos de tratamento sem resposta expirados (diariamente as 00:45)
  * - Limpeza de cache (diariamente as 03:00)
  * - Backup de dados (diariamente as 04:00)
  */
@@ -38,17 +49,34 @@ export class Scheduler {
       }
     );
 
-    // Lembrete de pagamentos - Diariamente as 10:00
+    // Cobranca de faturas vencidas - Diariamente as 10:00
     this.agendar(
-      'lembretes-pagamentos',
+      'cobrancas',
       '0 10 * * *', // Cron: 10:00 todos os dias
       async () => {
-        console.log('[SCHEDULER] Processando lembretes de pagamento...');
+        console.log('[SCHEDULER] Processando faturas vencidas e cobrancas...');
         try {
-          const resultado = await PaymentReminderService.processarLembretesPagamento();
-          console.log(`[SCHEDULER] Lembretes de pagamento enviados: ${resultado.enviados}/${resultado.total}`);
+          const vencidas = await marcarFaturasVencidas();
+          const resultado = await processarCobrancas();
+          console.log(`[SCHEDULER] Faturas vencidas: ${vencidas}, mensagens enviadas: ${resultado.enviadas}, falhadas: ${resultado.falhadas}, tarefas: ${resultado.tarefas}, cobrancas interrompidas: ${resultado.interrompidas}`);
         } catch (error) {
-          console.error('[SCHEDULER] Erro ao processar lembretes de pagamento:', error);
+          console.error('[SCHEDULER] Erro ao processar cobrancas:', error);
+        }
+      }
+    );
+
+    // Prestacoes dos planos de pagamento - Diariamente as 10:30
+    this.agendar(
+      'prestacoes-planos',
+      '30 10 * * *', // Cron: 10:30 todos os dias
+      async () => {
+        console.log('[SCHEDULER] Processando prestacoes dos planos de pagamento...');
+        try {
+          const vencidas = await atualizarPrestacoesVencidas();
+          const resultado = await PaymentReminderService.processarLembretesPrestacoes();
+          console.log(`[SCHEDULER] Prestacoes vencidas: ${vencidas}, lembretes enviados: ${resultado.enviados}/${resultado.total}`);
+        } catch (error) {
+          console.error('[SCHEDULER] Erro ao processar prestacoes dos planos de pagamento:', error);
         }
       }
     );
@@ -71,6 +99,64 @@ export class Scheduler {
       }
     );
 
+    // Ofertas da lista de espera - A cada 15 minutos
+    this.agendar(
+      'ofertas-lista-espera',
+      '*/15 * * * *', // Cron: a cada 15 minutos
+      async () => {
+        try {
+          const resultado = await ListaEsperaService.processarOfertasExpiradas();
+          if (resultado.expiradas > 0) {
+            console.log(`[SCHEDULER] Ofertas expiradas: ${resultado.expiradas}, novas ofertas: ${resultado.novasOfertas}`);
+          }
+        } catch (error) {
+          console.error('[SCHEDULER] Erro ao processar ofertas da lista de espera:', error);
+        }
+      }
+    );
+
+    // Referencias Multibanco expiradas - Diariamente as 00:30
+    this.agendar(
+      'referencias-multibanco',
+      '30 0 * * *', // Cron: 00:30 todos os dias
+      async () => {
+        try {
+          const expiradas = await expirarReferencias();
+          console.log(`[SCHEDULER] Referencias Multibanco expiradas: ${expiradas}`);
+        } catch (error) {
+          console.error('[SCHEDULER] Erro ao expirar referencias Multibanco:', error);
+        }
+      }
+    );
+
+    // Cheques-dentista - Diariamente as 08:00
+    this.agendar(
+      'cheques-dentista',
+      '0 8 * * *', // Cron: 08:00 todos os dias
+      async () => {
+        try {
+          const resultado = await processarExpiracaoCheques();
+          console.log(`[SCHEDULER] Cheques-dentista expirados: ${resultado.expirados}, alertas de expiracao: ${resultado.alertas}`);
+        } catch (error) {
+          console.error('[SCHEDULER] Erro ao processar cheques-dentista:', error);
+        }
+      }
+    );
+
+    // Planos de tratamento expirados - Diariamente as 00:45
+    this.agendar(
+      'planos-tratamento',
+      '45 0 * * *', // Cron: 00:45 todos os dias
+      async () => {
+        try {
+          const expirados = await expirarPlanos();
+          console.log(`[SCHEDULER] Planos de tratamento expirados: ${expirados}`);
+        } catch (error) {
+          console.error('[SCHEDULER] Erro ao expirar planos de tratamento:', error);
+        }
+      }
+    );
+
     // Limpeza de cache - Diariamente as 03:00
     this.agendar(
       'limpeza-cache',
@@ -169,8 +255,17 @@ export class Scheduler {
           antecedenciaHoras: 24,
         });
       
-      case 'lembretes-pagamentos':
-        return await PaymentReminderService.processarLembretesPagamento();
+      case 'cobrancas':
+        return {
+          vencidas: await marcarFaturasVencidas(),
+          cobrancas: await processarCobrancas(),
+        };
+      
+      case 'prestacoes-planos':
+        return {
+          vencidas: await atualizarPrestacoesVencidas(),
+          lembretes: await PaymentReminderService.processarLembretesPrestacoes(),
+        };
       
       case 'confirmacao-consultas':
         return await ConsultaReminderService.processarLembretesConsultas({
@@ -178,6 +273,18 @@ export class Scheduler {
           antecedenciaHoras: 48,
         });
       
+      case 'ofertas-lista-espera':
+        return await ListaEsperaService.processarOfertasExpiradas();
+      
+      case 'referencias-multibanco':
+        return await expirarReferencias();
+      
+      case 'cheques-dentista':
+        return await processarExpiracaoCheques();
+      
+      case 'planos-tratamento':
+        return await expirarPlanos();
+      
       default:
         throw new Error(`Agendamento '${nome}' nao encontrado`);
     }
@@ -0,0 +1,871 @@
+import { getDb, type Executor, type Tx } from "./db";
+import { consultas, procedimentos, utentes } from "../drizzle/schema";
+import {
+  apolicesUtente,
+  comparticipacoes,
+  entidadesAcordo,
+  lotesEntidade,
+  pagamentosLote,
+  precosAcordo,
+  type Comparticipacao,
+  type PrecoAcordo,
+} from "../drizzle/schema-seguradoras";
+import { adicionarDiasChave, chaveDia, obterFusoClinica } from "./fuso-horario";
+import { lancarFatura, type DadosFatura } from "./faturas";
+import { calcularComissoes } from "./comissoes";
+import { and, asc, desc, eq, gte, inArray, isNull, like, lte, or, sql } from "drizzle-orm";
+
+/**
+ * Seguradoras, Subsistemas e Acordos
+ * - Cada entidade tem a sua tabela de preços por procedimento, com a parte paga pelo utente
+ *   (copagamento em valor fixo ou percentagem do preço acordado)
+ * - Faturação repartida: o utente recebe a fatura só do copagamento; a parte da entidade fica
+ *   registada como comparticipação, a reclamar no lote periódico da entidade
+ * - Lotes: agrupam as comparticipações pendentes de um período; depois de enviados têm
+ *   vencimento (prazo de pagamento da entidade) e recebem pagamentos, com recusas por linha
+ * - A comissão do dentista é sobre o ato completo: a parte da entidade tem a sua comissão (calculada
+ *   na emissão) e entra nas liquidações mensais como as linhas de fatura
+ * - A parte da entidade não é faturada nesta aplicação: o lote é a reclamação enviada à entidade,
+ *   não um documento fiscal. A fatura à entidade (adquirente com o NIF da entidade) é emitida pela
+ *   clínica no seu programa de faturação, pelo valor do lote, e não entra no SAF-T daqui. Decisão
+ *   deliberada: as faturas desta aplicação têm sempre um utente como adquirente
+ */
+
+type TipoEntidade = (typeof entidadesAcordo.$inferSelect)["tipo"];
+type TipoCopagamento = PrecoAcordo["tipoCopagamento"];
+
+const ESTADOS_LOTE_POR_RECEBER: (typeof lotesEntidade.$inferSelect)["estado"][] = ["enviado", "parcialmente_pago"];
+
+function centimos(valor: string | number | null | undefined): number {
+  return Math.round(parseFloat(valor?.toString() || "0") * 100);
+}
+
+function euros(valorCentimos: number): string {
+  return (valorCentimos / 100).toFixed(2);
+}
+
+// ============================================
+// ENTIDADES E TABELAS DE PREÇOS
+// ============================================
+
+export async function listarEntidades(clinicaId: number, apenasAtivas = false) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(entidadesAcordo)
+    .where(and(eq(entidadesAcordo.clinicaId, clinicaId), apenasAtivas ? eq(entidadesAcordo.ativo, true) : undefined))
+    .orderBy(entidadesAcordo.nome);
+}
+
+export async function guardarEntidade(dados: {
+  clinicaId: number;
+  entidadeId?: number;
+  nome: string;
+  tipo: TipoEntidade;
+  codigo?: string | null;
+  nif?: string | null;
+  email?: string | null;
+  telefone?: string | null;
+  morada?: string | null;
+  prazoPagamentoDias: number;
+  ativo?: boolean;
+  observacoes?: string | null;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { entidadeId, ...valores } = dados;
+
+  if (entidadeId) {
+    const [entidade] = await db
+      .update(entidadesAcordo)
+      .set({ ...valores, updatedAt: new Date() })
+      .where(and(eq(entidadesAcordo.id, entidadeId), eq(entidadesAcordo.clinicaId, dados.clinicaId)))
+      .returning();
+
+    if (!entidade) throw new Error("Entidade não encontrada");
+    return entidade;
+  }
+
+  const [entidade] = await db.insert(entidadesAcordo).values(valores).returning();
+  return entidade;
+}
+
+async function obterEntidade(tx: Executor, entidadeId: number, clinicaId: number) {
+  const [entidade]: (typeof entidadesAcordo.$inferSelect)[] = await tx
+    .select()
+    .from(entidadesAcordo)
+    .where(and(eq(entidadesAcordo.id, entidadeId), eq(entidadesAcordo.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!entidade) throw new Error("Entidade não encontrada");
+  return entidade;
+}
+
+/**
+ * Tabela de preços da entidade (com o nome e o preço de tabela da clínica de cada procedimento)
+ */
+export async function listarPrecos(entidadeId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  await obterEntidade(db, entidadeId, clinicaId);
+
+  return await db
+    .select({
+      preco: precosAcordo,
+      procedimentoNome: procedimentos.nome,
+      precoClinica: procedimentos.precoBase,
+    })
+    .from(precosAcordo)
+    .innerJoin(procedimentos, eq(precosAcordo.procedimentoId, procedimentos.id))
+    .where(eq(precosAcordo.entidadeId, entidadeId))
+    .orderBy(procedimentos.nome, desc(precosAcordo.validoDesde));
+}
+
+/**
+ * Criar ou alterar o preço de um procedimento. Preços com validades sobrepostas não são
+ * permitidos: para mudar o preço a partir de uma data, fecha-se a validade do anterior
+ */
+export async function guardarPreco(dados: {
+  clinicaId: number;
+  precoId?: number;
+  entidadeId: number;
+  procedimentoId: number;
+  codigoEntidade?: string | null;
+  preco: string;
+  tipoCopagamento: TipoCopagamento;
+  copagamento: string;
+  requerAutorizacao?: boolean;
+  validoDesde?: string | null;
+  validoAte?: string | null;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { clinicaId, precoId, ...valores } = dados;
+  await obterEntidade(db, dados.entidadeId, clinicaId);
+
+  const [procedimento] = await db
+    .select({ id: procedimentos.id })
+    .from(procedimentos)
+    .where(and(eq(procedimentos.id, dados.procedimentoId), eq(procedimentos.clinicaId, clinicaId)))
+    .limit(1);
+  if (!procedimento) throw new Error("Procedimento não encontrado");
+
+  if (dados.tipoCopagamento === "percentagem" && parseFloat(dados.copagamento) > 100) {
+    throw new Error("O copagamento não pode ser superior a 100%");
+  }
+  if (dados.tipoCopagamento === "valor" && centimos(dados.copagamento) > centimos(dados.preco)) {
+    throw new Error("O copagamento não pode ser superior ao preço acordado");
+  }
+  if (dados.validoDesde && dados.validoAte && dados.validoAte < dados.validoDesde) {
+    throw new Error("A data de fim da validade é anterior à de início");
+  }
+
+  const sobrepostos = await db
+    .select({ id: precosAcordo.id })
+    .from(precosAcordo)
+    .where(
+      and(
+        eq(precosAcordo.entidadeId, dados.entidadeId),
+        eq(precosAcordo.procedimentoId, dados.procedimentoId),
+        dados.validoAte ? or(isNull(precosAcordo.validoDesde), lte(precosAcordo.validoDesde, dados.validoAte)) : undefined,
+        dados.validoDesde ? or(isNull(precosAcordo.validoAte), gte(precosAcordo.validoAte, dados.validoDesde)) : undefined
+      )
+    )
+    .limit(2);
+
+  if (sobrepostos.some(p => p.id !== precoId)) {
+    throw new Error("Já existe um preço deste procedimento para o mesmo período");
+  }
+
+  if (precoId) {
+    const [preco] = await db
+      .update(precosAcordo)
+      .set({ ...valores, updatedAt: new Date() })
+      .where(and(eq(precosAcordo.id, precoId), eq(precosAcordo.entidadeId, dados.entidadeId)))
+      .returning();
+
+    if (!preco) throw new Error("Preço não encontrado");
+    return preco;
+  }
+
+  const [preco] = await db.insert(precosAcordo).values(valores).returning();
+  return preco;
+}
+
+export async function removerPreco(precoId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(precosAcordo)
+    .where(
+      and(
+        eq(precosAcordo.id, precoId),
+        inArray(precosAcordo.entidadeId, db.select({ id: entidadesAcordo.id }).from(entidadesAcordo).where(eq(entidadesAcordo.clinicaId, clinicaId)))
+      )
+    );
+
+  return { success: true };
+}
+
+// ============================================
+// APÓLICES DOS UTENTES
+// ============================================
+
+export async function listarApolices(utenteId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      apolice: apolicesUtente,
+      entidadeNome: entidadesAcordo.nome,
+      entidadeTipo: entidadesAcordo.tipo,
+    })
+    .from(apolicesUtente)
+    .innerJoin(entidadesAcordo, eq(apolicesUtente.entidadeId, entidadesAcordo.id))
+    .where(and(eq(apolicesUtente.utenteId, utenteId), eq(apolicesUtente.clinicaId, clinicaId)))
+    .orderBy(desc(apolicesUtente.ativa), entidadesAcordo.nome);
+}
+
+export async function guardarApolice(dados: {
+  clinicaId: number;
+  apoliceId?: number;
+  utenteId: number;
+  entidadeId: number;
+  numeroApolice: string;
+  titular?: string | null;
+  validaDesde?: string | null;
+  validaAte?: string | null;
+  ativa?: boolean;
+  observacoes?: string | null;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { apoliceId, ...valores } = dados;
+  await obterEntidade(db, dados.entidadeId, dados.clinicaId);
+
+  const [utente] = await db
+    .select({ id: utentes.id })
+    .from(utentes)
+    .where(and(eq(utentes.id, dados.utenteId), eq(utentes.clinicaId, dados.clinicaId)))
+    .limit(1);
+  if (!utente) throw new Error("Utente não encontrado");
+
+  if (apoliceId) {
+    const [apolice] = await db
+      .update(apolicesUtente)
+      .set({ ...valores, updatedAt: new Date() })
+      .where(and(eq(apolicesUtente.id, apoliceId), eq(apolicesUtente.clinicaId, dados.clinicaId)))
+      .returning();
+
+    if (!apolice) throw new Error("Apólice não encontrada");
+    return apolice;
+  }
+
+  const [apolice] = await db.insert(apolicesUtente).values(valores).returning();
+  return apolice;
+}
+
+// ============================================
+// FATURAÇÃO REPARTIDA
+// ============================================
+
+/**
+ * Parte do utente (por unidade, em cêntimos) do preço acordado
+ */
+export function copagamentoUnitario(preco: Pick<PrecoAcordo, "preco" | "tipoCopagamento" | "copagamento">): number {
+  const precoAcordado = centimos(preco.preco);
+  const copagamento = preco.tipoCopagamento === "percentagem"
+    ? Math.round((precoAcordado * parseFloat(preco.copagamento)) / 100)
+    : centimos(preco.copagamento);
+
+  return Math.min(copagamento, precoAcordado);
+}
+
+/**
+ * Faturar atos cobertos por uma apólice
+ * Os procedimentos com preço na tabela da entidade passam a ser faturados ao utente pelo
+ * copagamento e a diferença para o preço acordado fica como comparticipação; as restantes linhas
+ * são faturadas ao utente como numa fatura normal. Se o utente não tiver nada a pagar, não é
+ * emitida fatura (fatura = null)
+ */
+export async function emitirFaturaComAcordo(dados: DadosFatura & { apoliceId: number; numeroAutorizacao?: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  const dataAto = chaveDia(dados.dataFatura, fuso);
+
+  return await db.transaction(async tx => {
+    const [apolice] = await tx
+      .select()
+      .from(apolicesUtente)
+      .where(and(eq(apolicesUtente.id, dados.apoliceId), eq(apolicesUtente.clinicaId, dados.clinicaId)))
+      .limit(1);
+
+    if (!apolice || apolice.utenteId !== dados.utenteId) throw new Error("Apólice não encontrada");
+    if (!apolice.ativa || (apolice.validaDesde && apolice.validaDesde > dataAto) || (apolice.validaAte && apolice.validaAte < dataAto)) {
+      throw new Error("A apólice não está válida na data da fatura");
+    }
+
+    const entidade = await obterEntidade(tx, apolice.entidadeId, dados.clinicaId);
+    if (!entidade.ativo) throw new Error(`O acordo com ${entidade.nome} não está ativo`);
+
+    // Preço em vigor na data do ato de cada procedimento faturado
+    const procedimentosIds = dados.itens.map(i => i.procedimentoId).filter((id): id is number => !!id);
+    const precos = procedimentosIds.length > 0
+      ? await tx
+          .select()
+          .from(precosAcordo)
+          .where(
+            and(
+              eq(precosAcordo.entidadeId, entidade.id),
+              inArray(precosAcordo.procedimentoId, procedimentosIds),
+              or(isNull(precosAcordo.validoDesde), lte(precosAcordo.validoDesde, dataAto)),
+              or(isNull(precosAcordo.validoAte), gte(precosAcordo.validoAte, dataAto))
+            )
+          )
+      : [];
+
+    const consulta = dados.consultaId && !dados.dentistaId
+      ? (await tx
+          .select({ dentistaId: consultas.dentistaId })
+          .from(consultas)
+          .where(and(eq(consultas.id, dados.consultaId), eq(consultas.clinicaId, dados.clinicaId)))
+          .limit(1))[0]
+      : undefined;
+    const dentistaId = dados.dentistaId ?? consulta?.dentistaId;
+
+    const itensUtente: DadosFatura["itens"] = [];
+    const linhasEntidade: (Omit<typeof comparticipacoes.$inferInsert, "faturaId">)[] = [];
+
+    for (const item of dados.itens) {
+      const preco = precos.find(p => p.procedimentoId === item.procedimentoId);
+      if (!preco) {
+        itensUtente.push(item);
+        continue;
+      }
+
+      if (preco.requerAutorizacao && !dados.numeroAutorizacao) {
+        throw new Error(`${item.descricao}: a ${entidade.nome} exige número de autorização prévia`);
+      }
+
+      const copagamento = copagamentoUnitario(preco);
+      const valorEntidade = (centimos(preco.preco) - copagamento) * item.quantidade;
+
+      if (copagamento > 0) itensUtente.push({ ...item, precoUnitario: euros(copagamento) });
+      if (valorEntidade > 0) {
+        linhasEntidade.push({
+          clinicaId: dados.clinicaId,
+          entidadeId: entidade.id,
+          apoliceId: apolice.id,
+          utenteId: dados.utenteId,
+          procedimentoId: item.procedimentoId,
+          dentistaId: item.dentistaId ?? dentistaId,
+          dataAto,
+          codigoEntidade: preco.codigoEntidade,
+          descricao: item.descricao,
+          quantidade: item.quantidade,
+          precoAcordado: preco.preco,
+          valorUtente: euros(copagamento * item.quantidade),
+          valorEntidade: euros(valorEntidade),
+          numeroAutorizacao: dados.numeroAutorizacao,
+        });
+      }
+    }
+
+    if (linhasEntidade.length === 0) {
+      throw new Error(`Nenhum dos procedimentos tem preço na tabela da ${entidade.nome}: emita uma fatura normal`);
+    }
+
+    // Comissão da parte da entidade: a do preço acordado menos a do copagamento (faturado ao utente)
+    const comissoes = await calcularComissoes(
+      tx,
+      dados.clinicaId,
+      linhasEntidade.flatMap(linha => {
+        const copagamento = centimos(linha.valorUtente);
+        const comum = { dentistaId: linha.dentistaId, procedimentoId: linha.procedimentoId, quantidade: linha.quantidade ?? 1 };
+        return [
+          { ...comum, base: copagamento + centimos(linha.valorEntidade) },
+          { ...comum, base: copagamento },
+        ];
+      })
+    );
+    for (const [i, linha] of linhasEntidade.entries()) {
+      const [completa, copagamento] = [comissoes[2 * i], comissoes[2 * i + 1]];
+      linha.custosDeduzidos = euros(completa.custos - copagamento.custos);
+      linha.comissaoDentista = euros(completa.comissao - copagamento.comissao);
+      linha.valorClinica = euros(completa.valorClinica - copagamento.valorClinica);
+    }
+
+    const fatura = itensUtente.length > 0
+      ? await lancarFatura(tx, { ...dados, dentistaId, itens: itensUtente })
+      : null;
+
+    const linhas: Comparticipacao[] = await tx
+      .insert(comparticipacoes)
+      .values(linhasEntidade.map(linha => ({ ...linha, faturaId: fatura?.id ?? null })))
+      .returning();
+
+    return {
+      fatura,
+      comparticipacoes: linhas,
+      valorEntidade: euros(linhas.reduce((s, l) => s + centimos(l.valorEntidade), 0)),
+    };
+  });
+}
+
+/**
+ * Comparticipações da clínica (por entidade, estado ou lote)
+ */
+export async function listarComparticipacoes(filtros: {
+  clinicaId: number;
+  entidadeId?: number;
+  estado?: Comparticipacao["estado"];
+  loteId?: number;
+  utenteId?: number;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      comparticipacao: comparticipacoes,
+      utenteNome: utentes.nome,
+      numeroApolice: apolicesUtente.numeroApolice,
+      entidadeNome: entidadesAcordo.nome,
+    })
+    .from(comparticipacoes)
+    .innerJoin(utentes, eq(comparticipacoes.utenteId, utentes.id))
+    .innerJoin(apolicesUtente, eq(comparticipacoes.apoliceId, apolicesUtente.id))
+    .innerJoin(entidadesAcordo, eq(comparticipacoes.entidadeId, entidadesAcordo.id))
+    .where(
+      and(
+        eq(comparticipacoes.clinicaId, filtros.clinicaId),
+        filtros.entidadeId ? eq(comparticipacoes.entidadeId, filtros.entidadeId) : undefined,
+        filtros.estado ? eq(comparticipacoes.estado, filtros.estado) : undefined,
+        filtros.loteId ? eq(comparticipacoes.loteId, filtros.loteId) : undefined,
+        filtros.utenteId ? eq(comparticipacoes.utenteId, filtros.utenteId) : undefined
+      )
+    )
+    .orderBy(asc(comparticipacoes.dataAto), asc(comparticipacoes.id));
+}
+
+// ============================================
+// LOTES DAS ENTIDADES
+// ============================================
+
+async function obterLoteParaAlterar(tx: Tx, loteId: number, clinicaId: number) {
+  const [lote]: (typeof lotesEntidade.$inferSelect)[] = await tx
+    .select()
+    .from(lotesEntidade)
+    .where(and(eq(lotesEntidade.id, loteId), eq(lotesEntidade.clinicaId, clinicaId)))
+    .for("update");
+
+  if (!lote) throw new Error("Lote não encontrado");
+  return lote;
+}
+
+async function recalcularValorReclamado(tx: Tx, loteId: number) {
+  const [total] = await tx
+    .select({ valor: sql<string>`coalesce(sum(${comparticipacoes.valorEntidade}), 0)` })
+    .from(comparticipacoes)
+    .where(eq(comparticipacoes.loteId, loteId));
+
+  await tx
+    .update(lotesEntidade)
+    .set({ valorReclamado: euros(centimos(total.valor)), updatedAt: new Date() })
+    .where(eq(lotesEntidade.id, loteId));
+}
+
+/**
+ * Criar o lote de uma entidade com as comparticipações pendentes do período
+ * Numeração sequencial por entidade e ano (ex: 2026/0003)
+ */
+export async function criarLote(dados: { clinicaId: number; entidadeId: number; dataInicio: string; dataFim: string; userId: number }) {
+  if (dados.dataFim < dados.dataInicio) throw new Error("A data de fim é anterior à de início");
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => {
+    // Um lote de cada vez por entidade (numeração)
+    const [entidade] = await tx
+      .select({ id: entidadesAcordo.id })
+      .from(entidadesAcordo)
+      .where(and(eq(entidadesAcordo.id, dados.entidadeId), eq(entidadesAcordo.clinicaId, dados.clinicaId)))
+      .for("update");
+    if (!entidade) throw new Error("Entidade não encontrada");
+
+    const pendentes = await tx
+      .select({ id: comparticipacoes.id, valorEntidade: comparticipacoes.valorEntidade })
+      .from(comparticipacoes)
+      .where(
+        and(
+          eq(comparticipacoes.entidadeId, dados.entidadeId),
+          eq(comparticipacoes.estado, "pendente"),
+          gte(comparticipacoes.dataAto, dados.dataInicio),
+          lte(comparticipacoes.dataAto, dados.dataFim)
+        )
+      );
+    if (pendentes.length === 0) throw new Error("Não há comparticipações pendentes neste período");
+
+    const ano = dados.dataFim.slice(0, 4);
+    const [{ total }] = await tx
+      .select({ total: sql<number>`count(*)::int` })
+      .from(lotesEntidade)
+      .where(and(eq(lotesEntidade.entidadeId, dados.entidadeId), like(lotesEntidade.numero, `${ano}/%`)));
+
+    const [lote] = await tx
+      .insert(lotesEntidade)
+      .values({
+        clinicaId: dados.clinicaId,
+        entidadeId: dados.entidadeId,
+        numero: `${ano}/${String(total + 1).padStart(4, "0")}`,
+        dataInicio: dados.dataInicio,
+        dataFim: dados.dataFim,
+        valorReclamado: euros(pendentes.reduce((s, p) => s + centimos(p.valorEntidade), 0)),
+        criadoPor: dados.userId,
+      })
+      .returning();
+
+    await tx
+      .update(comparticipacoes)
+      .set({ estado: "em_lote", loteId: lote.id, updatedAt: new Date() })
+      .where(inArray(comparticipacoes.id, pendentes.map(p => p.id)));
+
+    return { ...lote, numeroLinhas: pendentes.length };
+  });
+}
+
+/**
+ * Retirar linhas de um lote ainda aberto (voltam a ficar pendentes para o lote seguinte)
+ */
+export async function retirarDoLote(dados: { clinicaId: number; loteId: number; comparticipacoesIds: number[] }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => {
+    const lote = await obterLoteParaAlterar(tx, dados.loteId, dados.clinicaId);
+    if (lote.estado !== "aberto") throw new Error("Só é possível retirar linhas de um lote ainda não enviado");
+
+    await tx
+      .update(comparticipacoes)
+      .set({ estado: "pendente", loteId: null, updatedAt: new Date() })
+      .where(and(eq(comparticipacoes.loteId, lote.id), inArray(comparticipacoes.id, dados.comparticipacoesIds)));
+
+    await recalcularValorReclamado(tx, lote.id);
+    return { success: true };
+  });
+}
+
+/**
+ * Anular um lote sem pagamentos: as linhas voltam a ficar pendentes
+ */
+export async function anularLote(dados: { clinicaId: number; loteId: number; motivo: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async tx => {
+    const lote = await obterLoteParaAlterar(tx, dados.loteId, dados.clinicaId);
+    if (lote.estado !== "aberto" && lote.estado !== "enviado") throw new Error("Este lote já não pode ser anulado");
+    if (centimos(lote.valorPago) > 0 || centimos(lote.valorRecusado) > 0) {
+      throw new Error("O lote já tem pagamentos ou recusas registados");
+    }
+
+    await tx
+      .update(comparticipacoes)
+      .set({ estado: "pendente", loteId: null, updatedAt: new Date() })
+      .where(eq(comparticipacoes.loteId, lote.id));
+
+    await tx
+      .update(lotesEntidade)
+      .set({
+        estado: "anulado",
+        observacoes: [lote.observacoes, `Anulado: ${dados.motivo}`].filter(Boolean).join("\n"),
+        updatedAt: new Date(),
+      })
+      .where(eq(lotesEntidade.id, lote.id));
+
+    return { success: true };
+  });
+}
+
+/**
+ * Marcar o lote como enviado à entidade; vence no fim do prazo de pagamento do acordo
+ */
+export async function enviarLote(dados: { clinicaId: number; loteId: number; dataEnvio?: Date }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  const dataEnvio = dados.dataEnvio ?? new Date();
+
+  return await db.transaction(async tx => {
+    const lote = await obterLoteParaAlterar(tx, dados.loteId, dados.clinicaId);
+    if (lote.estado !== "aberto") throw new Error("O lote já foi enviado");
+    if (centimos(lote.valorReclamado) === 0) throw new Error("O lote não tem linhas");
+
+    const entidade = await obterEntidade(tx, lote.entidadeId, dados.clinicaId);
+
+    const [atualizado] = await tx
+      .update(lotesEntidade)
+      .set({
+        estado: "enviado",
+        dataEnvio,
+        dataVencimento: adicionarDiasChave(chaveDia(dataEnvio, fuso), entidade.prazoPagamentoDias),
+        updatedAt: new Date(),
+      })
+      .where(eq(lotesEntidade.id, lote.id))
+      .returning();
+
+    return atualizado;
+  });
+}
+
+/**
+ * Registar a resposta da entidade a um lote enviado: linhas recusadas (com o motivo) e o valor
+ * pago, distribuído pelas linhas aceites por ordem de data do ato
+ */
+export async function registarPagamentoLote(dados: {
+  clinicaId: number;
+  loteId: number;
+  valor: string;
+  dataPagamento: Date;
+  referencia?: string;
+  observacoes?: string;
+  recusas?: { comparticipacaoId: number; motivo: string }[];
+  userId: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const recusas = dados.recusas ?? [];
+  if (centimos(dados.valor) <= 0 && recusas.length === 0) throw new Error("Indique o valor pago ou as linhas recusadas");
+
+  return await db.transaction(async tx => {
+    const lote = await obterLoteParaAlterar(tx, dados.loteId, dados.clinicaId);
+    if (!ESTADOS_LOTE_POR_RECEBER.includes(lote.estado)) throw new Error("O lote não está a aguardar pagamento");
+
+    const linhas: Comparticipacao[] = await tx
+      .select()
+      .from(comparticipacoes)
+      .where(eq(comparticipacoes.loteId, lote.id))
+      .orderBy(asc(comparticipacoes.dataAto), asc(comparticipacoes.id));
+
+    // Recusas: só linhas do lote ainda sem pagamento
+    let valorRecusado = centimos(lote.valorRecusado);
+    for (const recusa of recusas) {
+      const linha = linhas.find(l => l.id === recusa.comparticipacaoId);
+      if (!linha) throw new Error("A linha recusada não pertence ao lote");
+      if (linha.estado !== "em_lote" || centimos(linha.valorPago) > 0) {
+        throw new Error(`${linha.descricao} (${linha.dataAto}): a linha já tem pagamento ou já foi recusada`);
+      }
+
+      await tx
+        .update(comparticipacoes)
+        .set({ estado: "recusada", motivoRecusa: recusa.motivo, updatedAt: new Date() })
+        .where(eq(comparticipacoes.id, linha.id));
+      linha.estado = "recusada";
+      valorRecusado += centimos(linha.valorEntidade);
+    }
+
+    let porDistribuir = centimos(dados.valor);
+    const emDivida = linhas
+      .filter(l => l.estado === "em_lote")
+      .reduce((s, l) => s + centimos(l.valorEntidade) - centimos(l.valorPago), 0);
+    if (porDistribuir > emDivida) {
+      throw new Error(`O valor pago é superior ao valor em dívida do lote (${euros(emDivida)} €)`);
+    }
+
+    for (const linha of linhas) {
+      if (porDistribuir === 0) break;
+      if (linha.estado !== "em_lote") continue;
+
+      const valor = Math.min(porDistribuir, centimos(linha.valorEntidade) - centimos(linha.valorPago));
+      const valorPago = centimos(linha.valorPago) + valor;
+      porDistribuir -= valor;
+
+      await tx
+        .update(comparticipacoes)
+        .set({
+          valorPago: euros(valorPago),
+          estado: valorPago >= centimos(linha.valorEntidade) ? "paga" : "em_lote",
+          updatedAt: new Date(),
+        })
+        .where(eq(comparticipacoes.id, linha.id));
+    }
+
+    if (centimos(dados.valor) > 0) {
+      await tx.insert(pagamentosLote).values({
+        loteId: lote.id,
+        valor: euros(centimos(dados.valor)),
+        dataPagamento: dados.dataPagamento,
+        referencia: dados.referencia,
+        observacoes: dados.observacoes,
+        registadoPor: dados.userId,
+      });
+    }
+
+    const valorPago = centimos(lote.valorPago) + centimos(dados.valor);
+    const [atualizado] = await tx
+      .update(lotesEntidade)
+      .set({
+        valorPago: euros(valorPago),
+        valorRecusado: euros(valorRecusado),
+        estado: valorPago + valorRecusado >= centimos(lote.valorReclamado) ? "pago" : "parcialmente_pago",
+        updatedAt: new Date(),
+      })
+      .where(eq(lotesEntidade.id, lote.id))
+      .returning();
+
+    return atualizado;
+  });
+}
+
+/**
+ * Lotes da clínica (de uma entidade ou de um ano)
+ */
+export async function listarLotes(filtros: { clinicaId: number; entidadeId?: number; ano?: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      lote: lotesEntidade,
+      entidadeNome: entidadesAcordo.nome,
+    })
+    .from(lotesEntidade)
+    .innerJoin(entidadesAcordo, eq(lotesEntidade.entidadeId, entidadesAcordo.id))
+    .where(
+      and(
+        eq(lotesEntidade.clinicaId, filtros.clinicaId),
+        filtros.entidadeId ? eq(lotesEntidade.entidadeId, filtros.entidadeId) : undefined,
+        filtros.ano ? like(lotesEntidade.numero, `${filtros.ano}/%`) : undefined
+      )
+    )
+    .orderBy(desc(lotesEntidade.createdAt));
+}
+
+/**
+ * Lote com as linhas e os pagamentos recebidos
+ */
+export async function obterLote(loteId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [lote] = await db
+    .select()
+    .from(lotesEntidade)
+    .where(and(eq(lotesEntidade.id, loteId), eq(lotesEntidade.clinicaId, clinicaId)))
+    .limit(1);
+  if (!lote) throw new Error("Lote não encontrado");
+
+  const entidade = await obterEntidade(db, lote.entidadeId, clinicaId);
+  const linhas = await listarComparticipacoes({ clinicaId, loteId });
+  const pagamentos = await db
+    .select()
+    .from(pagamentosLote)
+    .where(eq(pagamentosLote.loteId, loteId))
+    .orderBy(pagamentosLote.dataPagamento);
+
+  return { lote, entidade, linhas, pagamentos };
+}
+
+/**
+ * Lote em CSV para envio à entidade (separador ";" e vírgula decimal)
+ */
+export async function exportarLoteCSV(loteId: number, clinicaId: number) {
+  const { lote, entidade, linhas } = await obterLote(loteId, clinicaId);
+
+  const campo = (valor: string | null) => (/[";\n]/.test(valor ?? "") ? `"${(valor ?? "").replace(/"/g, '""')}"` : valor ?? "");
+  const numero = (valor: string) => valor.replace(".", ",");
+
+  const conteudo = [
+    ["Data", "Beneficiário", "Utente", "Código", "Descrição", "Quantidade", "Preço", "Utente (copag.)", "Entidade", "Autorização"].join(";"),
+    ...linhas.map(({ comparticipacao: c, utenteNome, numeroApolice }) =>
+      [
+        c.dataAto,
+        campo(numeroApolice),
+        campo(utenteNome),
+        campo(c.codigoEntidade),
+        campo(c.descricao),
+        c.quantidade,
+        numero(c.precoAcordado),
+        numero(c.valorUtente),
+        numero(c.valorEntidade),
+        campo(c.numeroAutorizacao),
+      ].join(";")
+    ),
+    ["", "", "", "", "Total", "", "", "", numero(lote.valorReclamado), ""].join(";"),
+  ];
+
+  const nome = entidade.nome.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^A-Za-z0-9]+/g, "_");
+  return {
+    nomeFicheiro: `Lote_${nome}_${lote.numero.replace("/", "-")}.csv`,
+    conteudo: Buffer.from(`\uFEFF${conteudo.join("\r\n")}\r\n`, "utf8"),
+  };
+}
+
+/**
+ * Valores a receber das entidades: comparticipações ainda por incluir em lote, lotes em
+ * preparação e lotes enviados por pagar (vencidos se já passou o prazo de pagamento)
+ */
+export async function contasReceberEntidades(clinicaId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const fuso = await obterFusoClinica(clinicaId);
+  const hoje = chaveDia(new Date(), fuso);
+
+  const [entidades, pendentes, lotes] = await Promise.all([
+    listarEntidades(clinicaId),
+    db
+      .select({
+        entidadeId: comparticipacoes.entidadeId,
+        valor: sql<string>`sum(${comparticipacoes.valorEntidade})`,
+        maisAntiga: sql<string>`min(${comparticipacoes.dataAto})`,
+      })
+      .from(comparticipacoes)
+      .where(and(eq(comparticipacoes.clinicaId, clinicaId), eq(comparticipacoes.estado, "pendente")))
+      .groupBy(comparticipacoes.entidadeId),
+    db
+      .select()
+      .from(lotesEntidade)
+      .where(and(eq(lotesEntidade.clinicaId, clinicaId), inArray(lotesEntidade.estado, ["aberto", ...ESTADOS_LOTE_POR_RECEBER]))),
+  ]);
+
+  return entidades
+    .map(entidade => {
+      const pendente = pendentes.find(p => p.entidadeId === entidade.id);
+      const lotesDaEntidade = lotes.filter(l => l.entidadeId === entidade.id);
+      const porReceber = (l: (typeof lotes)[number]) => centimos(l.valorReclamado) - centimos(l.valorRecusado) - centimos(l.valorPago);
+
+      const porFaturar = centimos(pendente?.valor);
+      const emPreparacao = lotesDaEntidade.filter(l => l.estado === "aberto").reduce((s, l) => s + porReceber(l), 0);
+      const enviados = lotesDaEntidade.filter(l => l.estado !== "aberto");
+      const emCobranca = enviados.reduce((s, l) => s + porReceber(l), 0);
+      const vencido = enviados.filter(l => l.dataVencimento && l.dataVencimento < hoje).reduce((s, l) => s + porReceber(l), 0);
+
+      return {
+        entidadeId: entidade.id,
+        entidadeNome: entidade.nome,
+        tipo: entidade.tipo,
+        porFaturar: euros(porFaturar),
+        atoMaisAntigo: pendente?.maisAntiga ?? null,
+        emPreparacao: euros(emPreparacao),
+        emCobranca: euros(emCobranca),
+        vencido: euros(vencido),
+        total: euros(porFaturar + emPreparacao + emCobranca),
+        lotesPorReceber: enviados.length,
+      };
+    })
+    .filter(e => e.total !== "0.00");
+}
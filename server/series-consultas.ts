@@ -0,0 +1,514 @@
+import { z } from "zod";
+import { getDb } from "./db";
+import { consultas } from "../drizzle/schema";
+import { seriesConsultas } from "../drizzle/schema-agenda";
+import { and, eq, gte, inArray } from "drizzle-orm";
+import { bloquearAgenda, validarAgendamentoCompleto } from "./validacoes-agenda";
+import { atribuirRecursosConsulta, obterRecursosConsulta } from "./recursos-agenda";
+import { transicionarEstadoConsulta, type PapelTransicao } from "./estados-consulta";
+import {
+  FUSO_PADRAO,
+  adicionarDias,
+  chaveDia,
+  dataNoFuso,
+  diaSemana,
+  fimDoDia,
+  minutosDoDia,
+  obterFusoClinica,
+  partesData,
+} from "./fuso-horario";
+
+/**
+ * Serviço de Séries de Consultas Recorrentes
+ * Gerar ocorrências a partir de uma regra, validar cada uma e editar/cancelar por âmbito
+ */
+
+/**
+ * Limite de ocorrências geradas por série (2 anos de consultas semanais)
+ */
+const MAX_OCORRENCIAS = 104;
+
+/**
+ * Estados em que uma ocorrência ainda pode ser alterada em bloco
+ */
+const ESTADOS_EDITAVEIS = ["agendada", "confirmada"] as const;
+
+export const regraRecorrenciaSchema = z
+  .object({
+    frequencia: z.enum(["diaria", "semanal", "mensal"]),
+    intervalo: z.number().int().min(1).max(52).default(1),
+    diasSemana: z.array(z.number().int().min(0).max(6)).optional(), // Apenas semanal
+    ocorrencias: z.number().int().min(1).max(MAX_OCORRENCIAS).optional(),
+    dataFim: z.date().optional(),
+  })
+  .refine(r => r.ocorrencias !== undefined || r.dataFim !== undefined, {
+    message: "Indique o número de ocorrências ou a data de fim da série",
+  });
+
+export type RegraRecorrencia = z.infer<typeof regraRecorrenciaSchema>;
+
+/**
+ * Âmbito de uma edição/cancelamento numa série
+ * - esta: apenas a ocorrência indicada
+ * - seguintes: a ocorrência indicada e as posteriores
+ * - todas: todas as ocorrências ainda por realizar
+ */
+export type AmbitoSerie = "esta" | "seguintes" | "todas";
+
+export interface OcorrenciaSerie {
+  indice: number;
+  horaInicio: Date;
+  horaFim: Date;
+}
+
+export interface ConflitoOcorrencia {
+  indice: number;
+  consultaId?: number;
+  horaInicio: Date;
+  horaFim: Date;
+  erro: string;
+}
+
+/**
+ * Adicionar meses mantendo o dia do mês (ex: dia 31 passa a ser o último dia dos meses mais curtos)
+ * e a hora local no fuso da clínica
+ */
+function adicionarMeses(base: Date, meses: number, fuso: string): Date {
+  const { ano, mes, dia } = partesData(base, fuso);
+  const ultimoDia = new Date(Date.UTC(ano, mes - 1 + meses + 1, 0)).getUTCDate();
+  const chave = new Date(Date.UTC(ano, mes - 1 + meses, Math.min(dia, ultimoDia))).toISOString().slice(0, 10);
+  return dataNoFuso(chave, minutosDoDia(base, fuso), fuso);
+}
+
+/**
+ * Gerar as ocorrências de uma série a partir da primeira consulta e da regra de recorrência
+ * A hora local da primeira consulta (no fuso da clínica) mantém-se em todas as ocorrências,
+ * também na mudança de hora
+ */
+export function gerarOcorrencias(
+  horaInicio: Date,
+  horaFim: Date,
+  regra: RegraRecorrencia,
+  fuso: string = FUSO_PADRAO
+): OcorrenciaSerie[] {
+  const duracaoMs = horaFim.getTime() - horaInicio.getTime();
+  const limite = Math.min(regra.ocorrencias ?? MAX_OCORRENCIAS, MAX_OCORRENCIAS);
+  const intervalo = regra.intervalo ?? 1;
+
+  // A data de fim inclui o próprio dia
+  const fimSerie = regra.dataFim ? fimDoDia(regra.dataFim, fuso) : null;
+
+  const inicios: Date[] = [];
+  const dentroDoLimite = (data: Date) =>
+    inicios.length < limite && (!fimSerie || data <= fimSerie);
+
+  if (regra.frequencia === "semanal" && regra.diasSemana && regra.diasSemana.length > 0) {
+    // Semanas começam à segunda-feira
+    const desvio = (dia: number) => (dia + 6) % 7;
+    const dias = Array.from(new Set(regra.diasSemana)).sort((a, b) => desvio(a) - desvio(b));
+    const inicioSemana = adicionarDias(horaInicio, -desvio(diaSemana(horaInicio, fuso)), fuso);
+
+    for (let semana = 0; inicios.length < limite; semana += intervalo) {
+      let terminou = false;
+      for (const dia of dias) {
+        const data = adicionarDias(inicioSemana, semana * 7 + desvio(dia), fuso);
+        if (data < horaInicio) continue;
+        if (!dentroDoLimite(data)) {
+          terminou = true;
+          break;
+        }
+        inicios.push(data);
+      }
+      if (terminou) break;
+    }
+  } else {
+    for (let i = 0; ; i++) {
+      let data: Date;
+      if (regra.frequencia === "diaria") {
+        data = adicionarDias(horaInicio, i * intervalo, fuso);
+      } else if (regra.frequencia === "semanal") {
+        data = adicionarDias(horaInicio, i * 7 * intervalo, fuso);
+      } else {
+        data = adicionarMeses(horaInicio, i * intervalo, fuso);
+      }
+      if (!dentroDoLimite(data)) break;
+      inicios.push(data);
+    }
+  }
+
+  return inicios.map((inicio, indice) => ({
+    indice,
+    horaInicio: inicio,
+    horaFim: new Date(inicio.getTime() + duracaoMs),
+  }));
+}
+
+/**
+ * Criar uma série de consultas recorrentes
+ * Cada ocorrência é validada (horário, conflitos do dentista e do utente, recursos). Se houver conflitos,
+ * nada é criado e as datas em conflito são devolvidas, a menos que `ignorarConflitos` seja indicado,
+ * caso em que apenas as ocorrências válidas são agendadas e as restantes reportadas.
+ */
+export async function criarSerieConsultas(dados: {
+  clinicaId: number;
+  utenteId: number;
+  dentistaId: number;
+  procedimentoId?: number;
+  horaInicio: Date;
+  horaFim: Date;
+  titulo?: string;
+  observacoes?: string;
+  recursoIds?: number[];
+  regra: RegraRecorrencia;
+  ignorarConflitos?: boolean;
+  criadoPor?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (dados.horaFim <= dados.horaInicio) {
+    throw new Error("A hora de fim deve ser posterior à hora de início");
+  }
+
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  const ocorrencias = gerarOcorrencias(dados.horaInicio, dados.horaFim, dados.regra, fuso);
+  if (ocorrencias.length === 0) {
+    throw new Error("A regra de recorrência não gera nenhuma ocorrência");
+  }
+
+  const duracaoMinutos = Math.round((dados.horaFim.getTime() - dados.horaInicio.getTime()) / 60000);
+
+  // Validação e gravação na mesma transação, com a agenda do dentista bloqueada nos dias da série
+  return await db.transaction(async tx => {
+    await bloquearAgenda(tx, ocorrencias.map(o => ({ ...o, dentistaId: dados.dentistaId })));
+
+    const conflitos: ConflitoOcorrencia[] = [];
+    const validas: Array<OcorrenciaSerie & { recursoIds: number[] }> = [];
+
+    for (const ocorrencia of ocorrencias) {
+      const validacao = await validarAgendamentoCompleto({
+        clinicaId: dados.clinicaId,
+        dentistaId: dados.dentistaId,
+        utenteId: dados.utenteId,
+        horaInicio: ocorrencia.horaInicio,
+        horaFim: ocorrencia.horaFim,
+        procedimentoId: dados.procedimentoId,
+        recursoIds: dados.recursoIds,
+      }, tx);
+
+      if (validacao.valido) {
+        validas.push({ ...ocorrencia, recursoIds: validacao.recursoIds ?? [] });
+      } else {
+        conflitos.push({ ...ocorrencia, erro: validacao.erro ?? "Conflito de agendamento" });
+      }
+    }
+
+    if (validas.length === 0 || (conflitos.length > 0 && !dados.ignorarConflitos)) {
+      return { success: false, serieId: null, ids: [] as number[], conflitos };
+    }
+
+    const [serie] = await tx
+      .insert(seriesConsultas)
+      .values({
+        clinicaId: dados.clinicaId,
+        utenteId: dados.utenteId,
+        dentistaId: dados.dentistaId,
+        procedimentoId: dados.procedimentoId ?? null,
+        frequencia: dados.regra.frequencia,
+        intervalo: dados.regra.intervalo ?? 1,
+        diasSemana: dados.regra.diasSemana ?? null,
+        ocorrencias: dados.regra.ocorrencias ?? null,
+        dataFim: dados.regra.dataFim ?? null,
+        duracaoMinutos,
+        titulo: dados.titulo ?? null,
+        observacoes: dados.observacoes ?? null,
+        criadoPor: dados.criadoPor ?? null,
+      })
+      .returning();
+
+    const criadas = await tx
+      .insert(consultas)
+      .values(
+        validas.map(o => ({
+          clinicaId: dados.clinicaId,
+          utenteId: dados.utenteId,
+          dentistaId: dados.dentistaId,
+          procedimentoId: dados.procedimentoId ?? null,
+          horaInicio: o.horaInicio,
+          horaFim: o.horaFim,
+          estado: "agendada" as const,
+          titulo: dados.titulo ?? null,
+          observacoes: dados.observacoes ?? null,
+          serieId: serie.id,
+          indiceSerie: o.indice,
+        }))
+      )
+      .returning({ id: consultas.id });
+
+    // A inserção devolve as linhas pela ordem das ocorrências
+    for (let i = 0; i < criadas.length; i++) {
+      await atribuirRecursosConsulta(tx, criadas[i].id, validas[i].recursoIds);
+    }
+
+    return {
+      success: true,
+      serieId: serie.id,
+      ids: criadas.map(c => c.id),
+      conflitos,
+    };
+  });
+}
+
+/**
+ * Obter a consulta de referência e as ocorrências abrangidas pelo âmbito indicado
+ */
+async function obterOcorrenciasAmbito(consultaId: number, clinicaId: number, ambito: AmbitoSerie) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [consulta] = await db
+    .select()
+    .from(consultas)
+    .where(and(eq(consultas.id, consultaId), eq(consultas.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!consulta) throw new Error("Consulta não encontrada");
+
+  if (ambito === "esta") {
+    return { consulta, ocorrencias: [consulta] };
+  }
+
+  if (consulta.serieId === null) {
+    throw new Error("A consulta não pertence a uma série");
+  }
+
+  const conditions = [
+    eq(consultas.serieId, consulta.serieId),
+    eq(consultas.clinicaId, clinicaId),
+    inArray(consultas.estado, [...ESTADOS_EDITAVEIS]),
+  ];
+  if (ambito === "seguintes") {
+    conditions.push(gte(consultas.indiceSerie, consulta.indiceSerie ?? 0));
+  }
+
+  const ocorrencias = await db
+    .select()
+    .from(consultas)
+    .where(and(...conditions))
+    .orderBy(consultas.indiceSerie);
+
+  return { consulta, ocorrencias };
+}
+
+/**
+ * Editar uma ocorrência, esta e as seguintes, ou toda a série
+ * Uma nova hora de início é aplicada como deslocação de calendário (dias + hora local) a cada
+ * ocorrência abrangida. As ocorrências movidas são revalidadas; com conflitos nada é alterado,
+ * a menos que `ignorarConflitos` seja indicado.
+ */
+export async function atualizarSerieConsultas(dados: {
+  consultaId: number;
+  clinicaId: number;
+  ambito: AmbitoSerie;
+  alteracoes: {
+    dentistaId?: number;
+    procedimentoId?: number;
+    horaInicio?: Date;
+    horaFim?: Date;
+    titulo?: string;
+    observacoes?: string;
+  };
+  ignorarConflitos?: boolean;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { consulta, ocorrencias } = await obterOcorrenciasAmbito(
+    dados.consultaId,
+    dados.clinicaId,
+    dados.ambito
+  );
+  const { alteracoes } = dados;
+
+  const novoInicioRef = alteracoes.horaInicio ?? consulta.horaInicio;
+  if (alteracoes.horaFim && alteracoes.horaFim <= novoInicioRef) {
+    throw new Error("A hora de fim deve ser posterior à hora de início");
+  }
+
+  // Deslocação em dias de calendário e nova hora local (fuso da clínica), a partir da consulta de referência
+  const fuso = await obterFusoClinica(dados.clinicaId);
+  const diaUTC = (d: Date) => Date.parse(chaveDia(d, fuso));
+  const deltaDias = Math.round((diaUTC(novoInicioRef) - diaUTC(consulta.horaInicio)) / 86400000);
+  const novoMinutoInicio = minutosDoDia(novoInicioRef, fuso);
+  const novaDuracaoMs = alteracoes.horaFim
+    ? alteracoes.horaFim.getTime() - novoInicioRef.getTime()
+    : null;
+
+  const mudaHorario = !!alteracoes.horaInicio || !!alteracoes.horaFim ||
+    !!alteracoes.dentistaId || !!alteracoes.procedimentoId;
+  const horarios = ocorrencias.map(ocorrencia => {
+    let horaInicio = ocorrencia.horaInicio;
+    if (alteracoes.horaInicio) {
+      const dia = chaveDia(adicionarDias(ocorrencia.horaInicio, deltaDias, fuso), fuso);
+      horaInicio = dataNoFuso(dia, novoMinutoInicio, fuso);
+    }
+    const duracaoMs = novaDuracaoMs ?? ocorrencia.horaFim.getTime() - ocorrencia.horaInicio.getTime();
+    return {
+      ocorrencia,
+      dentistaId: alteracoes.dentistaId ?? ocorrencia.dentistaId,
+      horaInicio,
+      horaFim: new Date(horaInicio.getTime() + duracaoMs),
+    };
+  });
+
+  // Validação e gravação na mesma transação, com as agendas de destino bloqueadas
+  return await db.transaction(async tx => {
+    const conflitos: ConflitoOcorrencia[] = [];
+    const atualizacoes: Array<{ id: number; horaInicio: Date; horaFim: Date; recursoIds: number[] | null }> = [];
+
+    if (mudaHorario) {
+      await bloquearAgenda(tx, horarios);
+    }
+
+    for (const { ocorrencia, dentistaId, horaInicio, horaFim } of horarios) {
+      let recursoIds: number[] | null = null;
+      if (mudaHorario) {
+        const validacao = await validarAgendamentoCompleto({
+          clinicaId: dados.clinicaId,
+          dentistaId,
+          utenteId: ocorrencia.utenteId,
+          horaInicio,
+          horaFim,
+          consultaIdExcluir: ocorrencia.id,
+          procedimentoId: alteracoes.procedimentoId ?? ocorrencia.procedimentoId,
+          recursosPreferidos: await obterRecursosConsulta(ocorrencia.id, tx),
+        }, tx);
+
+        if (!validacao.valido) {
+          conflitos.push({
+            indice: ocorrencia.indiceSerie ?? 0,
+            consultaId: ocorrencia.id,
+            horaInicio,
+            horaFim,
+            erro: validacao.erro ?? "Conflito de agendamento",
+          });
+          continue;
+        }
+        recursoIds = validacao.recursoIds ?? [];
+      }
+
+      atualizacoes.push({ id: ocorrencia.id, horaInicio, horaFim, recursoIds });
+    }
+
+    if (conflitos.length > 0 && !dados.ignorarConflitos) {
+      return { success: false, atualizadas: 0, conflitos };
+    }
+
+    for (const a of atualizacoes) {
+      await tx
+        .update(consultas)
+        .set({
+          dentistaId: alteracoes.dentistaId,
+          procedimentoId: alteracoes.procedimentoId,
+          titulo: alteracoes.titulo,
+          observacoes: alteracoes.observacoes,
+          horaInicio: a.horaInicio,
+          horaFim: a.horaFim,
+          updatedAt: new Date(),
+        })
+        .where(eq(consultas.id, a.id));
+
+      if (a.recursoIds) {
+        await atribuirRecursosConsulta(tx, a.id, a.recursoIds);
+      }
+    }
+
+    // Ao editar toda a série, os dados da série passam a refletir a alteração
+    if (dados.ambito === "todas" && consulta.serieId !== null) {
+      await tx
+        .update(seriesConsultas)
+        .set({
+          dentistaId: alteracoes.dentistaId,
+          procedimentoId: alteracoes.procedimentoId,
+          titulo: alteracoes.titulo,
+          observacoes: alteracoes.observacoes,
+          duracaoMinutos: novaDuracaoMs !== null ? Math.round(novaDuracaoMs / 60000) : undefined,
+          updatedAt: new Date(),
+        })
+        .where(eq(seriesConsultas.id, consulta.serieId));
+    }
+
+    return { success: true, atualizadas: atualizacoes.length, conflitos };
+  });
+}
+
+/**
+ * Cancelar uma ocorrência, esta e as seguintes, ou toda a série
+ * Ocorrências já realizadas ou canceladas não são afetadas
+ */
+export async function cancelarSerieConsultas(dados: {
+  consultaId: number;
+  clinicaId: number;
+  ambito: AmbitoSerie;
+  motivo?: string;
+  papel: PapelTransicao;
+  userId: number | null;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { consulta, ocorrencias } = await obterOcorrenciasAmbito(
+    dados.consultaId,
+    dados.clinicaId,
+    dados.ambito
+  );
+  if (ocorrencias.length === 0) {
+    return { success: true, canceladas: 0 };
+  }
+
+  await db.transaction(async tx => {
+    for (const ocorrencia of ocorrencias) {
+      await transicionarEstadoConsulta(tx, {
+        consulta: ocorrencia,
+        estado: "cancelada",
+        papel: dados.papel,
+        userId: dados.userId,
+        motivo: dados.motivo,
+        campos: { motivoCancelamento: dados.motivo },
+      });
+    }
+
+    if (dados.ambito === "todas" && consulta.serieId !== null) {
+      await tx
+        .update(seriesConsultas)
+        .set({ ativa: false, updatedAt: new Date() })
+        .where(eq(seriesConsultas.id, consulta.serieId));
+    }
+  });
+
+  return { success: true, canceladas: ocorrencias.length };
+}
+
+/**
+ * Obter uma série e as respetivas ocorrências
+ */
+export async function obterSerieConsultas(serieId: number, clinicaId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [serie] = await db
+    .select()
+    .from(seriesConsultas)
+    .where(and(eq(seriesConsultas.id, serieId), eq(seriesConsultas.clinicaId, clinicaId)))
+    .limit(1);
+
+  if (!serie) return null;
+
+  const ocorrencias = await db
+    .select()
+    .from(consultas)
+    .where(and(eq(consultas.serieId, serieId), eq(consultas.clinicaId, clinicaId)))
+    .orderBy(consultas.indiceSerie);
+
+  return { serie, ocorrencias };
+}
@@ -0,0 +1,125 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { dataNoFuso } from "./fuso-horario";
+import { calcularIntervalosDia, validarHorarioDentista, type ConfiguracaoHorario } from "./validacoes-agenda";
+import type { ExcecaoHorario, HorarioClinica, HorarioDentista } from "../drizzle/schema-agenda";
+
+const FUSOS = ["Europe/Lisbon", "Atlantic/Madeira", "Atlantic/Azores"];
+
+// Dias de mudança de hora em 2026 (ambos ao domingo)
+const DIAS_MUDANCA = ["2026-03-29", "2026-10-25"];
+
+const CRIADO_EM = new Date("2026-01-01T00:00:00Z");
+
+function horarioClinica(diaSemana: number, horaInicio: string, horaFim: string): HorarioClinica {
+  return { id: 0, clinicaId: 1, diaSemana, horaInicio, horaFim, createdAt: CRIADO_EM, updatedAt: CRIADO_EM };
+}
+
+function horarioDentista(
+  diaSemana: number,
+  horaInicio: string,
+  horaFim: string,
+  tipo: HorarioDentista["tipo"] = "trabalho"
+): HorarioDentista {
+  return { id: 0, clinicaId: 1, dentistaId: 1, diaSemana, tipo, horaInicio, horaFim, createdAt: CRIADO_EM, updatedAt: CRIADO_EM };
+}
+
+function excecaoDiaInteiro(data: string, descricao: string): ExcecaoHorario {
+  return {
+    id: 0,
+    clinicaId: 1,
+    dentistaId: null,
+    tipo: "feriado",
+    dataInicio: data,
+    dataFim: data,
+    horaInicio: null,
+    horaFim: null,
+    descricao,
+    observacoes: null,
+    criadoPor: null,
+    createdAt: CRIADO_EM,
+  };
+}
+
+// Clínica aberta todos os dias, 09:00–13:00 e 14:00–19:00
+function configuracao(fusoHorario: string, extra: Partial<ConfiguracaoHorario> = {}): ConfiguracaoHorario {
+  const horariosClinica = [0, 1, 2, 3, 4, 5, 6].flatMap(dia => [
+    horarioClinica(dia, "09:00:00", "13:00:00"),
+    horarioClinica(dia, "14:00:00", "19:00:00"),
+  ]);
+  return { horariosClinica, horariosDentista: [], excecoes: [], fusoHorario, ...extra };
+}
+
+// Validar uma consulta marcada em horas locais do fuso
+function validar(config: ConfiguracaoHorario, dia: string, inicio: string, fim: string) {
+  const minutos = (hora: string) => {
+    const [h, m] = hora.split(":").map(Number);
+    return h * 60 + m;
+  };
+  return validarHorarioDentista({
+    clinicaId: 1,
+    dentistaId: 1,
+    horaInicio: dataNoFuso(dia, minutos(inicio), config.fusoHorario),
+    horaFim: dataNoFuso(dia, minutos(fim), config.fusoHorario),
+    configuracao: config,
+  });
+}
+
+for (const fuso of FUSOS) {
+  for (const dia of DIAS_MUDANCA) {
+    describe(`${fuso}: horário em ${dia}`, () => {
+      it("calcula os intervalos do dia local", () => {
+        const { intervalos } = calcularIntervalosDia(configuracao(fuso), dataNoFuso(dia, 12 * 60, fuso));
+
+        assert.deepEqual(intervalos, [
+          { inicio: 9 * 60, fim: 13 * 60 },
+          { inicio: 14 * 60, fim: 19 * 60 },
+        ]);
+      });
+
+      it("aceita consultas dentro do horário, na hora local da clínica", async () => {
+        assert.deepEqual(await validar(configuracao(fuso), dia, "09:00", "09:30"), { valido: true });
+        assert.deepEqual(await validar(configuracao(fuso), dia, "18:30", "19:00"), { valido: true });
+      });
+
+      it("recusa consultas fora do horário", async () => {
+        const antesAbertura = await validar(configuracao(fuso), dia, "08:30", "09:30");
+        const almoco = await validar(configuracao(fuso), dia, "12:30", "13:30");
+
+        assert.equal(antesAbertura.valido, false);
+        assert.equal(antesAbertura.erro, "Fora do horário disponível neste dia (09:00–13:00, 14:00–19:00)");
+        assert.equal(almoco.valido, false);
+      });
+
+      it("usa o dia da semana local", async () => {
+        // Clínica fechada ao domingo: os dois dias de mudança de hora são domingos
+        const config = configuracao(fuso, {
+          horariosClinica: configuracao(fuso).horariosClinica.filter(h => h.diaSemana !== 0),
+        });
+        const resultado = await validar(config, dia, "10:00", "10:30");
+
+        assert.equal(resultado.valido, false);
+        assert.equal(resultado.erro, "A clínica não funciona aos Domingos");
+      });
+
+      it("aplica o horário do dentista e as exceções do dia", async () => {
+        const turnos = configuracao(fuso, {
+          horariosDentista: [horarioDentista(0, "10:00:00", "18:00:00"), horarioDentista(0, "15:00:00", "16:00:00", "pausa")],
+        });
+        assert.deepEqual(calcularIntervalosDia(turnos, dataNoFuso(dia, 12 * 60, fuso)).intervalos, [
+          { inicio: 10 * 60, fim: 13 * 60 },
+          { inicio: 14 * 60, fim: 15 * 60 },
+          { inicio: 16 * 60, fim: 18 * 60 },
+        ]);
+        assert.equal((await validar(turnos, dia, "09:00", "09:30")).valido, false);
+        assert.equal((await validar(turnos, dia, "16:00", "17:00")).valido, true);
+
+        const feriado = configuracao(fuso, { excecoes: [excecaoDiaInteiro(dia, "Encerrado")] });
+        assert.deepEqual(await validar(feriado, dia, "10:00", "10:30"), {
+          valido: false,
+          erro: "Indisponível neste dia: Encerrado",
+        });
+      });
+    });
+  }
+}
@@ -1,10 +1,37 @@
-import { getDb } from "./db";
-import { consultas } from "../drizzle/schema";
-import { and, eq, or, gte, lte, ne } from "drizzle-orm";
+import { getDb, type Executor, type Tx } from "./db";
+import { consultas, dentistas } from "../drizzle/schema";
+import {
+  horariosClinica,
+  horariosDentista,
+  excecoesHorario,
+  type HorarioClinica,
+  type HorarioDentista,
+  type ExcecaoHorario,
+} from "../drizzle/schema-agenda";
+import {
+  carregarRequisitos,
+  carregarRecursosClinica,
+  carregarOcupacaoRecursos,
+  escolherRecursos,
+  verificarDisponibilidadeRecursos,
+} from "./recursos-agenda";
+import {
+  FUSO_PADRAO,
+  adicionarDiasChave,
+  chaveDia,
+  dataNoFuso,
+  diaSemana,
+  fimDoDia,
+  inicioDoDia,
+  minutosDoDia,
+  obterFusoClinica,
+} from "./fuso-horario";
+import { and, eq, or, gt, gte, lt, lte, ne, isNull, notInArray, sql } from "drizzle-orm";
 
 /**
  * Serviço de Validações de Agenda
  * Validar conflitos de horário, disponibilidade e regras de negócio
+ * Dias da semana e horas são sempre avaliados no fuso horário da clínica
  */
 
 export interface ValidacaoResultado {
@@ -12,6 +39,61 @@ export interface ValidacaoResultado {
   erro?: string;
   conflitos?: any[];
   sugestoes?: Date[];
+  recursoIds?: number[]; // Recursos a atribuir à consulta, quando verificados
+}
+
+/**
+ * Intervalo de tempo dentro de um dia, em minutos desde as 00:00
+ */
+export interface IntervaloMinutos {
+  inicio: number;
+  fim: number;
+}
+
+/**
+ * Horários e exceções carregados da base de dados para uma clínica/dentista
+ */
+export interface ConfiguracaoHorario {
+  horariosClinica: HorarioClinica[];
+  horariosDentista: HorarioDentista[];
+  excecoes: ExcecaoHorario[];
+  fusoHorario: string;
+}
+
+/**
+ * Horário usado enquanto a clínica não tiver o seu horário de funcionamento configurado
+ */
+const HORARIO_PADRAO = {
+  horaAbertura: 7,
+  horaFechamento: 20,
+  diasFuncionamento: [1, 2, 3, 4, 5, 6], // Seg a Sáb
+};
+
+const DIAS_SEMANA = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
+
+/**
+ * Bloquear a agenda dos dentistas nos dias das marcações até ao fim da transação
+ * Chave (dentistaId, dia UTC): todas as marcações (receção, séries, marcação online, lista de espera,
+ * remarcações e planos de tratamento) usam a mesma chave, e as chaves são bloqueadas por ordem
+ * para duas transações com vários dias não ficarem à espera uma da outra
+ */
+export async function bloquearAgenda(
+  tx: Tx,
+  marcacoes: Array<{ dentistaId: number; horaInicio: Date; horaFim: Date }>
+): Promise<void> {
+  const DIA_MS = 24 * 60 * 60 * 1000;
+  const chaves = new Map<string, [number, number]>();
+  for (const m of marcacoes) {
+    const ultimoDia = Math.floor((m.horaFim.getTime() - 1) / DIA_MS);
+    for (let dia = Math.floor(m.horaInicio.getTime() / DIA_MS); dia <= ultimoDia; dia++) {
+      chaves.set(`${m.dentistaId}:${dia}`, [m.dentistaId, dia]);
+    }
+  }
+
+  const ordenadas = Array.from(chaves.values()).sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  for (const [dentistaId, dia] of ordenadas) {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${dentistaId}, ${dia})`);
+  }
 }
 
 /**
@@ -22,8 +104,8 @@ export async function verificarConflitoHorario(dados: {
   horaInicio: Date;
   horaFim: Date;
   consultaIdExcluir?: number; // Para edição, excluir a própria consulta
-}): Promise<ValidacaoResultado> {
-  const db = await getDb();
+}, executor?: Executor): Promise<ValidacaoResultado> {
+  const db = executor ?? await getDb();
   if (!db) {
     return { valido: false, erro: "Base de dados não disponível" };
   }
@@ -38,26 +120,11 @@ export async function verificarConflitoHorario(dados: {
           eq(consultas.dentistaId, dados.dentistaId),
           // Excluir a própria consulta se for edição
           dados.consultaIdExcluir ? ne(consultas.id, dados.consultaIdExcluir) : undefined,
-          // Não considerar consultas canceladas
-          ne(consultas.estado, "cancelada"),
-          // Verificar sobreposição de horários
-          or(
-            // Nova consulta começa durante consulta existente
-            and(
-              gte(consultas.horaInicio, dados.horaInicio),
-              lte(consultas.horaInicio, dados.horaFim)
-            ),
-            // Nova consulta termina durante consulta existente
-            and(
-              gte(consultas.horaFim, dados.horaInicio),
-              lte(consultas.horaFim, dados.horaFim)
-            ),
-            // Nova consulta engloba consulta existente
-            and(
-              lte(consultas.horaInicio, dados.horaInicio),
-              gte(consultas.horaFim, dados.horaFim)
-            )
-          )
+          // Não considerar consultas canceladas nem faltas (a cadeira ficou livre)
+          notInArray(consultas.estado, ["cancelada", "faltou"]),
+          // Verificar sobreposição de horários (consultas seguidas não se sobrepõem)
+          lt(consultas.horaInicio, dados.horaFim),
+          gt(consultas.horaFim, dados.horaInicio)
         )
       );
 
@@ -83,8 +150,8 @@ export async function verificarConflitoUtenteHorario(dados: {
   horaInicio: Date;
   horaFim: Date;
   consultaIdExcluir?: number;
-}): Promise<ValidacaoResultado> {
-  const db = await getDb();
+}, executor?: Executor): Promise<ValidacaoResultado> {
+  const db = executor ?? await getDb();
   if (!db) {
     return { valido: false, erro: "Base de dados não disponível" };
   }
@@ -97,21 +164,9 @@ export async function verificarConflitoUtenteHorario(dados: {
         and(
           eq(consultas.utenteId, dados.utenteId),
           dados.consultaIdExcluir ? ne(consultas.id, dados.consultaIdExcluir) : undefined,
-          ne(consultas.estado, "cancelada"),
-          or(
-            and(
-              gte(consultas.horaInicio, dados.horaInicio),
-              lte(consultas.horaInicio, dados.horaFim)
-            ),
-            and(
-              gte(consultas.horaFim, dados.horaInicio),
-              lte(consultas.horaFim, dados.horaFim)
-            ),
-            and(
-              lte(consultas.horaInicio, dados.horaInicio),
-              gte(consultas.horaFim, dados.horaFim)
-            )
-          )
+          notInArray(consultas.estado, ["cancelada", "faltou"]),
+          lt(consultas.horaInicio, dados.horaFim),
+          gt(consultas.horaFim, dados.horaInicio)
         )
       );
 
@@ -139,27 +194,28 @@ export function validarHorarioFuncionamento(
     horaAbertura?: number; // hora em formato 24h (ex: 8)
     horaFechamento?: number; // hora em formato 24h (ex: 20)
     diasFuncionamento?: number[]; // 0=domingo, 1=segunda, etc
+    fusoHorario?: string; // Fuso da clínica (por omissão Europe/Lisbon)
   }
 ): ValidacaoResultado {
   const configuracao = {
-    horaAbertura: config?.horaAbertura || 7,
-    horaFechamento: config?.horaFechamento || 20,
-    diasFuncionamento: config?.diasFuncionamento || [1, 2, 3, 4, 5, 6], // Seg a Sáb
+    horaAbertura: config?.horaAbertura || HORARIO_PADRAO.horaAbertura,
+    horaFechamento: config?.horaFechamento || HORARIO_PADRAO.horaFechamento,
+    diasFuncionamento: config?.diasFuncionamento || HORARIO_PADRAO.diasFuncionamento,
+    fusoHorario: config?.fusoHorario || FUSO_PADRAO,
   };
 
   // Verificar dia da semana
-  const diaSemana = horaInicio.getDay();
-  if (!configuracao.diasFuncionamento.includes(diaSemana)) {
-    const diasNomes = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
+  const dia = diaSemana(horaInicio, configuracao.fusoHorario);
+  if (!configuracao.diasFuncionamento.includes(dia)) {
     return {
       valido: false,
-      erro: `A clínica não funciona aos ${diasNomes[diaSemana]}s`,
+      erro: `A clínica não funciona aos ${DIAS_SEMANA[dia]}s`,
     };
   }
 
   // Verificar horário de abertura
-  const horaInicioNum = horaInicio.getHours();
-  const horaFimNum = horaFim.getHours();
+  const horaInicioNum = Math.floor(minutosDoDia(horaInicio, configuracao.fusoHorario) / 60);
+  const horaFimNum = Math.floor(minutosDoDia(horaFim, configuracao.fusoHorario) / 60);
 
   if (horaInicioNum < configuracao.horaAbertura) {
     return {
@@ -186,6 +242,251 @@ export function validarHorarioFuncionamento(
   return { valido: true };
 }
 
+/**
+ * Converter hora "HH:MM" ou "HH:MM:SS" em minutos desde as 00:00
+ */
+export function horaParaMinutos(hora: string): number {
+  const [horas, minutos] = hora.split(":").map(Number);
+  return horas * 60 + (minutos || 0);
+}
+
+/**
+ * Converter minutos desde as 00:00 em "HH:MM"
+ */
+export function minutosParaHora(minutos: number): string {
+  const h = Math.floor(minutos / 60).toString().padStart(2, "0");
+  const m = (minutos % 60).toString().padStart(2, "0");
+  return `${h}:${m}`;
+}
+
+/**
+ * Ordenar e fundir intervalos sobrepostos ou contíguos
+ */
+function normalizarIntervalos(intervalos: IntervaloMinutos[]): IntervaloMinutos[] {
+  const ordenados = intervalos
+    .filter(i => i.fim > i.inicio)
+    .sort((a, b) => a.inicio - b.inicio);
+
+  const resultado: IntervaloMinutos[] = [];
+  for (const intervalo of ordenados) {
+    const ultimo = resultado[resultado.length - 1];
+    if (ultimo && intervalo.inicio <= ultimo.fim) {
+      ultimo.fim = Math.max(ultimo.fim, intervalo.fim);
+    } else {
+      resultado.push({ ...intervalo });
+    }
+  }
+  return resultado;
+}
+
+/**
+ * Remover de "base" os períodos em "remover" (pausas, exceções parciais)
+ */
+function subtrairIntervalos(base: IntervaloMinutos[], remover: IntervaloMinutos[]): IntervaloMinutos[] {
+  let resultado = normalizarIntervalos(base);
+
+  for (const r of normalizarIntervalos(remover)) {
+    const proximo: IntervaloMinutos[] = [];
+    for (const intervalo of resultado) {
+      if (r.fim <= intervalo.inicio || r.inicio >= intervalo.fim) {
+        proximo.push(intervalo);
+        continue;
+      }
+      if (r.inicio > intervalo.inicio) {
+        proximo.push({ inicio: intervalo.inicio, fim: r.inicio });
+      }
+      if (r.fim < intervalo.fim) {
+        proximo.push({ inicio: r.fim, fim: intervalo.fim });
+      }
+    }
+    resultado = proximo;
+  }
+
+  return resultado;
+}
+
+/**
+ * Interseção de dois conjuntos de intervalos (ex: turno do dentista vs horário da clínica)
+ */
+function intersetarIntervalos(a: IntervaloMinutos[], b: IntervaloMinutos[]): IntervaloMinutos[] {
+  const resultado: IntervaloMinutos[] = [];
+  for (const x of normalizarIntervalos(a)) {
+    for (const y of normalizarIntervalos(b)) {
+      const inicio = Math.max(x.inicio, y.inicio);
+      const fim = Math.min(x.fim, y.fim);
+      if (fim > inicio) {
+        resultado.push({ inicio, fim });
+      }
+    }
+  }
+  return normalizarIntervalos(resultado);
+}
+
+/**
+ * Carregar horário da clínica, horário do dentista e exceções de um período
+ */
+export async function carregarConfiguracaoHorario(dados: {
+  clinicaId: number;
+  dentistaId?: number;
+  dataInicio: Date;
+  dataFim: Date;
+}, executor?: Executor): Promise<ConfiguracaoHorario> {
+  const db = executor ?? await getDb();
+  if (!db) {
+    return { horariosClinica: [], horariosDentista: [], excecoes: [], fusoHorario: FUSO_PADRAO };
+  }
+
+  const fusoHorario = await obterFusoClinica(dados.clinicaId);
+
+  const [horariosClinicaRows, horariosDentistaRows, excecoesRows] = await Promise.all([
+    db.select().from(horariosClinica).where(eq(horariosClinica.clinicaId, dados.clinicaId)),
+    dados.dentistaId
+      ? db.select().from(horariosDentista).where(eq(horariosDentista.dentistaId, dados.dentistaId))
+      : Promise.resolve([] as HorarioDentista[]),
+    db
+      .select()
+      .from(excecoesHorario)
+      .where(
+        and(
+          eq(excecoesHorario.clinicaId, dados.clinicaId),
+          // Exceções da clínica inteira ou do próprio dentista
+          dados.dentistaId
+            ? or(isNull(excecoesHorario.dentistaId), eq(excecoesHorario.dentistaId, dados.dentistaId))
+            : isNull(excecoesHorario.dentistaId),
+          lte(excecoesHorario.dataInicio, chaveDia(dados.dataFim, fusoHorario)),
+          gte(excecoesHorario.dataFim, chaveDia(dados.dataInicio, fusoHorario))
+        )
+      ),
+  ]);
+
+  return {
+    horariosClinica: horariosClinicaRows,
+    horariosDentista: horariosDentistaRows,
+    excecoes: excecoesRows,
+    fusoHorario,
+  };
+}
+
+/**
+ * Calcular os intervalos de trabalho disponíveis num dia
+ *
+ * Regras:
+ * - Sem horário de clínica configurado, aplica-se o HORARIO_PADRAO
+ * - Se o dentista tem horário semanal, só trabalha nos seus turnos (dentro do horário da clínica);
+ *   dias sem turnos são dias de folga. Sem horário próprio, segue o horário da clínica
+ * - Pausas e exceções (dia inteiro ou parciais) são removidas dos intervalos
+ * O dia é o dia local (no fuso da clínica) que contém o instante `data`
+ */
+export function calcularIntervalosDia(
+  config: ConfiguracaoHorario,
+  data: Date
+): { intervalos: IntervaloMinutos[]; excecoes: ExcecaoHorario[] } {
+  const dia = diaSemana(data, config.fusoHorario);
+  const chave = chaveDia(data, config.fusoHorario);
+
+  let intervalosClinica: IntervaloMinutos[];
+  if (config.horariosClinica.length === 0) {
+    intervalosClinica = HORARIO_PADRAO.diasFuncionamento.includes(dia)
+      ? [{ inicio: HORARIO_PADRAO.horaAbertura * 60, fim: HORARIO_PADRAO.horaFechamento * 60 }]
+      : [];
+  } else {
+    intervalosClinica = config.horariosClinica
+      .filter(h => h.diaSemana === dia)
+      .map(h => ({ inicio: horaParaMinutos(h.horaInicio), fim: horaParaMinutos(h.horaFim) }));
+  }
+
+  let intervalos = normalizarIntervalos(intervalosClinica);
+  if (config.horariosDentista.length > 0) {
+    const blocosDia = config.horariosDentista.filter(h => h.diaSemana === dia);
+    const turnos = blocosDia
+      .filter(h => h.tipo === "trabalho")
+      .map(h => ({ inicio: horaParaMinutos(h.horaInicio), fim: horaParaMinutos(h.horaFim) }));
+    const pausas = blocosDia
+      .filter(h => h.tipo === "pausa")
+      .map(h => ({ inicio: horaParaMinutos(h.horaInicio), fim: horaParaMinutos(h.horaFim) }));
+
+    intervalos = intersetarIntervalos(subtrairIntervalos(turnos, pausas), intervalos);
+  }
+
+  const excecoes = config.excecoes.filter(e => e.dataInicio <= chave && e.dataFim >= chave);
+  for (const excecao of excecoes) {
+    if (!excecao.horaInicio || !excecao.horaFim) {
+      intervalos = [];
+      break;
+    }
+    intervalos = subtrairIntervalos(intervalos, [
+      { inicio: horaParaMinutos(excecao.horaInicio), fim: horaParaMinutos(excecao.horaFim) },
+    ]);
+  }
+
+  return { intervalos, excecoes };
+}
+
+/**
+ * Validar horário contra o horário da clínica, o horário do dentista e as exceções
+ */
+export async function validarHorarioDentista(dados: {
+  clinicaId: number;
+  dentistaId: number;
+  horaInicio: Date;
+  horaFim: Date;
+  configuracao?: ConfiguracaoHorario; // Evita recarregar quando já foi obtida (ex: séries)
+}, executor?: Executor): Promise<ValidacaoResultado> {
+  if (dados.horaFim <= dados.horaInicio) {
+    return {
+      valido: false,
+      erro: "A hora de término deve ser posterior à hora de início",
+    };
+  }
+
+  const configuracao = dados.configuracao ?? await carregarConfiguracaoHorario({
+    clinicaId: dados.clinicaId,
+    dentistaId: dados.dentistaId,
+    dataInicio: dados.horaInicio,
+    dataFim: dados.horaFim,
+  }, executor);
+  const fuso = configuracao.fusoHorario;
+
+  if (chaveDia(dados.horaInicio, fuso) !== chaveDia(dados.horaFim, fuso)) {
+    return {
+      valido: false,
+      erro: "A consulta deve começar e terminar no mesmo dia",
+    };
+  }
+
+  const { intervalos, excecoes } = calcularIntervalosDia(configuracao, dados.horaInicio);
+
+  if (intervalos.length === 0) {
+    const excecao = excecoes.find(e => !e.horaInicio);
+    if (excecao) {
+      return {
+        valido: false,
+        erro: `Indisponível neste dia: ${excecao.descricao || excecao.tipo}`,
+      };
+    }
+    return {
+      valido: false,
+      erro: configuracao.horariosDentista.length > 0
+        ? `O dentista não trabalha aos ${DIAS_SEMANA[diaSemana(dados.horaInicio, fuso)]}s`
+        : `A clínica não funciona aos ${DIAS_SEMANA[diaSemana(dados.horaInicio, fuso)]}s`,
+    };
+  }
+
+  const inicio = minutosDoDia(dados.horaInicio, fuso);
+  const fim = minutosDoDia(dados.horaFim, fuso);
+
+  const dentroDeIntervalo = intervalos.some(i => inicio >= i.inicio && fim <= i.fim);
+  if (!dentroDeIntervalo) {
+    const horario = intervalos.map(i => `${minutosParaHora(i.inicio)}–${minutosParaHora(i.fim)}`).join(", ");
+    return {
+      valido: false,
+      erro: `Fora do horário disponível neste dia (${horario})`,
+    };
+  }
+
+  return { valido: true };
+}
+
 /**
  * Validar duração mínima e máxima da consulta
  */
@@ -251,6 +552,8 @@ export function validarAntecedenciaMinima(
 
 /**
  * Validação completa de agendamento
+ * Dentro de uma transação, passar a transação (depois de bloquearAgenda) para as consultas
+ * lidas serem as da transação que vai gravar a marcação
  */
 export async function validarAgendamentoCompleto(dados: {
   clinicaId: number;
@@ -259,33 +562,46 @@ export async function validarAgendamentoCompleto(dados: {
   horaInicio: Date;
   horaFim: Date;
   consultaIdExcluir?: number;
+  procedimentoId?: number | null;
+  recursoIds?: number[]; // Recursos escolhidos explicitamente (ex: gabinete)
+  recursosPreferidos?: number[]; // Recursos a manter se estiverem livres (ex: ao mover a consulta)
   config?: {
     verificarAntecedencia?: boolean;
     verificarHorarioFuncionamento?: boolean;
     verificarDuracao?: boolean;
     verificarConflitoDentista?: boolean;
     verificarConflitoUtente?: boolean;
+    verificarRecursos?: boolean;
+    antecedenciaMinutos?: number; // Antecedência mínima definida pela clínica
   };
-}): Promise<ValidacaoResultado> {
+}, executor?: Executor): Promise<ValidacaoResultado> {
   const config = {
     verificarAntecedencia: dados.config?.verificarAntecedencia ?? true,
     verificarHorarioFuncionamento: dados.config?.verificarHorarioFuncionamento ?? true,
     verificarDuracao: dados.config?.verificarDuracao ?? true,
     verificarConflitoDentista: dados.config?.verificarConflitoDentista ?? true,
     verificarConflitoUtente: dados.config?.verificarConflitoUtente ?? true,
+    verificarRecursos: dados.config?.verificarRecursos ?? true,
   };
 
   // Validar antecedência mínima
   if (config.verificarAntecedencia) {
-    const validacaoAntecedencia = validarAntecedenciaMinima(dados.horaInicio);
+    const validacaoAntecedencia = validarAntecedenciaMinima(dados.horaInicio, {
+      antecedenciaMinutos: dados.config?.antecedenciaMinutos,
+    });
     if (!validacaoAntecedencia.valido) {
       return validacaoAntecedencia;
     }
   }
 
-  // Validar horário de funcionamento
+  // Validar horário de funcionamento da clínica e horário do dentista
   if (config.verificarHorarioFuncionamento) {
-    const validacaoHorario = validarHorarioFuncionamento(dados.horaInicio, dados.horaFim);
+    const validacaoHorario = await validarHorarioDentista({
+      clinicaId: dados.clinicaId,
+      dentistaId: dados.dentistaId,
+      horaInicio: dados.horaInicio,
+      horaFim: dados.horaFim,
+    }, executor);
     if (!validacaoHorario.valido) {
       return validacaoHorario;
     }
@@ -306,7 +622,7 @@ export async function validarAgendamentoCompleto(dados: {
       horaInicio: dados.horaInicio,
       horaFim: dados.horaFim,
       consultaIdExcluir: dados.consultaIdExcluir,
-    });
+    }, executor);
     if (!validacaoConflitoDentista.valido) {
       return validacaoConflitoDentista;
     }
@@ -319,23 +635,60 @@ export async function validarAgendamentoCompleto(dados: {
       horaInicio: dados.horaInicio,
       horaFim: dados.horaFim,
       consultaIdExcluir: dados.consultaIdExcluir,
-    });
+    }, executor);
     if (!validacaoConflitoUtente.valido) {
       return validacaoConflitoUtente;
     }
   }
 
+  // Verificar gabinetes, cadeiras e equipamentos necessários
+  if (config.verificarRecursos) {
+    const validacaoRecursos = await verificarDisponibilidadeRecursos({
+      clinicaId: dados.clinicaId,
+      procedimentoId: dados.procedimentoId,
+      recursoIds: dados.recursoIds,
+      recursosPreferidos: dados.recursosPreferidos,
+      horaInicio: dados.horaInicio,
+      horaFim: dados.horaFim,
+      consultaIdExcluir: dados.consultaIdExcluir,
+    }, executor);
+    if (!validacaoRecursos.valido) {
+      return { valido: false, erro: validacaoRecursos.erro };
+    }
+    return { valido: true, recursoIds: validacaoRecursos.recursoIds };
+  }
+
   return { valido: true };
 }
 
+/**
+ * Obter a clínica de um dentista
+ */
+async function obterClinicaDentista(dentistaId: number): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [dentista] = await db
+    .select({ clinicaId: dentistas.clinicaId })
+    .from(dentistas)
+    .where(eq(dentistas.id, dentistaId))
+    .limit(1);
+
+  return dentista?.clinicaId ?? null;
+}
+
 /**
  * Sugerir horários alternativos quando há conflito
+ * Com procedimento ou recursos indicados, só sugere horários em que os recursos também estão livres
  */
 export async function sugerirHorariosAlternativos(dados: {
   dentistaId: number;
   dataDesejada: Date;
   duracao: number; // em minutos
   quantidade?: number;
+  clinicaId?: number;
+  procedimentoId?: number;
+  recursoIds?: number[];
 }): Promise<Date[]> {
   const db = await getDb();
   if (!db) return [];
@@ -343,11 +696,14 @@ export async function sugerirHorariosAlternativos(dados: {
   const quantidade = dados.quantidade || 5;
   const sugestoes: Date[] = [];
 
-  // Buscar consultas do dentista no dia
-  const inicioDia = new Date(dados.dataDesejada);
-  inicioDia.setHours(0, 0, 0, 0);
-  const fimDia = new Date(dados.dataDesejada);
-  fimDia.setHours(23, 59, 59, 999);
+  const clinicaId = dados.clinicaId ?? await obterClinicaDentista(dados.dentistaId);
+  if (!clinicaId) return [];
+
+  // Buscar consultas do dentista no dia (dia local da clínica)
+  const fuso = await obterFusoClinica(clinicaId);
+  const inicioDia = inicioDoDia(dados.dataDesejada, fuso);
+  const fimDia = fimDoDia(dados.dataDesejada, fuso);
+  const chave = chaveDia(dados.dataDesejada, fuso);
 
   const consultasDia = await db
     .select()
@@ -357,22 +713,36 @@ export async function sugerirHorariosAlternativos(dados: {
         eq(consultas.dentistaId, dados.dentistaId),
         gte(consultas.horaInicio, inicioDia),
         lte(consultas.horaInicio, fimDia),
-        ne(consultas.estado, "cancelada")
+        notInArray(consultas.estado, ["cancelada", "faltou"])
       )
     )
     .orderBy(consultas.horaInicio);
 
-  // Horários de funcionamento (7h às 20h)
-  const horaAbertura = 7;
-  const horaFechamento = 20;
-
-  // Gerar slots de 30 minutos
+  // Intervalos de trabalho do dentista nesse dia
+  const configuracao = await carregarConfiguracaoHorario({
+    clinicaId,
+    dentistaId: dados.dentistaId,
+    dataInicio: inicioDia,
+    dataFim: fimDia,
+  });
+  const { intervalos } = calcularIntervalosDia(configuracao, inicioDia);
+
+  // Recursos exigidos e respetiva ocupação no dia (carregados uma só vez)
+  const requisitos = await carregarRequisitos(dados.procedimentoId);
+  const recursoIds = dados.recursoIds ?? [];
+  const usaRecursos = requisitos.length > 0 || recursoIds.length > 0;
+  const [recursosClinica, ocupacoes] = usaRecursos
+    ? await Promise.all([
+        carregarRecursosClinica(clinicaId),
+        carregarOcupacaoRecursos({ clinicaId, dataInicio: inicioDia, dataFim: fimDia }),
+      ])
+    : [[], []];
+
+  // Gerar slots de 30 minutos que caibam inteiros num intervalo
   const slots: Date[] = [];
-  for (let hora = horaAbertura; hora < horaFechamento; hora++) {
-    for (let minuto = 0; minuto < 60; minuto += 30) {
-      const slot = new Date(dados.dataDesejada);
-      slot.setHours(hora, minuto, 0, 0);
-      slots.push(slot);
+  for (const intervalo of intervalos) {
+    for (let minuto = intervalo.inicio; minuto + dados.duracao <= intervalo.fim; minuto += 30) {
+      slots.push(dataNoFuso(chave, minuto, fuso));
     }
   }
 
@@ -401,9 +771,21 @@ export async function sugerirHorariosAlternativos(dados: {
       }
     }
 
-    if (!temConflito) {
-      sugestoes.push(slot);
+    if (temConflito) continue;
+
+    if (usaRecursos) {
+      const escolha = escolherRecursos({
+        requisitos,
+        recursos: recursosClinica,
+        ocupacoes,
+        horaInicio: slot,
+        horaFim: slotFim,
+        obrigatorios: recursoIds,
+      });
+      if (!escolha.valido) continue;
     }
+
+    sugestoes.push(slot);
   }
 
   return sugestoes;
@@ -416,6 +798,7 @@ export async function verificarDisponibilidadeDentista(dados: {
   dentistaId: number;
   dataInicio: Date;
   dataFim: Date;
+  clinicaId?: number;
 }): Promise<{
   disponivel: boolean;
   horasOcupadas: number;
@@ -427,6 +810,11 @@ export async function verificarDisponibilidadeDentista(dados: {
     return { disponivel: false, horasOcupadas: 0, horasLivres: 0, taxaOcupacao: 0 };
   }
 
+  const clinicaId = dados.clinicaId ?? await obterClinicaDentista(dados.dentistaId);
+  if (!clinicaId) {
+    return { disponivel: false, horasOcupadas: 0, horasLivres: 0, taxaOcupacao: 0 };
+  }
+
   const consultasPeriodo = await db
     .select()
     .from(consultas)
@@ -449,13 +837,25 @@ export async function verificarDisponibilidadeDentista(dados: {
 
   const horasOcupadas = minutosOcupados / 60;
 
-  // Calcular horas de trabalho no período (assumindo 9h por dia útil)
-  const dias = Math.ceil(
-    (dados.dataFim.getTime() - dados.dataInicio.getTime()) / (1000 * 60 * 60 * 24)
-  );
-  const horasTrabalho = dias * 9; // 9 horas por dia
+  // Calcular horas de trabalho no período a partir do horário do dentista e das exceções
+  const configuracao = await carregarConfiguracaoHorario({
+    clinicaId,
+    dentistaId: dados.dentistaId,
+    dataInicio: dados.dataInicio,
+    dataFim: dados.dataFim,
+  });
+
+  let minutosTrabalho = 0;
+  const fuso = configuracao.fusoHorario;
+  const ultimoDia = chaveDia(dados.dataFim, fuso);
+  for (let dia = chaveDia(dados.dataInicio, fuso); dia <= ultimoDia; dia = adicionarDiasChave(dia, 1)) {
+    const { intervalos } = calcularIntervalosDia(configuracao, dataNoFuso(dia, 12 * 60, fuso));
+    minutosTrabalho += intervalos.reduce((total, i) => total + (i.fim - i.inicio), 0);
+  }
+
+  const horasTrabalho = minutosTrabalho / 60;
   const horasLivres = horasTrabalho - horasOcupadas;
-  const taxaOcupacao = (horasOcupadas / horasTrabalho) * 100;
+  const taxaOcupacao = horasTrabalho > 0 ? (horasOcupadas / horasTrabalho) * 100 : 0;
 
   return {
     disponivel: horasLivres > 0,
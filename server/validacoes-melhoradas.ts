@@ -265,6 +265,8 @@ export const criarFaturaSchema = z.object({
     descricao: z.string().min(1).max(500),
     quantidade: z.number().int().positive(),
     precoUnitario: valorMonetarioSchema,
+    taxaIVA: percentagemSchema.optional(),
+    motivoIsencao: z.string().regex(/^M\d{2}$/, "Código de isenção inválido (ex: M07)").optional(),
   })).min(1, "Fatura deve ter pelo menos um item"),
 });
 
@@ -276,6 +278,8 @@ export const criarProcedimentoSchema = z.object({
   nome: z.string().min(2).max(255),
   descricao: z.string().max(2000).optional(),
   precoBase: valorMonetarioSchema,
+  taxaIVA: percentagemSchema.default(0),
+  motivoIsencao: z.string().regex(/^M\d{2}$/, "Código de isenção inválido (ex: M07)").optional(),
   duracaoMinutos: duracaoConsultaSchema.default(30),
   categoriaId: z.number().int().positive().optional(),
   cor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Cor deve estar no formato hexadecimal (#RRGGBB)").optional(),
@@ -8,12 +8,14 @@
  * Funcionalidades:
  * - Envio de mensagens de texto
  * - Envio de mensagens com templates
+ * - Envio de documentos (PDF)
  * - Webhook para receber mensagens
  * - Histórico de conversas
  * - Gestão de templates
  */
 
 import axios from 'axios';
+import { createHmac, timingSafeEqual } from 'crypto';
 import { getDb } from './db';
 import { mensagensUtente } from '../drizzle/schema';
 import { eq, and, desc } from 'drizzle-orm';
@@ -27,6 +29,7 @@ interface WhatsAppConfig {
   metaAccessToken?: string;
   metaPhoneNumberId?: string;
   metaBusinessAccountId?: string;
+  metaAppSecret?: string; // Assinatura dos webhooks (X-Hub-Signature-256)
   // Twilio
   twilioAccountSid?: string;
   twilioAuthToken?: string;
@@ -68,6 +71,7 @@ export class WhatsAppService {
       metaAccessToken: process.env.META_WHATSAPP_ACCESS_TOKEN,
       metaPhoneNumberId: process.env.META_WHATSAPP_PHONE_NUMBER_ID,
       metaBusinessAccountId: process.env.META_WHATSAPP_BUSINESS_ACCOUNT_ID,
+      metaAppSecret: process.env.META_WHATSAPP_APP_SECRET,
       twilioAccountSid: process.env.TWILIO_ACCOUNT_SID,
       twilioAuthToken: process.env.TWILIO_AUTH_TOKEN,
       twilioWhatsAppNumber: process.env.TWILIO_WHATSAPP_NUMBER,
@@ -245,6 +249,98 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Enviar documento (ex: PDF de fatura) a partir de um URL público
+   */
+  async sendDocumentMessage(
+    to: string,
+    documentUrl: string,
+    filename: string,
+    caption: string,
+    clinicaId: number,
+    utenteId?: number
+  ): Promise<SendResult> {
+    if (!this.isConfigured()) {
+      return {
+        success: false,
+        error: 'WhatsApp não configurado',
+        timestamp: new Date(),
+      };
+    }
+
+    try {
+      const formattedNumber = this.formatPhoneNumber(to);
+
+      let messageId: string | undefined;
+
+      if (this.config.provider === 'meta') {
+        const response = await axios.post(
+          `https://graph.facebook.com/v18.0/${this.config.metaPhoneNumberId}/messages`,
+          {
+            messaging_product: 'whatsapp',
+            recipient_type: 'individual',
+            to: formattedNumber,
+            type: 'document',
+            document: {
+              link: documentUrl,
+              filename,
+              caption,
+            },
+          },
+          {
+            headers: {
+              Authorization: `Bearer ${this.config.metaAccessToken}`,
+              'Content-Type': 'application/json',
+            },
+          }
+        );
+        messageId = response.data.messages[0].id;
+      } else {
+        const response = await axios.post(
+          `https://api.twilio.com/2010-04-01/Accounts/${this.config.twilioAccountSid}/Messages.json`,
+          new URLSearchParams({
+            From: `whatsapp:${this.config.twilioWhatsAppNumber}`,
+            To: `whatsapp:${formattedNumber}`,
+            Body: caption,
+            MediaUrl: documentUrl,
+          }),
+          {
+            auth: {
+              username: this.config.twilioAccountSid!,
+              password: this.config.twilioAuthToken!,
+            },
+            headers: {
+              'Content-Type': 'application/x-www-form-urlencoded',
+            },
+          }
+        );
+        messageId = response.data.sid;
+      }
+
+      if (utenteId) {
+        await this.saveMessage(clinicaId, utenteId, 'whatsapp', `${caption}\n${documentUrl}`, 'enviada');
+      }
+
+      return {
+        success: true,
+        messageId,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      console.error('Erro ao enviar documento WhatsApp:', error);
+
+      if (utenteId) {
+        await this.saveMessage(clinicaId, utenteId, 'whatsapp', `${caption}\n${documentUrl}`, 'falhada');
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+        timestamp: new Date(),
+      };
+    }
+  }
+
   /**
    * Enviar mensagem via Meta WhatsApp Business API
    */
@@ -301,6 +397,18 @@ export class WhatsAppService {
     return response.data.sid;
   }
 
+  /**
+   * Validar a assinatura (X-Hub-Signature-256) de um webhook da Meta: HMAC-SHA256 do corpo
+   * original do pedido com o segredo da aplicação. Sem segredo configurado nenhum pedido é aceite
+   */
+  assinaturaMetaValida(corpo: Buffer | undefined, assinatura: string | undefined): boolean {
+    if (!this.config.metaAppSecret || !corpo || !assinatura?.startsWith('sha256=')) return false;
+
+    const esperada = createHmac('sha256', this.config.metaAppSecret).update(corpo).digest();
+    const recebida = Buffer.from(assinatura.slice('sha256='.length), 'hex');
+    return recebida.length === esperada.length && timingSafeEqual(recebida, esperada);
+  }
+
   /**
    * Processar webhook de mensagem recebida (Meta)
    */